@@ -0,0 +1,76 @@
+/**
+ * Unit tests for book upserts and the server-only details cache
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { cacheBookDetails, upsertBook } from "../books";
+import { createFakeCtx, runHandler } from "./fakeCtx.test-utils";
+
+const book = {
+  id: "google-books-DU",
+  title: "Dune",
+  authors: ["Frank Herbert"],
+  source: "google-books",
+  originalId: "DU",
+};
+
+const merged = {
+  ...book,
+  description: "Set on the desert planet Arrakis",
+  language: "en",
+  provenance: { description: "open-library", language: "google-books" },
+};
+
+describe("cacheBookDetails", () => {
+  const originalSecret = process.env.BOOK_CACHE_SECRET;
+
+  afterEach(() => {
+    process.env.BOOK_CACHE_SECRET = originalSecret;
+  });
+
+  it("rejects callers without the server secret", async () => {
+    process.env.BOOK_CACHE_SECRET = "secret";
+    const { ctx, rows } = createFakeCtx();
+
+    await expect(
+      runHandler(cacheBookDetails, ctx, { serverSecret: "", book: merged })
+    ).rejects.toThrow("Not authorized");
+    expect(rows("books")).toHaveLength(0);
+  });
+
+  it("stores merged details with their provenance", async () => {
+    process.env.BOOK_CACHE_SECRET = "secret";
+    const { ctx, rows } = createFakeCtx();
+
+    await runHandler(cacheBookDetails, ctx, {
+      serverSecret: "secret",
+      book: merged,
+    });
+
+    expect(rows("books")[0]).toMatchObject({
+      description: merged.description,
+      provenance: merged.provenance,
+    });
+  });
+});
+
+describe("upsertBook", () => {
+  it("keeps merged details and cachedAt when a caller upserts a search result", async () => {
+    const { ctx, rows } = createFakeCtx();
+    const id = await ctx.db.insert("books", {
+      ...merged,
+      cachedAt: 1,
+      lastAccessedAt: 1,
+    } as never);
+
+    await runHandler(upsertBook, ctx, { ...book, title: "Dune (Deluxe)" });
+
+    expect(rows("books")).toHaveLength(1);
+    expect(await ctx.db.get(id)).toMatchObject({
+      title: "Dune (Deluxe)",
+      description: merged.description,
+      cachedAt: 1,
+      provenance: { description: "open-library" },
+    });
+  });
+});
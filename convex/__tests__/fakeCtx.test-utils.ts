@@ -0,0 +1,94 @@
+/**
+ * In-memory stand-in for a Convex query/mutation ctx, for unit tests
+ *
+ * Supports what the tested modules use: equality index ranges with
+ * first/unique/collect, get, insert and patch, plus an optional signed-in
+ * identity. Index names are not checked; a range matches documents whose
+ * fields equal every `eq` in it.
+ *
+ * (The double extension keeps Convex from deploying this file.)
+ */
+import type { MutationCtx } from "../_generated/server";
+
+type FakeDoc = { _id: string; _creationTime: number } & Record<string, unknown>;
+
+interface FakeRange {
+  eq(field: string, value: unknown): FakeRange;
+}
+
+export function createFakeCtx(identity?: { subject: string }) {
+  const tables = new Map<string, FakeDoc[]>();
+  let nextId = 0;
+
+  const rows = (table: string) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+  const find = (id: string) =>
+    [...tables.values()].flat().find((doc) => doc._id === id);
+
+  const db = {
+    query: (table: string) => ({
+      withIndex: (_index: string, range?: (q: FakeRange) => FakeRange) => {
+        const filters: Array<[string, unknown]> = [];
+        const q: FakeRange = {
+          eq(field, value) {
+            filters.push([field, value]);
+            return q;
+          },
+        };
+        range?.(q);
+        const matches = () =>
+          rows(table).filter((doc) =>
+            filters.every(([field, value]) => doc[field] === value)
+          );
+
+        return {
+          first: async () => matches()[0] ?? null,
+          unique: async () => {
+            const found = matches();
+            if (found.length > 1) {
+              throw new Error(`Expected a unique ${table} document`);
+            }
+            return found[0] ?? null;
+          },
+          collect: async () => matches(),
+        };
+      },
+    }),
+    get: async (id: string) => find(id) ?? null,
+    insert: async (table: string, doc: Record<string, unknown>) => {
+      const _id = `${table}:${nextId++}`;
+      rows(table).push({ _id, _creationTime: Date.now(), ...doc });
+      return _id;
+    },
+    patch: async (id: string, fields: Record<string, unknown>) => {
+      const doc = find(id);
+      if (!doc) throw new Error(`No document ${id}`);
+      Object.assign(doc, fields);
+    },
+  };
+
+  const auth = {
+    getUserIdentity: async () => identity ?? null,
+  };
+
+  return {
+    ctx: { db, auth } as unknown as MutationCtx,
+    /** Documents in a table, for assertions */
+    rows,
+  };
+}
+
+/**
+ * Run a registered query or mutation's handler directly
+ */
+export function runHandler<Result = unknown>(
+  fn: unknown,
+  ctx: MutationCtx,
+  args: Record<string, unknown>
+): Promise<Result> {
+  return (
+    fn as { _handler: (ctx: MutationCtx, args: unknown) => Promise<Result> }
+  )._handler(ctx, args);
+}
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the shared generation task lifecycle
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Id } from "../_generated/dataModel";
+import {
+  claimTask,
+  completeTask,
+  failTask,
+  isTaskStalled,
+  TASK_STALE_MS,
+  updateRunningTask,
+  type TaskLifecycle,
+} from "../generationTasks";
+import { createFakeCtx } from "./fakeCtx.test-utils";
+
+const lifecycle: TaskLifecycle<"bookComparisons"> = {
+  queued: "pending",
+  running: "generating",
+};
+
+async function insertComparison(
+  ctx: ReturnType<typeof createFakeCtx>["ctx"],
+  status: string,
+  updatedAt = Date.now()
+) {
+  return (await ctx.db.insert("bookComparisons", {
+    userId: "user_123",
+    status,
+    updatedAt,
+  } as never)) as Id<"bookComparisons">;
+}
+
+describe("claimTask", () => {
+  it("claims a queued task once", async () => {
+    const { ctx, rows } = createFakeCtx();
+    const id = await insertComparison(ctx, "pending");
+
+    const claimed = await claimTask(ctx, lifecycle, id);
+    expect(claimed?.status).toBe("generating");
+    expect(rows("bookComparisons")[0].status).toBe("generating");
+
+    // A second scheduler run finds nothing to claim
+    expect(await claimTask(ctx, lifecycle, id)).toBe(null);
+  });
+});
+
+describe("updateRunningTask", () => {
+  it("only updates running tasks, refreshing their heartbeat", async () => {
+    const { ctx, rows } = createFakeCtx();
+    const id = await insertComparison(ctx, "pending", 0);
+
+    expect(
+      await updateRunningTask(ctx, lifecycle, id, { content: "Early" })
+    ).toBe(null);
+    expect(rows("bookComparisons")[0]).toMatchObject({ updatedAt: 0 });
+    expect(rows("bookComparisons")[0].content).toBeUndefined();
+
+    await claimTask(ctx, lifecycle, id);
+    rows("bookComparisons")[0].updatedAt = 0;
+    await updateRunningTask(ctx, lifecycle, id, { content: "## At a Glance" });
+    expect(rows("bookComparisons")[0].content).toBe("## At a Glance");
+    expect(rows("bookComparisons")[0].updatedAt).toBeGreaterThan(0);
+  });
+});
+
+describe("completeTask and failTask", () => {
+  it("completes running tasks only", async () => {
+    const { ctx, rows } = createFakeCtx();
+    const id = await insertComparison(ctx, "pending");
+
+    expect(await completeTask(ctx, lifecycle, id, {})).toBe(null);
+    expect(rows("bookComparisons")[0].status).toBe("pending");
+
+    await claimTask(ctx, lifecycle, id);
+    await completeTask(ctx, lifecycle, id, { aiModel: "fake-summarizer" });
+    expect(rows("bookComparisons")[0]).toMatchObject({
+      status: "completed",
+      aiModel: "fake-summarizer",
+    });
+  });
+
+  it("fails queued or running tasks, but not finished ones", async () => {
+    const { ctx, rows } = createFakeCtx();
+    const queued = await insertComparison(ctx, "pending");
+    const completed = await insertComparison(ctx, "completed");
+
+    await failTask(ctx, lifecycle, queued, { errorMessage: "Timed out" });
+    expect(rows("bookComparisons")[0]).toMatchObject({
+      status: "failed",
+      errorMessage: "Timed out",
+    });
+
+    expect(
+      await failTask(ctx, lifecycle, completed, { errorMessage: "Too late" })
+    ).toBe(null);
+    expect(rows("bookComparisons")[1].status).toBe("completed");
+  });
+});
+
+describe("isTaskStalled", () => {
+  it("flags in-flight tasks not updated within the stale window", async () => {
+    const { ctx } = createFakeCtx();
+    const now = Date.now();
+    const task = async (status: string, updatedAt: number) =>
+      (await ctx.db.get(await insertComparison(ctx, status, updatedAt)))!;
+
+    expect(
+      isTaskStalled(await task("pending", now - TASK_STALE_MS), lifecycle, now)
+    ).toBe(true);
+    expect(
+      isTaskStalled(
+        await task("generating", now - TASK_STALE_MS),
+        lifecycle,
+        now
+      )
+    ).toBe(true);
+    expect(
+      isTaskStalled(await task("generating", now - 1000), lifecycle, now)
+    ).toBe(false);
+    expect(
+      isTaskStalled(await task("failed", now - TASK_STALE_MS), lifecycle, now)
+    ).toBe(false);
+  });
+});
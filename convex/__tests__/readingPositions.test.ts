@@ -0,0 +1,143 @@
+/**
+ * Unit tests for saving and loading reading positions
+ */
+
+import { describe, it, expect } from "vitest";
+import { getReadingPosition, saveReadingPosition } from "../readingPositions";
+import { createFakeCtx, runHandler } from "./fakeCtx.test-utils";
+
+const summaryId = "summaries:1";
+
+describe("saveReadingPosition", () => {
+  it("creates a position, then updates the same one", async () => {
+    const { ctx, rows } = createFakeCtx();
+
+    await runHandler(saveReadingPosition, ctx, {
+      userId: "user_123",
+      summaryId,
+      progress: 20,
+      sectionId: "intro",
+    });
+    await runHandler(saveReadingPosition, ctx, {
+      userId: "user_123",
+      summaryId,
+      progress: 45,
+      sectionId: "key-ideas",
+    });
+
+    const positions = rows("readingPositions");
+    expect(positions).toHaveLength(1);
+    expect(positions[0]).toMatchObject({
+      userId: "user_123",
+      summaryId,
+      progress: 45,
+      sectionId: "key-ideas",
+    });
+  });
+
+  it("rounds and clamps progress to 0-100", async () => {
+    const { ctx, rows } = createFakeCtx();
+
+    await runHandler(saveReadingPosition, ctx, {
+      userId: "user_123",
+      summaryId,
+      progress: 130,
+    });
+    expect(rows("readingPositions")[0].progress).toBe(100);
+
+    await runHandler(saveReadingPosition, ctx, {
+      userId: "user_123",
+      summaryId,
+      progress: -4,
+    });
+    expect(rows("readingPositions")[0].progress).toBe(0);
+
+    await runHandler(saveReadingPosition, ctx, {
+      userId: "user_123",
+      summaryId,
+      progress: 33.6,
+    });
+    expect(rows("readingPositions")[0].progress).toBe(34);
+  });
+
+  it("marks the summary read at the end and keeps it read", async () => {
+    const { ctx, rows } = createFakeCtx();
+    const save = (progress: number) =>
+      runHandler(saveReadingPosition, ctx, {
+        userId: "user_123",
+        summaryId,
+        progress,
+      });
+
+    await save(60);
+    expect(rows("readingPositions")[0].completedAt).toBeUndefined();
+
+    await save(98);
+    const completedAt = rows("readingPositions")[0].completedAt;
+    expect(completedAt).toEqual(expect.any(Number));
+
+    // Scrolling back up to reread doesn't unmark it
+    await save(10);
+    expect(rows("readingPositions")[0].completedAt).toBe(completedAt);
+  });
+});
+
+describe("getReadingPosition", () => {
+  it("returns null before the user has read the summary", async () => {
+    const { ctx } = createFakeCtx();
+
+    expect(
+      await runHandler(getReadingPosition, ctx, {
+        userId: "user_123",
+        summaryId,
+      })
+    ).toBe(null);
+  });
+
+  it("keeps positions separate per user and per summary", async () => {
+    const { ctx } = createFakeCtx();
+    const save = (userId: string, summary: string, progress: number) =>
+      runHandler(saveReadingPosition, ctx, {
+        userId,
+        summaryId: summary,
+        progress,
+      });
+    const load = (userId: string, summary: string) =>
+      runHandler<{ progress: number } | null>(getReadingPosition, ctx, {
+        userId,
+        summaryId: summary,
+      });
+
+    await save("user_123", summaryId, 30);
+    await save("user_456", summaryId, 70);
+    await save("user_123", "summaries:2", 50);
+
+    expect((await load("user_123", summaryId))?.progress).toBe(30);
+    expect((await load("user_456", summaryId))?.progress).toBe(70);
+    expect((await load("user_123", "summaries:2"))?.progress).toBe(50);
+    expect(await load("user_456", "summaries:2")).toBe(null);
+  });
+
+  it("returns only the position fields", async () => {
+    const { ctx } = createFakeCtx();
+    await runHandler(saveReadingPosition, ctx, {
+      userId: "user_123",
+      summaryId,
+      progress: 30,
+      sectionId: "intro",
+    });
+
+    expect(
+      await runHandler(getReadingPosition, ctx, {
+        userId: "user_123",
+        summaryId,
+      })
+    ).toEqual({
+      summaryId,
+      progress: 30,
+      sectionId: "intro",
+      completedAt: undefined,
+      updatedAt: expect.any(Number),
+    });
+  });
+});
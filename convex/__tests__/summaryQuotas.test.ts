@@ -0,0 +1,146 @@
+/**
+ * Unit tests for summary quota checks and charging
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ANONYMOUS_POOL,
+  consumeGenerationQuota,
+  findQuotaExceeded,
+  QUOTA_LIMITS,
+  recordGenerationCost,
+  recordGenerationSpend,
+  reserveGeneration,
+} from "../summaryQuotas";
+import { createFakeCtx, runHandler } from "./fakeCtx.test-utils";
+
+const anonymous = "anon:browser-1";
+const signedIn = "user:user_123";
+
+describe("consumeGenerationQuota", () => {
+  it("charges the subject's day and month, and the pool for anonymous subjects", async () => {
+    const { ctx, rows } = createFakeCtx();
+
+    await consumeGenerationQuota(ctx, anonymous);
+
+    const usage = rows("summaryUsage");
+    expect(usage.filter((row) => row.subject === anonymous)).toHaveLength(2);
+    expect(usage.filter((row) => row.subject === ANONYMOUS_POOL)).toHaveLength(
+      2
+    );
+    expect(usage.every((row) => row.generations === 1)).toBe(true);
+  });
+
+  it("stops an anonymous subject at its daily limit", async () => {
+    const { ctx } = createFakeCtx();
+    const limit = QUOTA_LIMITS.anonymous.day.generations;
+
+    for (let i = 0; i < limit; i++) {
+      await consumeGenerationQuota(ctx, anonymous);
+    }
+
+    await expect(consumeGenerationQuota(ctx, anonymous)).rejects.toThrow(
+      `Quota exceeded: You've used all ${limit} summary generations for today. Sign in for a higher limit.`
+    );
+    // Another visitor is unaffected
+    await expect(
+      consumeGenerationQuota(ctx, "anon:browser-2")
+    ).resolves.toBeUndefined();
+  });
+
+  it("holds the shared pool to pool limits, not one visitor's", async () => {
+    const { ctx } = createFakeCtx();
+
+    for (let i = 0; i < QUOTA_LIMITS.anonymous.day.generations * 3; i++) {
+      await consumeGenerationQuota(ctx, ANONYMOUS_POOL);
+    }
+
+    expect(await findQuotaExceeded(ctx, ANONYMOUS_POOL, Date.now())).toBe(null);
+  });
+
+  it("doesn't charge the pool for signed-in subjects", async () => {
+    const { ctx, rows } = createFakeCtx();
+
+    await consumeGenerationQuota(ctx, signedIn);
+
+    expect(rows("summaryUsage").map((row) => row.subject)).not.toContain(
+      ANONYMOUS_POOL
+    );
+  });
+});
+
+describe("findQuotaExceeded", () => {
+  it("allows a subject with no usage", async () => {
+    const { ctx } = createFakeCtx();
+
+    expect(await findQuotaExceeded(ctx, signedIn, Date.now())).toBe(null);
+  });
+
+  it("reports a spent budget", async () => {
+    const { ctx } = createFakeCtx();
+    await recordGenerationCost(
+      ctx,
+      signedIn,
+      QUOTA_LIMITS.signedIn.day.estimatedCost
+    );
+
+    expect(await findQuotaExceeded(ctx, signedIn, Date.now())).toBe(
+      "You've reached your summary generation budget for today."
+    );
+  });
+
+  it("ignores the generation count when asked to check spend only", async () => {
+    const { ctx } = createFakeCtx();
+    for (let i = 0; i < QUOTA_LIMITS.anonymous.day.generations; i++) {
+      await consumeGenerationQuota(ctx, anonymous);
+    }
+
+    expect(await findQuotaExceeded(ctx, anonymous, Date.now())).toMatch(
+      /summary generations for today/
+    );
+    expect(await findQuotaExceeded(ctx, anonymous, Date.now(), false)).toBe(
+      null
+    );
+  });
+
+  it("pauses anonymous subjects once the pool is spent", async () => {
+    const { ctx } = createFakeCtx();
+    await recordGenerationCost(ctx, ANONYMOUS_POOL, 1_000);
+
+    expect(await findQuotaExceeded(ctx, anonymous, Date.now())).toBe(
+      "Summary generation without an account is paused for today. Sign in to keep generating."
+    );
+    expect(await findQuotaExceeded(ctx, signedIn, Date.now())).toBe(null);
+  });
+});
+
+describe("reserveGeneration", () => {
+  it("charges signed-in callers by identity and returns the subject", async () => {
+    const { ctx } = createFakeCtx({ subject: "user_123" });
+
+    expect(
+      await runHandler(reserveGeneration, ctx, { anonymousId: "ignored" })
+    ).toBe(signedIn);
+  });
+
+  it("charges callers without an ID to the pool", async () => {
+    const { ctx } = createFakeCtx();
+
+    expect(await runHandler(reserveGeneration, ctx, {})).toBe(ANONYMOUS_POOL);
+  });
+});
+
+describe("recordGenerationSpend", () => {
+  it("rejects callers without the server secret", async () => {
+    const { ctx, rows } = createFakeCtx();
+
+    await expect(
+      runHandler(recordGenerationSpend, ctx, {
+        serverSecret: "",
+        subject: signedIn,
+        estimatedCost: 0.01,
+      })
+    ).rejects.toThrow("Not authorized");
+    expect(rows("summaryUsage")).toHaveLength(0);
+  });
+});
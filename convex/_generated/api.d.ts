@@ -14,16 +14,35 @@ import type {
   FunctionReference,
 } from "convex/server";
 import type * as analytics from "../analytics.js";
+import type * as bookChats from "../bookChats.js";
+import type * as bookChatsActions from "../bookChatsActions.js";
+import type * as bookComparisons from "../bookComparisons.js";
+import type * as bookComparisonsActions from "../bookComparisonsActions.js";
 import type * as bookOfTheDay from "../bookOfTheDay.js";
+import type * as bookSearch from "../bookSearch.js";
 import type * as books from "../books.js";
 import type * as crons from "../crons.js";
+import type * as discovery from "../discovery.js";
 import type * as favorites from "../favorites.js";
 import type * as http from "../http.js";
 import type * as readList from "../readList.js";
+import type * as readingPositions from "../readingPositions.js";
+import type * as recommendations from "../recommendations.js";
 import type * as savedSummaries from "../savedSummaries.js";
 import type * as seeding from "../seeding.js";
 import type * as seedingHelpers from "../seedingHelpers.js";
+import type * as similarBooks from "../similarBooks.js";
+import type * as studySets from "../studySets.js";
+import type * as studySetsActions from "../studySetsActions.js";
 import type * as summaries from "../summaries.js";
+import type * as summaryHighlights from "../summaryHighlights.js";
+import type * as summaryJobs from "../summaryJobs.js";
+import type * as summaryJobsActions from "../summaryJobsActions.js";
+import type * as summaryNarrations from "../summaryNarrations.js";
+import type * as summaryNarrationsActions from "../summaryNarrationsActions.js";
+import type * as summaryQuotas from "../summaryQuotas.js";
+import type * as summaryRevisions from "../summaryRevisions.js";
+import type * as summaryTemplates from "../summaryTemplates.js";
 import type * as users from "../users.js";
 
 /**
@@ -36,16 +55,35 @@ import type * as users from "../users.js";
  */
 declare const fullApi: ApiFromModules<{
   analytics: typeof analytics;
+  bookChats: typeof bookChats;
+  bookChatsActions: typeof bookChatsActions;
+  bookComparisons: typeof bookComparisons;
+  bookComparisonsActions: typeof bookComparisonsActions;
   bookOfTheDay: typeof bookOfTheDay;
+  bookSearch: typeof bookSearch;
   books: typeof books;
   crons: typeof crons;
+  discovery: typeof discovery;
   favorites: typeof favorites;
   http: typeof http;
   readList: typeof readList;
+  readingPositions: typeof readingPositions;
+  recommendations: typeof recommendations;
   savedSummaries: typeof savedSummaries;
   seeding: typeof seeding;
   seedingHelpers: typeof seedingHelpers;
+  similarBooks: typeof similarBooks;
+  studySets: typeof studySets;
+  studySetsActions: typeof studySetsActions;
   summaries: typeof summaries;
+  summaryHighlights: typeof summaryHighlights;
+  summaryJobs: typeof summaryJobs;
+  summaryJobsActions: typeof summaryJobsActions;
+  summaryNarrations: typeof summaryNarrations;
+  summaryNarrationsActions: typeof summaryNarrationsActions;
+  summaryQuotas: typeof summaryQuotas;
+  summaryRevisions: typeof summaryRevisions;
+  summaryTemplates: typeof summaryTemplates;
   users: typeof users;
 }>;
 export declare const api: FilterApi<
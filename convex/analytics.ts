@@ -5,8 +5,10 @@
  * the search experience without compromising user privacy.
  */
 
-import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { v, VString } from "convex/values";
+import type { SummaryType } from "../src/types/summary";
+import { MAX_PREFERENCE_TERMS } from "../src/types/recommendations";
+import { internalQuery, mutation, query } from "./_generated/server";
 
 /**
  * Log a search query for analytics purposes
@@ -172,6 +174,9 @@ export const getSearchMetrics = query({
 
 /**
  * Record user activity for preference learning
+ *
+ * Search terms and genres are also appended to users.preferences (most
+ * recent last, MAX_PREFERENCE_TERMS kept), which recommendations read.
  */
 export const logUserActivity = mutation({
   args: {
@@ -179,7 +184,8 @@ export const logUserActivity = mutation({
     activityType: v.union(
       v.literal("search"),
       v.literal("favorite"),
-      v.literal("comment")
+      v.literal("comment"),
+      v.literal("quiz")
     ),
     searchTerm: v.optional(v.string()),
     bookTitle: v.optional(v.string()),
@@ -191,6 +197,18 @@ export const logUserActivity = mutation({
     // Only log if we have a user ID (authenticated users only)
     if (!args.userId) return null;
 
+    const terms = [args.searchTerm, args.genre]
+      .map((term) => term?.toLowerCase().trim())
+      .filter((term): term is string => Boolean(term));
+    const user = terms.length > 0 ? await ctx.db.get(args.userId) : null;
+    if (user) {
+      const preferences = [
+        ...user.preferences.filter((term) => !terms.includes(term)),
+        ...terms,
+      ].slice(-MAX_PREFERENCE_TERMS);
+      await ctx.db.patch(user._id, { preferences });
+    }
+
     return await ctx.db.insert("userActivities", {
       userId: args.userId,
       activityType: args.activityType,
@@ -269,12 +287,7 @@ export const getUserSearchPreferences = query({
 export const logSummaryGeneration = mutation({
   args: {
     bookId: v.string(),
-    summaryType: v.union(
-      v.literal("concise"),
-      v.literal("detailed"),
-      v.literal("analysis"),
-      v.literal("practical")
-    ),
+    summaryType: v.string() as VString<SummaryType>,
     userId: v.optional(v.id("users")),
     generationTime: v.number(),
     success: v.boolean(),
@@ -588,3 +601,180 @@ export const getBookSummaryAnalytics = query({
     };
   },
 });
+
+/** Most generations / completed summaries one comparison reads */
+const MAX_COMPARED_GENERATIONS = 5000;
+const MAX_COMPARED_SUMMARIES = 1000;
+
+/**
+ * Compare prompt variants (A/B experiments) per summary type
+ *
+ * Variants are identified by the promptVersion each generation was
+ * assigned (see src/services/summary/promptVariants.ts). Cache hits are
+ * excluded, since no prompt ran.
+ *
+ * Reported per summary type + variant:
+ * - Success rate, average generation time and token cost (summaryAnalytics)
+ * - Save rate: share of its completed summaries that someone saved
+ * - Favourite rate: share of its completed summaries whose book someone
+ *   has favourited
+ *
+ * Internal (run from the dashboard or CLI): it reads across every user's
+ * data. Reads stay bounded - generations and summaries come from timeframe
+ * index ranges (newest first, capped), and engagement is looked up per
+ * summary through indexes instead of scanning the saved/favourite tables.
+ */
+export const comparePromptVariants = internalQuery({
+  args: {
+    summaryType: v.optional(v.string() as VString<SummaryType>),
+    timeframe: v.optional(v.number()), // milliseconds back from now
+  },
+  handler: async (ctx, args) => {
+    const timeframe = args.timeframe || 30 * 24 * 60 * 60 * 1000; // 30 days default
+    const since = Date.now() - timeframe;
+    const variantKey = (summaryType: string, promptVersion: string) =>
+      `${summaryType}|${promptVersion}`;
+
+    const analytics = (
+      await ctx.db
+        .query("summaryAnalytics")
+        .withIndex("byTimestamp", (q) => q.gte("timestamp", since))
+        .order("desc")
+        .take(MAX_COMPARED_GENERATIONS)
+    ).filter(
+      (a) =>
+        !a.cacheHit && (!args.summaryType || a.summaryType === args.summaryType)
+    );
+
+    const summaries = (
+      await ctx.db
+        .query("summaries")
+        .withIndex("byStatusAndUpdatedAt", (q) =>
+          q.eq("status", "completed").gte("updatedAt", since)
+        )
+        .order("desc")
+        .take(MAX_COMPARED_SUMMARIES)
+    ).filter((s) => !args.summaryType || s.summaryType === args.summaryType);
+
+    // Engagement lookups, one indexed read per summary (favourites per book)
+    const savedSummaryIds = new Set<string>();
+    const favoritedByBook = new Map<string, boolean>();
+    for (const summary of summaries) {
+      const saved = await ctx.db
+        .query("savedSummaries")
+        .withIndex("bySummary", (q) => q.eq("summaryIdRef", summary._id))
+        .first();
+      if (saved) savedSummaryIds.add(summary._id);
+
+      if (!favoritedByBook.has(summary.bookId)) {
+        const book = await ctx.db
+          .query("books")
+          .withIndex("by_book_id", (q) => q.eq("id", summary.bookId))
+          .first();
+        const favorite = book
+          ? await ctx.db
+              .query("favorites")
+              .withIndex("byBook", (q) => q.eq("bookIdRef", book._id))
+              .first()
+          : null;
+        favoritedByBook.set(summary.bookId, favorite !== null);
+      }
+    }
+
+    const variants = new Map<
+      string,
+      {
+        summaryType: string;
+        promptVersion: string;
+        generations: number;
+        successful: number;
+        totalTime: number;
+        totalCost: number;
+        totalTokens: number;
+        summaries: number;
+        saved: number;
+        favorited: number;
+      }
+    >();
+    const getVariant = (summaryType: string, promptVersion: string) => {
+      const key = variantKey(summaryType, promptVersion);
+      let variant = variants.get(key);
+      if (!variant) {
+        variant = {
+          summaryType,
+          promptVersion,
+          generations: 0,
+          successful: 0,
+          totalTime: 0,
+          totalCost: 0,
+          totalTokens: 0,
+          summaries: 0,
+          saved: 0,
+          favorited: 0,
+        };
+        variants.set(key, variant);
+      }
+      return variant;
+    };
+
+    for (const analytic of analytics) {
+      const variant = getVariant(analytic.summaryType, analytic.promptVersion);
+      variant.generations++;
+      if (analytic.success) {
+        variant.successful++;
+        variant.totalTime += analytic.generationTime;
+        variant.totalCost += analytic.tokenUsage?.estimatedCost || 0;
+        variant.totalTokens += analytic.tokenUsage?.totalTokens || 0;
+      }
+    }
+
+    for (const summary of summaries) {
+      if (!summary.promptVersion) continue;
+      const variant = getVariant(summary.summaryType, summary.promptVersion);
+      variant.summaries++;
+      if (savedSummaryIds.has(summary._id)) variant.saved++;
+      if (favoritedByBook.get(summary.bookId)) variant.favorited++;
+    }
+
+    const round = (value: number, places: number) =>
+      Math.round(value * 10 ** places) / 10 ** places;
+
+    return Array.from(variants.values())
+      .map((variant) => ({
+        summaryType: variant.summaryType,
+        promptVersion: variant.promptVersion,
+        generations: variant.generations,
+        successRate:
+          variant.generations > 0
+            ? round(variant.successful / variant.generations, 2)
+            : 0,
+        avgGenerationTime:
+          variant.successful > 0
+            ? Math.round(variant.totalTime / variant.successful)
+            : 0,
+        avgTokens:
+          variant.successful > 0
+            ? Math.round(variant.totalTokens / variant.successful)
+            : 0,
+        avgCost:
+          variant.successful > 0
+            ? round(variant.totalCost / variant.successful, 6)
+            : 0,
+        totalCost: round(variant.totalCost, 4),
+        summaries: variant.summaries,
+        saveRate:
+          variant.summaries > 0
+            ? round(variant.saved / variant.summaries, 2)
+            : 0,
+        favoriteRate:
+          variant.summaries > 0
+            ? round(variant.favorited / variant.summaries, 2)
+            : 0,
+      }))
+      .sort(
+        (a, b) =>
+          a.summaryType.localeCompare(b.summaryType) ||
+          b.generations - a.generations
+      );
+  },
+});
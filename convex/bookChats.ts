@@ -0,0 +1,443 @@
+/**
+ * Convex Book Chats - Follow-up questions about a book
+ *
+ * A reader's questions about one book, answered from the book's stored
+ * summaries (every type) and description. Threads belong to a signed-in
+ * user. Answers are written by bookChatsActions.ts and streamed into the
+ * answer message, so the chat panel sees them appear live.
+ *
+ * Answers run on the summary provider registry and are charged to the
+ * reader's spend budget like narrations (see summaryQuotas); they don't
+ * count as summary generations.
+ *
+ * This module is responsible for:
+ * - Listing a reader's threads for a book, and loading one with messages
+ * - Accepting questions and scheduling their answers
+ * - Recording answer progress, completion and failure (called by the action)
+ */
+
+import { v, VString } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { MAX_CHAT_QUESTION_LENGTH } from "../src/types/chat";
+import type { SummaryType } from "../src/types/summary";
+import { assertWithinBudget, getChargedQuotaSubject } from "./summaryQuotas";
+import {
+  claimTask,
+  completeTask,
+  failTask,
+  isTaskStalled,
+  updateRunningTask,
+  type TaskLifecycle,
+} from "./generationTasks";
+
+/** Longest thread title, taken from the opening question */
+const MAX_TITLE_LENGTH = 80;
+
+const ANSWER_LIFECYCLE: TaskLifecycle<"bookChatMessages"> = {
+  queued: "pending",
+  running: "streaming",
+};
+
+const citationValidator = v.object({
+  summaryId: v.id("summaries"),
+  summaryType: v.string() as VString<SummaryType>,
+  summaryTypeLabel: v.string(),
+  sectionId: v.optional(v.string()),
+  heading: v.string(),
+});
+
+/**
+ * Thread title from its opening question
+ */
+function toThreadTitle(question: string): string {
+  const line = question.replace(/\s+/g, " ").trim();
+  return line.length <= MAX_TITLE_LENGTH
+    ? line
+    : `${line.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`;
+}
+
+/**
+ * Load a thread if it belongs to the user
+ */
+async function getOwnThread(
+  ctx: QueryCtx,
+  threadId: Id<"bookChatThreads">,
+  userId: string
+): Promise<Doc<"bookChatThreads"> | null> {
+  const thread = await ctx.db.get(threadId);
+  return thread?.userId === userId ? thread : null;
+}
+
+/**
+ * Completed, real summaries of a book - what answers are grounded in
+ */
+async function getChatSummaries(ctx: QueryCtx, bookId: string) {
+  return await ctx.db
+    .query("summaries")
+    .withIndex("byBookAndType", (q) => q.eq("bookId", bookId))
+    .filter((q) =>
+      q.and(
+        q.eq(q.field("status"), "completed"),
+        q.neq(q.field("generationMode"), "mock")
+      )
+    )
+    .collect();
+}
+
+function toThread(thread: Doc<"bookChatThreads">) {
+  return {
+    id: thread._id,
+    bookId: thread.bookId,
+    title: thread.title,
+    createdAt: thread.createdAt,
+    updatedAt: thread.updatedAt,
+  };
+}
+
+/**
+ * List a user's threads about a book, most recent first
+ */
+export const listThreads = query({
+  args: {
+    userId: v.string(),
+    bookId: v.string(),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const threads = await ctx.db
+      .query("bookChatThreads")
+      .withIndex("byUserAndBook", (q) =>
+        q.eq("userId", args.userId).eq("bookId", args.bookId)
+      )
+      .order("desc")
+      .collect();
+
+    return threads.map(toThread);
+  },
+});
+
+/**
+ * Get a thread and its messages, oldest first
+ *
+ * Returns null if the thread doesn't exist or belongs to someone else.
+ * Clients subscribe to this, so answers are pushed as they stream.
+ */
+export const getThread = query({
+  args: {
+    userId: v.string(),
+    threadId: v.id("bookChatThreads"),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const thread = await getOwnThread(ctx, args.threadId, args.userId);
+    if (!thread) return null;
+
+    const messages = await ctx.db
+      .query("bookChatMessages")
+      .withIndex("byThread", (q) => q.eq("threadId", thread._id))
+      .collect();
+
+    return {
+      ...toThread(thread),
+      messages: messages.map((message) => ({
+        id: message._id,
+        role: message.role,
+        content: message.content,
+        status: message.status,
+        citations: message.citations,
+        aiModel: message.aiModel,
+        lastError: message.lastError,
+        createdAt: message.createdAt,
+      })),
+    };
+  },
+});
+
+/**
+ * Ask a question about a book
+ *
+ * Flow:
+ * 1. Validate the question, and the thread if continuing one
+ * 2. Check the book has a completed summary to answer from
+ * 3. Check the reader's spend budget (throws "Quota exceeded: ...")
+ * 4. Store the question and a pending answer, then schedule the answer
+ *
+ * Starts a new thread, titled after the question, when threadId is
+ * omitted. Returns the thread and answer message IDs.
+ */
+export const sendMessage = mutation({
+  args: {
+    userId: v.string(),
+    bookId: v.string(),
+    threadId: v.optional(v.id("bookChatThreads")),
+    question: v.string(),
+    language: v.optional(v.string()), // Language to answer in (English if omitted)
+  },
+  returns: v.object({
+    threadId: v.id("bookChatThreads"),
+    messageId: v.id("bookChatMessages"),
+  }),
+  handler: async (ctx, args) => {
+    // Step 1: Validate
+    const question = args.question.trim();
+    if (!question) {
+      throw new Error("Question is empty");
+    }
+    if (question.length > MAX_CHAT_QUESTION_LENGTH) {
+      throw new Error(
+        `Question is too long (${MAX_CHAT_QUESTION_LENGTH} characters maximum)`
+      );
+    }
+
+    const now = Date.now();
+    let thread: Doc<"bookChatThreads"> | null = null;
+    if (args.threadId) {
+      thread = await getOwnThread(ctx, args.threadId, args.userId);
+      if (!thread || thread.bookId !== args.bookId) {
+        throw new Error(`Chat thread not found: ${args.threadId}`);
+      }
+
+      const last = await ctx.db
+        .query("bookChatMessages")
+        .withIndex("byThread", (q) => q.eq("threadId", thread!._id))
+        .order("desc")
+        .first();
+      if (last?.status === "pending" || last?.status === "streaming") {
+        if (!isTaskStalled(last, ANSWER_LIFECYCLE, now)) {
+          throw new Error("Wait for the current answer before asking again");
+        }
+        // Its action died; let the reader move on
+        await failTask(ctx, ANSWER_LIFECYCLE, last._id, {
+          lastError: "Answer timed out",
+        });
+      }
+    }
+
+    // Step 2: Something to answer from
+    const book = await ctx.db
+      .query("books")
+      .withIndex("by_book_id", (q) => q.eq("id", args.bookId))
+      .first();
+    if (!book) {
+      throw new Error(`Book not found: ${args.bookId}`);
+    }
+    const summaries = await getChatSummaries(ctx, args.bookId);
+    if (summaries.length === 0) {
+      throw new Error("Generate a summary of this book before asking about it");
+    }
+
+    // Step 3: Spend budget
+    const quotaSubject = await getChargedQuotaSubject(ctx);
+    await assertWithinBudget(ctx, quotaSubject);
+
+    // Step 4: Store and schedule
+    const threadId =
+      thread?._id ??
+      (await ctx.db.insert("bookChatThreads", {
+        userId: args.userId,
+        bookId: args.bookId,
+        title: toThreadTitle(question),
+        createdAt: now,
+        updatedAt: now,
+      }));
+    if (thread) {
+      await ctx.db.patch(thread._id, { updatedAt: now });
+    }
+
+    await ctx.db.insert("bookChatMessages", {
+      threadId,
+      role: "user",
+      content: question,
+      status: "completed",
+      citations: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+    const messageId = await ctx.db.insert("bookChatMessages", {
+      threadId,
+      role: "assistant",
+      content: "",
+      status: "pending",
+      citations: [],
+      language: args.language,
+      quotaSubject,
+      // Sorts after the question it answers
+      createdAt: now + 1,
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.bookChatsActions.answerMessage, {
+      messageId,
+    });
+
+    return { threadId, messageId };
+  },
+});
+
+/**
+ * Delete a thread and its messages
+ */
+export const deleteThread = mutation({
+  args: {
+    userId: v.string(),
+    threadId: v.id("bookChatThreads"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const thread = await getOwnThread(ctx, args.threadId, args.userId);
+    if (!thread) {
+      throw new Error(`Chat thread not found: ${args.threadId}`);
+    }
+
+    const messages = await ctx.db
+      .query("bookChatMessages")
+      .withIndex("byThread", (q) => q.eq("threadId", thread._id))
+      .collect();
+    for (const message of messages) {
+      await ctx.db.delete(message._id);
+    }
+    await ctx.db.delete(thread._id);
+    return null;
+  },
+});
+
+/**
+ * Claim a pending answer and load what it is grounded in: the earlier
+ * turns, the question, the book and its summaries
+ */
+export const claimAnswer = internalMutation({
+  args: { messageId: v.id("bookChatMessages") },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const message = await claimTask(ctx, ANSWER_LIFECYCLE, args.messageId);
+    if (!message) {
+      return null;
+    }
+    const thread = await ctx.db.get(message.threadId);
+    if (!thread) {
+      return null;
+    }
+
+    // Everything before the answer: earlier turns, then the question
+    const earlier = await ctx.db
+      .query("bookChatMessages")
+      .withIndex("byThread", (q) =>
+        q.eq("threadId", thread._id).lt("createdAt", message.createdAt)
+      )
+      .collect();
+    const question = earlier.pop();
+
+    const book = await ctx.db
+      .query("books")
+      .withIndex("by_book_id", (q) => q.eq("id", thread.bookId))
+      .first();
+    const summaries = await getChatSummaries(ctx, thread.bookId);
+
+    return {
+      message,
+      question: question?.role === "user" ? question.content : undefined,
+      history: earlier
+        .filter((turn) => turn.status === "completed" && turn.content)
+        .map((turn) => ({ role: turn.role, content: turn.content })),
+      book,
+      summaries: summaries.map((summary) => ({
+        id: summary._id,
+        summaryType: summary.summaryType,
+        content: summary.content,
+        structured: summary.structured,
+        language: summary.language,
+      })),
+    };
+  },
+});
+
+/**
+ * Publish partial answer content while it streams
+ *
+ * Keeps sendMessage from treating the answer as stalled.
+ */
+export const updateAnswerProgress = internalMutation({
+  args: {
+    messageId: v.id("bookChatMessages"),
+    content: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await updateRunningTask(ctx, ANSWER_LIFECYCLE, args.messageId, {
+      content: args.content,
+    });
+    return null;
+  },
+});
+
+/**
+ * Store the finished answer and charge its cost to the reader
+ */
+export const completeAnswer = internalMutation({
+  args: {
+    messageId: v.id("bookChatMessages"),
+    content: v.string(),
+    citations: v.array(citationValidator),
+    provider: v.union(
+      v.literal("openai"),
+      v.literal("local"),
+      v.literal("fake")
+    ),
+    aiModel: v.string(),
+    tokenUsage: v.optional(
+      v.object({
+        promptTokens: v.number(),
+        completionTokens: v.number(),
+        totalTokens: v.number(),
+        estimatedCost: v.optional(v.number()),
+      })
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const message = await completeTask(
+      ctx,
+      ANSWER_LIFECYCLE,
+      args.messageId,
+      {
+        content: args.content,
+        citations: args.citations,
+        provider: args.provider,
+        aiModel: args.aiModel,
+        tokenUsage: args.tokenUsage,
+      },
+      args.tokenUsage?.estimatedCost
+    );
+    if (message) {
+      await ctx.db.patch(message.threadId, { updatedAt: Date.now() });
+    }
+    return null;
+  },
+});
+
+/**
+ * Mark an answer failed
+ *
+ * Whatever streamed before the failure is kept for context; asking again
+ * adds a new question.
+ */
+export const failAnswer = internalMutation({
+  args: {
+    messageId: v.id("bookChatMessages"),
+    errorMessage: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await failTask(ctx, ANSWER_LIFECYCLE, args.messageId, {
+      lastError: args.errorMessage,
+    });
+    return null;
+  },
+});
@@ -0,0 +1,129 @@
+"use node";
+
+/**
+ * Convex Book Chat Actions - LLM calls for chat answers
+ *
+ * Each answer is grounded in a context built fresh from the book's
+ * summaries when the run starts, so a summary generated after the question
+ * was asked still counts.
+ *
+ * Flow per run:
+ * 1. Claim the answer (no-op if another run already has it)
+ * 2. Build the context from the book's summaries and description
+ * 3. Stream the answer, publishing partial content (citation markers
+ *    removed) at most every PROGRESS_INTERVAL_MS
+ * 4. Store the answer with its citations, or fail it on error
+ */
+
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { convexBookToBook } from "../src/lib/convexBookHelpers";
+import { parseStructuredSummary } from "../src/types/summary";
+import type { BookChatAnswer } from "../src/types/chat";
+import {
+  buildBookChatContext,
+  stripCitationMarkers,
+  type ChatSummarySource,
+} from "../src/services/chat/bookChatContext";
+import { streamBookChatAnswer } from "../src/services/chat/answerQuestion";
+
+/** Minimum gap between partial content writes, to bound mutation volume */
+const PROGRESS_INTERVAL_MS = 500;
+
+export const answerMessage = internalAction({
+  args: { messageId: v.id("bookChatMessages") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const claimed = await ctx.runMutation(internal.bookChats.claimAnswer, {
+      messageId: args.messageId,
+    });
+    if (!claimed) {
+      return null;
+    }
+
+    try {
+      if (!claimed.book) {
+        throw new Error("Book no longer exists");
+      }
+      if (!claimed.question) {
+        throw new Error("No question to answer");
+      }
+
+      const book = convexBookToBook(claimed.book);
+      const context = buildBookChatContext(
+        {
+          title: book.title,
+          authors: book.authors,
+          description: book.description,
+        },
+        claimed.summaries.map((summary: ChatSummarySource) => ({
+          ...summary,
+          structured: parseStructuredSummary(summary.structured),
+        })),
+        claimed.message.language
+      );
+      if (context.passages.length === 0) {
+        throw new Error("No summary of this book to answer from");
+      }
+
+      let answer: BookChatAnswer | undefined;
+      let content = "";
+      let lastPublishedAt = 0;
+
+      for await (const event of streamBookChatAnswer(
+        book,
+        context,
+        claimed.history,
+        claimed.question,
+        { language: claimed.message.language }
+      )) {
+        if (event.type === "error") {
+          throw new Error(event.message);
+        }
+        if (event.type === "done") {
+          answer = event.answer;
+          break;
+        }
+
+        content += event.content;
+        if (Date.now() - lastPublishedAt >= PROGRESS_INTERVAL_MS) {
+          lastPublishedAt = Date.now();
+          await ctx.runMutation(internal.bookChats.updateAnswerProgress, {
+            messageId: args.messageId,
+            content: stripCitationMarkers(content),
+          });
+        }
+      }
+
+      if (!answer) {
+        throw new Error("Answer stream ended unexpectedly");
+      }
+
+      await ctx.runMutation(internal.bookChats.completeAnswer, {
+        messageId: args.messageId,
+        content: answer.content,
+        citations: answer.citations.map((citation) => ({
+          ...citation,
+          summaryId: citation.summaryId as Id<"summaries">,
+        })),
+        provider: answer.provider,
+        aiModel: answer.aiModel,
+        tokenUsage: answer.usage,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      console.error(`Chat answer ${args.messageId} failed:`, error);
+
+      await ctx.runMutation(internal.bookChats.failAnswer, {
+        messageId: args.messageId,
+        errorMessage,
+      });
+    }
+
+    return null;
+  },
+});
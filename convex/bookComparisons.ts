@@ -0,0 +1,551 @@
+/**
+ * Convex Book Comparisons - Side-by-side analyses of several books
+ *
+ * A comparison covers 2-5 books the user has favorited or added to their
+ * read list, and is stored on its own, linking every compared book. It is
+ * written by bookComparisonsActions.ts and streamed into the row, so the
+ * comparison page shows it appearing live. Anyone with the link can read
+ * a comparison; signed-in users can save it like a summary.
+ *
+ * A comparison counts as one summary generation against the creator's
+ * quota, and its cost is added to their spend (see summaryQuotas).
+ *
+ * This module is responsible for:
+ * - Listing the books a user can compare
+ * - Accepting comparison requests and scheduling their generation
+ * - Loading comparisons, and a user's saved comparisons
+ * - Saving and unsaving comparisons
+ * - Recording generation progress, completion and failure (called by the action)
+ */
+
+import { v } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  getComparisonTitle,
+  MAX_COMPARISON_BOOKS,
+  MIN_COMPARISON_BOOKS,
+} from "../src/types/comparison";
+import {
+  calculateReadingTime,
+  calculateWordCount,
+  normalizeLanguageCode,
+  toStoredLanguage,
+} from "../src/types/summary";
+import { structuredSummaryValidator } from "./schema";
+import {
+  consumeGenerationQuota,
+  getChargedQuotaSubject,
+} from "./summaryQuotas";
+import {
+  claimTask,
+  completeTask,
+  failTask,
+  isTaskStalled,
+  updateRunningTask,
+  type TaskLifecycle,
+} from "./generationTasks";
+
+const COMPARISON_LIFECYCLE: TaskLifecycle<"bookComparisons"> = {
+  queued: "pending",
+  running: "generating",
+};
+
+/**
+ * Whether the user has favorited a book or added it to their read list
+ */
+async function isUserBook(
+  ctx: QueryCtx,
+  userId: string,
+  bookIdRef: Id<"books">
+): Promise<boolean> {
+  const favorite = await ctx.db
+    .query("favorites")
+    .withIndex("byUserAndBook", (q) =>
+      q.eq("userId", userId).eq("bookIdRef", bookIdRef)
+    )
+    .first();
+  if (favorite) return true;
+
+  const listed = await ctx.db
+    .query("readList")
+    .withIndex("byUserAndBook", (q) =>
+      q.eq("userId", userId).eq("bookIdRef", bookIdRef)
+    )
+    .first();
+  return listed !== null;
+}
+
+/**
+ * Map a comparison row to what clients render, with its books
+ */
+async function toComparison(ctx: QueryCtx, comparison: Doc<"bookComparisons">) {
+  const books = await Promise.all(
+    comparison.bookIdRefs.map((bookIdRef) => ctx.db.get(bookIdRef))
+  );
+
+  return {
+    id: comparison._id,
+    books: comparison.bookIds.map((id, index) => ({
+      id,
+      title: books[index]?.title ?? "Unknown book",
+      authors: books[index]?.authors ?? [],
+      thumbnail: books[index]?.thumbnail,
+    })),
+    title: comparison.title,
+    content: comparison.content,
+    structured: comparison.structured,
+    language: comparison.language,
+    status: comparison.status,
+    wordCount: comparison.wordCount,
+    readingTime: comparison.readingTime,
+    aiModel: comparison.aiModel,
+    errorMessage: comparison.errorMessage,
+    createdAt: comparison.createdAt,
+    updatedAt: comparison.updatedAt,
+  };
+}
+
+/**
+ * Books a user can compare: their favorites and read list, deduplicated
+ *
+ * Most recently added first.
+ */
+export const getComparableBooks = query({
+  args: {
+    userId: v.string(),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const favorites = await ctx.db
+      .query("favorites")
+      .withIndex("byUserId", (q) => q.eq("userId", args.userId))
+      .collect();
+    const readList = await ctx.db
+      .query("readList")
+      .withIndex("byUserId", (q) => q.eq("userId", args.userId))
+      .collect();
+
+    const addedAt = new Map<Id<"books">, number>();
+    for (const entry of [...favorites, ...readList]) {
+      addedAt.set(
+        entry.bookIdRef,
+        Math.max(addedAt.get(entry.bookIdRef) ?? 0, entry.addedAt)
+      );
+    }
+
+    const books = await Promise.all(
+      [...addedAt.keys()].map((bookIdRef) => ctx.db.get(bookIdRef))
+    );
+
+    return books
+      .filter((book): book is Doc<"books"> => book !== null)
+      .sort((a, b) => addedAt.get(b._id)! - addedAt.get(a._id)!)
+      .map((book) => ({
+        id: book.id,
+        title: book.title,
+        authors: book.authors,
+        thumbnail: book.thumbnail,
+        favorite: favorites.some((entry) => entry.bookIdRef === book._id),
+        readingStatus: readList.find((entry) => entry.bookIdRef === book._id)
+          ?.status,
+      }));
+  },
+});
+
+/**
+ * Start a comparison of 2-5 of the user's books
+ *
+ * Flow:
+ * 1. Validate the selection (distinct books, each in the user's favorites
+ *    or read list) and the language
+ * 2. Return the same comparison if it is still being written. One whose
+ *    action died is failed and retried without charging again
+ * 3. Otherwise charge the user one generation (throws "Quota exceeded: ...")
+ * 4. Store a pending comparison and schedule its generation
+ *
+ * Returns the comparison ID; its page shows it as it is written.
+ */
+export const createComparison = mutation({
+  args: {
+    userId: v.string(),
+    bookIds: v.array(v.string()), // External book identifiers, in display order
+    language: v.optional(v.string()), // ISO 639-1 code to write in (English if omitted)
+  },
+  returns: v.id("bookComparisons"),
+  handler: async (ctx, args) => {
+    // Step 1: Validate
+    const bookIds = [...new Set(args.bookIds)];
+    if (
+      bookIds.length < MIN_COMPARISON_BOOKS ||
+      bookIds.length > MAX_COMPARISON_BOOKS
+    ) {
+      throw new Error(
+        `Pick ${MIN_COMPARISON_BOOKS} to ${MAX_COMPARISON_BOOKS} different books to compare`
+      );
+    }
+
+    const books: Doc<"books">[] = [];
+    for (const bookId of bookIds) {
+      const book = await ctx.db
+        .query("books")
+        .withIndex("by_book_id", (q) => q.eq("id", bookId))
+        .first();
+      if (!book) {
+        throw new Error(`Book not found: ${bookId}`);
+      }
+      if (!(await isUserBook(ctx, args.userId, book._id))) {
+        throw new Error(
+          `Add "${book.title}" to your favorites or read list to compare it`
+        );
+      }
+      books.push(book);
+    }
+
+    let language: string | undefined;
+    if (args.language) {
+      const code = normalizeLanguageCode(args.language);
+      if (!code) {
+        throw new Error(`Unsupported comparison language: ${args.language}`);
+      }
+      language = toStoredLanguage(code);
+    }
+
+    // Step 2: Reuse the same comparison if it is already being written
+    const now = Date.now();
+    const inFlight = await ctx.db
+      .query("bookComparisons")
+      .withIndex("byUserId", (q) => q.eq("userId", args.userId))
+      .filter((q) =>
+        q.or(
+          q.eq(q.field("status"), "pending"),
+          q.eq(q.field("status"), "generating")
+        )
+      )
+      .collect();
+    const existing = inFlight.find(
+      (comparison) =>
+        comparison.bookIds.join("\n") === bookIds.join("\n") &&
+        comparison.language === language
+    );
+
+    let quotaSubject: string | undefined;
+    if (existing) {
+      if (!isTaskStalled(existing, COMPARISON_LIFECYCLE, now)) {
+        return existing._id;
+      }
+      // Its action died: retry on the quota already charged for it
+      await failTask(ctx, COMPARISON_LIFECYCLE, existing._id, {
+        errorMessage: "Comparison timed out",
+      });
+      quotaSubject = existing.quotaSubject;
+    } else {
+      // Step 3: Quota
+      quotaSubject = await getChargedQuotaSubject(ctx);
+      await consumeGenerationQuota(ctx, quotaSubject);
+    }
+
+    // Step 4: Store and schedule
+    const comparisonId = await ctx.db.insert("bookComparisons", {
+      userId: args.userId,
+      bookIdRefs: books.map((book) => book._id),
+      bookIds,
+      title: getComparisonTitle(books),
+      content: "",
+      language,
+      status: "pending",
+      wordCount: 0,
+      readingTime: 0,
+      quotaSubject,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(
+      0,
+      internal.bookComparisonsActions.generateComparison,
+      { comparisonId }
+    );
+
+    return comparisonId;
+  },
+});
+
+/**
+ * Get a comparison with its books
+ *
+ * Public, so shared links work for anyone. Returns null for unknown or
+ * malformed IDs. Clients subscribe to this, so content is pushed as it
+ * streams.
+ */
+export const getComparison = query({
+  args: {
+    comparisonId: v.string(), // Accept string ID from URL params
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const comparisonId = ctx.db.normalizeId(
+      "bookComparisons",
+      args.comparisonId
+    );
+    const comparison = comparisonId ? await ctx.db.get(comparisonId) : null;
+    if (!comparison) return null;
+
+    return await toComparison(ctx, comparison);
+  },
+});
+
+/**
+ * List the comparisons a user has created, most recent first
+ */
+export const listComparisons = query({
+  args: {
+    userId: v.string(),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const comparisons = await ctx.db
+      .query("bookComparisons")
+      .withIndex("byUserId", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      comparisons.map((comparison) => toComparison(ctx, comparison))
+    );
+  },
+});
+
+/**
+ * Save a comparison for a user
+ *
+ * Only completed comparisons can be saved; saving twice is a no-op.
+ */
+export const saveComparison = mutation({
+  args: {
+    userId: v.string(),
+    comparisonId: v.id("bookComparisons"),
+  },
+  returns: v.id("savedComparisons"),
+  handler: async (ctx, args) => {
+    const comparison = await ctx.db.get(args.comparisonId);
+    if (!comparison) {
+      throw new Error(`Comparison not found: ${args.comparisonId}`);
+    }
+    if (comparison.status !== "completed") {
+      throw new Error("Only finished comparisons can be saved");
+    }
+
+    const existing = await ctx.db
+      .query("savedComparisons")
+      .withIndex("byUserAndComparison", (q) =>
+        q.eq("userId", args.userId).eq("comparisonIdRef", args.comparisonId)
+      )
+      .first();
+    if (existing) {
+      return existing._id;
+    }
+
+    return await ctx.db.insert("savedComparisons", {
+      userId: args.userId,
+      comparisonIdRef: args.comparisonId,
+      savedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Remove a saved comparison
+ */
+export const removeSavedComparison = mutation({
+  args: {
+    userId: v.string(),
+    comparisonId: v.id("bookComparisons"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const saved = await ctx.db
+      .query("savedComparisons")
+      .withIndex("byUserAndComparison", (q) =>
+        q.eq("userId", args.userId).eq("comparisonIdRef", args.comparisonId)
+      )
+      .first();
+
+    if (saved) {
+      await ctx.db.delete(saved._id);
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Check if a comparison is saved by user
+ */
+export const isComparisonSaved = query({
+  args: {
+    userId: v.string(),
+    comparisonId: v.id("bookComparisons"),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const saved = await ctx.db
+      .query("savedComparisons")
+      .withIndex("byUserAndComparison", (q) =>
+        q.eq("userId", args.userId).eq("comparisonIdRef", args.comparisonId)
+      )
+      .first();
+
+    return saved !== null;
+  },
+});
+
+/**
+ * Get a user's saved comparisons, most recently saved first
+ *
+ * Comparisons deleted since saving are skipped.
+ */
+export const getSavedComparisons = query({
+  args: {
+    userId: v.string(),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const saved = await ctx.db
+      .query("savedComparisons")
+      .withIndex("byUserId", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .collect();
+
+    const comparisons = await Promise.all(
+      saved.map(async (entry) => {
+        const comparison = await ctx.db.get(entry.comparisonIdRef);
+        return comparison
+          ? { ...(await toComparison(ctx, comparison)), savedAt: entry.savedAt }
+          : null;
+      })
+    );
+
+    return comparisons.filter((comparison) => comparison !== null);
+  },
+});
+
+/**
+ * Claim a pending comparison and load its books, skipping any deleted
+ * since it was requested
+ */
+export const claimComparison = internalMutation({
+  args: { comparisonId: v.id("bookComparisons") },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const comparison = await claimTask(
+      ctx,
+      COMPARISON_LIFECYCLE,
+      args.comparisonId
+    );
+    if (!comparison) {
+      return null;
+    }
+
+    const books = await Promise.all(
+      comparison.bookIdRefs.map((bookIdRef) => ctx.db.get(bookIdRef))
+    );
+
+    return {
+      comparison,
+      books: books.filter((book): book is Doc<"books"> => book !== null),
+    };
+  },
+});
+
+/**
+ * Publish partial comparison content while it streams
+ *
+ * Keeps createComparison from treating the comparison as stalled.
+ */
+export const updateComparisonProgress = internalMutation({
+  args: {
+    comparisonId: v.id("bookComparisons"),
+    content: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await updateRunningTask(ctx, COMPARISON_LIFECYCLE, args.comparisonId, {
+      content: args.content,
+    });
+    return null;
+  },
+});
+
+/**
+ * Store the finished comparison and charge its cost to the creator
+ */
+export const completeComparison = internalMutation({
+  args: {
+    comparisonId: v.id("bookComparisons"),
+    content: v.string(),
+    structured: v.optional(structuredSummaryValidator),
+    provider: v.union(
+      v.literal("openai"),
+      v.literal("local"),
+      v.literal("fake")
+    ),
+    aiModel: v.string(),
+    generationTime: v.number(),
+    tokenUsage: v.optional(
+      v.object({
+        promptTokens: v.number(),
+        completionTokens: v.number(),
+        totalTokens: v.number(),
+        estimatedCost: v.optional(v.number()),
+      })
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const wordCount = calculateWordCount(args.content);
+    await completeTask(
+      ctx,
+      COMPARISON_LIFECYCLE,
+      args.comparisonId,
+      {
+        content: args.content,
+        structured: args.structured,
+        wordCount,
+        readingTime: calculateReadingTime(wordCount),
+        provider: args.provider,
+        aiModel: args.aiModel,
+        generationTime: args.generationTime,
+        tokenUsage: args.tokenUsage,
+      },
+      args.tokenUsage?.estimatedCost
+    );
+    return null;
+  },
+});
+
+/**
+ * Mark a comparison failed
+ *
+ * Whatever streamed before the failure is kept; comparing again starts a
+ * new comparison.
+ */
+export const failComparison = internalMutation({
+  args: {
+    comparisonId: v.id("bookComparisons"),
+    errorMessage: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await failTask(ctx, COMPARISON_LIFECYCLE, args.comparisonId, {
+      errorMessage: args.errorMessage,
+    });
+    return null;
+  },
+});
@@ -0,0 +1,101 @@
+"use node";
+
+/**
+ * Convex Book Comparison Actions - LLM calls for comparisons
+ *
+ * Books are read back from the books table when the run starts, so the
+ * comparison uses their latest descriptions; books deleted since the
+ * request are left out, and too few remaining fails the comparison.
+ *
+ * Flow per run:
+ * 1. Claim the comparison (no-op if another run already has it)
+ * 2. Stream the comparison, publishing partial content at most every
+ *    PROGRESS_INTERVAL_MS
+ * 3. Store the finished comparison, or fail it on error
+ */
+
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { convexBookToBook } from "../src/lib/convexBookHelpers";
+import {
+  MIN_COMPARISON_BOOKS,
+  type BookComparisonResult,
+} from "../src/types/comparison";
+import { streamBookComparison } from "../src/services/comparison/compareBooks";
+
+/** Minimum gap between partial content writes, to bound mutation volume */
+const PROGRESS_INTERVAL_MS = 750;
+
+export const generateComparison = internalAction({
+  args: { comparisonId: v.id("bookComparisons") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const claimed = await ctx.runMutation(
+      internal.bookComparisons.claimComparison,
+      { comparisonId: args.comparisonId }
+    );
+    if (!claimed) {
+      return null;
+    }
+
+    try {
+      if (claimed.books.length < MIN_COMPARISON_BOOKS) {
+        throw new Error("Compared books no longer exist");
+      }
+
+      let result: BookComparisonResult | undefined;
+      let content = "";
+      let lastPublishedAt = 0;
+
+      for await (const event of streamBookComparison(
+        claimed.books.map((book: Doc<"books">) => convexBookToBook(book)),
+        { language: claimed.comparison.language }
+      )) {
+        if (event.type === "error") {
+          throw new Error(event.message);
+        }
+        if (event.type === "done") {
+          result = event.result;
+          break;
+        }
+
+        content += event.content;
+        if (Date.now() - lastPublishedAt >= PROGRESS_INTERVAL_MS) {
+          lastPublishedAt = Date.now();
+          await ctx.runMutation(
+            internal.bookComparisons.updateComparisonProgress,
+            { comparisonId: args.comparisonId, content }
+          );
+        }
+      }
+
+      if (!result) {
+        throw new Error("Comparison stream ended unexpectedly");
+      }
+
+      await ctx.runMutation(internal.bookComparisons.completeComparison, {
+        comparisonId: args.comparisonId,
+        content: result.content,
+        structured: result.structured,
+        provider: result.provider,
+        aiModel: result.aiModel,
+        generationTime: result.generationTime,
+        tokenUsage: result.usage,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      console.error(`Comparison ${args.comparisonId} failed:`, error);
+
+      await ctx.runMutation(internal.bookComparisons.failComparison, {
+        comparisonId: args.comparisonId,
+        errorMessage,
+      });
+    }
+
+    return null;
+  },
+});
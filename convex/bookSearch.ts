@@ -0,0 +1,147 @@
+/**
+ * Convex Book Search - full-text search over our own books and summaries
+ *
+ * Answers keyword searches from the books table (title, authors,
+ * categories and description, joined in searchText) and from the content
+ * of completed summaries, before the external APIs are asked (see the
+ * local-first strategy in src/services/search/searchService.ts).
+ *
+ * This module is responsible for:
+ * - Searching cached books and summaries for a query
+ * - Narrowing results to a user's favorites, read list and saved
+ *   summaries ("Search my library")
+ */
+
+import { v } from "convex/values";
+import { query, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { matchesLocalSearch } from "../src/services/search/localSearch";
+
+/** Hits read from each search index; Convex caps search results at 1024 */
+const MAX_SEARCH_HITS = 256;
+
+/** Most recent entries read from each of a user's lists */
+const MAX_LIBRARY_BOOKS_PER_LIST = 500;
+
+/**
+ * Books in the user's favorites, read list and saved summaries
+ */
+async function getLibraryBookIds(
+  ctx: QueryCtx,
+  userId: string
+): Promise<Set<Id<"books">>> {
+  const favorites = await ctx.db
+    .query("favorites")
+    .withIndex("byUserId", (q) => q.eq("userId", userId))
+    .order("desc")
+    .take(MAX_LIBRARY_BOOKS_PER_LIST);
+  const readList = await ctx.db
+    .query("readList")
+    .withIndex("byUserId", (q) => q.eq("userId", userId))
+    .order("desc")
+    .take(MAX_LIBRARY_BOOKS_PER_LIST);
+  const savedSummaries = await ctx.db
+    .query("savedSummaries")
+    .withIndex("byUserId", (q) => q.eq("userId", userId))
+    .order("desc")
+    .take(MAX_LIBRARY_BOOKS_PER_LIST);
+
+  return new Set(
+    [...favorites, ...readList, ...savedSummaries].map(
+      ({ bookIdRef }) => bookIdRef
+    )
+  );
+}
+
+/**
+ * Books whose completed summaries mention the query
+ */
+async function searchSummaryBooks(
+  ctx: QueryCtx,
+  searchQuery: string
+): Promise<Doc<"books">[]> {
+  const summaries = await ctx.db
+    .query("summaries")
+    .withSearchIndex("search_content", (q) =>
+      q.search("content", searchQuery).eq("status", "completed")
+    )
+    .take(MAX_SEARCH_HITS);
+
+  const books: Doc<"books">[] = [];
+  for (const bookId of new Set(summaries.map((summary) => summary.bookId))) {
+    const book = await ctx.db
+      .query("books")
+      .withIndex("by_book_id", (q) => q.eq("id", bookId))
+      .first();
+    if (book) {
+      books.push(book);
+    }
+  }
+  return books;
+}
+
+/**
+ * Search our own books and summaries
+ *
+ * Flow:
+ * 1. Search books by title, authors, categories and description
+ * 2. Add books whose summaries mention the query, after the direct hits
+ * 3. Keep the user's library only, when a user is given
+ * 4. Apply the filters the search indexes can't, then page
+ *
+ * Results are in relevance order, books matching directly first.
+ */
+export const searchLocalBooks = query({
+  args: {
+    query: v.string(),
+    searchIn: v.optional(
+      v.union(v.literal("title"), v.literal("author"), v.literal("all"))
+    ),
+    authorQuery: v.optional(v.string()),
+    language: v.optional(v.string()),
+    publishedAfter: v.optional(v.number()),
+    publishedBefore: v.optional(v.number()),
+    category: v.optional(v.string()),
+    maxResults: v.number(),
+    startIndex: v.optional(v.number()),
+    userId: v.optional(v.string()), // Clerk user ID; searches their library only
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const searchQuery = args.query.trim();
+    if (!searchQuery) {
+      return { books: [], hasMore: false };
+    }
+
+    const library = args.userId
+      ? await getLibraryBookIds(ctx, args.userId)
+      : null;
+    if (library?.size === 0) {
+      return { books: [], hasMore: false };
+    }
+
+    const bookHits = await ctx.db
+      .query("books")
+      .withSearchIndex("search_text", (q) =>
+        q.search("searchText", searchQuery)
+      )
+      .take(MAX_SEARCH_HITS);
+    const summaryHits = await searchSummaryBooks(ctx, searchQuery);
+
+    const seen = new Set<Id<"books">>();
+    const matches = [...bookHits, ...summaryHits].filter((book) => {
+      if (seen.has(book._id)) return false;
+      seen.add(book._id);
+      return (
+        (!library || library.has(book._id)) &&
+        matchesLocalSearch(book, { ...args, query: searchQuery })
+      );
+    });
+
+    const startIndex = args.startIndex ?? 0;
+    return {
+      books: matches.slice(startIndex, startIndex + args.maxResults),
+      hasMore: matches.length > startIndex + args.maxResults,
+    };
+  },
+});
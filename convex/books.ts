@@ -4,8 +4,15 @@
  * This module handles caching of book details from external APIs
  * to reduce API calls and improve performance.
  */
-import { v } from "convex/values";
+import { v, type ObjectType } from "convex/values";
 import { mutation, query, internalMutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { bookProvenanceValidator } from "./schema";
+import { mergeBookDetails } from "../src/services/search/bookEnrichment";
+import { buildBookSearchText } from "../src/services/search/localSearch";
+import type { BookProvenance } from "../src/types/book";
 
 // Shared book object validator for reuse
 const bookObjectValidator = v.object({
@@ -36,6 +43,8 @@ const bookObjectValidator = v.object({
   lastAccessedAt: v.number(),
   isBookOfTheDay: v.optional(v.boolean()),
   seedReason: v.optional(v.string()),
+  provenance: v.optional(bookProvenanceValidator),
+  searchText: v.optional(v.string()),
 });
 
 /**
@@ -89,103 +98,159 @@ export const updateLastAccessed = internalMutation({
   },
 });
 
+// Book fields a caller writes, shared by upsertBook and cacheBookDetails
+const bookArgs = {
+  id: v.string(),
+  title: v.string(),
+  authors: v.array(v.string()),
+  description: v.optional(v.string()),
+  publishedDate: v.optional(v.string()),
+  publisher: v.optional(v.string()),
+  pageCount: v.optional(v.number()),
+  categories: v.optional(v.array(v.string())),
+  language: v.optional(v.string()),
+  isbn10: v.optional(v.string()),
+  isbn13: v.optional(v.string()),
+  thumbnail: v.optional(v.string()),
+  smallThumbnail: v.optional(v.string()),
+  mediumThumbnail: v.optional(v.string()),
+  largeThumbnail: v.optional(v.string()),
+  averageRating: v.optional(v.number()),
+  ratingsCount: v.optional(v.number()),
+  previewLink: v.optional(v.string()),
+  infoLink: v.optional(v.string()),
+  source: v.union(v.literal("google-books"), v.literal("open-library")),
+  originalId: v.string(),
+  isBookOfTheDay: v.optional(v.boolean()),
+  seedReason: v.optional(v.string()),
+};
+
+type BookArgs = ObjectType<typeof bookArgs> & { provenance?: BookProvenance };
+
+/**
+ * Insert a book or update the row with its ID
+ *
+ * Books with provenance carry freshly merged details and reset cachedAt.
+ * Books without (e.g. a search result being favorited) keep the details
+ * an earlier merge filled in where they have none.
+ */
+async function writeBook(
+  ctx: MutationCtx,
+  args: BookArgs
+): Promise<Id<"books">> {
+  // Check if book already exists
+  const existingBook = await ctx.db
+    .query("books")
+    .withIndex("by_book_id", (q) => q.eq("id", args.id))
+    .first();
+
+  const now = Date.now();
+
+  if (existingBook) {
+    // Keep merged details this write doesn't have
+    const book =
+      !args.provenance && existingBook.provenance
+        ? mergeBookDetails(args, existingBook)
+        : args;
+
+    // Update existing book with new data and timestamp
+    await ctx.db.patch(existingBook._id, {
+      title: book.title,
+      authors: book.authors,
+      description: book.description,
+      publishedDate: book.publishedDate,
+      publisher: book.publisher,
+      pageCount: book.pageCount,
+      categories: book.categories,
+      language: book.language,
+      isbn10: book.isbn10,
+      isbn13: book.isbn13,
+      thumbnail: book.thumbnail,
+      smallThumbnail: book.smallThumbnail,
+      mediumThumbnail: book.mediumThumbnail,
+      largeThumbnail: book.largeThumbnail,
+      averageRating: book.averageRating,
+      ratingsCount: book.ratingsCount,
+      previewLink: book.previewLink,
+      infoLink: book.infoLink,
+      source: book.source,
+      originalId: book.originalId,
+      lastAccessedAt: now,
+      isBookOfTheDay: args.isBookOfTheDay,
+      seedReason: args.seedReason,
+      provenance: book.provenance,
+      searchText: buildBookSearchText(book),
+      ...(args.provenance && { cachedAt: now }),
+    });
+    return existingBook._id;
+  } else {
+    // Insert new book
+    return await ctx.db.insert("books", {
+      id: args.id,
+      title: args.title,
+      authors: args.authors,
+      description: args.description,
+      publishedDate: args.publishedDate,
+      publisher: args.publisher,
+      pageCount: args.pageCount,
+      categories: args.categories,
+      language: args.language,
+      isbn10: args.isbn10,
+      isbn13: args.isbn13,
+      thumbnail: args.thumbnail,
+      smallThumbnail: args.smallThumbnail,
+      mediumThumbnail: args.mediumThumbnail,
+      largeThumbnail: args.largeThumbnail,
+      averageRating: args.averageRating,
+      ratingsCount: args.ratingsCount,
+      previewLink: args.previewLink,
+      infoLink: args.infoLink,
+      source: args.source,
+      originalId: args.originalId,
+      cachedAt: now,
+      lastAccessedAt: now,
+      isBookOfTheDay: args.isBookOfTheDay,
+      seedReason: args.seedReason,
+      provenance: args.provenance,
+      searchText: buildBookSearchText(args),
+    });
+  }
+}
+
 /**
  * Upsert a book (insert or update if it exists)
+ *
+ * Callers only have the book as one source described it, so the write
+ * never counts as merged: it keeps earlier merged details and leaves
+ * cachedAt alone.
  */
 export const upsertBook = mutation({
+  args: bookArgs,
+  returns: v.id("books"),
+  handler: async (ctx, args) => {
+    return await writeBook(ctx, args);
+  },
+});
+
+/**
+ * Cache a book's merged details, with the source each field came from
+ *
+ * Only the Next.js server may call this: it must pass BOOK_CACHE_SECRET
+ * (set on both the Convex and Next.js deployments), so a browser can't
+ * claim a source for details or keep a book from being refreshed.
+ */
+export const cacheBookDetails = mutation({
   args: {
-    id: v.string(),
-    title: v.string(),
-    authors: v.array(v.string()),
-    description: v.optional(v.string()),
-    publishedDate: v.optional(v.string()),
-    publisher: v.optional(v.string()),
-    pageCount: v.optional(v.number()),
-    categories: v.optional(v.array(v.string())),
-    language: v.optional(v.string()),
-    isbn10: v.optional(v.string()),
-    isbn13: v.optional(v.string()),
-    thumbnail: v.optional(v.string()),
-    smallThumbnail: v.optional(v.string()),
-    mediumThumbnail: v.optional(v.string()),
-    largeThumbnail: v.optional(v.string()),
-    averageRating: v.optional(v.number()),
-    ratingsCount: v.optional(v.number()),
-    previewLink: v.optional(v.string()),
-    infoLink: v.optional(v.string()),
-    source: v.union(v.literal("google-books"), v.literal("open-library")),
-    originalId: v.string(),
-    isBookOfTheDay: v.optional(v.boolean()),
-    seedReason: v.optional(v.string()),
+    serverSecret: v.string(),
+    book: v.object({ ...bookArgs, provenance: bookProvenanceValidator }),
   },
   returns: v.id("books"),
   handler: async (ctx, args) => {
-    // Check if book already exists
-    const existingBook = await ctx.db
-      .query("books")
-      .withIndex("by_book_id", (q) => q.eq("id", args.id))
-      .first();
-
-    const now = Date.now();
-
-    if (existingBook) {
-      // Update existing book with new data and timestamp
-      await ctx.db.patch(existingBook._id, {
-        title: args.title,
-        authors: args.authors,
-        description: args.description,
-        publishedDate: args.publishedDate,
-        publisher: args.publisher,
-        pageCount: args.pageCount,
-        categories: args.categories,
-        language: args.language,
-        isbn10: args.isbn10,
-        isbn13: args.isbn13,
-        thumbnail: args.thumbnail,
-        smallThumbnail: args.smallThumbnail,
-        mediumThumbnail: args.mediumThumbnail,
-        largeThumbnail: args.largeThumbnail,
-        averageRating: args.averageRating,
-        ratingsCount: args.ratingsCount,
-        previewLink: args.previewLink,
-        infoLink: args.infoLink,
-        source: args.source,
-        originalId: args.originalId,
-        lastAccessedAt: now,
-        isBookOfTheDay: args.isBookOfTheDay,
-        seedReason: args.seedReason,
-      });
-      return existingBook._id;
-    } else {
-      // Insert new book
-      return await ctx.db.insert("books", {
-        id: args.id,
-        title: args.title,
-        authors: args.authors,
-        description: args.description,
-        publishedDate: args.publishedDate,
-        publisher: args.publisher,
-        pageCount: args.pageCount,
-        categories: args.categories,
-        language: args.language,
-        isbn10: args.isbn10,
-        isbn13: args.isbn13,
-        thumbnail: args.thumbnail,
-        smallThumbnail: args.smallThumbnail,
-        mediumThumbnail: args.mediumThumbnail,
-        largeThumbnail: args.largeThumbnail,
-        averageRating: args.averageRating,
-        ratingsCount: args.ratingsCount,
-        previewLink: args.previewLink,
-        infoLink: args.infoLink,
-        source: args.source,
-        originalId: args.originalId,
-        cachedAt: now,
-        lastAccessedAt: now,
-        isBookOfTheDay: args.isBookOfTheDay,
-        seedReason: args.seedReason,
-      });
+    const secret = process.env.BOOK_CACHE_SECRET;
+    if (!secret || args.serverSecret !== secret) {
+      throw new Error("Not authorized to cache book details");
     }
+    return await writeBook(ctx, args.book);
   },
 });
 
@@ -221,6 +286,66 @@ export const getBookByIsbn10 = query({
   },
 });
 
+/**
+ * Find every cached edition of a book by either ISBN
+ * Used to match records from different sources when merging details
+ */
+export const findBooksByIsbn = query({
+  args: {
+    isbn13: v.optional(v.string()),
+    isbn10: v.optional(v.string()),
+  },
+  returns: v.array(bookObjectValidator),
+  handler: async (ctx, args) => {
+    const { isbn13, isbn10 } = args;
+    const byIsbn13 = isbn13
+      ? await ctx.db
+          .query("books")
+          .withIndex("by_isbn13", (q) => q.eq("isbn13", isbn13))
+          .take(10)
+      : [];
+    const byIsbn10 = isbn10
+      ? await ctx.db
+          .query("books")
+          .withIndex("by_isbn10", (q) => q.eq("isbn10", isbn10))
+          .take(10)
+      : [];
+
+    const seen = new Set(byIsbn13.map((book) => book._id));
+    return [...byIsbn13, ...byIsbn10.filter((book) => !seen.has(book._id))];
+  },
+});
+
+/**
+ * Fill in searchText for books cached before full-text search
+ *
+ * Processes one page and schedules itself for the next, so it stays under
+ * mutation limits on large tables. Run once after deploying:
+ * npx convex run books:backfillSearchText
+ */
+export const backfillSearchText = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("books")
+      .paginate({ numItems: 100, cursor: args.cursor ?? null });
+
+    for (const book of page.page) {
+      if (book.searchText === undefined) {
+        await ctx.db.patch(book._id, { searchText: buildBookSearchText(book) });
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.books.backfillSearchText, {
+        cursor: page.continueCursor,
+      });
+    }
+    return null;
+  },
+});
+
 /**
  * Delete old cached books (cleanup utility)
  * Remove books that haven't been accessed in over 90 days
@@ -6,6 +6,8 @@
  *
  * Current Jobs:
  * 1. Book of the Day Selection - Runs daily at midnight UTC
+ * 2. Summary Job Recovery - Runs every 5 minutes
+ * 3. Similar Books Refresh - Runs every 6 hours
  */
 
 import { cronJobs } from "convex/server";
@@ -31,4 +33,38 @@ crons.daily(
   {} // No arguments
 );
 
+/**
+ * Summary Job Recovery
+ *
+ * Requeues (or fails) summary jobs whose action died while running
+ * Scheduled actions run at most once, so nothing else would pick them up
+ *
+ * Schedule: Every 5 minutes
+ * Function: internal.summaryJobs.recoverStaleJobs
+ * Idempotent: Only touches jobs idle past the stale window
+ */
+crons.interval(
+  "recover stale summary jobs",
+  { minutes: 5 },
+  internal.summaryJobs.recoverStaleJobs,
+  {}
+);
+
+/**
+ * Similar Books Refresh
+ *
+ * Schedules a recompute for the stalest cached "Similar books" rails
+ * Co-readers change as users favorite and list books between views
+ *
+ * Schedule: Every 6 hours
+ * Function: internal.similarBooks.refreshStaleSimilarBooks
+ * Idempotent: Only touches entries past the similar books TTL
+ */
+crons.interval(
+  "refresh similar books",
+  { hours: 6 },
+  internal.similarBooks.refreshStaleSimilarBooks,
+  {}
+);
+
 export default crons;
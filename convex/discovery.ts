@@ -0,0 +1,53 @@
+"use node";
+
+/**
+ * Convex Discovery Actions - prompt mode book search
+ *
+ * A public action the client awaits rather than a scheduled job: the
+ * result is a search page, not a stored row, so there is nothing to
+ * stream into. Providers are configured as for summary jobs (see
+ * summaryJobsActions.ts); the book search uses the app's Google Books key.
+ *
+ * Flow:
+ * 1. Check the caller's spend budget (summaryQuotas, as for chats)
+ * 2. Ask the model for candidate titles and facets for the prompt
+ * 3. Resolve the candidates against Google Books and Open Library
+ * 4. Charge the provider-reported cost to the caller
+ * 5. Return the ranked books with a rationale each
+ *
+ * Nothing is stored; the client logs the search with mode "promptMode".
+ */
+
+import { v } from "convex/values";
+import { action } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { MAX_DISCOVERY_PROMPT_LENGTH } from "../src/types/discovery";
+import { discoverBooks as discoverBooksForPrompt } from "../src/services/discovery/discoverBooks";
+import { createUnifiedSearchService } from "../src/services/search/searchService";
+
+export const discoverBooks = action({
+  args: {
+    prompt: v.string(),
+    anonymousId: v.optional(v.string()), // Quota key for signed-out callers
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const prompt = args.prompt.trim().slice(0, MAX_DISCOVERY_PROMPT_LENGTH);
+
+    const quotaSubject = await ctx.runQuery(
+      internal.summaryQuotas.checkActionBudget,
+      { anonymousId: args.anonymousId }
+    );
+
+    const results = await discoverBooksForPrompt(
+      prompt,
+      createUnifiedSearchService()
+    );
+
+    await ctx.runMutation(internal.summaryQuotas.recordActionCost, {
+      subject: quotaSubject,
+      estimatedCost: results.usage?.estimatedCost,
+    });
+    return results;
+  },
+});
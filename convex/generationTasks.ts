@@ -0,0 +1,178 @@
+/**
+ * Convex Generation Tasks - Shared lifecycle for scheduled generations
+ *
+ * Summary jobs, narrations, chat answers, study sets and comparisons are
+ * each a row that a scheduled action claims, updates while it works and
+ * then completes or fails. The row's status drives the client, so every
+ * step checks the status it expects and does nothing otherwise: a second
+ * scheduler run finds nothing to claim, and an action that lost its row
+ * (deleted, or failed as stale and requested again) can't overwrite it.
+ *
+ * Tables name their own statuses (e.g. "pending"/"streaming" for chat
+ * answers); a TaskLifecycle maps them onto queued and running.
+ *
+ * This module is responsible for:
+ * - Claiming queued tasks and heartbeating running ones
+ * - Completing and failing tasks, charging their cost to the requester
+ * - Telling when a task's action has died (TASK_STALE_MS)
+ */
+
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { recordGenerationCost } from "./summaryQuotas";
+
+/** Tasks in flight but not updated within this window are treated as crashed */
+export const TASK_STALE_MS = 5 * 60_000;
+
+export type TaskTable =
+  | "summaryJobs"
+  | "summaryNarrations"
+  | "bookChatMessages"
+  | "studySets"
+  | "bookComparisons";
+
+/**
+ * A table's names for the queued and running statuses
+ */
+export interface TaskLifecycle<T extends TaskTable> {
+  queued: Doc<T>["status"];
+  running: Doc<T>["status"];
+}
+
+/**
+ * Fields to set alongside a status change
+ */
+type TaskFields<T extends TaskTable> = Partial<Omit<Doc<T>, "_id" | "status">>;
+
+/**
+ * Patch a task and stamp its updatedAt
+ *
+ * `fields` are checked by the typed helpers below; the patch itself can't
+ * be typed against a table chosen by the caller.
+ */
+async function patchTask<T extends TaskTable>(
+  ctx: MutationCtx,
+  id: Id<T>,
+  fields: object
+): Promise<void> {
+  await ctx.db.patch(id, { ...fields, updatedAt: Date.now() } as never);
+}
+
+/**
+ * Whether a task is queued or running
+ */
+export function isTaskInFlight<T extends TaskTable>(
+  task: Doc<T>,
+  lifecycle: TaskLifecycle<T>
+): boolean {
+  return task.status === lifecycle.queued || task.status === lifecycle.running;
+}
+
+/**
+ * Whether a task is in flight but its action has stopped updating it
+ */
+export function isTaskStalled<T extends TaskTable>(
+  task: Doc<T>,
+  lifecycle: TaskLifecycle<T>,
+  now: number
+): boolean {
+  return (
+    isTaskInFlight(task, lifecycle) && now - task.updatedAt >= TASK_STALE_MS
+  );
+}
+
+/**
+ * Move a queued task to running
+ *
+ * @returns The task as claimed, or null if it is gone or no longer queued
+ */
+export async function claimTask<T extends TaskTable>(
+  ctx: MutationCtx,
+  lifecycle: TaskLifecycle<T>,
+  id: Id<T>
+): Promise<Doc<T> | null> {
+  const task = await ctx.db.get(id);
+  if (!task || task.status !== lifecycle.queued) {
+    return null;
+  }
+
+  await patchTask(ctx, id, { status: lifecycle.running });
+  return { ...task, status: lifecycle.running };
+}
+
+/**
+ * Load a task if it is still running
+ */
+export async function getRunningTask<T extends TaskTable>(
+  ctx: MutationCtx,
+  lifecycle: TaskLifecycle<T>,
+  id: Id<T>
+): Promise<Doc<T> | null> {
+  const task = await ctx.db.get(id);
+  return task?.status === lifecycle.running ? task : null;
+}
+
+/**
+ * Publish progress on a running task, which doubles as its heartbeat
+ *
+ * @returns The task before the update, or null if it is no longer running
+ */
+export async function updateRunningTask<T extends TaskTable>(
+  ctx: MutationCtx,
+  lifecycle: TaskLifecycle<T>,
+  id: Id<T>,
+  fields: TaskFields<T>
+): Promise<Doc<T> | null> {
+  const task = await getRunningTask(ctx, lifecycle, id);
+  if (task) {
+    await patchTask(ctx, id, fields);
+  }
+  return task;
+}
+
+/**
+ * Complete a running task and charge its cost to its quota subject
+ *
+ * @returns The task before completion, or null if it is no longer running
+ */
+export async function completeTask<T extends TaskTable>(
+  ctx: MutationCtx,
+  lifecycle: TaskLifecycle<T>,
+  id: Id<T>,
+  fields: TaskFields<T>,
+  estimatedCost?: number
+): Promise<Doc<T> | null> {
+  const task = await getRunningTask(ctx, lifecycle, id);
+  if (!task) return null;
+
+  if (task.quotaSubject) {
+    await recordGenerationCost(ctx, task.quotaSubject, estimatedCost);
+  }
+  await patchTask(ctx, id, { ...fields, status: "completed" });
+  return task;
+}
+
+/**
+ * Fail a queued or running task
+ *
+ * Spend reported for the attempt so far (`estimatedCost`) is still
+ * charged.
+ *
+ * @returns The task before failing, or null if it was no longer in flight
+ */
+export async function failTask<T extends TaskTable>(
+  ctx: MutationCtx,
+  lifecycle: TaskLifecycle<T>,
+  id: Id<T>,
+  fields: TaskFields<T>,
+  estimatedCost?: number
+): Promise<Doc<T> | null> {
+  const task = await ctx.db.get(id);
+  if (!task || !isTaskInFlight(task, lifecycle)) return null;
+
+  if (task.quotaSubject) {
+    await recordGenerationCost(ctx, task.quotaSubject, estimatedCost);
+  }
+  await patchTask(ctx, id, { ...fields, status: "failed" });
+  return task;
+}
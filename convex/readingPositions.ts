@@ -0,0 +1,105 @@
+/**
+ * Convex Reading Positions - Where a reader left off in each summary
+ *
+ * The reader reports its scroll progress and current section as the user
+ * reads; the last report is kept per user and summary, so opening the
+ * summary on another device can offer to continue from there. A summary
+ * is marked read the first time progress reaches the end, and stays read.
+ *
+ * This module is responsible for:
+ * - Saving and loading a user's position in a summary
+ * - Marking summaries read
+ */
+
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { READ_COMPLETE_PROGRESS } from "../src/types/reading";
+
+function toReadingPosition(position: Doc<"readingPositions">) {
+  return {
+    summaryId: position.summaryId,
+    progress: position.progress,
+    sectionId: position.sectionId,
+    completedAt: position.completedAt,
+    updatedAt: position.updatedAt,
+  };
+}
+
+/**
+ * Get a user's position in a summary
+ *
+ * Returns null if the user hasn't read it yet.
+ */
+export const getReadingPosition = query({
+  args: {
+    userId: v.string(),
+    summaryId: v.id("summaries"),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const position = await ctx.db
+      .query("readingPositions")
+      .withIndex("byUserAndSummary", (q) =>
+        q.eq("userId", args.userId).eq("summaryId", args.summaryId)
+      )
+      .unique();
+
+    return position ? toReadingPosition(position) : null;
+  },
+});
+
+/**
+ * Save a user's position in a summary
+ *
+ * Flow:
+ * 1. Clamp progress to 0-100
+ * 2. Mark the summary read if progress reached the end (once)
+ * 3. Upsert the position
+ */
+export const saveReadingPosition = mutation({
+  args: {
+    userId: v.string(),
+    summaryId: v.id("summaries"),
+    progress: v.number(),
+    sectionId: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    // Step 1: Clamp
+    const progress = Math.min(100, Math.max(0, Math.round(args.progress)));
+    const now = Date.now();
+
+    const existing = await ctx.db
+      .query("readingPositions")
+      .withIndex("byUserAndSummary", (q) =>
+        q.eq("userId", args.userId).eq("summaryId", args.summaryId)
+      )
+      .unique();
+
+    // Step 2: Read once it reaches the end
+    const completedAt =
+      existing?.completedAt ??
+      (progress >= READ_COMPLETE_PROGRESS ? now : undefined);
+
+    // Step 3: Upsert
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        progress,
+        sectionId: args.sectionId,
+        completedAt,
+        updatedAt: now,
+      });
+    } else {
+      await ctx.db.insert("readingPositions", {
+        userId: args.userId,
+        summaryId: args.summaryId,
+        progress,
+        sectionId: args.sectionId,
+        completedAt,
+        updatedAt: now,
+      });
+    }
+    return null;
+  },
+});
@@ -0,0 +1,208 @@
+/**
+ * Convex Recommendations - "Recommended for you" from a user's interests
+ *
+ * Scores recently used cached books by how much their categories and
+ * authors overlap with the user's favorites, read list and saved
+ * summaries, and by their recent search terms (users.preferences).
+ * Scoring reads hundreds of books, so picks are cached per user in the
+ * recommendations table and recomputed when stale, once per view of a
+ * stale list. The scoring itself lives in src/services/recommendations
+ * so it can be tested without Convex.
+ *
+ * This module is responsible for:
+ * - Gathering a user's seed books and search terms
+ * - Computing and caching the top picks with a reason each
+ * - Resolving cached picks to books for display
+ */
+
+import { v } from "convex/values";
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  RECOMMENDATIONS_LIMIT,
+  RECOMMENDATIONS_TTL_MS,
+  type RecommendationSeed,
+} from "../src/types/recommendations";
+import { scoreRecommendations } from "../src/services/recommendations/scoreRecommendations";
+import { userByExternalId } from "./users";
+
+/** Recently used cached books considered per recompute */
+const CANDIDATE_POOL_SIZE = 500;
+
+/** Most recent entries read from each of a user's lists */
+const MAX_SEEDS_PER_LIST = 50;
+
+/**
+ * The user's favorites, read list and saved summaries as seed books
+ */
+async function getSeeds(
+  ctx: QueryCtx,
+  userId: string
+): Promise<RecommendationSeed[]> {
+  const favorites = await ctx.db
+    .query("favorites")
+    .withIndex("byUserId", (q) => q.eq("userId", userId))
+    .order("desc")
+    .take(MAX_SEEDS_PER_LIST);
+  const readList = await ctx.db
+    .query("readList")
+    .withIndex("byUserId", (q) => q.eq("userId", userId))
+    .order("desc")
+    .take(MAX_SEEDS_PER_LIST);
+  const savedSummaries = await ctx.db
+    .query("savedSummaries")
+    .withIndex("byUserId", (q) => q.eq("userId", userId))
+    .order("desc")
+    .take(MAX_SEEDS_PER_LIST);
+
+  const entries: Array<{
+    kind: RecommendationSeed["kind"];
+    bookIdRef: Id<"books">;
+  }> = [
+    ...favorites.map(({ bookIdRef }) => ({
+      kind: "favorite" as const,
+      bookIdRef,
+    })),
+    ...readList.map(({ bookIdRef }) => ({
+      kind: "readList" as const,
+      bookIdRef,
+    })),
+    ...savedSummaries.map(({ bookIdRef }) => ({
+      kind: "savedSummary" as const,
+      bookIdRef,
+    })),
+  ];
+
+  const books = new Map<Id<"books">, Doc<"books"> | null>();
+  for (const { bookIdRef } of entries) {
+    if (!books.has(bookIdRef)) {
+      books.set(bookIdRef, await ctx.db.get(bookIdRef));
+    }
+  }
+
+  return entries.flatMap(({ kind, bookIdRef }) => {
+    const book = books.get(bookIdRef);
+    return book ? [{ kind, book }] : [];
+  });
+}
+
+/**
+ * Compute a user's picks and cache them
+ *
+ * Flow:
+ * 1. Gather the user's seed books and recent search terms
+ * 2. Score the most recently used cached books against them
+ * 3. Store the top picks with the reason that contributed most
+ *
+ * Users with no favorites, read list, saved summaries or searches get an
+ * empty list.
+ */
+async function computeRecommendations(
+  ctx: MutationCtx,
+  userId: string
+): Promise<void> {
+  // Step 1: Seeds and search terms
+  const seeds = await getSeeds(ctx, userId);
+  const user = await userByExternalId(ctx, userId);
+  // Preferences are kept oldest first
+  const searchTerms = [...(user?.preferences ?? [])].reverse();
+
+  // Step 2: Score recent books, unless there is nothing to go on
+  const candidates =
+    seeds.length === 0 && searchTerms.length === 0
+      ? []
+      : await ctx.db
+          .query("books")
+          .withIndex("by_last_accessed")
+          .order("desc")
+          .take(CANDIDATE_POOL_SIZE);
+
+  const picks = scoreRecommendations(
+    candidates,
+    seeds,
+    searchTerms,
+    RECOMMENDATIONS_LIMIT
+  ).map(({ book, score, reason }) => ({ bookIdRef: book._id, score, reason }));
+
+  // Step 3: Cache them
+  const existing = await ctx.db
+    .query("recommendations")
+    .withIndex("byUserId", (q) => q.eq("userId", userId))
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, { picks, computedAt: Date.now() });
+  } else {
+    await ctx.db.insert("recommendations", {
+      userId,
+      picks,
+      computedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Get a user's cached "Recommended for you" picks
+ *
+ * Returns null when nothing is cached yet, so the client can ask for a
+ * refresh. Picks deleted from the cache since are skipped.
+ */
+export const getRecommendations = query({
+  args: {
+    userId: v.string(), // Clerk user ID
+    limit: v.optional(v.number()),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const entry = await ctx.db
+      .query("recommendations")
+      .withIndex("byUserId", (q) => q.eq("userId", args.userId))
+      .first();
+    if (!entry) {
+      return null;
+    }
+
+    const limit = Math.min(
+      args.limit ?? RECOMMENDATIONS_LIMIT,
+      RECOMMENDATIONS_LIMIT
+    );
+    const recommendations = [];
+    for (const { bookIdRef, ...pick } of entry.picks.slice(0, limit)) {
+      const book = await ctx.db.get(bookIdRef);
+      if (book) {
+        recommendations.push({ book, ...pick });
+      }
+    }
+
+    return {
+      recommendations,
+      computedAt: entry.computedAt,
+      isStale: Date.now() - entry.computedAt > RECOMMENDATIONS_TTL_MS,
+    };
+  },
+});
+
+/**
+ * Recompute a user's picks if missing or stale
+ *
+ * Called when the feed finds nothing fresh cached. Fresh entries are left
+ * alone, so repeated calls are cheap.
+ */
+export const refreshRecommendations = mutation({
+  args: {
+    userId: v.string(), // Clerk user ID
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const entry = await ctx.db
+      .query("recommendations")
+      .withIndex("byUserId", (q) => q.eq("userId", args.userId))
+      .first();
+    if (entry && Date.now() - entry.computedAt <= RECOMMENDATIONS_TTL_MS) {
+      return null;
+    }
+
+    await computeRecommendations(ctx, args.userId);
+    return null;
+  },
+});
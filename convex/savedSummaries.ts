@@ -5,10 +5,13 @@
  * Note: Summaries are typically generated from book detail pages where books
  * are already persisted, so book object is optional but rarely needed.
  */
-import { v } from "convex/values";
+import { v, VString } from "convex/values";
+import type { SummaryType } from "../src/types/summary";
 import { mutation, query } from "./_generated/server";
 import { api } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
+import { structuredSummaryValidator } from "./schema";
+import { getRevisionDoc } from "./summaryRevisions";
 
 /**
  * Save a summary for a user
@@ -16,6 +19,7 @@ import type { Id } from "./_generated/dataModel";
  *
  * Note: Summaries are only generated from book detail pages where books
  * are already persisted, so book object is optional but rarely needed.
+ * Mock summaries are placeholder content and are refused.
  */
 export const saveSummary = mutation({
   args: {
@@ -52,6 +56,14 @@ export const saveSummary = mutation({
   },
   returns: v.id("savedSummaries"),
   handler: async (ctx, args) => {
+    const summary = await ctx.db.get(args.summaryId);
+    if (!summary) {
+      throw new Error(`Summary not found: ${args.summaryId}`);
+    }
+    if (summary.generationMode === "mock") {
+      throw new Error("Mock summaries cannot be saved");
+    }
+
     let bookDocId: Id<"books">;
 
     // Get or create book document
@@ -142,8 +154,71 @@ export const isSummarySaved = query({
   },
 });
 
+/**
+ * Get the revision a user's saved summary is pinned to
+ *
+ * Returns null when the summary is not saved or follows the latest revision.
+ */
+export const getPinnedRevision = query({
+  args: {
+    userId: v.string(),
+    summaryId: v.id("summaries"),
+  },
+  returns: v.union(v.number(), v.null()),
+  handler: async (ctx, args) => {
+    const saved = await ctx.db
+      .query("savedSummaries")
+      .withIndex("byUserAndSummary", (q) =>
+        q.eq("userId", args.userId).eq("summaryIdRef", args.summaryId)
+      )
+      .first();
+
+    return saved?.revision ?? null;
+  },
+});
+
+/**
+ * Pin a saved summary to one revision, or unpin it (revision omitted) to
+ * follow the latest
+ *
+ * Regenerating then no longer changes what the user saved.
+ */
+export const pinSavedSummaryRevision = mutation({
+  args: {
+    userId: v.string(),
+    summaryId: v.id("summaries"),
+    revision: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const saved = await ctx.db
+      .query("savedSummaries")
+      .withIndex("byUserAndSummary", (q) =>
+        q.eq("userId", args.userId).eq("summaryIdRef", args.summaryId)
+      )
+      .first();
+
+    if (!saved) {
+      throw new Error("Save the summary before pinning a revision");
+    }
+
+    if (
+      args.revision !== undefined &&
+      !(await getRevisionDoc(ctx, args.summaryId, args.revision))
+    ) {
+      throw new Error(`Revision not found: ${args.revision}`);
+    }
+
+    await ctx.db.patch(saved._id, { revision: args.revision });
+    return null;
+  },
+});
+
 /**
  * Get all saved summaries for a user with full details
+ *
+ * Pinned entries carry their pinned revision's content, and each entry
+ * carries the user's reading progress once they have started reading.
  */
 export const getSavedSummaries = query({
   args: {
@@ -165,15 +240,13 @@ export const getSavedSummaries = query({
       }),
       summary: v.object({
         _id: v.id("summaries"),
-        summaryType: v.union(
-          v.literal("concise"),
-          v.literal("detailed"),
-          v.literal("analysis"),
-          v.literal("practical")
-        ),
+        summaryType: v.string() as VString<SummaryType>,
+        language: v.optional(v.string()),
         content: v.string(),
+        structured: v.optional(structuredSummaryValidator),
         wordCount: v.number(),
         readingTime: v.number(),
+        revision: v.optional(v.number()),
         status: v.union(
           v.literal("pending"),
           v.literal("generating"),
@@ -181,6 +254,12 @@ export const getSavedSummaries = query({
           v.literal("failed")
         ),
       }),
+      reading: v.optional(
+        v.object({
+          progress: v.number(),
+          completedAt: v.optional(v.number()),
+        })
+      ),
     })
   ),
   handler: async (ctx, args) => {
@@ -200,6 +279,19 @@ export const getSavedSummaries = query({
           throw new Error("Book or summary not found");
         }
 
+        const pinned =
+          saved.revision !== undefined
+            ? await getRevisionDoc(ctx, summary._id, saved.revision)
+            : null;
+        const version = pinned ?? summary;
+
+        const position = await ctx.db
+          .query("readingPositions")
+          .withIndex("byUserAndSummary", (q) =>
+            q.eq("userId", args.userId).eq("summaryId", summary._id)
+          )
+          .unique();
+
         return {
           _id: saved._id,
           savedAt: saved.savedAt,
@@ -216,11 +308,20 @@ export const getSavedSummaries = query({
           summary: {
             _id: summary._id,
             summaryType: summary.summaryType,
-            content: summary.content,
-            wordCount: summary.wordCount,
-            readingTime: summary.readingTime,
+            language: summary.language,
+            content: version.content,
+            structured: version.structured,
+            wordCount: version.wordCount,
+            readingTime: version.readingTime,
+            revision: pinned?.revision ?? summary.currentRevision,
             status: summary.status,
           },
+          reading: position
+            ? {
+                progress: position.progress,
+                completedAt: position.completedAt,
+              }
+            : undefined,
         };
       })
     );
@@ -1,5 +1,73 @@
 import { defineSchema, defineTable } from "convex/server";
-import { v } from "convex/values";
+import { v, VString } from "convex/values";
+import type { SummaryType } from "../src/types/summary";
+
+/**
+ * Structured form of a summary's content (see StructuredSummary)
+ */
+export const structuredSummaryValidator = v.object({
+  title: v.optional(v.string()),
+  overview: v.optional(v.string()),
+  sections: v.array(
+    v.object({
+      id: v.string(), // Heading slug, as rendered by rehype-slug
+      heading: v.string(),
+      level: v.number(),
+      content: v.string(), // Markdown under the heading
+    })
+  ),
+  keyTakeaways: v.array(v.string()),
+  quotes: v.array(
+    v.object({
+      text: v.string(),
+      attribution: v.optional(v.string()),
+    })
+  ),
+  actionItems: v.array(v.string()),
+});
+
+/**
+ * Post-generation quality check (see SummaryQuality)
+ */
+export const summaryQualityValidator = v.object({
+  score: v.number(), // Confidence, 0-1
+  issues: v.array(
+    v.object({
+      code: v.union(
+        v.literal("too_short"),
+        v.literal("truncated"),
+        v.literal("missing_sections"),
+        v.literal("unsupported_claims")
+      ),
+      message: v.string(),
+    })
+  ),
+});
+
+/**
+ * Source of each merged book detail field (see BookProvenance)
+ */
+const bookSourceValidator = v.union(
+  v.literal("google-books"),
+  v.literal("open-library")
+);
+
+export const bookProvenanceValidator = v.object({
+  description: v.optional(bookSourceValidator),
+  publishedDate: v.optional(bookSourceValidator),
+  publisher: v.optional(bookSourceValidator),
+  pageCount: v.optional(bookSourceValidator),
+  categories: v.optional(bookSourceValidator),
+  language: v.optional(bookSourceValidator),
+  isbn10: v.optional(bookSourceValidator),
+  isbn13: v.optional(bookSourceValidator),
+  thumbnail: v.optional(bookSourceValidator),
+  smallThumbnail: v.optional(bookSourceValidator),
+  mediumThumbnail: v.optional(bookSourceValidator),
+  largeThumbnail: v.optional(bookSourceValidator),
+  averageRating: v.optional(bookSourceValidator),
+  ratingsCount: v.optional(bookSourceValidator),
+});
 
 export default defineSchema({
   users: defineTable({
@@ -53,7 +121,7 @@ export default defineSchema({
     source: v.union(v.literal("google-books"), v.literal("open-library")),
     // Original API response ID for debugging
     originalId: v.string(),
-    // Timestamp when this book was first cached
+    // Timestamp when this book's details were last fetched (and merged)
     cachedAt: v.number(),
     // Timestamp when this book was last accessed
     lastAccessedAt: v.number(),
@@ -63,11 +131,21 @@ export default defineSchema({
     // NEW: Short explanation of why this book was curated
     // Example: "A practical guide to building better habits"
     seedReason: v.optional(v.string()),
+    // Source each detail field came from; absent until details are merged
+    provenance: v.optional(bookProvenanceValidator),
+    // Title, authors, categories and description joined for full-text search
+    // (see buildBookSearchText); absent on rows not yet backfilled
+    searchText: v.optional(v.string()),
   })
     .index("by_book_id", ["id"])
     .index("by_original_id_and_source", ["originalId", "source"])
     .index("by_isbn13", ["isbn13"])
-    .index("by_isbn10", ["isbn10"]),
+    .index("by_isbn10", ["isbn10"])
+    .index("by_last_accessed", ["lastAccessedAt"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["language"],
+    }),
 
   favorites: defineTable({
     userId: v.string(), // Clerk user ID
@@ -75,7 +153,8 @@ export default defineSchema({
     addedAt: v.number(),
   })
     .index("byUserId", ["userId"])
-    .index("byUserAndBook", ["userId", "bookIdRef"]),
+    .index("byUserAndBook", ["userId", "bookIdRef"])
+    .index("byBook", ["bookIdRef"]),
 
   // New: Read List table for tracking reading progress
   readList: defineTable({
@@ -92,31 +171,31 @@ export default defineSchema({
   })
     .index("byUserId", ["userId"])
     .index("byUserAndBook", ["userId", "bookIdRef"])
-    .index("byUserAndStatus", ["userId", "status"]),
+    .index("byUserAndStatus", ["userId", "status"])
+    .index("byBook", ["bookIdRef"]),
 
   // New: Saved Summaries table linking users, books, and summaries
   savedSummaries: defineTable({
     userId: v.string(), // Clerk user ID
     bookIdRef: v.id("books"), // Reference to books table
     summaryIdRef: v.id("summaries"), // Reference to summaries table
+    revision: v.optional(v.number()), // Pinned revision; absent follows the latest
     savedAt: v.number(),
   })
     .index("byUserId", ["userId"])
     .index("byUserAndBook", ["userId", "bookIdRef"])
-    .index("byUserAndSummary", ["userId", "summaryIdRef"]),
+    .index("byUserAndSummary", ["userId", "summaryIdRef"])
+    .index("bySummary", ["summaryIdRef"]),
 
   summaries: defineTable({
     userId: v.optional(v.id("users")),
     bookId: v.string(), // External book identifier from Google Books or Open Library
     bookTitle: v.string(), // Title of the book
     bookAuthors: v.array(v.string()), // Authors of the book
-    summaryType: v.union(
-      v.literal("concise"),
-      v.literal("detailed"),
-      v.literal("analysis"),
-      v.literal("practical")
-    ),
+    summaryType: v.string() as VString<SummaryType>, // Built-in type or "custom:<templateId>"
     content: v.string(), // AI-generated summary content
+    structured: v.optional(structuredSummaryValidator), // Sections, takeaways, quotes and action items from content
+    language: v.optional(v.string()), // ISO 639-1 code of the content; absent for English (and rows predating languages)
     status: v.union(
       v.literal("pending"),
       v.literal("generating"),
@@ -127,7 +206,11 @@ export default defineSchema({
     wordCount: v.number(),
     readingTime: v.number(), // Estimated reading time in minutes
     aiModel: v.string(), // AI model used for generation
-    promptVersion: v.string(), // Version of prompt used
+    promptVersion: v.string(), // Prompt variant version (see promptVariants registry)
+    generationMode: v.optional(
+      v.union(v.literal("primary"), v.literal("fallback"), v.literal("mock"))
+    ), // Where the content came from; absent on rows predating the field
+    quality: v.optional(summaryQualityValidator), // Quality check result; absent for mock content and older rows
     errorMessage: v.optional(v.string()), // Error message if failed
     metadata: v.optional(
       v.object({
@@ -136,6 +219,21 @@ export default defineSchema({
           v.literal("open-library")
         ),
         hadBookDescription: v.boolean(),
+        source: v.optional(
+          v.object({
+            kind: v.union(
+              v.literal("metadata"),
+              v.literal("description"),
+              v.literal("fulltext")
+            ),
+            format: v.optional(v.union(v.literal("epub"), v.literal("text"))),
+            fileName: v.optional(v.string()),
+            characterCount: v.optional(v.number()),
+            chunkCount: v.optional(v.number()),
+            chapters: v.optional(v.array(v.string())),
+          })
+        ), // What the summary was grounded in
+        translatedFrom: v.optional(v.string()), // Language of the summary this one was translated from
         notes: v.optional(v.string()),
       })
     ),
@@ -147,14 +245,20 @@ export default defineSchema({
         estimatedCost: v.optional(v.number()),
       })
     ),
+    currentRevision: v.optional(v.number()), // Revision shown in content; absent on rows predating revisions
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("byUserId", ["userId"])
     .index("byUserAndBook", ["userId", "bookId"])
-    .index("byBookAndType", ["bookId", "summaryType"])
+    .index("byBookAndType", ["bookId", "summaryType", "language"])
     .index("byStatus", ["status"])
-    .index("byCreatedAt", ["createdAt"]),
+    .index("byStatusAndUpdatedAt", ["status", "updatedAt"])
+    .index("byCreatedAt", ["createdAt"])
+    .searchIndex("search_content", {
+      searchField: "content",
+      filterFields: ["status"],
+    }),
 
   // New: User activity tracking for preferences
   userActivities: defineTable({
@@ -162,7 +266,8 @@ export default defineSchema({
     activityType: v.union(
       v.literal("search"),
       v.literal("favorite"),
-      v.literal("comment")
+      v.literal("comment"),
+      v.literal("quiz")
     ),
     searchTerm: v.optional(v.string()), // For search activities
     bookTitle: v.optional(v.string()), // For book-related activities
@@ -193,19 +298,14 @@ export default defineSchema({
   // New: Summary generation analytics
   summaryAnalytics: defineTable({
     bookId: v.string(),
-    summaryType: v.union(
-      v.literal("concise"),
-      v.literal("detailed"),
-      v.literal("analysis"),
-      v.literal("practical")
-    ),
+    summaryType: v.string() as VString<SummaryType>,
     userId: v.optional(v.id("users")),
     generationTime: v.number(), // milliseconds
     success: v.boolean(),
     errorType: v.optional(v.string()), // Error category if failed
     errorMessage: v.optional(v.string()),
     aiModel: v.string(),
-    promptVersion: v.string(),
+    promptVersion: v.string(), // Prompt variant version (see promptVariants registry)
     tokenUsage: v.optional(
       v.object({
         promptTokens: v.number(),
@@ -246,4 +346,400 @@ export default defineSchema({
   })
     .index("byDate", ["date"])
     .index("byBookId", ["bookId"]),
+
+  // Server-side summary generation jobs - one active job per book+type+language
+  summaryJobs: defineTable({
+    bookId: v.string(),
+    summaryType: v.string() as VString<SummaryType>,
+    language: v.optional(v.string()), // ISO 639-1 code to write in; absent for English
+    sourceSummaryId: v.optional(v.id("summaries")), // Set on translation jobs: the summary to translate
+    // Snapshot of the book fields the prompt needs (job runs without the client)
+    book: v.object({
+      id: v.string(),
+      title: v.string(),
+      authors: v.array(v.string()),
+      description: v.optional(v.string()),
+      publishedDate: v.optional(v.string()),
+      pageCount: v.optional(v.number()),
+      categories: v.optional(v.array(v.string())),
+      language: v.optional(v.string()),
+      source: v.union(v.literal("google-books"), v.literal("open-library")),
+      originalId: v.string(),
+    }),
+    // Snapshot of the summary template, resolved at enqueue (older jobs lack it)
+    template: v.optional(
+      v.object({
+        key: v.string() as VString<SummaryType>,
+        title: v.string(),
+        description: v.string(),
+        readTime: v.string(),
+        icon: v.string(),
+        instructions: v.string(),
+        headings: v.array(v.string()),
+        targetWords: v.object({ min: v.number(), max: v.number() }),
+        builtIn: v.boolean(),
+      })
+    ),
+    status: v.union(
+      v.literal("queued"),
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed")
+    ),
+    provider: v.optional(
+      v.union(v.literal("openai"), v.literal("local"), v.literal("fake"))
+    ),
+    model: v.optional(v.string()),
+    userId: v.optional(v.id("users")), // First requester
+    quotaSubject: v.optional(v.string()), // Usage key charged for the generation (see summaryQuotas)
+    requestCount: v.number(), // Identical requests folded into this job
+    attempts: v.number(),
+    maxAttempts: v.number(),
+    nextRunAt: v.optional(v.number()), // When a retry is scheduled
+    lastError: v.optional(v.string()),
+    partialContent: v.optional(v.string()), // Streamed content while running
+    summaryId: v.optional(v.id("summaries")), // Set once completed
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("byBookAndType", ["bookId", "summaryType", "language"])
+    .index("byStatus", ["status"]),
+
+  // Summary templates - seeded built-in types plus user-defined ones
+  summaryTemplates: defineTable({
+    builtInKey: v.optional(
+      v.union(
+        v.literal("concise"),
+        v.literal("detailed"),
+        v.literal("analysis"),
+        v.literal("practical")
+      )
+    ), // Set on seeded built-ins; custom types are keyed "custom:<_id>"
+    userId: v.optional(v.string()), // Clerk user ID of the owner (custom only)
+    title: v.string(),
+    description: v.string(),
+    readTime: v.string(), // e.g. "2-3 minutes read"
+    icon: v.string(), // Emoji
+    instructions: v.string(), // One instruction per line
+    headings: v.array(v.string()), // Section headings, in order
+    targetWords: v.object({ min: v.number(), max: v.number() }),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("byBuiltInKey", ["builtInKey"])
+    .index("byUser", ["userId"]),
+
+  // Summary revisions - every completed generation of a book+type summary
+  summaryRevisions: defineTable({
+    summaryId: v.id("summaries"),
+    revision: v.number(), // 1-based, increasing per summary
+    content: v.string(),
+    structured: v.optional(structuredSummaryValidator),
+    quality: v.optional(summaryQualityValidator),
+    wordCount: v.number(),
+    readingTime: v.number(),
+    generationTime: v.optional(v.number()),
+    aiModel: v.string(),
+    promptVersion: v.string(),
+    generationMode: v.optional(
+      v.union(v.literal("primary"), v.literal("fallback"), v.literal("mock"))
+    ),
+    tokenUsage: v.optional(
+      v.object({
+        promptTokens: v.optional(v.number()),
+        completionTokens: v.optional(v.number()),
+        totalTokens: v.optional(v.number()),
+        estimatedCost: v.optional(v.number()),
+      })
+    ),
+    createdAt: v.number(),
+  }).index("bySummary", ["summaryId", "revision"]),
+
+  // Audio narrations of summaries - one per summary revision, engine and voice
+  summaryNarrations: defineTable({
+    summaryId: v.id("summaries"),
+    revision: v.number(), // summaries.currentRevision narrated (0 for rows predating revisions)
+    provider: v.union(
+      v.literal("openai"),
+      v.literal("local"),
+      v.literal("fake")
+    ),
+    voice: v.string(),
+    status: v.union(
+      v.literal("queued"),
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed")
+    ),
+    contentType: v.optional(v.string()), // MIME type of every chunk, e.g. "audio/mpeg"
+    chunkCount: v.optional(v.number()), // Set once the script is built
+    // Audio files, one per heading-delimited chunk, appended as synthesized
+    chunks: v.array(
+      v.object({
+        index: v.number(),
+        sectionId: v.optional(v.string()), // Structured section id (absent for the opening)
+        heading: v.string(),
+        storageId: v.id("_storage"),
+        characters: v.number(),
+        durationMs: v.optional(v.number()),
+      })
+    ),
+    estimatedCost: v.optional(v.number()),
+    quotaSubject: v.optional(v.string()), // Usage key charged for the narration (see summaryQuotas)
+    lastError: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  }).index("bySummaryAndRevision", ["summaryId", "revision"]),
+
+  // Book chat threads - a signed-in reader's conversation about one book
+  bookChatThreads: defineTable({
+    userId: v.string(), // Clerk user ID
+    bookId: v.string(), // External book identifier, as on summaries
+    title: v.string(), // Opening question, shortened
+    createdAt: v.number(),
+    updatedAt: v.number(), // Last message
+  }).index("byUserAndBook", ["userId", "bookId", "updatedAt"]),
+
+  // Book chat messages - questions and the answers streamed back
+  bookChatMessages: defineTable({
+    threadId: v.id("bookChatThreads"),
+    role: v.union(v.literal("user"), v.literal("assistant")),
+    content: v.string(), // Markdown; partial while an answer streams
+    status: v.union(
+      v.literal("pending"),
+      v.literal("streaming"),
+      v.literal("completed"),
+      v.literal("failed")
+    ),
+    // Summary sections the answer drew from
+    citations: v.array(
+      v.object({
+        summaryId: v.id("summaries"),
+        summaryType: v.string() as VString<SummaryType>,
+        summaryTypeLabel: v.string(),
+        sectionId: v.optional(v.string()), // Structured section id (absent for the overview)
+        heading: v.string(),
+      })
+    ),
+    language: v.optional(v.string()), // Language the reader asked in (answers only)
+    provider: v.optional(
+      v.union(v.literal("openai"), v.literal("local"), v.literal("fake"))
+    ),
+    aiModel: v.optional(v.string()),
+    tokenUsage: v.optional(
+      v.object({
+        promptTokens: v.number(),
+        completionTokens: v.number(),
+        totalTokens: v.number(),
+        estimatedCost: v.optional(v.number()),
+      })
+    ),
+    quotaSubject: v.optional(v.string()), // Usage key charged for the answer (see summaryQuotas)
+    lastError: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("byThread", ["threadId", "createdAt"]),
+
+  // Book comparisons - a side-by-side analysis of 2-5 books
+  bookComparisons: defineTable({
+    userId: v.string(), // Clerk user ID of the creator
+    bookIdRefs: v.array(v.id("books")), // Compared books, in picked order
+    bookIds: v.array(v.string()), // External book identifiers, same order
+    title: v.string(), // "A vs B", or "A, B and C"
+    content: v.string(), // Markdown; partial while generating
+    structured: v.optional(structuredSummaryValidator), // Sections etc., once completed
+    language: v.optional(v.string()), // ISO 639-1 code requested; absent for English
+    status: v.union(
+      v.literal("pending"),
+      v.literal("generating"),
+      v.literal("completed"),
+      v.literal("failed")
+    ),
+    wordCount: v.number(),
+    readingTime: v.number(), // Estimated reading time in minutes
+    provider: v.optional(
+      v.union(v.literal("openai"), v.literal("local"), v.literal("fake"))
+    ),
+    aiModel: v.optional(v.string()),
+    generationTime: v.optional(v.number()), // Milliseconds
+    tokenUsage: v.optional(
+      v.object({
+        promptTokens: v.number(),
+        completionTokens: v.number(),
+        totalTokens: v.number(),
+        estimatedCost: v.optional(v.number()),
+      })
+    ),
+    quotaSubject: v.optional(v.string()), // Usage key charged for the generation (see summaryQuotas)
+    errorMessage: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("byUserId", ["userId", "createdAt"]),
+
+  // Saved comparisons - the savedSummaries counterpart for comparisons
+  savedComparisons: defineTable({
+    userId: v.string(), // Clerk user ID
+    comparisonIdRef: v.id("bookComparisons"),
+    savedAt: v.number(),
+  })
+    .index("byUserId", ["userId"])
+    .index("byUserAndComparison", ["userId", "comparisonIdRef"]),
+
+  // Study sets - a reader's flashcards and quiz for one summary
+  studySets: defineTable({
+    userId: v.string(), // Clerk user ID
+    summaryId: v.id("summaries"),
+    bookId: v.string(), // External book identifier, as on summaries
+    status: v.union(
+      v.literal("pending"),
+      v.literal("generating"),
+      v.literal("completed"),
+      v.literal("failed")
+    ),
+    // Multiple-choice questions; flashcards are rows of their own
+    quiz: v.array(
+      v.object({
+        question: v.string(),
+        options: v.array(v.string()),
+        correctIndex: v.number(),
+        explanation: v.optional(v.string()),
+        sectionId: v.optional(v.string()), // Structured section id of the summary
+      })
+    ),
+    lastQuizScore: v.optional(
+      v.object({
+        correct: v.number(),
+        total: v.number(),
+        takenAt: v.number(),
+      })
+    ),
+    provider: v.optional(
+      v.union(v.literal("openai"), v.literal("local"), v.literal("fake"))
+    ),
+    aiModel: v.optional(v.string()),
+    tokenUsage: v.optional(
+      v.object({
+        promptTokens: v.number(),
+        completionTokens: v.number(),
+        totalTokens: v.number(),
+        estimatedCost: v.optional(v.number()),
+      })
+    ),
+    quotaSubject: v.optional(v.string()), // Usage key charged for the generation (see summaryQuotas)
+    errorMessage: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("byUserAndSummary", ["userId", "summaryId"]),
+
+  // Flashcards - one card of a study set with its SM-2 schedule
+  flashcards: defineTable({
+    userId: v.string(), // Clerk user ID
+    studySetId: v.id("studySets"),
+    summaryId: v.id("summaries"),
+    bookId: v.string(),
+    front: v.string(),
+    back: v.string(),
+    sectionId: v.optional(v.string()), // Structured section id of the summary
+    easeFactor: v.number(), // SM-2 ease factor, at least 1.3
+    interval: v.number(), // Days between the last review and dueAt
+    repetitions: v.number(), // Successful reviews in a row
+    dueAt: v.number(),
+    lastReviewedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("byUserAndDue", ["userId", "dueAt"])
+    .index("byStudySet", ["studySetId"]),
+
+  // Summary highlights - a reader's marked passages and notes
+  summaryHighlights: defineTable({
+    userId: v.string(), // Clerk user ID
+    summaryId: v.id("summaries"),
+    revision: v.number(), // summaries.currentRevision the anchor was resolved against (0 for rows predating revisions)
+    // Passage in the rendered summary text (see src/lib/highlightAnchor.ts)
+    anchor: v.object({
+      exact: v.string(),
+      prefix: v.string(),
+      suffix: v.string(),
+      start: v.number(),
+      sectionId: v.optional(v.string()), // Structured section id the passage starts in
+    }),
+    color: v.union(
+      v.literal("yellow"),
+      v.literal("green"),
+      v.literal("blue"),
+      v.literal("pink")
+    ),
+    note: v.optional(v.string()),
+    orphaned: v.boolean(), // Passage not found in the latest revision
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("byUserAndSummary", ["userId", "summaryId"])
+    .index("byUserId", ["userId", "updatedAt"]),
+
+  // Reading positions - where a reader is in each summary, across devices
+  readingPositions: defineTable({
+    userId: v.string(), // Clerk user ID
+    summaryId: v.id("summaries"),
+    progress: v.number(), // Scroll progress, 0-100
+    sectionId: v.optional(v.string()), // Structured section being read
+    completedAt: v.optional(v.number()), // When progress first reached the end (read)
+    updatedAt: v.number(),
+  })
+    .index("byUserAndSummary", ["userId", "summaryId"])
+    .index("byUserId", ["userId"]),
+
+  // Similar books per book, recomputed when stale (see similarBooks.ts)
+  similarBooks: defineTable({
+    bookIdRef: v.id("books"),
+    similar: v.array(
+      v.object({
+        bookIdRef: v.id("books"),
+        score: v.number(),
+        reasons: v.array(
+          v.union(
+            v.literal("author"),
+            v.literal("category"),
+            v.literal("coReaders")
+          )
+        ),
+        category: v.optional(v.string()), // A shared category, for display
+      })
+    ),
+    computedAt: v.number(),
+  })
+    .index("byBook", ["bookIdRef"])
+    .index("byComputedAt", ["computedAt"]),
+
+  // "Recommended for you" picks per user, recomputed when stale (see recommendations.ts)
+  recommendations: defineTable({
+    userId: v.string(), // Clerk user ID
+    picks: v.array(
+      v.object({
+        bookIdRef: v.id("books"),
+        score: v.number(),
+        reason: v.object({
+          kind: v.union(
+            v.literal("favorite"),
+            v.literal("readList"),
+            v.literal("savedSummary"),
+            v.literal("search")
+          ),
+          label: v.string(), // Seed book title or search term
+        }),
+      })
+    ),
+    computedAt: v.number(),
+  }).index("byUserId", ["userId"]),
+
+  // Summary generation usage per quota subject and UTC day/month
+  summaryUsage: defineTable({
+    subject: v.string(), // "user:<Clerk user ID>", "anon:<client ID>" or the shared anonymous pool
+    period: v.string(), // "day:YYYY-MM-DD" or "month:YYYY-MM"
+    generations: v.number(), // Generations started (reserved before generating)
+    estimatedCost: v.number(), // Sum of tokenUsage.estimatedCost, USD
+    updatedAt: v.number(),
+  }).index("bySubjectAndPeriod", ["subject", "period"]),
 });
@@ -15,6 +15,7 @@ import { action, internalMutation, query, mutation } from "./_generated/server";
 import type { ActionCtx, MutationCtx } from "./_generated/server";
 import { api, internal } from "./_generated/api";
 import { seedBookList } from "../src/lib/booksOfTheDay";
+import { buildBookSearchText } from "../src/services/search/localSearch";
 import {
   normalize,
   validateBookData,
@@ -268,6 +269,7 @@ export const insertNewBook = internalMutation({
   handler: async (ctx, args) => {
     await ctx.db.insert("books", {
       ...args.bookData,
+      searchText: buildBookSearchText(args.bookData),
       isBookOfTheDay: true,
       seedReason: args.reason,
       cachedAt: Date.now(),
@@ -0,0 +1,295 @@
+/**
+ * Convex Similar Books - "Similar books" rail on the book detail page
+ *
+ * Scores recently used cached books by the authors and categories they
+ * share with a book, and by how many other readers favorited or listed
+ * both. Co-reader counts walk other users' lists, so results are cached
+ * per book in the similarBooks table and recomputed when stale, on view
+ * and by a cron. The scoring itself lives in src/services/recommendations
+ * so it can be tested without Convex.
+ *
+ * This module is responsible for:
+ * - Computing and caching a book's similar books
+ * - Resolving cached entries to books for display
+ * - Refreshing stale entries on view and on a schedule, one book at a time
+ */
+
+import { v } from "convex/values";
+import {
+  query,
+  mutation,
+  internalMutation,
+  MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  SIMILAR_BOOKS_LIMIT,
+  SIMILAR_BOOKS_TTL_MS,
+} from "../src/types/recommendations";
+import { scoreSimilarBooks } from "../src/services/recommendations/similarBooks";
+
+// One book's recompute runs in one transaction, so these keep its reads
+// well inside Convex's per-transaction document and byte limits
+
+/** Recently used cached books considered per book */
+const CANDIDATE_POOL_SIZE = 200;
+
+/** Other readers of a book whose lists are walked for co-readers */
+const MAX_CO_READERS = 50;
+
+/** Most recent entries read from each co-reader's lists */
+const MAX_BOOKS_PER_READER = 50;
+
+/** Most co-read books loaded, by reader count */
+const MAX_CO_READ_BOOKS = 100;
+
+/** Stale entries scheduled for a recompute per cron run */
+const REFRESH_BATCH_SIZE = 25;
+
+/**
+ * Count, per other book, the readers who favorited or listed it as well
+ *
+ * Also returns the most co-read of those books, since they may be missing
+ * from the candidate pool when nobody has opened them lately.
+ */
+async function getCoReaders(
+  ctx: MutationCtx,
+  bookIdRef: Id<"books">
+): Promise<{ counts: Map<string, number>; books: Doc<"books">[] }> {
+  const favorites = await ctx.db
+    .query("favorites")
+    .withIndex("byBook", (q) => q.eq("bookIdRef", bookIdRef))
+    .take(MAX_CO_READERS);
+  const readList = await ctx.db
+    .query("readList")
+    .withIndex("byBook", (q) => q.eq("bookIdRef", bookIdRef))
+    .take(MAX_CO_READERS);
+
+  const readers = [
+    ...new Set([...favorites, ...readList].map(({ userId }) => userId)),
+  ].slice(0, MAX_CO_READERS);
+
+  // Each reader counts once per book, whichever lists it is on
+  const counts = new Map<Id<"books">, number>();
+  for (const userId of readers) {
+    const theirFavorites = await ctx.db
+      .query("favorites")
+      .withIndex("byUserId", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(MAX_BOOKS_PER_READER);
+    const theirReadList = await ctx.db
+      .query("readList")
+      .withIndex("byUserId", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(MAX_BOOKS_PER_READER);
+
+    const theirBooks = new Set(
+      [...theirFavorites, ...theirReadList].map((entry) => entry.bookIdRef)
+    );
+    theirBooks.delete(bookIdRef);
+    for (const id of theirBooks) {
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+  }
+
+  const mostCoRead = [...counts]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_CO_READ_BOOKS);
+
+  const books: Doc<"books">[] = [];
+  const countsByBookId = new Map<string, number>();
+  for (const [id, count] of mostCoRead) {
+    const book = await ctx.db.get(id);
+    if (book) {
+      books.push(book);
+      countsByBookId.set(book.id, count);
+    }
+  }
+
+  return { counts: countsByBookId, books };
+}
+
+/**
+ * Compute a book's similar books and cache them
+ */
+async function computeSimilarBooks(
+  ctx: MutationCtx,
+  book: Doc<"books">
+): Promise<void> {
+  const coReaders = await getCoReaders(ctx, book._id);
+  const recent = await ctx.db
+    .query("books")
+    .withIndex("by_last_accessed")
+    .order("desc")
+    .take(CANDIDATE_POOL_SIZE);
+
+  // Co-read books first so a copy from the pool isn't counted twice
+  const seen = new Set(coReaders.books.map(({ _id }) => _id));
+  const candidates = [
+    ...coReaders.books,
+    ...recent.filter(({ _id }) => !seen.has(_id)),
+  ];
+
+  const similar = scoreSimilarBooks(
+    book,
+    candidates,
+    coReaders.counts,
+    SIMILAR_BOOKS_LIMIT
+  ).map(({ book: similarBook, score, reasons, category }) => ({
+    bookIdRef: similarBook._id,
+    score,
+    reasons,
+    category,
+  }));
+
+  const existing = await ctx.db
+    .query("similarBooks")
+    .withIndex("byBook", (q) => q.eq("bookIdRef", book._id))
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, { similar, computedAt: Date.now() });
+  } else {
+    await ctx.db.insert("similarBooks", {
+      bookIdRef: book._id,
+      similar,
+      computedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Get a book's cached similar books
+ *
+ * Returns null when nothing is cached yet, so the client can ask for a
+ * refresh. Similar books deleted from the cache since are skipped.
+ */
+export const getSimilarBooks = query({
+  args: {
+    bookId: v.string(), // Composite book ID
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const book = await ctx.db
+      .query("books")
+      .withIndex("by_book_id", (q) => q.eq("id", args.bookId))
+      .first();
+    if (!book) {
+      return null;
+    }
+
+    const entry = await ctx.db
+      .query("similarBooks")
+      .withIndex("byBook", (q) => q.eq("bookIdRef", book._id))
+      .first();
+    if (!entry) {
+      return null;
+    }
+
+    const books = [];
+    for (const { bookIdRef, ...similarity } of entry.similar) {
+      const similarBook = await ctx.db.get(bookIdRef);
+      if (similarBook) {
+        books.push({ book: similarBook, ...similarity });
+      }
+    }
+
+    return {
+      books,
+      computedAt: entry.computedAt,
+      isStale: Date.now() - entry.computedAt > SIMILAR_BOOKS_TTL_MS,
+    };
+  },
+});
+
+/**
+ * Recompute a book's similar books if missing or stale
+ *
+ * Called when the book detail page finds nothing fresh cached. Fresh
+ * entries are left alone, so repeated calls are cheap.
+ */
+export const refreshSimilarBooks = mutation({
+  args: {
+    bookId: v.string(), // Composite book ID
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const book = await ctx.db
+      .query("books")
+      .withIndex("by_book_id", (q) => q.eq("id", args.bookId))
+      .first();
+    if (!book) {
+      return null;
+    }
+
+    const entry = await ctx.db
+      .query("similarBooks")
+      .withIndex("byBook", (q) => q.eq("bookIdRef", book._id))
+      .first();
+    if (entry && Date.now() - entry.computedAt <= SIMILAR_BOOKS_TTL_MS) {
+      return null;
+    }
+
+    await computeSimilarBooks(ctx, book);
+    return null;
+  },
+});
+
+/**
+ * Schedule a recompute for the stalest cached similar books
+ *
+ * Flow:
+ * 1. Take the oldest entries past the TTL
+ * 2. Schedule one recompute per entry
+ *
+ * Run by cron so popular books stay fresh without waiting for a view.
+ * Each book gets its own transaction, since one recompute alone reads
+ * hundreds of documents.
+ */
+export const refreshStaleSimilarBooks = internalMutation({
+  args: {},
+  returns: v.object({ scheduled: v.number() }),
+  handler: async (ctx) => {
+    const staleBefore = Date.now() - SIMILAR_BOOKS_TTL_MS;
+    const stale = await ctx.db
+      .query("similarBooks")
+      .withIndex("byComputedAt", (q) => q.lt("computedAt", staleBefore))
+      .take(REFRESH_BATCH_SIZE);
+
+    for (const entry of stale) {
+      await ctx.scheduler.runAfter(0, internal.similarBooks.refreshStaleEntry, {
+        entryId: entry._id,
+      });
+    }
+
+    return { scheduled: stale.length };
+  },
+});
+
+/**
+ * Recompute one stale cached entry
+ *
+ * Drops the entry if its book has left the cache. Does nothing if a view
+ * refreshed it since it was scheduled.
+ */
+export const refreshStaleEntry = internalMutation({
+  args: {
+    entryId: v.id("similarBooks"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry || Date.now() - entry.computedAt <= SIMILAR_BOOKS_TTL_MS) {
+      return null;
+    }
+
+    const book = await ctx.db.get(entry.bookIdRef);
+    if (book) {
+      await computeSimilarBooks(ctx, book);
+    } else {
+      await ctx.db.delete(entry._id);
+    }
+    return null;
+  },
+});
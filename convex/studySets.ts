@@ -0,0 +1,448 @@
+/**
+ * Convex Study Sets - Flashcards and quizzes drawn from summaries
+ *
+ * A reader can turn any completed summary into a study set: flashcards
+ * reviewed on an SM-2 schedule and a multiple-choice quiz. Sets belong to
+ * one signed-in user and are written by studySetsActions.ts. The review
+ * queue surfaces due cards from every summary the user has saved, and
+ * quiz results are logged to userActivities.
+ *
+ * Study sets are charged to the reader's spend budget like chat answers
+ * (see summaryQuotas); they don't count as summary generations.
+ *
+ * This module is responsible for:
+ * - Accepting study set requests and scheduling their generation
+ * - Loading a user's study set for a summary, and their due flashcards
+ * - Recording flashcard reviews and quiz results
+ * - Recording generation completion and failure (called by the action)
+ */
+
+import { v } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { initialSchedule, scheduleReview } from "../src/services/study/sm2";
+import type { ReviewGrade } from "../src/types/study";
+import { userByExternalId } from "./users";
+import { assertWithinBudget, getChargedQuotaSubject } from "./summaryQuotas";
+import {
+  claimTask,
+  completeTask,
+  failTask,
+  isTaskStalled,
+  type TaskLifecycle,
+} from "./generationTasks";
+
+/** Due cards returned by default for one review session */
+const DEFAULT_DUE_LIMIT = 20;
+
+const STUDY_SET_LIFECYCLE: TaskLifecycle<"studySets"> = {
+  queued: "pending",
+  running: "generating",
+};
+
+/**
+ * Load a study set if it belongs to the user
+ */
+async function getOwnStudySet(
+  ctx: QueryCtx,
+  studySetId: Id<"studySets">,
+  userId: string
+): Promise<Doc<"studySets"> | null> {
+  const studySet = await ctx.db.get(studySetId);
+  return studySet?.userId === userId ? studySet : null;
+}
+
+/**
+ * Get the user's study set for a summary, with card counts
+ *
+ * Returns null if the user hasn't created one.
+ */
+export const getStudySet = query({
+  args: {
+    userId: v.string(),
+    summaryId: v.id("summaries"),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const studySet = await ctx.db
+      .query("studySets")
+      .withIndex("byUserAndSummary", (q) =>
+        q.eq("userId", args.userId).eq("summaryId", args.summaryId)
+      )
+      .first();
+    if (!studySet) return null;
+
+    const now = Date.now();
+    const cards = await ctx.db
+      .query("flashcards")
+      .withIndex("byStudySet", (q) => q.eq("studySetId", studySet._id))
+      .collect();
+
+    return {
+      id: studySet._id,
+      summaryId: studySet.summaryId,
+      status: studySet.status,
+      quiz: studySet.quiz,
+      flashcardCount: cards.length,
+      dueCount: cards.filter((card) => card.dueAt <= now).length,
+      lastQuizScore: studySet.lastQuizScore,
+      errorMessage: studySet.errorMessage,
+      createdAt: studySet.createdAt,
+    };
+  },
+});
+
+/**
+ * Create a study set for a summary
+ *
+ * Flow:
+ * 1. Check the summary is completed and not mock content
+ * 2. Return the existing set unless it failed or its action died; those
+ *    are retried
+ * 3. Check the reader's spend budget (throws "Quota exceeded: ...")
+ * 4. Store a pending set and schedule its generation
+ *
+ * Returns the study set ID.
+ */
+export const createStudySet = mutation({
+  args: {
+    userId: v.string(),
+    summaryId: v.id("summaries"),
+  },
+  returns: v.id("studySets"),
+  handler: async (ctx, args) => {
+    // Step 1: Something to study
+    const summary = await ctx.db.get(args.summaryId);
+    if (!summary) {
+      throw new Error(`Summary not found: ${args.summaryId}`);
+    }
+    if (summary.status !== "completed" || summary.generationMode === "mock") {
+      throw new Error("Only completed summaries can be studied");
+    }
+
+    // Step 2: One set per reader and summary
+    const existing = await ctx.db
+      .query("studySets")
+      .withIndex("byUserAndSummary", (q) =>
+        q.eq("userId", args.userId).eq("summaryId", args.summaryId)
+      )
+      .first();
+    const now = Date.now();
+    if (existing && isTaskStalled(existing, STUDY_SET_LIFECYCLE, now)) {
+      await failTask(ctx, STUDY_SET_LIFECYCLE, existing._id, {
+        errorMessage: "Study set generation timed out",
+      });
+    } else if (existing && existing.status !== "failed") {
+      return existing._id;
+    }
+
+    // Step 3: Spend budget
+    const quotaSubject = await getChargedQuotaSubject(ctx);
+    await assertWithinBudget(ctx, quotaSubject);
+
+    // Step 4: Store and schedule
+    let studySetId: Id<"studySets">;
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        status: "pending",
+        quotaSubject,
+        errorMessage: undefined,
+        updatedAt: now,
+      });
+      studySetId = existing._id;
+    } else {
+      studySetId = await ctx.db.insert("studySets", {
+        userId: args.userId,
+        summaryId: args.summaryId,
+        bookId: summary.bookId,
+        status: "pending",
+        quiz: [],
+        quotaSubject,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await ctx.scheduler.runAfter(
+      0,
+      internal.studySetsActions.generateStudySet,
+      { studySetId }
+    );
+
+    return studySetId;
+  },
+});
+
+/**
+ * Get the user's due flashcards, most overdue first
+ *
+ * Only cards from summaries the user still has saved are due, so
+ * unsaving a summary takes its cards out of the review queue.
+ */
+export const getDueFlashcards = query({
+  args: {
+    userId: v.string(),
+    limit: v.optional(v.number()),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? DEFAULT_DUE_LIMIT;
+    const due = await ctx.db
+      .query("flashcards")
+      .withIndex("byUserAndDue", (q) =>
+        q.eq("userId", args.userId).lte("dueAt", Date.now())
+      )
+      .collect();
+
+    const saved = await ctx.db
+      .query("savedSummaries")
+      .withIndex("byUserId", (q) => q.eq("userId", args.userId))
+      .collect();
+    const savedSummaryIds = new Set<string>(
+      saved.map((entry) => entry.summaryIdRef)
+    );
+    const cards = due.filter((card) => savedSummaryIds.has(card.summaryId));
+
+    const bookTitles = new Map<string, string>();
+    const page = cards.slice(0, limit);
+    for (const card of page) {
+      if (!bookTitles.has(card.summaryId)) {
+        const summary = await ctx.db.get(card.summaryId);
+        bookTitles.set(card.summaryId, summary?.bookTitle ?? "Unknown book");
+      }
+    }
+
+    return {
+      totalDue: cards.length,
+      cards: page.map((card) => ({
+        id: card._id,
+        summaryId: card.summaryId,
+        bookId: card.bookId,
+        bookTitle: bookTitles.get(card.summaryId)!,
+        front: card.front,
+        back: card.back,
+        sectionId: card.sectionId,
+        easeFactor: card.easeFactor,
+        interval: card.interval,
+        repetitions: card.repetitions,
+        dueAt: card.dueAt,
+        lastReviewedAt: card.lastReviewedAt,
+      })),
+    };
+  },
+});
+
+/**
+ * Record a flashcard review and schedule the card's next one
+ *
+ * Grades follow SM-2: 0-2 forgotten, 3-5 recalled. Returns when the card
+ * is next due.
+ */
+export const reviewFlashcard = mutation({
+  args: {
+    userId: v.string(),
+    flashcardId: v.id("flashcards"),
+    grade: v.number(),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    if (!Number.isInteger(args.grade) || args.grade < 0 || args.grade > 5) {
+      throw new Error(`Invalid review grade: ${args.grade}`);
+    }
+
+    const card = await ctx.db.get(args.flashcardId);
+    if (!card || card.userId !== args.userId) {
+      throw new Error(`Flashcard not found: ${args.flashcardId}`);
+    }
+
+    const now = Date.now();
+    const schedule = scheduleReview(card, args.grade as ReviewGrade, now);
+    await ctx.db.patch(card._id, { ...schedule, lastReviewedAt: now });
+    return schedule.dueAt;
+  },
+});
+
+/**
+ * Score a quiz attempt and log it as the reader's activity
+ *
+ * Flow:
+ * 1. Check the set is the user's and completed
+ * 2. Score the answers (unanswered questions count as wrong)
+ * 3. Keep the score on the set and log a "quiz" user activity
+ *
+ * Returns the score.
+ */
+export const submitQuizResult = mutation({
+  args: {
+    userId: v.string(),
+    studySetId: v.id("studySets"),
+    answers: v.array(v.number()), // Chosen option per question, in order
+  },
+  returns: v.object({ correct: v.number(), total: v.number() }),
+  handler: async (ctx, args) => {
+    // Step 1: Validate
+    const studySet = await getOwnStudySet(ctx, args.studySetId, args.userId);
+    if (!studySet || studySet.status !== "completed") {
+      throw new Error(`Study set not found: ${args.studySetId}`);
+    }
+
+    // Step 2: Score
+    const total = studySet.quiz.length;
+    const correct = studySet.quiz.filter(
+      (question, index) => args.answers[index] === question.correctIndex
+    ).length;
+
+    // Step 3: Record
+    const now = Date.now();
+    await ctx.db.patch(studySet._id, {
+      lastQuizScore: { correct, total, takenAt: now },
+      updatedAt: now,
+    });
+
+    const user = await userByExternalId(ctx, args.userId);
+    const summary = await ctx.db.get(studySet.summaryId);
+    if (user) {
+      await ctx.db.insert("userActivities", {
+        userId: user._id,
+        activityType: "quiz",
+        bookTitle: summary?.bookTitle,
+        bookAuthor: summary?.bookAuthors[0],
+        metadata: {
+          bookId: studySet.bookId,
+          summaryId: studySet.summaryId,
+          summaryType: summary?.summaryType,
+          correct,
+          total,
+        },
+        timestamp: now,
+      });
+    }
+
+    return { correct, total };
+  },
+});
+
+/**
+ * Claim a pending study set and load the summary and book it is drawn from
+ */
+export const claimStudySet = internalMutation({
+  args: { studySetId: v.id("studySets") },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const studySet = await claimTask(ctx, STUDY_SET_LIFECYCLE, args.studySetId);
+    if (!studySet) {
+      return null;
+    }
+
+    const summary = await ctx.db.get(studySet.summaryId);
+    const book = await ctx.db
+      .query("books")
+      .withIndex("by_book_id", (q) => q.eq("id", studySet.bookId))
+      .first();
+
+    return {
+      studySet,
+      book,
+      summary: summary && {
+        summaryType: summary.summaryType,
+        content: summary.content,
+        structured: summary.structured,
+        language: summary.language,
+      },
+    };
+  },
+});
+
+/**
+ * Store the generated flashcards and quiz and charge their cost
+ *
+ * New cards are due immediately, so they show up in the next review.
+ */
+export const completeStudySet = internalMutation({
+  args: {
+    studySetId: v.id("studySets"),
+    flashcards: v.array(
+      v.object({
+        front: v.string(),
+        back: v.string(),
+        sectionId: v.optional(v.string()),
+      })
+    ),
+    quiz: v.array(
+      v.object({
+        question: v.string(),
+        options: v.array(v.string()),
+        correctIndex: v.number(),
+        explanation: v.optional(v.string()),
+        sectionId: v.optional(v.string()),
+      })
+    ),
+    provider: v.union(
+      v.literal("openai"),
+      v.literal("local"),
+      v.literal("fake")
+    ),
+    aiModel: v.string(),
+    tokenUsage: v.optional(
+      v.object({
+        promptTokens: v.number(),
+        completionTokens: v.number(),
+        totalTokens: v.number(),
+        estimatedCost: v.optional(v.number()),
+      })
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const studySet = await completeTask(
+      ctx,
+      STUDY_SET_LIFECYCLE,
+      args.studySetId,
+      {
+        quiz: args.quiz,
+        provider: args.provider,
+        aiModel: args.aiModel,
+        tokenUsage: args.tokenUsage,
+      },
+      args.tokenUsage?.estimatedCost
+    );
+    if (!studySet) return null;
+
+    const now = Date.now();
+    for (const card of args.flashcards) {
+      await ctx.db.insert("flashcards", {
+        userId: studySet.userId,
+        studySetId: studySet._id,
+        summaryId: studySet.summaryId,
+        bookId: studySet.bookId,
+        ...card,
+        ...initialSchedule(now),
+        createdAt: now,
+      });
+    }
+    return null;
+  },
+});
+
+/**
+ * Mark a study set failed; creating it again retries
+ */
+export const failStudySet = internalMutation({
+  args: {
+    studySetId: v.id("studySets"),
+    errorMessage: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await failTask(ctx, STUDY_SET_LIFECYCLE, args.studySetId, {
+      errorMessage: args.errorMessage,
+    });
+    return null;
+  },
+});
@@ -0,0 +1,71 @@
+"use node";
+
+/**
+ * Convex Study Set Actions - LLM calls for flashcards and quizzes
+ *
+ * A set is generated in one completion and stored whole, so readers never
+ * see half a set; nothing is published while it runs.
+ *
+ * Flow per run:
+ * 1. Claim the study set (no-op if another run already has it)
+ * 2. Generate flashcards and a quiz from the summary's sections
+ * 3. Store them, or fail the set on error
+ */
+
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { convexBookToBook } from "../src/lib/convexBookHelpers";
+import { parseStructuredSummary } from "../src/types/summary";
+import { generateStudySet as generateStudySetContent } from "../src/services/study/generateStudySet";
+
+export const generateStudySet = internalAction({
+  args: { studySetId: v.id("studySets") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const claimed = await ctx.runMutation(internal.studySets.claimStudySet, {
+      studySetId: args.studySetId,
+    });
+    if (!claimed) {
+      return null;
+    }
+
+    try {
+      if (!claimed.book) {
+        throw new Error("Book no longer exists");
+      }
+      if (!claimed.summary) {
+        throw new Error("Summary no longer exists");
+      }
+
+      const result = await generateStudySetContent(
+        convexBookToBook(claimed.book),
+        {
+          ...claimed.summary,
+          structured: parseStructuredSummary(claimed.summary.structured),
+        }
+      );
+
+      await ctx.runMutation(internal.studySets.completeStudySet, {
+        studySetId: args.studySetId,
+        flashcards: result.flashcards,
+        quiz: result.quiz,
+        provider: result.provider,
+        aiModel: result.aiModel,
+        tokenUsage: result.usage,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      console.error(`Study set ${args.studySetId} failed:`, error);
+
+      await ctx.runMutation(internal.studySets.failStudySet, {
+        studySetId: args.studySetId,
+        errorMessage,
+      });
+    }
+
+    return null;
+  },
+});
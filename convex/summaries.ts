@@ -13,14 +13,25 @@
  * - Managing summary metadata and status
  */
 
-import { v } from "convex/values";
+import { v, VString } from "convex/values";
+import { toStoredLanguage, type SummaryType } from "../src/types/summary";
 import { mutation, query } from "./_generated/server";
+import { structuredSummaryValidator, summaryQualityValidator } from "./schema";
+import { recordRevision } from "./summaryRevisions";
 
 /**
  * Store a completed AI-generated summary in the database with Redis caching
  *
  * Flow:
- * 1. Store/update in Convex database (source of truth)
+ * 1. Store/update in Convex database (source of truth), one row per book,
+ *    type and language
+ * 2. Mock content never replaces an existing completed real summary
+ * 3. Record the new content as the summary's next revision (content that
+ *    predates revisions is archived first, so regenerating keeps it)
+ *
+ * Quota spend is not charged here: tokenUsage comes from the caller, so
+ * the generating server records the provider-reported cost instead (see
+ * summaryQuotas).
  *
  * This should be called after the AI service successfully generates a summary.
  * The summary content and metadata should already be complete.
@@ -30,18 +41,19 @@ export const storeSummary = mutation({
     bookId: v.string(),
     bookTitle: v.string(),
     bookAuthors: v.array(v.string()),
-    summaryType: v.union(
-      v.literal("concise"),
-      v.literal("detailed"),
-      v.literal("analysis"),
-      v.literal("practical")
-    ),
+    summaryType: v.string() as VString<SummaryType>,
     content: v.string(),
+    structured: v.optional(structuredSummaryValidator),
+    language: v.optional(v.string()), // ISO 639-1 code (English if omitted)
     generationTime: v.optional(v.number()),
     wordCount: v.number(),
     readingTime: v.number(),
     aiModel: v.string(),
     promptVersion: v.string(),
+    generationMode: v.optional(
+      v.union(v.literal("primary"), v.literal("fallback"), v.literal("mock"))
+    ),
+    quality: v.optional(summaryQualityValidator),
     userId: v.optional(v.id("users")),
     metadata: v.optional(
       v.object({
@@ -50,6 +62,21 @@ export const storeSummary = mutation({
           v.literal("open-library")
         ),
         hadBookDescription: v.boolean(),
+        source: v.optional(
+          v.object({
+            kind: v.union(
+              v.literal("metadata"),
+              v.literal("description"),
+              v.literal("fulltext")
+            ),
+            format: v.optional(v.union(v.literal("epub"), v.literal("text"))),
+            fileName: v.optional(v.string()),
+            characterCount: v.optional(v.number()),
+            chunkCount: v.optional(v.number()),
+            chapters: v.optional(v.array(v.string())),
+          })
+        ),
+        translatedFrom: v.optional(v.string()),
         notes: v.optional(v.string()),
       })
     ),
@@ -68,31 +95,55 @@ export const storeSummary = mutation({
     let summaryId: string;
 
     // Step 1: Store in Convex database (source of truth)
-    // Check if a summary already exists for this book and type
+    // Check if a summary already exists for this book, type and language
+    const language = toStoredLanguage(args.language);
     const existingSummary = await ctx.db
       .query("summaries")
       .withIndex("byBookAndType", (q) =>
-        q.eq("bookId", args.bookId).eq("summaryType", args.summaryType)
+        q
+          .eq("bookId", args.bookId)
+          .eq("summaryType", args.summaryType)
+          .eq("language", language)
       )
       .first();
 
-    if (existingSummary) {
+    if (
+      existingSummary &&
+      args.generationMode === "mock" &&
+      existingSummary.status === "completed" &&
+      existingSummary.generationMode !== "mock"
+    ) {
+      // Keep the real summary; the mock is only shown to the caller
+      summaryId = String(existingSummary._id);
+    } else if (existingSummary) {
+      // Archive content written before revisions existed
+      if (
+        existingSummary.content &&
+        existingSummary.currentRevision === undefined
+      ) {
+        await recordRevision(ctx, existingSummary);
+      }
+
       // Update existing summary instead of creating duplicate
       await ctx.db.patch(existingSummary._id, {
         bookTitle: args.bookTitle,
         bookAuthors: args.bookAuthors,
         content: args.content,
+        structured: args.structured,
         status: "completed" as const,
         generationTime: args.generationTime,
         wordCount: args.wordCount,
         readingTime: args.readingTime,
         aiModel: args.aiModel,
         promptVersion: args.promptVersion,
+        generationMode: args.generationMode,
+        quality: args.quality,
         metadata: args.metadata,
         tokenUsage: args.tokenUsage,
         updatedAt: now,
         errorMessage: undefined, // Clear any previous errors
       });
+      await recordRevision(ctx, (await ctx.db.get(existingSummary._id))!);
       summaryId = String(existingSummary._id);
     } else {
       // Create new summary
@@ -102,19 +153,24 @@ export const storeSummary = mutation({
         bookTitle: args.bookTitle,
         bookAuthors: args.bookAuthors,
         summaryType: args.summaryType,
+        language,
         content: args.content,
+        structured: args.structured,
         status: "completed" as const,
         generationTime: args.generationTime,
         wordCount: args.wordCount,
         readingTime: args.readingTime,
         aiModel: args.aiModel,
         promptVersion: args.promptVersion,
+        generationMode: args.generationMode,
+        quality: args.quality,
         errorMessage: undefined,
         metadata: args.metadata,
         tokenUsage: args.tokenUsage,
         createdAt: now,
         updatedAt: now,
       });
+      await recordRevision(ctx, (await ctx.db.get(newSummaryId))!);
       summaryId = String(newSummaryId);
     }
 
@@ -169,7 +225,7 @@ export const getSummaryById = query({
 });
 
 /**
- * Check if a summary already exists for a book and summary type with Redis caching
+ * Check if a summary already exists for a book, summary type and language with Redis caching
  *
  * Flow:
  * 1. Query Convex database directly
@@ -180,12 +236,8 @@ export const getSummaryById = query({
 export const getExistingSummary = query({
   args: {
     bookId: v.string(),
-    summaryType: v.union(
-      v.literal("concise"),
-      v.literal("detailed"),
-      v.literal("analysis"),
-      v.literal("practical")
-    ),
+    summaryType: v.string() as VString<SummaryType>,
+    language: v.optional(v.string()), // ISO 639-1 code (English if omitted)
     userId: v.optional(v.id("users")),
   },
   returns: v.any(), // Simplified return type
@@ -195,7 +247,10 @@ export const getExistingSummary = query({
       const existingSummary = await ctx.db
         .query("summaries")
         .withIndex("byBookAndType", (q) =>
-          q.eq("bookId", args.bookId).eq("summaryType", args.summaryType)
+          q
+            .eq("bookId", args.bookId)
+            .eq("summaryType", args.summaryType)
+            .eq("language", toStoredLanguage(args.language))
         )
         .filter((q) => {
           // If userId provided, only match summaries for this user or public summaries
@@ -231,12 +286,8 @@ export const recordSummaryFailure = mutation({
     bookId: v.string(),
     bookTitle: v.string(),
     bookAuthors: v.array(v.string()),
-    summaryType: v.union(
-      v.literal("concise"),
-      v.literal("detailed"),
-      v.literal("analysis"),
-      v.literal("practical")
-    ),
+    summaryType: v.string() as VString<SummaryType>,
+    language: v.optional(v.string()), // ISO 639-1 code (English if omitted)
     errorMessage: v.string(),
     generationTime: v.optional(v.number()),
     aiModel: v.string(),
@@ -262,10 +313,14 @@ export const recordSummaryFailure = mutation({
     let summaryId: string;
 
     // Step 1: Store failure in Convex database for persistent tracking
+    const language = toStoredLanguage(args.language);
     const existingSummary = await ctx.db
       .query("summaries")
       .withIndex("byBookAndType", (q) =>
-        q.eq("bookId", args.bookId).eq("summaryType", args.summaryType)
+        q
+          .eq("bookId", args.bookId)
+          .eq("summaryType", args.summaryType)
+          .eq("language", language)
       )
       .first();
 
@@ -291,6 +346,7 @@ export const recordSummaryFailure = mutation({
         bookTitle: args.bookTitle,
         bookAuthors: args.bookAuthors,
         summaryType: args.summaryType,
+        language,
         content: "", // Empty content for failed summaries
         status: "failed" as const,
         generationTime: args.generationTime,
@@ -321,12 +377,8 @@ export const recordSummaryFailure = mutation({
 export const checkRecentFailure = query({
   args: {
     bookId: v.string(),
-    summaryType: v.union(
-      v.literal("concise"),
-      v.literal("detailed"),
-      v.literal("analysis"),
-      v.literal("practical")
-    ),
+    summaryType: v.string() as VString<SummaryType>,
+    language: v.optional(v.string()), // ISO 639-1 code (English if omitted)
   },
   returns: v.union(v.string(), v.null()),
   handler: async (ctx, args) => {
@@ -337,7 +389,10 @@ export const checkRecentFailure = query({
       const recentFailure = await ctx.db
         .query("summaries")
         .withIndex("byBookAndType", (q) =>
-          q.eq("bookId", args.bookId).eq("summaryType", args.summaryType)
+          q
+            .eq("bookId", args.bookId)
+            .eq("summaryType", args.summaryType)
+            .eq("language", toStoredLanguage(args.language))
         )
         .filter((q) =>
           q.and(
@@ -356,7 +411,7 @@ export const checkRecentFailure = query({
 });
 
 /**
- * Get summaries for a specific book (all types)
+ * Get summaries for a specific book (all types and languages)
  *
  * Used to show all available summaries for a book.
  */
@@ -388,6 +443,7 @@ export const getSummariesByBook = query({
       _id: summary._id,
       _creationTime: summary._creationTime,
       summaryType: summary.summaryType,
+      language: summary.language,
       status: summary.status,
       createdAt: summary.createdAt,
       updatedAt: summary.updatedAt,
@@ -410,12 +466,15 @@ export const getAllCompletedSummaries = query({
       .withIndex("byStatus", (q) => q.eq("status", "completed"))
       .collect();
 
-    return summaries.map((summary) => ({
-      _id: summary._id,
-      bookId: summary.bookId,
-      summaryType: summary.summaryType,
-      updatedAt: summary.updatedAt,
-      createdAt: summary.createdAt,
-    }));
+    // Mock content is placeholder text and must not be indexed
+    return summaries
+      .filter((summary) => summary.generationMode !== "mock")
+      .map((summary) => ({
+        _id: summary._id,
+        bookId: summary.bookId,
+        summaryType: summary.summaryType,
+        updatedAt: summary.updatedAt,
+        createdAt: summary.createdAt,
+      }));
   },
 });
@@ -0,0 +1,288 @@
+/**
+ * Convex Summary Highlights - Marked passages and notes on summaries
+ *
+ * A signed-in reader can highlight passages of any summary and add a note
+ * to each. Highlights are anchored to the summary revision they were made
+ * on; when a regeneration changes the text, the reader re-anchors them
+ * (see src/lib/highlightAnchor.ts) and stores the result here, flagging
+ * passages that can no longer be found rather than deleting them.
+ *
+ * This module is responsible for:
+ * - Listing a user's highlights on a summary, and across all summaries
+ * - Adding, editing and deleting highlights
+ * - Storing re-anchored positions after a regeneration
+ */
+
+import { v } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  DEFAULT_HIGHLIGHT_COLOR,
+  MAX_HIGHLIGHT_LENGTH,
+  MAX_HIGHLIGHT_NOTE_LENGTH,
+} from "../src/types/highlight";
+import { getSummaryTypeDescription } from "../src/types/summary";
+
+const anchorValidator = v.object({
+  exact: v.string(),
+  prefix: v.string(),
+  suffix: v.string(),
+  start: v.number(),
+  sectionId: v.optional(v.string()),
+});
+
+const colorValidator = v.union(
+  v.literal("yellow"),
+  v.literal("green"),
+  v.literal("blue"),
+  v.literal("pink")
+);
+
+/**
+ * Load a highlight if it belongs to the user
+ */
+async function getOwnHighlight(
+  ctx: QueryCtx,
+  highlightId: Id<"summaryHighlights">,
+  userId: string
+): Promise<Doc<"summaryHighlights"> | null> {
+  const highlight = await ctx.db.get(highlightId);
+  return highlight?.userId === userId ? highlight : null;
+}
+
+/**
+ * Trimmed note, or undefined for an empty one
+ *
+ * @throws Error if the note is too long
+ */
+function toNote(note: string | undefined): string | undefined {
+  const trimmed = note?.trim();
+  if (trimmed && trimmed.length > MAX_HIGHLIGHT_NOTE_LENGTH) {
+    throw new Error(
+      `Note is too long (${MAX_HIGHLIGHT_NOTE_LENGTH} characters maximum)`
+    );
+  }
+  return trimmed || undefined;
+}
+
+function toHighlight(highlight: Doc<"summaryHighlights">) {
+  return {
+    id: highlight._id,
+    summaryId: highlight.summaryId,
+    revision: highlight.revision,
+    anchor: highlight.anchor,
+    color: highlight.color,
+    note: highlight.note,
+    orphaned: highlight.orphaned,
+    createdAt: highlight.createdAt,
+    updatedAt: highlight.updatedAt,
+  };
+}
+
+/**
+ * List a user's highlights on a summary, in reading order
+ */
+export const listHighlights = query({
+  args: {
+    userId: v.string(),
+    summaryId: v.id("summaries"),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const highlights = await ctx.db
+      .query("summaryHighlights")
+      .withIndex("byUserAndSummary", (q) =>
+        q.eq("userId", args.userId).eq("summaryId", args.summaryId)
+      )
+      .collect();
+
+    return highlights
+      .sort((a, b) => a.anchor.start - b.anchor.start)
+      .map(toHighlight);
+  },
+});
+
+/**
+ * List all of a user's highlights, most recently edited first, with the
+ * book and summary type each was made on
+ *
+ * Highlights on deleted summaries are left out.
+ */
+export const listMyHighlights = query({
+  args: {
+    userId: v.string(),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const highlights = await ctx.db
+      .query("summaryHighlights")
+      .withIndex("byUserId", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .collect();
+
+    const summaries = new Map<string, Doc<"summaries"> | null>();
+    const results = [];
+    for (const highlight of highlights) {
+      if (!summaries.has(highlight.summaryId)) {
+        summaries.set(
+          highlight.summaryId,
+          await ctx.db.get(highlight.summaryId)
+        );
+      }
+      const summary = summaries.get(highlight.summaryId);
+      if (!summary) continue;
+
+      results.push({
+        ...toHighlight(highlight),
+        bookId: summary.bookId,
+        bookTitle: summary.bookTitle,
+        summaryTypeLabel: getSummaryTypeDescription(summary.summaryType).title,
+      });
+    }
+
+    return results;
+  },
+});
+
+/**
+ * Highlight a passage of a summary
+ *
+ * Flow:
+ * 1. Validate the passage and note
+ * 2. Check the summary exists and is completed
+ * 3. Store the highlight against the revision being read
+ *
+ * Returns the highlight ID.
+ */
+export const addHighlight = mutation({
+  args: {
+    userId: v.string(),
+    summaryId: v.id("summaries"),
+    revision: v.number(),
+    anchor: anchorValidator,
+    color: v.optional(colorValidator),
+    note: v.optional(v.string()),
+  },
+  returns: v.id("summaryHighlights"),
+  handler: async (ctx, args) => {
+    // Step 1: Validate
+    if (!args.anchor.exact.trim()) {
+      throw new Error("Select some text to highlight");
+    }
+    if (args.anchor.exact.length > MAX_HIGHLIGHT_LENGTH) {
+      throw new Error(
+        `Highlight is too long (${MAX_HIGHLIGHT_LENGTH} characters maximum)`
+      );
+    }
+    const note = toNote(args.note);
+
+    // Step 2: Something to highlight
+    const summary = await ctx.db.get(args.summaryId);
+    if (!summary || summary.status !== "completed") {
+      throw new Error(`Summary not found: ${args.summaryId}`);
+    }
+
+    // Step 3: Store
+    const now = Date.now();
+    return await ctx.db.insert("summaryHighlights", {
+      userId: args.userId,
+      summaryId: args.summaryId,
+      revision: args.revision,
+      anchor: args.anchor,
+      color: args.color ?? DEFAULT_HIGHLIGHT_COLOR,
+      note,
+      orphaned: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Change a highlight's color or note
+ *
+ * An empty note removes it; omitted fields are left as they are.
+ */
+export const updateHighlight = mutation({
+  args: {
+    userId: v.string(),
+    highlightId: v.id("summaryHighlights"),
+    color: v.optional(colorValidator),
+    note: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const highlight = await getOwnHighlight(ctx, args.highlightId, args.userId);
+    if (!highlight) {
+      throw new Error(`Highlight not found: ${args.highlightId}`);
+    }
+
+    await ctx.db.patch(highlight._id, {
+      ...(args.color !== undefined && { color: args.color }),
+      ...(args.note !== undefined && { note: toNote(args.note) }),
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+/**
+ * Delete a highlight and its note
+ */
+export const deleteHighlight = mutation({
+  args: {
+    userId: v.string(),
+    highlightId: v.id("summaryHighlights"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const highlight = await getOwnHighlight(ctx, args.highlightId, args.userId);
+    if (!highlight) {
+      throw new Error(`Highlight not found: ${args.highlightId}`);
+    }
+
+    await ctx.db.delete(highlight._id);
+    return null;
+  },
+});
+
+/**
+ * Store highlights re-anchored against a newer revision
+ *
+ * Each update carries the passage's new anchor, or none if it couldn't be
+ * found, which flags the highlight as orphaned but keeps its old anchor,
+ * text and note. Updates for other users' highlights or other summaries
+ * are ignored.
+ */
+export const reanchorHighlights = mutation({
+  args: {
+    userId: v.string(),
+    summaryId: v.id("summaries"),
+    revision: v.number(),
+    updates: v.array(
+      v.object({
+        highlightId: v.id("summaryHighlights"),
+        anchor: v.optional(anchorValidator),
+      })
+    ),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    for (const update of args.updates) {
+      const highlight = await getOwnHighlight(
+        ctx,
+        update.highlightId,
+        args.userId
+      );
+      if (!highlight || highlight.summaryId !== args.summaryId) continue;
+
+      await ctx.db.patch(highlight._id, {
+        revision: args.revision,
+        ...(update.anchor
+          ? { anchor: update.anchor, orphaned: false }
+          : { orphaned: true }),
+      });
+    }
+    return null;
+  },
+});
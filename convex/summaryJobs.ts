@@ -0,0 +1,580 @@
+/**
+ * Convex Summary Jobs - Server-side generation queue
+ *
+ * Moves summary generation off the browser so work survives navigation and
+ * identical requests share one generation. The job drives the existing
+ * pending/generating/completed/failed statuses on the summaries table.
+ *
+ * This module is responsible for:
+ * - Enqueueing jobs with book+type+language deduplication
+ * - Enqueueing translations of existing summaries
+ * - Charging new jobs to the requester's quota (see summaryQuotas)
+ * - Claiming, completing and failing jobs (called by summaryJobsActions.ts)
+ * - Retrying failed jobs with exponential backoff
+ * - Exposing job state (including streamed partial content) for reactive
+ *   client subscriptions
+ */
+
+import { Infer, v, VString } from "convex/values";
+import {
+  DEFAULT_SUMMARY_LANGUAGE,
+  normalizeLanguageCode,
+  resolveSummaryLanguage,
+  toStoredLanguage,
+  type SummaryType,
+} from "../src/types/summary";
+import {
+  internalMutation,
+  mutation,
+  MutationCtx,
+  query,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { getTemplateForType } from "./summaryTemplates";
+import {
+  consumeGenerationQuota,
+  getChargedQuotaSubject,
+  recordGenerationCost,
+} from "./summaryQuotas";
+import {
+  claimTask,
+  failTask,
+  getRunningTask,
+  TASK_STALE_MS,
+  updateRunningTask,
+  type TaskLifecycle,
+} from "./generationTasks";
+import type { Doc, Id } from "./_generated/dataModel";
+
+/** Attempts per job before it is marked failed */
+const MAX_ATTEMPTS = 3;
+/** First retry delay; doubles per attempt */
+const BASE_BACKOFF_MS = 30_000;
+/** Upper bound for a single retry delay */
+const MAX_BACKOFF_MS = 10 * 60_000;
+
+const JOB_LIFECYCLE: TaskLifecycle<"summaryJobs"> = {
+  queued: "queued",
+  running: "running",
+};
+
+const summaryTypeValidator = v.string() as VString<SummaryType>;
+
+const jobBookValidator = v.object({
+  id: v.string(),
+  title: v.string(),
+  authors: v.array(v.string()),
+  description: v.optional(v.string()),
+  publishedDate: v.optional(v.string()),
+  pageCount: v.optional(v.number()),
+  categories: v.optional(v.array(v.string())),
+  language: v.optional(v.string()),
+  source: v.union(v.literal("google-books"), v.literal("open-library")),
+  originalId: v.string(),
+});
+
+/**
+ * Retry delay for the given (1-based) attempt number
+ */
+function getBackoffDelay(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Find the summaries row for a job's book+type+language
+ */
+async function findSummaryRow(ctx: MutationCtx, job: Doc<"summaryJobs">) {
+  return await ctx.db
+    .query("summaries")
+    .withIndex("byBookAndType", (q) =>
+      q
+        .eq("bookId", job.bookId)
+        .eq("summaryType", job.summaryType)
+        .eq("language", job.language)
+    )
+    .first();
+}
+
+/**
+ * Record a failed attempt: schedule a retry or mark the job failed
+ *
+ * Completed summaries are left untouched so a failed regeneration never
+ * hides content that is already readable.
+ */
+async function recordAttemptFailure(
+  ctx: MutationCtx,
+  job: Doc<"summaryJobs">,
+  errorMessage: string,
+  retryable: boolean
+): Promise<boolean> {
+  const now = Date.now();
+
+  if (retryable && job.attempts < job.maxAttempts) {
+    const delay = getBackoffDelay(job.attempts);
+    await ctx.db.patch(job._id, {
+      status: "queued",
+      lastError: errorMessage,
+      partialContent: undefined,
+      nextRunAt: now + delay,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(
+      delay,
+      internal.summaryJobsActions.runSummaryJob,
+      { jobId: job._id }
+    );
+    return true;
+  }
+
+  await failTask(ctx, JOB_LIFECYCLE, job._id, {
+    lastError: errorMessage,
+    partialContent: undefined,
+    nextRunAt: undefined,
+    completedAt: now,
+  });
+
+  const summary = await findSummaryRow(ctx, job);
+  if (summary && summary.status !== "completed") {
+    await ctx.db.patch(summary._id, {
+      status: "failed",
+      errorMessage,
+      updatedAt: now,
+    });
+  }
+  return false;
+}
+
+/**
+ * Enqueue a job, or join the active one for the same book+type+language
+ *
+ * Flow:
+ * 1. Resolve the language ("same as book" becomes the book's language) and
+ *    fold the request into an active job for the same book+type+language
+ * 2. Otherwise snapshot the type's template, charge the requester's quota
+ *    (throws "Quota exceeded: ..." when over), insert a queued job and
+ *    schedule the generation action
+ * 3. Mark the summary row pending (completed rows are kept until replaced)
+ */
+async function enqueueJob(
+  ctx: MutationCtx,
+  args: {
+    book: Infer<typeof jobBookValidator>;
+    summaryType: SummaryType;
+    userId?: Id<"users">;
+    provider?: "openai" | "local" | "fake";
+    model?: string;
+    language?: string;
+    sourceSummaryId?: Id<"summaries">;
+    /** Quota subject charged if a new job is created */
+    quotaSubject: string;
+  }
+): Promise<Id<"summaryJobs">> {
+  const now = Date.now();
+  const language = toStoredLanguage(
+    resolveSummaryLanguage(args.language, args.book)
+  );
+
+  // Step 1: Deduplicate against queued/running jobs
+  const activeJob = await ctx.db
+    .query("summaryJobs")
+    .withIndex("byBookAndType", (q) =>
+      q
+        .eq("bookId", args.book.id)
+        .eq("summaryType", args.summaryType)
+        .eq("language", language)
+    )
+    .filter((q) =>
+      q.or(
+        q.eq(q.field("status"), "queued"),
+        q.eq(q.field("status"), "running")
+      )
+    )
+    .first();
+
+  if (activeJob) {
+    await ctx.db.patch(activeJob._id, {
+      requestCount: activeJob.requestCount + 1,
+      updatedAt: now,
+    });
+    return activeJob._id;
+  }
+
+  // Step 2: Snapshot the template, then create and schedule a new job
+  const template = await getTemplateForType(ctx, args.summaryType);
+  if (!template) {
+    throw new Error(`Summary template not found: ${args.summaryType}`);
+  }
+
+  // Throws before anything is written when the requester is over quota
+  await consumeGenerationQuota(ctx, args.quotaSubject);
+
+  const jobId = await ctx.db.insert("summaryJobs", {
+    bookId: args.book.id,
+    summaryType: args.summaryType,
+    language,
+    sourceSummaryId: args.sourceSummaryId,
+    book: args.book,
+    template,
+    status: "queued",
+    provider: args.provider,
+    model: args.model,
+    userId: args.userId,
+    quotaSubject: args.quotaSubject,
+    requestCount: 1,
+    attempts: 0,
+    maxAttempts: MAX_ATTEMPTS,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.summaryJobsActions.runSummaryJob, {
+    jobId,
+  });
+
+  // Step 3: Reflect the job on the summary row
+  const summary = await ctx.db
+    .query("summaries")
+    .withIndex("byBookAndType", (q) =>
+      q
+        .eq("bookId", args.book.id)
+        .eq("summaryType", args.summaryType)
+        .eq("language", language)
+    )
+    .first();
+
+  if (!summary) {
+    await ctx.db.insert("summaries", {
+      userId: args.userId,
+      bookId: args.book.id,
+      bookTitle: args.book.title,
+      bookAuthors: args.book.authors,
+      summaryType: args.summaryType,
+      language,
+      content: "", // Filled in when the job completes
+      status: "pending",
+      wordCount: 0,
+      readingTime: 0,
+      aiModel: args.model ?? "",
+      promptVersion: "",
+      createdAt: now,
+      updatedAt: now,
+    });
+  } else if (summary.status !== "completed") {
+    await ctx.db.patch(summary._id, {
+      status: "pending",
+      errorMessage: undefined,
+      updatedAt: now,
+    });
+  }
+
+  return jobId;
+}
+
+/**
+ * Enqueue a summary generation job
+ *
+ * See enqueueJob for the deduplication flow.
+ *
+ * Returns the job ID to subscribe to via getJob.
+ */
+export const enqueueSummaryJob = mutation({
+  args: {
+    book: jobBookValidator,
+    summaryType: summaryTypeValidator,
+    userId: v.optional(v.id("users")),
+    provider: v.optional(
+      v.union(v.literal("openai"), v.literal("local"), v.literal("fake"))
+    ),
+    model: v.optional(v.string()),
+    language: v.optional(v.string()), // ISO 639-1 code or "book" (English if omitted)
+    anonymousId: v.optional(v.string()), // Quota key for signed-out requesters
+  },
+  returns: v.id("summaryJobs"),
+  handler: async (ctx, { anonymousId, ...args }) => {
+    return await enqueueJob(ctx, {
+      ...args,
+      quotaSubject: await getChargedQuotaSubject(ctx, anonymousId),
+    });
+  },
+});
+
+/**
+ * Snapshot the persisted book for a summary's job
+ */
+async function loadJobBook(
+  ctx: MutationCtx,
+  bookId: string
+): Promise<Infer<typeof jobBookValidator>> {
+  const book = await ctx.db
+    .query("books")
+    .withIndex("by_book_id", (q) => q.eq("id", bookId))
+    .first();
+  if (!book) {
+    throw new Error(`Book not found: ${bookId}`);
+  }
+
+  // Only the fields the job stores
+  return {
+    id: book.id,
+    title: book.title,
+    authors: book.authors,
+    description: book.description,
+    publishedDate: book.publishedDate,
+    pageCount: book.pageCount,
+    categories: book.categories,
+    language: book.language,
+    source: book.source,
+    originalId: book.originalId,
+  };
+}
+
+/**
+ * Regenerate an existing summary
+ *
+ * Enqueues a job for the summary's book+type+language from the persisted
+ * book. The current content stays readable until the job stores its
+ * replacement as the next revision (see summaryRevisions).
+ *
+ * Returns the job ID to subscribe to via getJob.
+ */
+export const regenerateSummary = mutation({
+  args: {
+    summaryId: v.id("summaries"),
+    model: v.optional(v.string()),
+  },
+  returns: v.id("summaryJobs"),
+  handler: async (ctx, args) => {
+    const summary = await ctx.db.get(args.summaryId);
+    if (!summary) {
+      throw new Error(`Summary not found: ${args.summaryId}`);
+    }
+
+    return await enqueueJob(ctx, {
+      book: await loadJobBook(ctx, summary.bookId),
+      summaryType: summary.summaryType,
+      userId: summary.userId,
+      model: args.model,
+      language: summary.language,
+      quotaSubject: await getChargedQuotaSubject(ctx),
+    });
+  },
+});
+
+/**
+ * Translate an existing summary into another language
+ *
+ * Flow:
+ * 1. Check the summary is completed real content in a different language
+ * 2. Enqueue a job for the book+type in the target language, pointing at
+ *    the summary to translate (the action translates instead of generating)
+ *
+ * The translation is stored as the target language's summary row, so it
+ * is found by the same lookups as a summary generated in that language.
+ *
+ * Returns the job ID to subscribe to via getJob.
+ */
+export const translateSummary = mutation({
+  args: {
+    summaryId: v.id("summaries"),
+    language: v.string(), // ISO 639-1 target language
+  },
+  returns: v.id("summaryJobs"),
+  handler: async (ctx, args) => {
+    const summary = await ctx.db.get(args.summaryId);
+    if (!summary) {
+      throw new Error(`Summary not found: ${args.summaryId}`);
+    }
+    if (summary.status !== "completed" || summary.generationMode === "mock") {
+      throw new Error("Only completed summaries can be translated");
+    }
+
+    const language = normalizeLanguageCode(args.language);
+    if (!language) {
+      throw new Error(`Unsupported summary language: ${args.language}`);
+    }
+    if (language === (summary.language ?? DEFAULT_SUMMARY_LANGUAGE)) {
+      throw new Error("Summary is already in that language");
+    }
+
+    return await enqueueJob(ctx, {
+      book: await loadJobBook(ctx, summary.bookId),
+      summaryType: summary.summaryType,
+      userId: summary.userId,
+      language,
+      sourceSummaryId: summary._id,
+      quotaSubject: await getChargedQuotaSubject(ctx),
+    });
+  },
+});
+
+/**
+ * Get a job by ID
+ *
+ * Clients subscribe to this with convex/react useQuery, so state changes
+ * are pushed instead of polled.
+ */
+export const getJob = query({
+  args: { jobId: v.id("summaryJobs") },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.jobId);
+  },
+});
+
+/**
+ * Get the most recent job for a book+type+language
+ *
+ * Lets a client that navigated away pick up a job still in flight.
+ */
+export const getLatestJob = query({
+  args: {
+    bookId: v.string(),
+    summaryType: summaryTypeValidator,
+    language: v.optional(v.string()), // ISO 639-1 code (English if omitted)
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("summaryJobs")
+      .withIndex("byBookAndType", (q) =>
+        q
+          .eq("bookId", args.bookId)
+          .eq("summaryType", args.summaryType)
+          .eq("language", toStoredLanguage(args.language))
+      )
+      .order("desc")
+      .first();
+  },
+});
+
+/**
+ * Claim a queued job for execution, counting the attempt and moving its
+ * summary row to "generating"
+ */
+export const claimJob = internalMutation({
+  args: { jobId: v.id("summaryJobs") },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const job = await claimTask(ctx, JOB_LIFECYCLE, args.jobId);
+    if (!job) {
+      return null;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(job._id, {
+      attempts: job.attempts + 1,
+      nextRunAt: undefined,
+    });
+
+    const summary = await findSummaryRow(ctx, job);
+    if (summary && summary.status !== "completed") {
+      await ctx.db.patch(summary._id, {
+        status: "generating",
+        updatedAt: now,
+      });
+    }
+
+    return { ...job, attempts: job.attempts + 1 };
+  },
+});
+
+/**
+ * Publish streamed content for a running job
+ *
+ * Also serves as the job's heartbeat for recoverStaleJobs.
+ */
+export const updateJobProgress = internalMutation({
+  args: {
+    jobId: v.id("summaryJobs"),
+    partialContent: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await updateRunningTask(ctx, JOB_LIFECYCLE, args.jobId, {
+      partialContent: args.partialContent,
+    });
+    return null;
+  },
+});
+
+/**
+ * Mark a job completed once its summary has been stored, and add its
+ * estimated cost to the requester's spend
+ */
+export const completeJob = internalMutation({
+  args: {
+    jobId: v.id("summaryJobs"),
+    summaryId: v.id("summaries"),
+    estimatedCost: v.optional(v.number()), // Charged to the job's quota subject
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (job?.quotaSubject) {
+      await recordGenerationCost(ctx, job.quotaSubject, args.estimatedCost);
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.jobId, {
+      status: "completed",
+      summaryId: args.summaryId,
+      lastError: undefined,
+      partialContent: undefined,
+      updatedAt: now,
+      completedAt: now,
+    });
+    return null;
+  },
+});
+
+/**
+ * Record a failed attempt
+ *
+ * Returns true when a retry has been scheduled, false when the job is
+ * now permanently failed.
+ */
+export const failJob = internalMutation({
+  args: {
+    jobId: v.id("summaryJobs"),
+    errorMessage: v.string(),
+    retryable: v.boolean(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const job = await getRunningTask(ctx, JOB_LIFECYCLE, args.jobId);
+    if (!job) {
+      return false;
+    }
+    return await recordAttemptFailure(
+      ctx,
+      job,
+      args.errorMessage,
+      args.retryable
+    );
+  },
+});
+
+/**
+ * Recover jobs whose action died mid-run
+ *
+ * Scheduled actions run at most once, so a crashed run would otherwise
+ * leave its job "running" forever. Runs from crons.ts.
+ */
+export const recoverStaleJobs = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    const cutoff = Date.now() - TASK_STALE_MS;
+    const staleJobs = await ctx.db
+      .query("summaryJobs")
+      .withIndex("byStatus", (q) => q.eq("status", "running"))
+      .filter((q) => q.lt(q.field("updatedAt"), cutoff))
+      .collect();
+
+    for (const job of staleJobs) {
+      await recordAttemptFailure(ctx, job, "Summary job timed out", true);
+    }
+
+    return staleJobs.length;
+  },
+});
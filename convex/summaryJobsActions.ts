@@ -0,0 +1,215 @@
+"use node";
+
+/**
+ * Convex Summary Job Actions - LLM calls for queued summary jobs
+ *
+ * Runs in the Node runtime because the provider SDKs do. Provider
+ * credentials (OPENAI_API_KEY, SUMMARY_PROVIDER, ...) must be set as Convex
+ * environment variables, not just in the Next.js environment.
+ *
+ * Flow per run:
+ * 1. Claim the job (no-op if another run already has it)
+ * 2. Stream from the job's provider (fallback policy included), publishing
+ *    partial content to the job at most every PROGRESS_INTERVAL_MS.
+ *    Translation jobs stream a translation of their source summary instead
+ * 3. Store via summaries.storeSummary and complete the job
+ * 4. On error, fail the attempt (summaryJobs schedules any retry)
+ */
+
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import type { Book } from "../src/types/book";
+import {
+  calculateReadingTime,
+  calculateWordCount,
+  DEFAULT_SUMMARY_LANGUAGE,
+  SummaryGenerationResult,
+  SummaryStreamEvent,
+} from "../src/types/summary";
+import { withPromptVariant } from "../src/services/summary/promptVariants";
+import { getSummaryProvider } from "../src/services/summary/providers";
+import { streamBookSummary } from "../src/services/summary/streamSummary";
+import { streamSummaryTranslation } from "../src/services/summary/translateSummary";
+
+/** Minimum gap between partial content writes, to bound mutation volume */
+const PROGRESS_INTERVAL_MS = 750;
+
+/**
+ * Whether an error is worth retrying
+ *
+ * Configuration and authentication problems will fail the same way again.
+ */
+function isRetryableError(message: string): boolean {
+  return !(
+    message.includes("not configured") ||
+    message.includes("API key") ||
+    message.includes("authentication") ||
+    message.includes("required for summary generation") ||
+    message.includes("Invalid summary type") ||
+    message.includes("Unsupported summary language") ||
+    message.includes("not available to translate")
+  );
+}
+
+/**
+ * Run one attempt of a summary job
+ */
+export const runSummaryJob = internalAction({
+  args: { jobId: v.id("summaryJobs") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const job = await ctx.runMutation(internal.summaryJobs.claimJob, {
+      jobId: args.jobId,
+    });
+    if (!job) {
+      return null;
+    }
+
+    const book = job.book as Book;
+    // Pinned here so a failed attempt still records its prompt variant
+    const options = withPromptVariant(job.summaryType, {
+      provider: job.provider,
+      model: job.model,
+      template: job.template,
+      language: job.language,
+    });
+    const provider = getSummaryProvider(options.provider);
+    const startTime = Date.now();
+
+    try {
+      let result: SummaryGenerationResult | undefined;
+      let content = "";
+      let lastPublishedAt = 0;
+      let events: AsyncGenerator<SummaryStreamEvent>;
+
+      if (job.sourceSummaryId) {
+        const source = await ctx.runQuery(api.summaries.getSummaryById, {
+          summaryId: job.sourceSummaryId,
+        });
+        if (!source || source.status !== "completed") {
+          throw new Error("Source summary is not available to translate");
+        }
+        events = streamSummaryTranslation(
+          book,
+          job.summaryType,
+          source,
+          job.language ?? DEFAULT_SUMMARY_LANGUAGE,
+          options
+        );
+      } else {
+        events = streamBookSummary(book, job.summaryType, options);
+      }
+
+      for await (const event of events) {
+        if (event.type === "error") {
+          throw new Error(event.message);
+        }
+        if (event.type === "done") {
+          result = event.result;
+          break;
+        }
+        if (event.type !== "delta") {
+          continue;
+        }
+
+        content += event.content;
+        if (Date.now() - lastPublishedAt >= PROGRESS_INTERVAL_MS) {
+          lastPublishedAt = Date.now();
+          await ctx.runMutation(internal.summaryJobs.updateJobProgress, {
+            jobId: args.jobId,
+            partialContent: content,
+          });
+        }
+      }
+
+      if (!result) {
+        throw new Error("Summary stream ended unexpectedly");
+      }
+
+      const wordCount = calculateWordCount(result.content);
+      const summaryId = await ctx.runMutation(api.summaries.storeSummary, {
+        bookId: book.id,
+        bookTitle: book.title,
+        bookAuthors: book.authors,
+        summaryType: job.summaryType,
+        // The job's language, even for mock content from a fallback
+        language: job.language,
+        content: result.content,
+        structured: result.structured,
+        generationTime: result.generationTime,
+        wordCount,
+        readingTime: calculateReadingTime(wordCount),
+        aiModel: result.aiModel,
+        promptVersion: result.promptVersion,
+        generationMode: result.generationMode,
+        quality: result.quality,
+        userId: job.userId,
+        metadata: result.metadata,
+        tokenUsage: result.usage,
+      });
+
+      await ctx.runMutation(internal.summaryJobs.completeJob, {
+        jobId: args.jobId,
+        summaryId,
+        estimatedCost: result.usage?.estimatedCost,
+      });
+
+      await ctx.runMutation(api.analytics.logSummaryGeneration, {
+        bookId: book.id,
+        summaryType: job.summaryType,
+        userId: job.userId,
+        generationTime: result.generationTime,
+        success: true,
+        aiModel: result.aiModel,
+        promptVersion: result.promptVersion,
+        tokenUsage: result.usage,
+        cacheHit: false,
+        bookMetadata: {
+          title: book.title,
+          authors: book.authors,
+          source: book.source,
+          hadDescription: Boolean(book.description?.trim()),
+        },
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      console.error(`Summary job ${args.jobId} failed:`, {
+        attempt: job.attempts,
+        error,
+      });
+
+      const willRetry = await ctx.runMutation(internal.summaryJobs.failJob, {
+        jobId: args.jobId,
+        errorMessage,
+        retryable: isRetryableError(errorMessage),
+      });
+
+      // Log analytics once per job, not per attempt
+      if (!willRetry) {
+        await ctx.runMutation(api.analytics.logSummaryGeneration, {
+          bookId: book.id,
+          summaryType: job.summaryType,
+          userId: job.userId,
+          generationTime: Date.now() - startTime,
+          success: false,
+          errorType: error instanceof Error ? error.name : "UnknownError",
+          errorMessage,
+          aiModel: provider.resolveModel(job.model),
+          promptVersion: options.promptVersion!,
+          cacheHit: false,
+          bookMetadata: {
+            title: book.title,
+            authors: book.authors,
+            source: book.source,
+            hadDescription: Boolean(book.description?.trim()),
+          },
+        });
+      }
+    }
+
+    return null;
+  },
+});
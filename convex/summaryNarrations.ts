@@ -0,0 +1,349 @@
+/**
+ * Convex Summary Narrations - Audio versions of summaries
+ *
+ * A narration is a summary revision read aloud by a text-to-speech engine
+ * (see src/services/narration), stored as one audio file per
+ * heading-delimited chunk in Convex file storage. Synthesis runs in
+ * summaryNarrationsActions.ts; chunks appear as they finish, so playback
+ * can start while the rest is still being synthesized.
+ *
+ * Why cache per revision:
+ * - Speech costs per character, and a summary is read far more often than
+ *   it changes
+ * - Regenerating stores a new revision, which gets its own narration, so
+ *   audio never drifts from the text on screen
+ *
+ * This module is responsible for:
+ * - Requesting narrations (reusing the cached one for the revision)
+ * - Exposing narration state and chunk URLs for reactive playback
+ * - Recording chunks, completion and failure (called by the action)
+ */
+
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  getDefaultNarrationProviderId,
+  getNarrationProvider,
+} from "../src/services/narration/providers";
+import { assertWithinBudget, getChargedQuotaSubject } from "./summaryQuotas";
+import {
+  claimTask,
+  completeTask,
+  failTask,
+  getRunningTask,
+  isTaskStalled,
+  type TaskLifecycle,
+} from "./generationTasks";
+
+const NARRATION_LIFECYCLE: TaskLifecycle<"summaryNarrations"> = {
+  queued: "queued",
+  running: "running",
+};
+
+/**
+ * Whether a narration can be reused instead of synthesizing again
+ */
+function isReusable(narration: Doc<"summaryNarrations">, now: number) {
+  return (
+    narration.status !== "failed" &&
+    !isTaskStalled(narration, NARRATION_LIFECYCLE, now)
+  );
+}
+
+/**
+ * Request the narration of a summary's current revision
+ *
+ * Flow:
+ * 1. Check the summary is completed real content
+ * 2. Reuse the narration for this revision, engine and voice unless it
+ *    failed or its action died
+ * 3. Otherwise check the requester's spend budget (throws "Quota exceeded:
+ *    ..."), clear any failed attempt and schedule synthesis
+ *
+ * The cost is charged to the requester once synthesis completes; reused
+ * narrations are free.
+ *
+ * Returns the narration ID to subscribe to via getNarration.
+ */
+export const requestNarration = mutation({
+  args: {
+    summaryId: v.id("summaries"),
+    voice: v.optional(v.string()), // Engine default if omitted or unknown
+    anonymousId: v.optional(v.string()), // Quota key for signed-out requesters
+  },
+  returns: v.id("summaryNarrations"),
+  handler: async (ctx, args) => {
+    // Step 1: Only completed, real summaries are narrated
+    const summary = await ctx.db.get(args.summaryId);
+    if (!summary) {
+      throw new Error(`Summary not found: ${args.summaryId}`);
+    }
+    if (
+      summary.status !== "completed" ||
+      summary.generationMode === "mock" ||
+      !summary.content.trim()
+    ) {
+      throw new Error("Only completed summaries can be narrated");
+    }
+
+    const provider = getDefaultNarrationProviderId();
+    const voice = getNarrationProvider(provider).resolveVoice(args.voice);
+    const revision = summary.currentRevision ?? 0;
+    const now = Date.now();
+
+    // Step 2: Reuse the cached narration for this revision
+    const existing = await ctx.db
+      .query("summaryNarrations")
+      .withIndex("bySummaryAndRevision", (q) =>
+        q.eq("summaryId", args.summaryId).eq("revision", revision)
+      )
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("provider"), provider),
+          q.eq(q.field("voice"), voice)
+        )
+      )
+      .first();
+
+    if (existing && isReusable(existing, now)) {
+      return existing._id;
+    }
+
+    // Step 3: Synthesize (again)
+    const quotaSubject = await getChargedQuotaSubject(ctx, args.anonymousId);
+    await assertWithinBudget(ctx, quotaSubject);
+
+    let narrationId: Id<"summaryNarrations">;
+    if (existing) {
+      for (const chunk of existing.chunks) {
+        await ctx.storage.delete(chunk.storageId);
+      }
+      await ctx.db.patch(existing._id, {
+        status: "queued",
+        chunks: [],
+        chunkCount: undefined,
+        estimatedCost: undefined,
+        quotaSubject,
+        lastError: undefined,
+        updatedAt: now,
+      });
+      narrationId = existing._id;
+    } else {
+      narrationId = await ctx.db.insert("summaryNarrations", {
+        summaryId: args.summaryId,
+        revision,
+        provider,
+        voice,
+        status: "queued",
+        chunks: [],
+        quotaSubject,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await ctx.scheduler.runAfter(
+      0,
+      internal.summaryNarrationsActions.synthesizeNarration,
+      { narrationId }
+    );
+
+    return narrationId;
+  },
+});
+
+/**
+ * Get the latest narration of a summary's current revision
+ *
+ * Chunks come with URLs to their audio files. Clients subscribe to this
+ * with convex/react useQuery, so chunks are pushed as they are
+ * synthesized.
+ */
+export const getNarration = query({
+  args: { summaryId: v.id("summaries") },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const summary = await ctx.db.get(args.summaryId);
+    if (!summary) return null;
+
+    const narration = await ctx.db
+      .query("summaryNarrations")
+      .withIndex("bySummaryAndRevision", (q) =>
+        q
+          .eq("summaryId", args.summaryId)
+          .eq("revision", summary.currentRevision ?? 0)
+      )
+      .order("desc")
+      .first();
+    if (!narration) return null;
+
+    return {
+      id: narration._id,
+      summaryId: narration.summaryId,
+      revision: narration.revision,
+      provider: narration.provider,
+      voice: narration.voice,
+      status: narration.status,
+      contentType: narration.contentType,
+      chunkCount: narration.chunkCount,
+      lastError: narration.lastError,
+      chunks: await Promise.all(
+        narration.chunks.map(async (chunk) => ({
+          index: chunk.index,
+          sectionId: chunk.sectionId,
+          heading: chunk.heading,
+          durationMs: chunk.durationMs,
+          url: await ctx.storage.getUrl(chunk.storageId),
+        }))
+      ),
+    };
+  },
+});
+
+/**
+ * Claim a queued narration and load the summary revision it narrates
+ */
+export const claimNarration = internalMutation({
+  args: { narrationId: v.id("summaryNarrations") },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const narration = await claimTask(
+      ctx,
+      NARRATION_LIFECYCLE,
+      args.narrationId
+    );
+    if (!narration) {
+      return null;
+    }
+
+    const summary = await ctx.db.get(narration.summaryId);
+
+    return {
+      narration,
+      summary: summary && {
+        content: summary.content,
+        structured: summary.structured,
+        language: summary.language,
+        revision: summary.currentRevision ?? 0,
+      },
+    };
+  },
+});
+
+/**
+ * Record the narration's script once built
+ */
+export const setNarrationScript = internalMutation({
+  args: {
+    narrationId: v.id("summaryNarrations"),
+    chunkCount: v.number(),
+    contentType: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.narrationId, {
+      chunkCount: args.chunkCount,
+      contentType: args.contentType,
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+/**
+ * Append a synthesized chunk
+ *
+ * Keeps requestNarration from treating the narration as stalled.
+ */
+export const addNarrationChunk = internalMutation({
+  args: {
+    narrationId: v.id("summaryNarrations"),
+    chunk: v.object({
+      index: v.number(),
+      sectionId: v.optional(v.string()),
+      heading: v.string(),
+      storageId: v.id("_storage"),
+      characters: v.number(),
+      durationMs: v.optional(v.number()),
+    }),
+    estimatedCost: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const narration = await getRunningTask(
+      ctx,
+      NARRATION_LIFECYCLE,
+      args.narrationId
+    );
+    if (!narration) {
+      // Superseded (e.g. re-requested after going stale): drop the file
+      await ctx.storage.delete(args.chunk.storageId);
+      return null;
+    }
+
+    await ctx.db.patch(narration._id, {
+      chunks: [...narration.chunks, args.chunk],
+      estimatedCost: (narration.estimatedCost ?? 0) + (args.estimatedCost ?? 0),
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+/**
+ * Mark a narration completed and charge its cost to the requester
+ */
+export const completeNarration = internalMutation({
+  args: { narrationId: v.id("summaryNarrations") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const narration = await getRunningTask(
+      ctx,
+      NARRATION_LIFECYCLE,
+      args.narrationId
+    );
+    if (!narration) return null;
+
+    await completeTask(
+      ctx,
+      NARRATION_LIFECYCLE,
+      narration._id,
+      { completedAt: Date.now() },
+      narration.estimatedCost
+    );
+    return null;
+  },
+});
+
+/**
+ * Mark a narration failed
+ *
+ * Chunks synthesized so far stay playable; requesting the narration again
+ * starts over. Spend on the failed attempt is still charged.
+ */
+export const failNarration = internalMutation({
+  args: {
+    narrationId: v.id("summaryNarrations"),
+    errorMessage: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const narration = await getRunningTask(
+      ctx,
+      NARRATION_LIFECYCLE,
+      args.narrationId
+    );
+    if (!narration) return null;
+
+    await failTask(
+      ctx,
+      NARRATION_LIFECYCLE,
+      narration._id,
+      { lastError: args.errorMessage },
+      narration.estimatedCost
+    );
+    return null;
+  },
+});
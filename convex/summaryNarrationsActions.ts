@@ -0,0 +1,102 @@
+"use node";
+
+/**
+ * Convex Summary Narration Actions - Speech synthesis for narrations
+ *
+ * Runs in the Node runtime because the speech SDKs do. Engine settings
+ * (NARRATION_PROVIDER, OPENAI_API_KEY, LOCAL_TTS_BASE_URL, ...) must be set
+ * as Convex environment variables.
+ *
+ * Flow per run:
+ * 1. Claim the narration (no-op if another run already has it)
+ * 2. Build the script: one chunk per heading of the narrated revision
+ * 3. Synthesize each chunk, store the audio file and append it to the
+ *    narration so the player can start on the first one
+ * 4. Complete the narration, or fail it on the first error
+ */
+
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { parseStructuredSummary } from "../src/types/summary";
+import { getNarrationProvider } from "../src/services/narration/providers";
+import { buildNarrationScript } from "../src/services/narration/narrationScript";
+
+export const synthesizeNarration = internalAction({
+  args: { narrationId: v.id("summaryNarrations") },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const claimed = await ctx.runMutation(
+      internal.summaryNarrations.claimNarration,
+      { narrationId: args.narrationId }
+    );
+    if (!claimed) {
+      return null;
+    }
+
+    const { narration, summary } = claimed;
+
+    try {
+      if (!summary) {
+        throw new Error("Summary no longer exists");
+      }
+      if (summary.revision !== narration.revision) {
+        throw new Error("Summary changed before it could be narrated");
+      }
+
+      const provider = getNarrationProvider(narration.provider);
+      const script = buildNarrationScript(
+        summary.content,
+        parseStructuredSummary(summary.structured)
+      );
+      if (script.length === 0) {
+        throw new Error("Summary has no text to narrate");
+      }
+
+      await ctx.runMutation(internal.summaryNarrations.setNarrationScript, {
+        narrationId: args.narrationId,
+        chunkCount: script.length,
+        contentType: provider.contentType,
+      });
+
+      for (const chunk of script) {
+        const speech = await provider.synthesize(chunk.text, {
+          voice: narration.voice,
+          language: summary.language,
+        });
+        const storageId = await ctx.storage.store(
+          new Blob([speech.audio], { type: speech.contentType })
+        );
+
+        await ctx.runMutation(internal.summaryNarrations.addNarrationChunk, {
+          narrationId: args.narrationId,
+          chunk: {
+            index: chunk.index,
+            sectionId: chunk.sectionId,
+            heading: chunk.heading,
+            storageId,
+            characters: chunk.text.length,
+            durationMs: speech.durationMs,
+          },
+          estimatedCost: speech.estimatedCost,
+        });
+      }
+
+      await ctx.runMutation(internal.summaryNarrations.completeNarration, {
+        narrationId: args.narrationId,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+
+      console.error(`Narration ${args.narrationId} failed:`, error);
+
+      await ctx.runMutation(internal.summaryNarrations.failNarration, {
+        narrationId: args.narrationId,
+        errorMessage,
+      });
+    }
+
+    return null;
+  },
+});
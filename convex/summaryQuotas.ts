@@ -0,0 +1,445 @@
+/**
+ * Convex Summary Quotas - Per-user generation limits and cost budgets
+ *
+ * Every generation is charged to a quota subject: the signed-in user, or an
+ * anonymous browser identified by a client-held ID. Subjects have daily and
+ * monthly limits on generations started and on estimated spend
+ * (tokenUsage.estimatedCost), with lower limits for anonymous subjects.
+ *
+ * Why count before generating:
+ * - The cost of a summary is only known once it is written, so the
+ *   generation count is what actually stops a burst of requests
+ * - Spend is checked against the budget before each generation and added
+ *   from the provider-reported cost once it finishes (never from figures
+ *   the browser sends)
+ *
+ * Anonymous IDs can be reset by clearing browser storage, so all anonymous
+ * usage is also charged to a shared pool with its own limits. Callers with
+ * no ID at all are charged to the pool directly, held to those same pool
+ * limits.
+ *
+ * This module is responsible for:
+ * - Resolving the quota subject for a request
+ * - Checking and consuming quota before generation starts
+ * - Recording the estimated cost of completed generations, including those
+ *   reported by the Next.js summary routes (see SUMMARY_QUOTA_SECRET)
+ * - Reporting remaining quota to the client
+ */
+
+import { v } from "convex/values";
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  MutationCtx,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+
+export type QuotaTier = "anonymous" | "signedIn";
+export type QuotaPeriod = "day" | "month";
+
+interface QuotaLimit {
+  /** Generations started per period */
+  generations: number;
+  /** Estimated spend per period, USD */
+  estimatedCost: number;
+}
+
+/** Limits per tier and period */
+export const QUOTA_LIMITS: Record<
+  QuotaTier,
+  Record<QuotaPeriod, QuotaLimit>
+> = {
+  anonymous: {
+    day: { generations: 3, estimatedCost: 0.05 },
+    month: { generations: 20, estimatedCost: 0.3 },
+  },
+  signedIn: {
+    day: { generations: 30, estimatedCost: 0.5 },
+    month: { generations: 300, estimatedCost: 5 },
+  },
+};
+
+/** Limits on all anonymous usage combined */
+const ANONYMOUS_POOL_LIMITS: Record<QuotaPeriod, QuotaLimit> = {
+  day: { generations: 500, estimatedCost: 5 },
+  month: { generations: 10_000, estimatedCost: 100 },
+};
+
+/** Subject shared by all anonymous usage */
+export const ANONYMOUS_POOL = "anon:*";
+
+/** Longest accepted client-held anonymous ID */
+const MAX_ANONYMOUS_ID_LENGTH = 64;
+
+const PERIODS: QuotaPeriod[] = ["day", "month"];
+
+const PERIOD_NAMES: Record<QuotaPeriod, string> = {
+  day: "today",
+  month: "this month",
+};
+
+/**
+ * Usage row key for the UTC day or month containing `now`
+ */
+function periodKey(period: QuotaPeriod, now: number): string {
+  const date = new Date(now).toISOString();
+  return period === "day"
+    ? `day:${date.slice(0, 10)}`
+    : `month:${date.slice(0, 7)}`;
+}
+
+/**
+ * Tier a subject's limits come from
+ */
+function getTier(subject: string): QuotaTier {
+  return subject.startsWith("user:") ? "signedIn" : "anonymous";
+}
+
+/**
+ * Limits a subject is held to in one period
+ *
+ * The pool is a single subject standing for every anonymous caller, so it
+ * gets the pool limits rather than one visitor's.
+ */
+function getLimit(subject: string, period: QuotaPeriod): QuotaLimit {
+  return subject === ANONYMOUS_POOL
+    ? ANONYMOUS_POOL_LIMITS[period]
+    : QUOTA_LIMITS[getTier(subject)][period];
+}
+
+/**
+ * Quota subject for the caller
+ *
+ * Signed-in callers are charged by their Clerk user ID, anonymous callers
+ * by their client-held ID. Returns null when the caller has neither, e.g.
+ * a scheduled action (which charges the subject stored on its job).
+ */
+export async function resolveQuotaSubject(
+  ctx: QueryCtx,
+  anonymousId?: string
+): Promise<string | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (identity) {
+    return `user:${identity.subject}`;
+  }
+  if (anonymousId) {
+    if (anonymousId.length > MAX_ANONYMOUS_ID_LENGTH) {
+      throw new Error("Invalid anonymous ID");
+    }
+    return `anon:${anonymousId}`;
+  }
+  return null;
+}
+
+async function getUsage(
+  ctx: QueryCtx,
+  subject: string,
+  period: QuotaPeriod,
+  now: number
+) {
+  return await ctx.db
+    .query("summaryUsage")
+    .withIndex("bySubjectAndPeriod", (q) =>
+      q.eq("subject", subject).eq("period", periodKey(period, now))
+    )
+    .first();
+}
+
+/**
+ * Add generations and spend to a subject's day and month rows
+ */
+async function addUsage(
+  ctx: MutationCtx,
+  subject: string,
+  usage: { generations: number; estimatedCost: number },
+  now: number
+) {
+  for (const period of PERIODS) {
+    const row = await getUsage(ctx, subject, period, now);
+    if (row) {
+      await ctx.db.patch(row._id, {
+        generations: row.generations + usage.generations,
+        estimatedCost: row.estimatedCost + usage.estimatedCost,
+        updatedAt: now,
+      });
+    } else {
+      await ctx.db.insert("summaryUsage", {
+        subject,
+        period: periodKey(period, now),
+        ...usage,
+        updatedAt: now,
+      });
+    }
+  }
+}
+
+/**
+ * Why a subject can't start another generation, or null if it can
+ *
+ * With `countGenerations` false only the spend budgets are checked, for
+ * paid work that isn't a summary generation (e.g. narration). The pool
+ * subject itself is only checked against the pool limits.
+ */
+export async function findQuotaExceeded(
+  ctx: QueryCtx,
+  subject: string,
+  now: number,
+  countGenerations = true
+): Promise<string | null> {
+  const tier = getTier(subject);
+  const signInHint = tier === "anonymous" ? " Sign in for a higher limit." : "";
+
+  if (subject !== ANONYMOUS_POOL) {
+    for (const period of PERIODS) {
+      const limit = getLimit(subject, period);
+      const usage = await getUsage(ctx, subject, period, now);
+      if (countGenerations && (usage?.generations ?? 0) >= limit.generations) {
+        return `You've used all ${limit.generations} summary generations for ${PERIOD_NAMES[period]}.${signInHint}`;
+      }
+      if ((usage?.estimatedCost ?? 0) >= limit.estimatedCost) {
+        return `You've reached your summary generation budget for ${PERIOD_NAMES[period]}.${signInHint}`;
+      }
+    }
+  }
+
+  if (tier === "anonymous") {
+    for (const period of PERIODS) {
+      const limit = ANONYMOUS_POOL_LIMITS[period];
+      const usage = await getUsage(ctx, ANONYMOUS_POOL, period, now);
+      if (
+        (countGenerations && (usage?.generations ?? 0) >= limit.generations) ||
+        (usage?.estimatedCost ?? 0) >= limit.estimatedCost
+      ) {
+        return `Summary generation without an account is paused for ${PERIOD_NAMES[period]}. Sign in to keep generating.`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Add usage to a subject, and to the shared pool for anonymous subjects
+ */
+async function chargeUsage(
+  ctx: MutationCtx,
+  subject: string,
+  usage: { generations: number; estimatedCost: number }
+) {
+  const now = Date.now();
+  await addUsage(ctx, subject, usage, now);
+  if (getTier(subject) === "anonymous" && subject !== ANONYMOUS_POOL) {
+    await addUsage(ctx, ANONYMOUS_POOL, usage, now);
+  }
+}
+
+/**
+ * Quota subject to charge for the caller's generations
+ *
+ * Like resolveQuotaSubject, but anonymous callers without an ID are
+ * charged to the shared pool itself (and held to the pool limits there).
+ */
+export async function getChargedQuotaSubject(
+  ctx: QueryCtx,
+  anonymousId?: string
+): Promise<string> {
+  return (await resolveQuotaSubject(ctx, anonymousId)) ?? ANONYMOUS_POOL;
+}
+
+/**
+ * Check a subject's quota and charge it one generation
+ *
+ * Called before generation starts; joining an identical job that is
+ * already running is free and doesn't come through here.
+ *
+ * @throws Error starting "Quota exceeded:" when any limit is reached
+ */
+export async function consumeGenerationQuota(
+  ctx: MutationCtx,
+  subject: string
+): Promise<void> {
+  const exceeded = await findQuotaExceeded(ctx, subject, Date.now());
+  if (exceeded) {
+    throw new Error(`Quota exceeded: ${exceeded}`);
+  }
+  await chargeUsage(ctx, subject, { generations: 1, estimatedCost: 0 });
+}
+
+/**
+ * Check a subject still has spend budget left, without charging it
+ *
+ * @throws Error starting "Quota exceeded:" when a budget is spent
+ */
+export async function assertWithinBudget(
+  ctx: QueryCtx,
+  subject: string
+): Promise<void> {
+  const exceeded = await findQuotaExceeded(ctx, subject, Date.now(), false);
+  if (exceeded) {
+    throw new Error(`Quota exceeded: ${exceeded}`);
+  }
+}
+
+/**
+ * Add a completed generation's estimated cost to a subject's spend
+ */
+export async function recordGenerationCost(
+  ctx: MutationCtx,
+  subject: string,
+  estimatedCost: number | undefined
+): Promise<void> {
+  if (!estimatedCost || estimatedCost <= 0) return;
+  await chargeUsage(ctx, subject, { generations: 0, estimatedCost });
+}
+
+/**
+ * Charge the caller one generation before generating outside a job
+ *
+ * Called by the Next.js summary routes and server action (with the
+ * caller's Clerk token forwarded) before they call a provider, so skipping
+ * it means not generating. Returns the charged subject, which the server
+ * passes back to recordGenerationSpend with the real cost. Jobs are
+ * charged in enqueueJob instead.
+ */
+export const reserveGeneration = mutation({
+  args: {
+    anonymousId: v.optional(v.string()), // Client-held ID for anonymous callers
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const subject = await getChargedQuotaSubject(ctx, args.anonymousId);
+    await consumeGenerationQuota(ctx, subject);
+    return subject;
+  },
+});
+
+/**
+ * Add a server-side generation's provider-reported cost to its subject
+ *
+ * Only the Next.js server may call this: it must pass SUMMARY_QUOTA_SECRET
+ * (set on both the Convex and Next.js deployments), so a browser can't
+ * report its own spend.
+ */
+export const recordGenerationSpend = mutation({
+  args: {
+    serverSecret: v.string(),
+    subject: v.string(), // As returned by reserveGeneration
+    estimatedCost: v.number(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const secret = process.env.SUMMARY_QUOTA_SECRET;
+    if (!secret || args.serverSecret !== secret) {
+      throw new Error("Not authorized to record generation spend");
+    }
+    await recordGenerationCost(ctx, args.subject, args.estimatedCost);
+    return null;
+  },
+});
+
+/**
+ * Check the caller's spend budget before an action calls a provider
+ *
+ * For actions that call a provider directly (e.g. prompt-mode discovery);
+ * actions can't read the database, so they check here. Returns the subject
+ * to pass to recordActionCost once the provider reports usage.
+ *
+ * @throws Error starting "Quota exceeded:" when a budget is spent
+ */
+export const checkActionBudget = internalQuery({
+  args: {
+    anonymousId: v.optional(v.string()), // Client-held ID for anonymous callers
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const subject = await getChargedQuotaSubject(ctx, args.anonymousId);
+    await assertWithinBudget(ctx, subject);
+    return subject;
+  },
+});
+
+/**
+ * Add an action's provider-reported cost to a subject's spend
+ */
+export const recordActionCost = internalMutation({
+  args: {
+    subject: v.string(), // As returned by checkActionBudget
+    estimatedCost: v.optional(v.number()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await recordGenerationCost(ctx, args.subject, args.estimatedCost);
+    return null;
+  },
+});
+
+/**
+ * Remaining quota for a subject in one period
+ *
+ * A spent budget leaves no generations, and anonymous subjects are capped
+ * by whatever the shared pool has left.
+ */
+async function getPeriodQuota(
+  ctx: QueryCtx,
+  subject: string,
+  period: QuotaPeriod,
+  now: number
+) {
+  const tier = getTier(subject);
+  const limit = getLimit(subject, period);
+  const usage = await getUsage(ctx, subject, period, now);
+  const generations = usage?.generations ?? 0;
+  const estimatedCost = usage?.estimatedCost ?? 0;
+
+  let remainingGenerations =
+    estimatedCost >= limit.estimatedCost ? 0 : limit.generations - generations;
+  if (tier === "anonymous" && subject !== ANONYMOUS_POOL) {
+    const pool = await getUsage(ctx, ANONYMOUS_POOL, period, now);
+    const poolLimit = ANONYMOUS_POOL_LIMITS[period];
+    remainingGenerations =
+      (pool?.estimatedCost ?? 0) >= poolLimit.estimatedCost
+        ? 0
+        : Math.min(
+            remainingGenerations,
+            poolLimit.generations - (pool?.generations ?? 0)
+          );
+  }
+
+  return {
+    generations: {
+      used: generations,
+      limit: limit.generations,
+      remaining: Math.max(0, remainingGenerations),
+    },
+    estimatedCost: {
+      used: estimatedCost,
+      limit: limit.estimatedCost,
+      remaining: Math.max(0, limit.estimatedCost - estimatedCost),
+    },
+  };
+}
+
+/**
+ * Get the caller's remaining quota
+ *
+ * Returns the tier plus, for the day and the month, used/limit/remaining
+ * generations and estimated spend.
+ */
+export const getRemainingQuota = query({
+  args: {
+    anonymousId: v.optional(v.string()), // Client-held ID for anonymous callers
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const subject = await getChargedQuotaSubject(ctx, args.anonymousId);
+    const now = Date.now();
+
+    return {
+      tier: getTier(subject),
+      day: await getPeriodQuota(ctx, subject, "day", now),
+      month: await getPeriodQuota(ctx, subject, "month", now),
+    };
+  },
+});
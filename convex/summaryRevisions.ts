@@ -0,0 +1,99 @@
+/**
+ * Convex Summary Revisions - Generation history per summary
+ *
+ * The summaries row keeps serving the latest content for its book+type;
+ * every completed generation is also appended here as a numbered revision,
+ * so regenerating never loses a previous version.
+ *
+ * This module is responsible for:
+ * - Recording a revision whenever storeSummary writes new content
+ * - Listing revisions for the history and diff view
+ */
+
+import { v } from "convex/values";
+import { MutationCtx, query, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+
+/**
+ * Append the summary's current content as its next revision
+ *
+ * Call after the summaries row has been written. Rows predating revisions
+ * have no currentRevision; storeSummary archives their content first (as
+ * revision 1) so it survives the overwrite.
+ *
+ * @returns The new revision number
+ */
+export async function recordRevision(
+  ctx: MutationCtx,
+  summary: Doc<"summaries">
+): Promise<number> {
+  const revision = (summary.currentRevision ?? 0) + 1;
+
+  await ctx.db.insert("summaryRevisions", {
+    summaryId: summary._id,
+    revision,
+    content: summary.content,
+    structured: summary.structured,
+    wordCount: summary.wordCount,
+    readingTime: summary.readingTime,
+    generationTime: summary.generationTime,
+    aiModel: summary.aiModel,
+    promptVersion: summary.promptVersion,
+    generationMode: summary.generationMode,
+    quality: summary.quality,
+    tokenUsage: summary.tokenUsage,
+    createdAt: summary.updatedAt,
+  });
+  await ctx.db.patch(summary._id, { currentRevision: revision });
+
+  return revision;
+}
+
+/**
+ * Find one revision of a summary
+ */
+export async function getRevisionDoc(
+  ctx: QueryCtx,
+  summaryId: Id<"summaries">,
+  revision: number
+) {
+  return await ctx.db
+    .query("summaryRevisions")
+    .withIndex("bySummary", (q) =>
+      q.eq("summaryId", summaryId).eq("revision", revision)
+    )
+    .first();
+}
+
+/**
+ * List a summary's revisions, newest first
+ *
+ * Includes content, which the diff view compares client-side.
+ */
+export const listRevisions = query({
+  args: {
+    summaryId: v.id("summaries"),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("summaryRevisions")
+      .withIndex("bySummary", (q) => q.eq("summaryId", args.summaryId))
+      .order("desc")
+      .collect();
+  },
+});
+
+/**
+ * Get one revision of a summary (null if it doesn't exist)
+ */
+export const getRevision = query({
+  args: {
+    summaryId: v.id("summaries"),
+    revision: v.number(),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    return await getRevisionDoc(ctx, args.summaryId, args.revision);
+  },
+});
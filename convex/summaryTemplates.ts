@@ -0,0 +1,340 @@
+/**
+ * Convex Summary Templates - Built-in and user-defined summary types
+ *
+ * Every summary type is a template: the four built-in types are seeded
+ * rows (see seedBuiltInTemplates), and users can add their own with custom
+ * instructions, target length and headings. Custom types are keyed
+ * "custom:<templateId>" everywhere a summaryType is stored.
+ *
+ * This module is responsible for:
+ * - Listing the templates offered to a user (built-ins, then their own)
+ * - Creating, updating and deleting a user's custom templates
+ * - Resolving the template for a summary type on the server
+ */
+
+import { v, VString } from "convex/values";
+import {
+  internalMutation,
+  mutation,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  customSummaryType,
+  isBuiltInSummaryType,
+  isCustomSummaryType,
+  type SummaryTemplate,
+  type SummaryType,
+} from "../src/types/summary";
+import {
+  BUILT_IN_SUMMARY_TEMPLATES,
+  formatTemplateReadTime,
+  listBuiltInTemplates,
+} from "../src/services/summary/templates";
+
+/** Custom templates per user */
+const MAX_CUSTOM_TEMPLATES = 20;
+/** Bounds on target length, in words */
+const MIN_TARGET_WORDS = 50;
+const MAX_TARGET_WORDS = 3000;
+/** Icon used when the user does not pick one */
+const DEFAULT_CUSTOM_ICON = "✏️";
+
+const templateFieldsValidator = {
+  title: v.string(),
+  description: v.string(),
+  instructions: v.string(),
+  headings: v.array(v.string()),
+  targetWords: v.object({ min: v.number(), max: v.number() }),
+  icon: v.optional(v.string()),
+};
+
+type TemplateFields = {
+  title: string;
+  description: string;
+  instructions: string;
+  headings: string[];
+  targetWords: { min: number; max: number };
+  icon?: string;
+};
+
+/**
+ * Convert a template row to the shape prompts and the client use
+ */
+export function toSummaryTemplate(
+  doc: Doc<"summaryTemplates">
+): SummaryTemplate {
+  return {
+    key: doc.builtInKey ?? customSummaryType(doc._id),
+    title: doc.title,
+    description: doc.description,
+    readTime: doc.readTime,
+    icon: doc.icon,
+    instructions: doc.instructions,
+    headings: doc.headings,
+    targetWords: doc.targetWords,
+    builtIn: Boolean(doc.builtInKey),
+  };
+}
+
+/**
+ * Resolve the template for a summary type
+ *
+ * Built-in types fall back to the bundled constants until seeded; custom
+ * types return null when the template has been deleted.
+ */
+export async function getTemplateForType(
+  ctx: QueryCtx,
+  summaryType: SummaryType
+): Promise<SummaryTemplate | null> {
+  if (isBuiltInSummaryType(summaryType)) {
+    const seeded = await ctx.db
+      .query("summaryTemplates")
+      .withIndex("byBuiltInKey", (q) => q.eq("builtInKey", summaryType))
+      .first();
+    return seeded
+      ? toSummaryTemplate(seeded)
+      : BUILT_IN_SUMMARY_TEMPLATES[summaryType];
+  }
+
+  if (!isCustomSummaryType(summaryType)) return null;
+
+  const templateId = ctx.db.normalizeId(
+    "summaryTemplates",
+    summaryType.slice("custom:".length)
+  );
+  const doc = templateId ? await ctx.db.get(templateId) : null;
+  return doc ? toSummaryTemplate(doc) : null;
+}
+
+/**
+ * Validate and normalize user-supplied template fields
+ *
+ * @throws Error describing the first invalid field
+ */
+function normalizeTemplateFields(fields: TemplateFields) {
+  const title = fields.title.trim();
+  const instructions = fields.instructions.trim();
+  const headings = fields.headings
+    .map((heading) => heading.trim())
+    .filter(Boolean);
+  const { min, max } = fields.targetWords;
+
+  if (!title || title.length > 80) {
+    throw new Error("Template title must be 1-80 characters");
+  }
+  if (!instructions || instructions.length > 4000) {
+    throw new Error("Template instructions must be 1-4000 characters");
+  }
+  if (headings.length > 20) {
+    throw new Error("Templates can have at most 20 headings");
+  }
+  if (
+    !Number.isInteger(min) ||
+    !Number.isInteger(max) ||
+    min < MIN_TARGET_WORDS ||
+    max > MAX_TARGET_WORDS ||
+    min > max
+  ) {
+    throw new Error(
+      `Target length must be between ${MIN_TARGET_WORDS} and ${MAX_TARGET_WORDS} words`
+    );
+  }
+
+  return {
+    title,
+    description: fields.description.trim().slice(0, 200),
+    instructions,
+    headings,
+    targetWords: { min, max },
+    readTime: formatTemplateReadTime({ min, max }),
+    icon: fields.icon?.trim() || DEFAULT_CUSTOM_ICON,
+  };
+}
+
+/**
+ * Load a custom template owned by the user
+ *
+ * @throws Error if the template is missing, built-in or someone else's
+ */
+async function getOwnedTemplate(
+  ctx: QueryCtx,
+  templateId: Id<"summaryTemplates">,
+  userId: string
+) {
+  const template = await ctx.db.get(templateId);
+  if (!template || template.builtInKey || template.userId !== userId) {
+    throw new Error("Template not found");
+  }
+  return template;
+}
+
+/**
+ * List templates offered to a user
+ *
+ * Flow:
+ * 1. Built-in types in selector order (seeded rows, else bundled constants)
+ * 2. The user's custom templates, oldest first
+ */
+export const listTemplates = query({
+  args: {
+    userId: v.optional(v.string()),
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    const builtIns = await Promise.all(
+      listBuiltInTemplates().map((template) =>
+        getTemplateForType(ctx, template.key)
+      )
+    );
+
+    const custom = args.userId
+      ? await ctx.db
+          .query("summaryTemplates")
+          .withIndex("byUser", (q) => q.eq("userId", args.userId))
+          .collect()
+      : [];
+
+    return [
+      ...builtIns.filter((template): template is SummaryTemplate =>
+        Boolean(template)
+      ),
+      ...custom.map(toSummaryTemplate),
+    ];
+  },
+});
+
+/**
+ * Get the template for a summary type, or null if it no longer exists
+ */
+export const getTemplate = query({
+  args: {
+    summaryType: v.string() as VString<SummaryType>,
+  },
+  returns: v.any(), // Simplified return type
+  handler: async (ctx, args) => {
+    return await getTemplateForType(ctx, args.summaryType);
+  },
+});
+
+/**
+ * Create a custom template for a user
+ *
+ * Returns the new summary type key ("custom:<templateId>").
+ */
+export const createTemplate = mutation({
+  args: {
+    userId: v.string(),
+    ...templateFieldsValidator,
+  },
+  returns: v.string(),
+  handler: async (ctx, args) => {
+    const { userId, ...fields } = args;
+
+    const existing = await ctx.db
+      .query("summaryTemplates")
+      .withIndex("byUser", (q) => q.eq("userId", userId))
+      .collect();
+    if (existing.length >= MAX_CUSTOM_TEMPLATES) {
+      throw new Error(
+        `You can have at most ${MAX_CUSTOM_TEMPLATES} custom templates`
+      );
+    }
+
+    const now = Date.now();
+    const templateId = await ctx.db.insert("summaryTemplates", {
+      ...normalizeTemplateFields(fields),
+      userId,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return customSummaryType(templateId);
+  },
+});
+
+/**
+ * Update one of the user's custom templates
+ *
+ * Summaries already generated from the template keep their content.
+ */
+export const updateTemplate = mutation({
+  args: {
+    userId: v.string(),
+    templateId: v.id("summaryTemplates"),
+    ...templateFieldsValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const { userId, templateId, ...fields } = args;
+    await getOwnedTemplate(ctx, templateId, userId);
+
+    await ctx.db.patch(templateId, {
+      ...normalizeTemplateFields(fields),
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+/**
+ * Delete one of the user's custom templates
+ *
+ * Summaries generated from it stay readable; they just can't be
+ * regenerated.
+ */
+export const deleteTemplate = mutation({
+  args: {
+    userId: v.string(),
+    templateId: v.id("summaryTemplates"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await getOwnedTemplate(ctx, args.templateId, args.userId);
+    await ctx.db.delete(args.templateId);
+    return null;
+  },
+});
+
+/**
+ * Seed the built-in templates
+ *
+ * Idempotent: only missing built-ins are inserted, so tuned rows are kept.
+ * Run once per deployment: `npx convex run summaryTemplates:seedBuiltInTemplates`
+ */
+export const seedBuiltInTemplates = internalMutation({
+  args: {},
+  returns: v.number(),
+  handler: async (ctx) => {
+    let inserted = 0;
+    const now = Date.now();
+
+    for (const template of listBuiltInTemplates()) {
+      if (!isBuiltInSummaryType(template.key)) continue;
+      const builtInKey = template.key;
+
+      const existing = await ctx.db
+        .query("summaryTemplates")
+        .withIndex("byBuiltInKey", (q) => q.eq("builtInKey", builtInKey))
+        .first();
+      if (existing) continue;
+
+      await ctx.db.insert("summaryTemplates", {
+        builtInKey,
+        title: template.title,
+        description: template.description,
+        readTime: template.readTime,
+        icon: template.icon,
+        instructions: template.instructions,
+        headings: template.headings,
+        targetWords: template.targetWords,
+        createdAt: now,
+        updatedAt: now,
+      });
+      inserted++;
+    }
+
+    return inserted;
+  },
+});
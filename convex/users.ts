@@ -24,7 +24,11 @@ export const upsertFromClerk = internalMutation({
     if (user === null) {
       await ctx.db.insert("users", userAttributes);
     } else {
-      await ctx.db.patch(user._id, userAttributes);
+      // Keep the interaction terms recommendations learn from
+      await ctx.db.patch(user._id, {
+        ...userAttributes,
+        preferences: user.preferences,
+      });
     }
   },
 });
@@ -58,7 +62,7 @@ export async function getCurrentUser(ctx: QueryCtx) {
   return await userByExternalId(ctx, identity.subject);
 }
 
-async function userByExternalId(ctx: QueryCtx, externalId: string) {
+export async function userByExternalId(ctx: QueryCtx, externalId: string) {
   return await ctx.db
     .query("users")
     .withIndex("byExternalId", (q) => q.eq("externalId", externalId))
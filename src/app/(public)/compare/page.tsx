@@ -0,0 +1,10 @@
+import { Suspense } from "react";
+import { CompareBooksView } from "@/views/CompareBooksView";
+
+export default function ComparePage() {
+  return (
+    <Suspense fallback={<div>Loading comparison...</div>}>
+      <CompareBooksView />
+    </Suspense>
+  );
+}
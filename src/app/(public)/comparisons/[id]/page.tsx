@@ -0,0 +1,84 @@
+import type { Metadata } from "next";
+import { ConvexHttpClient } from "convex/browser";
+import { ComparisonReadingView } from "@/views/ComparisonReadingView";
+import { api } from "../../../../../convex/_generated/api";
+
+interface ComparisonPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Generate metadata for the comparison page, so shared links preview the
+ * compared books
+ */
+export async function generateMetadata({
+  params,
+}: ComparisonPageProps): Promise<Metadata> {
+  const { id: comparisonId } = await params;
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://outclever.studio";
+  const absoluteUrl = `${baseUrl}/comparisons/${comparisonId}`;
+  const defaultImage = `${baseUrl}/logo/logo-og.png`;
+
+  let pageTitle = "Book Comparison — OutClever";
+  let pageDescription =
+    "Compare books side by side on OutClever — Smarter. Sharper. Faster.";
+
+  try {
+    const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+    const comparison = await convex.query(api.bookComparisons.getComparison, {
+      comparisonId,
+    });
+
+    if (comparison) {
+      pageTitle = `${comparison.title} — OutClever`;
+      pageDescription = `A side-by-side comparison of ${comparison.title}: themes, approach and takeaways. | AI-powered book insights on OutClever.`;
+    }
+  } catch (error) {
+    console.error("Failed to fetch comparison for metadata:", error);
+    // Fall through to fallback metadata
+  }
+
+  return {
+    title: pageTitle,
+    description: pageDescription,
+    keywords: ["book comparison", "AI summaries", "book insights", "OutClever"],
+    robots: {
+      index: true,
+      follow: true,
+    },
+    openGraph: {
+      title: pageTitle,
+      description: pageDescription,
+      type: "article",
+      url: absoluteUrl,
+      siteName: "OutClever",
+      images: [
+        {
+          url: defaultImage,
+          width: 1200,
+          height: 630,
+          alt: "OutClever Logo — Smarter. Sharper. Faster.",
+        },
+      ],
+    },
+    twitter: {
+      card: "summary_large_image",
+      site: "@OutClever",
+      title: pageTitle,
+      description: pageDescription,
+      images: [defaultImage],
+    },
+  };
+}
+
+/**
+ * Comparison reading page
+ */
+export default async function ComparisonPage({ params }: ComparisonPageProps) {
+  const { id: comparisonId } = await params;
+
+  return <ComparisonReadingView comparisonId={comparisonId} />;
+}
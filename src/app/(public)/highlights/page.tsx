@@ -0,0 +1,6 @@
+import React from "react";
+import HighlightsView from "@/views/HighlightsView";
+
+export default function HighlightsPage() {
+  return <HighlightsView />;
+}
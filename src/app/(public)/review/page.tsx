@@ -0,0 +1,6 @@
+import React from "react";
+import ReviewView from "@/views/ReviewView";
+
+export default function ReviewPage() {
+  return <ReviewView />;
+}
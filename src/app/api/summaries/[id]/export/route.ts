@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+import { ConvexHttpClient } from "convex/browser";
+import {
+  SummaryExportFormatSchema,
+  type SummaryExportDocument,
+} from "@/types/export";
+import { loadSummaryExport } from "@/lib/loadSummaryExport";
+import { renderSummaryExport, toDownloadResponse } from "@/services/export";
+
+/**
+ * Summary export endpoint
+ *
+ * GET /api/summaries/:id/export?format=markdown|pdf|epub|docx[&revision=N]
+ * and receive the summary as a file download, with the book's metadata
+ * and cover, model/prompt attribution and generation date. Exports the
+ * current revision unless one is given. Signed-in readers also get their
+ * highlights and notes.
+ */
+
+export const runtime = "nodejs";
+
+const ExportRequestSchema = z.object({
+  format: SummaryExportFormatSchema.default("markdown"),
+  revision: z.coerce.number().int().positive().optional(),
+});
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+
+  const parsed = ExportRequestSchema.safeParse({
+    format: searchParams.get("format") ?? undefined,
+    revision: searchParams.get("revision") ?? undefined,
+  });
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid export request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const { format, revision } = parsed.data;
+
+  const { userId } = await auth();
+  const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+  let doc: SummaryExportDocument | null = null;
+  try {
+    doc = await loadSummaryExport(convex, id, revision, {
+      cover: format !== "markdown",
+      userId: userId ?? undefined,
+    });
+  } catch (error) {
+    // e.g. an ID that isn't a summary ID at all
+    console.error(`Failed to load summary ${id} for export:`, error);
+  }
+  if (!doc) {
+    return Response.json(
+      { error: "Summary not found or not available for export" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    return toDownloadResponse(await renderSummaryExport(doc, format));
+  } catch (error) {
+    console.error(`Failed to export summary ${id} as ${format}:`, error);
+    return Response.json(
+      { error: "Failed to export summary" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { auth } from "@clerk/nextjs/server";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "../../../../../convex/_generated/api";
+import { SummaryExportFormatSchema, type ExportedFile } from "@/types/export";
+import { loadSummaryExport } from "@/lib/loadSummaryExport";
+import {
+  createExportArchive,
+  renderSummaryExport,
+  toDownloadResponse,
+} from "@/services/export";
+
+/**
+ * Bulk export endpoint for saved summaries
+ *
+ * GET /api/summaries/export?format=markdown|pdf|epub|docx (signed in)
+ * and receive a zip with every saved summary in that format, with the
+ * user's highlights and notes. Pinned saves export their pinned revision.
+ * Summaries that can't be exported (e.g. deleted since saving) are
+ * skipped.
+ */
+
+export const runtime = "nodejs";
+// Covers and PDFs for a large library take a while
+export const maxDuration = 120;
+
+const BulkExportRequestSchema = z.object({
+  format: SummaryExportFormatSchema.default("markdown"),
+});
+
+export async function GET(request: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return Response.json(
+      { error: "Sign in to export saved summaries" },
+      { status: 401 }
+    );
+  }
+
+  const parsed = BulkExportRequestSchema.safeParse({
+    format: new URL(request.url).searchParams.get("format") ?? undefined,
+  });
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid export request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+  const { format } = parsed.data;
+
+  const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+  const saved = await convex.query(api.savedSummaries.getSavedSummaries, {
+    userId,
+  });
+  if (saved.length === 0) {
+    return Response.json({ error: "No saved summaries" }, { status: 404 });
+  }
+
+  // One at a time - each export may fetch a cover and lay out a PDF
+  const files: ExportedFile[] = [];
+  for (const entry of saved) {
+    try {
+      const doc = await loadSummaryExport(
+        convex,
+        entry.summary._id,
+        entry.summary.revision,
+        { cover: format !== "markdown", userId }
+      );
+      if (doc) {
+        files.push(await renderSummaryExport(doc, format));
+      }
+    } catch (error) {
+      console.error(`Skipping summary ${entry.summary._id} in export:`, error);
+    }
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  return toDownloadResponse(
+    createExportArchive(files, `saved-summaries-${date}.zip`)
+  );
+}
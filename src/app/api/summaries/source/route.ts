@@ -0,0 +1,158 @@
+import { z } from "zod";
+import { BookSchema } from "@/types/book";
+import {
+  SUMMARY_PROVIDER_IDS,
+  SummaryTemplateSchema,
+  SummaryTypeSchema,
+} from "@/types/summary";
+import {
+  loadLocalSummarySource,
+  loadSummarySource,
+  LoadedSummarySource,
+} from "@/services/summary/sources";
+import { streamSourceSummary } from "@/services/summary/summarizeSource";
+import {
+  GenerationReservation,
+  reservationErrorResponse,
+  reserveSummaryGeneration,
+} from "@/lib/summaryQuota";
+
+/**
+ * Source-grounded summary generation endpoint
+ *
+ * POST multipart/form-data with `book` (JSON), `summaryType`, optional
+ * `provider`/`model`/`template` (JSON)/`promptVersion`/`language`/`anonymousId`, and either a `file` (EPUB or plain text) or a
+ * `localPath` under SUMMARY_SOURCE_DIR. Responds with the same
+ * newline-delimited JSON SummaryStreamEvents as /api/summaries/stream,
+ * plus `progress` events during the map phase.
+ *
+ * Quota is charged as for /api/summaries/stream, once the source has been
+ * read (an unreadable upload costs nothing). The recorded cost covers the
+ * map and reduce calls together.
+ */
+
+export const runtime = "nodejs";
+// Map-reduce over a whole book takes minutes, not seconds
+export const maxDuration = 300;
+
+const SourceRequestSchema = z.object({
+  book: BookSchema,
+  summaryType: SummaryTypeSchema,
+  provider: z.enum(SUMMARY_PROVIDER_IDS).optional(),
+  model: z.string().optional(),
+  template: SummaryTemplateSchema.optional(),
+  promptVersion: z.string().optional(),
+  language: z.string().optional(),
+  anonymousId: z.string().optional(),
+});
+
+export async function POST(request: Request) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return Response.json(
+      { error: "Expected multipart form data" },
+      { status: 400 }
+    );
+  }
+
+  let book: unknown;
+  let template: unknown;
+  try {
+    book = JSON.parse(String(form.get("book") ?? ""));
+    const rawTemplate = form.get("template");
+    template =
+      typeof rawTemplate === "string" ? JSON.parse(rawTemplate) : undefined;
+  } catch {
+    return Response.json(
+      { error: "Invalid book or template JSON" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = SourceRequestSchema.safeParse({
+    book,
+    summaryType: form.get("summaryType"),
+    provider: form.get("provider") ?? undefined,
+    model: form.get("model") ?? undefined,
+    template,
+    promptVersion: form.get("promptVersion") ?? undefined,
+    language: form.get("language") ?? undefined,
+    anonymousId: form.get("anonymousId") ?? undefined,
+  });
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid summary request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const file = form.get("file");
+  const localPath = form.get("localPath");
+
+  let source: LoadedSummarySource;
+  try {
+    if (file instanceof File) {
+      source = loadSummarySource(
+        file.name,
+        new Uint8Array(await file.arrayBuffer())
+      );
+    } else if (typeof localPath === "string" && localPath) {
+      source = await loadLocalSummarySource(localPath);
+    } else {
+      return Response.json(
+        { error: "A source file or localPath is required" },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    return Response.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to read source",
+      },
+      { status: 422 }
+    );
+  }
+
+  const { summaryType, provider, model, promptVersion, language } = parsed.data;
+
+  let reservation: GenerationReservation;
+  try {
+    reservation = await reserveSummaryGeneration(parsed.data.anonymousId);
+  } catch (error) {
+    return reservationErrorResponse(error);
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for await (const event of streamSourceSummary(
+        parsed.data.book,
+        summaryType,
+        source,
+        {
+          provider,
+          model,
+          template: parsed.data.template,
+          promptVersion,
+          language,
+        }
+      )) {
+        if (event.type === "done") {
+          await reservation.recordCost(event.result.usage?.estimatedCost);
+        }
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { BookSchema } from "@/types/book";
+import {
+  SUMMARY_PROVIDER_IDS,
+  SummaryTemplateSchema,
+  SummaryTypeSchema,
+} from "@/types/summary";
+import { streamBookSummary } from "@/services/summary/streamSummary";
+import {
+  GenerationReservation,
+  reservationErrorResponse,
+  reserveSummaryGeneration,
+} from "@/lib/summaryQuota";
+
+/**
+ * Streaming summary generation endpoint
+ *
+ * POST { book, summaryType, provider?, model?, template?, promptVersion?,
+ * language?, anonymousId? }
+ * and receive
+ * newline-delimited JSON
+ * SummaryStreamEvents: any number of `delta` events, then exactly one
+ * `done` or `error` event. Persistence stays with the client, which
+ * stores the final result via api.summaries.storeSummary.
+ *
+ * The caller's quota is charged before generating (429 once exhausted),
+ * and the provider-reported cost is added when the stream finishes.
+ */
+
+const StreamRequestSchema = z.object({
+  book: BookSchema,
+  summaryType: SummaryTypeSchema,
+  provider: z.enum(SUMMARY_PROVIDER_IDS).optional(),
+  model: z.string().optional(),
+  template: SummaryTemplateSchema.optional(),
+  promptVersion: z.string().optional(),
+  language: z.string().optional(),
+  anonymousId: z.string().optional(),
+});
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = StreamRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid summary request", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const {
+    book,
+    summaryType,
+    provider,
+    model,
+    template,
+    promptVersion,
+    language,
+    anonymousId,
+  } = parsed.data;
+
+  let reservation: GenerationReservation;
+  try {
+    reservation = await reserveSummaryGeneration(anonymousId);
+  } catch (error) {
+    return reservationErrorResponse(error);
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for await (const event of streamBookSummary(book, summaryType, {
+        provider,
+        model,
+        template,
+        promptVersion,
+        language,
+      })) {
+        if (event.type === "done") {
+          await reservation.recordCost(event.result.usage?.estimatedCost);
+        }
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import React, { useMemo } from "react";
+import Link from "next/link";
+import { UserRound } from "lucide-react";
+import { BookCover } from "@/components/shared/BookCover";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useBookSearch } from "@/hooks/useBookSearch";
+import type { Book } from "@/types/book";
+
+/** Books shown in "More by this author" */
+const VISIBLE_AUTHOR_BOOKS = 6;
+
+/** Results fetched, leaving room for other editions of the same books */
+const AUTHOR_SEARCH_RESULTS = 20;
+
+interface AuthorBooksProps {
+  /** Book being viewed; its first author is searched */
+  book: Pick<Book, "id" | "title" | "authors">;
+}
+
+/**
+ * AuthorBooks - "More by this author" on the book detail page
+ *
+ * Features:
+ * - Author-filtered search across Google Books and Open Library
+ * - Skips the book being viewed and repeat editions of any title
+ * - Hidden for books without an author or with nothing else by them
+ */
+export function AuthorBooks({ book }: AuthorBooksProps) {
+  const author = book.authors[0] ?? "";
+
+  const { data, isLoading } = useBookSearch({
+    query: author,
+    searchIn: "author",
+    maxResults: AUTHOR_SEARCH_RESULTS,
+    logAnalytics: false,
+  });
+
+  const authorBooks = useMemo(() => {
+    const seenTitles = new Set([book.title.trim().toLowerCase()]);
+    return (data?.books ?? [])
+      .filter((candidate) => {
+        const title = candidate.title.trim().toLowerCase();
+        if (candidate.id === book.id || seenTitles.has(title)) return false;
+        seenTitles.add(title);
+        return true;
+      })
+      .slice(0, VISIBLE_AUTHOR_BOOKS);
+  }, [data, book.id, book.title]);
+
+  if (!author) {
+    return null;
+  }
+
+  if (isLoading) {
+    return (
+      <section className="space-y-4">
+        <Skeleton className="h-6 w-48" />
+        <div className="grid gap-3 grid-cols-3 sm:grid-cols-6">
+          {Array.from({ length: VISIBLE_AUTHOR_BOOKS }, (_, index) => (
+            <Skeleton key={index} className="aspect-[2/3] w-full" />
+          ))}
+        </div>
+      </section>
+    );
+  }
+
+  if (authorBooks.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4">
+      <h2 className="flex items-center gap-2 text-lg font-semibold">
+        <UserRound className="h-5 w-5 text-primary" />
+        More by {author}
+      </h2>
+      <div className="grid gap-3 grid-cols-3 sm:grid-cols-6">
+        {authorBooks.map((authorBook) => (
+          <Link
+            key={authorBook.id}
+            href={`/book/${authorBook.id}`}
+            className="group"
+          >
+            <Card className="h-full transition-colors group-hover:border-primary/30">
+              <CardContent className="space-y-2 p-2">
+                <BookCover
+                  title={authorBook.title}
+                  authors={authorBook.authors}
+                  src={authorBook.thumbnail}
+                  size="small"
+                  clickable={false}
+                  className="mx-auto"
+                />
+                <p className="line-clamp-2 text-xs font-medium leading-snug group-hover:text-primary">
+                  {authorBook.title}
+                </p>
+              </CardContent>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { Sparkles } from "lucide-react";
+import { BookCover } from "@/components/shared/BookCover";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useRecommendations } from "@/hooks/useRecommendations";
+import type { RecommendationReason } from "@/types/recommendations";
+
+/** Picks shown before the list gets in the way of search */
+const VISIBLE_RECOMMENDATIONS = 6;
+
+/**
+ * Explain a pick by the signal that contributed most to it
+ */
+export function describeRecommendationReason(
+  reason: RecommendationReason
+): string {
+  switch (reason.kind) {
+    case "favorite":
+      return `Because you favorited ${reason.label}`;
+    case "readList":
+      return `Because ${reason.label} is on your read list`;
+    case "savedSummary":
+      return `Because you saved a summary of ${reason.label}`;
+    case "search":
+      return `Because you searched for "${reason.label}"`;
+  }
+}
+
+/**
+ * RecommendedBooks - "Recommended for you" feed on the home page
+ *
+ * Features:
+ * - Books matching the categories and authors the user already reads
+ * - One line per pick saying what it was picked for
+ * - Hidden for signed-out users and users with nothing to go on yet
+ */
+export function RecommendedBooks() {
+  const { recommendations, isAuthenticated, isLoading } = useRecommendations();
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  if (isLoading) {
+    return (
+      <section className="space-y-4 text-left">
+        <Skeleton className="h-6 w-48" />
+        <div className="grid gap-3 sm:grid-cols-2">
+          {Array.from({ length: 4 }, (_, index) => (
+            <Skeleton key={index} className="h-24 w-full" />
+          ))}
+        </div>
+      </section>
+    );
+  }
+
+  if (recommendations.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4 text-left">
+      <h2 className="flex items-center gap-2 text-lg font-semibold">
+        <Sparkles className="h-5 w-5 text-primary" />
+        Recommended for you
+      </h2>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {recommendations
+          .slice(0, VISIBLE_RECOMMENDATIONS)
+          .map(({ book, reason }) => (
+            <Link key={book.id} href={`/book/${book.id}`} className="group">
+              <Card className="h-full transition-colors group-hover:border-primary/30">
+                <CardContent className="flex gap-3 p-3">
+                  <BookCover
+                    title={book.title}
+                    authors={book.authors}
+                    src={book.thumbnail}
+                    size="small"
+                    clickable={false}
+                    className="flex-shrink-0"
+                  />
+                  <div className="min-w-0 space-y-1">
+                    <p className="line-clamp-2 font-medium leading-snug group-hover:text-primary">
+                      {book.title}
+                    </p>
+                    <p className="truncate text-sm text-muted-foreground">
+                      {book.authors.join(", ")}
+                    </p>
+                    <p className="line-clamp-2 text-xs text-muted-foreground">
+                      {describeRecommendationReason(reason)}
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { Library } from "lucide-react";
+import { BookCover } from "@/components/shared/BookCover";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useSimilarBooks } from "@/hooks/useSimilarBooks";
+import type { SimilarBook } from "@/types/recommendations";
+
+/**
+ * Explain a similar book by the strongest thing it shares with the book
+ */
+export function describeSimilarity({
+  reasons,
+  category,
+}: Pick<SimilarBook, "reasons" | "category">): string {
+  if (reasons.includes("author")) {
+    return "Same author";
+  }
+  if (reasons.includes("coReaders")) {
+    return "Readers of this book liked it too";
+  }
+  return category ? `Also in ${category}` : "Similar subject";
+}
+
+interface SimilarBooksProps {
+  /** Composite ID of the book being viewed */
+  bookId: string;
+}
+
+/**
+ * SimilarBooks - "Similar books" rail on the book detail page
+ *
+ * Features:
+ * - Books sharing authors, categories or readers with the book
+ * - One line per book saying what it has in common
+ * - Hidden until something similar has been found
+ */
+export function SimilarBooks({ bookId }: SimilarBooksProps) {
+  const { similarBooks, isLoading } = useSimilarBooks(bookId);
+
+  if (isLoading) {
+    return (
+      <section className="space-y-4">
+        <Skeleton className="h-6 w-40" />
+        <div className="grid gap-3 sm:grid-cols-2">
+          {Array.from({ length: 4 }, (_, index) => (
+            <Skeleton key={index} className="h-24 w-full" />
+          ))}
+        </div>
+      </section>
+    );
+  }
+
+  if (similarBooks.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4">
+      <h2 className="flex items-center gap-2 text-lg font-semibold">
+        <Library className="h-5 w-5 text-primary" />
+        Similar books
+      </h2>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {similarBooks.map(({ book, reasons, category }) => (
+          <Link key={book.id} href={`/book/${book.id}`} className="group">
+            <Card className="h-full transition-colors group-hover:border-primary/30">
+              <CardContent className="flex gap-3 p-3">
+                <BookCover
+                  title={book.title}
+                  authors={book.authors}
+                  src={book.thumbnail}
+                  size="small"
+                  clickable={false}
+                  className="flex-shrink-0"
+                />
+                <div className="min-w-0 space-y-1">
+                  <p className="line-clamp-2 font-medium leading-snug group-hover:text-primary">
+                    {book.title}
+                  </p>
+                  <p className="truncate text-sm text-muted-foreground">
+                    {book.authors.join(", ")}
+                  </p>
+                  <p className="line-clamp-2 text-xs text-muted-foreground">
+                    {describeSimilarity({ reasons, category })}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -7,6 +7,7 @@ import {
   Search,
   BookOpen,
   Loader2,
+  Sparkles,
 } from "lucide-react";
 import { BookCard } from "../shared/BookCard";
 import type { Book } from "@/types/book";
@@ -40,6 +41,8 @@ export interface SearchResults {
   query?: string;
   /** Total time taken for search (in ms) */
   searchTime?: number;
+  /** Why each book was suggested, keyed by book ID (prompt mode) */
+  rationales?: Record<string, string>;
 }
 
 interface ResultsListProps {
@@ -274,20 +277,36 @@ export const ResultsList: React.FC<ResultsListProps> = ({
 
       {/* Results Grid */}
       <div className={getGridClasses()}>
-        {books.map((book) => (
-          <BookCard
-            key={book.id}
-            book={book}
-            variant={
-              variant === "list"
-                ? "detailed"
-                : variant === "compact"
-                  ? "compact"
-                  : "default"
-            }
-            onFavoriteToggle={onFavoriteToggle}
-          />
-        ))}
+        {books.map((book) => {
+          const card = (
+            <BookCard
+              key={book.id}
+              book={book}
+              variant={
+                variant === "list"
+                  ? "detailed"
+                  : variant === "compact"
+                    ? "compact"
+                    : "default"
+              }
+              onFavoriteToggle={onFavoriteToggle}
+            />
+          );
+          const rationale = results?.rationales?.[book.id];
+
+          // Prompt mode: say why each book was suggested
+          return rationale ? (
+            <div key={book.id} className="flex flex-col gap-2">
+              {card}
+              <p className="flex gap-1.5 text-sm text-muted-foreground">
+                <Sparkles className="mt-0.5 h-3.5 w-3.5 shrink-0 text-primary" />
+                <span>{rationale}</span>
+              </p>
+            </div>
+          ) : (
+            card
+          );
+        })}
       </div>
 
       {/* Pagination */}
@@ -0,0 +1,269 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ArrowUpDown, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import {
+  countActiveFilters,
+  MIN_FILTER_YEAR,
+  SEARCH_SORT_OPTIONS,
+  type SearchFilters as SearchFilterValues,
+} from "@/lib/searchFilters";
+import type { SearchSort } from "@/types/book";
+import { SUMMARY_LANGUAGES } from "@/types/summary";
+
+const selectClassName =
+  "border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50";
+
+/** Minimum ratings offered, in stars */
+const RATING_OPTIONS = [4, 3, 2];
+
+interface SearchFiltersProps {
+  /** Filters currently applied (from the URL) */
+  filters: SearchFilterValues;
+  /** Callback with the new filters when applied, cleared or re-sorted */
+  onChange: (filters: SearchFilterValues) => void;
+  /** Custom className for styling */
+  className?: string;
+}
+
+function toYear(value: string): number | undefined {
+  const year = parseInt(value, 10);
+  return Number.isNaN(year) ? undefined : year;
+}
+
+/**
+ * SearchFilters - Facets and sort for keyword search results
+ *
+ * Features:
+ * - Sort by relevance, rating, date or page count, applied immediately
+ * - Collapsible panel with language, year range, category, minimum rating,
+ *   has-cover and has-description facets, applied together
+ * - Count of active facets on the toggle, and a one-click clear
+ */
+export function SearchFilters({
+  filters,
+  onChange,
+  className,
+}: SearchFiltersProps) {
+  const activeCount = countActiveFilters(filters);
+  const [isOpen, setIsOpen] = useState(activeCount > 0);
+  const [draft, setDraft] = useState(filters);
+
+  // Follow the URL when it changes (back button, shared links)
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const update = (changes: Partial<SearchFilterValues>) =>
+    setDraft((current) => ({ ...current, ...changes }));
+
+  const handleApply = (event: React.FormEvent) => {
+    event.preventDefault();
+    onChange({ ...draft, sortBy: filters.sortBy });
+  };
+
+  const handleClear = () => {
+    onChange({ sortBy: filters.sortBy });
+  };
+
+  const currentYear = new Date().getFullYear();
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant={isOpen ? "secondary" : "ghost"}
+          size="sm"
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+          aria-controls="search-filters"
+        >
+          <SlidersHorizontal className="mr-1 h-3 w-3" />
+          Filters
+          {activeCount > 0 && (
+            <span className="ml-1 rounded-full bg-primary px-1.5 text-xs text-primary-foreground">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+
+        <div className="flex items-center gap-2">
+          <Label
+            htmlFor="search-sort"
+            className="flex items-center gap-1 text-sm text-muted-foreground"
+          >
+            <ArrowUpDown className="h-3 w-3" />
+            Sort
+          </Label>
+          <select
+            id="search-sort"
+            className={cn(selectClassName, "w-auto")}
+            value={filters.sortBy ?? "relevance"}
+            onChange={(event) =>
+              onChange({
+                ...filters,
+                sortBy: event.target.value as SearchSort,
+              })
+            }
+          >
+            {Object.entries(SEARCH_SORT_OPTIONS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isOpen && (
+        <Card id="search-filters">
+          <CardContent className="pt-6">
+            <form onSubmit={handleApply} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="filter-language">Language</Label>
+                  <select
+                    id="filter-language"
+                    className={selectClassName}
+                    value={draft.language ?? ""}
+                    onChange={(event) =>
+                      update({ language: event.target.value || undefined })
+                    }
+                  >
+                    <option value="">Any language</option>
+                    {Object.entries(SUMMARY_LANGUAGES).map(([code, name]) => (
+                      <option key={code} value={code}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="filter-from">Published</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="filter-from"
+                      type="number"
+                      inputMode="numeric"
+                      min={MIN_FILTER_YEAR}
+                      max={currentYear}
+                      placeholder="From"
+                      value={draft.publishedAfter ?? ""}
+                      onChange={(event) =>
+                        update({ publishedAfter: toYear(event.target.value) })
+                      }
+                      aria-label="Published from year"
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="number"
+                      inputMode="numeric"
+                      min={MIN_FILTER_YEAR}
+                      max={currentYear}
+                      placeholder="To"
+                      value={draft.publishedBefore ?? ""}
+                      onChange={(event) =>
+                        update({ publishedBefore: toYear(event.target.value) })
+                      }
+                      aria-label="Published to year"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="filter-category">Category</Label>
+                  <Input
+                    id="filter-category"
+                    placeholder="e.g. History"
+                    maxLength={100}
+                    value={draft.category ?? ""}
+                    onChange={(event) =>
+                      update({ category: event.target.value || undefined })
+                    }
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="filter-rating">Rating</Label>
+                  <select
+                    id="filter-rating"
+                    className={selectClassName}
+                    value={draft.minRating ?? ""}
+                    onChange={(event) =>
+                      update({
+                        minRating: event.target.value
+                          ? Number(event.target.value)
+                          : undefined,
+                      })
+                    }
+                  >
+                    <option value="">Any rating</option>
+                    {RATING_OPTIONS.map((stars) => (
+                      <option key={stars} value={stars}>
+                        {stars}+ stars
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2 sm:col-span-2">
+                  <span className="text-sm font-medium">Only books with</span>
+                  <div className="flex flex-wrap gap-4">
+                    <Label className="flex items-center gap-2 font-normal">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={!!draft.hasCover}
+                        onChange={(event) =>
+                          update({
+                            hasCover: event.target.checked || undefined,
+                          })
+                        }
+                      />
+                      A cover
+                    </Label>
+                    <Label className="flex items-center gap-2 font-normal">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={!!draft.hasDescription}
+                        onChange={(event) =>
+                          update({
+                            hasDescription: event.target.checked || undefined,
+                          })
+                        }
+                      />
+                      A description
+                    </Label>
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleClear}
+                  disabled={activeCount === 0}
+                >
+                  Clear
+                </Button>
+                <Button type="submit" size="sm">
+                  Apply filters
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -11,11 +11,16 @@ import {
   ArrowRight,
   ChevronDown,
   ChevronUp,
+  Sparkles,
 } from "lucide-react";
 import { z } from "zod";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import {
+  MAX_DISCOVERY_PROMPT_LENGTH,
+  type SearchMode,
+} from "@/types/discovery";
 import TextareaAutosize from "react-textarea-autosize";
 
 // Validation schema for search queries
@@ -25,6 +30,19 @@ const searchQuerySchema = z
   .max(200, "Search query must be 200 characters or less")
   .trim();
 
+// Validation schema for prompt mode descriptions
+const promptQuerySchema = z
+  .string()
+  .min(1, "Description cannot be empty")
+  .max(
+    MAX_DISCOVERY_PROMPT_LENGTH,
+    `Description must be ${MAX_DISCOVERY_PROMPT_LENGTH} characters or less`
+  )
+  .trim();
+
+const PROMPT_PLACEHOLDER =
+  "Describe what you want to read, e.g. a short book on stoicism for a busy engineer";
+
 // Validation schema for author query (optional)
 const authorQuerySchema = z
   .string()
@@ -51,7 +69,11 @@ interface SearchInputProps {
   /**
    * Callback when search is submitted (optional - defaults to navigation)
    */
-  onSearch?: (query: string) => void;
+  onSearch?: (query: string, mode: SearchMode) => void;
+  /**
+   * Initial search mode (defaults to the URL's mode, then keyword search)
+   */
+  mode?: SearchMode;
   /**
    * Whether to auto-focus the input on mount
    */
@@ -69,6 +91,8 @@ interface SearchInputProps {
  * - Zod validation ensures data quality
  * - Collapsible advanced filters enable power users without overwhelming casual users
  * - Optional author field provides precise search filtering (backwards compatible)
+ * - Prompt mode takes a natural-language description instead of keywords
+ *   (default variant only; the compact header search stays keyword-based)
  */
 export const SearchInput: React.FC<SearchInputProps> = ({
   defaultValue = "",
@@ -76,6 +100,7 @@ export const SearchInput: React.FC<SearchInputProps> = ({
   variant = "default",
   className,
   onSearch,
+  mode: modeProp,
   autoFocus = false,
 }) => {
   const router = useRouter();
@@ -86,9 +111,15 @@ export const SearchInput: React.FC<SearchInputProps> = ({
   // Get initial values from URL params or props
   const initialValue = defaultValue || searchParams.get("q") || "";
   const initialAuthorValue = searchParams.get("author") || "";
+  const initialMode =
+    variant === "compact"
+      ? "searchMode"
+      : (modeProp ??
+        (searchParams.get("mode") === "prompt" ? "promptMode" : "searchMode"));
 
   const [query, setQuery] = useState(initialValue);
   const [authorQuery, setAuthorQuery] = useState(initialAuthorValue);
+  const [mode, setMode] = useState<SearchMode>(initialMode);
   const [showAdvanced, setShowAdvanced] = useState(Boolean(initialAuthorValue));
   const [isValidating, setIsValidating] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
@@ -119,6 +150,9 @@ export const SearchInput: React.FC<SearchInputProps> = ({
     }
   }, [autoFocus]);
 
+  const isPromptMode = mode === "promptMode";
+  const querySchema = isPromptMode ? promptQuerySchema : searchQuerySchema;
+
   // Debounced validation
   const validateQuery = useCallback(
     (value: string) => {
@@ -132,7 +166,7 @@ export const SearchInput: React.FC<SearchInputProps> = ({
       const timer = setTimeout(() => {
         try {
           if (value.length > 0) {
-            searchQuerySchema.parse(value);
+            querySchema.parse(value);
           }
           setValidationError(null);
         } catch (error) {
@@ -146,7 +180,7 @@ export const SearchInput: React.FC<SearchInputProps> = ({
 
       setDebounceTimer(timer);
     },
-    [debounceTimer]
+    [debounceTimer, querySchema]
   );
 
   // Handle input changes (for both input and textarea)
@@ -189,17 +223,19 @@ export const SearchInput: React.FC<SearchInputProps> = ({
 
     try {
       // Final validation before submit
-      const validatedQuery = searchQuerySchema.parse(query);
+      const validatedQuery = querySchema.parse(query);
 
       if (onSearch) {
-        onSearch(validatedQuery);
+        onSearch(validatedQuery, mode);
       } else {
         // Navigate to search page with query parameters
         const params = new URLSearchParams();
         params.set("q", validatedQuery);
 
-        // Add author query if provided
-        if (authorQuery.trim()) {
+        if (isPromptMode) {
+          params.set("mode", "prompt");
+        } else if (authorQuery.trim()) {
+          // Add author query if provided
           const validatedAuthorQuery = authorQuerySchema.parse(authorQuery);
           params.set("author", validatedAuthorQuery);
         }
@@ -213,6 +249,14 @@ export const SearchInput: React.FC<SearchInputProps> = ({
     }
   };
 
+  // Switch between keyword search and prompt mode
+  const handleModeToggle = () => {
+    setMode(isPromptMode ? "searchMode" : "promptMode");
+    setShowAdvanced(false);
+    setValidationError(null);
+    inputRef.current?.focus();
+  };
+
   // Clear input and focus
   const handleClear = () => {
     setQuery("");
@@ -363,11 +407,15 @@ export const SearchInput: React.FC<SearchInputProps> = ({
             value={query}
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
-            placeholder={placeholder}
+            placeholder={isPromptMode ? PROMPT_PLACEHOLDER : placeholder}
             minRows={3}
             maxRows={12}
             className="w-full resize-none bg-transparent outline-none placeholder:text-muted-foreground/70 text-base md:text-lg leading-6 md:leading-7"
-            aria-label="Search for books"
+            aria-label={
+              isPromptMode
+                ? "Describe the book you're looking for"
+                : "Search for books"
+            }
             aria-describedby={hasError ? "search-error" : undefined}
             aria-invalid={hasError}
           />
@@ -411,23 +459,48 @@ export const SearchInput: React.FC<SearchInputProps> = ({
           <div className="mt-2 pt-2 flex items-center gap-2 justify-between flex-wrap">
             {/* Left: utilities */}
             <div className="flex items-center gap-1">
-              {/* Advanced Filters Toggle */}
+              {/* Prompt Mode Toggle */}
               <Button
                 type="button"
-                variant="ghost"
+                variant={isPromptMode ? "secondary" : "ghost"}
                 size="sm"
-                onClick={() => setShowAdvanced(!showAdvanced)}
-                className="text-muted-foreground hover:text-foreground h-9 px-3"
-                title={showAdvanced ? "Hide filters" : "Show advanced filters"}
-              >
-                <span className="text-xs sm:text-sm">Advanced</span>
-                {showAdvanced ? (
-                  <ChevronUp className="ml-1 h-3 w-3" />
-                ) : (
-                  <ChevronDown className="ml-1 h-3 w-3" />
+                onClick={handleModeToggle}
+                className={cn(
+                  "h-9 px-3",
+                  !isPromptMode && "text-muted-foreground hover:text-foreground"
                 )}
+                title={
+                  isPromptMode
+                    ? "Switch to keyword search"
+                    : "Describe what you want to read"
+                }
+                aria-pressed={isPromptMode}
+              >
+                <Sparkles className="mr-1 h-3 w-3" />
+                <span className="text-xs sm:text-sm">Ask</span>
               </Button>
 
+              {/* Advanced Filters Toggle (keyword search only) */}
+              {!isPromptMode && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowAdvanced(!showAdvanced)}
+                  className="text-muted-foreground hover:text-foreground h-9 px-3"
+                  title={
+                    showAdvanced ? "Hide filters" : "Show advanced filters"
+                  }
+                >
+                  <span className="text-xs sm:text-sm">Advanced</span>
+                  {showAdvanced ? (
+                    <ChevronUp className="ml-1 h-3 w-3" />
+                  ) : (
+                    <ChevronDown className="ml-1 h-3 w-3" />
+                  )}
+                </Button>
+              )}
+
               {/* Future extension slots for voice/image input */}
               <div className="hidden sm:flex items-center gap-1 opacity-50">
                 <Button
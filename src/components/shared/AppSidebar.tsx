@@ -3,7 +3,16 @@
 import React from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Search, Heart, BookOpen, Home, BookMarked, User } from "lucide-react";
+import {
+  Search,
+  Heart,
+  BookOpen,
+  Home,
+  BookMarked,
+  GraduationCap,
+  Highlighter,
+  User,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
   Sidebar as SidebarComponent,
@@ -76,6 +85,16 @@ export default function AppSidebar() {
       icon: BookOpen,
       shortcut: "R",
     },
+    {
+      href: "/review",
+      label: "Review",
+      icon: GraduationCap,
+    },
+    {
+      href: "/highlights",
+      label: "Highlights",
+      icon: Highlighter,
+    },
   ];
 
   const isActive = (href: string) => {
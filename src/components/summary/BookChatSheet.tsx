@@ -0,0 +1,330 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { SignInButton } from "@clerk/nextjs";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { Loader2, MessageSquarePlus, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { ErrorCategory, standardizeError } from "@/lib/standardizedError";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { useBookChat } from "@/hooks/useBookChat";
+import {
+  MAX_CHAT_QUESTION_LENGTH,
+  type BookChatCitation,
+  type BookChatMessage,
+} from "@/types/chat";
+import type { Summary } from "@/types/summary";
+
+interface BookChatSheetProps {
+  /** Whether the sheet is open */
+  open: boolean;
+  /** Callback when the sheet opens or closes */
+  onOpenChange: (open: boolean) => void;
+  /** Summary being read; citations of it scroll the reader */
+  summary: Summary;
+}
+
+const selectClassName =
+  "border-input flex h-9 w-full min-w-0 rounded-md border bg-transparent px-3 py-1 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+const textareaClassName =
+  "placeholder:text-muted-foreground border-input flex min-h-16 w-full resize-none rounded-md border bg-transparent px-3 py-2 text-base outline-none transition-[color,box-shadow] focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:opacity-50 md:text-sm";
+
+/** Starter questions offered in an empty thread */
+const SUGGESTED_QUESTIONS = [
+  "What is the author's main argument?",
+  "Can you give me a concrete example of the key idea?",
+  "How could I apply this book in everyday life?",
+];
+
+/**
+ * BookChatSheet - Ask follow-up questions about the book being read
+ *
+ * Features:
+ * - Answers grounded in every stored summary of the book, streamed live
+ * - Citations naming the summary section an answer drew from; clicking
+ *   one scrolls the reader there (or opens the other summary)
+ * - Threads kept per user, to pick up a conversation later
+ * - Answers in the language of the summary being read
+ */
+export function BookChatSheet({
+  open,
+  onOpenChange,
+  summary,
+}: BookChatSheetProps) {
+  const router = useRouter();
+  const [question, setQuestion] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const {
+    threads,
+    messages,
+    threadId,
+    selectThread,
+    startNewThread,
+    ask,
+    deleteThread,
+    isAnswering,
+    isAuthenticated,
+  } = useBookChat(summary.bookId, open);
+
+  // Keep the latest message in view as answers stream in
+  const lastContent = messages[messages.length - 1]?.content;
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length, lastContent]);
+
+  const handleAsk = async (text: string = question) => {
+    const trimmed = text.trim();
+    if (!trimmed || isSending || isAnswering) return;
+
+    setIsSending(true);
+    try {
+      await ask(trimmed, summary.language);
+      setQuestion("");
+    } catch (error) {
+      const standardized = standardizeError(error);
+      toast.error(
+        standardized.category === ErrorCategory.QUOTA
+          ? standardized.userMessage
+          : "Failed to send your question. Please try again."
+      );
+      console.error("Error asking about book:", error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      handleAsk();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!threadId) return;
+    try {
+      await deleteThread(threadId);
+      toast.success("Conversation deleted");
+    } catch (error) {
+      toast.error("Failed to delete conversation");
+      console.error("Error deleting chat thread:", error);
+    }
+  };
+
+  // Citations of this summary scroll the reader; others open their summary
+  const handleCitation = (citation: BookChatCitation) => {
+    if (citation.summaryId === summary.id) {
+      if (citation.sectionId) {
+        document
+          .getElementById(citation.sectionId)
+          ?.scrollIntoView({ behavior: "smooth", block: "start" });
+      }
+      onOpenChange(false);
+      return;
+    }
+    router.push(
+      `/summaries/${citation.summaryId}${citation.sectionId ? `#${citation.sectionId}` : ""}`
+    );
+  };
+
+  const renderMessage = (message: BookChatMessage) => {
+    if (message.role === "user") {
+      return (
+        <div key={message.id} className="flex justify-end">
+          <div className="max-w-[85%] rounded-lg bg-primary px-3 py-2 text-sm text-primary-foreground whitespace-pre-wrap">
+            {message.content}
+          </div>
+        </div>
+      );
+    }
+
+    const isWaiting =
+      (message.status === "pending" || message.status === "streaming") &&
+      !message.content;
+    return (
+      <div key={message.id} className="space-y-2">
+        {isWaiting ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Reading the summaries...
+          </div>
+        ) : (
+          <div className="prose prose-sm dark:prose-invert max-w-none">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>
+              {message.content}
+            </ReactMarkdown>
+          </div>
+        )}
+
+        {message.status === "failed" && (
+          <p className="text-sm text-destructive">
+            Couldn&apos;t finish this answer. Try asking again.
+          </p>
+        )}
+
+        {message.citations.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-xs text-muted-foreground">Sources:</span>
+            {message.citations.map((citation) => (
+              <button
+                key={`${citation.summaryId}:${citation.sectionId ?? ""}`}
+                type="button"
+                onClick={() => handleCitation(citation)}
+                className="rounded-full border px-2 py-0.5 text-xs hover:bg-accent transition-colors"
+                title={`${citation.summaryTypeLabel}: ${citation.heading}`}
+              >
+                {citation.heading}
+                {citation.summaryId !== summary.id && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {citation.summaryTypeLabel}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-[90vw] sm:w-[85vw] md:max-w-lg flex flex-col gap-0"
+      >
+        <SheetHeader>
+          <SheetTitle>Ask about {summary.bookTitle}</SheetTitle>
+          <SheetDescription>
+            Answers come from this book&apos;s summaries, with the sections they
+            drew from.
+          </SheetDescription>
+        </SheetHeader>
+
+        {!isAuthenticated ? (
+          <div className="flex flex-1 flex-col items-center justify-center gap-4 px-4 text-center">
+            <p className="text-sm text-muted-foreground">
+              Sign in to ask questions and keep your conversations.
+            </p>
+            <SignInButton mode="modal">
+              <Button>Sign In</Button>
+            </SignInButton>
+          </div>
+        ) : (
+          <>
+            {/* Thread picker */}
+            <div className="flex items-center gap-2 border-b px-4 pb-3">
+              <select
+                aria-label="Conversation"
+                className={selectClassName}
+                value={threadId ?? ""}
+                onChange={(event) =>
+                  event.target.value
+                    ? selectThread(
+                        event.target.value as NonNullable<typeof threadId>
+                      )
+                    : startNewThread()
+                }
+              >
+                <option value="">New conversation</option>
+                {threads.map((thread) => (
+                  <option key={thread.id} value={thread.id}>
+                    {thread.title}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={startNewThread}
+                aria-label="New conversation"
+              >
+                <MessageSquarePlus className="h-4 w-4" />
+              </Button>
+              {threadId && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleDelete}
+                  aria-label="Delete conversation"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+
+            {/* Messages */}
+            <div className="flex-1 space-y-4 overflow-y-auto px-4 py-4">
+              {messages.length === 0 ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">
+                    Ask anything about the book, for example:
+                  </p>
+                  {SUGGESTED_QUESTIONS.map((suggestion) => (
+                    <button
+                      key={suggestion}
+                      type="button"
+                      onClick={() => handleAsk(suggestion)}
+                      disabled={isSending}
+                      className="block w-full rounded-md border px-3 py-2 text-left text-sm hover:bg-accent transition-colors"
+                    >
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                messages.map(renderMessage)
+              )}
+              <div ref={messagesEndRef} />
+            </div>
+
+            {/* Question input */}
+            <form
+              className="flex items-end gap-2 border-t p-4"
+              onSubmit={(event) => {
+                event.preventDefault();
+                handleAsk();
+              }}
+            >
+              <textarea
+                value={question}
+                onChange={(event) => setQuestion(event.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="What does the author mean by..."
+                aria-label="Your question"
+                className={textareaClassName}
+                maxLength={MAX_CHAT_QUESTION_LENGTH}
+                disabled={isSending}
+              />
+              <Button
+                type="submit"
+                size="icon"
+                disabled={!question.trim() || isSending || isAnswering}
+                aria-label="Send question"
+              >
+                {isSending || isAnswering ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            </form>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
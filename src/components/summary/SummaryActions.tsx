@@ -1,7 +1,9 @@
 "use client";
 
 import React from "react";
+import { useRouter } from "next/navigation";
 import { cn } from "../../lib/utils";
+import { ErrorCategory, standardizeError } from "../../lib/standardizedError";
 import { Button } from "../ui/button";
 import {
   DropdownMenu,
@@ -9,6 +11,9 @@ import {
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "../ui/dropdown-menu";
 import { toast } from "sonner";
@@ -27,35 +32,89 @@ import {
   Trash2,
   Library,
   ChevronDown,
+  History,
+  RefreshCw,
+  GitCompare,
+  ListChecks,
+  Languages,
+  Headphones,
+  GraduationCap,
+  Download,
+  MessageSquare,
 } from "lucide-react";
-import type { Summary } from "../../types/summary";
+import {
+  DEFAULT_SUMMARY_LANGUAGE,
+  getLanguageName,
+  isMockSummary,
+  SUMMARY_LANGUAGES,
+  type Summary,
+} from "../../types/summary";
 import { FavoriteToggle } from "../shared/FavoriteToggle";
 import { useUser } from "@clerk/nextjs";
 import { useReadList, type ReadingStatus } from "@/hooks/useReadList";
 import { useFavorites } from "@/hooks/useFavorites";
 import { useSavedSummaries } from "@/hooks/useSavedSummaries";
+import { useSummaryRevisions } from "@/hooks/useSummaryRevisions";
+import { useSummaryJob } from "@/hooks/useSummaryJob";
+import { useSummaryTranslation } from "@/hooks/useSummaryTranslation";
+import { toPlainText } from "@/services/summary/structureSummary";
+import {
+  SUMMARY_EXPORT_FORMATS,
+  SUMMARY_EXPORT_FORMAT_LABELS,
+  type SummaryExportFormat,
+} from "@/types/export";
 
 interface SummaryActionsProps {
   /** Summary data */
   summary: Summary;
+  /** Callback to open the revision comparison (hidden if omitted) */
+  onCompareRevisions?: () => void;
+  /** Callback to open the narration player (hidden if omitted) */
+  onListen?: () => void;
+  /** Callback to open the book chat (hidden if omitted) */
+  onAsk?: () => void;
+  /** Callback to open flashcards and the quiz (hidden if omitted) */
+  onStudy?: () => void;
   /** Custom className for styling */
   className?: string;
 }
 
+/**
+ * User-facing message for a quota refusal, or undefined for other errors
+ */
+function getQuotaMessage(error: unknown): string | undefined {
+  const standardized = standardizeError(error);
+  return standardized.category === ErrorCategory.QUOTA
+    ? standardized.userMessage
+    : undefined;
+}
+
 /**
  * SummaryActions - Action buttons for summary reading
  *
  * Features:
- * - Share functionality (copy link, social sharing)
- * - Print support
+ * - Share functionality (copy link, copy key takeaways, social sharing)
+ * - Print support, and downloads as Markdown, PDF, EPUB or Word
  * - Save to favorites (placeholder for Phase 3)
- * - Download options (placeholder for future)
+ * - Regenerate as a new revision, and compare revisions
+ * - Translate into another language, opened from a toast when ready
+ * - Listen to an audio narration in the in-page player
+ * - Ask follow-up questions about the book in a chat panel
+ * - Study the summary with flashcards and a quiz
  * - Responsive design with dropdown on mobile
  * - Accessible with proper ARIA labels
  * - Extensible for future actions
  */
-export function SummaryActions({ summary, className }: SummaryActionsProps) {
+export function SummaryActions({
+  summary,
+  onCompareRevisions,
+  onListen,
+  onAsk,
+  onStudy,
+  className,
+}: SummaryActionsProps) {
   const { user } = useUser();
+  const router = useRouter();
 
   // Reading list hook
   const {
@@ -78,8 +137,55 @@ export function SummaryActions({ summary, className }: SummaryActionsProps) {
     isLoading: savedLoading,
   } = useSavedSummaries(summary.id);
 
+  // Revisions hook - regeneration runs as a job for the book+type+language
+  const summaryLanguage = summary.language ?? DEFAULT_SUMMARY_LANGUAGE;
+  const { regenerate } = useSummaryRevisions(summary.id);
+  const { isActive: isRegenerating } = useSummaryJob(
+    summary.bookId,
+    summary.summaryType,
+    true,
+    summaryLanguage
+  );
+
+  // Translation hook - translations run as a job for the target language
+  const {
+    translate,
+    language: translationLanguage,
+    isTranslating,
+    translatedSummaryId,
+    translationError,
+  } = useSummaryTranslation(summary.id);
+  const translationLanguages = Object.keys(SUMMARY_LANGUAGES).filter(
+    (code) => code !== summaryLanguage
+  );
+
+  // Announce the translation once its job finishes
+  React.useEffect(() => {
+    if (!translatedSummaryId || !translationLanguage) return;
+    toast.success(`${getLanguageName(translationLanguage)} translation ready`, {
+      action: {
+        label: "Open",
+        onClick: () => router.push(`/summaries/${translatedSummaryId}`),
+      },
+    });
+  }, [translatedSummaryId, translationLanguage, router]);
+
+  React.useEffect(() => {
+    if (!translationError) return;
+    toast.error(`Translation failed: ${translationError}`);
+  }, [translationError]);
+
+  // Mock summaries are placeholder content - never saved or shared
+  const isMock = isMockSummary(summary);
+  const refuseMock = (action: "save" | "share") => {
+    if (!isMock) return false;
+    toast.error(`Sample summaries can't be ${action}d. Try generating again.`);
+    return true;
+  };
+
   // Handle copy summary link
   const handleCopyLink = async () => {
+    if (refuseMock("share")) return;
     try {
       const url = `${window.location.origin}/summaries/${summary.id}`;
       await navigator.clipboard.writeText(url);
@@ -90,17 +196,69 @@ export function SummaryActions({ summary, className }: SummaryActionsProps) {
     }
   };
 
+  // Handle copy key takeaways (from the structured summary)
+  const keyTakeaways = summary.structured?.keyTakeaways ?? [];
+  const handleCopyTakeaways = async () => {
+    if (refuseMock("share")) return;
+    try {
+      const url = `${window.location.origin}/summaries/${summary.id}`;
+      const text = [
+        `Key takeaways from ${summary.bookTitle}:`,
+        ...keyTakeaways.map((takeaway) => `• ${toPlainText(takeaway)}`),
+        "",
+        url,
+      ].join("\n");
+      await navigator.clipboard.writeText(text);
+      toast.success("Key takeaways copied to clipboard");
+    } catch (error) {
+      toast.error("Failed to copy takeaways. Please try again.");
+      console.error("Error copying takeaways:", error);
+    }
+  };
+
   // Handle print summary
   const handlePrint = () => {
     window.print();
   };
 
+  // Handle download (the export route responds as an attachment, so the
+  // page stays put)
+  const handleDownload = (format: SummaryExportFormat) => {
+    if (isMock) {
+      toast.error(
+        "Sample summaries can't be downloaded. Try generating again."
+      );
+      return;
+    }
+    window.location.assign(
+      `/api/summaries/${summary.id}/export?format=${format}`
+    );
+  };
+
+  // Download submenu, shared by the desktop and mobile menus
+  const renderDownloadMenu = () => (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger>
+        <Download className="h-4 w-4 mr-2" />
+        Download
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent>
+        {SUMMARY_EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format} onClick={() => handleDownload(format)}>
+            {SUMMARY_EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+
   // Handle save summary
   const handleSaveSummary = async () => {
     if (!user) {
       toast.error("Please sign in to save summaries");
       return;
     }
+    if (refuseMock("save")) return;
 
     try {
       await toggleSave(summary.bookId);
@@ -115,8 +273,74 @@ export function SummaryActions({ summary, className }: SummaryActionsProps) {
     }
   };
 
+  // Handle regenerate summary (stored as a new revision)
+  const handleRegenerate = async () => {
+    if (!user) {
+      toast.error("Please sign in to regenerate summaries");
+      return;
+    }
+
+    try {
+      await regenerate();
+      toast.success(
+        "Regenerating summary. The new version will appear when it's ready."
+      );
+    } catch (error) {
+      toast.error(
+        getQuotaMessage(error) ??
+          "Failed to regenerate summary. Please try again."
+      );
+      console.error("Error regenerating summary:", error);
+    }
+  };
+
+  // Handle translate summary (stored as the target language's summary)
+  const handleTranslate = async (language: string) => {
+    if (!user) {
+      toast.error("Please sign in to translate summaries");
+      return;
+    }
+    if (isMock) {
+      toast.error(
+        "Sample summaries can't be translated. Try generating again."
+      );
+      return;
+    }
+
+    try {
+      await translate(language);
+      toast.success(
+        `Translating into ${getLanguageName(language)}. We'll let you know when it's ready.`
+      );
+    } catch (error) {
+      toast.error(
+        getQuotaMessage(error) ??
+          "Failed to translate summary. Please try again."
+      );
+      console.error("Error translating summary:", error);
+    }
+  };
+
+  // Translate submenu, shared by the desktop and mobile menus
+  const renderTranslateMenu = () => (
+    <DropdownMenuSub>
+      <DropdownMenuSubTrigger disabled={isTranslating}>
+        <Languages className="h-4 w-4 mr-2" />
+        {isTranslating ? "Translating..." : "Translate"}
+      </DropdownMenuSubTrigger>
+      <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+        {translationLanguages.map((code) => (
+          <DropdownMenuItem key={code} onClick={() => handleTranslate(code)}>
+            {SUMMARY_LANGUAGES[code]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuSubContent>
+    </DropdownMenuSub>
+  );
+
   // Handle social sharing
   const handleShareTwitter = () => {
+    if (refuseMock("share")) return;
     let text = "";
     if (summary.bookTitle && summary.summaryType) {
       text = `Check out the ${summary.summaryType} summary of ${summary.bookTitle}`;
@@ -129,6 +353,7 @@ export function SummaryActions({ summary, className }: SummaryActionsProps) {
   };
 
   const handleShareFacebook = () => {
+    if (refuseMock("share")) return;
     const url = `${window.location.origin}/summaries/${summary.id}`;
     const facebookUrl = `https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(url)}`;
     window.open(facebookUrl, "_blank", "noopener,noreferrer");
@@ -136,6 +361,7 @@ export function SummaryActions({ summary, className }: SummaryActionsProps) {
 
   // Handle WhatsApp sharing
   const handleShareWhatsApp = () => {
+    if (refuseMock("share")) return;
     let text = "";
     if (summary.bookTitle && summary.summaryType) {
       text = `Check out the ${summary.summaryType} summary of ${summary.bookTitle}: ${window.location.href}`;
@@ -146,9 +372,31 @@ export function SummaryActions({ summary, className }: SummaryActionsProps) {
     window.open(whatsappUrl, "_blank", "noopener,noreferrer");
   };
 
-  // Handle download (placeholder for future)
-  const handleDownload = () => {
-    toast.info("Download functionality coming soon!");
+  // Handle listen (narration is synthesized on first play)
+  const handleListen = () => {
+    if (isMock) {
+      toast.error("Sample summaries can't be narrated. Try generating again.");
+      return;
+    }
+    onListen?.();
+  };
+
+  // Handle ask (answers come from the book's real summaries)
+  const handleAsk = () => {
+    if (isMock) {
+      toast.error("Sample summaries can't be discussed. Try generating again.");
+      return;
+    }
+    onAsk?.();
+  };
+
+  // Handle study (cards and questions come from this summary)
+  const handleStudy = () => {
+    if (isMock) {
+      toast.error("Sample summaries can't be studied. Try generating again.");
+      return;
+    }
+    onStudy?.();
   };
 
   // Handle reading status change for mobile dropdown
@@ -221,6 +469,48 @@ export function SummaryActions({ summary, className }: SummaryActionsProps) {
     <div className={cn("flex items-center gap-2", className)}>
       {/* Desktop Actions - Consolidated */}
       <div className="hidden sm:flex items-center gap-2">
+        {/* Listen - opens the narration player */}
+        {onListen && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="shrink-0"
+            onClick={handleListen}
+            aria-label="Listen to summary"
+          >
+            <Headphones className="h-4 w-4" />
+            <span className="hidden lg:inline-block ml-2">Listen</span>
+          </Button>
+        )}
+
+        {/* Ask - opens the book chat */}
+        {onAsk && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="shrink-0"
+            onClick={handleAsk}
+            aria-label="Ask about this book"
+          >
+            <MessageSquare className="h-4 w-4" />
+            <span className="hidden lg:inline-block ml-2">Ask</span>
+          </Button>
+        )}
+
+        {/* Study - opens flashcards and the quiz */}
+        {onStudy && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="shrink-0"
+            onClick={handleStudy}
+            aria-label="Study this summary"
+          >
+            <GraduationCap className="h-4 w-4" />
+            <span className="hidden lg:inline-block ml-2">Study</span>
+          </Button>
+        )}
+
         {/* Share Dropdown */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -240,6 +530,12 @@ export function SummaryActions({ summary, className }: SummaryActionsProps) {
               <Copy className="h-4 w-4 mr-2" />
               Copy Link
             </DropdownMenuItem>
+            {keyTakeaways.length > 0 && (
+              <DropdownMenuItem onClick={handleCopyTakeaways}>
+                <ListChecks className="h-4 w-4 mr-2" />
+                Copy Key Takeaways
+              </DropdownMenuItem>
+            )}
             <DropdownMenuSeparator />
             <DropdownMenuItem onClick={handleShareTwitter}>
               <Twitter className="h-4 w-4 mr-2" />
@@ -261,6 +557,42 @@ export function SummaryActions({ summary, className }: SummaryActionsProps) {
               <Printer className="h-4 w-4 mr-2" />
               Print
             </DropdownMenuItem>
+            {renderDownloadMenu()}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {/* Revisions Dropdown (Regenerate, Compare) */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="shrink-0"
+              aria-label="Summary revisions"
+            >
+              <History className="h-4 w-4" />
+              <span className="hidden lg:inline-block ml-2">Revisions</span>
+              <ChevronDown className="h-3 w-3 ml-1 opacity-50 hidden lg:inline-block" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-52">
+            <DropdownMenuItem
+              onClick={handleRegenerate}
+              disabled={isRegenerating}
+            >
+              <RefreshCw
+                className={cn("h-4 w-4 mr-2", isRegenerating && "animate-spin")}
+              />
+              {isRegenerating ? "Regenerating..." : "Regenerate"}
+            </DropdownMenuItem>
+            {onCompareRevisions && (
+              <DropdownMenuItem onClick={onCompareRevisions}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                Compare Revisions
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuSeparator />
+            {renderTranslateMenu()}
           </DropdownMenuContent>
         </DropdownMenu>
 
@@ -404,6 +736,12 @@ export function SummaryActions({ summary, className }: SummaryActionsProps) {
               <Copy className="h-4 w-4 mr-2" />
               Copy Link
             </DropdownMenuItem>
+            {keyTakeaways.length > 0 && (
+              <DropdownMenuItem onClick={handleCopyTakeaways}>
+                <ListChecks className="h-4 w-4 mr-2" />
+                Copy Key Takeaways
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem onClick={handleShareTwitter}>
               <Twitter className="h-4 w-4 mr-2" />
               Share on Twitter
@@ -427,12 +765,47 @@ export function SummaryActions({ summary, className }: SummaryActionsProps) {
               <Printer className="h-4 w-4 mr-2" />
               Print Summary
             </DropdownMenuItem>
+            {renderDownloadMenu()}
+            {onListen && (
+              <DropdownMenuItem onClick={handleListen}>
+                <Headphones className="h-4 w-4 mr-2" />
+                Listen to Summary
+              </DropdownMenuItem>
+            )}
+            {onAsk && (
+              <DropdownMenuItem onClick={handleAsk}>
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Ask About This Book
+              </DropdownMenuItem>
+            )}
+            {onStudy && (
+              <DropdownMenuItem onClick={handleStudy}>
+                <GraduationCap className="h-4 w-4 mr-2" />
+                Flashcards & Quiz
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem onClick={handleSaveSummary}>
               <BookMarkedIcon
                 className={cn("h-4 w-4 mr-2", isSaved && "stroke-white")}
               />
               {isSaved ? "Remove Summary" : "Save Summary"}
             </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={handleRegenerate}
+              disabled={isRegenerating}
+            >
+              <RefreshCw
+                className={cn("h-4 w-4 mr-2", isRegenerating && "animate-spin")}
+              />
+              {isRegenerating ? "Regenerating..." : "Regenerate Summary"}
+            </DropdownMenuItem>
+            {onCompareRevisions && (
+              <DropdownMenuItem onClick={onCompareRevisions}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                Compare Revisions
+              </DropdownMenuItem>
+            )}
+            {renderTranslateMenu()}
 
             <DropdownMenuSeparator />
 
@@ -17,7 +17,10 @@ import {
 import { Button } from "../ui/button";
 import { Alert, AlertDescription, AlertTitle } from "../ui/alert";
 import type { SummaryType } from "../../types/summary";
-import { getSummaryTypeDescription } from "../../types/summary";
+import {
+  getSummaryTypeDescription,
+  isBuiltInSummaryType,
+} from "../../types/summary";
 
 /**
  * Props for SummaryGenerationProgress component
@@ -29,6 +32,9 @@ interface SummaryGenerationProgressProps {
   /** Generation progress (0-100) */
   progress?: number;
 
+  /** Whether progress is measured from a live stream rather than estimated */
+  isStreaming?: boolean;
+
   /** Estimated time remaining in seconds */
   estimatedTime?: number;
 
@@ -102,6 +108,7 @@ export function SummaryGenerationProgress({
   onRetry,
   onCancel,
   isSuccess = false,
+  isStreaming = false,
   className = "",
 }: SummaryGenerationProgressProps) {
   // Determine current state
@@ -128,16 +135,18 @@ export function SummaryGenerationProgress({
     return PROGRESS_MESSAGES[currentKey as keyof typeof PROGRESS_MESSAGES];
   }, [progress, isGenerating, error, isSuccess]);
 
-  // Calculate time remaining
+  // Calculate time remaining (not meaningful for streamed output, which
+  // shows its own content as it arrives)
   const timeRemaining = React.useMemo(() => {
-    if (!isGenerating || !estimatedTime || !progress) return null;
+    if (!isGenerating || !estimatedTime || !progress || isStreaming)
+      return null;
 
     // const progressFraction = Math.max(progress / 100, 0.1); // Avoid division by zero
     const elapsed = (progress / 100) * estimatedTime;
     const remaining = Math.max(estimatedTime - elapsed, 0);
 
     return Math.ceil(remaining);
-  }, [progress, estimatedTime, isGenerating]);
+  }, [progress, estimatedTime, isGenerating, isStreaming]);
 
   // Format time display
   const formatTime = (seconds: number): string => {
@@ -206,7 +215,9 @@ export function SummaryGenerationProgress({
           <div className="flex items-center justify-center p-4 rounded-lg bg-muted/30">
             <Sparkles className="h-5 w-5 mr-2 animate-spin text-primary" />
             <span className="text-sm font-medium">
-              Generating {summaryDescription.title.toLowerCase()}...
+              {isStreaming
+                ? `Writing ${summaryDescription.title.toLowerCase()}... ${progress}%`
+                : `Generating ${summaryDescription.title.toLowerCase()}...`}
             </span>
           </div>
 
@@ -344,13 +355,15 @@ export function GenerationTimeEstimate({
 }: GenerationTimeEstimateProps) {
   // const summaryDescription = getSummaryTypeDescription(summaryType);
 
-  // Estimate generation time based on summary type
-  const estimatedSeconds = {
-    concise: 15,
-    detailed: 45,
-    analysis: 35,
-    practical: 25,
-  }[summaryType];
+  // Estimate generation time based on summary type (custom types vary)
+  const estimatedSeconds = isBuiltInSummaryType(summaryType)
+    ? {
+        concise: 15,
+        detailed: 45,
+        analysis: 35,
+        practical: 25,
+      }[summaryType]
+    : 30;
 
   const formatTime = (seconds: number): string => {
     if (seconds < 60) return `~${seconds}s`;
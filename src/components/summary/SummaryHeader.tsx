@@ -22,6 +22,14 @@ interface SummaryHeaderProps {
   readingProgress?: number;
   /** Callback when back to book is clicked */
   onBackToBook: () => void;
+  /** Callback to open the revision comparison */
+  onCompareRevisions?: () => void;
+  /** Callback to open the narration player */
+  onListen?: () => void;
+  /** Callback to open the book chat */
+  onAsk?: () => void;
+  /** Callback to open flashcards and the quiz */
+  onStudy?: () => void;
   /** Custom className for styling */
   className?: string;
 }
@@ -42,6 +50,10 @@ export function SummaryHeader({
   summary,
   readingProgress = 0,
   onBackToBook,
+  onCompareRevisions,
+  onListen,
+  onAsk,
+  onStudy,
   className,
 }: SummaryHeaderProps) {
   const [sheetOpen, setSheetOpen] = useState(false);
@@ -169,7 +181,13 @@ export function SummaryHeader({
             </div>
 
             {/* Action Buttons */}
-            <SummaryActions summary={summary} />
+            <SummaryActions
+              summary={summary}
+              onCompareRevisions={onCompareRevisions}
+              onListen={onListen}
+              onAsk={onAsk}
+              onStudy={onStudy}
+            />
 
             {/* Summary Info Sheet - Moved to end */}
             <Sheet open={sheetOpen} onOpenChange={setSheetOpen}>
@@ -0,0 +1,479 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { SignInButton } from "@clerk/nextjs";
+import { Highlighter, Loader2, MessageSquareText, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "../../lib/utils";
+import {
+  createHighlightAnchor,
+  resolveHighlightAnchor,
+} from "../../lib/highlightAnchor";
+import { Button } from "../ui/button";
+import type {
+  HighlightReanchor,
+  SummaryHighlightsController,
+} from "../../hooks/useSummaryHighlights";
+import {
+  HIGHLIGHT_COLORS,
+  MAX_HIGHLIGHT_LENGTH,
+  MAX_HIGHLIGHT_NOTE_LENGTH,
+  type HighlightColor,
+  type SummaryHighlight,
+} from "../../types/highlight";
+
+interface SummaryHighlightLayerProps {
+  /** Element holding the rendered summary, positioned relatively */
+  containerRef: React.RefObject<HTMLDivElement | null>;
+  /** Rendered markdown; highlights are placed again when it changes */
+  content: string;
+  /** The reader's highlights and the functions to change them */
+  controller: SummaryHighlightsController;
+}
+
+/** Swatch classes per highlight color */
+const COLOR_SWATCHES: Record<HighlightColor, string> = {
+  yellow: "bg-yellow-300",
+  green: "bg-green-300",
+  blue: "bg-sky-300",
+  pink: "bg-pink-300",
+};
+
+const textareaClassName =
+  "placeholder:text-muted-foreground border-input flex min-h-20 w-full resize-none rounded-md border bg-transparent px-3 py-2 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+/** A resolved highlight and where its margin marker goes */
+interface PlacedHighlight {
+  highlight: SummaryHighlight;
+  range: Range;
+  top: number;
+}
+
+/**
+ * Offset of a DOM position in the container's text
+ */
+function getTextOffset(root: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+/**
+ * DOM range covering characters [start, end) of the container's text
+ */
+function getTextRange(
+  root: HTMLElement,
+  start: number,
+  end: number
+): Range | null {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let position = 0;
+  let started = false;
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length ?? 0;
+    if (!started && start <= position + length) {
+      range.setStart(node, start - position);
+      started = true;
+    }
+    if (started && end <= position + length) {
+      range.setEnd(node, end - position);
+      return range;
+    }
+    position += length;
+  }
+  return null;
+}
+
+/**
+ * Id of the heading a range starts under, if any
+ */
+function getSectionId(root: HTMLElement, range: Range): string | undefined {
+  let sectionId: string | undefined;
+  for (const heading of root.querySelectorAll<HTMLElement>(
+    "h1[id], h2[id], h3[id], h4[id], h5[id], h6[id]"
+  )) {
+    const precedes =
+      heading.contains(range.startContainer) ||
+      heading.compareDocumentPosition(range.startContainer) &
+        Node.DOCUMENT_POSITION_FOLLOWING;
+    if (!precedes) break;
+    sectionId = heading.id;
+  }
+  return sectionId;
+}
+
+/**
+ * Whether the browser can paint highlights (CSS Custom Highlight API)
+ */
+const canPaintHighlights = () =>
+  typeof CSS !== "undefined" &&
+  "highlights" in CSS &&
+  typeof Highlight !== "undefined";
+
+/**
+ * SummaryHighlightLayer - Highlighting and notes on top of the reader
+ *
+ * Features:
+ * - Select text to highlight it in one of four colors, or with a note
+ * - Highlights painted over the rendered summary without touching its DOM
+ * - Margin markers for each highlight, opening its note for editing
+ * - Re-anchors highlights made on an earlier revision after a
+ *   regeneration, flagging passages that no longer appear
+ */
+export function SummaryHighlightLayer({
+  containerRef,
+  content,
+  controller,
+}: SummaryHighlightLayerProps) {
+  const {
+    highlights,
+    revision,
+    addHighlight,
+    updateHighlight,
+    deleteHighlight,
+    reanchorHighlights,
+    isAuthenticated,
+  } = controller;
+  const [placed, setPlaced] = useState<PlacedHighlight[]>([]);
+  const [selection, setSelection] = useState<{
+    start: number;
+    end: number;
+    top: number;
+    left: number;
+  } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const reanchored = useRef(new Set<string>());
+
+  // Place highlights in the rendered text, re-anchoring older ones
+  useEffect(() => {
+    const root = containerRef.current;
+    if (!root) return;
+
+    const text = root.textContent ?? "";
+    const rootTop = root.getBoundingClientRect().top;
+    const next: PlacedHighlight[] = [];
+    const updates: HighlightReanchor[] = [];
+
+    for (const highlight of highlights) {
+      const resolved = resolveHighlightAnchor(text, highlight.anchor);
+      const range =
+        resolved && getTextRange(root, resolved.start, resolved.end);
+
+      if (highlight.revision !== revision) {
+        const key = `${highlight.id}:${revision}`;
+        if (!reanchored.current.has(key)) {
+          reanchored.current.add(key);
+          updates.push({
+            highlightId: highlight.id,
+            anchor:
+              resolved && range
+                ? createHighlightAnchor(
+                    text,
+                    resolved.start,
+                    resolved.end,
+                    getSectionId(root, range)
+                  )
+                : undefined,
+          });
+        }
+      }
+
+      if (range) {
+        next.push({
+          highlight,
+          range,
+          top: range.getBoundingClientRect().top - rootTop,
+        });
+      }
+    }
+
+    setPlaced(next);
+    reanchorHighlights(updates).catch((error) =>
+      console.error("Error re-anchoring highlights:", error)
+    );
+
+    if (!canPaintHighlights()) return;
+    const names = HIGHLIGHT_COLORS.map((color) => {
+      const name = `summary-highlight-${color}`;
+      CSS.highlights.set(
+        name,
+        new Highlight(
+          ...next
+            .filter((item) => item.highlight.color === color)
+            .map((item) => item.range)
+        )
+      );
+      return name;
+    });
+    return () => names.forEach((name) => CSS.highlights.delete(name));
+  }, [containerRef, content, highlights, revision, reanchorHighlights]);
+
+  // Keep margin markers level with their highlights as the layout changes
+  useEffect(() => {
+    const root = containerRef.current;
+    if (!root || typeof ResizeObserver === "undefined") return;
+
+    const observer = new ResizeObserver(() => {
+      const rootTop = root.getBoundingClientRect().top;
+      setPlaced((current) =>
+        current.map((item) => ({
+          ...item,
+          top: item.range.getBoundingClientRect().top - rootTop,
+        }))
+      );
+    });
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  // Offer the highlight toolbar for text selected in the summary
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const root = containerRef.current;
+      const current = window.getSelection();
+      if (!root || !current || current.isCollapsed || !current.rangeCount) {
+        setSelection(null);
+        return;
+      }
+
+      const range = current.getRangeAt(0);
+      if (!root.contains(range.commonAncestorContainer)) {
+        setSelection(null);
+        return;
+      }
+
+      const rect = range.getBoundingClientRect();
+      const rootRect = root.getBoundingClientRect();
+      setSelection({
+        start: getTextOffset(root, range.startContainer, range.startOffset),
+        end: getTextOffset(root, range.endContainer, range.endOffset),
+        top: rect.top - rootRect.top,
+        left: rect.left - rootRect.left + rect.width / 2,
+      });
+    };
+
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () =>
+      document.removeEventListener("selectionchange", handleSelectionChange);
+  }, [containerRef]);
+
+  const handleHighlight = async (color: HighlightColor, withNote = false) => {
+    const root = containerRef.current;
+    if (!root || !selection) return;
+
+    const text = root.textContent ?? "";
+    const range = getTextRange(root, selection.start, selection.end);
+    // Leave surrounding whitespace out of the passage
+    const passage = text.slice(selection.start, selection.end);
+    const start =
+      selection.start + (passage.length - passage.trimStart().length);
+    const end = selection.end - (passage.length - passage.trimEnd().length);
+
+    if (end <= start) return;
+    if (end - start > MAX_HIGHLIGHT_LENGTH) {
+      toast.error("That passage is too long to highlight in one go.");
+      return;
+    }
+
+    try {
+      const highlightId = await addHighlight(
+        createHighlightAnchor(
+          text,
+          start,
+          end,
+          range ? getSectionId(root, range) : undefined
+        ),
+        color
+      );
+      window.getSelection()?.removeAllRanges();
+      setSelection(null);
+      if (withNote) {
+        setNote("");
+        setEditingId(highlightId);
+      }
+    } catch (error) {
+      toast.error("Failed to save highlight. Please try again.");
+      console.error("Error adding highlight:", error);
+    }
+  };
+
+  const openEditor = (highlight: SummaryHighlight) => {
+    setNote(highlight.note ?? "");
+    setEditingId(highlight.id);
+  };
+
+  const handleSaveNote = async () => {
+    if (!editingId) return;
+    setIsSaving(true);
+    try {
+      await updateHighlight(editingId, { note });
+      setEditingId(null);
+    } catch (error) {
+      toast.error("Failed to save note. Please try again.");
+      console.error("Error saving highlight note:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleColor = async (highlightId: string, color: HighlightColor) => {
+    try {
+      await updateHighlight(highlightId, { color });
+    } catch (error) {
+      toast.error("Failed to change color. Please try again.");
+      console.error("Error changing highlight color:", error);
+    }
+  };
+
+  const handleDelete = useCallback(
+    async (highlightId: string) => {
+      try {
+        await deleteHighlight(highlightId);
+        setEditingId(null);
+        toast.success("Highlight removed");
+      } catch (error) {
+        toast.error("Failed to remove highlight. Please try again.");
+        console.error("Error deleting highlight:", error);
+      }
+    },
+    [deleteHighlight]
+  );
+
+  const editing = placed.find((item) => item.highlight.id === editingId);
+
+  return (
+    <>
+      {/* Toolbar over the selected text */}
+      {selection && (
+        <div
+          className="not-prose absolute z-30 flex -translate-x-1/2 -translate-y-full items-center gap-1 rounded-md border bg-popover p-1 shadow-md print:hidden"
+          style={{ top: selection.top - 6, left: selection.left }}
+          // Keep the selection while clicking the toolbar
+          onMouseDown={(event) => event.preventDefault()}
+        >
+          {isAuthenticated ? (
+            <>
+              {HIGHLIGHT_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => handleHighlight(color)}
+                  className={cn(
+                    "h-6 w-6 rounded-full border",
+                    COLOR_SWATCHES[color]
+                  )}
+                  aria-label={`Highlight in ${color}`}
+                />
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7"
+                onClick={() => handleHighlight(HIGHLIGHT_COLORS[0], true)}
+              >
+                <MessageSquareText className="h-4 w-4 mr-1" />
+                Note
+              </Button>
+            </>
+          ) : (
+            <SignInButton mode="modal">
+              <Button variant="ghost" size="sm" className="h-7">
+                <Highlighter className="h-4 w-4 mr-1" />
+                Sign in to highlight
+              </Button>
+            </SignInButton>
+          )}
+        </div>
+      )}
+
+      {/* Margin markers */}
+      {placed.map(({ highlight, top }) => (
+        <button
+          key={highlight.id}
+          type="button"
+          onClick={() => openEditor(highlight)}
+          className={cn(
+            "not-prose absolute right-0 z-20 flex h-6 w-6 items-center justify-center rounded-full border shadow-sm print:hidden",
+            COLOR_SWATCHES[highlight.color]
+          )}
+          style={{ top }}
+          aria-label={highlight.note ? "Open note" : "Edit highlight"}
+          title={highlight.note ?? highlight.anchor.exact}
+        >
+          {highlight.note ? (
+            <MessageSquareText className="h-3.5 w-3.5 text-gray-800" />
+          ) : (
+            <Highlighter className="h-3.5 w-3.5 text-gray-800" />
+          )}
+        </button>
+      ))}
+
+      {/* Note editor, beside its marker */}
+      {editing && (
+        <div
+          className="not-prose absolute right-8 z-30 w-72 space-y-3 rounded-lg border bg-popover p-3 shadow-lg print:hidden"
+          style={{ top: editing.top }}
+          onKeyDown={(event) => event.key === "Escape" && setEditingId(null)}
+        >
+          <p className="line-clamp-3 text-sm italic text-muted-foreground">
+            &ldquo;{editing.highlight.anchor.exact}&rdquo;
+          </p>
+          <div className="flex gap-1">
+            {HIGHLIGHT_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => handleColor(editing.highlight.id, color)}
+                className={cn(
+                  "h-5 w-5 rounded-full border",
+                  COLOR_SWATCHES[color],
+                  editing.highlight.color === color &&
+                    "ring-2 ring-ring ring-offset-1"
+                )}
+                aria-label={`Change to ${color}`}
+                aria-pressed={editing.highlight.color === color}
+              />
+            ))}
+          </div>
+          <textarea
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Add a note..."
+            aria-label="Note"
+            className={textareaClassName}
+            maxLength={MAX_HIGHLIGHT_NOTE_LENGTH}
+            autoFocus
+          />
+          <div className="flex items-center justify-between gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleDelete(editing.highlight.id)}
+              aria-label="Remove highlight"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setEditingId(null)}
+              >
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSaveNote} disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
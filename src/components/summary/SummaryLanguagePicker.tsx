@@ -0,0 +1,76 @@
+"use client";
+
+import React from "react";
+import { Languages } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Label } from "@/components/ui/label";
+import {
+  getLanguageName,
+  resolveSummaryLanguage,
+  SAME_AS_BOOK_LANGUAGE,
+  SUMMARY_LANGUAGES,
+} from "@/types/summary";
+
+const selectClassName =
+  "border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50";
+
+interface SummaryLanguagePickerProps {
+  /** Selected language code, or SAME_AS_BOOK_LANGUAGE */
+  value: string;
+  /** Callback when a language is chosen */
+  onValueChange: (language: string) => void;
+  /** The book's catalogue language, if known */
+  bookLanguage?: string;
+  /** Whether the picker is disabled */
+  disabled?: boolean;
+  /** Custom className for styling */
+  className?: string;
+}
+
+/**
+ * SummaryLanguagePicker - Target language for summary generation
+ *
+ * Features:
+ * - "Same as book" resolves to the book's catalogue language, shown inline
+ *   (English when the catalogue has none or it isn't supported)
+ * - Every supported summary language, by name
+ */
+export function SummaryLanguagePicker({
+  value,
+  onValueChange,
+  bookLanguage,
+  disabled = false,
+  className,
+}: SummaryLanguagePickerProps) {
+  const bookLanguageName = getLanguageName(
+    resolveSummaryLanguage(SAME_AS_BOOK_LANGUAGE, { language: bookLanguage })
+  );
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <Label
+        htmlFor="summary-language"
+        className="flex items-center gap-2 text-sm text-muted-foreground"
+      >
+        <Languages className="h-4 w-4" />
+        Summary language
+      </Label>
+      <select
+        id="summary-language"
+        className={selectClassName}
+        value={value}
+        onChange={(event) => onValueChange(event.target.value)}
+        disabled={disabled}
+      >
+        <option value={SAME_AS_BOOK_LANGUAGE}>
+          Same as book ({bookLanguageName})
+        </option>
+        {Object.entries(SUMMARY_LANGUAGES).map(([code, name]) => (
+          <option key={code} value={code}>
+            {name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -10,9 +10,37 @@ import {
   Calendar,
   ChevronDown,
   ChevronUp,
+  BookOpen,
+  AlertTriangle,
+  ShieldCheck,
+  Languages,
 } from "lucide-react";
-import { getSummaryTypeDescription } from "../../types/summary";
-import type { Summary } from "../../types/summary";
+import {
+  DEFAULT_SUMMARY_LANGUAGE,
+  getLanguageName,
+  getSummaryTypeDescription,
+  isLowConfidenceSummary,
+} from "../../types/summary";
+import type { Summary, SummarySourceDescriptor } from "../../types/summary";
+
+/**
+ * Describe what a summary was grounded in, for the technical details
+ */
+function formatSource(source: SummarySourceDescriptor): string {
+  switch (source.kind) {
+    case "fulltext": {
+      const format = source.format === "epub" ? "EPUB" : "text";
+      const chapters = source.chapters?.length;
+      return chapters
+        ? `Full text (${format}, ${chapters} chapter${chapters === 1 ? "" : "s"})`
+        : `Full text (${format})`;
+    }
+    case "description":
+      return "Book description";
+    case "metadata":
+      return "Metadata only";
+  }
+}
 
 interface SummaryMetadataProps {
   /** Summary data */
@@ -28,6 +56,9 @@ interface SummaryMetadataProps {
  * - Summary type with icon and description
  * - Reading time estimate and word count
  * - Generation timestamp and AI model info
+ * - Sample/fallback badge when content did not come from the primary model
+ * - Low-confidence warning with the quality check's findings
+ * - Source the summary was grounded in (full text, description, metadata)
  * - Book context information (placeholder for book data)
  * - Accessible with semantic markup and ARIA labels
  * - Clean, card-based design following design system
@@ -90,6 +121,10 @@ export function SummaryMetadata({ summary, className }: SummaryMetadataProps) {
   };
 
   const statusInfo = getStatusInfo(summary.status);
+  const lowConfidence = isLowConfidenceSummary(summary);
+  const language = summary.language ?? DEFAULT_SUMMARY_LANGUAGE;
+  const languageName = getLanguageName(language);
+  const translatedFrom = summary.metadata?.translatedFrom;
 
   return (
     <div className={cn("space-y-6", className)}>
@@ -129,7 +164,7 @@ export function SummaryMetadata({ summary, className }: SummaryMetadataProps) {
         </div>
 
         {/* Status Badge */}
-        <div className="flex items-center gap-2">
+        <div className="flex flex-wrap items-center gap-2">
           <span className="text-xs font-medium text-muted-foreground">
             Status:
           </span>
@@ -142,8 +177,47 @@ export function SummaryMetadata({ summary, className }: SummaryMetadataProps) {
           >
             {statusInfo.label}
           </div>
+          {summary.generationMode === "mock" && (
+            <div className="inline-flex items-center rounded-full px-3 py-1 text-xs font-medium bg-yellow-100 text-yellow-600 dark:bg-yellow-900/20">
+              Sample content
+            </div>
+          )}
+          {summary.generationMode === "fallback" && (
+            <div className="inline-flex items-center rounded-full px-3 py-1 text-xs font-medium bg-muted text-muted-foreground">
+              Fallback model
+            </div>
+          )}
+          {language !== DEFAULT_SUMMARY_LANGUAGE && (
+            <div className="inline-flex items-center gap-1 rounded-full px-3 py-1 text-xs font-medium bg-muted text-muted-foreground">
+              <Languages className="h-3 w-3" />
+              {languageName}
+            </div>
+          )}
+          {lowConfidence && (
+            <div className="inline-flex items-center gap-1 rounded-full px-3 py-1 text-xs font-medium bg-orange-100 text-orange-700 dark:bg-orange-900/20 dark:text-orange-400">
+              <AlertTriangle className="h-3 w-3" />
+              Low confidence
+            </div>
+          )}
         </div>
 
+        {/* Quality check findings behind a low confidence score */}
+        {lowConfidence && summary.quality && (
+          <div
+            role="note"
+            className="rounded-lg border border-orange-500/20 bg-orange-500/5 p-3 text-xs text-muted-foreground space-y-1"
+          >
+            <p className="font-medium text-foreground">
+              This summary may contain inaccuracies
+            </p>
+            <ul className="list-disc pl-4 space-y-1">
+              {summary.quality.issues.map((issue) => (
+                <li key={issue.code}>{issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Generated On */}
         <div className="flex items-start gap-3 text-sm">
           <Calendar className="h-4 w-4 text-muted-foreground mt-0.5 shrink-0" />
@@ -196,6 +270,35 @@ export function SummaryMetadata({ summary, className }: SummaryMetadataProps) {
               </span>
             </div>
 
+            {/* Source */}
+            {summary.metadata?.source && (
+              <div className="flex items-center justify-between py-2 border-b border-dashed">
+                <div className="flex items-center gap-2">
+                  <BookOpen className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-muted-foreground">Source</span>
+                </div>
+                <span
+                  className="font-medium text-foreground"
+                  title={summary.metadata.source.fileName}
+                >
+                  {formatSource(summary.metadata.source)}
+                </span>
+              </div>
+            )}
+
+            {/* Language */}
+            <div className="flex items-center justify-between py-2 border-b border-dashed">
+              <div className="flex items-center gap-2">
+                <Languages className="h-4 w-4 text-muted-foreground" />
+                <span className="text-muted-foreground">Language</span>
+              </div>
+              <span className="font-medium text-foreground">
+                {translatedFrom
+                  ? `${languageName} (translated from ${getLanguageName(translatedFrom)})`
+                  : languageName}
+              </span>
+            </div>
+
             {/* Generation Time */}
             {summary.generationTime && (
               <div className="flex items-center justify-between py-2 border-b border-dashed">
@@ -209,6 +312,19 @@ export function SummaryMetadata({ summary, className }: SummaryMetadataProps) {
               </div>
             )}
 
+            {/* Confidence */}
+            {summary.quality && (
+              <div className="flex items-center justify-between py-2 border-b border-dashed">
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-muted-foreground">Confidence</span>
+                </div>
+                <span className="font-medium text-foreground">
+                  {Math.round(summary.quality.score * 100)}%
+                </span>
+              </div>
+            )}
+
             {/* Prompt Version */}
             <div className="flex items-center justify-between py-2">
               <span className="text-muted-foreground">Prompt Version</span>
@@ -0,0 +1,273 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Download,
+  Loader2,
+  LocateFixed,
+  Pause,
+  Play,
+  SkipBack,
+  SkipForward,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { standardizeError } from "@/lib/standardizedError";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useSummaryNarration } from "@/hooks/useSummaryNarration";
+import { concatAudio, getAudioExtension } from "@/services/narration/audio";
+import type { Summary } from "@/types/summary";
+
+interface SummaryNarrationPlayerProps {
+  /** Summary to narrate */
+  summary: Summary;
+  /** Section the reader is on, to start playback from */
+  readerSection?: string | null;
+  /** Callback when the narrated section changes (null when stopped) */
+  onNarratedSectionChange?: (sectionId: string | null) => void;
+  /** Callback to close the player */
+  onClose: () => void;
+  /** Custom className for styling */
+  className?: string;
+}
+
+/**
+ * SummaryNarrationPlayer - In-page audio player for summary narrations
+ *
+ * Features:
+ * - Requests the narration on open (the cached one is reused per revision)
+ * - Plays heading-sized chunks back to back, starting as soon as the first
+ *   one is synthesized and waiting for the next when it catches up
+ * - Reports the narrated section so the reader scrolls and highlights
+ *   along, and can start from the section being read
+ * - Previous/next section controls
+ * - Download of the whole narration as one file once complete
+ */
+export function SummaryNarrationPlayer({
+  summary,
+  readerSection,
+  onNarratedSectionChange,
+  onClose,
+  className,
+}: SummaryNarrationPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [index, setIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const { narration, isPreparing, request } = useSummaryNarration(summary.id);
+  const chunks = narration?.chunks ?? [];
+  const current = chunks[index];
+  const isWaiting = isPlaying && !current && isPreparing;
+
+  // Request once per open - reuses the cached narration when there is one
+  const requested = useRef(false);
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+    request().catch((error) => {
+      toast.error(standardizeError(error).userMessage);
+      console.error("Error requesting narration:", error);
+    });
+  }, [request]);
+
+  // Start, resume or pause the chunk's audio
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !current?.url) return;
+    if (isPlaying) {
+      audio.play().catch(() => setIsPlaying(false));
+    } else {
+      audio.pause();
+    }
+  }, [current?.url, isPlaying]);
+
+  // Keep the reader on the narrated section
+  useEffect(() => {
+    onNarratedSectionChange?.(isPlaying ? (current?.sectionId ?? null) : null);
+  }, [isPlaying, current?.sectionId, onNarratedSectionChange]);
+
+  useEffect(
+    () => () => onNarratedSectionChange?.(null),
+    [onNarratedSectionChange]
+  );
+
+  const handleEnded = () => {
+    if (index + 1 < chunks.length || isPreparing) {
+      setIndex(index + 1);
+    } else {
+      setIsPlaying(false);
+      setIndex(0);
+    }
+  };
+
+  const handlePlayFromReader = () => {
+    const start = chunks.findIndex(
+      (chunk) => chunk.sectionId === readerSection
+    );
+    if (start === -1) return;
+    setIndex(start);
+    setIsPlaying(true);
+  };
+
+  const handleRetry = () => {
+    setIndex(0);
+    request().catch((error) => {
+      toast.error(standardizeError(error).userMessage);
+    });
+  };
+
+  // Join the chunks into one file and save it
+  const handleDownload = async () => {
+    if (!narration?.contentType) return;
+    setIsDownloading(true);
+    try {
+      const parts = await Promise.all(
+        chunks.map(async (chunk) => {
+          const response = await fetch(chunk.url ?? "");
+          if (!response.ok) {
+            throw new Error(
+              `Failed to fetch narration audio: ${response.status}`
+            );
+          }
+          return new Uint8Array(await response.arrayBuffer());
+        })
+      );
+      const file = new Blob([concatAudio(parts, narration.contentType)], {
+        type: narration.contentType,
+      });
+
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(file);
+      link.download = `${summary.bookTitle || "Summary"} (${summary.summaryType}).${getAudioExtension(narration.contentType)}`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      toast.error("Failed to download narration. Please try again.");
+      console.error("Error downloading narration:", error);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const total = narration?.chunkCount;
+  const status = (() => {
+    if (narration?.status === "failed") {
+      return `Narration failed: ${narration.lastError ?? "unknown error"}`;
+    }
+    if (!narration || (isPreparing && chunks.length === 0)) {
+      return "Preparing audio...";
+    }
+    if (isWaiting) return "Preparing the next section...";
+    return current?.heading ?? chunks[0]?.heading ?? "";
+  })();
+
+  return (
+    <div
+      className={cn(
+        "fixed bottom-0 left-0 right-0 z-40 border-t bg-background/95 backdrop-blur-md print:hidden",
+        className
+      )}
+      role="region"
+      aria-label="Summary narration"
+    >
+      <audio
+        ref={audioRef}
+        src={current?.url ?? undefined}
+        onEnded={handleEnded}
+        preload="auto"
+      />
+
+      <div className="container mx-auto px-4 py-3">
+        <div className="max-w-4xl mx-auto flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIndex(Math.max(0, index - 1))}
+            disabled={index === 0}
+            aria-label="Previous section"
+          >
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => setIsPlaying(!isPlaying)}
+            disabled={chunks.length === 0}
+            aria-label={isPlaying ? "Pause narration" : "Play narration"}
+          >
+            {isWaiting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : isPlaying ? (
+              <Pause className="h-4 w-4" />
+            ) : (
+              <Play className="h-4 w-4" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIndex(index + 1)}
+            disabled={index + 1 >= chunks.length}
+            aria-label="Next section"
+          >
+            <SkipForward className="h-4 w-4" />
+          </Button>
+
+          <div className="min-w-0 flex-1 space-y-1">
+            <p className="truncate text-sm" aria-live="polite">
+              {status}
+            </p>
+            {isPreparing && total !== undefined && (
+              <Progress
+                value={(chunks.length / total) * 100}
+                className="h-1"
+                aria-label={`${chunks.length} of ${total} sections narrated`}
+              />
+            )}
+          </div>
+
+          {narration?.status === "failed" ? (
+            <Button variant="outline" size="sm" onClick={handleRetry}>
+              Try Again
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handlePlayFromReader}
+              disabled={
+                !chunks.some((chunk) => chunk.sectionId === readerSection)
+              }
+              aria-label="Play from the section you're reading"
+            >
+              <LocateFixed className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleDownload}
+            disabled={narration?.status !== "completed" || isDownloading}
+            aria-label="Download narration"
+          >
+            {isDownloading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            aria-label="Close narration player"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
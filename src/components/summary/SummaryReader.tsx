@@ -10,7 +10,10 @@ import rehypeAutolinkHeadings from "rehype-autolink-headings";
 import { cn } from "../../lib/utils";
 import { Card, CardContent } from "../ui/card";
 import { useReadingProgress } from "../../hooks/useReadingProgress";
-import type { SummaryType } from "../../types/summary";
+import type { SummaryHighlightsController } from "../../hooks/useSummaryHighlights";
+import { SummaryHighlightLayer } from "./SummaryHighlightLayer";
+import type { StructuredSummary, SummaryType } from "../../types/summary";
+import { READ_COMPLETE_PROGRESS } from "../../types/reading";
 
 // Import highlight.js CSS for code syntax highlighting
 // Note: We'll use CSS variables to handle dark/light theme switching
@@ -19,6 +22,8 @@ import "highlight.js/styles/github.css";
 interface SummaryReaderProps {
   /** Summary content in markdown format */
   content: string;
+  /** Structured form of the content (sections, takeaways) when available */
+  structured?: StructuredSummary;
   /** Type of summary for styling context */
   summaryType: SummaryType;
   /** Word count for reading analytics */
@@ -29,6 +34,14 @@ interface SummaryReaderProps {
   className?: string;
   /** Optional callback for progress updates */
   onProgressChange?: (progress: number) => void;
+  /** Whether content is still arriving from a streamed generation */
+  isStreaming?: boolean;
+  /** Section being narrated; the reader scrolls to and highlights it */
+  narratedSection?: string | null;
+  /** Optional callback when the section being read changes */
+  onSectionChange?: (sectionId: string | null) => void;
+  /** The reader's highlights; enables highlighting and notes when given */
+  highlights?: SummaryHighlightsController;
 }
 
 /**
@@ -41,6 +54,8 @@ interface SummaryReaderProps {
  * - Syntax-highlighted code blocks with rehype-highlight
  * - Linkable headings with automatic anchors
  * - Scroll-based reading progress tracking (reports to parent via callback)
+ * - Key takeaways and an in-page section index from the structured summary,
+ *   with the section being read highlighted
  * - Optimized typography with 65ch max-width for readability
  * - Premium line height and spacing (1.7 line-height)
  * - Accessible font scaling and contrast
@@ -49,6 +64,9 @@ interface SummaryReaderProps {
  * - Semantic HTML markup for screen readers
  * - Focus management for keyboard navigation
  * - Responsive design with comfortable margins
+ * - Live rendering of streamed content while a summary is generating
+ * - Follows the audio narration, scrolling to the section being narrated
+ * - Highlights and notes on selected passages, with margin markers
  *
  * Typography Guidelines:
  * - Max-width: 65ch (optimal reading line length)
@@ -59,25 +77,32 @@ interface SummaryReaderProps {
  */
 export function SummaryReader({
   content,
+  structured,
   summaryType,
   wordCount,
   readingTime,
   className,
   onProgressChange,
+  isStreaming = false,
+  narratedSection,
+  onSectionChange,
+  highlights,
 }: SummaryReaderProps) {
   const contentRef = useRef<HTMLDivElement>(null);
+  const markdownRef = useRef<HTMLDivElement>(null);
 
   // Set up reading progress tracking (reports to parent only)
   // Account for fixed header heights: mobile 180px, desktop (sm+) 136px
-  const { progress } = useReadingProgress({
-    containerRef: contentRef as React.RefObject<HTMLElement>,
-    threshold: 0.3,
-    rootMargin: "-10% 0px -80% 0px",
-    headerOffset: {
-      mobile: 180, // pt-[180px] on mobile
-      desktop: 136, // sm:pt-[136px] on desktop
-    },
-  });
+  const { progress, currentSection, registerSection, followSection } =
+    useReadingProgress({
+      containerRef: contentRef as React.RefObject<HTMLElement>,
+      threshold: 0.3,
+      rootMargin: "-10% 0px -80% 0px",
+      headerOffset: {
+        mobile: 180, // pt-[180px] on mobile
+        desktop: 136, // sm:pt-[136px] on desktop
+      },
+    });
 
   // Notify parent of progress changes
   useEffect(() => {
@@ -86,12 +111,41 @@ export function SummaryReader({
     }
   }, [progress, onProgressChange]);
 
-  // Focus management for accessibility
+  // Notify parent of section changes
   useEffect(() => {
-    if (contentRef.current) {
+    onSectionChange?.(currentSection);
+  }, [currentSection, onSectionChange]);
+
+  // Follow the narration from section to section
+  useEffect(() => {
+    if (narratedSection) {
+      followSection(narratedSection);
+    }
+  }, [narratedSection, followSection]);
+
+  // Track structured sections by the ids rehype-slug gave their headings
+  useEffect(() => {
+    const container = contentRef.current;
+    if (!container || !structured || isStreaming) return;
+
+    const ids = structured.sections.map((section) => section.id);
+    ids.forEach((id) => {
+      registerSection(
+        container.querySelector<HTMLElement>(`[id="${CSS.escape(id)}"]`),
+        id
+      );
+    });
+
+    return () => ids.forEach((id) => registerSection(null, id));
+  }, [structured, content, isStreaming, registerSection]);
+
+  // Focus management for accessibility (skipped while streaming so each
+  // delta doesn't steal focus)
+  useEffect(() => {
+    if (contentRef.current && !isStreaming) {
       contentRef.current.focus({ preventScroll: true });
     }
-  }, [content]);
+  }, [content, isStreaming]);
 
   // Custom components for ReactMarkdown
   const markdownComponents = {
@@ -307,6 +361,7 @@ export function SummaryReader({
           )}
           role="main"
           aria-label={`${summaryType} summary content, estimated ${readingTime} minute read`}
+          aria-busy={isStreaming}
         >
           {/* Screen reader information */}
           <div className="sr-only">
@@ -317,44 +372,73 @@ export function SummaryReader({
             </p>
           </div>
 
-          {/* ReactMarkdown with premium plugins and components */}
-          <ReactMarkdown
-            components={markdownComponents}
-            remarkPlugins={[
-              remarkGfm,
-              [
-                remarkSmartypants,
-                {
-                  quotes: true,
-                  ellipses: true,
-                  backticks: true,
-                  dashes: true,
-                },
-              ],
-            ]}
-            rehypePlugins={[
-              rehypeHighlight,
-              rehypeSlug,
-              [
-                rehypeAutolinkHeadings,
-                {
-                  behavior: "append",
-                  properties: {
-                    className: [
-                      "ml-2 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-primary",
-                    ],
-                    ariaLabel: "Link to heading",
-                  },
-                },
-              ],
-            ]}
-          >
-            {content}
-          </ReactMarkdown>
+          {/* Key takeaways and section index from the structured summary */}
+          {structured && !isStreaming && (
+            <SummaryOutline
+              structured={structured}
+              currentSection={currentSection}
+            />
+          )}
+
+          {/* ReactMarkdown with premium plugins and components; highlights
+              are anchored to this text only */}
+          <div className="relative">
+            <div ref={markdownRef}>
+              <ReactMarkdown
+                components={markdownComponents}
+                remarkPlugins={[
+                  remarkGfm,
+                  [
+                    remarkSmartypants,
+                    {
+                      quotes: true,
+                      ellipses: true,
+                      backticks: true,
+                      dashes: true,
+                    },
+                  ],
+                ]}
+                rehypePlugins={[
+                  rehypeHighlight,
+                  rehypeSlug,
+                  [
+                    rehypeAutolinkHeadings,
+                    {
+                      behavior: "append",
+                      properties: {
+                        className: [
+                          "ml-2 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-primary",
+                        ],
+                        ariaLabel: "Link to heading",
+                      },
+                    },
+                  ],
+                ]}
+              >
+                {content}
+              </ReactMarkdown>
+            </div>
+
+            {highlights && !isStreaming && (
+              <SummaryHighlightLayer
+                containerRef={markdownRef}
+                content={content}
+                controller={highlights}
+              />
+            )}
+          </div>
+
+          {/* Streaming caret */}
+          {isStreaming && (
+            <span
+              className="inline-block h-5 w-2 animate-pulse bg-primary/60 align-text-bottom"
+              aria-hidden="true"
+            />
+          )}
         </article>
 
         {/* Reading completion indicator */}
-        {progress >= 95 && (
+        {progress >= READ_COMPLETE_PROGRESS && !isStreaming && (
           <div className="mt-12 pt-8 border-t text-center animate-in fade-in-50 duration-500">
             <p className="text-sm text-muted-foreground">
               🎉 You&apos;ve finished reading this summary
@@ -365,3 +449,87 @@ export function SummaryReader({
     </Card>
   );
 }
+
+interface SummaryOutlineProps {
+  structured: StructuredSummary;
+  /** Id of the section being read */
+  currentSection: string | null;
+}
+
+/**
+ * Key takeaways card and section index shown above the summary
+ */
+function SummaryOutline({ structured, currentSection }: SummaryOutlineProps) {
+  const topSections = structured.sections.filter(
+    (section) => section.level <= 2
+  );
+  const showIndex = topSections.length > 1;
+
+  // Highlight the top-level section containing the one being read
+  const currentIndex = structured.sections.findIndex(
+    (section) => section.id === currentSection
+  );
+  const activeSection = structured.sections
+    .slice(0, currentIndex + 1)
+    .reverse()
+    .find((section) => section.level <= 2)?.id;
+
+  if (structured.keyTakeaways.length === 0 && !showIndex) {
+    return null;
+  }
+
+  return (
+    <aside
+      className="not-prose mb-10 max-w-[65ch] mx-auto space-y-6 rounded-lg border bg-muted/30 p-5 print:hidden"
+      aria-label="Summary outline"
+    >
+      {structured.keyTakeaways.length > 0 && (
+        <div>
+          <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground mb-3">
+            Key takeaways
+          </h2>
+          <ul className="space-y-2 list-disc pl-5">
+            {structured.keyTakeaways.map((takeaway, index) => (
+              <li key={index} className="text-foreground leading-relaxed">
+                <ReactMarkdown
+                  remarkPlugins={[remarkGfm]}
+                  components={{ p: ({ children }) => <>{children}</> }}
+                >
+                  {takeaway}
+                </ReactMarkdown>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {showIndex && (
+        <nav aria-label="Sections">
+          <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground mb-3">
+            In this summary
+          </h2>
+          <ol className="space-y-1 text-sm">
+            {topSections.map((section) => (
+              <li key={section.id}>
+                <a
+                  href={`#${section.id}`}
+                  aria-current={
+                    activeSection === section.id ? "location" : undefined
+                  }
+                  className={cn(
+                    "block rounded px-2 py-1 transition-colors hover:bg-muted",
+                    activeSection === section.id
+                      ? "font-medium text-primary"
+                      : "text-muted-foreground"
+                  )}
+                >
+                  {section.heading}
+                </a>
+              </li>
+            ))}
+          </ol>
+        </nav>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import React from "react";
+import { BookmarkCheck, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { Card, CardContent } from "../ui/card";
+import { Progress } from "../ui/progress";
+import {
+  READ_COMPLETE_PROGRESS,
+  RESUME_MIN_PROGRESS,
+  type ReadingPosition,
+} from "../../types/reading";
+
+interface SummaryResumePromptProps {
+  /** Where the reader left off */
+  position: ReadingPosition;
+  /** Heading of the section they were in, if known */
+  sectionHeading?: string;
+  /** Callback to jump back to the position */
+  onResume: () => void;
+  /** Callback to start from the top instead */
+  onDismiss: () => void;
+}
+
+/**
+ * Whether a saved position is worth offering to resume from
+ *
+ * Not when the reader barely started, or already finished the summary.
+ */
+export function shouldOfferResume(
+  position: ReadingPosition | null | undefined
+): position is ReadingPosition {
+  return (
+    !!position &&
+    position.progress >= RESUME_MIN_PROGRESS &&
+    position.progress < READ_COMPLETE_PROGRESS
+  );
+}
+
+/**
+ * SummaryResumePrompt - Offer to continue a summary where the reader left off
+ *
+ * Features:
+ * - How far through the summary the reader got, and in which section
+ * - One click back to that position, from any device
+ * - Dismissable to keep reading from the top
+ */
+export function SummaryResumePrompt({
+  position,
+  sectionHeading,
+  onResume,
+  onDismiss,
+}: SummaryResumePromptProps) {
+  return (
+    <Card className="border-primary/30 bg-primary/5 print:hidden">
+      <CardContent className="flex flex-col gap-4 py-4 sm:flex-row sm:items-center">
+        <BookmarkCheck className="hidden h-5 w-5 shrink-0 text-primary sm:block" />
+        <div className="min-w-0 flex-1 space-y-2">
+          <p className="font-medium">Continue where you left off</p>
+          <p className="truncate text-sm text-muted-foreground">
+            {position.progress}% read
+            {sectionHeading && <> &middot; {sectionHeading}</>}
+          </p>
+          <Progress value={position.progress} className="h-1.5" />
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={onResume}>
+            Continue Reading
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onDismiss}
+            aria-label="Start from the beginning"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
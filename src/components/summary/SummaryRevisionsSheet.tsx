@@ -0,0 +1,266 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Pin, PinOff } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { diffSummarySections, type SectionDiff } from "@/lib/summaryDiff";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import type { SummaryRevision } from "@/hooks/useSummaryRevisions";
+
+interface SummaryRevisionsSheetProps {
+  /** Whether the sheet is open */
+  open: boolean;
+  /** Callback when the sheet opens or closes */
+  onOpenChange: (open: boolean) => void;
+  /** Revisions, newest first */
+  revisions: SummaryRevision[];
+  /** Revision the user's saved copy is pinned to */
+  pinnedRevision?: number;
+  /** Whether the user has saved this summary (pinning requires it) */
+  isSaved: boolean;
+  /** Pin the saved copy to a revision (undefined follows the latest) */
+  onPin: (revision?: number) => Promise<void>;
+}
+
+const selectClassName =
+  "border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]";
+
+const STATUS_LABELS: Record<SectionDiff["status"], string> = {
+  unchanged: "Unchanged",
+  changed: "Changed",
+  added: "Added",
+  removed: "Removed",
+};
+
+/**
+ * Label for a revision in the pickers
+ */
+function formatRevision(revision: SummaryRevision): string {
+  const date = new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(revision.createdAt));
+  return `#${revision.revision} · ${date} · ${revision.aiModel} (${revision.promptVersion})`;
+}
+
+/**
+ * SummaryRevisionsSheet - Compare two revisions of a summary
+ *
+ * Features:
+ * - Pick any two revisions (defaults to the previous and latest)
+ * - Section-by-section diff: sections paired by heading, lines marked
+ *   added/removed within changed sections
+ * - Model and prompt version shown per revision
+ * - Pin the user's saved copy to a revision, or follow the latest
+ */
+export function SummaryRevisionsSheet({
+  open,
+  onOpenChange,
+  revisions,
+  pinnedRevision,
+  isSaved,
+  onPin,
+}: SummaryRevisionsSheetProps) {
+  const [fromRevision, setFromRevision] = useState<number>();
+  const [toRevision, setToRevision] = useState<number>();
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Default to the two newest revisions as they arrive
+  const latest = revisions[0]?.revision;
+  const previous = revisions[1]?.revision;
+  useEffect(() => {
+    setToRevision(latest);
+    setFromRevision(previous ?? latest);
+  }, [latest, previous]);
+
+  const from = revisions.find((r) => r.revision === fromRevision);
+  const to = revisions.find((r) => r.revision === toRevision);
+
+  const sections = useMemo(
+    () => (from && to ? diffSummarySections(from.content, to.content) : []),
+    [from, to]
+  );
+  const visibleSections = showUnchanged
+    ? sections
+    : sections.filter((section) => section.status !== "unchanged");
+
+  const handlePin = async (revision?: number) => {
+    try {
+      await onPin(revision);
+      toast.success(
+        revision === undefined
+          ? "Saved summary follows the latest revision"
+          : `Saved summary pinned to revision #${revision}`
+      );
+    } catch (error) {
+      console.error("Failed to pin revision:", error);
+      toast.error("Failed to pin revision");
+    }
+  };
+
+  const renderPicker = (
+    id: string,
+    label: string,
+    value: number | undefined,
+    onChange: (revision: number) => void
+  ) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <select
+        id={id}
+        className={selectClassName}
+        value={value ?? ""}
+        onChange={(event) => onChange(Number(event.target.value))}
+      >
+        {revisions.map((revision) => (
+          <option key={revision._id} value={revision.revision}>
+            {formatRevision(revision)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-[90vw] sm:w-[85vw] md:max-w-2xl overflow-y-auto"
+      >
+        <SheetHeader>
+          <SheetTitle>Summary revisions</SheetTitle>
+          <SheetDescription>
+            Each regeneration is kept as a revision. Compare any two, section by
+            section.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 px-4 pb-6">
+          {revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No revisions recorded yet. Regenerate the summary to start a
+              history.
+            </p>
+          ) : (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {renderPicker(
+                  "revision-from",
+                  "Compare",
+                  fromRevision,
+                  setFromRevision
+                )}
+                {renderPicker("revision-to", "With", toRevision, setToRevision)}
+              </div>
+
+              {isSaved && to && (
+                <div className="flex flex-wrap items-center gap-2 rounded-lg border p-3 text-sm">
+                  <span className="flex-1 text-muted-foreground">
+                    {pinnedRevision === undefined
+                      ? "Your saved copy follows the latest revision."
+                      : `Your saved copy is pinned to revision #${pinnedRevision}.`}
+                  </span>
+                  {pinnedRevision !== to.revision && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handlePin(to.revision)}
+                    >
+                      <Pin className="h-4 w-4 mr-2" />
+                      Pin #{to.revision}
+                    </Button>
+                  )}
+                  {pinnedRevision !== undefined && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handlePin(undefined)}
+                    >
+                      <PinOff className="h-4 w-4 mr-2" />
+                      Follow latest
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {from?.revision === to?.revision ? (
+                <p className="text-sm text-muted-foreground">
+                  Pick two different revisions to see what changed.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={showUnchanged}
+                      onChange={(event) =>
+                        setShowUnchanged(event.target.checked)
+                      }
+                    />
+                    Show unchanged sections
+                  </label>
+
+                  {visibleSections.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      No differences between these revisions.
+                    </p>
+                  )}
+
+                  {visibleSections.map((section, index) => (
+                    <section
+                      key={`${section.heading}-${index}`}
+                      className="rounded-lg border"
+                    >
+                      <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+                        <h3 className="text-sm font-semibold truncate">
+                          {section.heading || "Introduction"}
+                        </h3>
+                        <Badge
+                          variant={
+                            section.status === "unchanged"
+                              ? "secondary"
+                              : "outline"
+                          }
+                        >
+                          {STATUS_LABELS[section.status]}
+                        </Badge>
+                      </div>
+                      <div className="space-y-1 p-3 text-sm">
+                        {section.lines.map((line, lineIndex) => (
+                          <p
+                            key={lineIndex}
+                            className={cn(
+                              "rounded px-2 py-0.5 whitespace-pre-wrap",
+                              line.type === "added" &&
+                                "bg-green-50 text-green-900 dark:bg-green-950 dark:text-green-100",
+                              line.type === "removed" &&
+                                "bg-red-50 text-red-900 line-through dark:bg-red-950 dark:text-red-100"
+                            )}
+                          >
+                            {line.text}
+                          </p>
+                        ))}
+                      </div>
+                    </section>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
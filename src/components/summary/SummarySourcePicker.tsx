@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useRef } from "react";
+import { FileText, Upload, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+
+/** File types the source endpoint can parse */
+const ACCEPTED_SOURCE_TYPES = ".epub,.txt,text/plain,application/epub+zip";
+
+interface SummarySourcePickerProps {
+  /** Currently selected source file */
+  file?: File;
+  /** Callback when a file is chosen or cleared */
+  onFileChange: (file: File | undefined) => void;
+  /** Whether the picker is disabled */
+  disabled?: boolean;
+  /** Custom className for styling */
+  className?: string;
+}
+
+/**
+ * SummarySourcePicker - Optional full-text upload for grounded summaries
+ *
+ * Features:
+ * - Accepts a public-domain EPUB or plain-text file
+ * - Shows the chosen file name with a clear button
+ * - Without a file, summaries fall back to the book's catalogue metadata
+ */
+export function SummarySourcePicker({
+  file,
+  onFileChange,
+  disabled = false,
+  className,
+}: SummarySourcePickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    onFileChange(event.target.files?.[0] ?? undefined);
+    // Allow picking the same file again after clearing
+    event.target.value = "";
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_SOURCE_TYPES}
+        className="hidden"
+        onChange={handleChange}
+        aria-label="Full-text source file"
+      />
+
+      {file ? (
+        <div className="flex items-center gap-2 rounded-md border border-dashed px-3 py-2 text-sm">
+          <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className="flex-1 truncate" title={file.name}>
+            {file.name}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => onFileChange(undefined)}
+            disabled={disabled}
+            aria-label="Remove source file"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Use full text (EPUB/TXT)
+        </Button>
+      )}
+    </div>
+  );
+}
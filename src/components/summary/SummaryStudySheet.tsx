@@ -0,0 +1,288 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { SignInButton } from "@clerk/nextjs";
+import { Check, GraduationCap, Layers, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { ErrorCategory, standardizeError } from "@/lib/standardizedError";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { useStudySet } from "@/hooks/useStudySet";
+import type { Summary } from "@/types/summary";
+
+interface SummaryStudySheetProps {
+  /** Whether the sheet is open */
+  open: boolean;
+  /** Callback when the sheet opens or closes */
+  onOpenChange: (open: boolean) => void;
+  /** Summary being read */
+  summary: Summary;
+}
+
+/**
+ * SummaryStudySheet - Flashcards and a quiz for the summary being read
+ *
+ * Features:
+ * - Creates the reader's study set for the summary on request
+ * - Flashcard and due counts, linking to the review queue
+ * - Multiple-choice quiz with explanations, scored and remembered
+ * - Questions link back to the section they were drawn from
+ */
+export function SummaryStudySheet({
+  open,
+  onOpenChange,
+  summary,
+}: SummaryStudySheetProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [answers, setAnswers] = useState<Array<number | undefined>>([]);
+  const [score, setScore] = useState<{ correct: number; total: number }>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { studySet, createStudySet, submitQuiz, isAuthenticated } = useStudySet(
+    summary.id
+  );
+
+  const isGenerating =
+    studySet?.status === "pending" || studySet?.status === "generating";
+  const quiz = studySet?.status === "completed" ? studySet.quiz : [];
+  const allAnswered =
+    quiz.length > 0 && quiz.every((_, index) => answers[index] !== undefined);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await createStudySet();
+    } catch (error) {
+      const standardized = standardizeError(error);
+      toast.error(
+        standardized.category === ErrorCategory.QUOTA
+          ? standardized.userMessage
+          : "Failed to create flashcards. Please try again."
+      );
+      console.error("Error creating study set:", error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      setScore(await submitQuiz(answers.map((answer) => answer ?? -1)));
+    } catch (error) {
+      toast.error("Failed to submit your answers. Please try again.");
+      console.error("Error submitting quiz:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRetake = () => {
+    setAnswers([]);
+    setScore(undefined);
+  };
+
+  const handleSection = (sectionId: string) => {
+    document
+      .getElementById(sectionId)
+      ?.scrollIntoView({ behavior: "smooth", block: "start" });
+    onOpenChange(false);
+  };
+
+  const renderBody = () => {
+    if (!isAuthenticated) {
+      return (
+        <div className="flex flex-1 flex-col items-center justify-center gap-4 px-4 text-center">
+          <p className="text-sm text-muted-foreground">
+            Sign in to study this summary with flashcards and a quiz.
+          </p>
+          <SignInButton mode="modal">
+            <Button>Sign In</Button>
+          </SignInButton>
+        </div>
+      );
+    }
+
+    if (studySet === undefined) {
+      return (
+        <div className="flex flex-1 items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    if (!studySet || studySet.status === "failed") {
+      return (
+        <div className="flex flex-1 flex-col items-center justify-center gap-4 px-4 text-center">
+          <GraduationCap className="h-10 w-10 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            {studySet
+              ? "We couldn't create study material for this summary."
+              : "Turn this summary into flashcards for spaced review and a short quiz."}
+          </p>
+          <Button onClick={handleCreate} disabled={isCreating}>
+            {isCreating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {studySet ? "Try Again" : "Create Flashcards & Quiz"}
+          </Button>
+        </div>
+      );
+    }
+
+    if (isGenerating) {
+      return (
+        <div className="flex flex-1 items-center justify-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Writing flashcards and questions...
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex-1 space-y-6 overflow-y-auto px-4 py-4">
+        {/* Flashcards */}
+        <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+          <div className="flex items-center gap-3">
+            <Layers className="h-5 w-5 text-primary" />
+            <div>
+              <p className="font-medium">
+                {studySet.flashcardCount} flashcards
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {studySet.dueCount > 0
+                  ? `${studySet.dueCount} due for review`
+                  : "All caught up"}
+              </p>
+            </div>
+          </div>
+          <Button asChild size="sm" variant="outline">
+            <Link href="/review">Review</Link>
+          </Button>
+        </div>
+
+        {/* Quiz */}
+        {quiz.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex items-baseline justify-between gap-2">
+              <h3 className="font-semibold">Quiz</h3>
+              {studySet.lastQuizScore && !score && (
+                <span className="text-sm text-muted-foreground">
+                  Last score: {studySet.lastQuizScore.correct}/
+                  {studySet.lastQuizScore.total}
+                </span>
+              )}
+            </div>
+
+            {quiz.map((question, questionIndex) => (
+              <fieldset key={questionIndex} className="space-y-2">
+                <legend className="text-sm font-medium">
+                  {questionIndex + 1}. {question.question}
+                </legend>
+                {question.options.map((option, optionIndex) => {
+                  const isChosen = answers[questionIndex] === optionIndex;
+                  const isCorrect = question.correctIndex === optionIndex;
+
+                  return (
+                    <button
+                      key={optionIndex}
+                      type="button"
+                      disabled={!!score}
+                      onClick={() =>
+                        setAnswers((current) => {
+                          const next = [...current];
+                          next[questionIndex] = optionIndex;
+                          return next;
+                        })
+                      }
+                      aria-pressed={isChosen}
+                      className={cn(
+                        "flex w-full items-center justify-between gap-2 rounded-md border px-3 py-2 text-left text-sm transition-colors",
+                        !score && isChosen && "border-primary bg-primary/5",
+                        !score && !isChosen && "hover:bg-accent",
+                        score &&
+                          isCorrect &&
+                          "border-green-600 bg-green-600/10",
+                        score &&
+                          isChosen &&
+                          !isCorrect &&
+                          "border-destructive bg-destructive/10"
+                      )}
+                    >
+                      {option}
+                      {score && isCorrect && (
+                        <Check className="h-4 w-4 shrink-0 text-green-600" />
+                      )}
+                      {score && isChosen && !isCorrect && (
+                        <X className="h-4 w-4 shrink-0 text-destructive" />
+                      )}
+                    </button>
+                  );
+                })}
+                {score && (question.explanation || question.sectionId) && (
+                  <p className="text-sm text-muted-foreground">
+                    {question.explanation}{" "}
+                    {question.sectionId && (
+                      <button
+                        type="button"
+                        onClick={() => handleSection(question.sectionId!)}
+                        className="underline hover:text-foreground"
+                      >
+                        Read the section
+                      </button>
+                    )}
+                  </p>
+                )}
+              </fieldset>
+            ))}
+
+            {score ? (
+              <div className="flex items-center justify-between gap-4 rounded-lg bg-muted p-4">
+                <p className="font-medium">
+                  You got {score.correct} of {score.total} right
+                </p>
+                <Button size="sm" variant="outline" onClick={handleRetake}>
+                  Retake
+                </Button>
+              </div>
+            ) : (
+              <Button
+                className="w-full"
+                onClick={handleSubmit}
+                disabled={!allAnswered || isSubmitting}
+              >
+                {isSubmitting && (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                )}
+                Check Answers
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-[90vw] sm:w-[85vw] md:max-w-lg flex flex-col gap-0"
+      >
+        <SheetHeader>
+          <SheetTitle>Study {summary.bookTitle}</SheetTitle>
+          <SheetDescription>
+            Flashcards and a quiz drawn from this summary.
+          </SheetDescription>
+        </SheetHeader>
+        {renderBody()}
+      </SheetContent>
+    </Sheet>
+  );
+}
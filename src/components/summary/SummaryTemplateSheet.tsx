@@ -0,0 +1,262 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import type { SummaryTemplate, SummaryType } from "@/types/summary";
+import type { SummaryTemplateInput } from "@/hooks/useSummaryTemplates";
+
+interface SummaryTemplateSheetProps {
+  /** Whether the sheet is open */
+  open: boolean;
+  /** Callback when the sheet opens or closes */
+  onOpenChange: (open: boolean) => void;
+  /** The user's custom templates */
+  templates: SummaryTemplate[];
+  /** Create a template; resolves with its summary type key */
+  onCreate: (input: SummaryTemplateInput) => Promise<SummaryType>;
+  /** Delete a template by summary type key */
+  onDelete: (summaryType: SummaryType) => Promise<void>;
+  /** Called with the new key after a template is created */
+  onCreated?: (summaryType: SummaryType) => void;
+  /** Whether the user can manage templates (signed in) */
+  canEdit: boolean;
+}
+
+const EMPTY_FORM = {
+  title: "",
+  description: "",
+  instructions: "",
+  headings: "",
+  minWords: "300",
+  maxWords: "600",
+};
+
+const textareaClassName =
+  "placeholder:text-muted-foreground border-input flex min-h-24 w-full rounded-md border bg-transparent px-3 py-2 text-base outline-none transition-[color,box-shadow] focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:opacity-50 md:text-sm";
+
+/**
+ * SummaryTemplateSheet - Create and delete custom summary types
+ *
+ * Features:
+ * - Lists the user's templates with delete buttons
+ * - Form for title, description, instructions, headings and target length
+ * - Newly created templates are selected via onCreated
+ * - Signed-out users see a prompt to sign in instead of the form
+ */
+export function SummaryTemplateSheet({
+  open,
+  onOpenChange,
+  templates,
+  onCreate,
+  onDelete,
+  onCreated,
+  canEdit,
+}: SummaryTemplateSheetProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update =
+    (field: keyof typeof EMPTY_FORM) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      setForm((current) => ({ ...current, [field]: event.target.value }));
+    };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      const key = await onCreate({
+        title: form.title,
+        description: form.description,
+        instructions: form.instructions,
+        headings: form.headings.split("\n"),
+        targetWords: {
+          min: Number(form.minWords),
+          max: Number(form.maxWords),
+        },
+      });
+      setForm(EMPTY_FORM);
+      toast.success("Template created");
+      onCreated?.(key);
+    } catch (error) {
+      console.error("Failed to create template:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to create template"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: SummaryTemplate) => {
+    try {
+      await onDelete(template.key);
+      toast.success(`Deleted "${template.title}"`);
+    } catch (error) {
+      console.error("Failed to delete template:", error);
+      toast.error("Failed to delete template");
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-[90vw] sm:w-[85vw] md:max-w-lg overflow-y-auto"
+      >
+        <SheetHeader>
+          <SheetTitle>Custom summary templates</SheetTitle>
+          <SheetDescription>
+            Define your own summary types, e.g. a study guide with quiz
+            questions or a summary for a 12-year-old.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 px-4 pb-6">
+          {templates.length > 0 && (
+            <ul className="space-y-2">
+              {templates.map((template) => (
+                <li
+                  key={template.key}
+                  className="flex items-start gap-3 rounded-lg border p-3"
+                >
+                  <span aria-hidden>{template.icon}</span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium truncate">
+                      {template.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {template.targetWords.min}-{template.targetWords.max}{" "}
+                      words
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => handleDelete(template)}
+                      aria-label={`Delete ${template.title}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {canEdit ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-title">Name</Label>
+                <Input
+                  id="template-title"
+                  value={form.title}
+                  onChange={update("title")}
+                  placeholder="Study guide"
+                  maxLength={80}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-description">Description</Label>
+                <Input
+                  id="template-description"
+                  value={form.description}
+                  onChange={update("description")}
+                  placeholder="Key concepts with quiz questions"
+                  maxLength={200}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-instructions">Instructions</Label>
+                <textarea
+                  id="template-instructions"
+                  value={form.instructions}
+                  onChange={update("instructions")}
+                  placeholder={
+                    "- Explain the key concepts simply\n- End with 5 quiz questions and answers"
+                  }
+                  className={textareaClassName}
+                  maxLength={4000}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-headings">
+                  Headings{" "}
+                  <span className="text-muted-foreground font-normal">
+                    (one per line, optional)
+                  </span>
+                </Label>
+                <textarea
+                  id="template-headings"
+                  value={form.headings}
+                  onChange={update("headings")}
+                  placeholder={"Key concepts\nQuiz"}
+                  className={cn(textareaClassName, "min-h-16")}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="template-min-words">Min words</Label>
+                  <Input
+                    id="template-min-words"
+                    type="number"
+                    min={50}
+                    max={3000}
+                    value={form.minWords}
+                    onChange={update("minWords")}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-max-words">Max words</Label>
+                  <Input
+                    id="template-max-words"
+                    type="number"
+                    min={50}
+                    max={3000}
+                    value={form.maxWords}
+                    onChange={update("maxWords")}
+                    required
+                  />
+                </div>
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isSaving}>
+                {isSaving ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                Create template
+              </Button>
+            </form>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Sign in to create your own summary templates.
+            </p>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,12 +1,27 @@
 "use client";
 
 import React from "react";
-import { ChevronDown, Clock, Brain, Target, Lightbulb } from "lucide-react";
+import {
+  ChevronDown,
+  Clock,
+  Brain,
+  Target,
+  Lightbulb,
+  PenLine,
+  Settings2,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import type { SummaryQuota } from "@/hooks/useSummaryQuota";
+import type {
+  BuiltInSummaryType,
+  SummaryTemplate,
+  SummaryType,
+} from "@/types/summary";
 import {
   DropdownMenu,
   DropdownMenuContent,
+  DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuRadioGroup,
   DropdownMenuRadioItem,
@@ -14,10 +29,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-/**
- * Summary types available for generation
- */
-export type SummaryType = "concise" | "detailed" | "analysis" | "practical";
+export type { SummaryType } from "@/types/summary";
 
 interface SummaryTypeOption {
   /** Unique identifier */
@@ -35,9 +47,9 @@ interface SummaryTypeOption {
 }
 
 /**
- * Configuration for each summary type
+ * Configuration for each built-in summary type
  */
-const SUMMARY_TYPES: SummaryTypeOption[] = [
+const SUMMARY_TYPES: (SummaryTypeOption & { value: BuiltInSummaryType })[] = [
   {
     value: "concise",
     label: "Concise",
@@ -85,18 +97,54 @@ interface SummaryTypeSelectorProps {
   className?: string;
   /** Compact variant for smaller spaces */
   variant?: "default" | "compact";
+  /** User-defined templates offered after the built-in types */
+  customTemplates?: SummaryTemplate[];
+  /** Opens template management; the menu entry is hidden without it */
+  onManageTemplates?: () => void;
+  /** Caller's generation quota; the remaining-quota indicator is hidden without it */
+  quota?: SummaryQuota;
+}
+
+/**
+ * Selector option for a user-defined template
+ */
+function toTemplateOption(template: SummaryTemplate): SummaryTypeOption {
+  return {
+    value: template.key,
+    label: template.title,
+    description: template.description,
+    readingTime: template.readTime.replace("minutes", "min"),
+    icon: PenLine,
+  };
+}
+
+/**
+ * The quota period that runs out first, for the remaining-quota indicator
+ */
+function getBindingQuota(quota: SummaryQuota) {
+  const period =
+    quota.month.generations.remaining < quota.day.generations.remaining
+      ? "month"
+      : "day";
+  const { remaining, limit } = quota[period].generations;
+  return {
+    remaining,
+    limit,
+    periodLabel: period === "day" ? "today" : "this month",
+  };
 }
 
 /**
  * SummaryTypeSelector - Dropdown component for selecting summary type
  *
  * Features:
- * - Four predefined summary types with descriptions
+ * - Four built-in summary types plus the user's custom templates
  * - Icons and reading time estimates
  * - Keyboard navigation support
  * - Accessible with proper ARIA labels
  * - Loading and disabled states
  * - Compact variant for smaller layouts
+ * - Remaining generation quota, with a notice once it is used up
  */
 export function SummaryTypeSelector({
   value,
@@ -105,11 +153,25 @@ export function SummaryTypeSelector({
   loading = false,
   className,
   variant = "default",
+  customTemplates = [],
+  onManageTemplates,
+  quota,
 }: SummaryTypeSelectorProps) {
+  const options: SummaryTypeOption[] = [
+    ...SUMMARY_TYPES,
+    ...customTemplates
+      .filter((template) => !template.builtIn)
+      .map(toTemplateOption),
+  ];
+
   // Find the currently selected option
   const selectedOption =
-    SUMMARY_TYPES.find((option) => option.value === value) || SUMMARY_TYPES[0];
+    options.find((option) => option.value === value) || SUMMARY_TYPES[0];
   const SelectedIcon = selectedOption.icon;
+  const bindingQuota = quota ? getBindingQuota(quota) : undefined;
+  const quotaDescription =
+    bindingQuota &&
+    `${bindingQuota.remaining} of ${bindingQuota.limit} summaries left ${bindingQuota.periodLabel}`;
 
   return (
     <DropdownMenu>
@@ -148,6 +210,19 @@ export function SummaryTypeSelector({
               )}
             </div>
           </div>
+          {bindingQuota && (
+            <span
+              className={cn(
+                "shrink-0 text-xs tabular-nums",
+                bindingQuota.remaining === 0
+                  ? "text-destructive"
+                  : "text-muted-foreground"
+              )}
+              title={quotaDescription}
+            >
+              {bindingQuota.remaining} left
+            </span>
+          )}
           <ChevronDown
             className={cn(
               "shrink-0 text-muted-foreground",
@@ -163,28 +238,28 @@ export function SummaryTypeSelector({
         side="bottom"
         sideOffset={4}
       >
-        <DropdownMenuLabel className="px-4 py-3 text-sm font-semibold">
+        <DropdownMenuLabel className="flex items-center justify-between gap-2 px-4 py-3 text-sm font-semibold">
           Choose Summary Type
+          {quotaDescription && (
+            <span className="text-xs font-normal text-muted-foreground">
+              {quotaDescription}
+            </span>
+          )}
         </DropdownMenuLabel>
         <DropdownMenuSeparator />
 
         <DropdownMenuRadioGroup
           value={value}
           onValueChange={(newValue) => {
-            if (
-              onValueChange &&
-              (newValue === "concise" ||
-                newValue === "detailed" ||
-                newValue === "analysis" ||
-                newValue === "practical")
-            ) {
-              onValueChange(newValue as SummaryType);
+            const option = options.find((item) => item.value === newValue);
+            if (onValueChange && option) {
+              onValueChange(option.value);
               localStorage.setItem("currentSummaryType", newValue);
             }
           }}
           className="p-2 space-y-1"
         >
-          {SUMMARY_TYPES.map((option) => {
+          {options.map((option) => {
             const Icon = option.icon;
             const isSelected = value === option.value;
 
@@ -227,9 +302,11 @@ export function SummaryTypeSelector({
                       {option.description}
                     </p>
 
-                    <p className="text-xs text-muted-foreground/80 italic leading-relaxed">
-                      {option.example}
-                    </p>
+                    {option.example && (
+                      <p className="text-xs text-muted-foreground/80 italic leading-relaxed">
+                        {option.example}
+                      </p>
+                    )}
                   </div>
                 </div>
               </DropdownMenuRadioItem>
@@ -237,6 +314,33 @@ export function SummaryTypeSelector({
           })}
         </DropdownMenuRadioGroup>
 
+        {onManageTemplates && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onSelect={onManageTemplates}
+              disabled={disabled || loading}
+              className="mx-2 mb-2 p-3 rounded-lg cursor-pointer text-sm"
+            >
+              <Settings2 className="h-4 w-4 text-muted-foreground" />
+              Custom templates…
+            </DropdownMenuItem>
+          </>
+        )}
+
+        {bindingQuota?.remaining === 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <div className="px-4 py-3 text-xs text-muted-foreground">
+              You&apos;ve reached your summary limit for{" "}
+              {bindingQuota.periodLabel}.{" "}
+              {quota?.tier === "anonymous"
+                ? "Sign in for a higher limit."
+                : "Existing summaries are still available to read."}
+            </div>
+          </>
+        )}
+
         {loading && (
           <>
             <DropdownMenuSeparator />
@@ -0,0 +1,81 @@
+/**
+ * Test suite for SummaryResumePrompt component
+ *
+ * Tests when resuming is offered, and the prompt's actions
+ */
+
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { SummaryResumePrompt, shouldOfferResume } from "../SummaryResumePrompt";
+import {
+  READ_COMPLETE_PROGRESS,
+  RESUME_MIN_PROGRESS,
+  type ReadingPosition,
+} from "../../../types/reading";
+
+const position = (progress: number): ReadingPosition => ({
+  summaryId: "summary-123",
+  progress,
+  sectionId: "key-ideas",
+  updatedAt: Date.now(),
+});
+
+describe("shouldOfferResume", () => {
+  it("offers to resume partway through a summary", () => {
+    expect(shouldOfferResume(position(RESUME_MIN_PROGRESS))).toBe(true);
+    expect(shouldOfferResume(position(50))).toBe(true);
+    expect(shouldOfferResume(position(READ_COMPLETE_PROGRESS - 1))).toBe(true);
+  });
+
+  it("doesn't offer without a saved position", () => {
+    expect(shouldOfferResume(null)).toBe(false);
+    expect(shouldOfferResume(undefined)).toBe(false);
+  });
+
+  it("doesn't offer when the reader barely started", () => {
+    expect(shouldOfferResume(position(0))).toBe(false);
+    expect(shouldOfferResume(position(RESUME_MIN_PROGRESS - 1))).toBe(false);
+  });
+
+  it("doesn't offer once the summary was read to the end", () => {
+    expect(shouldOfferResume(position(READ_COMPLETE_PROGRESS))).toBe(false);
+    expect(shouldOfferResume(position(100))).toBe(false);
+  });
+});
+
+describe("SummaryResumePrompt", () => {
+  it("shows how far the reader got and in which section", () => {
+    render(
+      <SummaryResumePrompt
+        position={position(42)}
+        sectionHeading="Key Ideas"
+        onResume={vi.fn()}
+        onDismiss={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText("Continue where you left off")).toBeTruthy();
+    expect(screen.getByText(/42% read/).textContent).toContain("Key Ideas");
+  });
+
+  it("resumes or dismisses from its buttons", () => {
+    const onResume = vi.fn();
+    const onDismiss = vi.fn();
+    render(
+      <SummaryResumePrompt
+        position={position(42)}
+        onResume={onResume}
+        onDismiss={onDismiss}
+      />
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Continue Reading" }));
+    expect(onResume).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: "Start from the beginning" })
+    );
+    expect(onDismiss).toHaveBeenCalledTimes(1);
+  });
+});
@@ -53,6 +53,9 @@ vi.mock("../../services/summaryService", () => ({
 // Mock Convex React
 vi.mock("convex/react", () => ({
   useConvex: () => mockConvex,
+  // Job subscription (background generation is not used here)
+  useQuery: () => undefined,
+  useMutation: () => vi.fn(),
 }));
 
 // Mock analytics service
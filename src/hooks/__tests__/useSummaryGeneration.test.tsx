@@ -32,6 +32,9 @@ vi.mock("convex/react", () => {
         },
       }),
     }),
+    // Job subscription (background generation is not used here)
+    useQuery: () => undefined,
+    useMutation: () => vi.fn(),
   };
 });
 
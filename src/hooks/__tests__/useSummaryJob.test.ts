@@ -0,0 +1,77 @@
+import { renderHook } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useSummaryJob } from "../useSummaryJob";
+import type { Book } from "../../types/book";
+import { meditations } from "../../test/fixtures/books";
+
+// Mock Convex
+vi.mock("convex/react", () => ({
+  useQuery: vi.fn(),
+  useMutation: vi.fn(),
+}));
+
+// Import mocked modules
+import { useQuery, useMutation } from "convex/react";
+
+describe("useSummaryJob", () => {
+  // Fields the job doesn't store, to check they are left out
+  const mockBook: Book = {
+    ...meditations,
+    thumbnail: "https://example.com/cover.jpg",
+    averageRating: 4.5,
+  };
+
+  const mockEnqueueMutation = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useMutation).mockReturnValue(
+      mockEnqueueMutation as unknown as ReturnType<typeof useMutation>
+    );
+  });
+
+  it("should skip the subscription when disabled", () => {
+    const mockQueryFn = vi.fn();
+    vi.mocked(useQuery).mockImplementation(mockQueryFn);
+
+    const { result } = renderHook(() =>
+      useSummaryJob(mockBook.id, "concise", false)
+    );
+
+    expect(mockQueryFn).toHaveBeenCalledWith(expect.anything(), "skip");
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it("should report queued and running jobs as active", () => {
+    vi.mocked(useQuery).mockReturnValue({ status: "running" });
+    const { result, rerender } = renderHook(() =>
+      useSummaryJob(mockBook.id, "concise")
+    );
+    expect(result.current.isActive).toBe(true);
+
+    vi.mocked(useQuery).mockReturnValue({ status: "completed" });
+    rerender();
+    expect(result.current.isActive).toBe(false);
+  });
+
+  it("should enqueue only the book fields the job stores", async () => {
+    vi.mocked(useQuery).mockReturnValue(null);
+    mockEnqueueMutation.mockResolvedValue("job_123");
+
+    const { result } = renderHook(() => useSummaryJob(mockBook.id, "concise"));
+    const jobId = await result.current.enqueue({
+      book: mockBook,
+      summaryType: "concise",
+    });
+
+    expect(jobId).toBe("job_123");
+    const { book } = mockEnqueueMutation.mock.calls[0][0];
+    expect(book).toMatchObject({
+      id: mockBook.id,
+      title: mockBook.title,
+      originalId: mockBook.originalId,
+    });
+    expect(book).not.toHaveProperty("thumbnail");
+    expect(book).not.toHaveProperty("averageRating");
+  });
+});
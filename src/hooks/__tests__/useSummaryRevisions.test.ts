@@ -0,0 +1,89 @@
+import { renderHook } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useSummaryRevisions } from "../useSummaryRevisions";
+
+// Mock Convex and Clerk
+vi.mock("convex/react", () => ({
+  useQuery: vi.fn(),
+  useMutation: vi.fn(),
+}));
+
+vi.mock("@clerk/nextjs", () => ({
+  useUser: vi.fn(),
+}));
+
+// Import mocked modules
+import { useQuery, useMutation } from "convex/react";
+import { useUser } from "@clerk/nextjs";
+
+describe("useSummaryRevisions", () => {
+  const mockMutation = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useMutation).mockReturnValue(
+      mockMutation as unknown as ReturnType<typeof useMutation>
+    );
+    vi.mocked(useUser).mockReturnValue({
+      user: { id: "user_123" },
+    } as ReturnType<typeof useUser>);
+  });
+
+  it("should skip the subscriptions without a summary", () => {
+    const mockQueryFn = vi.fn();
+    vi.mocked(useQuery).mockImplementation(mockQueryFn);
+
+    const { result } = renderHook(() => useSummaryRevisions(undefined));
+
+    expect(mockQueryFn).toHaveBeenCalledWith(expect.anything(), "skip");
+    expect(result.current.revisions).toEqual([]);
+    expect(result.current.latestRevision).toBeUndefined();
+  });
+
+  it("should expose the newest revision and the pinned revision", () => {
+    vi.mocked(useQuery)
+      .mockReturnValueOnce([{ revision: 3 }, { revision: 2 }])
+      .mockReturnValueOnce(2);
+
+    const { result } = renderHook(() => useSummaryRevisions("summary_1"));
+
+    expect(result.current.latestRevision).toBe(3);
+    expect(result.current.pinnedRevision).toBe(2);
+  });
+
+  it("should pin for the signed-in user, or unpin with no revision", async () => {
+    vi.mocked(useQuery).mockReturnValue(undefined);
+    mockMutation.mockResolvedValue(null);
+
+    const { result } = renderHook(() => useSummaryRevisions("summary_1"));
+    await result.current.pinRevision(2);
+    await result.current.pinRevision();
+
+    expect(mockMutation).toHaveBeenNthCalledWith(1, {
+      userId: "user_123",
+      summaryId: "summary_1",
+      revision: 2,
+    });
+    expect(mockMutation).toHaveBeenNthCalledWith(2, {
+      userId: "user_123",
+      summaryId: "summary_1",
+      revision: undefined,
+    });
+  });
+
+  it("should require sign-in to regenerate", async () => {
+    vi.mocked(useQuery).mockReturnValue(undefined);
+    vi.mocked(useUser).mockReturnValue({
+      isLoaded: true,
+      isSignedIn: false,
+      user: null,
+    });
+
+    const { result } = renderHook(() => useSummaryRevisions("summary_1"));
+
+    await expect(result.current.regenerate()).rejects.toThrow(
+      "Must be authenticated to regenerate summaries"
+    );
+    expect(mockMutation).not.toHaveBeenCalled();
+  });
+});
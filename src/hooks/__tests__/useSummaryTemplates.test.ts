@@ -0,0 +1,110 @@
+import { renderHook } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { useSummaryTemplates } from "../useSummaryTemplates";
+
+// Mock Convex
+vi.mock("convex/react", () => ({
+  useQuery: vi.fn(),
+  useMutation: vi.fn(),
+}));
+
+// Mock Clerk
+vi.mock("@clerk/nextjs", () => ({
+  useUser: vi.fn(),
+}));
+
+// Import mocked modules
+import { useQuery, useMutation } from "convex/react";
+import { useUser } from "@clerk/nextjs";
+
+describe("useSummaryTemplates", () => {
+  const mockCreateMutation = vi.fn();
+
+  const studyGuide = {
+    key: "custom:tmpl_1",
+    title: "Study Guide",
+    description: "Key concepts with quiz questions",
+    readTime: "2-3 minutes read",
+    icon: "✏️",
+    instructions: "- End with 5 quiz questions",
+    headings: ["Key concepts", "Quiz"],
+    targetWords: { min: 300, max: 500 },
+    builtIn: false,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useMutation).mockReturnValue(
+      mockCreateMutation as unknown as ReturnType<typeof useMutation>
+    );
+    vi.mocked(useUser).mockReturnValue({
+      user: { id: "user_123" },
+    } as ReturnType<typeof useUser>);
+  });
+
+  it("should offer built-in templates while loading", () => {
+    vi.mocked(useQuery).mockReturnValue(undefined);
+
+    const { result } = renderHook(() => useSummaryTemplates());
+
+    expect(result.current.isLoading).toBe(true);
+    expect(result.current.templates.map((template) => template.key)).toEqual([
+      "concise",
+      "detailed",
+      "analysis",
+      "practical",
+    ]);
+    expect(result.current.getTemplate("concise")?.builtIn).toBe(true);
+    expect(result.current.customTemplates).toEqual([]);
+  });
+
+  it("should split out and resolve custom templates", () => {
+    vi.mocked(useQuery).mockReturnValue([studyGuide]);
+
+    const { result } = renderHook(() => useSummaryTemplates());
+
+    expect(result.current.customTemplates).toEqual([studyGuide]);
+    expect(result.current.getTemplate("custom:tmpl_1")).toBe(studyGuide);
+    expect(result.current.getTemplate("custom:deleted")).toBeUndefined();
+  });
+
+  it("should create templates for the signed-in user", async () => {
+    vi.mocked(useQuery).mockReturnValue([]);
+    mockCreateMutation.mockResolvedValue("custom:tmpl_2");
+
+    const { result } = renderHook(() => useSummaryTemplates());
+    const key = await result.current.createTemplate({
+      title: "For kids",
+      description: "",
+      instructions: "- Explain like I'm 12",
+      headings: [],
+      targetWords: { min: 200, max: 300 },
+    });
+
+    expect(key).toBe("custom:tmpl_2");
+    expect(mockCreateMutation).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user_123", title: "For kids" })
+    );
+  });
+
+  it("should require authentication to create templates", async () => {
+    vi.mocked(useQuery).mockReturnValue([]);
+    vi.mocked(useUser).mockReturnValue({
+      isLoaded: true,
+      isSignedIn: false,
+      user: null,
+    });
+
+    const { result } = renderHook(() => useSummaryTemplates());
+
+    await expect(
+      result.current.createTemplate({
+        title: "For kids",
+        description: "",
+        instructions: "- Explain like I'm 12",
+        headings: [],
+        targetWords: { min: 200, max: 300 },
+      })
+    ).rejects.toThrow("Must be authenticated to create templates");
+  });
+});
@@ -0,0 +1,91 @@
+import { useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback, useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { BookChatMessage, BookChatThread } from "../types/chat";
+
+/**
+ * Hook for chatting about a book
+ *
+ * Lists the signed-in user's threads for the book and subscribes to the
+ * selected one, so answers are pushed by Convex as they stream. Asking
+ * without a selected thread starts a new one and selects it.
+ *
+ * @param bookId - Book the chat is about
+ * @param enabled - Skip the subscriptions when false (e.g. panel closed)
+ * @returns Threads, the selected thread with its messages, and actions
+ */
+export function useBookChat(bookId: string, enabled = true) {
+  const { user } = useUser();
+  const [threadId, setThreadId] = useState<Id<"bookChatThreads">>();
+  const sendMutation = useMutation(api.bookChats.sendMessage);
+  const deleteMutation = useMutation(api.bookChats.deleteThread);
+
+  const threads = useQuery(
+    api.bookChats.listThreads,
+    user && enabled ? { userId: user.id, bookId } : "skip"
+  ) as BookChatThread[] | undefined;
+
+  const thread = useQuery(
+    api.bookChats.getThread,
+    user && enabled && threadId ? { userId: user.id, threadId } : "skip"
+  ) as (BookChatThread & { messages: BookChatMessage[] }) | null | undefined;
+
+  const messages = thread?.messages ?? [];
+  const lastMessage = messages[messages.length - 1];
+
+  /**
+   * Ask a question in the selected thread (or a new one)
+   *
+   * Answers are charged to the user's spend budget; the mutation throws
+   * "Quota exceeded: ..." when it is used up.
+   *
+   * @throws Error if the user is not signed in
+   */
+  const ask = useCallback(
+    async (question: string, language?: string) => {
+      if (!user) {
+        throw new Error("Must be authenticated to ask about books");
+      }
+
+      const result = await sendMutation({
+        userId: user.id,
+        bookId,
+        threadId,
+        question,
+        language,
+      });
+      setThreadId(result.threadId);
+      return result;
+    },
+    [user, bookId, threadId, sendMutation]
+  );
+
+  /**
+   * Delete a thread, deselecting it if selected
+   */
+  const deleteThread = useCallback(
+    async (id: Id<"bookChatThreads">) => {
+      if (!user) return;
+      await deleteMutation({ userId: user.id, threadId: id });
+      setThreadId((current) => (current === id ? undefined : current));
+    },
+    [user, deleteMutation]
+  );
+
+  return {
+    threads: threads ?? [],
+    thread: thread ?? undefined,
+    messages,
+    threadId,
+    selectThread: setThreadId,
+    startNewThread: useCallback(() => setThreadId(undefined), []),
+    ask,
+    deleteThread,
+    isAnswering:
+      lastMessage?.status === "pending" || lastMessage?.status === "streaming",
+    isAuthenticated: !!user,
+    isLoading: enabled && !!user && threads === undefined,
+  };
+}
@@ -0,0 +1,130 @@
+import { useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { BookComparison, BookComparisonBook } from "../types/comparison";
+
+/**
+ * A book the user can pick for a comparison
+ */
+export interface ComparableBook extends BookComparisonBook {
+  /** In the user's favorites */
+  favorite: boolean;
+  /** Read list status, if on the read list */
+  readingStatus?: "want-to-read" | "reading" | "completed";
+}
+
+/**
+ * Hook for a single comparison
+ *
+ * Subscribes to the comparison, so its content streams in while it is
+ * written, and manages whether the signed-in user has saved it.
+ *
+ * @param comparisonId - Comparison ID from the URL
+ * @returns The comparison (null if not found) and save state
+ */
+export function useBookComparison(comparisonId: string) {
+  const { user } = useUser();
+  const saveMutation = useMutation(api.bookComparisons.saveComparison);
+  const removeMutation = useMutation(api.bookComparisons.removeSavedComparison);
+
+  const comparison = useQuery(api.bookComparisons.getComparison, {
+    comparisonId,
+  }) as BookComparison | null | undefined;
+
+  const convexComparisonId = comparison?.id as
+    | Id<"bookComparisons">
+    | undefined;
+  const isSaved = useQuery(
+    api.bookComparisons.isComparisonSaved,
+    user && convexComparisonId
+      ? { userId: user.id, comparisonId: convexComparisonId }
+      : "skip"
+  );
+
+  /**
+   * Toggle save state for the comparison
+   *
+   * @throws Error if the user is not signed in or it isn't finished
+   */
+  const toggleSave = useCallback(async () => {
+    if (!user) {
+      throw new Error("Must be authenticated to save comparisons");
+    }
+    if (!convexComparisonId) {
+      throw new Error("Comparison ID is required");
+    }
+
+    if (isSaved) {
+      await removeMutation({
+        userId: user.id,
+        comparisonId: convexComparisonId,
+      });
+    } else {
+      await saveMutation({
+        userId: user.id,
+        comparisonId: convexComparisonId,
+      });
+    }
+  }, [user, convexComparisonId, isSaved, saveMutation, removeMutation]);
+
+  return {
+    comparison,
+    isSaved: isSaved ?? false,
+    toggleSave,
+    isAuthenticated: !!user,
+    isLoading: comparison === undefined,
+  };
+}
+
+/**
+ * Hook for starting comparisons
+ *
+ * Lists the books the signed-in user can compare (favorites and read
+ * list) and the comparisons they have made.
+ *
+ * @returns Comparable books, past comparisons and a create function
+ */
+export function useCompareBooks() {
+  const { user } = useUser();
+  const createMutation = useMutation(api.bookComparisons.createComparison);
+
+  const books = useQuery(
+    api.bookComparisons.getComparableBooks,
+    user ? { userId: user.id } : "skip"
+  ) as ComparableBook[] | undefined;
+
+  const comparisons = useQuery(
+    api.bookComparisons.listComparisons,
+    user ? { userId: user.id } : "skip"
+  ) as BookComparison[] | undefined;
+
+  /**
+   * Start a comparison of the given books
+   *
+   * Counts as one summary generation; the mutation throws
+   * "Quota exceeded: ..." when the user's quota is used up.
+   *
+   * @returns The new comparison's ID
+   * @throws Error if the user is not signed in
+   */
+  const createComparison = useCallback(
+    async (bookIds: string[], language?: string) => {
+      if (!user) {
+        throw new Error("Must be authenticated to compare books");
+      }
+
+      return await createMutation({ userId: user.id, bookIds, language });
+    },
+    [user, createMutation]
+  );
+
+  return {
+    books: books ?? [],
+    comparisons: comparisons ?? [],
+    createComparison,
+    isAuthenticated: !!user,
+    isLoading: !!user && (books === undefined || comparisons === undefined),
+  };
+}
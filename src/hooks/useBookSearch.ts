@@ -2,9 +2,15 @@ import { useQuery } from "@tanstack/react-query";
 import { useMemo } from "react";
 import { useConvex } from "convex/react";
 
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
 import { createUnifiedSearchService } from "../services/search/searchService";
 import { createSearchAnalyticsService } from "../lib/analytics/searchTracking";
+import { convexBookToBook } from "../lib/convexBookHelpers";
+import { getAnonymousId } from "../lib/anonymousId";
+import { ErrorCategory, standardizeError } from "../lib/standardizedError";
 import type { SearchParams, SearchResults } from "../types/book";
+import type { DiscoveryResults, SearchMode } from "../types/discovery";
 
 /**
  * Custom hook for book search using React Query
@@ -18,16 +24,29 @@ import type { SearchParams, SearchResults } from "../types/book";
  * - Loading and error state management
  * - Deduplication of identical requests
  * - Optimistic updates support
+ *
+ * In prompt mode the query is a natural-language description, answered by
+ * the discovery action with ranked books and a rationale for each.
+ *
+ * Keyword searches try our own books and summaries first; the "library"
+ * scope searches only the signed-in user's favorites, read list and saved
+ * summaries.
  */
 
 interface UseBookSearchParams extends Partial<SearchParams> {
   /** Whether to enable the search query (default: true if query exists) */
   enabled?: boolean;
+  /** Keyword search or natural-language prompt (default: searchMode) */
+  mode?: SearchMode;
+  /** Whether to log the search to analytics (default: true) */
+  logAnalytics?: boolean;
+  /** Clerk user ID, whose library the "library" scope searches */
+  userId?: string;
 }
 
 interface UseBookSearchReturn {
-  /** Search results data */
-  data: SearchResults | undefined;
+  /** Search results data (with rationales in prompt mode) */
+  data: SearchResults | DiscoveryResults | undefined;
   /** Whether the initial request is loading */
   isLoading: boolean;
   /** Whether any request is currently fetching */
@@ -64,7 +83,34 @@ export function useBookSearch(
   const convex = useConvex();
 
   // Create search service and analytics service instances
-  const searchService = useMemo(() => createUnifiedSearchService(), []);
+  const userId = params.userId;
+  const searchService = useMemo(
+    () =>
+      createUnifiedSearchService({
+        localSearch: async (localParams) => {
+          const { books, hasMore } = await convex.query(
+            api.bookSearch.searchLocalBooks,
+            {
+              query: localParams.query,
+              searchIn: localParams.searchIn,
+              authorQuery: localParams.authorQuery,
+              language: localParams.language,
+              publishedAfter: localParams.publishedAfter,
+              publishedBefore: localParams.publishedBefore,
+              category: localParams.category,
+              maxResults: localParams.maxResults || 20,
+              startIndex: localParams.startIndex,
+              userId: localParams.scope === "library" ? userId : undefined,
+            }
+          );
+          return {
+            books: (books as Doc<"books">[]).map(convexBookToBook),
+            hasMore,
+          };
+        },
+      }),
+    [convex, userId]
+  );
   const analyticsService = useMemo(
     () => createSearchAnalyticsService(convex),
     [convex]
@@ -86,6 +132,13 @@ export function useBookSearch(
       normalized.publishedAfter = params.publishedAfter;
     if (params.publishedBefore)
       normalized.publishedBefore = params.publishedBefore;
+    if (params.scope) normalized.scope = params.scope;
+    if (params.category) normalized.category = params.category;
+    if (params.minRating) normalized.minRating = params.minRating;
+    if (params.hasCover) normalized.hasCover = params.hasCover;
+    if (params.hasDescription)
+      normalized.hasDescription = params.hasDescription;
+    if (params.sortBy) normalized.sortBy = params.sortBy;
 
     return normalized;
   }, [
@@ -97,10 +150,23 @@ export function useBookSearch(
     params.language,
     params.publishedAfter,
     params.publishedBefore,
+    params.scope,
+    params.category,
+    params.minRating,
+    params.hasCover,
+    params.hasDescription,
+    params.sortBy,
   ]);
 
+  const mode = params.mode ?? "searchMode";
+  // Lookups the user didn't type (e.g. "More by this author") aren't logged
+  const logAnalytics = params.logAnalytics ?? true;
+
   // Create cache key for React Query
-  const queryKey = useMemo(() => ["bookSearch", searchParams], [searchParams]);
+  const queryKey = useMemo(
+    () => createBookSearchCacheKey(searchParams, mode),
+    [searchParams, mode]
+  );
 
   // Determine if query should be enabled
   const isEnabled = useMemo(() => {
@@ -117,38 +183,70 @@ export function useBookSearch(
   // React Query for search
   const queryResult = useQuery({
     queryKey,
-    queryFn: async (): Promise<SearchResults> => {
+    queryFn: async (): Promise<SearchResults | DiscoveryResults> => {
       const timer = analyticsService.createSearchTimer();
       timer.start();
 
+      if (mode === "promptMode") {
+        let results: DiscoveryResults | undefined;
+        try {
+          results = (await convex.action(api.discovery.discoverBooks, {
+            prompt: searchParams.query,
+            anonymousId: getAnonymousId(),
+          })) as DiscoveryResults;
+          return results;
+        } catch (error) {
+          console.error("Error discovering books:", error);
+          const standardized = standardizeError(error);
+          if (standardized.category === ErrorCategory.QUOTA) {
+            throw new Error(standardized.userMessage);
+          }
+          throw new Error(
+            "Couldn't find books for that description. Please try again."
+          );
+        } finally {
+          // Log the prompt, successful or not (fire-and-forget)
+          analyticsService.logSearchQuery({
+            query: searchParams.query,
+            mode,
+            resultCount: results?.books.length ?? 0,
+            searchTime: timer.end(),
+            source: "ai",
+            cached: false,
+          });
+        }
+      }
+
       try {
         const results = await searchService.searchBooks(searchParams);
         const searchTime = timer.end();
 
         // Log successful search analytics (fire-and-forget)
-        analyticsService.logSearchQuery({
-          query: searchParams.query,
-          resultCount: results.books.length,
-          searchTime,
-          source: results.source as
-            | "google-books"
-            | "open-library"
-            | "combined", // Cast to match expected type
-          cached: false, // React Query handles caching, API calls are not cached at service level
-        });
+        if (logAnalytics) {
+          analyticsService.logSearchQuery({
+            query: searchParams.query,
+            resultCount: results.books.length,
+            searchTime,
+            // Our own books table is the search cache
+            source: results.source === "local" ? "cache" : results.source,
+            cached: false, // React Query handles caching, API calls are not cached at service level
+          });
+        }
 
         return results;
       } catch (error) {
         const searchTime = timer.end();
 
         // Log failed search analytics (fire-and-forget)
-        analyticsService.logSearchQuery({
-          query: searchParams.query,
-          resultCount: 0,
-          searchTime,
-          source: "google-books", // Default source for failed searches
-          cached: false,
-        });
+        if (logAnalytics) {
+          analyticsService.logSearchQuery({
+            query: searchParams.query,
+            resultCount: 0,
+            searchTime,
+            source: "google-books", // Default source for failed searches
+            cached: false,
+          });
+        }
 
         // Transform API errors into user-friendly messages
         if (error instanceof Error) {
@@ -175,6 +273,8 @@ export function useBookSearch(
     gcTime: 1000 * 60 * 5, // Keep in cache for 5 minutes
     // Retry configuration
     retry: (failureCount, error) => {
+      // Don't repeat model calls; the reader can resubmit the prompt
+      if (mode === "promptMode") return false;
       // Don't retry if service is not configured
       if (error.message.includes("not configured")) return false;
       // Don't retry rate limit errors
@@ -204,8 +304,11 @@ export function useBookSearch(
  * Create a cache key for book search
  * Used internally by the hook and can be used for cache invalidation
  */
-export function createBookSearchCacheKey(params: SearchParams): unknown[] {
-  return ["bookSearch", params];
+export function createBookSearchCacheKey(
+  params: SearchParams,
+  mode: SearchMode = "searchMode"
+): unknown[] {
+  return ["bookSearch", params, mode];
 }
 
 /**
@@ -0,0 +1,80 @@
+import { useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback, useEffect, useRef } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { ReadingPosition } from "../types/reading";
+
+/** Quiet period before a reported position is saved */
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * Hook for the signed-in user's position in a summary
+ *
+ * Provides functionality to:
+ * - Load where the user left off, on whichever device they read it
+ * - Report the position as they read; saves are batched, so scrolling
+ *   doesn't write on every frame, and the last one is flushed on leave
+ *
+ * @param summaryId - The summary being read
+ * @returns Object with the saved position and a report function
+ */
+export function useReadingPosition(summaryId: string) {
+  const { user, isLoaded } = useUser();
+  const saveMutation = useMutation(api.readingPositions.saveReadingPosition);
+
+  const convexSummaryId = summaryId as Id<"summaries">;
+  const position = useQuery(
+    api.readingPositions.getReadingPosition,
+    user ? { userId: user.id, summaryId: convexSummaryId } : "skip"
+  ) as ReadingPosition | null | undefined;
+
+  const pending = useRef<{ progress: number; sectionId?: string } | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flush = useCallback(() => {
+    if (timer.current) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+    if (!user || !pending.current) return;
+
+    const { progress, sectionId } = pending.current;
+    pending.current = null;
+    saveMutation({
+      userId: user.id,
+      summaryId: convexSummaryId,
+      progress,
+      sectionId,
+    }).catch((error) => console.error("Error saving reading position:", error));
+  }, [user, convexSummaryId, saveMutation]);
+
+  /**
+   * Report the reader's position; ignored when signed out
+   */
+  const reportPosition = useCallback(
+    (progress: number, sectionId?: string | null) => {
+      if (!user) return;
+
+      pending.current = { progress, sectionId: sectionId ?? undefined };
+      if (timer.current) clearTimeout(timer.current);
+      timer.current = setTimeout(flush, SAVE_DELAY_MS);
+    },
+    [user, flush]
+  );
+
+  // Save the last position when leaving the summary or the page
+  useEffect(() => {
+    window.addEventListener("pagehide", flush);
+    return () => {
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [flush]);
+
+  return {
+    position: position ?? null,
+    reportPosition,
+    isLoading: !isLoaded || (!!user && position === undefined),
+  };
+}
@@ -26,6 +26,8 @@ interface ReadingProgressResult {
   currentSection: string | null;
   /** Register a section element for progress tracking */
   registerSection: (element: HTMLElement | null, id: string) => void;
+  /** Make a registered section current and scroll it into view */
+  followSection: (id: string) => void;
 }
 
 /**
@@ -36,6 +38,7 @@ interface ReadingProgressResult {
  * - Uses intersection observer for accurate section tracking
  * - Detects when user is actively reading vs scrolling quickly
  * - Provides callbacks for registering content sections
+ * - Follows an external position (e.g. narration) by scrolling to sections
  * - Accounts for fixed header offsets (responsive mobile/desktop)
  * - Handles cleanup and performance optimization
  *
@@ -175,11 +178,26 @@ export function useReadingProgress({
     };
   }, [sections, threshold, rootMargin]);
 
+  // Follow a position driven from outside the scroll, e.g. the section
+  // being narrated. Scrolling brings the section into the observed band,
+  // so the observers agree once it settles
+  const followSection = useCallback(
+    (id: string) => {
+      const element = sections.get(id);
+      if (!element) return;
+
+      setCurrentSection(id);
+      element.scrollIntoView({ behavior: "smooth", block: "start" });
+    },
+    [sections]
+  );
+
   return {
     progress: Math.round(progress),
     isReading,
     currentSection,
     registerSection,
+    followSection,
   };
 }
 
@@ -0,0 +1,65 @@
+import { useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { useEffect, useMemo, useRef } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import { convexBookToBook } from "../lib/convexBookHelpers";
+import type { Recommendation } from "../types/recommendations";
+
+interface CachedRecommendations {
+  recommendations: Recommendation<Doc<"books">>[];
+  computedAt: number;
+  isStale: boolean;
+}
+
+/**
+ * Hook for the signed-in user's "Recommended for you" picks
+ *
+ * Provides functionality to:
+ * - Load books scored against the user's favorites, read list, saved
+ *   summaries and recent searches, each with the reason it was picked
+ * - Ask for a recompute once when nothing is cached or the cache is stale,
+ *   showing the stale picks meanwhile
+ * - Stay empty for signed-out users and users with nothing to go on
+ *
+ * @returns Object with the picks and loading state
+ */
+export function useRecommendations() {
+  const { user, isLoaded } = useUser();
+  const userId = user?.id;
+
+  const results = useQuery(
+    api.recommendations.getRecommendations,
+    userId ? { userId } : "skip"
+  ) as CachedRecommendations | null | undefined;
+  const refreshRecommendations = useMutation(
+    api.recommendations.refreshRecommendations
+  );
+
+  // One refresh per user; the query updates itself once it lands
+  const refreshedFor = useRef<string | null>(null);
+  const needsRefresh = results === null || !!results?.isStale;
+
+  useEffect(() => {
+    if (!userId || !needsRefresh || refreshedFor.current === userId) return;
+    refreshedFor.current = userId;
+    refreshRecommendations({ userId }).catch((error) => {
+      console.error("Error refreshing recommendations:", error);
+    });
+  }, [userId, needsRefresh, refreshRecommendations]);
+
+  const recommendations = useMemo<Recommendation[]>(
+    () =>
+      (results?.recommendations ?? []).map((recommendation) => ({
+        ...recommendation,
+        book: convexBookToBook(recommendation.book),
+      })),
+    [results]
+  );
+
+  return {
+    recommendations,
+    isAuthenticated: !!user,
+    isLoading: !isLoaded || (!!user && results === undefined),
+  };
+}
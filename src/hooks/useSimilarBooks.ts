@@ -0,0 +1,57 @@
+import { useMutation, useQuery } from "convex/react";
+import { useEffect, useMemo, useRef } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import { convexBookToBook } from "../lib/convexBookHelpers";
+import type { SimilarBook } from "../types/recommendations";
+
+interface CachedSimilarBooks {
+  books: SimilarBook<Doc<"books">>[];
+  computedAt: number;
+  isStale: boolean;
+}
+
+/**
+ * Hook for a book's "Similar books" rail
+ *
+ * Provides functionality to:
+ * - Load the cached books sharing authors, categories or readers with it
+ * - Ask for a recompute once when nothing is cached or the cache is stale,
+ *   showing the stale list meanwhile
+ *
+ * @param bookId Composite book ID
+ * @returns Object with the similar books and loading state
+ */
+export function useSimilarBooks(bookId: string) {
+  const results = useQuery(api.similarBooks.getSimilarBooks, { bookId }) as
+    | CachedSimilarBooks
+    | null
+    | undefined;
+  const refreshSimilarBooks = useMutation(api.similarBooks.refreshSimilarBooks);
+
+  // One refresh per book; the query updates itself once it lands
+  const refreshedFor = useRef<string | null>(null);
+  const needsRefresh = results === null || !!results?.isStale;
+
+  useEffect(() => {
+    if (!needsRefresh || refreshedFor.current === bookId) return;
+    refreshedFor.current = bookId;
+    refreshSimilarBooks({ bookId }).catch((error) => {
+      console.error("Error refreshing similar books:", error);
+    });
+  }, [bookId, needsRefresh, refreshSimilarBooks]);
+
+  const similarBooks = useMemo<SimilarBook[]>(
+    () =>
+      (results?.books ?? []).map((similar) => ({
+        ...similar,
+        book: convexBookToBook(similar.book),
+      })),
+    [results]
+  );
+
+  return {
+    similarBooks,
+    isLoading: results === undefined,
+  };
+}
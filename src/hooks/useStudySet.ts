@@ -0,0 +1,132 @@
+import { useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { Flashcard, ReviewGrade, StudySet } from "../types/study";
+
+/**
+ * Hook for a summary's study set
+ *
+ * Subscribes to the signed-in user's flashcards and quiz for a summary,
+ * so the set appears as soon as it has been generated.
+ *
+ * @param summaryId - Summary ID, or undefined while it loads
+ * @returns The study set (null if none yet) and create/quiz functions
+ */
+export function useStudySet(summaryId: string | undefined) {
+  const { user } = useUser();
+  const createMutation = useMutation(api.studySets.createStudySet);
+  const submitMutation = useMutation(api.studySets.submitQuizResult);
+
+  const convexSummaryId = summaryId as Id<"summaries"> | undefined;
+  const studySet = useQuery(
+    api.studySets.getStudySet,
+    user && convexSummaryId
+      ? { userId: user.id, summaryId: convexSummaryId }
+      : "skip"
+  ) as StudySet | null | undefined;
+
+  /**
+   * Create flashcards and a quiz for the summary
+   *
+   * Charged to the user's spend budget; the mutation throws
+   * "Quota exceeded: ..." when it is used up.
+   *
+   * @throws Error if the user is not signed in
+   */
+  const createStudySet = useCallback(async () => {
+    if (!user) {
+      throw new Error("Must be authenticated to study summaries");
+    }
+    if (!convexSummaryId) {
+      throw new Error("Summary ID is required");
+    }
+
+    return await createMutation({
+      userId: user.id,
+      summaryId: convexSummaryId,
+    });
+  }, [user, convexSummaryId, createMutation]);
+
+  /**
+   * Score a quiz attempt
+   *
+   * @param answers - Chosen option per question, in order
+   * @returns Correct answers and question count
+   * @throws Error if the user is not signed in or there is no quiz
+   */
+  const submitQuiz = useCallback(
+    async (answers: number[]) => {
+      if (!user) {
+        throw new Error("Must be authenticated to take quizzes");
+      }
+      if (!studySet) {
+        throw new Error("Study set is required");
+      }
+
+      return await submitMutation({
+        userId: user.id,
+        studySetId: studySet.id as Id<"studySets">,
+        answers,
+      });
+    },
+    [user, studySet, submitMutation]
+  );
+
+  return {
+    studySet,
+    createStudySet,
+    submitQuiz,
+    isAuthenticated: !!user,
+    isLoading: studySet === undefined && !!user && !!summaryId,
+  };
+}
+
+/**
+ * Hook for the flashcard review queue
+ *
+ * Due cards come from every summary the signed-in user has saved, most
+ * overdue first. Reviewed cards drop out of the queue as their new due
+ * date is stored.
+ *
+ * @returns Due cards, the total due and a review function
+ */
+export function useFlashcardReview() {
+  const { user } = useUser();
+  const reviewMutation = useMutation(api.studySets.reviewFlashcard);
+
+  const due = useQuery(
+    api.studySets.getDueFlashcards,
+    user ? { userId: user.id } : "skip"
+  ) as { totalDue: number; cards: Flashcard[] } | undefined;
+
+  /**
+   * Grade a card and schedule its next review
+   *
+   * @returns When the card is next due (ms since epoch)
+   * @throws Error if the user is not signed in
+   */
+  const reviewCard = useCallback(
+    async (flashcardId: string, grade: ReviewGrade) => {
+      if (!user) {
+        throw new Error("Must be authenticated to review flashcards");
+      }
+
+      return await reviewMutation({
+        userId: user.id,
+        flashcardId: flashcardId as Id<"flashcards">,
+        grade,
+      });
+    },
+    [user, reviewMutation]
+  );
+
+  return {
+    cards: due?.cards ?? [],
+    totalDue: due?.totalDue ?? 0,
+    reviewCard,
+    isAuthenticated: !!user,
+    isLoading: !!user && due === undefined,
+  };
+}
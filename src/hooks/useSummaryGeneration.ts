@@ -7,13 +7,36 @@ import type {
   Summary,
   SummaryType,
   CreateSummaryInput,
+  SummaryGenerationResult,
+  SummaryProviderId,
+  SummaryTemplate,
 } from "../types/summary";
 import { createSummaryAnalyticsService } from "../lib/analytics/summaryTracking";
-import { calculateWordCount, calculateReadingTime } from "../types/summary";
+import {
+  calculateWordCount,
+  calculateReadingTime,
+  isBuiltInSummaryType,
+  parseStructuredSummary,
+  resolveSummaryLanguage,
+  SummaryQualitySchema,
+} from "../types/summary";
 import { api } from "../../convex/_generated/api";
 import { generateBookSummary } from "@/services/summary/generateSummary";
-import { checkOpenAiConnectionStatus } from "@/services/summary/openAiStatusCheck";
+import { estimateStreamProgress } from "@/services/summary/helpers";
+import { selectPromptVariant } from "@/services/summary/promptVariants";
+import {
+  fetchSourceSummaryStream,
+  fetchSummaryStream,
+  SummarySourceInput,
+} from "../lib/summaryStream";
+import {
+  getSummaryProviderStatus,
+  resolveSummaryModel,
+} from "@/services/summary/openAiStatusCheck";
 import { Id } from "../../convex/_generated/dataModel";
+import { getAnonymousId } from "../lib/anonymousId";
+import { ErrorCategory, standardizeError } from "../lib/standardizedError";
+import { useSummaryJob } from "./useSummaryJob";
 
 /**
  * Custom hook for AI summary generation using React Query
@@ -39,6 +62,31 @@ interface UseSummaryGenerationParams {
   enabled?: boolean;
   /** User ID if authenticated (for analytics) */
   userId?: string;
+  /** Stream content as it is generated instead of waiting for completion */
+  stream?: boolean;
+  /**
+   * Generate in a server-side Convex job that survives navigation and is
+   * shared with identical requests. Partial content still streams in.
+   */
+  background?: boolean;
+  /** LLM provider to generate with (server default if omitted) */
+  provider?: SummaryProviderId;
+  /** Model to generate with (provider default if omitted) */
+  model?: string;
+  /** Template for the summary type (required for custom types) */
+  template?: SummaryTemplate;
+  /**
+   * Language to write in: an ISO 639-1 code, or SAME_AS_BOOK_LANGUAGE for
+   * the book's own language (English if omitted). Each language is its own
+   * stored summary.
+   */
+  language?: string;
+  /**
+   * Full text to ground the summary in (EPUB/TXT upload or local path).
+   * Always generated in the browser session via a streamed request, since
+   * uploads can't be handed to background jobs.
+   */
+  source?: SummarySourceInput;
 }
 
 interface UseSummaryGenerationReturn {
@@ -56,8 +104,10 @@ interface UseSummaryGenerationReturn {
   isSuccess: boolean;
   /** Whether the generation failed */
   isError: boolean;
-  /** Generation progress (0-100, estimated) */
+  /** Generation progress (0-100; measured when streaming, estimated otherwise) */
   progress?: number;
+  /** Content received so far while a streamed summary is generating */
+  partialContent?: string;
   /** Manually trigger summary generation */
   generateSummary: () => void;
   /** Whether generation can be triggered */
@@ -103,20 +153,24 @@ export function useSummaryGeneration(
     [convex]
   );
 
+  // "Same as book" resolves here, so lookups use a concrete language
+  const language = resolveSummaryLanguage(params.language, params.book);
+
   // Create query cache key
   const queryKey = useMemo(
-    () => ["summary", params.book.id, params.summaryType],
-    [params.book.id, params.summaryType]
+    () => ["summary", params.book.id, params.summaryType, language],
+    [params.book.id, params.summaryType, language]
   );
 
   // Check if summary already exists (query existing summaries)
   const existingSummaryQuery = useQuery({
-    queryKey: ["existingSummary", params.book.id, params.summaryType],
+    queryKey: ["existingSummary", params.book.id, params.summaryType, language],
     queryFn: async (): Promise<Summary | null> => {
       try {
         const result = await convex.query(api.summaries.getExistingSummary, {
           bookId: params.book.id,
           summaryType: params.summaryType,
+          language,
           userId: params.userId as Id<"users"> | undefined, // Cast to handle Convex ID type
         });
 
@@ -130,12 +184,16 @@ export function useSummaryGeneration(
           bookAuthors: result.bookAuthors || params.book.authors, // Fallback for backward compatibility
           summaryType: result.summaryType,
           content: result.content,
+          structured: parseStructuredSummary(result.structured),
+          language: result.language,
           status: result.status,
           generationTime: result.generationTime,
           wordCount: result.wordCount,
           readingTime: result.readingTime,
           aiModel: result.aiModel,
           promptVersion: result.promptVersion,
+          generationMode: result.generationMode,
+          quality: SummaryQualitySchema.safeParse(result.quality).data,
           errorMessage: result.errorMessage,
           metadata: result.metadata,
           createdAt: new Date(result.createdAt),
@@ -151,18 +209,100 @@ export function useSummaryGeneration(
     gcTime: 1000 * 60 * 30, // Keep in cache for 30 minutes
   });
 
+  // Progress tracking state
+  const [generationStartTime, setGenerationStartTime] = useState<number | null>(
+    null
+  );
+  const [progress, setProgress] = useState<number | undefined>(undefined);
+  const [partialContent, setPartialContent] = useState<string | undefined>(
+    undefined
+  );
+
   // Summary generation mutation
   const generateMutation = useMutation({
     mutationFn: async (input: CreateSummaryInput): Promise<Summary> => {
       const timer = analyticsService.createPerformanceTimer();
       timer.start();
 
+      // Assigned up front so a failed generation still records its variant
+      const promptVersion = selectPromptVariant(input.summaryType).version;
+
       try {
-        // Generate the summary using AI service
-        const generationResult = await generateBookSummary(
-          input.book,
-          input.summaryType
-        );
+        // Generate the summary using AI service, streaming deltas into
+        // partialContent when enabled. Nothing is persisted until complete.
+        let generationResult: SummaryGenerationResult;
+        if (params.source) {
+          // Map phase fills the first 60%, the streamed reduce the rest
+          let received = "";
+          setPartialContent("");
+          generationResult = await fetchSourceSummaryStream(
+            input.book,
+            input.summaryType,
+            params.source,
+            (delta) => {
+              received += delta;
+              setPartialContent(received);
+              setProgress(
+                60 +
+                  Math.round(
+                    estimateStreamProgress(
+                      received,
+                      input.summaryType,
+                      input.template
+                    ) * 0.4
+                  )
+              );
+            },
+            {
+              provider: input.provider,
+              model: input.model,
+              template: input.template,
+              promptVersion,
+              language: input.language,
+            },
+            undefined,
+            (completed, total) =>
+              setProgress(Math.round((completed / total) * 60))
+          );
+        } else if (params.stream) {
+          let received = "";
+          setPartialContent("");
+          generationResult = await fetchSummaryStream(
+            input.book,
+            input.summaryType,
+            (delta) => {
+              received += delta;
+              setPartialContent(received);
+              setProgress(
+                estimateStreamProgress(
+                  received,
+                  input.summaryType,
+                  input.template
+                )
+              );
+            },
+            {
+              provider: input.provider,
+              model: input.model,
+              template: input.template,
+              promptVersion,
+              language: input.language,
+            }
+          );
+        } else {
+          generationResult = await generateBookSummary(
+            input.book,
+            input.summaryType,
+            {
+              provider: input.provider,
+              model: input.model,
+              template: input.template,
+              promptVersion,
+              language: input.language,
+            },
+            getAnonymousId()
+          );
+        }
 
         const generationTime = timer.end();
 
@@ -176,12 +316,16 @@ export function useSummaryGeneration(
           bookTitle: input.book.title,
           bookAuthors: input.book.authors,
           summaryType: input.summaryType,
+          language: input.language,
           content: generationResult.content,
+          structured: generationResult.structured,
           generationTime: generationResult.generationTime,
           wordCount,
           readingTime,
           aiModel: generationResult.aiModel,
           promptVersion: generationResult.promptVersion,
+          generationMode: generationResult.generationMode,
+          quality: generationResult.quality,
           userId: input.userId as Id<"users"> | undefined, // Cast for Convex ID type
           metadata: generationResult.metadata,
           tokenUsage: generationResult.usage,
@@ -195,12 +339,16 @@ export function useSummaryGeneration(
           bookAuthors: input.book.authors,
           summaryType: input.summaryType,
           content: generationResult.content,
+          structured: generationResult.structured,
+          language: input.language,
           status: "completed",
           generationTime: generationResult.generationTime,
           wordCount,
           readingTime,
           aiModel: generationResult.aiModel,
           promptVersion: generationResult.promptVersion,
+          generationMode: generationResult.generationMode,
+          quality: generationResult.quality,
           errorMessage: undefined,
           metadata: generationResult.metadata,
           createdAt: new Date(),
@@ -216,6 +364,7 @@ export function useSummaryGeneration(
             generationTime,
             aiModel: summary.aiModel,
             promptVersion: summary.promptVersion,
+            generationMode: generationResult.generationMode,
             metadata: {
               bookDataSource: input.book.source,
               hadBookDescription: Boolean(input.book.description?.trim()),
@@ -230,18 +379,32 @@ export function useSummaryGeneration(
       } catch (error) {
         const generationTime = timer.end();
 
+        // The server charges the quota before generating; running out of
+        // it is not a failure of this summary
+        const standardized = standardizeError(error);
+        if (standardized.category === ErrorCategory.QUOTA) {
+          throw new Error(standardized.userMessage);
+        }
+
         // Record failure in Convex for tracking
         try {
+          // Same resolution the provider applies, so the record names the
+          // model that actually failed
+          const { model: aiModel } = await resolveSummaryModel(
+            input.provider,
+            input.model
+          );
           await convex.mutation(api.summaries.recordSummaryFailure, {
             bookId: input.book.id,
             bookTitle: input.book.title,
             bookAuthors: input.book.authors,
             summaryType: input.summaryType,
+            language: input.language,
             errorMessage:
               error instanceof Error ? error.message : "Unknown error",
             generationTime,
-            aiModel: "gpt-4o-mini", // Default model
-            promptVersion: "v1.0", // Default version
+            aiModel,
+            promptVersion,
             userId: input.userId as Id<"users"> | undefined,
             metadata: {
               bookDataSource: input.book.source,
@@ -259,6 +422,7 @@ export function useSummaryGeneration(
           result: {
             error: error as Error,
             generationTime,
+            promptVersion,
           },
           cacheHit: false,
           userId: input.userId as any,
@@ -300,7 +464,12 @@ export function useSummaryGeneration(
     onSuccess: (data) => {
       // Invalidate and refetch existing summary query
       queryClient.invalidateQueries({
-        queryKey: ["existingSummary", params.book.id, params.summaryType],
+        queryKey: [
+          "existingSummary",
+          params.book.id,
+          params.summaryType,
+          language,
+        ],
       });
 
       // Set the data in the cache directly
@@ -335,6 +504,87 @@ export function useSummaryGeneration(
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 10000),
   });
 
+  // Server-side job state (subscription is skipped unless background)
+  const summaryJob = useSummaryJob(
+    params.book.id,
+    params.summaryType,
+    Boolean(params.background),
+    language
+  );
+  const [enqueueError, setEnqueueError] = useState<Error | null>(null);
+  const [watchedJobId, setWatchedJobId] = useState<string | undefined>(
+    undefined
+  );
+  const jobStatus = summaryJob.job?.status;
+  const jobId = summaryJob.job?._id;
+
+  // Remember jobs seen running so only their failures surface as errors
+  useEffect(() => {
+    if (summaryJob.isActive) setWatchedJobId(jobId);
+  }, [summaryJob.isActive, jobId]);
+
+  // Refresh the stored summary when a job finishes
+  useEffect(() => {
+    if (jobStatus === "completed") {
+      queryClient.invalidateQueries({
+        queryKey: [
+          "existingSummary",
+          params.book.id,
+          params.summaryType,
+          language,
+        ],
+      });
+    }
+  }, [jobStatus, queryClient, params.book.id, params.summaryType, language]);
+
+  // Mirror the job's streamed content into partialContent
+  const jobPartialContent = summaryJob.job?.partialContent;
+  useEffect(() => {
+    if (!params.background || !summaryJob.isActive) return;
+    setPartialContent(jobPartialContent ?? "");
+    if (jobPartialContent) {
+      setProgress(
+        estimateStreamProgress(
+          jobPartialContent,
+          params.summaryType,
+          params.template
+        )
+      );
+    }
+  }, [
+    params.background,
+    params.summaryType,
+    params.template,
+    summaryJob.isActive,
+    jobPartialContent,
+  ]);
+
+  const isGenerating = generateMutation.isPending || summaryJob.isActive;
+  const isGenerationSuccess =
+    generateMutation.isSuccess || jobStatus === "completed";
+
+  // A failed job only counts as an error if it ran while mounted and no
+  // readable summary exists
+  const jobError = useMemo(() => {
+    if (jobStatus !== "failed" || jobId !== watchedJobId) return null;
+    if (existingSummaryQuery.data?.status === "completed") return null;
+    return new Error(
+      summaryJob.job?.lastError ||
+        "Failed to generate summary. Please try again."
+    );
+  }, [
+    jobStatus,
+    jobId,
+    watchedJobId,
+    summaryJob.job?.lastError,
+    existingSummaryQuery.data?.status,
+  ]);
+  const error =
+    generateMutation.error ||
+    enqueueError ||
+    jobError ||
+    existingSummaryQuery.error;
+
   // Determine the final summary data
   const summary = useMemo(() => {
     // If we have a successfully generated summary, use that
@@ -342,9 +592,17 @@ export function useSummaryGeneration(
       return generateMutation.data;
     }
 
+    // Placeholder rows for queued/failed jobs carry no content
+    if (
+      params.background &&
+      existingSummaryQuery.data?.status !== "completed"
+    ) {
+      return undefined;
+    }
+
     // Otherwise, use existing summary if available
     return existingSummaryQuery.data || undefined;
-  }, [generateMutation.data, existingSummaryQuery.data]);
+  }, [generateMutation.data, existingSummaryQuery.data, params.background]);
 
   // Calculate estimated generation time based on summary type
   const estimatedTime = useMemo(() => {
@@ -354,42 +612,43 @@ export function useSummaryGeneration(
       analysis: 35, // 35 seconds
       practical: 25, // 25 seconds
     };
-    return timeMap[params.summaryType];
+    return isBuiltInSummaryType(params.summaryType)
+      ? timeMap[params.summaryType]
+      : 30; // Custom templates vary
   }, [params.summaryType]);
 
-  // Progress tracking state
-  const [generationStartTime, setGenerationStartTime] = useState<number | null>(
-    null
-  );
-  const [progress, setProgress] = useState<number | undefined>(undefined);
-
   // Start progress tracking when generation begins
   useEffect(() => {
-    if (generateMutation.isPending && !generationStartTime) {
+    if (isGenerating && !generationStartTime) {
       const startTime = Date.now();
       setGenerationStartTime(startTime);
       setProgress(5); // Start with 5% to show immediate feedback
-    } else if (!generateMutation.isPending && generateMutation.isSuccess) {
+    } else if (!isGenerating && generationStartTime && isGenerationSuccess) {
       // Set to 100% briefly before clearing when successful
       setProgress(100);
       const timeout = setTimeout(() => {
         setGenerationStartTime(null);
         setProgress(undefined);
+        setPartialContent(undefined);
       }, 1000);
       return () => clearTimeout(timeout);
-    } else if (!generateMutation.isPending) {
+    } else if (!isGenerating) {
       setGenerationStartTime(null);
       setProgress(undefined);
+      setPartialContent(undefined);
     }
-  }, [
-    generateMutation.isPending,
-    generateMutation.isSuccess,
-    generationStartTime,
-  ]);
+  }, [isGenerating, isGenerationSuccess, generationStartTime]);
 
-  // Update progress based on elapsed time
+  // Update progress based on elapsed time (streamed generations report
+  // real progress from received content instead)
   useEffect(() => {
-    if (!generateMutation.isPending || !generationStartTime) {
+    if (
+      !isGenerating ||
+      !generationStartTime ||
+      params.stream ||
+      params.background ||
+      params.source
+    ) {
       return;
     }
 
@@ -401,23 +660,65 @@ export function useSummaryGeneration(
     }, 500); // Update every 500ms
 
     return () => clearInterval(interval);
-  }, [generateMutation.isPending, generationStartTime, estimatedTime]);
+  }, [
+    isGenerating,
+    generationStartTime,
+    estimatedTime,
+    params.stream,
+    params.background,
+    params.source,
+  ]);
 
   // Generate summary function
+  const { enqueue } = summaryJob;
   const generateSummary = useMemo(() => {
     return () => {
-      generateMutation.mutate({
+      const input: CreateSummaryInput = {
         book: params.book,
         summaryType: params.summaryType,
         userId: params.userId,
-      });
+        provider: params.provider,
+        model: params.model,
+        template: params.template,
+        language,
+      };
+
+      if (params.background && !params.source) {
+        setEnqueueError(null);
+        enqueue(input).catch((error: unknown) => {
+          console.error("Failed to enqueue summary job:", error);
+          const standardized = standardizeError(error);
+          setEnqueueError(
+            new Error(
+              standardized.category === ErrorCategory.QUOTA
+                ? standardized.userMessage
+                : "Failed to start summary generation. Please try again."
+            )
+          );
+        });
+        return;
+      }
+
+      generateMutation.mutate(input);
     };
-  }, [generateMutation, params.book, params.summaryType, params.userId]);
+  }, [
+    generateMutation,
+    enqueue,
+    params.background,
+    params.source,
+    params.book,
+    params.summaryType,
+    params.userId,
+    params.provider,
+    params.model,
+    params.template,
+    language,
+  ]);
 
   // Check if generation can be triggered
   const canGenerate = useMemo(() => {
     // Can't generate if already generating
-    if (generateMutation.isPending) return false;
+    if (isGenerating) return false;
 
     // Can't generate if book data is incomplete
     if (!params.book.title?.trim() || !params.book.authors?.length)
@@ -425,20 +726,18 @@ export function useSummaryGeneration(
 
     // Can generate if no existing summary or if we want to regenerate
     return true;
-  }, [generateMutation.isPending, params.book]);
+  }, [isGenerating, params.book]);
 
   return {
     summary,
-    isLoading: existingSummaryQuery.isLoading,
-    isFetching: existingSummaryQuery.isFetching || generateMutation.isPending,
-    isGenerating: generateMutation.isPending,
-    error: generateMutation.error || existingSummaryQuery.error,
-    isSuccess:
-      Boolean(summary) &&
-      !generateMutation.isError &&
-      !existingSummaryQuery.isError,
-    isError: generateMutation.isError || existingSummaryQuery.isError,
+    isLoading: existingSummaryQuery.isLoading || summaryJob.isLoading,
+    isFetching: existingSummaryQuery.isFetching || isGenerating,
+    isGenerating,
+    error,
+    isSuccess: Boolean(summary) && !error,
+    isError: Boolean(error),
     progress,
+    partialContent,
     generateSummary,
     canGenerate,
     estimatedTime,
@@ -479,18 +778,14 @@ export function useSummaryExists(
 
 /**
  * Hook for getting summary generation service status
- * Useful for showing service availability and rate limits
+ * Useful for showing service availability, rate limits and models
  */
-export function useSummaryGenerationService() {
+export function useSummaryGenerationService(provider?: SummaryProviderId) {
   return useQuery({
-    queryKey: ["summaryServiceStatus"],
+    queryKey: ["summaryServiceStatus", provider],
     queryFn: async () => {
       try {
-        const isConnected = await checkOpenAiConnectionStatus();
-
-        return {
-          isConfigured: isConnected,
-        };
+        return await getSummaryProviderStatus(provider);
       } catch (error) {
         console.error("Error checking summary service status:", error);
         return {
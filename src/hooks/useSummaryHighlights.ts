@@ -0,0 +1,189 @@
+import { useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type {
+  HighlightAnchor,
+  HighlightColor,
+  HighlightListItem,
+  SummaryHighlight,
+} from "../types/highlight";
+
+/**
+ * A re-anchored highlight; no anchor means its passage is gone
+ */
+export interface HighlightReanchor {
+  highlightId: string;
+  anchor?: HighlightAnchor;
+}
+
+/**
+ * Hook for the signed-in user's highlights on a summary
+ *
+ * Provides functionality to:
+ * - List highlights in reading order, pushed by Convex as they change
+ * - Highlight a passage of the revision being read, with a color and note
+ * - Edit or delete a highlight
+ * - Store highlights re-anchored after a regeneration
+ *
+ * @param summaryId - The summary being read
+ * @param revision - The revision being read (0 for summaries predating revisions)
+ * @returns Object with highlights and mutation functions
+ */
+export function useSummaryHighlights(summaryId: string, revision: number) {
+  const { user } = useUser();
+  const addMutation = useMutation(api.summaryHighlights.addHighlight);
+  const updateMutation = useMutation(api.summaryHighlights.updateHighlight);
+  const deleteMutation = useMutation(api.summaryHighlights.deleteHighlight);
+  const reanchorMutation = useMutation(
+    api.summaryHighlights.reanchorHighlights
+  );
+
+  const convexSummaryId = summaryId as Id<"summaries">;
+  const highlights = useQuery(
+    api.summaryHighlights.listHighlights,
+    user ? { userId: user.id, summaryId: convexSummaryId } : "skip"
+  ) as SummaryHighlight[] | undefined;
+
+  /**
+   * Highlight a passage
+   *
+   * @returns The new highlight's ID
+   * @throws Error if the user is not signed in
+   */
+  const addHighlight = useCallback(
+    async (anchor: HighlightAnchor, color?: HighlightColor, note?: string) => {
+      if (!user) {
+        throw new Error("Must be authenticated to highlight summaries");
+      }
+
+      return await addMutation({
+        userId: user.id,
+        summaryId: convexSummaryId,
+        revision,
+        anchor,
+        color,
+        note,
+      });
+    },
+    [user, convexSummaryId, revision, addMutation]
+  );
+
+  /**
+   * Change a highlight's color or note (an empty note removes it)
+   *
+   * @throws Error if the user is not signed in
+   */
+  const updateHighlight = useCallback(
+    async (
+      highlightId: string,
+      changes: { color?: HighlightColor; note?: string }
+    ) => {
+      if (!user) {
+        throw new Error("Must be authenticated to edit highlights");
+      }
+
+      await updateMutation({
+        userId: user.id,
+        highlightId: highlightId as Id<"summaryHighlights">,
+        ...changes,
+      });
+    },
+    [user, updateMutation]
+  );
+
+  /**
+   * Delete a highlight
+   *
+   * @throws Error if the user is not signed in
+   */
+  const deleteHighlight = useCallback(
+    async (highlightId: string) => {
+      if (!user) {
+        throw new Error("Must be authenticated to delete highlights");
+      }
+
+      await deleteMutation({
+        userId: user.id,
+        highlightId: highlightId as Id<"summaryHighlights">,
+      });
+    },
+    [user, deleteMutation]
+  );
+
+  /**
+   * Store highlights re-anchored against the revision being read
+   */
+  const reanchorHighlights = useCallback(
+    async (updates: HighlightReanchor[]) => {
+      if (!user || updates.length === 0) return;
+
+      await reanchorMutation({
+        userId: user.id,
+        summaryId: convexSummaryId,
+        revision,
+        updates: updates.map((update) => ({
+          highlightId: update.highlightId as Id<"summaryHighlights">,
+          anchor: update.anchor,
+        })),
+      });
+    },
+    [user, convexSummaryId, revision, reanchorMutation]
+  );
+
+  return {
+    highlights: highlights ?? [],
+    revision,
+    addHighlight,
+    updateHighlight,
+    deleteHighlight,
+    reanchorHighlights,
+    isAuthenticated: !!user,
+  };
+}
+
+export type SummaryHighlightsController = ReturnType<
+  typeof useSummaryHighlights
+>;
+
+/**
+ * Hook for the "My highlights" list
+ *
+ * @returns All of the signed-in user's highlights, most recent first
+ */
+export function useMyHighlights() {
+  const { user } = useUser();
+  const deleteMutation = useMutation(api.summaryHighlights.deleteHighlight);
+
+  const highlights = useQuery(
+    api.summaryHighlights.listMyHighlights,
+    user ? { userId: user.id } : "skip"
+  ) as HighlightListItem[] | undefined;
+
+  /**
+   * Delete a highlight
+   *
+   * @throws Error if the user is not signed in
+   */
+  const deleteHighlight = useCallback(
+    async (highlightId: string) => {
+      if (!user) {
+        throw new Error("Must be authenticated to delete highlights");
+      }
+
+      await deleteMutation({
+        userId: user.id,
+        highlightId: highlightId as Id<"summaryHighlights">,
+      });
+    },
+    [user, deleteMutation]
+  );
+
+  return {
+    highlights: highlights ?? [],
+    deleteHighlight,
+    isAuthenticated: !!user,
+    isLoading: !!user && highlights === undefined,
+  };
+}
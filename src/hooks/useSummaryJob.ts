@@ -0,0 +1,94 @@
+import { useMutation, useQuery } from "convex/react";
+import { useCallback } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import type { Book } from "../types/book";
+import { getAnonymousId } from "../lib/anonymousId";
+import {
+  DEFAULT_SUMMARY_LANGUAGE,
+  type SummaryProviderId,
+  type SummaryType,
+} from "../types/summary";
+
+export type SummaryJob = Doc<"summaryJobs">;
+
+interface EnqueueSummaryJobInput {
+  book: Book;
+  summaryType: SummaryType;
+  userId?: string;
+  provider?: SummaryProviderId;
+  model?: string;
+  /** ISO 639-1 code or SAME_AS_BOOK_LANGUAGE (English if omitted) */
+  language?: string;
+}
+
+/**
+ * Hook for server-side summary generation jobs
+ *
+ * Subscribes to the latest job for a book+type+language, so state changes (and
+ * streamed partial content) are pushed by Convex rather than polled. A job
+ * started elsewhere - another tab, another user, or before navigating
+ * away - is picked up the same way.
+ *
+ * @param bookId - Book to watch
+ * @param summaryType - Summary type to watch
+ * @param enabled - Skip the subscription when false
+ * @param language - Resolved summary language to watch
+ * @returns Latest job, whether it is active, and an enqueue function
+ */
+export function useSummaryJob(
+  bookId: string,
+  summaryType: SummaryType,
+  enabled = true,
+  language: string = DEFAULT_SUMMARY_LANGUAGE
+) {
+  const enqueueMutation = useMutation(api.summaryJobs.enqueueSummaryJob);
+
+  const job = useQuery(
+    api.summaryJobs.getLatestJob,
+    enabled ? { bookId, summaryType, language } : "skip"
+  ) as SummaryJob | null | undefined;
+
+  /**
+   * Enqueue a generation job (joins an identical active job if one exists)
+   *
+   * A new job is charged to the caller's quota; the mutation throws
+   * "Quota exceeded: ..." when it is used up.
+   *
+   * @returns The ID of the job doing the work
+   */
+  const enqueue = useCallback(
+    async (input: EnqueueSummaryJobInput): Promise<Id<"summaryJobs">> => {
+      const { book } = input;
+      return await enqueueMutation({
+        // Only the fields the job stores - Convex rejects unknown fields
+        book: {
+          id: book.id,
+          title: book.title,
+          authors: book.authors,
+          description: book.description,
+          publishedDate: book.publishedDate,
+          pageCount: book.pageCount,
+          categories: book.categories,
+          language: book.language,
+          source: book.source,
+          originalId: book.originalId,
+        },
+        summaryType: input.summaryType,
+        userId: input.userId as Id<"users"> | undefined,
+        provider: input.provider,
+        model: input.model,
+        language: input.language,
+        anonymousId: getAnonymousId(),
+      });
+    },
+    [enqueueMutation]
+  );
+
+  return {
+    job: job ?? undefined,
+    isActive: job?.status === "queued" || job?.status === "running",
+    isLoading: enabled && job === undefined,
+    enqueue,
+  };
+}
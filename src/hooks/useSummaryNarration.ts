@@ -0,0 +1,50 @@
+import { useMutation, useQuery } from "convex/react";
+import { useCallback } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { getAnonymousId } from "../lib/anonymousId";
+import type { SummaryNarration } from "../types/narration";
+
+/**
+ * Hook for the audio narration of a summary
+ *
+ * Subscribes to the narration of the summary's current revision, so chunks
+ * are pushed by Convex as they are synthesized and playback can start on
+ * the first one.
+ *
+ * @param summaryId - Summary to narrate
+ * @param enabled - Skip the subscription when false
+ * @returns Narration (null if never requested) and a request function
+ */
+export function useSummaryNarration(summaryId: string, enabled = true) {
+  const requestMutation = useMutation(api.summaryNarrations.requestNarration);
+
+  const narration = useQuery(
+    api.summaryNarrations.getNarration,
+    enabled ? { summaryId: summaryId as Id<"summaries"> } : "skip"
+  ) as SummaryNarration | null | undefined;
+
+  /**
+   * Request the narration (reuses the cached one for this revision)
+   *
+   * Synthesis is charged to the caller's spend budget; the mutation throws
+   * "Quota exceeded: ..." when it is used up.
+   */
+  const request = useCallback(
+    async (voice?: string) =>
+      await requestMutation({
+        summaryId: summaryId as Id<"summaries">,
+        voice,
+        anonymousId: getAnonymousId(),
+      }),
+    [requestMutation, summaryId]
+  );
+
+  return {
+    narration,
+    isLoading: enabled && narration === undefined,
+    isPreparing:
+      narration?.status === "queued" || narration?.status === "running",
+    request,
+  };
+}
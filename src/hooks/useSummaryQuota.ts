@@ -0,0 +1,59 @@
+import { useQuery } from "convex/react";
+import { useEffect, useState } from "react";
+import { api } from "../../convex/_generated/api";
+import { getAnonymousId } from "../lib/anonymousId";
+
+interface QuotaUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+interface PeriodQuota {
+  generations: QuotaUsage;
+  /** Estimated spend, USD */
+  estimatedCost: QuotaUsage;
+}
+
+export interface SummaryQuota {
+  tier: "anonymous" | "signedIn";
+  day: PeriodQuota;
+  month: PeriodQuota;
+}
+
+/**
+ * Hook for the caller's remaining summary generation quota
+ *
+ * Signed-in users are looked up by their Convex identity, signed-out
+ * visitors by this browser's anonymous ID (ignored by the server once
+ * signed in). Convex pushes updates as generations are charged, so the
+ * numbers stay current without polling.
+ *
+ * @returns The quota (undefined while loading) and the generations left
+ *   before any limit is hit
+ */
+export function useSummaryQuota() {
+  const [anonymousId, setAnonymousId] = useState<string>();
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setAnonymousId(getAnonymousId());
+  }, []);
+
+  const quota = useQuery(
+    api.summaryQuotas.getRemainingQuota,
+    anonymousId ? { anonymousId } : "skip"
+  ) as SummaryQuota | undefined;
+
+  return {
+    quota,
+    /** Generations left today and this month, whichever is fewer */
+    remaining: quota
+      ? Math.min(
+          quota.day.generations.remaining,
+          quota.month.generations.remaining
+        )
+      : undefined,
+    isLoading: quota === undefined,
+  };
+}
@@ -0,0 +1,93 @@
+import { useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+
+export type SummaryRevision = Doc<"summaryRevisions">;
+
+/**
+ * Hook for a summary's revision history
+ *
+ * Provides functionality to:
+ * - List revisions (newest first), pushed by Convex as regenerations land
+ * - Regenerate the summary as a new revision (server-side job)
+ * - Pin the user's saved copy to a revision, or follow the latest
+ *
+ * @param summaryId - The summary to manage (string or Convex ID)
+ * @returns Object with revisions, pinned revision and mutation functions
+ */
+export function useSummaryRevisions(summaryId?: string | Id<"summaries">) {
+  const { user } = useUser();
+  const regenerateMutation = useMutation(api.summaryJobs.regenerateSummary);
+  const pinRevisionMutation = useMutation(
+    api.savedSummaries.pinSavedSummaryRevision
+  );
+
+  // Cast string to Convex ID type
+  const convexSummaryId = summaryId as Id<"summaries"> | undefined;
+
+  const revisions = useQuery(
+    api.summaryRevisions.listRevisions,
+    convexSummaryId ? { summaryId: convexSummaryId } : "skip"
+  ) as SummaryRevision[] | undefined;
+
+  const pinnedRevision = useQuery(
+    api.savedSummaries.getPinnedRevision,
+    user && convexSummaryId
+      ? { userId: user.id, summaryId: convexSummaryId }
+      : "skip"
+  );
+
+  /**
+   * Regenerate the summary; the result is stored as a new revision
+   *
+   * @returns The ID of the job doing the work
+   * @throws Error if user is not authenticated
+   */
+  const regenerate = useCallback(async () => {
+    if (!user) {
+      throw new Error("Must be authenticated to regenerate summaries");
+    }
+
+    if (!convexSummaryId) {
+      throw new Error("Summary ID is required");
+    }
+
+    return await regenerateMutation({ summaryId: convexSummaryId });
+  }, [user, convexSummaryId, regenerateMutation]);
+
+  /**
+   * Pin the saved summary to a revision (undefined follows the latest)
+   *
+   * @throws Error if user is not authenticated or the summary is not saved
+   */
+  const pinRevision = useCallback(
+    async (revision?: number) => {
+      if (!user) {
+        throw new Error("Must be authenticated to pin revisions");
+      }
+
+      if (!convexSummaryId) {
+        throw new Error("Summary ID is required");
+      }
+
+      await pinRevisionMutation({
+        userId: user.id,
+        summaryId: convexSummaryId,
+        revision,
+      });
+    },
+    [user, convexSummaryId, pinRevisionMutation]
+  );
+
+  return {
+    revisions: revisions ?? [],
+    latestRevision: revisions?.[0]?.revision,
+    pinnedRevision: pinnedRevision ?? undefined,
+    regenerate,
+    pinRevision,
+    isAuthenticated: !!user,
+    isLoading: revisions === undefined,
+  };
+}
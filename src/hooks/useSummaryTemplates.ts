@@ -0,0 +1,117 @@
+import { useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback, useMemo } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { SummaryTemplate, SummaryType } from "../types/summary";
+import { listBuiltInTemplates } from "@/services/summary/templates";
+
+/**
+ * Fields a user fills in to define a custom summary type
+ */
+export interface SummaryTemplateInput {
+  title: string;
+  description: string;
+  instructions: string;
+  headings: string[];
+  targetWords: { min: number; max: number };
+  icon?: string;
+}
+
+/**
+ * Hook for summary templates (built-in types plus the user's own)
+ *
+ * Provides functionality to:
+ * - List the templates offered in SummaryTypeSelector
+ * - Resolve the template for a selected summary type
+ * - Create and delete custom templates
+ *
+ * Built-in templates are available immediately (bundled constants) while
+ * the Convex subscription loads.
+ *
+ * @returns Object with templates and mutation functions
+ */
+export function useSummaryTemplates() {
+  const { user } = useUser();
+  const createTemplateMutation = useMutation(
+    api.summaryTemplates.createTemplate
+  );
+  const deleteTemplateMutation = useMutation(
+    api.summaryTemplates.deleteTemplate
+  );
+
+  const listed = useQuery(api.summaryTemplates.listTemplates, {
+    userId: user?.id,
+  }) as SummaryTemplate[] | undefined;
+
+  const templates = useMemo(() => listed ?? listBuiltInTemplates(), [listed]);
+  const customTemplates = useMemo(
+    () => templates.filter((template) => !template.builtIn),
+    [templates]
+  );
+
+  /**
+   * Find the template for a summary type (undefined if unknown/deleted)
+   */
+  const getTemplate = useCallback(
+    (summaryType: SummaryType) =>
+      templates.find((template) => template.key === summaryType),
+    [templates]
+  );
+
+  /**
+   * Create a custom template
+   *
+   * @returns The new summary type key ("custom:<templateId>")
+   * @throws Error if user is not authenticated or the template is invalid
+   */
+  const createTemplate = useCallback(
+    async (input: SummaryTemplateInput): Promise<SummaryType> => {
+      if (!user) {
+        throw new Error("Must be authenticated to create templates");
+      }
+
+      const key = await createTemplateMutation({
+        userId: user.id,
+        title: input.title,
+        description: input.description,
+        instructions: input.instructions,
+        headings: input.headings,
+        targetWords: input.targetWords,
+        icon: input.icon,
+      });
+      return key as SummaryType;
+    },
+    [user, createTemplateMutation]
+  );
+
+  /**
+   * Delete one of the user's custom templates
+   *
+   * @throws Error if user is not authenticated
+   */
+  const deleteTemplate = useCallback(
+    async (summaryType: SummaryType) => {
+      if (!user) {
+        throw new Error("Must be authenticated to delete templates");
+      }
+
+      const templateId = summaryType.slice("custom:".length);
+      await deleteTemplateMutation({
+        userId: user.id,
+        templateId: templateId as Id<"summaryTemplates">,
+      });
+    },
+    [user, deleteTemplateMutation]
+  );
+
+  return {
+    templates,
+    customTemplates,
+    getTemplate,
+    createTemplate,
+    deleteTemplate,
+    isAuthenticated: !!user,
+    isLoading: listed === undefined,
+  };
+}
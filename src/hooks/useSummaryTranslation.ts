@@ -0,0 +1,75 @@
+import { useUser } from "@clerk/nextjs";
+import { useMutation, useQuery } from "convex/react";
+import { useCallback, useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import type { SummaryJob } from "./useSummaryJob";
+
+/**
+ * Hook for translating a summary into another language
+ *
+ * Provides functionality to:
+ * - Translate the summary (server-side job that translates the existing
+ *   content rather than generating from scratch)
+ * - Follow the translation job, pushed by Convex as it progresses
+ *
+ * The translation is stored as the book+type summary in the target
+ * language, so it is also what generating in that language would find.
+ *
+ * @param summaryId - The summary to translate (string or Convex ID)
+ * @returns Object with the translation job state and translate function
+ */
+export function useSummaryTranslation(summaryId?: string | Id<"summaries">) {
+  const { user } = useUser();
+  const translateMutation = useMutation(api.summaryJobs.translateSummary);
+  const [jobId, setJobId] = useState<Id<"summaryJobs">>();
+  const [language, setLanguage] = useState<string>();
+
+  // Cast string to Convex ID type
+  const convexSummaryId = summaryId as Id<"summaries"> | undefined;
+
+  const job = useQuery(
+    api.summaryJobs.getJob,
+    jobId ? { jobId } : "skip"
+  ) as SummaryJob | null | undefined;
+
+  /**
+   * Translate the summary into a language
+   *
+   * @param targetLanguage - ISO 639-1 code to translate into
+   * @returns The ID of the job doing the work
+   * @throws Error if user is not authenticated
+   */
+  const translate = useCallback(
+    async (targetLanguage: string) => {
+      if (!user) {
+        throw new Error("Must be authenticated to translate summaries");
+      }
+
+      if (!convexSummaryId) {
+        throw new Error("Summary ID is required");
+      }
+
+      const id = await translateMutation({
+        summaryId: convexSummaryId,
+        language: targetLanguage,
+      });
+      setJobId(id);
+      setLanguage(targetLanguage);
+      return id;
+    },
+    [user, convexSummaryId, translateMutation]
+  );
+
+  return {
+    translate,
+    job: job ?? undefined,
+    /** Language of the latest translation requested here */
+    language,
+    isTranslating: job?.status === "queued" || job?.status === "running",
+    translatedSummaryId:
+      job?.status === "completed" ? job.summaryId : undefined,
+    translationError: job?.status === "failed" ? job.lastError : undefined,
+    isAuthenticated: !!user,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for anchoring highlights and finding them after regeneration
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createHighlightAnchor,
+  resolveHighlightAnchor,
+} from "../highlightAnchor";
+
+const original =
+  "Meditations. Focus on what you control. Accept what you cannot change. " +
+  "The obstacle is the way. Focus on what you control, every single day.";
+
+function anchorOf(text: string, passage: string, occurrence = 0) {
+  let start = -1;
+  for (let i = 0; i <= occurrence; i++) {
+    start = text.indexOf(passage, start + 1);
+  }
+  return createHighlightAnchor(text, start, start + passage.length);
+}
+
+describe("createHighlightAnchor", () => {
+  it("stores the passage with context either side", () => {
+    const anchor = createHighlightAnchor(original, 13, 38, "key-points");
+
+    expect(anchor).toEqual({
+      exact: "Focus on what you control",
+      prefix: "Meditations. ",
+      suffix: ". Accept what you cannot change.",
+      start: 13,
+      sectionId: "key-points",
+    });
+  });
+});
+
+describe("resolveHighlightAnchor", () => {
+  it("tells repeated passages apart by their context", () => {
+    const second = anchorOf(original, "Focus on what you control", 1);
+
+    expect(resolveHighlightAnchor(original, second)).toEqual({
+      start: second.start,
+      end: second.start + second.exact.length,
+      exact: true,
+    });
+  });
+
+  it("finds a moved passage verbatim", () => {
+    const anchor = anchorOf(original, "The obstacle is the way.");
+    const regenerated = `A new opening paragraph. ${original}`;
+
+    expect(resolveHighlightAnchor(regenerated, anchor)).toMatchObject({
+      start: anchor.start + 25,
+      exact: true,
+    });
+  });
+
+  it("finds a lightly edited passage approximately", () => {
+    const anchor = anchorOf(original, "Accept what you cannot change.");
+    const regenerated = original.replace(
+      "Accept what you cannot change.",
+      "Accept what you can't change."
+    );
+
+    const resolved = resolveHighlightAnchor(regenerated, anchor);
+    expect(resolved?.exact).toBe(false);
+    expect(regenerated.slice(resolved!.start, resolved!.end)).toBe(
+      "Accept what you can't change."
+    );
+  });
+
+  it("finds a long edited passage by its ends", () => {
+    const passage =
+      "Habits are the compound interest of self-improvement. Getting one percent better every day counts for a lot in the long run, even when it feels small.";
+    const text = `Intro. ${passage} Outro.`;
+    const anchor = anchorOf(text, passage);
+    const regenerated = text.replace("counts for a lot", "adds up to a lot");
+
+    const resolved = resolveHighlightAnchor(regenerated, anchor);
+    expect(resolved).toMatchObject({ start: 7, exact: false });
+    expect(regenerated.slice(resolved!.start, resolved!.end)).toBe(
+      passage.replace("counts for a lot", "adds up to a lot")
+    );
+  });
+
+  it("gives up when the passage is gone", () => {
+    const anchor = anchorOf(original, "The obstacle is the way.");
+    const regenerated = original.replace(
+      "The obstacle is the way.",
+      "Nothing here resembles it."
+    );
+
+    expect(resolveHighlightAnchor(regenerated, anchor)).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { ConvexHttpClient } from "convex/browser";
+import { loadSummaryExport } from "../loadSummaryExport";
+
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0]);
+
+const summary = {
+  _id: "summaries:1",
+  bookId: "google-books-abc",
+  bookTitle: "Meditations",
+  bookAuthors: ["Marcus Aurelius"],
+  summaryType: "concise",
+  status: "completed",
+  generationMode: "ai",
+  content: "## Overview\nStoic notes.",
+  updatedAt: Date.UTC(2025, 0, 1),
+};
+
+/** A Convex client answering the summary, then the book */
+function fakeConvex(book: Record<string, unknown>) {
+  const query = vi
+    .fn()
+    .mockResolvedValueOnce(summary)
+    .mockResolvedValueOnce({ title: "Meditations", authors: [], ...book });
+  return { query } as unknown as ConvexHttpClient;
+}
+
+describe("loadSummaryExport", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("downloads covers from cover hosts", async () => {
+    const fetchMock = vi.fn(async () => new Response(JPEG));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const doc = await loadSummaryExport(
+      fakeConvex({
+        thumbnail: "http://books.google.com/books/content?id=abc",
+      }),
+      "summaries:1"
+    );
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://books.google.com/books/content?id=abc",
+      expect.objectContaining({ redirect: "error" })
+    );
+    expect(doc?.cover?.contentType).toBe("image/jpeg");
+  });
+
+  it("never fetches cover URLs on other hosts", async () => {
+    const fetchMock = vi.fn(async () => new Response(JPEG));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const doc = await loadSummaryExport(
+      fakeConvex({
+        largeThumbnail: "http://169.254.169.254/latest/meta-data",
+        thumbnail: "https://books.google.com.evil.example/cover.jpg",
+      }),
+      "summaries:1"
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(doc?.cover).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  countActiveFilters,
+  parseSearchFilters,
+  writeSearchFilters,
+} from "../searchFilters";
+
+describe("parseSearchFilters", () => {
+  it("should read every facet and the sort from the URL", () => {
+    const filters = parseSearchFilters(
+      new URLSearchParams(
+        "q=rome&lang=it&from=1990&to=2010&category=History&rating=4&cover=1&description=1&sort=rating"
+      )
+    );
+
+    expect(filters).toEqual({
+      language: "it",
+      publishedAfter: 1990,
+      publishedBefore: 2010,
+      category: "History",
+      minRating: 4,
+      hasCover: true,
+      hasDescription: true,
+      sortBy: "rating",
+    });
+  });
+
+  it("should drop values out of range or unknown", () => {
+    const filters = parseSearchFilters(
+      new URLSearchParams(
+        "from=99&to=3000&rating=9&cover=yes&sort=popularity&category=%20"
+      )
+    );
+
+    expect(filters).toEqual({});
+  });
+});
+
+describe("writeSearchFilters", () => {
+  it("should set filters, remove cleared ones and reset the page", () => {
+    const params = writeSearchFilters(
+      new URLSearchParams("q=rome&page=3&lang=it&cover=1"),
+      { category: "History", minRating: 3, sortBy: "date" }
+    );
+
+    expect(params.toString()).toBe(
+      "q=rome&category=History&rating=3&sort=date"
+    );
+  });
+
+  it("should leave the default relevance sort out of the URL", () => {
+    const params = writeSearchFilters(new URLSearchParams("q=rome&sort=date"), {
+      sortBy: "relevance",
+    });
+
+    expect(params.toString()).toBe("q=rome");
+  });
+
+  it("should round-trip through parseSearchFilters", () => {
+    const filters = {
+      language: "fr",
+      publishedAfter: 1800,
+      hasDescription: true,
+      sortBy: "pageCount" as const,
+    };
+
+    expect(
+      parseSearchFilters(writeSearchFilters(new URLSearchParams(), filters))
+    ).toEqual(filters);
+  });
+});
+
+describe("countActiveFilters", () => {
+  it("should count a year range once and ignore the sort", () => {
+    expect(
+      countActiveFilters({
+        publishedAfter: 1990,
+        publishedBefore: 2010,
+        hasCover: true,
+        sortBy: "rating",
+      })
+    ).toBe(2);
+  });
+});
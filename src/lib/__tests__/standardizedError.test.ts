@@ -0,0 +1,58 @@
+/**
+ * Unit tests for mapping errors to standardized categories
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ErrorCategory,
+  ErrorFactories,
+  standardizeError,
+} from "../standardizedError";
+
+describe("standardizeError", () => {
+  it("maps quota refusals from Convex to the quota category", () => {
+    const error = standardizeError(
+      new Error(
+        "[CONVEX M(summaryJobs:enqueueSummaryJob)] [Request ID: 1a2b] Server Error\n" +
+          "Uncaught Error: Quota exceeded: You've used all 3 summary generations for today. Sign in for a higher limit.\n" +
+          "    at consumeGenerationQuota (../convex/summaryQuotas.ts:210:10)"
+      )
+    );
+
+    expect(error.category).toBe(ErrorCategory.QUOTA);
+    expect(error.userMessage).toBe(
+      "You've used all 3 summary generations for today. Sign in for a higher limit."
+    );
+    expect(error.retryable).toBe(false);
+    expect(error.statusCode).toBe(429);
+  });
+
+  it("does not treat quota messages mentioning sign-in as authorization errors", () => {
+    const error = standardizeError(
+      new Error(
+        "Quota exceeded: Summary generation without an account is paused for today. Sign in to keep generating."
+      )
+    );
+
+    expect(error.category).toBe(ErrorCategory.QUOTA);
+  });
+
+  it("keeps rate limits retryable and separate from quotas", () => {
+    const error = standardizeError(new Error("Rate limit exceeded"));
+
+    expect(error.category).toBe(ErrorCategory.API);
+    expect(error.retryable).toBe(true);
+  });
+});
+
+describe("ErrorFactories.quotaExceeded", () => {
+  it("falls back to a generic message without detail", () => {
+    const error = ErrorFactories.quotaExceeded();
+
+    expect(error.category).toBe(ErrorCategory.QUOTA);
+    expect(error.userMessage).toBe(
+      "You've reached your usage limit. Please try again later."
+    );
+    expect(error.suggestions).toContain("Sign in for higher limits");
+  });
+});
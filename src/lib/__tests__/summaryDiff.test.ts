@@ -0,0 +1,94 @@
+/**
+ * Unit tests for section-by-section summary revision diffs
+ */
+
+import { describe, it, expect } from "vitest";
+import { diffSummarySections, splitSummarySections } from "../summaryDiff";
+
+const before = `# Meditations
+
+Private notes on Stoic philosophy.
+
+## Key Points
+- Focus on what you control
+- Accept what you cannot change
+
+## Conclusion
+A timeless guide.`;
+
+describe("splitSummarySections", () => {
+  it("splits markdown at headings and drops blank lines", () => {
+    expect(splitSummarySections(before)).toEqual([
+      { heading: "Meditations", lines: ["Private notes on Stoic philosophy."] },
+      {
+        heading: "Key Points",
+        lines: [
+          "- Focus on what you control",
+          "- Accept what you cannot change",
+        ],
+      },
+      { heading: "Conclusion", lines: ["A timeless guide."] },
+    ]);
+  });
+
+  it("keeps text before the first heading as an untitled section", () => {
+    expect(splitSummarySections("Intro line\n\n## Next\nBody")).toEqual([
+      { heading: "", lines: ["Intro line"] },
+      { heading: "Next", lines: ["Body"] },
+    ]);
+  });
+});
+
+describe("diffSummarySections", () => {
+  it("marks identical revisions unchanged", () => {
+    const sections = diffSummarySections(before, before);
+
+    expect(sections.map((section) => section.status)).toEqual([
+      "unchanged",
+      "unchanged",
+      "unchanged",
+    ]);
+  });
+
+  it("diffs lines within sections paired by heading", () => {
+    const after = before.replace(
+      "- Accept what you cannot change",
+      "- Practice negative visualization"
+    );
+
+    const keyPoints = diffSummarySections(before, after)[1];
+    expect(keyPoints.status).toBe("changed");
+    expect(keyPoints.lines).toEqual([
+      { type: "same", text: "- Focus on what you control" },
+      { type: "removed", text: "- Accept what you cannot change" },
+      { type: "added", text: "- Practice negative visualization" },
+    ]);
+  });
+
+  it("pairs headings regardless of case and emphasis", () => {
+    const after = before.replace("## Key Points", "## **key points**");
+
+    expect(diffSummarySections(before, after)[1]).toMatchObject({
+      heading: "**key points**",
+      status: "unchanged",
+    });
+  });
+
+  it("reports added and removed sections in reading order", () => {
+    const after = before
+      .replace("## Conclusion\nA timeless guide.", "")
+      .concat("\n\n## Further Reading\n- Letters from a Stoic");
+
+    expect(
+      diffSummarySections(before, after).map(({ heading, status }) => [
+        heading,
+        status,
+      ])
+    ).toEqual([
+      ["Meditations", "unchanged"],
+      ["Key Points", "unchanged"],
+      ["Conclusion", "removed"],
+      ["Further Reading", "added"],
+    ]);
+  });
+});
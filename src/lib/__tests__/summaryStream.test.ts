@@ -0,0 +1,89 @@
+/**
+ * Unit tests for the streaming summary client
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { readSummaryStream } from "../summaryStream";
+import type { SummaryStreamEvent } from "@/types/summary";
+
+/** Build a byte stream from raw string chunks */
+const toStream = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+};
+
+const line = (event: SummaryStreamEvent) => JSON.stringify(event) + "\n";
+
+const result = {
+  content: "# Summary\n\nHello world",
+  generationTime: 1200,
+  aiModel: "gpt-4o-mini",
+  promptVersion: "v1.0",
+  generationMode: "primary" as const,
+  metadata: {
+    bookDataSource: "google-books" as const,
+    hadBookDescription: true,
+  },
+};
+
+describe("readSummaryStream", () => {
+  it("forwards deltas in order and resolves with the final result", async () => {
+    const onDelta = vi.fn();
+    const stream = toStream([
+      line({ type: "delta", content: "# Summary" }),
+      line({ type: "delta", content: "\n\nHello world" }),
+      line({ type: "done", result }),
+    ]);
+
+    await expect(readSummaryStream(stream, onDelta)).resolves.toEqual(result);
+    expect(onDelta.mock.calls.map(([delta]) => delta)).toEqual([
+      "# Summary",
+      "\n\nHello world",
+    ]);
+  });
+
+  it("reassembles events split across chunk boundaries", async () => {
+    const onDelta = vi.fn();
+    const payload =
+      line({ type: "delta", content: "partial" }) +
+      line({ type: "done", result });
+    const stream = toStream([
+      payload.slice(0, 7),
+      payload.slice(7, 40),
+      payload.slice(40),
+    ]);
+
+    await expect(readSummaryStream(stream, onDelta)).resolves.toEqual(result);
+    expect(onDelta).toHaveBeenCalledWith("partial");
+  });
+
+  it("handles a terminal event without a trailing newline", async () => {
+    const stream = toStream([JSON.stringify({ type: "done", result })]);
+
+    await expect(readSummaryStream(stream, vi.fn())).resolves.toEqual(result);
+  });
+
+  it("throws the server message on an error event", async () => {
+    const stream = toStream([
+      line({ type: "delta", content: "abc" }),
+      line({ type: "error", message: "OpenAI request timeout" }),
+    ]);
+
+    await expect(readSummaryStream(stream, vi.fn())).rejects.toThrow(
+      "OpenAI request timeout"
+    );
+  });
+
+  it("throws when the stream ends without a terminal event", async () => {
+    const stream = toStream([line({ type: "delta", content: "abc" })]);
+
+    await expect(readSummaryStream(stream, vi.fn())).rejects.toThrow(
+      "Summary stream ended unexpectedly"
+    );
+  });
+});
@@ -38,6 +38,7 @@ describe("SummaryAnalyticsService", () => {
     generationTime: 1500,
     aiModel: "gpt-3.5-turbo",
     promptVersion: "v1.0",
+    generationMode: "primary" as const,
     usage: {
       promptTokens: 100,
       completionTokens: 200,
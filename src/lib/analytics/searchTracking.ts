@@ -8,16 +8,19 @@
 import { ConvexReactClient } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { Id } from "../../../convex/_generated/dataModel";
+import type { SearchMode } from "../../types/discovery";
 
 interface SearchAnalyticsParams {
   /** Search query string */
   query: string;
+  /** Keyword search or natural-language prompt (default: searchMode) */
+  mode?: SearchMode;
   /** Number of results returned */
   resultCount: number;
   /** Time taken for search in milliseconds */
   searchTime: number;
   /** Data source used */
-  source: "google-books" | "open-library" | "combined" | "cache";
+  source: "google-books" | "open-library" | "combined" | "cache" | "ai";
   /** Whether result came from cache */
   cached: boolean;
   /** User ID if authenticated */
@@ -26,7 +29,7 @@ interface SearchAnalyticsParams {
 
 interface UserActivityParams {
   /** Type of user activity */
-  activityType: "search" | "favorite" | "comment";
+  activityType: "search" | "favorite" | "comment" | "quiz";
   /** Search term for search activities */
   searchTerm?: string;
   /** Book title for book-related activities */
@@ -72,7 +75,7 @@ export class SearchAnalyticsService {
       this.convex
         .mutation(api.analytics.logSearchQuery, {
           query: params.query.trim(),
-          mode: "searchMode" as const,
+          mode: params.mode ?? "searchMode",
           userId: params.userId,
           resultCount: params.resultCount,
           searchTime: params.searchTime,
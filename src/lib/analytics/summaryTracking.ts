@@ -22,8 +22,10 @@ interface SummaryGenerationTrackingParams {
   /** Type of summary generated */
   summaryType: SummaryType;
 
-  /** Generation result (success or failure) */
-  result: SummaryGenerationResult | { error: Error; generationTime: number };
+  /** Generation result (success or failure, with the assigned prompt variant) */
+  result:
+    | SummaryGenerationResult
+    | { error: Error; generationTime: number; promptVersion?: string };
 
   /** Whether result came from cache */
   cacheHit: boolean;
@@ -90,14 +92,17 @@ export class SummaryAnalyticsService {
       // Extract error information if generation failed
       let errorType: string | undefined;
       let errorMessage: string | undefined;
+      let failedPromptVersion: string | undefined;
 
       if (isError) {
         const errorResult = params.result as {
           error: Error;
           generationTime: number;
+          promptVersion?: string;
         };
         errorType = this.categorizeError(errorResult.error);
         errorMessage = errorResult.error.message;
+        failedPromptVersion = errorResult.promptVersion;
       }
 
       // Extract generation result data
@@ -119,7 +124,9 @@ export class SummaryAnalyticsService {
           errorType,
           errorMessage,
           aiModel: isError ? "unknown" : resultData!.aiModel,
-          promptVersion: isError ? "unknown" : resultData!.promptVersion,
+          promptVersion: isError
+            ? (failedPromptVersion ?? "unknown")
+            : resultData!.promptVersion,
           tokenUsage: isError
             ? undefined
             : resultData!.usage
@@ -0,0 +1,25 @@
+/**
+ * Client-held ID for signed-out visitors
+ *
+ * Convex has no stable identity for signed-out callers, so anonymous
+ * summary quotas are keyed by this ID, kept in localStorage. Clearing
+ * storage resets it; the server also caps all anonymous usage combined.
+ */
+
+const ANONYMOUS_ID_KEY = "anonymousId";
+
+/**
+ * Get this browser's anonymous ID, creating it on first use
+ *
+ * @returns The ID, or undefined outside the browser (e.g. during SSR)
+ */
+export function getAnonymousId(): string | undefined {
+  if (typeof window === "undefined") return undefined;
+
+  let id = localStorage.getItem(ANONYMOUS_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(ANONYMOUS_ID_KEY, id);
+  }
+  return id;
+}
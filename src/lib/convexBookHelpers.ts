@@ -32,6 +32,7 @@ export function convexBookToBook(convexBook: Doc<"books">): Book {
     originalId: convexBook.originalId,
     isBookOfTheDay: convexBook.isBookOfTheDay ?? false,
     seedReason: convexBook.seedReason ?? undefined,
+    provenance: convexBook.provenance,
   };
 }
 
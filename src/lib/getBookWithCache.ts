@@ -6,13 +6,16 @@ import { ConvexHttpClient } from "convex/browser";
 import { api } from "../../convex/_generated/api";
 import { createUnifiedSearchService } from "@/services/search/searchService";
 import { convexBookToBook, bookToConvexBook } from "@/lib/convexBookHelpers";
-import type { Book } from "@/types/book";
+import { BOOK_DETAILS_TTL_MS, type Book } from "@/types/book";
 
 /**
  * Get book details with Convex-first strategy
- * 1. Check Convex cache
- * 2. If not found, fetch from external API (without cache check)
- * 3. Persist to Convex and return
+ * 1. Check Convex cache; return it unless it is stale (never merged with
+ *    the other source, or merged over BOOK_DETAILS_TTL_MS ago)
+ * 2. Otherwise fetch from external API and merge in the other source's
+ *    details, trying cached records with the same ISBN first
+ * 3. Persist to Convex (with per-field provenance) and return; a stale
+ *    cached book is still returned if the refresh fails
  */
 export async function getBookWithCache(id: string): Promise<Book | null> {
   const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
@@ -29,22 +32,53 @@ export async function getBookWithCache(id: string): Promise<Book | null> {
     // Check Convex cache first
     const cachedBook = await convex.query(api.books.getBookById, { id });
 
-    if (cachedBook) {
+    const isStale =
+      !!cachedBook &&
+      (!cachedBook.provenance ||
+        Date.now() - cachedBook.cachedAt > BOOK_DETAILS_TTL_MS);
+
+    if (cachedBook && !isStale) {
       console.log("📚 Book found in Convex cache:", id);
       return convexBookToBook(cachedBook);
     }
 
-    console.log("🔍 Book not in cache, fetching from API:", id);
+    console.log(
+      cachedBook
+        ? "🔄 Cached book is stale, re-enriching from API:"
+        : "🔍 Book not in cache, fetching from API:",
+      id
+    );
 
-    // Not in cache, fetch from external API
+    // Not in cache (or stale), fetch from external API
     const searchService = createUnifiedSearchService();
 
-    const book = await searchService.getBookDetails(id);
+    let book: Book | null;
+    try {
+      book = await searchService.getBookDetails(id, undefined, {
+        findCachedByIsbn: async (isbns, source) => {
+          const matches = await convex.query(api.books.findBooksByIsbn, isbns);
+          const match = matches.find(
+            (candidate) => candidate.source === source
+          );
+          return match ? convexBookToBook(match) : null;
+        },
+      });
+    } catch (error) {
+      if (!cachedBook) throw error;
+      console.warn("Failed to re-enrich cached book:", error);
+      return convexBookToBook(cachedBook);
+    }
 
     // Persist to Convex if book was found
     if (book) {
       try {
-        await convex.mutation(api.books.upsertBook, bookToConvexBook(book));
+        await convex.mutation(api.books.cacheBookDetails, {
+          serverSecret: process.env.BOOK_CACHE_SECRET ?? "",
+          book: {
+            ...bookToConvexBook(book),
+            provenance: book.provenance ?? {},
+          },
+        });
         console.log("💾 Book persisted to Convex:", book.id);
       } catch (error) {
         console.warn("Failed to persist book to Convex:", error);
@@ -52,7 +86,7 @@ export async function getBookWithCache(id: string): Promise<Book | null> {
       }
     }
 
-    return book;
+    return book ?? (cachedBook && convexBookToBook(cachedBook));
   } catch (error) {
     console.error("Error in getBookWithCache:", error);
 
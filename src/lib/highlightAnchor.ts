@@ -0,0 +1,225 @@
+import type { HighlightAnchor } from "@/types/highlight";
+
+/**
+ * Highlight anchoring and re-anchoring
+ *
+ * A highlight is stored as its text plus a little context either side and
+ * its offset, all in the summary's rendered text. In the revision it was
+ * made on, the text is found verbatim; after a regeneration the passage
+ * usually survives with small edits, so it is searched for approximately
+ * (up to MAX_ERROR_RATE edits) near where it used to be.
+ */
+
+/** Characters of context stored either side of a highlight */
+export const HIGHLIGHT_CONTEXT_CHARS = 32;
+
+/** Most edits per character for a passage to count as found again */
+const MAX_ERROR_RATE = 0.25;
+
+/** Longer passages are re-anchored by their first and last characters */
+const MAX_FUZZY_PATTERN = 64;
+
+/** Characters matched at each end of a long passage */
+const EDGE_LENGTH = 32;
+
+/**
+ * Where a highlight was found in a text
+ */
+export interface ResolvedHighlight {
+  start: number;
+  end: number;
+
+  /** The passage was found verbatim */
+  exact: boolean;
+}
+
+/**
+ * Anchor for the passage text[start, end)
+ */
+export function createHighlightAnchor(
+  text: string,
+  start: number,
+  end: number,
+  sectionId?: string
+): HighlightAnchor {
+  return {
+    exact: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - HIGHLIGHT_CONTEXT_CHARS), start),
+    suffix: text.slice(end, end + HIGHLIGHT_CONTEXT_CHARS),
+    start,
+    sectionId,
+  };
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let n = 0;
+  while (
+    n < a.length &&
+    n < b.length &&
+    a[a.length - 1 - n] === b[b.length - 1 - n]
+  ) {
+    n++;
+  }
+  return n;
+}
+
+/**
+ * Best verbatim occurrence: most matching context, then nearest the old
+ * offset
+ */
+function findExact(text: string, anchor: HighlightAnchor): number | null {
+  let best: number | null = null;
+  let bestScore = -1;
+  let bestDistance = Infinity;
+
+  for (
+    let index = text.indexOf(anchor.exact);
+    index !== -1;
+    index = text.indexOf(anchor.exact, index + 1)
+  ) {
+    const end = index + anchor.exact.length;
+    const score =
+      commonSuffixLength(
+        text.slice(Math.max(0, index - anchor.prefix.length), index),
+        anchor.prefix
+      ) +
+      commonPrefixLength(
+        text.slice(end, end + anchor.suffix.length),
+        anchor.suffix
+      );
+    const distance = Math.abs(index - anchor.start);
+
+    if (score > bestScore || (score === bestScore && distance < bestDistance)) {
+      best = index;
+      bestScore = score;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Fewest edits turning the pattern into a substring of the text ending at
+ * each position (Sellers' algorithm)
+ */
+function approximateEnds(text: string, pattern: string): Uint16Array {
+  let row = new Uint16Array(text.length + 1);
+  for (let i = 1; i <= pattern.length; i++) {
+    const next = new Uint16Array(text.length + 1);
+    next[0] = i;
+    for (let j = 1; j <= text.length; j++) {
+      next[j] = Math.min(
+        row[j - 1] + (pattern[i - 1] === text[j - 1] ? 0 : 1),
+        row[j] + 1,
+        next[j - 1] + 1
+      );
+    }
+    row = next;
+  }
+  return row;
+}
+
+/**
+ * Position with the fewest edits, nearest `expected` among ties
+ */
+function bestPosition(
+  edits: Uint16Array,
+  maxErrors: number,
+  expected: number
+): number | null {
+  let best: number | null = null;
+  for (let j = 0; j < edits.length; j++) {
+    if (edits[j] > maxErrors) continue;
+    if (
+      best === null ||
+      edits[j] < edits[best] ||
+      (edits[j] === edits[best] &&
+        Math.abs(j - expected) < Math.abs(best - expected))
+    ) {
+      best = j;
+    }
+  }
+  return best;
+}
+
+const reverse = (value: string) => value.split("").reverse().join("");
+
+/**
+ * Approximate occurrence of a pattern nearest `expectedStart`
+ */
+function fuzzyFind(
+  text: string,
+  pattern: string,
+  expectedStart: number
+): { start: number; end: number } | null {
+  const maxErrors = Math.floor(pattern.length * MAX_ERROR_RATE);
+  const end = bestPosition(
+    approximateEnds(text, pattern),
+    maxErrors,
+    expectedStart + pattern.length
+  );
+  if (end === null) return null;
+
+  // The same search backwards from the end finds where the match starts
+  const windowStart = Math.max(0, end - pattern.length - maxErrors);
+  const length = bestPosition(
+    approximateEnds(reverse(text.slice(windowStart, end)), reverse(pattern)),
+    maxErrors,
+    pattern.length
+  );
+  if (length === null) return null;
+
+  return { start: end - length, end };
+}
+
+/**
+ * Find a highlight's passage in a (possibly regenerated) text
+ *
+ * @returns Where the passage is, or null if it no longer appears
+ */
+export function resolveHighlightAnchor(
+  text: string,
+  anchor: HighlightAnchor
+): ResolvedHighlight | null {
+  if (!anchor.exact) return null;
+
+  const start = findExact(text, anchor);
+  if (start !== null) {
+    return { start, end: start + anchor.exact.length, exact: true };
+  }
+
+  if (anchor.exact.length <= MAX_FUZZY_PATTERN) {
+    const match = fuzzyFind(text, anchor.exact, anchor.start);
+    return match && { ...match, exact: false };
+  }
+
+  // Long passages: find both ends, and accept them if they still span
+  // about as much text
+  const head = fuzzyFind(
+    text,
+    anchor.exact.slice(0, EDGE_LENGTH),
+    anchor.start
+  );
+  if (!head) return null;
+
+  const rest = text.slice(head.end);
+  const tail = fuzzyFind(
+    rest,
+    anchor.exact.slice(-EDGE_LENGTH),
+    anchor.exact.length - EDGE_LENGTH * 2
+  );
+  if (!tail) return null;
+
+  const end = head.end + tail.end;
+  const drift = Math.abs(end - head.start - anchor.exact.length);
+  if (drift > anchor.exact.length * MAX_ERROR_RATE) return null;
+
+  return { start: head.start, end, exact: false };
+}
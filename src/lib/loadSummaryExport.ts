@@ -0,0 +1,177 @@
+/**
+ * Server-side loading of everything a summary export renders
+ */
+import type { ConvexHttpClient } from "convex/browser";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import type { ExportCover, SummaryExportDocument } from "@/types/export";
+import type { SummaryHighlight } from "@/types/highlight";
+import {
+  DEFAULT_SUMMARY_LANGUAGE,
+  getSummaryTypeDescription,
+  parseStructuredSummary,
+} from "@/types/summary";
+
+const COVER_TIMEOUT_MS = 5000;
+const MAX_COVER_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Hosts covers are downloaded from (the cover hosts in next.config.ts)
+ *
+ * Cover URLs are stored book fields, so anything else is never fetched
+ * from the server.
+ */
+const COVER_HOSTS = new Set([
+  "books.google.com",
+  "covers.openlibrary.org",
+  "images-na.ssl-images-amazon.com",
+  "i.gr-assets.com",
+  "covers.feedbooks.net",
+]);
+
+function isCoverHost(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === "https:" && COVER_HOSTS.has(hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Cover image candidates, largest first (the order BookCover tries them)
+ */
+function getCoverUrls(book: Doc<"books"> | null): string[] {
+  if (!book) return [];
+  return [
+    book.largeThumbnail,
+    book.mediumThumbnail,
+    book.thumbnail,
+    book.smallThumbnail,
+  ]
+    .filter((url): url is string => Boolean(url))
+    .map((url) => url.replace(/^http:\/\//, "https://"));
+}
+
+/**
+ * Download the first cover from a cover host that is a JPEG or PNG
+ *
+ * Covers are decoration: failures are skipped, never thrown. Redirects
+ * count as failures, so a cover host can't send the request elsewhere.
+ */
+async function fetchCover(urls: string[]): Promise<ExportCover | undefined> {
+  for (const url of urls.filter(isCoverHost)) {
+    try {
+      const response = await fetch(url, {
+        redirect: "error",
+        signal: AbortSignal.timeout(COVER_TIMEOUT_MS),
+      });
+      if (!response.ok) continue;
+
+      const data = new Uint8Array(await response.arrayBuffer());
+      if (data.byteLength > MAX_COVER_BYTES) continue;
+
+      // Sniff the format - cover hosts often send generic content types
+      if (data[0] === 0xff && data[1] === 0xd8) {
+        return { data, contentType: "image/jpeg" };
+      }
+      if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e) {
+        return { data, contentType: "image/png" };
+      }
+    } catch (error) {
+      console.warn(`Failed to fetch cover ${url}:`, error);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load a summary, its book and its cover for export
+ *
+ * @param convex Server-side Convex client
+ * @param summaryId Summary to export
+ * @param revision Revision to export (the current one if omitted)
+ * @param options.cover Whether to download the cover (default true)
+ * @param options.userId Reader whose highlights and notes to include
+ * @returns null if the summary or revision doesn't exist, isn't completed,
+ *   or is mock content
+ */
+export async function loadSummaryExport(
+  convex: ConvexHttpClient,
+  summaryId: string,
+  revision?: number,
+  options: { cover?: boolean; userId?: string } = {}
+): Promise<SummaryExportDocument | null> {
+  const summary = (await convex.query(api.summaries.getSummaryById, {
+    summaryId,
+  })) as Doc<"summaries"> | null;
+  if (
+    !summary ||
+    summary.status !== "completed" ||
+    summary.generationMode === "mock"
+  ) {
+    return null;
+  }
+
+  let version: Pick<
+    Doc<"summaries">,
+    "content" | "structured" | "aiModel" | "promptVersion" | "generationMode"
+  > & { generatedAt: number } = {
+    ...summary,
+    generatedAt: summary.updatedAt,
+  };
+  if (revision !== undefined && revision !== summary.currentRevision) {
+    const revisionDoc = (await convex.query(api.summaryRevisions.getRevision, {
+      summaryId: summary._id as Id<"summaries">,
+      revision,
+    })) as Doc<"summaryRevisions"> | null;
+    if (!revisionDoc || revisionDoc.generationMode === "mock") {
+      return null;
+    }
+    version = { ...revisionDoc, generatedAt: revisionDoc.createdAt };
+  }
+
+  const book = await convex.query(api.books.getBookById, {
+    id: summary.bookId,
+  });
+
+  const highlights = options.userId
+    ? ((await convex.query(api.summaryHighlights.listHighlights, {
+        userId: options.userId,
+        summaryId: summary._id as Id<"summaries">,
+      })) as SummaryHighlight[])
+    : [];
+
+  return {
+    summaryId: summary._id,
+    summaryType: summary.summaryType,
+    summaryTypeLabel: getSummaryTypeDescription(summary.summaryType).title,
+    language: summary.language ?? DEFAULT_SUMMARY_LANGUAGE,
+    content: version.content,
+    structured: parseStructuredSummary(version.structured),
+    revision: revision ?? summary.currentRevision,
+    book: {
+      id: summary.bookId,
+      title: book?.title ?? summary.bookTitle,
+      authors: book?.authors ?? summary.bookAuthors,
+      publisher: book?.publisher,
+      publishedDate: book?.publishedDate,
+      pageCount: book?.pageCount,
+      categories: book?.categories,
+      isbn: book?.isbn13 ?? book?.isbn10,
+      infoLink: book?.infoLink,
+      coverUrl: getCoverUrls(book)[0],
+    },
+    cover:
+      options.cover === false
+        ? undefined
+        : await fetchCover(getCoverUrls(book)),
+    aiModel: version.aiModel,
+    promptVersion: version.promptVersion,
+    generatedAt: new Date(version.generatedAt),
+    highlights: highlights.map((highlight) => ({
+      text: highlight.anchor.exact,
+      note: highlight.note,
+    })),
+  };
+}
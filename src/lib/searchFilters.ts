@@ -0,0 +1,127 @@
+import type { SearchParams, SearchSort } from "@/types/book";
+
+/**
+ * Search filter URL state
+ *
+ * The /search page keeps its facets and sort in the URL so filtered
+ * searches can be shared and survive the back button:
+ * ?lang=en&from=1990&to=2010&category=History&rating=4&cover=1&description=1&sort=rating
+ */
+
+/** Facets and sort chosen in the filter panel */
+export type SearchFilters = Pick<
+  SearchParams,
+  | "language"
+  | "publishedAfter"
+  | "publishedBefore"
+  | "category"
+  | "minRating"
+  | "hasCover"
+  | "hasDescription"
+  | "sortBy"
+>;
+
+/**
+ * Sort options, in the order the filter panel lists them
+ *
+ * Rating and length only reorder the page of results shown (see
+ * searchFacets.ts), and say so.
+ */
+export const SEARCH_SORT_OPTIONS: Record<SearchSort, string> = {
+  relevance: "Relevance",
+  rating: "Highest rated (this page)",
+  date: "Newest",
+  pageCount: "Longest (this page)",
+};
+
+/** Earliest publication year the filter panel accepts */
+export const MIN_FILTER_YEAR = 1000;
+
+function parseYear(value: string | null): number | undefined {
+  const year = parseInt(value ?? "", 10);
+  return year >= MIN_FILTER_YEAR && year <= new Date().getFullYear()
+    ? year
+    : undefined;
+}
+
+/**
+ * Read filters from the /search URL, dropping values out of range
+ */
+export function parseSearchFilters(
+  searchParams: Pick<URLSearchParams, "get">
+): SearchFilters {
+  const filters: SearchFilters = {};
+
+  const language = searchParams.get("lang")?.trim();
+  if (language) filters.language = language;
+
+  const publishedAfter = parseYear(searchParams.get("from"));
+  if (publishedAfter) filters.publishedAfter = publishedAfter;
+  const publishedBefore = parseYear(searchParams.get("to"));
+  if (publishedBefore) filters.publishedBefore = publishedBefore;
+
+  const category = searchParams.get("category")?.trim().slice(0, 100);
+  if (category) filters.category = category;
+
+  const minRating = parseInt(searchParams.get("rating") ?? "", 10);
+  if (minRating >= 1 && minRating <= 5) filters.minRating = minRating;
+
+  if (searchParams.get("cover") === "1") filters.hasCover = true;
+  if (searchParams.get("description") === "1") filters.hasDescription = true;
+
+  const sortBy = searchParams.get("sort");
+  if (sortBy && sortBy !== "relevance" && sortBy in SEARCH_SORT_OPTIONS) {
+    filters.sortBy = sortBy as SearchSort;
+  }
+
+  return filters;
+}
+
+/**
+ * Write filters to a copy of the /search URL params
+ *
+ * Unset filters (and the default relevance sort) are removed, and the page
+ * is reset since the results change.
+ */
+export function writeSearchFilters(
+  searchParams: URLSearchParams,
+  filters: SearchFilters
+): URLSearchParams {
+  const params = new URLSearchParams(searchParams);
+
+  const values: Record<string, string | undefined> = {
+    lang: filters.language,
+    from: filters.publishedAfter?.toString(),
+    to: filters.publishedBefore?.toString(),
+    category: filters.category?.trim(),
+    rating: filters.minRating?.toString(),
+    cover: filters.hasCover ? "1" : undefined,
+    description: filters.hasDescription ? "1" : undefined,
+    sort: filters.sortBy !== "relevance" ? filters.sortBy : undefined,
+  };
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+  }
+  params.delete("page");
+
+  return params;
+}
+
+/**
+ * Number of facets set, not counting the sort
+ */
+export function countActiveFilters(filters: SearchFilters): number {
+  return [
+    filters.language,
+    filters.publishedAfter || filters.publishedBefore,
+    filters.category,
+    filters.minRating,
+    filters.hasCover,
+    filters.hasDescription,
+  ].filter(Boolean).length;
+}
@@ -23,6 +23,8 @@ export enum ErrorCategory {
   RUNTIME = "RUNTIME",
   /** User permission/authorization errors */
   AUTHORIZATION = "AUTHORIZATION",
+  /** Per-user usage quota or spend budget exhausted */
+  QUOTA = "QUOTA",
 }
 
 /**
@@ -173,6 +175,34 @@ export const ErrorFactories = {
       context,
     }),
 
+  /**
+   * Usage quota exceeded (e.g. daily summary generations)
+   *
+   * Unlike a rate limit, retrying soon won't help: the quota resets with
+   * its period, or is raised by signing in.
+   */
+  quotaExceeded: (
+    detail?: string,
+    originalError?: Error,
+    context?: Record<string, unknown>
+  ) =>
+    createStandardizedError({
+      category: ErrorCategory.QUOTA,
+      severity: ErrorSeverity.MEDIUM,
+      userMessage:
+        detail || "You've reached your usage limit. Please try again later.",
+      technicalMessage: `Quota exceeded${detail ? `: ${detail}` : ""}`,
+      suggestions: [
+        "Wait for your quota to reset (daily limits reset at midnight UTC)",
+        "Sign in for higher limits",
+        "Read summaries that have already been generated",
+      ],
+      retryable: false,
+      statusCode: 429,
+      originalError,
+      context,
+    }),
+
   /**
    * Invalid user input
    */
@@ -315,6 +345,13 @@ export function standardizeError(
     // Check for common error patterns
     const message = error.message.toLowerCase();
 
+    // Before the generic patterns: quota messages may mention sign-in
+    if (message.includes("quota exceeded")) {
+      // Convex wraps server messages with the function name and a stack
+      const detail = error.message.match(/quota exceeded:\s*(.+)/i)?.[1];
+      return ErrorFactories.quotaExceeded(detail?.trim(), error, context);
+    }
+
     if (message.includes("network") || message.includes("fetch")) {
       return ErrorFactories.network(error, context);
     }
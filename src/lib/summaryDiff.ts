@@ -0,0 +1,158 @@
+/**
+ * Section-by-section comparison of two summary revisions
+ *
+ * Summaries are markdown with headings, so revisions are compared per
+ * section: sections are paired by heading, and paired sections are diffed
+ * line by line. A renamed heading shows as one section removed and one
+ * added.
+ */
+
+/** A heading and the lines under it */
+export interface SummarySection {
+  /** Heading text without the #'s ("" for text before the first heading) */
+  heading: string;
+  /** Non-empty lines under the heading, trimmed */
+  lines: string[];
+}
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface SectionDiff {
+  heading: string;
+  status: "unchanged" | "changed" | "added" | "removed";
+  lines: DiffLine[];
+}
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+/**
+ * Split markdown into sections at each heading
+ */
+export function splitSummarySections(markdown: string): SummarySection[] {
+  const sections: SummarySection[] = [{ heading: "", lines: [] }];
+
+  for (const rawLine of markdown.split("\n")) {
+    const line = rawLine.trim();
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      sections.push({ heading: heading[1], lines: [] });
+    } else if (line) {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  // Drop the leading section when the summary opens with a heading
+  return sections[0].lines.length > 0 ? sections : sections.slice(1);
+}
+
+/**
+ * Longest common subsequence alignment of two sequences by key
+ *
+ * @returns Index pairs, in order, with -1 for an element only on one side
+ */
+function align<T>(
+  before: T[],
+  after: T[],
+  key: (item: T) => string
+): Array<[number, number]> {
+  const a = before.map(key);
+  const b = after.map(key);
+
+  // lengths[i][j] = LCS length of a[i:] and b[j:]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pairs.push([i++, -1]);
+    } else {
+      pairs.push([-1, j++]);
+    }
+  }
+  while (i < a.length) pairs.push([i++, -1]);
+  while (j < b.length) pairs.push([-1, j++]);
+
+  return pairs;
+}
+
+/**
+ * Normalize a heading for pairing (case, spacing and emphasis ignored)
+ */
+function headingKey(section: SummarySection): string {
+  return section.heading
+    .replace(/[*_`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Diff the lines of two paired sections
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  return align(before, after, (line) => line).map(([i, j]) => {
+    if (i >= 0 && j >= 0) return { type: "same", text: after[j] };
+    if (i >= 0) return { type: "removed", text: before[i] };
+    return { type: "added", text: after[j] };
+  });
+}
+
+/**
+ * Compare two revisions of a summary section by section
+ *
+ * @param before Markdown of the older revision
+ * @param after Markdown of the newer revision
+ * @returns Sections in reading order, each with its status and line diff
+ */
+export function diffSummarySections(
+  before: string,
+  after: string
+): SectionDiff[] {
+  const beforeSections = splitSummarySections(before);
+  const afterSections = splitSummarySections(after);
+
+  return align(beforeSections, afterSections, headingKey).map(([i, j]) => {
+    if (i >= 0 && j >= 0) {
+      const lines = diffLines(beforeSections[i].lines, afterSections[j].lines);
+      return {
+        heading: afterSections[j].heading,
+        status: lines.every((line) => line.type === "same")
+          ? "unchanged"
+          : "changed",
+        lines,
+      };
+    }
+    if (i >= 0) {
+      return {
+        heading: beforeSections[i].heading,
+        status: "removed",
+        lines: beforeSections[i].lines.map((text) => ({
+          type: "removed",
+          text,
+        })),
+      };
+    }
+    return {
+      heading: afterSections[j].heading,
+      status: "added",
+      lines: afterSections[j].lines.map((text) => ({ type: "added", text })),
+    };
+  });
+}
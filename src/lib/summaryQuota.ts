@@ -0,0 +1,74 @@
+/**
+ * Server-side quota charging for summaries generated outside Convex jobs
+ *
+ * The streaming and full-text routes and the generateBookSummary server
+ * action call providers from Next.js, so they charge the caller here
+ * instead of trusting the browser to: one generation before the provider
+ * is called, then the provider-reported cost once it finishes. Signed-in
+ * callers are identified by their Clerk session, signed-out callers by the
+ * anonymous ID their browser sends.
+ */
+import { auth } from "@clerk/nextjs/server";
+import { ConvexHttpClient } from "convex/browser";
+import { api } from "../../convex/_generated/api";
+
+export interface GenerationReservation {
+  /** Add the provider-reported cost to the charged subject's spend */
+  recordCost(estimatedCost: number | undefined): Promise<void>;
+}
+
+/**
+ * Charge the caller one generation, before any provider call
+ *
+ * @throws Error starting "Quota exceeded:" when a limit is reached
+ */
+export async function reserveSummaryGeneration(
+  anonymousId?: string
+): Promise<GenerationReservation> {
+  const convex = new ConvexHttpClient(process.env.NEXT_PUBLIC_CONVEX_URL!);
+  const { getToken } = await auth();
+  const token = await getToken({ template: "convex" });
+  if (token) {
+    convex.setAuth(token);
+  }
+
+  let subject: string;
+  try {
+    subject = await convex.mutation(api.summaryQuotas.reserveGeneration, {
+      anonymousId,
+    });
+  } catch (error) {
+    // Convex wraps server messages with the function name and a stack
+    const quotaMessage =
+      error instanceof Error && error.message.match(/Quota exceeded:[^\n]*/);
+    throw quotaMessage ? new Error(quotaMessage[0]) : error;
+  }
+
+  return {
+    async recordCost(estimatedCost) {
+      if (!estimatedCost || estimatedCost <= 0) return;
+      try {
+        await convex.mutation(api.summaryQuotas.recordGenerationSpend, {
+          serverSecret: process.env.SUMMARY_QUOTA_SECRET ?? "",
+          subject,
+          estimatedCost,
+        });
+      } catch (error) {
+        // The summary is already written; losing its cost must not lose it
+        console.error("Failed to record summary generation cost:", error);
+      }
+    },
+  };
+}
+
+/**
+ * Response for a generation request the quota check turned away
+ */
+export function reservationErrorResponse(error: unknown): Response {
+  const message =
+    error instanceof Error ? error.message : "Failed to check summary quota";
+  return Response.json(
+    { error: message },
+    { status: message.startsWith("Quota exceeded") ? 429 : 503 }
+  );
+}
@@ -0,0 +1,203 @@
+import type { Book } from "../types/book";
+import type {
+  SummaryGenerationOptions,
+  SummaryGenerationResult,
+  SummaryStreamEvent,
+  SummaryType,
+} from "../types/summary";
+import { getAnonymousId } from "./anonymousId";
+
+/**
+ * Client for the streaming summary endpoint
+ *
+ * Reads the newline-delimited JSON event stream produced by
+ * /api/summaries/stream (and /api/summaries/source), forwarding content
+ * deltas as they arrive and resolving with the final generation result.
+ * Requests carry this browser's anonymous ID, which the endpoints charge
+ * the quota to for signed-out callers.
+ */
+
+export const SUMMARY_STREAM_ENDPOINT = "/api/summaries/stream";
+export const SOURCE_SUMMARY_ENDPOINT = "/api/summaries/source";
+
+/**
+ * Full-text source for a grounded summary: an uploaded file, or a path
+ * under the server's SUMMARY_SOURCE_DIR
+ */
+export type SummarySourceInput = { file: File } | { localPath: string };
+
+/** Called as map-phase chunks finish (source-grounded summaries only) */
+export type SummaryProgressHandler = (completed: number, total: number) => void;
+
+/**
+ * Parse a newline-delimited JSON stream of summary events
+ *
+ * @param body Response body stream
+ * @param onDelta Called with each content delta, in order
+ * @param onProgress Called with each map-phase progress event
+ * @returns The result carried by the terminal `done` event
+ * @throws Error with the server message on an `error` event, or if the
+ *   stream ends without a terminal event
+ */
+export async function readSummaryStream(
+  body: ReadableStream<Uint8Array>,
+  onDelta: (delta: string) => void,
+  onProgress?: SummaryProgressHandler
+): Promise<SummaryGenerationResult> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (line: string): SummaryGenerationResult | undefined => {
+    if (!line.trim()) return undefined;
+
+    const event = JSON.parse(line) as SummaryStreamEvent;
+    switch (event.type) {
+      case "delta":
+        onDelta(event.content);
+        return undefined;
+      case "progress":
+        onProgress?.(event.completed, event.total);
+        return undefined;
+      case "done":
+        return event.result;
+      case "error":
+        throw new Error(event.message);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      // Keep the trailing partial line for the next chunk
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const result = handleLine(line);
+        if (result) return result;
+      }
+    }
+
+    const result = handleLine(buffer + decoder.decode());
+    if (result) return result;
+  } finally {
+    reader.releaseLock();
+  }
+
+  throw new Error("Summary stream ended unexpectedly");
+}
+
+/**
+ * Error message from a rejected summary request's JSON body, if any
+ *
+ * Request errors (quota exhausted, unreadable file, too long) come back
+ * as JSON before any event is streamed.
+ */
+async function readRequestError(
+  response: Response
+): Promise<string | undefined> {
+  return response
+    .json()
+    .then((body: { error?: string }) => body.error)
+    .catch(() => undefined);
+}
+
+/**
+ * Request a streamed summary and read it to completion
+ *
+ * @param book Book to summarize
+ * @param summaryType Type of summary to generate
+ * @param onDelta Called with each content delta
+ * @param options Optional provider/model/template/prompt variant/language selection
+ * @param signal Optional abort signal to cancel the request
+ */
+export async function fetchSummaryStream(
+  book: Book,
+  summaryType: SummaryType,
+  onDelta: (delta: string) => void,
+  options: Pick<
+    SummaryGenerationOptions,
+    "provider" | "model" | "template" | "promptVersion" | "language"
+  > = {},
+  signal?: AbortSignal
+): Promise<SummaryGenerationResult> {
+  const response = await fetch(SUMMARY_STREAM_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      book,
+      summaryType,
+      ...options,
+      anonymousId: getAnonymousId(),
+    }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(
+      (await readRequestError(response)) ??
+        `Summary stream request failed with status ${response.status}`
+    );
+  }
+
+  return readSummaryStream(response.body, onDelta);
+}
+
+/**
+ * Request a summary grounded in a full-text source and read it to completion
+ *
+ * @param book Book to summarize
+ * @param summaryType Type of summary to generate
+ * @param source Uploaded file or server-local path
+ * @param onDelta Called with each content delta of the final summary
+ * @param options Optional provider/model/template/prompt variant/language selection
+ * @param signal Optional abort signal to cancel the request
+ * @param onProgress Called as map-phase chunks finish
+ */
+export async function fetchSourceSummaryStream(
+  book: Book,
+  summaryType: SummaryType,
+  source: SummarySourceInput,
+  onDelta: (delta: string) => void,
+  options: Pick<
+    SummaryGenerationOptions,
+    "provider" | "model" | "template" | "promptVersion" | "language"
+  > = {},
+  signal?: AbortSignal,
+  onProgress?: SummaryProgressHandler
+): Promise<SummaryGenerationResult> {
+  const form = new FormData();
+  form.set("book", JSON.stringify(book));
+  form.set("summaryType", summaryType);
+  if (options.provider) form.set("provider", options.provider);
+  if (options.model) form.set("model", options.model);
+  if (options.template) form.set("template", JSON.stringify(options.template));
+  if (options.promptVersion) form.set("promptVersion", options.promptVersion);
+  if (options.language) form.set("language", options.language);
+  const anonymousId = getAnonymousId();
+  if (anonymousId) form.set("anonymousId", anonymousId);
+  if ("file" in source) {
+    form.set("file", source.file);
+  } else {
+    form.set("localPath", source.localPath);
+  }
+
+  const response = await fetch(SOURCE_SUMMARY_ENDPOINT, {
+    method: "POST",
+    body: form,
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(
+      (await readRequestError(response)) ??
+        `Source summary request failed with status ${response.status}`
+    );
+  }
+
+  return readSummaryStream(response.body, onDelta, onProgress);
+}
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for book chat context, citations and answers
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildBookChatContext,
+  extractCitations,
+  MAX_CONTEXT_CHARS,
+  type ChatSummarySource,
+} from "@/services/chat/bookChatContext";
+import { streamBookChatAnswer } from "@/services/chat/answerQuestion";
+import {
+  buildChatSystemPrompt,
+  buildChatUserPrompt,
+} from "@/services/chat/chatPrompts";
+import type { BookChatStreamEvent } from "@/types/chat";
+import { meditations as book } from "@/test/fixtures/books";
+
+const concise: ChatSummarySource = {
+  id: "summary-concise",
+  summaryType: "concise",
+  content: [
+    "Notes written by an emperor to himself.",
+    "",
+    "## Key Ideas",
+    "",
+    "Focus on what you control and accept the rest.",
+    "",
+    "## The View From Above",
+    "",
+    "Picture the world from a great height to shrink your worries.",
+  ].join("\n"),
+};
+
+const practical: ChatSummarySource = {
+  id: "summary-practical",
+  summaryType: "practical",
+  content: "## Morning Practice\n\nPrepare each morning for difficult people.",
+};
+
+async function collect(
+  stream: AsyncGenerator<BookChatStreamEvent>
+): Promise<BookChatStreamEvent[]> {
+  const events: BookChatStreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("buildBookChatContext", () => {
+  it("numbers passages across every summary type", () => {
+    const context = buildBookChatContext(book, [concise, practical]);
+
+    expect(
+      context.passages.map((passage) => [passage.ref, passage.heading])
+    ).toEqual([
+      ["S1", "Overview"],
+      ["S2", "Key Ideas"],
+      ["S3", "The View From Above"],
+      ["S4", "Morning Practice"],
+    ]);
+    expect(context.passages[1]).toMatchObject({
+      summaryId: "summary-concise",
+      summaryTypeLabel: "Concise Summary",
+      sectionId: "key-ideas",
+    });
+  });
+
+  it("keeps one summary per type, preferring the reader's language", () => {
+    const german = {
+      ...concise,
+      id: "summary-concise-de",
+      content:
+        "## Kernideen\n\nKonzentriere dich auf das, was du kontrollierst.",
+      language: "de",
+    };
+
+    const context = buildBookChatContext(book, [concise, german], "de");
+
+    expect(context.passages.map((passage) => passage.summaryId)).toEqual([
+      "summary-concise-de",
+    ]);
+  });
+
+  it("shortens passages to fit the context budget", () => {
+    const long = {
+      ...concise,
+      content: Array.from(
+        { length: 20 },
+        (_, i) => `## Part ${i + 1}\n\n${"word ".repeat(600)}`
+      ).join("\n\n"),
+    };
+
+    const context = buildBookChatContext(book, [long]);
+    const total = context.passages.reduce(
+      (sum, passage) => sum + passage.content.length,
+      0
+    );
+
+    expect(context.passages).toHaveLength(20);
+    expect(total).toBeLessThanOrEqual(MAX_CONTEXT_CHARS);
+    expect(context.passages[0].content.endsWith("…")).toBe(true);
+  });
+});
+
+describe("extractCitations", () => {
+  it("resolves markers to sections and removes them", () => {
+    const { passages } = buildBookChatContext(book, [concise, practical]);
+
+    const { content, citations } = extractCitations(
+      "Focus on what you control [S2]. Start each day prepared [S4, S2]. Made up [S9].",
+      passages
+    );
+
+    expect(content).toBe(
+      "Focus on what you control. Start each day prepared. Made up."
+    );
+    expect(citations.map((citation) => citation.heading)).toEqual([
+      "Key Ideas",
+      "Morning Practice",
+    ]);
+  });
+});
+
+describe("streamBookChatAnswer", () => {
+  it("grounds the prompt in the passages and earlier turns", () => {
+    const context = buildBookChatContext(book, [concise]);
+    const system = buildChatSystemPrompt("fr");
+    const user = buildChatUserPrompt({
+      context,
+      history: [{ role: "user", content: "Who wrote it?" }],
+      question: "What should I focus on?",
+    });
+
+    expect(system).toContain("[S1]");
+    expect(system).toContain("Answer in French");
+    expect(user).toContain("[S2] Concise Summary - Key Ideas");
+    expect(user).toContain("Private notes on Stoic philosophy.");
+    expect(user).toContain("Reader: Who wrote it?");
+    expect(user.endsWith("What should I focus on?")).toBe(true);
+  });
+
+  it("streams an answer citing the best matching section", async () => {
+    const context = buildBookChatContext(book, [concise, practical]);
+
+    const events = await collect(
+      streamBookChatAnswer(
+        book,
+        context,
+        [],
+        "What should I do in the morning practice?",
+        { provider: "fake" }
+      )
+    );
+    const done = events[events.length - 1];
+
+    expect(events.some((event) => event.type === "delta")).toBe(true);
+    expect(done.type).toBe("done");
+    if (done.type !== "done") return;
+    expect(done.answer.content).not.toContain("[S");
+    expect(done.answer.citations).toEqual([
+      {
+        summaryId: "summary-practical",
+        summaryType: "practical",
+        summaryTypeLabel: "Practical Takeaways",
+        sectionId: "morning-practice",
+        heading: "Morning Practice",
+      },
+    ]);
+    expect(done.answer.provider).toBe("fake");
+    expect(done.answer.usage?.totalTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for multi-book comparisons
+ */
+
+import { describe, it, expect } from "vitest";
+import { streamBookComparison } from "@/services/comparison/compareBooks";
+import {
+  buildComparisonSystemPrompt,
+  buildComparisonUserPrompt,
+  COMPARISON_HEADINGS,
+} from "@/services/comparison/comparisonPrompts";
+import type { Book } from "@/types/book";
+import {
+  getComparisonTitle,
+  type BookComparisonStreamEvent,
+} from "@/types/comparison";
+
+const atomicHabits: Book = {
+  id: "google-books-AH1",
+  title: "Atomic Habits",
+  authors: ["James Clear"],
+  description:
+    "Tiny changes compound into remarkable results. A guide to building good habits.",
+  categories: ["Self-Help"],
+  source: "google-books",
+  originalId: "AH1",
+};
+
+const powerOfHabit: Book = {
+  id: "google-books-PH1",
+  title: "The Power of Habit",
+  authors: ["Charles Duhigg"],
+  description: "Habits run on a loop of cue, routine and reward.",
+  categories: ["Psychology"],
+  source: "google-books",
+  originalId: "PH1",
+};
+
+const deepWork: Book = {
+  id: "open-library-OL2W",
+  title: "Deep Work",
+  authors: ["Cal Newport"],
+  source: "open-library",
+  originalId: "OL2W",
+};
+
+async function collect(
+  stream: AsyncGenerator<BookComparisonStreamEvent>
+): Promise<BookComparisonStreamEvent[]> {
+  const events: BookComparisonStreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("getComparisonTitle", () => {
+  it("joins two books with vs and more with commas", () => {
+    expect(getComparisonTitle([atomicHabits, powerOfHabit])).toBe(
+      "Atomic Habits vs The Power of Habit"
+    );
+    expect(getComparisonTitle([atomicHabits, powerOfHabit, deepWork])).toBe(
+      "Atomic Habits, The Power of Habit and Deep Work"
+    );
+  });
+});
+
+describe("comparison prompts", () => {
+  it("describes every book and asks for the comparison sections", () => {
+    const system = buildComparisonSystemPrompt(3, "de");
+    const user = buildComparisonUserPrompt([
+      atomicHabits,
+      powerOfHabit,
+      deepWork,
+    ]);
+
+    expect(system).toContain("comparison of 3 books");
+    expect(system).toContain(COMPARISON_HEADINGS.join(", "));
+    expect(system).toContain("in German");
+    expect(user).toContain("### Book 2\n**Title:** The Power of Habit");
+    expect(user).toContain("**Categories:** Psychology");
+    expect(user).toContain("Habits run on a loop of cue, routine and reward.");
+    expect(user).toContain("*No description available");
+  });
+});
+
+describe("streamBookComparison", () => {
+  it("streams a structured comparison of every book", async () => {
+    const events = await collect(
+      streamBookComparison([atomicHabits, powerOfHabit], { provider: "fake" })
+    );
+    const done = events[events.length - 1];
+
+    expect(events.some((event) => event.type === "delta")).toBe(true);
+    expect(done.type).toBe("done");
+    if (done.type !== "done") return;
+    expect(done.result.provider).toBe("fake");
+    expect(done.result.content).toContain("| Atomic Habits |");
+    expect(
+      done.result.structured?.sections.map((section) => section.heading)
+    ).toEqual(COMPARISON_HEADINGS);
+    expect(done.result.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it.each([
+    ["a single book", [atomicHabits]],
+    ["the same book twice", [atomicHabits, atomicHabits]],
+  ])("refuses %s", async (_, books) => {
+    const events = await collect(
+      streamBookComparison(books, { provider: "fake" })
+    );
+
+    expect(events).toEqual([
+      { type: "error", message: "Pick 2 to 5 different books to compare" },
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Unit tests for prompt mode book discovery
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  discoverBooks,
+  matchesDiscoveryFacets,
+  parseDiscoveryResponse,
+  resolveDiscoveryPlan,
+} from "@/services/discovery/discoverBooks";
+import {
+  buildDiscoverySystemPrompt,
+  buildDiscoveryUserPrompt,
+} from "@/services/discovery/discoveryPrompts";
+import type { Book, SearchParams, SearchResults } from "@/types/book";
+import { DISCOVERY_CANDIDATE_COUNT } from "@/types/discovery";
+import { makeBook } from "@/test/fixtures/books";
+
+function makeResults(books: Book[], query = ""): SearchResults {
+  return {
+    books,
+    totalItems: books.length,
+    startIndex: 0,
+    itemsPerPage: books.length,
+    hasMore: false,
+    query,
+    source: "google-books",
+  };
+}
+
+const meditations = makeBook("M1", { title: "Meditations", pageCount: 256 });
+const letters = makeBook("L1", {
+  title: "Letters from a Stoic",
+  pageCount: 254,
+});
+const obstacle = makeBook("O1", {
+  title: "The Obstacle Is the Way",
+  pageCount: 224,
+});
+
+describe("parseDiscoveryResponse", () => {
+  it("should parse candidates and facets, tolerating fences", () => {
+    const plan = parseDiscoveryResponse(`\`\`\`json
+{"candidates": [{"title": "Meditations", "author": "Marcus Aurelius", "rationale": "Short daily reflections."}],
+ "facets": {"subjects": ["Stoicism"], "maxPageCount": 250}}
+\`\`\``);
+
+    expect(plan).toEqual({
+      candidates: [
+        {
+          title: "Meditations",
+          author: "Marcus Aurelius",
+          rationale: "Short daily reflections.",
+        },
+      ],
+      facets: { subjects: ["Stoicism"], maxPageCount: 250 },
+    });
+  });
+
+  it("should drop malformed candidates and facets", () => {
+    const plan = parseDiscoveryResponse(
+      JSON.stringify({
+        candidates: [
+          { title: "", rationale: "No title" },
+          { title: "Meditations" },
+          { title: "Letters from a Stoic", rationale: "Practical letters." },
+        ],
+        facets: { language: "English", maxPageCount: "short" },
+      })
+    );
+
+    expect(plan.candidates).toHaveLength(1);
+    expect(plan.candidates[0].title).toBe("Letters from a Stoic");
+    expect(plan.facets.language).toBeUndefined();
+    expect(plan.facets.maxPageCount).toBeUndefined();
+  });
+
+  it("should cap the number of candidates", () => {
+    const candidates = Array.from({ length: 20 }, (_, index) => ({
+      title: `Book ${index}`,
+      rationale: "Fits.",
+    }));
+
+    const plan = parseDiscoveryResponse(JSON.stringify({ candidates }));
+
+    expect(plan.candidates).toHaveLength(DISCOVERY_CANDIDATE_COUNT);
+    expect(plan.facets).toEqual({});
+  });
+
+  it("should reject responses without candidates", () => {
+    expect(() => parseDiscoveryResponse("I suggest Meditations.")).toThrow(
+      "not JSON"
+    );
+    expect(() => parseDiscoveryResponse('{"books": []}')).toThrow(
+      "missing candidates"
+    );
+  });
+});
+
+describe("matchesDiscoveryFacets", () => {
+  it("should filter by page count and publication year", () => {
+    const facets = { maxPageCount: 250, publishedAfter: 2010 };
+
+    expect(matchesDiscoveryFacets(obstacle, facets)).toBe(true);
+    expect(matchesDiscoveryFacets(meditations, facets)).toBe(false);
+    expect(
+      matchesDiscoveryFacets(
+        { ...obstacle, publishedDate: "2004-05-01" },
+        facets
+      )
+    ).toBe(false);
+  });
+
+  it("should let books with unknown details through", () => {
+    expect(
+      matchesDiscoveryFacets(makeBook("X", { title: "Unknown" }), {
+        maxPageCount: 100,
+        publishedAfter: 2020,
+      })
+    ).toBe(true);
+  });
+});
+
+describe("resolveDiscoveryPlan", () => {
+  let searchBooks: ReturnType<
+    typeof vi.fn<(params: SearchParams) => Promise<SearchResults>>
+  >;
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    searchBooks = vi.fn(async (params: SearchParams) => {
+      const byTitle: Record<string, Book[]> = {
+        Meditations: [meditations],
+        "Letters from a Stoic": [letters],
+        "The Obstacle Is the Way": [obstacle],
+        Stoicism: [
+          letters,
+          obstacle,
+          makeBook("S1", { title: "How to Be a Stoic" }),
+        ],
+      };
+      return makeResults(byTitle[params.query] ?? [], params.query);
+    });
+  });
+
+  it("should keep the model's ranking and rationales", async () => {
+    const { books, rationales } = await resolveDiscoveryPlan(
+      {
+        candidates: [
+          { title: "Letters from a Stoic", rationale: "Practical letters." },
+          { title: "Meditations", author: "Marcus", rationale: "Reflections." },
+        ],
+        facets: { language: "en" },
+      },
+      { searchBooks }
+    );
+
+    expect(books.map((book) => book.title)).toEqual([
+      "Letters from a Stoic",
+      "Meditations",
+    ]);
+    expect(rationales[meditations.id]).toBe("Reflections.");
+    expect(searchBooks).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: "Meditations",
+        authorQuery: "Marcus",
+        language: "en",
+      })
+    );
+  });
+
+  it("should drop candidates that fail, aren't found or miss the facets", async () => {
+    searchBooks.mockImplementationOnce(async () => {
+      throw new Error("Rate limit exceeded");
+    });
+
+    const { books } = await resolveDiscoveryPlan(
+      {
+        candidates: [
+          { title: "Letters from a Stoic", rationale: "Practical letters." },
+          { title: "Made Up Book", rationale: "Doesn't exist." },
+          { title: "Meditations", rationale: "Too long." },
+          { title: "The Obstacle Is the Way", rationale: "Short and modern." },
+        ],
+        facets: { maxPageCount: 250 },
+      },
+      { searchBooks }
+    );
+
+    expect(books.map((book) => book.title)).toContain(
+      "The Obstacle Is the Way"
+    );
+    expect(books.map((book) => book.title)).not.toContain("Meditations");
+  });
+
+  it("should fill a short list from the subjects without duplicates", async () => {
+    const { books, rationales } = await resolveDiscoveryPlan(
+      {
+        candidates: [
+          { title: "Letters from a Stoic", rationale: "Practical letters." },
+        ],
+        facets: { subjects: ["Stoicism"] },
+      },
+      { searchBooks }
+    );
+
+    expect(books.map((book) => book.title)).toEqual([
+      "Letters from a Stoic",
+      "The Obstacle Is the Way",
+      "How to Be a Stoic",
+    ]);
+    expect(rationales[letters.id]).toBe("Practical letters.");
+    expect(rationales[obstacle.id]).toBe("A popular book on Stoicism.");
+  });
+});
+
+describe("discoverBooks", () => {
+  it("should build a JSON discovery prompt", () => {
+    const system = buildDiscoverySystemPrompt(5);
+    const user = buildDiscoveryUserPrompt("a short book on stoicism");
+
+    expect(system).toContain("suggest 5 real, published books");
+    expect(system).toContain('"maxPageCount"');
+    expect(user).toContain("a short book on stoicism");
+  });
+
+  it("should return ranked results from the fake provider", async () => {
+    const searchBooks = vi.fn(async (params: SearchParams) =>
+      makeResults(
+        [makeBook(params.query, { title: params.query })],
+        params.query
+      )
+    );
+
+    const results = await discoverBooks(
+      "  a short book on stoicism for a busy engineer ",
+      { searchBooks },
+      { provider: "fake" }
+    );
+
+    expect(results.query).toBe("a short book on stoicism for a busy engineer");
+    expect(results.books[0].title).toBe("stoicism");
+    expect(results.rationales[results.books[0].id]).toContain("stoicism");
+    expect(results.totalItems).toBe(results.books.length);
+    expect(results.hasMore).toBe(false);
+    expect(results.provider).toBe("fake");
+    // Charged to the searcher's quota by the Convex action
+    expect(results.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it("should reject empty and overly long prompts", async () => {
+    const searchBooks = vi.fn();
+
+    await expect(discoverBooks("  ", { searchBooks })).rejects.toThrow(
+      "Describe the book"
+    );
+    await expect(
+      discoverBooks("x".repeat(301), { searchBooks })
+    ).rejects.toThrow("characters");
+    expect(searchBooks).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for reading summary markdown into layout blocks
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseInline,
+  parseMarkdownBlocks,
+  runsToText,
+} from "@/services/export/markdownBlocks";
+import { renderBlocksToXhtml } from "@/services/export/epub";
+
+describe("parseInline", () => {
+  it("splits bold, italic, code and links into runs", () => {
+    expect(
+      parseInline("A **bold** and *italic* `call` to [docs](https://x.y).")
+    ).toEqual([
+      { text: "A " },
+      { text: "bold", bold: true },
+      { text: " and " },
+      { text: "italic", italic: true },
+      { text: " " },
+      { text: "call", code: true },
+      { text: " to " },
+      { text: "docs" },
+      { text: "." },
+    ]);
+  });
+
+  it("keeps plain text as one run", () => {
+    expect(runsToText(parseInline("Nothing special"))).toBe("Nothing special");
+  });
+});
+
+describe("parseMarkdownBlocks", () => {
+  it("reads headings, paragraphs, lists, quotes and rules", () => {
+    const blocks = parseMarkdownBlocks(
+      [
+        "# Title",
+        "",
+        "First line",
+        "continues here.",
+        "",
+        "- One",
+        "  - Nested",
+        "2. Numbered",
+        "",
+        "> Quoted",
+        "",
+        "---",
+      ].join("\n")
+    );
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      "heading",
+      "paragraph",
+      "listItem",
+      "listItem",
+      "listItem",
+      "quote",
+      "rule",
+    ]);
+    expect(blocks[1]).toEqual({
+      type: "paragraph",
+      runs: [{ text: "First line continues here." }],
+    });
+    expect(blocks[3]).toMatchObject({ depth: 1, number: undefined });
+    expect(blocks[4]).toMatchObject({ depth: 0, number: 2 });
+  });
+
+  it("keeps code blocks verbatim", () => {
+    expect(parseMarkdownBlocks("```\n# not a heading\n```")).toEqual([
+      { type: "code", text: "# not a heading" },
+    ]);
+  });
+
+  it("flattens table rows and skips the separator", () => {
+    const blocks = parseMarkdownBlocks("| a | b |\n|---|---|\n| 1 | 2 |");
+    expect(
+      blocks.map(
+        (block) => block.type === "paragraph" && runsToText(block.runs)
+      )
+    ).toEqual(["a · b", "1 · 2"]);
+  });
+});
+
+describe("renderBlocksToXhtml", () => {
+  it("slugs heading ids and escapes text", () => {
+    expect(renderBlocksToXhtml(parseMarkdownBlocks("## Key <Ideas>"))).toBe(
+      '<h2 id="key-ideas">Key &lt;Ideas&gt;</h2>'
+    );
+  });
+
+  it("starts a new list when bullets switch to numbers", () => {
+    const html = renderBlocksToXhtml(
+      parseMarkdownBlocks("- a\n- b\n1. c\n  - d")
+    );
+    expect(html.replace(/\n/g, "")).toBe(
+      "<ul><li>a</li><li>b</li></ul><ol><li>c<ul><li>d</li></ul></li></ol>"
+    );
+  });
+});
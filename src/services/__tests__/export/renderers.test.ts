@@ -0,0 +1,161 @@
+/**
+ * Unit tests for summary export renderers
+ */
+
+import { describe, it, expect } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { createExportArchive, renderSummaryExport } from "@/services/export";
+import { getImageSize } from "@/services/export/docx";
+import { renderMarkdownExport } from "@/services/export/markdown";
+import { getExportFilename } from "@/services/export/metadata";
+import { parseEpubSource } from "@/services/summary/sources/parseEpub";
+import type { ExportCover, SummaryExportDocument } from "@/types/export";
+
+/** PNG signature and IHDR chunk of a 300x450 image */
+const PNG_HEADER = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0x49,
+  0x48, 0x44, 0x52, 0x00, 0x00, 0x01, 0x2c, 0x00, 0x00, 0x01, 0xc2,
+]);
+
+const createDoc = (
+  overrides: Partial<SummaryExportDocument> = {}
+): SummaryExportDocument => ({
+  summaryId: "summary-1",
+  summaryType: "concise",
+  summaryTypeLabel: "Concise Summary",
+  language: "en",
+  content: [
+    "# Meditations",
+    "",
+    "## Key Ideas",
+    "",
+    "Focus on **what you control** and let go of the rest. Written as a",
+    "private journal, the book returns again and again to the same few",
+    "practices: judging impressions carefully, acting for the common good",
+    "and accepting what cannot be changed.",
+    "",
+    "- Discipline of perception",
+    "- Discipline of action",
+    "",
+    "## Takeaways",
+    "",
+    "> The impediment to action advances action.",
+  ].join("\n"),
+  revision: 2,
+  book: {
+    id: "book-1",
+    title: "Meditations: A New Translation",
+    authors: ["Marcus Aurelius"],
+    publisher: "Modern Library",
+    publishedDate: "2002",
+    pageCount: 254,
+    isbn: "9780812968255",
+  },
+  aiModel: "gpt-4o-mini",
+  promptVersion: "v3",
+  generatedAt: new Date("2026-03-12T10:00:00Z"),
+  ...overrides,
+});
+
+describe("renderMarkdownExport", () => {
+  it("prefixes the summary with YAML front-matter", () => {
+    const markdown = renderMarkdownExport(createDoc());
+
+    expect(markdown.startsWith("---\n")).toBe(true);
+    expect(markdown).toContain('book: "Meditations: A New Translation"');
+    expect(markdown).toContain('model: "gpt-4o-mini"');
+    expect(markdown).toContain('prompt_version: "v3"');
+    expect(markdown).toContain("revision: 2");
+    expect(markdown.trimEnd().endsWith("advances action.")).toBe(true);
+  });
+
+  it("appends the reader's highlights and notes", () => {
+    const markdown = renderMarkdownExport(
+      createDoc({
+        highlights: [
+          { text: "Focus on what you control", note: "Morning reminder" },
+          { text: "Discipline of action" },
+        ],
+      })
+    );
+
+    expect(markdown).toContain(
+      "advances action.\n\n## My Highlights\n\n> Focus on what you control\n\nMorning reminder\n\n> Discipline of action\n"
+    );
+  });
+});
+
+describe("renderSummaryExport", () => {
+  it("renders a PDF with a title page and document metadata", async () => {
+    const file = await renderSummaryExport(createDoc(), "pdf");
+    const pdf = await PDFDocument.load(file.data);
+
+    expect(file.contentType).toBe("application/pdf");
+    expect(pdf.getPageCount()).toBeGreaterThanOrEqual(2);
+    expect(pdf.getTitle()).toBe(
+      "Meditations: A New Translation — Concise Summary"
+    );
+    expect(pdf.getAuthor()).toBe("Marcus Aurelius");
+  });
+
+  it("renders an EPUB that an EPUB reader can open", async () => {
+    const file = await renderSummaryExport(
+      createDoc({ cover: { data: PNG_HEADER, contentType: "image/png" } }),
+      "epub"
+    );
+    const { chapters } = parseEpubSource(file.data);
+    const text = chapters.map((chapter) => chapter.text).join("\n");
+
+    expect(file.filename).toBe(
+      "Meditations A New Translation - Concise Summary.epub"
+    );
+    expect(text).toContain("Marcus Aurelius");
+    expect(text).toContain("Focus on what you control");
+    expect(text).toContain("Generated by gpt-4o-mini (prompt v3)");
+  });
+
+  it("renders a DOCX with the main document part", async () => {
+    const file = await renderSummaryExport(createDoc(), "docx");
+    const names = new TextDecoder("latin1").decode(file.data);
+
+    expect(names.startsWith("PK")).toBe(true);
+    expect(names).toContain("word/document.xml");
+    expect(names).toContain("[Content_Types].xml");
+  });
+});
+
+describe("getImageSize", () => {
+  it("reads PNG dimensions from the header", () => {
+    expect(
+      getImageSize({ data: PNG_HEADER, contentType: "image/png" })
+    ).toEqual({ width: 300, height: 450 });
+  });
+
+  it("reads JPEG dimensions from the start-of-frame marker", () => {
+    const cover: ExportCover = {
+      contentType: "image/jpeg",
+      data: new Uint8Array([
+        0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x11,
+        0x08, 0x01, 0xc2, 0x01, 0x2c, 0x03, 0x00, 0x00,
+      ]),
+    };
+    expect(getImageSize(cover)).toEqual({ width: 300, height: 450 });
+  });
+});
+
+describe("createExportArchive", () => {
+  it("renames files that share a name", () => {
+    const doc = createDoc();
+    const file = {
+      filename: getExportFilename(doc, "markdown"),
+      contentType: "text/markdown",
+      data: new TextEncoder().encode("x"),
+    };
+    const archive = createExportArchive([file, file], "all.zip");
+    const names = new TextDecoder("latin1").decode(archive.data);
+
+    expect(archive.contentType).toBe("application/zip");
+    expect(names).toContain("Concise Summary.md");
+    expect(names).toContain("Concise Summary (2).md");
+  });
+});
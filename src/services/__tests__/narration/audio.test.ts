@@ -0,0 +1,62 @@
+/**
+ * Unit tests for narration audio helpers
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  concatAudio,
+  createSilentWav,
+  getAudioExtension,
+} from "@/services/narration/audio";
+
+const HEADER_BYTES = 44;
+
+describe("createSilentWav", () => {
+  it("writes one byte per sample at the sample rate", () => {
+    const wav = createSilentWav(500, 8000);
+    expect(wav.byteLength).toBe(HEADER_BYTES + 4000);
+    expect(String.fromCharCode(...wav.subarray(0, 4))).toBe("RIFF");
+    expect(wav[HEADER_BYTES]).toBe(0x80);
+  });
+});
+
+describe("concatAudio", () => {
+  it("merges WAV sample data under one header", () => {
+    const joined = concatAudio(
+      [createSilentWav(250), createSilentWav(500)],
+      "audio/wav"
+    );
+    const view = new DataView(joined.buffer);
+
+    expect(joined.byteLength).toBe(HEADER_BYTES + 2000 + 4000);
+    expect(view.getUint32(40, true)).toBe(6000);
+  });
+
+  it("rejects WAV parts with different formats", () => {
+    expect(() =>
+      concatAudio(
+        [createSilentWav(100, 8000), createSilentWav(100, 16000)],
+        "audio/wav"
+      )
+    ).toThrow("different audio formats");
+  });
+
+  it("appends MP3 parts", () => {
+    const joined = concatAudio(
+      [new Uint8Array([1, 2]), new Uint8Array([3])],
+      "audio/mpeg"
+    );
+    expect([...joined]).toEqual([1, 2, 3]);
+  });
+
+  it("rejects unsupported types", () => {
+    expect(() => concatAudio([], "audio/ogg")).toThrow("Unsupported");
+  });
+});
+
+describe("getAudioExtension", () => {
+  it("maps content types to file extensions", () => {
+    expect(getAudioExtension("audio/wav")).toBe("wav");
+    expect(getAudioExtension("audio/mpeg")).toBe("mp3");
+  });
+});
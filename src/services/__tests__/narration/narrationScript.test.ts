@@ -0,0 +1,93 @@
+/**
+ * Unit tests for narration scripts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildNarrationScript,
+  splitNarrationText,
+  toSpeechText,
+} from "@/services/narration/narrationScript";
+import { structureSummary } from "@/services/summary/structureSummary";
+
+const markdown = `# Meditations
+
+Private notes on **Stoic** philosophy.
+
+## Key Points
+- Focus on what you control
+- Accept what *you* cannot change
+
+## Code
+\`\`\`js
+console.log("not read aloud");
+\`\`\`
+
+| Virtue | Meaning |
+| --- | --- |
+| Wisdom | Knowing |
+`;
+
+describe("toSpeechText", () => {
+  it("reads list items and headings as sentences", () => {
+    expect(toSpeechText("## Key Points\n- Focus on what you control")).toBe(
+      "Key Points. Focus on what you control."
+    );
+  });
+
+  it("drops code blocks, tables and rules", () => {
+    expect(toSpeechText("Intro\n```\ncode\n```\n| a | b |\n---")).toBe(
+      "Intro."
+    );
+  });
+});
+
+describe("splitNarrationText", () => {
+  it("keeps short text whole", () => {
+    expect(splitNarrationText("One. Two.", 100)).toEqual(["One. Two."]);
+  });
+
+  it("splits at sentence ends within the limit", () => {
+    const pieces = splitNarrationText("First one. Second one. Third.", 24);
+    expect(pieces).toEqual(["First one. Second one.", "Third."]);
+  });
+
+  it("cuts an overlong sentence at a space", () => {
+    const pieces = splitNarrationText("aaaa bbbb cccc dddd", 10);
+    expect(pieces.every((piece) => piece.length <= 10)).toBe(true);
+    expect(pieces.join(" ")).toBe("aaaa bbbb cccc dddd");
+  });
+});
+
+describe("buildNarrationScript", () => {
+  it("opens with the title and overview, then one chunk per section", () => {
+    const structured = structureSummary(markdown);
+    const script = buildNarrationScript(markdown, structured);
+
+    expect(script[0]).toMatchObject({
+      index: 0,
+      heading: "Meditations",
+      text: "Meditations. Private notes on Stoic philosophy.",
+    });
+    expect(script[0].sectionId).toBeUndefined();
+    expect(script[1]).toMatchObject({
+      index: 1,
+      sectionId: structured.sections[0].id,
+      text: "Key Points. Focus on what you control. Accept what you cannot change.",
+    });
+  });
+
+  it("reads a section with only code as just its heading", () => {
+    const script = buildNarrationScript(markdown);
+    expect(script.at(-1)?.text).toBe("Code.");
+  });
+
+  it("splits long sections into chunks sharing the section id", () => {
+    const long = `## Long\n${"A sentence to read. ".repeat(20)}`;
+    const script = buildNarrationScript(long, undefined, 100);
+
+    expect(script.length).toBeGreaterThan(1);
+    expect(new Set(script.map((chunk) => chunk.sectionId)).size).toBe(1);
+    expect(script.every((chunk) => chunk.text.length <= 100)).toBe(true);
+  });
+});
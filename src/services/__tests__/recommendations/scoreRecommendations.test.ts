@@ -0,0 +1,142 @@
+/**
+ * Unit tests for recommendation scoring
+ */
+
+import { describe, it, expect } from "vitest";
+import { scoreRecommendations } from "@/services/recommendations/scoreRecommendations";
+import { describeRecommendationReason } from "@/components/recommendations/RecommendedBooks";
+import type { RecommendationSeed } from "@/types/recommendations";
+import { makeBook } from "@/test/fixtures/books";
+
+const atomicHabits = makeBook("AH", {
+  title: "Atomic Habits",
+  authors: ["James Clear"],
+  categories: ["Self-Help"],
+});
+const dune = makeBook("DU", {
+  title: "Dune",
+  authors: ["Frank Herbert"],
+  categories: ["Science Fiction"],
+});
+
+const powerOfHabit = makeBook("PH", {
+  title: "The Power of Habit",
+  authors: ["Charles Duhigg"],
+  categories: ["Self-Help", "Psychology"],
+});
+const duneMessiah = makeBook("DM", {
+  title: "Dune Messiah",
+  authors: ["Frank Herbert"],
+  categories: ["Science Fiction"],
+});
+const foundation = makeBook("FO", {
+  title: "Foundation",
+  authors: ["Isaac Asimov"],
+  categories: ["science fiction"],
+});
+const cookbook = makeBook("CB", {
+  title: "Salt Fat Acid Heat",
+  authors: ["Samin Nosrat"],
+  categories: ["Cooking"],
+});
+
+const seeds: RecommendationSeed[] = [
+  { kind: "favorite", book: atomicHabits },
+  { kind: "readList", book: dune },
+];
+
+describe("scoreRecommendations", () => {
+  it("should rank books by category and author overlap", () => {
+    const picks = scoreRecommendations(
+      [cookbook, foundation, powerOfHabit, duneMessiah],
+      seeds
+    );
+
+    expect(picks.map(({ book }) => book.title)).toEqual([
+      // Same author and category as a read list book: 2 * 2 + 2
+      "Dune Messiah",
+      // Same category as a favorite: 3
+      "The Power of Habit",
+      // Same category (case-insensitively) as a read list book: 2
+      "Foundation",
+    ]);
+    expect(picks[0].score).toBe(6);
+  });
+
+  it("should explain each pick by its biggest contributor", () => {
+    const picks = scoreRecommendations([powerOfHabit, duneMessiah], seeds);
+
+    expect(picks.find(({ book }) => book === powerOfHabit)?.reason).toEqual({
+      kind: "favorite",
+      label: "Atomic Habits",
+    });
+    expect(picks.find(({ book }) => book === duneMessiah)?.reason).toEqual({
+      kind: "readList",
+      label: "Dune",
+    });
+  });
+
+  it("should never recommend the user's own books or other editions of them", () => {
+    const otherEdition = makeBook("AH2", {
+      title: "Atomic Habits",
+      authors: ["James Clear"],
+      categories: ["Self-Help"],
+    });
+
+    const picks = scoreRecommendations(
+      [atomicHabits, otherEdition, powerOfHabit],
+      seeds
+    );
+
+    expect(picks.map(({ book }) => book.title)).toEqual(["The Power of Habit"]);
+  });
+
+  it("should score recent search terms and skip very short ones", () => {
+    const picks = scoreRecommendations(
+      [cookbook, foundation],
+      [],
+      ["Cooking", "of"]
+    );
+
+    expect(picks).toHaveLength(1);
+    expect(picks[0].reason).toEqual({ kind: "search", label: "cooking" });
+  });
+
+  it("should keep one edition per title, preferring the more rated", () => {
+    const popular = {
+      ...powerOfHabit,
+      id: "open-library-PH",
+      ratingsCount: 90,
+    };
+
+    const picks = scoreRecommendations(
+      [powerOfHabit, popular, foundation],
+      seeds,
+      [],
+      2
+    );
+
+    expect(picks.map(({ book }) => book.id)).toEqual([
+      "open-library-PH",
+      foundation.id,
+    ]);
+  });
+
+  it("should return nothing without seeds or searches", () => {
+    expect(scoreRecommendations([powerOfHabit, duneMessiah], [])).toEqual([]);
+  });
+});
+
+describe("describeRecommendationReason", () => {
+  it("should say what each pick was recommended for", () => {
+    expect(
+      describeRecommendationReason({ kind: "favorite", label: "Dune" })
+    ).toBe("Because you favorited Dune");
+    expect(
+      describeRecommendationReason({ kind: "savedSummary", label: "Dune" })
+    ).toBe("Because you saved a summary of Dune");
+    expect(
+      describeRecommendationReason({ kind: "search", label: "stoicism" })
+    ).toBe('Because you searched for "stoicism"');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for similar book scoring
+ */
+
+import { describe, it, expect } from "vitest";
+import { scoreSimilarBooks } from "@/services/recommendations/similarBooks";
+import { describeSimilarity } from "@/components/recommendations/SimilarBooks";
+import { makeBook } from "@/test/fixtures/books";
+
+const dune = makeBook("DU", {
+  title: "Dune",
+  authors: ["Frank Herbert"],
+  categories: ["Science Fiction"],
+});
+
+const duneMessiah = makeBook("DM", {
+  title: "Dune Messiah",
+  authors: ["Frank Herbert"],
+  categories: ["Science Fiction"],
+});
+const foundation = makeBook("FO", {
+  title: "Foundation",
+  authors: ["Isaac Asimov"],
+  categories: ["science fiction"],
+});
+const leftHand = makeBook("LH", {
+  title: "The Left Hand of Darkness",
+  authors: ["Ursula K. Le Guin"],
+  categories: ["Fantasy"],
+});
+const cookbook = makeBook("CB", {
+  title: "Salt Fat Acid Heat",
+  authors: ["Samin Nosrat"],
+  categories: ["Cooking"],
+});
+
+describe("scoreSimilarBooks", () => {
+  it("should rank books by shared authors, categories and co-readers", () => {
+    const similar = scoreSimilarBooks(
+      dune,
+      [cookbook, leftHand, foundation, duneMessiah],
+      new Map([[leftHand.id, 1]])
+    );
+
+    expect(similar.map(({ book }) => book.title)).toEqual([
+      // Same author and category: 4 + 1
+      "Dune Messiah",
+      // One co-reader: 2
+      "The Left Hand of Darkness",
+      // Same category (case-insensitively): 1
+      "Foundation",
+    ]);
+    expect(similar[0]).toMatchObject({
+      score: 5,
+      reasons: ["author", "category"],
+      category: "Science Fiction",
+    });
+  });
+
+  it("should cap how much co-readers alone can add", () => {
+    const similar = scoreSimilarBooks(
+      dune,
+      [cookbook, duneMessiah],
+      new Map([[cookbook.id, 40]])
+    );
+
+    // Forty co-readers count as five: 5 * 2
+    expect(similar.map(({ book }) => book.title)).toEqual([
+      "Salt Fat Acid Heat",
+      "Dune Messiah",
+    ]);
+    expect(similar[0]).toMatchObject({ score: 10, reasons: ["coReaders"] });
+  });
+
+  it("should skip the book itself and other editions of it", () => {
+    const otherEdition = makeBook("DU2", {
+      title: "Dune",
+      authors: ["Frank Herbert"],
+      categories: ["Science Fiction"],
+    });
+
+    const similar = scoreSimilarBooks(dune, [dune, otherEdition, foundation]);
+
+    expect(similar.map(({ book }) => book.title)).toEqual(["Foundation"]);
+  });
+
+  it("should keep one edition per title, preferring the more rated", () => {
+    const popular = { ...foundation, id: "open-library-FO", ratingsCount: 90 };
+
+    const similar = scoreSimilarBooks(dune, [foundation, popular]);
+
+    expect(similar.map(({ book }) => book.id)).toEqual(["open-library-FO"]);
+  });
+
+  it("should return nothing for a book sharing nothing with the candidates", () => {
+    expect(scoreSimilarBooks(dune, [cookbook, leftHand])).toEqual([]);
+  });
+});
+
+describe("describeSimilarity", () => {
+  it("should say what each similar book has in common", () => {
+    expect(describeSimilarity({ reasons: ["author", "category"] })).toBe(
+      "Same author"
+    );
+    expect(describeSimilarity({ reasons: ["category", "coReaders"] })).toBe(
+      "Readers of this book liked it too"
+    );
+    expect(
+      describeSimilarity({ reasons: ["category"], category: "Fantasy" })
+    ).toBe("Also in Fantasy");
+  });
+});
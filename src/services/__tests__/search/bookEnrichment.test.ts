@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  enrichBookDetails,
+  mergeBookDetails,
+  type BookEnrichmentSources,
+} from "@/services/search/bookEnrichment";
+import type { Book } from "../../../types/book";
+
+const googleBook: Book = {
+  id: "google-books-abc",
+  title: "Dune",
+  authors: ["Frank Herbert"],
+  publisher: "Ace",
+  pageCount: 612,
+  isbn13: "9780441013593",
+  averageRating: 4.5,
+  ratingsCount: 120,
+  thumbnail: "https://books.google.com/dune.jpg",
+  source: "google-books",
+  originalId: "abc",
+};
+
+const openLibraryWork: Book = {
+  id: "open-library-OL893415W",
+  title: "Dune",
+  authors: ["Frank Herbert"],
+  description: "Set on the desert planet Arrakis...",
+  categories: ["Science Fiction", "Ecology"],
+  largeThumbnail: "https://covers.openlibrary.org/b/id/1-L.jpg",
+  source: "open-library",
+  originalId: "OL893415W",
+};
+
+function createSources(
+  overrides: Partial<{
+    googleBook: Book | null;
+    openLibraryBook: Book | null;
+    edition: Partial<Book> | null;
+  }> = {}
+) {
+  return {
+    googleBooks: {
+      getBookByIsbn: vi
+        .fn()
+        .mockResolvedValue(
+          "googleBook" in overrides ? overrides.googleBook : googleBook
+        ),
+    },
+    openLibrary: {
+      getBookByIsbn: vi
+        .fn()
+        .mockResolvedValue(
+          "openLibraryBook" in overrides
+            ? overrides.openLibraryBook
+            : openLibraryWork
+        ),
+      getEditionDetails: vi.fn().mockResolvedValue(
+        "edition" in overrides
+          ? overrides.edition
+          : {
+              publisher: "Chilton Books",
+              isbn13: "9780441013593",
+              source: "open-library",
+            }
+      ),
+    },
+  } satisfies BookEnrichmentSources;
+}
+
+describe("mergeBookDetails", () => {
+  it("should fill only the fields the book is missing", () => {
+    const merged = mergeBookDetails(googleBook, {
+      ...openLibraryWork,
+      publisher: "Chilton Books",
+    });
+
+    expect(merged.publisher).toBe("Ace");
+    expect(merged.description).toBe(openLibraryWork.description);
+    expect(merged.categories).toEqual(openLibraryWork.categories);
+    expect(merged.id).toBe(googleBook.id);
+    expect(merged.source).toBe("google-books");
+  });
+
+  it("should record where each field came from", () => {
+    const merged = mergeBookDetails(googleBook, openLibraryWork);
+
+    expect(merged.provenance).toEqual({
+      publisher: "google-books",
+      pageCount: "google-books",
+      isbn13: "google-books",
+      thumbnail: "google-books",
+      averageRating: "google-books",
+      ratingsCount: "google-books",
+      description: "open-library",
+      categories: "open-library",
+      largeThumbnail: "open-library",
+    });
+  });
+
+  it("should treat empty strings and arrays as missing", () => {
+    const merged = mergeBookDetails(
+      { ...googleBook, description: "", categories: [] },
+      openLibraryWork
+    );
+
+    expect(merged.description).toBe(openLibraryWork.description);
+    expect(merged.provenance?.categories).toBe("open-library");
+  });
+
+  it("should keep provenance the other record already carries", () => {
+    const merged = mergeBookDetails(openLibraryWork, {
+      ...googleBook,
+      description: "From Open Library",
+      provenance: { description: "open-library", pageCount: "google-books" },
+    });
+
+    expect(merged.provenance?.pageCount).toBe("google-books");
+    expect(merged.provenance?.description).toBe("open-library");
+  });
+
+  it("should store languages as ISO codes whichever source they came from", () => {
+    const merged = mergeBookDetails(
+      { ...openLibraryWork, language: "eng" },
+      googleBook
+    );
+    const unsupported = mergeBookDetails(
+      { ...googleBook, language: "la" },
+      null
+    );
+
+    expect(merged.language).toBe("en");
+    expect(merged.provenance?.language).toBe("open-library");
+    expect(unsupported.language).toBe("la");
+  });
+});
+
+describe("enrichBookDetails", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("should enrich a Google Books volume from Open Library by ISBN", async () => {
+    const sources = createSources();
+
+    const enriched = await enrichBookDetails(googleBook, sources);
+
+    expect(sources.openLibrary.getBookByIsbn).toHaveBeenCalledWith(
+      "9780441013593"
+    );
+    expect(sources.googleBooks.getBookByIsbn).not.toHaveBeenCalled();
+    expect(enriched.description).toBe(openLibraryWork.description);
+    expect(enriched.provenance?.description).toBe("open-library");
+  });
+
+  it("should take an ISBN from an edition before looking up an Open Library work", async () => {
+    const sources = createSources();
+
+    const enriched = await enrichBookDetails(openLibraryWork, sources);
+
+    expect(sources.openLibrary.getEditionDetails).toHaveBeenCalledWith(
+      "OL893415W"
+    );
+    expect(sources.googleBooks.getBookByIsbn).toHaveBeenCalledWith(
+      "9780441013593"
+    );
+    expect(enriched.publisher).toBe("Chilton Books");
+    expect(enriched.pageCount).toBe(612);
+    expect(enriched.provenance).toMatchObject({
+      publisher: "open-library",
+      isbn13: "open-library",
+      pageCount: "google-books",
+      averageRating: "google-books",
+      description: "open-library",
+    });
+  });
+
+  it("should use a cached record before calling the other API", async () => {
+    const sources = createSources();
+    const findCachedByIsbn = vi.fn().mockResolvedValue(openLibraryWork);
+
+    const enriched = await enrichBookDetails(googleBook, {
+      ...sources,
+      findCachedByIsbn,
+    });
+
+    expect(findCachedByIsbn).toHaveBeenCalledWith(
+      { isbn13: "9780441013593", isbn10: undefined },
+      "open-library"
+    );
+    expect(sources.openLibrary.getBookByIsbn).not.toHaveBeenCalled();
+    expect(enriched.description).toBe(openLibraryWork.description);
+  });
+
+  it("should skip the lookup when the book has no ISBN", async () => {
+    const sources = createSources({ edition: null });
+
+    const enriched = await enrichBookDetails(openLibraryWork, sources);
+
+    expect(sources.googleBooks.getBookByIsbn).not.toHaveBeenCalled();
+    expect(enriched.provenance?.description).toBe("open-library");
+  });
+
+  it("should keep the details merged so far when a lookup fails", async () => {
+    const sources = createSources();
+    sources.googleBooks.getBookByIsbn.mockRejectedValue(
+      new Error("Rate limited")
+    );
+
+    const enriched = await enrichBookDetails(openLibraryWork, sources);
+
+    expect(enriched.publisher).toBe("Chilton Books");
+    expect(enriched.pageCount).toBeUndefined();
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it("should return the book as is when its edition can't be fetched", async () => {
+    const sources = createSources();
+    sources.openLibrary.getEditionDetails.mockRejectedValue(
+      new Error("Network error")
+    );
+
+    const enriched = await enrichBookDetails(openLibraryWork, sources);
+
+    expect(enriched.title).toBe("Dune");
+    expect(sources.googleBooks.getBookByIsbn).not.toHaveBeenCalled();
+  });
+});
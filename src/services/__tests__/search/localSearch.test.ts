@@ -0,0 +1,263 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildBookSearchText,
+  matchesLocalSearch,
+} from "@/services/search/localSearch";
+import {
+  UnifiedSearchService,
+  type LocalBookSearch,
+} from "@/services/search/searchService";
+import type { GoogleBooksService } from "@/services/search/googleBooks";
+import type { OpenLibraryService } from "@/services/search/openLibrary";
+import { makeBook } from "@/test/fixtures/books";
+import type { Book, SearchParams, SearchResults } from "../../../types/book";
+
+const dune = makeBook("DU", {
+  title: "Dune",
+  authors: ["Frank Herbert"],
+  categories: ["Science Fiction"],
+  description: "Set on the desert planet Arrakis",
+  publishedDate: "1965-08-01",
+});
+const duneMessiah = makeBook("DM", {
+  title: "Dune Messiah",
+  authors: ["Frank Herbert"],
+});
+const childrenOfDune = makeBook("CD", {
+  title: "Children of Dune",
+  authors: ["Frank Herbert"],
+});
+
+/**
+ * One page of a list, as the APIs and the local search return it
+ */
+function page(books: Book[], params: SearchParams) {
+  const start = params.startIndex ?? 0;
+  const end = start + (params.maxResults ?? 20);
+  return { books: books.slice(start, end), hasMore: books.length > end };
+}
+
+function createService(localBooks: Book[], apiBooks: Book[] = []) {
+  const searchApi = vi.fn(async (params: SearchParams) => {
+    const { books, hasMore } = page(apiBooks, params);
+    const results: SearchResults = {
+      books,
+      totalItems: apiBooks.length,
+      startIndex: params.startIndex ?? 0,
+      itemsPerPage: books.length,
+      hasMore,
+      query: "dune",
+      source: "google-books",
+    };
+    return results;
+  });
+  const googleBooks = {
+    isConfigured: () => true,
+    searchBooks: searchApi,
+  };
+  const openLibrary = {
+    isConfigured: () => true,
+    searchBooks: searchApi,
+  };
+  const localSearch = vi.fn<LocalBookSearch>(async (params) =>
+    page(localBooks, params)
+  );
+
+  const service = new UnifiedSearchService(
+    { localSearch },
+    googleBooks as unknown as GoogleBooksService,
+    openLibrary as unknown as OpenLibraryService
+  );
+  return { service, googleBooks, openLibrary, localSearch };
+}
+
+describe("buildBookSearchText", () => {
+  it("should join title, authors, categories and description", () => {
+    expect(buildBookSearchText(dune)).toBe(
+      "Dune\nFrank Herbert\nScience Fiction\nSet on the desert planet Arrakis"
+    );
+    expect(buildBookSearchText(duneMessiah)).toBe(
+      "Dune Messiah\nFrank Herbert"
+    );
+  });
+});
+
+describe("matchesLocalSearch", () => {
+  it("should match title and author searches on those fields only", () => {
+    expect(matchesLocalSearch(dune, { query: "dune", searchIn: "title" })).toBe(
+      true
+    );
+    expect(
+      matchesLocalSearch(dune, { query: "arrakis", searchIn: "title" })
+    ).toBe(false);
+    expect(
+      matchesLocalSearch(dune, { query: "herbert", searchIn: "author" })
+    ).toBe(true);
+    expect(matchesLocalSearch(dune, { query: "arrakis" })).toBe(true);
+  });
+
+  it("should apply the author filter and year range", () => {
+    expect(
+      matchesLocalSearch(dune, { query: "dune", authorQuery: "Asimov" })
+    ).toBe(false);
+    expect(
+      matchesLocalSearch(dune, {
+        query: "dune",
+        publishedAfter: 1960,
+        publishedBefore: 1970,
+      })
+    ).toBe(true);
+    expect(
+      matchesLocalSearch(dune, { query: "dune", publishedAfter: 1970 })
+    ).toBe(false);
+    // No publication date to compare
+    expect(
+      matchesLocalSearch(duneMessiah, { query: "dune", publishedBefore: 2000 })
+    ).toBe(false);
+  });
+
+  it("should compare languages across ISO and MARC codes", () => {
+    const marcDune = { ...dune, language: "eng" };
+
+    expect(
+      matchesLocalSearch(marcDune, { query: "dune", language: "en" })
+    ).toBe(true);
+    expect(
+      matchesLocalSearch(
+        { ...dune, language: "en" },
+        {
+          query: "dune",
+          language: "en",
+        }
+      )
+    ).toBe(true);
+    expect(
+      matchesLocalSearch(marcDune, { query: "dune", language: "fr" })
+    ).toBe(false);
+    // No language to compare
+    expect(matchesLocalSearch(dune, { query: "dune", language: "en" })).toBe(
+      false
+    );
+  });
+});
+
+describe("UnifiedSearchService local-first strategy", () => {
+  it("should answer from our own books when they fill the page", async () => {
+    const { service, googleBooks } = createService([dune, duneMessiah]);
+
+    const results = await service.searchBooks({ query: "dune", maxResults: 2 });
+
+    expect(results.source).toBe("local");
+    expect(results.books).toEqual([dune, duneMessiah]);
+    expect(googleBooks.searchBooks).not.toHaveBeenCalled();
+  });
+
+  it("should fill the page from the APIs, listing our own books first", async () => {
+    const apiDune = { ...dune, id: "open-library-DU", source: "open-library" };
+    const { service, googleBooks } = createService(
+      [dune],
+      [apiDune as Book, childrenOfDune]
+    );
+
+    const results = await service.searchBooks({ query: "dune", maxResults: 5 });
+
+    expect(googleBooks.searchBooks).toHaveBeenCalled();
+    expect(results.source).toBe("google-books");
+    // The API's copy of Dune is a duplicate of ours
+    expect(results.books.map((book) => book.id)).toEqual([
+      dune.id,
+      childrenOfDune.id,
+    ]);
+  });
+
+  it("should page through our books, then every API result, once each", async () => {
+    const localBooks = ["L0", "L1", "L2"].map((id) =>
+      makeBook(id, { title: id })
+    );
+    const apiBooks = Array.from({ length: 20 }, (_, i) =>
+      makeBook(`ext-${i}`, { title: `Book ${i}` })
+    );
+    const { service } = createService(localBooks, apiBooks);
+
+    const pages = [];
+    for (let startIndex = 0; startIndex < 30; startIndex += 10) {
+      pages.push(
+        await service.searchBooks({ query: "dune", maxResults: 10, startIndex })
+      );
+    }
+
+    expect(pages.flatMap((results) => results.books)).toEqual([
+      ...localBooks,
+      ...apiBooks,
+    ]);
+    expect(pages.map((results) => results.hasMore)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it("should keep paging our own books after they fill the first page", async () => {
+    const localBooks = Array.from({ length: 12 }, (_, i) =>
+      makeBook(`L${i}`, { title: `Local ${i}` })
+    );
+    const { service, googleBooks } = createService(localBooks, [
+      childrenOfDune,
+    ]);
+
+    const second = await service.searchBooks({
+      query: "dune",
+      maxResults: 10,
+      startIndex: 10,
+    });
+
+    expect(second.books).toEqual([...localBooks.slice(10), childrenOfDune]);
+    expect(googleBooks.searchBooks).toHaveBeenCalledWith(
+      expect.objectContaining({ startIndex: 0, maxResults: 8 })
+    );
+  });
+
+  it("should fall back to the APIs when local search fails", async () => {
+    const { service, localSearch } = createService([], [childrenOfDune]);
+    localSearch.mockRejectedValue(new Error("Convex unavailable"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const results = await service.searchBooks({ query: "dune", maxResults: 5 });
+
+    expect(results.books).toEqual([childrenOfDune]);
+  });
+
+  it("should keep our own books when the APIs fail", async () => {
+    const { service, googleBooks } = createService([dune], [childrenOfDune]);
+    googleBooks.searchBooks.mockRejectedValue(new Error("Quota exceeded"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const results = await service.searchBooks({ query: "dune", maxResults: 5 });
+
+    expect(results).toMatchObject({
+      books: [dune],
+      source: "local",
+      hasMore: false,
+    });
+  });
+
+  it("should search only our own books in the library scope", async () => {
+    const { service, googleBooks, openLibrary, localSearch } = createService(
+      [],
+      [childrenOfDune]
+    );
+
+    const results = await service.searchBooks({
+      query: "dune",
+      maxResults: 5,
+      scope: "library",
+    });
+
+    expect(localSearch).toHaveBeenCalledWith(
+      expect.objectContaining({ scope: "library" })
+    );
+    expect(results).toMatchObject({ books: [], source: "local" });
+    expect(googleBooks.searchBooks).not.toHaveBeenCalled();
+    expect(openLibrary.searchBooks).not.toHaveBeenCalled();
+  });
+});
@@ -156,8 +156,9 @@ describe("OpenLibraryService", () => {
 
       await service.searchBooks(searchParams);
 
+      // Open Library filters by MARC code
       expect(mockApiClient.get).toHaveBeenCalledWith(
-        expect.stringContaining("language=es")
+        expect.stringContaining("language=spa")
       );
     });
 
@@ -192,6 +193,40 @@ describe("OpenLibraryService", () => {
       );
     });
 
+    it("should handle subject filter alongside an author query", async () => {
+      mockApiClient.get.mockResolvedValue(mockOpenLibraryResponse);
+
+      const searchParams: SearchParams = {
+        query: "test",
+        authorQuery: "Tolkien",
+        category: "Science fiction",
+      };
+
+      await service.searchBooks(searchParams);
+
+      expect(mockApiClient.get).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "q=title%3Atest+author%3ATolkien+subject%3A%22Science+fiction%22"
+        )
+      );
+    });
+
+    it("should sort by date or rating on the API", async () => {
+      mockApiClient.get.mockResolvedValue(mockOpenLibraryResponse);
+
+      await service.searchBooks({ query: "test", sortBy: "date" });
+      await service.searchBooks({ query: "test", sortBy: "pageCount" });
+
+      expect(mockApiClient.get).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining("sort=new")
+      );
+      expect(mockApiClient.get).toHaveBeenNthCalledWith(
+        2,
+        expect.not.stringContaining("sort=")
+      );
+    });
+
     it("should handle empty results", async () => {
       const emptyResponse: OpenLibrarySearchResponse = {
         start: 0,
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  applySearchFacets,
+  matchesSearchFacets,
+} from "@/services/search/searchFacets";
+import { makeBook } from "@/test/fixtures/books";
+import type { Book, SearchResults } from "../../../types/book";
+
+const classic = makeBook("A", {
+  publishedDate: "1954-07-29",
+  averageRating: 4.6,
+  ratingsCount: 900,
+  pageCount: 1200,
+  thumbnail: "https://example.com/a.jpg",
+  description: "An epic",
+});
+const recent = makeBook("B", {
+  publishedDate: "2021",
+  averageRating: 3.9,
+  pageCount: 320,
+});
+const unrated = makeBook("C", {
+  publishedDate: "2005-01-01",
+  smallThumbnail: "https://example.com/c.jpg",
+});
+
+function makeResults(books: Book[]): SearchResults {
+  return {
+    books,
+    totalItems: 100,
+    startIndex: 0,
+    itemsPerPage: 20,
+    hasMore: true,
+    query: "fantasy",
+    source: "google-books",
+  };
+}
+
+describe("matchesSearchFacets", () => {
+  it("should require the field each facet checks", () => {
+    expect(matchesSearchFacets(unrated, { minRating: 3 })).toBe(false);
+    expect(matchesSearchFacets(recent, { hasCover: true })).toBe(false);
+    expect(matchesSearchFacets(unrated, { hasCover: true })).toBe(true);
+    expect(matchesSearchFacets(recent, { hasDescription: true })).toBe(false);
+    expect(matchesSearchFacets(makeBook("D"), { publishedBefore: 2000 })).toBe(
+      false
+    );
+  });
+
+  it("should compare publication years inclusively", () => {
+    expect(
+      matchesSearchFacets(classic, {
+        publishedAfter: 1954,
+        publishedBefore: 1954,
+      })
+    ).toBe(true);
+    expect(matchesSearchFacets(recent, { publishedBefore: 2020 })).toBe(false);
+  });
+});
+
+describe("applySearchFacets", () => {
+  it("should return results untouched without facets or a sort", () => {
+    const results = makeResults([recent, classic]);
+
+    expect(applySearchFacets(results, { sortBy: "relevance" })).toBe(results);
+  });
+
+  it("should filter the page and keep its paging", () => {
+    const filtered = applySearchFacets(
+      makeResults([recent, classic, unrated]),
+      { minRating: 4 }
+    );
+
+    expect(filtered.books).toEqual([classic]);
+    expect(filtered).toMatchObject({ totalItems: 100, hasMore: true });
+  });
+
+  it("should sort by rating, date or page count, missing values last", () => {
+    const books = [unrated, recent, classic];
+    const ids = (sortBy: "rating" | "date" | "pageCount") =>
+      applySearchFacets(makeResults(books), { sortBy }).books.map(
+        (book) => book.originalId
+      );
+
+    expect(ids("rating")).toEqual(["A", "B", "C"]);
+    expect(ids("date")).toEqual(["B", "C", "A"]);
+    expect(ids("pageCount")).toEqual(["A", "B", "C"]);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for flashcard and quiz generation and SM-2 scheduling
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  generateStudySet,
+  getStudySections,
+  parseStudySetResponse,
+} from "@/services/study/generateStudySet";
+import {
+  initialSchedule,
+  MIN_EASE_FACTOR,
+  scheduleReview,
+} from "@/services/study/sm2";
+import {
+  buildStudySystemPrompt,
+  buildStudyUserPrompt,
+} from "@/services/study/studyPrompts";
+import type { Book } from "@/types/book";
+import { QUIZ_OPTION_COUNT } from "@/types/study";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 1);
+
+const book: Book = {
+  id: "google-books-AH1",
+  title: "Atomic Habits",
+  authors: ["James Clear"],
+  source: "google-books",
+  originalId: "AH1",
+};
+
+const summary = {
+  summaryType: "concise" as const,
+  content: `# Atomic Habits
+
+Small habits compound over time.
+
+## The Habit Loop
+
+Every habit runs on cue, craving, response and reward. Change one to change the habit.
+
+## Identity
+
+Lasting change starts with who you want to become.
+
+## Environment
+
+Design your surroundings so good habits are the easy choice.`,
+};
+
+describe("scheduleReview", () => {
+  it("spaces recalled cards 1 day, 6 days, then by the ease factor", () => {
+    const first = scheduleReview(initialSchedule(NOW), 4, NOW);
+    const second = scheduleReview(first, 4, NOW);
+    const third = scheduleReview(second, 5, NOW);
+
+    expect(first).toEqual({
+      easeFactor: 2.5,
+      interval: 1,
+      repetitions: 1,
+      dueAt: NOW + DAY_MS,
+    });
+    expect(second.interval).toBe(6);
+    expect(third.interval).toBe(15);
+    expect(third.easeFactor).toBeCloseTo(2.6);
+    expect(third.dueAt).toBe(NOW + 15 * DAY_MS);
+  });
+
+  it("starts forgotten cards over and lowers their ease", () => {
+    const learned = {
+      easeFactor: 2.5,
+      interval: 15,
+      repetitions: 3,
+      dueAt: NOW,
+    };
+    const forgotten = scheduleReview(learned, 1, NOW);
+
+    expect(forgotten).toEqual({
+      easeFactor: expect.closeTo(1.96),
+      interval: 1,
+      repetitions: 0,
+      dueAt: NOW + DAY_MS,
+    });
+  });
+
+  it("never lowers the ease factor below the minimum", () => {
+    let schedule = initialSchedule(NOW);
+    for (let i = 0; i < 10; i++) {
+      schedule = scheduleReview(schedule, 0, NOW);
+    }
+
+    expect(schedule.easeFactor).toBe(MIN_EASE_FACTOR);
+  });
+});
+
+describe("parseStudySetResponse", () => {
+  const sections = getStudySections(summary);
+
+  it("resolves section headings and drops malformed items", () => {
+    const response = `\`\`\`json
+${JSON.stringify({
+  flashcards: [
+    {
+      front: "What drives a habit?",
+      back: "Cue, craving, response, reward.",
+      section: "the habit loop",
+    },
+    { front: "", back: "Missing front" },
+    {
+      front: "Where does change start?",
+      back: "Identity.",
+      section: "Elsewhere",
+    },
+  ],
+  quiz: [
+    {
+      question: "First step of the loop?",
+      options: ["Cue", "Reward", "Craving", "Response"],
+      answer: 0,
+      section: "The Habit Loop",
+    },
+    { question: "Too few options", options: ["A", "B"], answer: 0 },
+    {
+      question: "Answer out of range",
+      options: ["A", "B", "C", "D"],
+      answer: 4,
+    },
+  ],
+})}
+\`\`\``;
+
+    const { flashcards, quiz } = parseStudySetResponse(response, sections);
+
+    expect(flashcards).toEqual([
+      {
+        front: "What drives a habit?",
+        back: "Cue, craving, response, reward.",
+        sectionId: "the-habit-loop",
+      },
+      {
+        front: "Where does change start?",
+        back: "Identity.",
+        sectionId: undefined,
+      },
+    ]);
+    expect(quiz).toHaveLength(1);
+    expect(quiz[0]).toMatchObject({
+      correctIndex: 0,
+      sectionId: "the-habit-loop",
+    });
+  });
+
+  it("rejects responses that are not a study set", () => {
+    expect(() => parseStudySetResponse("Sorry, I can't.", sections)).toThrow(
+      "Study set response is not JSON"
+    );
+    expect(() => parseStudySetResponse('{"cards": []}', sections)).toThrow(
+      "Study set response is missing flashcards or quiz"
+    );
+  });
+});
+
+describe("generateStudySet", () => {
+  it("draws cards and questions from every section", async () => {
+    expect(buildStudySystemPrompt(10, 5)).toContain(
+      "10 flashcards and 5 multiple-choice"
+    );
+    expect(buildStudyUserPrompt(book, getStudySections(summary))).toContain(
+      "## Identity\nLasting change starts"
+    );
+
+    const result = await generateStudySet(book, summary, { provider: "fake" });
+
+    expect(result.provider).toBe("fake");
+    expect(result.flashcards.map((card) => card.sectionId)).toEqual([
+      undefined,
+      "the-habit-loop",
+      "identity",
+      "environment",
+    ]);
+    expect(result.flashcards[1].back).toBe(
+      "Every habit runs on cue, craving, response and reward."
+    );
+    expect(result.quiz).toHaveLength(4);
+    for (const question of result.quiz) {
+      expect(question.options).toHaveLength(QUIZ_OPTION_COUNT);
+    }
+    expect(result.quiz[2].options[result.quiz[2].correctIndex]).toBe(
+      "Identity"
+    );
+  });
+
+  it("refuses a summary without content", async () => {
+    await expect(
+      generateStudySet(
+        book,
+        { summaryType: "concise", content: "" },
+        {
+          provider: "fake",
+        }
+      )
+    ).rejects.toThrow("This summary has nothing to study yet");
+  });
+});
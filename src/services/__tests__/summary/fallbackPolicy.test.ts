@@ -0,0 +1,118 @@
+/**
+ * Unit tests for the summary generation fallback policy
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  applyFallbackPolicy,
+  getFallbackPolicy,
+} from "@/services/summary/fallbackPolicy";
+import { getSummaryProvider } from "@/services/summary/providers";
+import { meditations as book } from "@/test/fixtures/books";
+
+vi.mock("@/services/summary/mockSummary", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/services/summary/mockSummary")>()),
+  // Skip the simulated delay
+  generateMockSummary: vi.fn(async () => ({
+    content: "# Mock",
+    generationTime: 0,
+    aiModel: "mock-gpt-4",
+    promptVersion: "v1.0-mock",
+    generationMode: "mock",
+    metadata: { bookDataSource: "google-books", hadBookDescription: true },
+  })),
+}));
+
+const outage = new Error("OpenAI request timeout");
+
+describe("getFallbackPolicy", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("prefers the explicit option over the environment", () => {
+    vi.stubEnv("SUMMARY_FALLBACK_POLICY", "alternate-model");
+
+    expect(getFallbackPolicy({ fallbackPolicy: "fail" })).toBe("fail");
+    expect(getFallbackPolicy()).toBe("alternate-model");
+  });
+
+  it("defaults to mock-in-development for missing or unknown values", () => {
+    vi.stubEnv("SUMMARY_FALLBACK_POLICY", "bogus");
+    expect(getFallbackPolicy()).toBe("mock-in-development");
+  });
+});
+
+describe("applyFallbackPolicy", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("re-throws the original error under the fail policy", async () => {
+    await expect(
+      applyFallbackPolicy(outage, book, "concise", { fallbackPolicy: "fail" })
+    ).rejects.toBe(outage);
+  });
+
+  it("returns mock content only in development", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    await expect(
+      applyFallbackPolicy(outage, book, "concise", {
+        fallbackPolicy: "mock-in-development",
+      })
+    ).rejects.toBe(outage);
+
+    vi.stubEnv("NODE_ENV", "development");
+    const result = await applyFallbackPolicy(outage, book, "concise", {
+      fallbackPolicy: "mock-in-development",
+    });
+    expect(result.generationMode).toBe("mock");
+    expect(result.quality?.issues.map((issue) => issue.code)).toContain(
+      "too_short"
+    );
+  });
+
+  it("retries with the alternate model and tags the result", async () => {
+    const result = await applyFallbackPolicy(outage, book, "concise", {
+      provider: "fake",
+      fallbackPolicy: "alternate-model",
+      fallbackModel: "fake-summarizer-lite",
+    });
+
+    expect(result.generationMode).toBe("fallback");
+    expect(result.aiModel).toBe("fake-summarizer-lite");
+  });
+
+  it("re-throws the original error when no distinct alternate model exists", async () => {
+    await expect(
+      applyFallbackPolicy(outage, book, "concise", {
+        provider: "fake",
+        fallbackPolicy: "alternate-model",
+      })
+    ).rejects.toBe(outage);
+
+    await expect(
+      applyFallbackPolicy(outage, book, "concise", {
+        provider: "fake",
+        fallbackPolicy: "alternate-model",
+        fallbackModel: "fake-summarizer",
+      })
+    ).rejects.toBe(outage);
+  });
+
+  it("re-throws the original error when the alternate model also fails", async () => {
+    vi.spyOn(getSummaryProvider("fake"), "generateSummary").mockRejectedValue(
+      new Error("still down")
+    );
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(
+      applyFallbackPolicy(outage, book, "concise", {
+        provider: "fake",
+        fallbackPolicy: "alternate-model",
+        fallbackModel: "fake-summarizer-lite",
+      })
+    ).rejects.toBe(outage);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for prompt variants (versioned prompts and A/B assignment)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PROMPT_VERSION,
+  getPromptVariants,
+  resolvePromptVariant,
+  selectPromptVariant,
+} from "@/services/summary/promptVariants";
+import {
+  buildPromptMessages,
+  buildSystemPrompt,
+} from "@/services/summary/buildPrompts";
+import { streamBookSummary } from "@/services/summary/streamSummary";
+import { meditations as book } from "@/test/fixtures/books";
+
+describe("selectPromptVariant", () => {
+  it("assigns variants in proportion to their weights", () => {
+    const [first, second] = getPromptVariants("concise");
+
+    expect(selectPromptVariant("concise", () => 0).version).toBe(first.version);
+    expect(selectPromptVariant("concise", () => 0.49).version).toBe(
+      first.version
+    );
+    expect(selectPromptVariant("concise", () => 0.5).version).toBe(
+      second.version
+    );
+    expect(selectPromptVariant("concise", () => 0.999).version).toBe(
+      second.version
+    );
+  });
+
+  it("uses the default variant for custom types", () => {
+    expect(selectPromptVariant("custom:tmpl_1", () => 0.9).version).toBe(
+      DEFAULT_PROMPT_VERSION
+    );
+  });
+});
+
+describe("resolvePromptVariant", () => {
+  it("keeps a pinned version registered for the type", () => {
+    expect(resolvePromptVariant("concise", "v1.1-tldr").version).toBe(
+      "v1.1-tldr"
+    );
+  });
+
+  it("assigns a fresh variant for unknown versions", () => {
+    const version = resolvePromptVariant("detailed", "v0.9-retired").version;
+
+    expect(version).toBe(DEFAULT_PROMPT_VERSION);
+  });
+});
+
+describe("variant prompts", () => {
+  const params = {
+    book,
+    summaryType: "concise" as const,
+  };
+
+  it("leaves the default variant's prompts unchanged", () => {
+    const messages = buildPromptMessages({
+      ...params,
+      promptVersion: DEFAULT_PROMPT_VERSION,
+    });
+
+    expect(messages.system).toBe(buildSystemPrompt("concise"));
+  });
+
+  it("applies the variant's prompt adjustments", () => {
+    const messages = buildPromptMessages({
+      ...params,
+      promptVersion: "v1.1-tldr",
+    });
+
+    expect(messages.system).toContain(buildSystemPrompt("concise"));
+    expect(messages.system).toContain("**TL;DR:**");
+  });
+});
+
+describe("variant recording", () => {
+  it("reports the pinned variant on the generation result", async () => {
+    const events = [];
+    for await (const event of streamBookSummary(book, "concise", {
+      provider: "fake",
+      promptVersion: "v1.1-tldr",
+    })) {
+      events.push(event);
+    }
+
+    const done = events.at(-1);
+    expect(done?.type).toBe("done");
+    if (done?.type !== "done") return;
+    expect(done.result.promptVersion).toBe("v1.1-tldr");
+  });
+
+  it("records an assigned variant when none is pinned", async () => {
+    const versions = getPromptVariants("concise").map(
+      (variant) => variant.version
+    );
+
+    for await (const event of streamBookSummary(book, "concise", {
+      provider: "fake",
+    })) {
+      if (event.type === "done") {
+        expect(versions).toContain(event.result.promptVersion);
+      }
+    }
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for the summary provider registry and built-in providers
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  getDefaultProviderId,
+  getSummaryProvider,
+  isSummaryProviderId,
+  listSummaryProviders,
+} from "@/services/summary/providers";
+import { FakeSummaryProvider } from "@/services/summary/providers/fake";
+import { createLocalProvider } from "@/services/summary/providers/local";
+import { createOpenAIProvider } from "@/services/summary/providers/openai";
+import { estimateCost, OPENAI_PRICING } from "@/services/summary/helpers";
+import { meditations as book } from "@/test/fixtures/books";
+
+describe("Summary provider registry", () => {
+  const originalProvider = process.env.SUMMARY_PROVIDER;
+
+  afterEach(() => {
+    process.env.SUMMARY_PROVIDER = originalProvider;
+  });
+
+  it("registers openai, local and fake providers", () => {
+    expect(listSummaryProviders().map((provider) => provider.id)).toEqual([
+      "openai",
+      "local",
+      "fake",
+    ]);
+  });
+
+  it("returns the same instance for repeated lookups", () => {
+    expect(getSummaryProvider("fake")).toBe(getSummaryProvider("fake"));
+  });
+
+  it("uses SUMMARY_PROVIDER as the default when valid", () => {
+    process.env.SUMMARY_PROVIDER = "local";
+    expect(getDefaultProviderId()).toBe("local");
+
+    process.env.SUMMARY_PROVIDER = "bogus";
+    expect(getDefaultProviderId()).toBe("openai");
+  });
+
+  it("validates provider identifiers", () => {
+    expect(isSummaryProviderId("fake")).toBe(true);
+    expect(isSummaryProviderId("anthropic")).toBe(false);
+    expect(isSummaryProviderId(undefined)).toBe(false);
+  });
+});
+
+describe("FakeSummaryProvider", () => {
+  const provider = new FakeSummaryProvider();
+
+  it("generates deterministic content at zero cost", async () => {
+    const first = await provider.generateSummary(book, "concise");
+    const second = await provider.generateSummary(book, "concise");
+
+    expect(first.content).toBe(second.content);
+    expect(first.content).toContain("Meditations");
+    expect(first.provider).toBe("fake");
+    expect(first.aiModel).toBe("fake-summarizer");
+    expect(first.usage?.estimatedCost).toBe(0);
+    expect(first.usage?.completionTokens).toBeGreaterThan(0);
+  });
+
+  it("streams deltas that reassemble into the complete content", async () => {
+    const params = provider.buildParams(book, "practical");
+    const { content } = await provider.completeSummary(params);
+
+    const stream = provider.streamSummary(params);
+    let streamed = "";
+    let next = await stream.next();
+    while (!next.done) {
+      streamed += next.value;
+      next = await stream.next();
+    }
+
+    expect(streamed).toBe(content);
+    expect(next.value.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it("answers other requests with the fake content they bring", async () => {
+    const request = {
+      system: "Answer briefly.",
+      user: "What is Stoicism?",
+      maxTokens: 100,
+    };
+
+    const withFake = await provider.complete({
+      ...request,
+      fakeContent: () => "A school of philosophy.",
+    });
+    const without = await provider.complete(request);
+
+    expect(withFake.content).toBe("A school of philosophy.");
+    expect(without.content).toBe("What is Stoicism?");
+    expect(withFake.usage?.promptTokens).toBeGreaterThan(0);
+  });
+
+  it("is always configured and reachable", async () => {
+    expect(provider.isConfigured()).toBe(true);
+    await expect(provider.testConnection()).resolves.toBe(true);
+  });
+});
+
+describe("OpenAI-compatible providers", () => {
+  it("requires an API key for OpenAI", () => {
+    expect(createOpenAIProvider("").isConfigured()).toBe(false);
+    expect(createOpenAIProvider("sk-test").isConfigured()).toBe(true);
+    expect(createOpenAIProvider("sk-test").getAvailableModels()).toEqual(
+      Object.keys(OPENAI_PRICING)
+    );
+  });
+
+  it("does not require a key for local endpoints and prices them at zero", () => {
+    const local = createLocalProvider("http://localhost:8080/v1", "qwen2.5");
+
+    expect(local.isConfigured()).toBe(true);
+    expect(local.defaultModel).toBe("qwen2.5");
+    expect(local.estimateCost(10_000, 10_000, "qwen2.5")).toBe(0);
+  });
+
+  it("prices OpenAI models from its own table", () => {
+    const openai = createOpenAIProvider("sk-test");
+
+    expect(openai.estimateCost(1000, 1000, "gpt-4o")).toBeCloseTo(0.0125);
+    expect(openai.estimateCost(1000, 1000, "gpt-4o")).toBe(
+      estimateCost(1000, 1000, "gpt-4o")
+    );
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the post-generation quality check
+ */
+
+import { describe, it, expect } from "vitest";
+import { assessSummaryQuality } from "@/services/summary/qualityCheck";
+import { structureSummary } from "@/services/summary/structureSummary";
+import type { SummaryGenerationResult } from "@/types/summary";
+
+const words = (count: number) => Array(count).fill("idea").join(" ");
+
+/** A concise summary with all three template sections, ~300 words */
+const wellFormed = `# Meditations
+
+${words(100)}
+
+## Main Points
+- ${words(100)}
+
+## Conclusion
+${words(100)}`;
+
+function result(
+  content: string,
+  overrides: Partial<SummaryGenerationResult> = {}
+): SummaryGenerationResult {
+  return {
+    content,
+    structured: structureSummary(content),
+    generationTime: 1000,
+    aiModel: "gpt-4o-mini",
+    promptVersion: "v1.0",
+    generationMode: "primary",
+    metadata: {
+      bookDataSource: "google-books",
+      hadBookDescription: true,
+      source: { kind: "description" },
+    },
+    ...overrides,
+  };
+}
+
+describe("assessSummaryQuality", () => {
+  it("gives full confidence to a grounded, well-formed summary", () => {
+    expect(
+      assessSummaryQuality(result(wellFormed), { summaryType: "concise" })
+    ).toEqual({ score: 1, issues: [] });
+  });
+
+  it("flags short summaries missing the template's sections", () => {
+    const quality = assessSummaryQuality(result("# Meditations\n\nBrief."), {
+      summaryType: "concise",
+    });
+
+    expect(quality.issues.map((issue) => issue.code)).toEqual([
+      "too_short",
+      "missing_sections",
+    ]);
+    expect(quality.score).toBe(0.55);
+  });
+
+  it("flags output that used the whole token budget as truncated", () => {
+    const quality = assessSummaryQuality(
+      result(wellFormed, {
+        usage: { promptTokens: 100, completionTokens: 600, totalTokens: 700 },
+      }),
+      { summaryType: "concise" }
+    );
+
+    expect(quality.issues.map((issue) => issue.code)).toEqual(["truncated"]);
+    expect(quality.score).toBe(0.8);
+  });
+
+  it("flags chapter and character claims only when nothing grounds them", () => {
+    const claims = `${wellFormed}
+
+In Chapter 3 the protagonist meets a character named Rusticus.
+
+> The best revenge is not to be like your enemy.`;
+
+    const grounded = assessSummaryQuality(result(claims), {
+      summaryType: "concise",
+    });
+    expect(grounded.issues).toEqual([]);
+
+    const ungrounded = assessSummaryQuality(
+      result(claims, {
+        metadata: {
+          bookDataSource: "open-library",
+          hadBookDescription: false,
+          source: { kind: "metadata" },
+        },
+      }),
+      { summaryType: "concise" }
+    );
+    expect(ungrounded.issues).toHaveLength(1);
+    expect(ungrounded.issues[0].code).toBe("unsupported_claims");
+    expect(ungrounded.issues[0].message).toContain("chapter 3");
+    // Four claims, capped at the maximum claim penalty
+    expect(ungrounded.score).toBe(0.55);
+  });
+
+  it("treats full-text summaries as grounded even without a description", () => {
+    const quality = assessSummaryQuality(
+      result(`${wellFormed}\n\nChapter 2 follows the narrator home.`, {
+        metadata: {
+          bookDataSource: "google-books",
+          hadBookDescription: false,
+          source: { kind: "fulltext", format: "epub" },
+        },
+      }),
+      { summaryType: "concise" }
+    );
+
+    expect(quality.score).toBe(1);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Unit tests for full-text source ingestion and map-reduce summarization
+ */
+
+import { describe, it, expect } from "vitest";
+import { deflateRawSync } from "node:zlib";
+import { parseTextSource } from "@/services/summary/sources/parseText";
+import { chunkChapters } from "@/services/summary/sources/chunkSource";
+import { loadSummarySource } from "@/services/summary/sources";
+import { MAX_EPUB_INFLATED_BYTES } from "@/services/summary/sources/parseEpub";
+import { streamSourceSummary } from "@/services/summary/summarizeSource";
+import type { Book } from "@/types/book";
+import type { SummaryStreamEvent } from "@/types/summary";
+
+const book: Book = {
+  id: "open-library-OL1",
+  title: "Meditations",
+  authors: ["Marcus Aurelius"],
+  source: "open-library",
+  originalId: "OL1",
+};
+
+const paragraph = (word: string, count = 60) =>
+  Array.from({ length: count }, () => word).join(" ");
+
+const novel = [
+  "*** START OF THE PROJECT GUTENBERG EBOOK MEDITATIONS ***",
+  "Contents",
+  "BOOK I",
+  "BOOK II",
+  "BOOK I",
+  paragraph("gratitude"),
+  "BOOK II",
+  paragraph("morning"),
+  "*** END OF THE PROJECT GUTENBERG EBOOK MEDITATIONS ***",
+  "License text that should never be summarized.",
+].join("\n\n");
+
+/**
+ * Build a zip archive with deflated entries (CRCs are not checked)
+ */
+function buildZip(files: Record<string, string>): Uint8Array {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...locals, directory, eocd]));
+}
+
+const chapterXhtml = (title: string, body: string) =>
+  `<html><head><title>ignored</title></head><body><h1>${title}</h1><p>${body}</p></body></html>`;
+
+const epubFiles = {
+  "META-INF/container.xml":
+    '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+  "OEBPS/content.opf": `<package>
+    <metadata><dc:title>Meditations</dc:title></metadata>
+    <manifest>
+      <item id="cover" href="cover.xhtml"/>
+      <item id="c2" href="text/two.xhtml"/>
+      <item id="c1" href="text/one.xhtml"/>
+    </manifest>
+    <spine><itemref idref="cover"/><itemref idref="c1"/><itemref idref="c2"/></spine>
+  </package>`,
+  "OEBPS/cover.xhtml": chapterXhtml("Cover", "Meditations"),
+  "OEBPS/text/one.xhtml": chapterXhtml(
+    "Book One",
+    `${paragraph("gratitude")} &amp; more`
+  ),
+  "OEBPS/text/two.xhtml": chapterXhtml("Book Two", paragraph("morning")),
+};
+const epub = buildZip(epubFiles);
+
+// Compresses to a few KB, inflates past the whole EPUB budget
+const bomb = "0".repeat(MAX_EPUB_INFLATED_BYTES + 1);
+
+describe("parseTextSource", () => {
+  it("splits on chapter headings and drops Gutenberg boilerplate", () => {
+    const chapters = parseTextSource(novel);
+
+    expect(chapters.map((chapter) => chapter.title)).toEqual([
+      "BOOK I",
+      "BOOK II",
+    ]);
+    expect(chapters[0].text).toContain("gratitude");
+    expect(chapters.some((chapter) => chapter.text.includes("License"))).toBe(
+      false
+    );
+  });
+
+  it("treats text without headings as a single chapter", () => {
+    const chapters = parseTextSource(paragraph("plain"));
+
+    expect(chapters).toHaveLength(1);
+    expect(chapters[0].title).toBe("Full text");
+  });
+});
+
+describe("chunkChapters", () => {
+  it("never lets a chunk span chapters and keeps provenance", () => {
+    const chapters = [
+      { title: "One", text: [paragraph("a"), paragraph("b")].join("\n\n") },
+      { title: "Two", text: paragraph("c") },
+    ];
+
+    const chunks = chunkChapters(chapters, 150);
+
+    expect(chunks.map((chunk) => [chunk.chapterTitle, chunk.part])).toEqual([
+      ["One", 1],
+      ["One", 2],
+      ["Two", 1],
+    ]);
+    expect(chunks.map((chunk) => chunk.index)).toEqual([0, 1, 2]);
+    expect(chunks[0].partCount).toBe(2);
+  });
+
+  it("hard-splits paragraphs longer than the chunk size", () => {
+    const chunks = chunkChapters(
+      [{ title: "One", text: paragraph("word", 100) }],
+      100
+    );
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.text.length <= 100)).toBe(true);
+  });
+});
+
+describe("loadSummarySource", () => {
+  it("reads EPUB chapters in spine order, skipping short front matter", () => {
+    const source = loadSummarySource("meditations.epub", epub);
+
+    expect(source.chapters.map((chapter) => chapter.title)).toEqual([
+      "Book One",
+      "Book Two",
+    ]);
+    expect(source.chapters[0].text).toContain("& more");
+    expect(source.descriptor).toMatchObject({
+      kind: "fulltext",
+      format: "epub",
+      fileName: "meditations.epub",
+      chunkCount: 2,
+      chapters: ["Book One", "Book Two"],
+    });
+  });
+
+  it("detects EPUB by zip signature when the extension is missing", () => {
+    expect(loadSummarySource("upload", epub).descriptor.format).toBe("epub");
+  });
+
+  it("never inflates EPUB entries outside the spine", () => {
+    const upload = buildZip({ ...epubFiles, "OEBPS/fonts/bomb.bin": bomb });
+
+    expect(loadSummarySource("meditations.epub", upload).chapters).toHaveLength(
+      2
+    );
+  });
+
+  it("rejects EPUBs that inflate past the size budget", () => {
+    const upload = buildZip({
+      ...epubFiles,
+      "OEBPS/text/two.xhtml": chapterXhtml("Book Two", bomb),
+    });
+
+    expect(() => loadSummarySource("meditations.epub", upload)).toThrow(
+      "too large once decompressed"
+    );
+  });
+
+  it("rejects files with no readable text", () => {
+    expect(() => loadSummarySource("empty.txt", new Uint8Array())).toThrow(
+      "No readable text"
+    );
+  });
+});
+
+describe("streamSourceSummary", () => {
+  it("maps each chunk, reports progress and reduces per chapter", async () => {
+    const source = loadSummarySource(
+      "meditations.txt",
+      new TextEncoder().encode(novel)
+    );
+    const events: SummaryStreamEvent[] = [];
+
+    for await (const event of streamSourceSummary(book, "detailed", source, {
+      provider: "fake",
+    })) {
+      events.push(event);
+    }
+
+    const progress = events.filter((event) => event.type === "progress");
+    expect(progress.at(-1)).toMatchObject({ completed: 2, total: 2 });
+
+    const done = events.at(-1);
+    expect(done?.type).toBe("done");
+    if (done?.type !== "done") return;
+
+    expect(done.result.content).toContain("### BOOK I\n\n- BOOK I: gratitude");
+    expect(done.result.content).toContain("### BOOK II\n\n- BOOK II: morning");
+    expect(done.result.metadata?.source).toEqual(source.descriptor);
+    expect(done.result.usage?.totalTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for structured summary extraction
+ */
+
+import React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import rehypeSlug from "rehype-slug";
+import { describe, it, expect } from "vitest";
+import {
+  structureSummary,
+  tryStructureSummary,
+} from "@/services/summary/structureSummary";
+import { generateMockContent } from "@/services/summary/mockSummary";
+import { parseStructuredSummary } from "@/types/summary";
+
+const markdown = `# Meditations
+
+Private notes on **Stoic** philosophy.
+
+## Key Points
+- Focus on what you control
+- Accept what *you* cannot change
+
+## Notable Quotes
+> You have power over your mind - not outside events.
+> — Marcus Aurelius
+
+## Implementation Strategies
+1. Journal each evening
+2. Practice negative visualization
+
+### Key Points
+- Nested sections get unique ids
+
+\`\`\`
+# not a heading
+\`\`\``;
+
+describe("structureSummary", () => {
+  it("splits sections below the title, keeping their markdown", () => {
+    const structured = structureSummary(markdown);
+
+    expect(structured.title).toBe("Meditations");
+    expect(structured.overview).toBe("Private notes on **Stoic** philosophy.");
+    expect(
+      structured.sections.map(({ id, heading, level }) => [id, heading, level])
+    ).toEqual([
+      ["key-points", "Key Points", 2],
+      ["notable-quotes", "Notable Quotes", 2],
+      ["implementation-strategies", "Implementation Strategies", 2],
+      ["key-points-1", "Key Points", 3],
+    ]);
+    expect(structured.sections[3].content).toContain("# not a heading");
+  });
+
+  it("collects takeaways, action items and attributed quotes", () => {
+    const structured = structureSummary(markdown);
+
+    expect(structured.keyTakeaways).toEqual([
+      "Focus on what you control",
+      "Accept what *you* cannot change",
+      "Nested sections get unique ids",
+    ]);
+    expect(structured.actionItems).toEqual([
+      "Journal each evening",
+      "Practice negative visualization",
+    ]);
+    expect(structured.quotes).toEqual([
+      {
+        text: "You have power over your mind - not outside events.",
+        attribution: "Marcus Aurelius",
+      },
+    ]);
+  });
+
+  it("uses the ids rehype-slug renders for the same headings", () => {
+    const html = renderToStaticMarkup(
+      React.createElement(
+        ReactMarkdown,
+        { rehypePlugins: [rehypeSlug] },
+        markdown
+      )
+    );
+
+    for (const section of structureSummary(markdown).sections) {
+      expect(html).toContain(`id="${section.id}"`);
+    }
+  });
+
+  it("structures mock content and round-trips through the schema", () => {
+    const content = generateMockContent(
+      { title: "Dune", authors: ["Frank Herbert"] },
+      "concise"
+    );
+    const structured = structureSummary(content);
+
+    expect(structured.keyTakeaways.length).toBeGreaterThan(0);
+    expect(parseStructuredSummary(structured)).toEqual(structured);
+  });
+
+  it("treats markdown without headings as an overview only", () => {
+    expect(tryStructureSummary("Just a paragraph.")).toEqual({
+      overview: "Just a paragraph.",
+      sections: [],
+      keyTakeaways: [],
+      quotes: [],
+      actionItems: [],
+    });
+  });
+});
+
+describe("parseStructuredSummary", () => {
+  it("rejects documents missing required fields", () => {
+    expect(parseStructuredSummary({ sections: [] })).toBeUndefined();
+    expect(parseStructuredSummary(undefined)).toBeUndefined();
+  });
+});
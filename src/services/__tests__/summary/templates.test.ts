@@ -0,0 +1,136 @@
+/**
+ * Unit tests for summary templates (built-in and custom summary types)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  BUILT_IN_SUMMARY_TEMPLATES,
+  formatTemplateReadTime,
+  resolveSummaryTemplate,
+} from "@/services/summary/templates";
+import {
+  buildSystemPrompt,
+  buildUserPrompt,
+} from "@/services/summary/buildPrompts";
+import {
+  getDefaultMaxTokens,
+  validateInputs,
+} from "@/services/summary/helpers";
+import { streamBookSummary } from "@/services/summary/streamSummary";
+import { isSummaryType, type SummaryTemplate } from "@/types/summary";
+import { meditations as book } from "@/test/fixtures/books";
+
+const studyGuide: SummaryTemplate = {
+  key: "custom:tmpl_1",
+  title: "Study Guide",
+  description: "Key concepts with quiz questions",
+  readTime: "2-3 minutes read",
+  icon: "✏️",
+  instructions:
+    "- Explain the key concepts simply\n- End with 5 quiz questions",
+  headings: ["Key concepts", "Quiz"],
+  targetWords: { min: 300, max: 500 },
+  builtIn: false,
+};
+
+describe("resolveSummaryTemplate", () => {
+  it("uses the bundled template for built-in types", () => {
+    expect(resolveSummaryTemplate("concise")).toBe(
+      BUILT_IN_SUMMARY_TEMPLATES.concise
+    );
+  });
+
+  it("prefers a supplied template matching the type", () => {
+    const tuned = { ...BUILT_IN_SUMMARY_TEMPLATES.concise, title: "Tuned" };
+
+    expect(resolveSummaryTemplate("concise", tuned).title).toBe("Tuned");
+    expect(resolveSummaryTemplate("detailed", tuned).key).toBe("detailed");
+  });
+
+  it("rejects custom types without their template", () => {
+    expect(() => resolveSummaryTemplate("custom:tmpl_1")).toThrow(
+      "Invalid summary type: custom:tmpl_1"
+    );
+    expect(() => validateInputs(book, "custom:tmpl_1")).toThrow(
+      "Invalid summary type"
+    );
+    expect(() =>
+      validateInputs(book, "custom:tmpl_1", studyGuide)
+    ).not.toThrow();
+  });
+});
+
+describe("summary type keys", () => {
+  it("accepts built-in and custom keys only", () => {
+    expect(isSummaryType("analysis")).toBe(true);
+    expect(isSummaryType("custom:tmpl_1")).toBe(true);
+    expect(isSummaryType("custom:")).toBe(false);
+    expect(isSummaryType("bedtime")).toBe(false);
+  });
+});
+
+describe("template prompts", () => {
+  it("keeps built-in type instructions and lengths", () => {
+    const prompt = buildSystemPrompt("concise");
+
+    expect(prompt).toContain("Create a CONCISE SUMMARY (2-3 minutes read):");
+    expect(prompt).toContain("- Highlight 3-4 key points or takeaways");
+    expect(prompt).toContain(
+      "- Structure: Brief intro, main points, conclusion"
+    );
+    expect(prompt).toContain("- Target length: 200-400 words");
+  });
+
+  it("renders custom instructions, headings and target length", () => {
+    const prompt = buildSystemPrompt("custom:tmpl_1", studyGuide);
+
+    expect(prompt).toContain("Create a STUDY GUIDE (2-3 minutes read):");
+    expect(prompt).toContain("- End with 5 quiz questions");
+    expect(prompt).toContain("- Structure: Key concepts, Quiz");
+    expect(prompt).toContain("- Target length: 300-500 words");
+  });
+
+  it("names custom types by title in the user prompt", () => {
+    const prompt = buildUserPrompt({
+      book,
+      summaryType: "custom:tmpl_1",
+      template: studyGuide,
+    });
+
+    expect(prompt).toContain('Please create a "Study Guide" summary');
+  });
+});
+
+describe("template token budgets", () => {
+  it("derives max tokens from the target length", () => {
+    expect(getDefaultMaxTokens("concise")).toBe(600);
+    expect(getDefaultMaxTokens("detailed")).toBe(1800);
+    expect(getDefaultMaxTokens("analysis")).toBe(1350);
+    expect(getDefaultMaxTokens("practical")).toBe(1050);
+    expect(getDefaultMaxTokens("custom:tmpl_1", studyGuide)).toBe(750);
+  });
+
+  it("formats reading time from the word range", () => {
+    expect(formatTemplateReadTime({ min: 300, max: 500 })).toBe(
+      "2-3 minutes read"
+    );
+    expect(formatTemplateReadTime({ min: 50, max: 100 })).toBe("1 minute read");
+  });
+});
+
+describe("custom template generation", () => {
+  it("streams a summary for a custom type with its template", async () => {
+    const events = [];
+    for await (const event of streamBookSummary(book, "custom:tmpl_1", {
+      provider: "fake",
+      template: studyGuide,
+    })) {
+      events.push(event);
+    }
+
+    const done = events.at(-1);
+    expect(done?.type).toBe("done");
+    if (done?.type !== "done") return;
+    expect(done.result.content).toContain("# Study Guide: Meditations");
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for summary languages and translation
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildPromptMessages,
+  buildSystemPrompt,
+} from "@/services/summary/buildPrompts";
+import { streamBookSummary } from "@/services/summary/streamSummary";
+import { streamSummaryTranslation } from "@/services/summary/translateSummary";
+import type { Book } from "@/types/book";
+import type { SummaryStreamEvent } from "@/types/summary";
+import { meditations } from "@/test/fixtures/books";
+
+/** A French edition, as Open Library records it (MARC code) */
+const book: Book = { ...meditations, language: "fre" };
+
+async function collect(
+  stream: AsyncGenerator<SummaryStreamEvent>
+): Promise<SummaryStreamEvent[]> {
+  const events: SummaryStreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("summary language prompts", () => {
+  it("asks for other languages and leaves English prompts unchanged", () => {
+    expect(buildSystemPrompt("concise", undefined, "en")).toBe(
+      buildSystemPrompt("concise")
+    );
+    expect(buildSystemPrompt("concise", undefined, "de")).toContain(
+      "including headings, in German."
+    );
+  });
+
+  it("builds a structure-preserving translation prompt", () => {
+    const { system, user } = buildPromptMessages({
+      book: { title: book.title, authors: book.authors },
+      summaryType: "concise",
+      language: "es",
+      translation: { content: "# Meditations", fromLanguage: "en" },
+    });
+
+    expect(system).toContain("from English into Spanish");
+    expect(user).toBe("# Meditations");
+  });
+
+  it("generates in the book's language when asked to", async () => {
+    const events = await collect(
+      streamBookSummary(book, "concise", { provider: "fake", language: "book" })
+    );
+
+    const done = events.at(-1);
+    expect(done?.type).toBe("done");
+    if (done?.type !== "done") return;
+    expect(done.result.language).toBe("fr");
+  });
+});
+
+describe("streamSummaryTranslation", () => {
+  const source = {
+    content: "# Meditations\n\nNotes.\n\n## Key Points\n- Focus",
+    language: "en",
+    promptVersion: "v1.1",
+    quality: { score: 0.85, issues: [] },
+    metadata: {
+      bookDataSource: "open-library" as const,
+      hadBookDescription: true,
+      source: { kind: "description" as const },
+    },
+  };
+
+  it("translates content and keeps the original's provenance", async () => {
+    const events = await collect(
+      streamSummaryTranslation(book, "concise", source, "es", {
+        provider: "fake",
+      })
+    );
+
+    expect(events.some((event) => event.type === "delta")).toBe(true);
+    const done = events.at(-1);
+    expect(done?.type).toBe("done");
+    if (done?.type !== "done") return;
+
+    expect(done.result.content).toContain("## Key Points [es]");
+    expect(done.result.language).toBe("es");
+    expect(done.result.promptVersion).toBe("v1.1");
+    expect(done.result.quality).toEqual(source.quality);
+    expect(done.result.metadata.translatedFrom).toBe("en");
+    expect(done.result.structured?.sections[0].heading).toBe("Key Points [es]");
+  });
+
+  it("rejects unsupported and unchanged languages", async () => {
+    const unsupported = await collect(
+      streamSummaryTranslation(book, "concise", source, "xx", {
+        provider: "fake",
+      })
+    );
+    expect(unsupported).toEqual([
+      { type: "error", message: "Unsupported summary language: xx" },
+    ]);
+
+    const unchanged = await collect(
+      streamSummaryTranslation(book, "concise", source, "en", {
+        provider: "fake",
+      })
+    );
+    expect(unchanged).toEqual([
+      { type: "error", message: "Summary is already in English" },
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { Book } from "@/types/book";
+import type {
+  BookChatContext,
+  BookChatStreamEvent,
+  BookChatTurn,
+} from "@/types/chat";
+import {
+  resolveSummaryLanguage,
+  SummaryGenerationOptions,
+} from "@/types/summary";
+import { getSummaryProvider } from "../summary/providers";
+import { extractCitations } from "./bookChatContext";
+import {
+  buildChatSystemPrompt,
+  buildChatUserPrompt,
+  buildFakeChatAnswer,
+} from "./chatPrompts";
+
+/** Answers are short; this also bounds the cost of one question */
+export const MAX_ANSWER_TOKENS = 700;
+
+/** Earlier turns replayed with each question */
+export const MAX_HISTORY_TURNS = 10;
+
+/**
+ * Stream an answer to a question about a book, emitting content deltas
+ * followed by the answer with its citations.
+ *
+ * Only the earlier turns that fit MAX_HISTORY_TURNS are replayed. Deltas
+ * carry the raw model output, citation markers included; the done event's
+ * answer has them resolved to summary sections.
+ *
+ * Errors:
+ *  - Reported as a single `error` event. No fallback is attempted, since
+ *    mock content would not answer anything
+ */
+export async function* streamBookChatAnswer(
+  book: Book,
+  context: BookChatContext,
+  history: BookChatTurn[],
+  question: string,
+  options: SummaryGenerationOptions = {}
+): AsyncGenerator<BookChatStreamEvent> {
+  try {
+    const provider = getSummaryProvider(options.provider);
+    const model = provider.resolveModel(options.model);
+    const input = {
+      context,
+      history: history.slice(-MAX_HISTORY_TURNS),
+      question,
+    };
+    const stream = provider.stream(
+      {
+        system: buildChatSystemPrompt(
+          resolveSummaryLanguage(options.language, book)
+        ),
+        user: buildChatUserPrompt(input),
+        model,
+        maxTokens: options.maxTokens ?? MAX_ANSWER_TOKENS,
+        fakeContent: () => buildFakeChatAnswer(input),
+      },
+      options
+    );
+    let content = "";
+
+    let next = await stream.next();
+    while (!next.done) {
+      content += next.value;
+      yield { type: "delta", content: next.value };
+      next = await stream.next();
+    }
+
+    if (!content.trim()) {
+      throw new Error(`No answer generated by ${provider.id}`);
+    }
+
+    yield {
+      type: "done",
+      answer: {
+        ...extractCitations(content, context.passages),
+        aiModel: model,
+        provider: provider.id,
+        usage: next.value.usage,
+      },
+    };
+  } catch (error) {
+    console.error("Book chat error:", { error, book: book.id, question });
+
+    yield {
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,182 @@
+import type {
+  BookChatCitation,
+  BookChatContext,
+  BookChatPassage,
+} from "@/types/chat";
+import {
+  getSummaryTypeDescription,
+  type StructuredSummary,
+  type SummaryType,
+} from "@/types/summary";
+import { structureSummary } from "../summary/structureSummary";
+
+/**
+ * Book chat context
+ *
+ * Answers are grounded in the book's stored summaries, cut into one
+ * passage per section so the model can cite exactly where an answer came
+ * from, and the reader can jump to that section.
+ *
+ * Why summaries rather than the book text:
+ * - They exist for every book with a summary, while full texts are rare
+ * - They already fit in one prompt, so no retrieval index is needed
+ */
+
+/** Most passage characters sent with one question */
+export const MAX_CONTEXT_CHARS = 24_000;
+
+/** Shortest a passage is cut to when many sections share the budget */
+const MIN_PASSAGE_CHARS = 600;
+
+/** Heading for the text before the first section */
+const OVERVIEW_HEADING = "Overview";
+
+/**
+ * A stored summary offered as chat context
+ */
+export interface ChatSummarySource {
+  id: string;
+  summaryType: SummaryType;
+  content: string;
+  structured?: StructuredSummary;
+  language?: string;
+}
+
+/**
+ * Cut text at the last word boundary within `maxChars`
+ */
+function truncateText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const cut = text.lastIndexOf(" ", maxChars);
+  return `${text.slice(0, cut > 0 ? cut : maxChars).trimEnd()}…`;
+}
+
+/**
+ * One summary per type, preferring the reader's language
+ *
+ * Translations repeat the same sections, so including them would only
+ * crowd out other summary types.
+ */
+function pickSummaries(
+  summaries: ChatSummarySource[],
+  language?: string
+): ChatSummarySource[] {
+  const byType = new Map<SummaryType, ChatSummarySource>();
+  for (const summary of summaries) {
+    const current = byType.get(summary.summaryType);
+    if (
+      !current ||
+      (summary.language === language && current.language !== language)
+    ) {
+      byType.set(summary.summaryType, summary);
+    }
+  }
+  return [...byType.values()];
+}
+
+/**
+ * Build the context for a question about a book
+ *
+ * Passages are numbered S1, S2, ... across every summary. When the
+ * sections don't fit in MAX_CONTEXT_CHARS, each is shortened to an even
+ * share of it, and sections past the budget are left out.
+ *
+ * @param book Book the chat is about
+ * @param summaries Completed, non-mock summaries of the book
+ * @param language Language the reader is using, to pick among translations
+ */
+export function buildBookChatContext(
+  book: BookChatContext["book"],
+  summaries: ChatSummarySource[],
+  language?: string
+): BookChatContext {
+  const sections = pickSummaries(summaries, language).flatMap((summary) => {
+    const structured = summary.structured ?? structureSummary(summary.content);
+    const summaryTypeLabel = getSummaryTypeDescription(
+      summary.summaryType
+    ).title;
+    const base = {
+      summaryId: summary.id,
+      summaryType: summary.summaryType,
+      summaryTypeLabel,
+    };
+
+    return [
+      ...(structured.overview
+        ? [{ ...base, heading: OVERVIEW_HEADING, content: structured.overview }]
+        : []),
+      ...structured.sections
+        .filter((section) => section.content.trim())
+        .map((section) => ({
+          ...base,
+          sectionId: section.id,
+          heading: section.heading,
+          content: section.content.trim(),
+        })),
+    ];
+  });
+
+  const total = sections.reduce(
+    (sum, section) => sum + section.content.length,
+    0
+  );
+  const maxPassageChars =
+    total <= MAX_CONTEXT_CHARS
+      ? Infinity
+      : Math.max(
+          MIN_PASSAGE_CHARS,
+          Math.floor(MAX_CONTEXT_CHARS / sections.length)
+        );
+
+  const passages: BookChatPassage[] = [];
+  let used = 0;
+  for (const section of sections) {
+    const content = truncateText(section.content, maxPassageChars);
+    if (used + content.length > MAX_CONTEXT_CHARS) break;
+    used += content.length;
+    passages.push({ ...section, ref: `S${passages.length + 1}`, content });
+  }
+
+  return { book, passages };
+}
+
+const CITATION_PATTERN = /\s*\[(S\d+(?:\s*,\s*S\d+)*)\]/g;
+
+/**
+ * Remove citation markers from (possibly partial) answer text
+ */
+export function stripCitationMarkers(text: string): string {
+  return text.replace(CITATION_PATTERN, "");
+}
+
+/**
+ * Split an answer into clean text and the passages it cites
+ *
+ * Citations are listed in order of first mention; references to passages
+ * that weren't offered are dropped.
+ */
+export function extractCitations(
+  answer: string,
+  passages: BookChatPassage[]
+): { content: string; citations: BookChatCitation[] } {
+  const byRef = new Map(passages.map((passage) => [passage.ref, passage]));
+  const cited = new Set<BookChatPassage>();
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    for (const ref of match[1].split(",")) {
+      const passage = byRef.get(ref.trim());
+      if (passage) cited.add(passage);
+    }
+  }
+
+  return {
+    content: stripCitationMarkers(answer).trim(),
+    citations: [...cited].map((passage) => ({
+      summaryId: passage.summaryId,
+      summaryType: passage.summaryType,
+      summaryTypeLabel: passage.summaryTypeLabel,
+      sectionId: passage.sectionId,
+      heading: passage.heading,
+    })),
+  };
+}
@@ -0,0 +1,98 @@
+import type { BookChatContext, BookChatTurn } from "@/types/chat";
+import { DEFAULT_SUMMARY_LANGUAGE, getLanguageName } from "@/types/summary";
+
+/**
+ * Book chat prompts
+ *
+ * The system prompt asks for answers grounded in, and citing, the
+ * numbered summary passages; the user prompt carries the passages, the
+ * conversation so far and the question.
+ */
+
+/**
+ * A question to answer, with what it is answered from
+ */
+export interface ChatPromptInput {
+  context: BookChatContext;
+  history: BookChatTurn[];
+  question: string;
+}
+
+/**
+ * Build the system prompt for answering a question about a book
+ */
+export function buildChatSystemPrompt(
+  language: string = DEFAULT_SUMMARY_LANGUAGE
+): string {
+  const languagePrompt =
+    language === DEFAULT_SUMMARY_LANGUAGE
+      ? ""
+      : `\n- Answer in ${getLanguageName(language)}`;
+
+  return `You are a knowledgeable reading companion answering a reader's questions about one book. You are given passages from summaries of the book, each labelled with a reference such as [S1].
+
+Key Guidelines:
+- Ground your answer in the passages; say so plainly when they don't cover the question
+- Cite the passages you draw from by putting their reference in square brackets after the sentence, e.g. [S2] or [S1, S3]
+- Only cite references that appear in the passages
+- Clearly mark anything drawn from general knowledge of the work rather than the passages
+- Keep answers focused: a few short paragraphs or a list, in markdown${languagePrompt}`;
+}
+
+/**
+ * Build the user prompt for a book chat question
+ */
+export function buildChatUserPrompt({
+  context,
+  history,
+  question,
+}: ChatPromptInput): string {
+  let prompt = `**Book:** ${context.book.title} by ${context.book.authors.join(", ")}`;
+
+  if (context.book.description) {
+    prompt += `\n\n**Book Description:**\n${context.book.description}`;
+  }
+
+  prompt += `\n\n**Summary Passages:**`;
+  for (const passage of context.passages) {
+    prompt += `\n\n[${passage.ref}] ${passage.summaryTypeLabel} - ${passage.heading}\n${passage.content}`;
+  }
+
+  if (history.length > 0) {
+    prompt += `\n\n**Conversation So Far:**`;
+    for (const turn of history) {
+      prompt += `\n\n${turn.role === "user" ? "Reader" : "You"}: ${turn.content}`;
+    }
+  }
+
+  return `${prompt}\n\n**Question:**\n${question}`;
+}
+
+/**
+ * Offline answer for the fake provider: the opening of the passage
+ * sharing the most words with the question, cited
+ */
+export function buildFakeChatAnswer({
+  context,
+  question,
+}: ChatPromptInput): string {
+  const words = new Set(question.toLowerCase().match(/\w{4,}/g) ?? []);
+  const overlap = (text: string) =>
+    (text.toLowerCase().match(/\w{4,}/g) ?? []).filter((word) =>
+      words.has(word)
+    ).length;
+
+  let best = context.passages[0];
+  for (const passage of context.passages) {
+    const text = `${passage.heading} ${passage.content}`;
+    if (overlap(text) > overlap(`${best.heading} ${best.content}`)) {
+      best = passage;
+    }
+  }
+  if (!best) {
+    return "The summaries of this book don't cover that yet.";
+  }
+
+  const opening = best.content.match(/^[^.!?\n]+[.!?]?/)?.[0] ?? "";
+  return `From "${best.heading}" in the ${best.summaryTypeLabel}: ${opening.trim()} [${best.ref}]`;
+}
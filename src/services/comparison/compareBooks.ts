@@ -0,0 +1,109 @@
+import { Book } from "@/types/book";
+import {
+  MAX_COMPARISON_BOOKS,
+  MIN_COMPARISON_BOOKS,
+  type BookComparisonStreamEvent,
+} from "@/types/comparison";
+import {
+  resolveSummaryLanguage,
+  SummaryGenerationOptions,
+} from "@/types/summary";
+import { getSummaryProvider } from "../summary/providers";
+import { tryStructureSummary } from "../summary/structureSummary";
+import {
+  buildComparisonSystemPrompt,
+  buildComparisonUserPrompt,
+  buildFakeComparison,
+} from "./comparisonPrompts";
+
+/**
+ * Comparisons cover several books in one piece, so they get more room
+ * than a single analysis summary
+ */
+export const COMPARISON_MAX_TOKENS = 2000;
+
+/**
+ * Stream a side-by-side comparison of several books, emitting content
+ * deltas followed by the finished comparison.
+ *
+ * Each book is described by its catalogue metadata and description. A
+ * "same as book" language follows the first book. The result is
+ * structured under COMPARISON_HEADINGS.
+ *
+ * Errors:
+ *  - Fewer than MIN_COMPARISON_BOOKS or more than MAX_COMPARISON_BOOKS
+ *    distinct books is reported without calling the provider
+ *  - Provider failures are reported as a single `error` event. No
+ *    fallback is attempted, since mock content compares nothing
+ */
+export async function* streamBookComparison(
+  books: Book[],
+  options: SummaryGenerationOptions = {}
+): AsyncGenerator<BookComparisonStreamEvent> {
+  const startTime = performance.now();
+  const distinct = new Set(books.map((book) => book.id)).size;
+
+  if (
+    distinct !== books.length ||
+    books.length < MIN_COMPARISON_BOOKS ||
+    books.length > MAX_COMPARISON_BOOKS
+  ) {
+    yield {
+      type: "error",
+      message: `Pick ${MIN_COMPARISON_BOOKS} to ${MAX_COMPARISON_BOOKS} different books to compare`,
+    };
+    return;
+  }
+
+  try {
+    const provider = getSummaryProvider(options.provider);
+    const model = provider.resolveModel(options.model);
+    const stream = provider.stream(
+      {
+        system: buildComparisonSystemPrompt(
+          books.length,
+          resolveSummaryLanguage(options.language, books[0])
+        ),
+        user: buildComparisonUserPrompt(books),
+        model,
+        maxTokens: options.maxTokens ?? COMPARISON_MAX_TOKENS,
+        fakeContent: () => buildFakeComparison(books),
+      },
+      options
+    );
+    let content = "";
+
+    let next = await stream.next();
+    while (!next.done) {
+      content += next.value;
+      yield { type: "delta", content: next.value };
+      next = await stream.next();
+    }
+
+    if (!content.trim()) {
+      throw new Error(`No comparison generated by ${provider.id}`);
+    }
+
+    yield {
+      type: "done",
+      result: {
+        content: content.trim(),
+        structured: tryStructureSummary(content.trim()),
+        generationTime: Math.round(performance.now() - startTime),
+        aiModel: model,
+        provider: provider.id,
+        usage: next.value.usage,
+      },
+    };
+  } catch (error) {
+    console.error("Book comparison error:", {
+      error,
+      books: books.map((book) => book.id),
+    });
+
+    yield {
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import type { ComparisonBook } from "@/types/comparison";
+import { DEFAULT_SUMMARY_LANGUAGE, getLanguageName } from "@/types/summary";
+
+/**
+ * Comparison prompts
+ *
+ * Every comparison is written under the same headings, so comparisons
+ * structure like summaries and read the same way side by side.
+ */
+
+/** Sections every comparison is written in, in order */
+export const COMPARISON_HEADINGS = [
+  "At a Glance",
+  "Core Themes",
+  "Approach and Style",
+  "Key Takeaways",
+  "Which Book When",
+];
+
+/**
+ * Build the system prompt for comparing several books
+ */
+export function buildComparisonSystemPrompt(
+  bookCount: number,
+  language: string = DEFAULT_SUMMARY_LANGUAGE
+): string {
+  const languagePrompt =
+    language === DEFAULT_SUMMARY_LANGUAGE
+      ? ""
+      : `\n- Write the entire comparison, including headings, in ${getLanguageName(language)}`;
+
+  return `You are an expert book reviewer and literary analyst. Your task is to write a side-by-side comparison of ${bookCount} books for a reader deciding between them or wanting to see how they relate.
+
+Key Guidelines:
+- Compare the books directly; don't summarize each one in isolation
+- Open "At a Glance" with a markdown table: one row per book, with columns for core idea, approach and best suited for
+- Under "Core Themes", cover where the books agree, where they disagree and what only one of them covers
+- Under "Approach and Style", contrast how each book argues or tells its story (evidence, tone, structure)
+- Under "Key Takeaways", give the most useful ideas from each book as bullet points, naming the book
+- Under "Which Book When", say which book to read for which goal
+- Be fair to every book and avoid spoilers for plot-driven books
+- Structure: ${COMPARISON_HEADINGS.join(", ")}
+- Target length: 600-900 words${languagePrompt}
+
+Format your response using markdown, with each section as a ## heading.`;
+}
+
+/**
+ * Build the user prompt listing the books to compare
+ */
+export function buildComparisonUserPrompt(books: ComparisonBook[]): string {
+  const entries = books.map((book, index) => {
+    let entry = `### Book ${index + 1}
+**Title:** ${book.title}
+**Authors:** ${book.authors.join(", ")}`;
+
+    if (book.publishedDate) {
+      entry += `\n**Published:** ${book.publishedDate}`;
+    }
+    if (book.categories && book.categories.length > 0) {
+      entry += `\n**Categories:** ${book.categories.join(", ")}`;
+    }
+    entry += book.description
+      ? `\n**Description:**\n${book.description}`
+      : `\n*No description available; rely on general knowledge of this work.*`;
+
+    return entry;
+  });
+
+  return `Please compare the following books:
+
+${entries.join("\n\n")}`;
+}
+
+/**
+ * Offline comparison for the fake provider: every book under each
+ * comparison heading
+ */
+export function buildFakeComparison(books: ComparisonBook[]): string {
+  const rows = books.map(
+    (book) =>
+      `| ${book.title} | ${book.categories?.[0] ?? "General"} | ${book.authors.join(", ")} |`
+  );
+  const sections = COMPARISON_HEADINGS.slice(1).map((heading) => {
+    const items = books.map(
+      (book) =>
+        `- **${book.title}:** ${book.description?.split(/(?<=[.!?])\s/)[0] ?? `${heading} as ${book.authors.join(", ")} see it.`}`
+    );
+    return `## ${heading}\n\n${items.join("\n")}`;
+  });
+
+  return [
+    `# ${books.map((book) => book.title).join(" vs ")}`,
+    `## ${COMPARISON_HEADINGS[0]}`,
+    `| Book | Focus | Authors |\n| --- | --- | --- |\n${rows.join("\n")}`,
+    ...sections,
+  ].join("\n\n");
+}
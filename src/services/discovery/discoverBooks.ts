@@ -0,0 +1,246 @@
+import type { Book, SearchParams } from "@/types/book";
+import {
+  DISCOVERY_CANDIDATE_COUNT,
+  DiscoveryCandidateResponseSchema,
+  DiscoveryFacetsResponseSchema,
+  DiscoveryResponseSchema,
+  MAX_DISCOVERY_PROMPT_LENGTH,
+  type DiscoveryFacets,
+  type DiscoveryPlan,
+  type DiscoveryResults,
+} from "@/types/discovery";
+import { SummaryGenerationOptions } from "@/types/summary";
+import type { UnifiedSearchService } from "../search/searchService";
+import { getSummaryProvider } from "../summary/providers";
+import {
+  buildDiscoveryUserPrompt,
+  buildDiscoverySystemPrompt,
+  buildFakeDiscovery,
+} from "./discoveryPrompts";
+
+/**
+ * Prompt mode book discovery
+ *
+ * A model turns the reader's description into candidate titles and search
+ * facets; each candidate is then looked up in the book search, so only
+ * books that exist in Google Books or Open Library are returned.
+ *
+ * Why candidates rather than a rewritten keyword query:
+ * - "A short book on stoicism for a busy engineer" names no keywords a
+ *   catalogue search would rank well
+ * - The model can explain each pick, which a keyword search can't
+ */
+
+/** Room for DISCOVERY_CANDIDATE_COUNT candidates with rationales */
+export const DISCOVERY_MAX_TOKENS = 1000;
+
+/** Search results considered per candidate title */
+const RESULTS_PER_CANDIDATE = 3;
+
+/** Fewer books than this from the candidates also searches the subjects */
+const MIN_DISCOVERY_RESULTS = 4;
+
+/**
+ * The part of the book search discovery resolves candidates with
+ */
+export type DiscoverySearch = Pick<UnifiedSearchService, "searchBooks">;
+
+/**
+ * Parse a model's discovery JSON into candidates and facets
+ *
+ * Tolerates markdown code fences and prose around the JSON object.
+ * Malformed candidates and facets are dropped rather than failing the
+ * search, and the candidate count is capped.
+ *
+ * @throws Error when the response holds no JSON object of the right shape
+ */
+export function parseDiscoveryResponse(content: string): DiscoveryPlan {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("Discovery response is not JSON");
+  }
+
+  const parsed = DiscoveryResponseSchema.safeParse(
+    JSON.parse(content.slice(start, end + 1))
+  );
+  if (!parsed.success) {
+    throw new Error("Discovery response is missing candidates");
+  }
+
+  const candidates = parsed.data.candidates
+    .map((item) => DiscoveryCandidateResponseSchema.safeParse(item))
+    .filter((result) => result.success)
+    .slice(0, DISCOVERY_CANDIDATE_COUNT)
+    .map(({ data }) => ({
+      title: data.title,
+      author: data.author || undefined,
+      rationale: data.rationale,
+    }));
+
+  const facets = DiscoveryFacetsResponseSchema.safeParse(
+    parsed.data.facets ?? {}
+  );
+
+  return { candidates, facets: facets.success ? facets.data : {} };
+}
+
+/**
+ * Whether a book fits the facets; unknown page counts and dates pass
+ */
+export function matchesDiscoveryFacets(
+  book: Book,
+  facets: DiscoveryFacets
+): boolean {
+  if (facets.maxPageCount && (book.pageCount ?? 0) > facets.maxPageCount) {
+    return false;
+  }
+
+  const year = parseInt(book.publishedDate ?? "", 10);
+  if (facets.publishedAfter && year < facets.publishedAfter) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Look a plan's candidates up in the book search, best fit first
+ *
+ * Each candidate resolves to its first search result that fits the
+ * facets; candidates the search can't find are dropped. When too few
+ * resolve, books on the plan's subjects fill the list.
+ *
+ * @returns Ranked books and a rationale per book ID
+ */
+export async function resolveDiscoveryPlan(
+  plan: DiscoveryPlan,
+  search: DiscoverySearch
+): Promise<{ books: Book[]; rationales: Record<string, string> }> {
+  const { facets } = plan;
+  const filters: Partial<SearchParams> = {
+    ...(facets.language && { language: facets.language }),
+    ...(facets.publishedAfter && { publishedAfter: facets.publishedAfter }),
+  };
+
+  const books: Book[] = [];
+  const rationales: Record<string, string> = {};
+  const seenTitles = new Set<string>();
+
+  const add = (book: Book | undefined, rationale: string) => {
+    const title = book?.title.trim().toLowerCase();
+    if (!book || !title || seenTitles.has(title)) return;
+
+    seenTitles.add(title);
+    books.push(book);
+    rationales[book.id] = rationale;
+  };
+
+  const lookups = await Promise.allSettled(
+    plan.candidates.map((candidate) =>
+      search.searchBooks({
+        query: candidate.title,
+        authorQuery: candidate.author,
+        maxResults: RESULTS_PER_CANDIDATE,
+        ...filters,
+      })
+    )
+  );
+
+  lookups.forEach((lookup, index) => {
+    const candidate = plan.candidates[index];
+    if (lookup.status === "rejected") {
+      console.warn(`Failed to look up "${candidate.title}":`, lookup.reason);
+      return;
+    }
+
+    add(
+      lookup.value.books.find((book) => matchesDiscoveryFacets(book, facets)),
+      candidate.rationale
+    );
+  });
+
+  if (books.length < MIN_DISCOVERY_RESULTS && facets.subjects?.length) {
+    try {
+      const subjects = facets.subjects.join(", ");
+      const results = await search.searchBooks({
+        query: facets.subjects.join(" "),
+        maxResults: DISCOVERY_CANDIDATE_COUNT,
+        ...filters,
+      });
+
+      for (const book of results.books) {
+        if (books.length >= DISCOVERY_CANDIDATE_COUNT) break;
+        if (matchesDiscoveryFacets(book, facets)) {
+          add(book, `A popular book on ${subjects}.`);
+        }
+      }
+    } catch (error) {
+      console.warn("Failed to search discovery subjects:", error);
+    }
+  }
+
+  return { books, rationales };
+}
+
+/**
+ * Find books for a reader's description of what they want to read
+ *
+ * The model suggests DISCOVERY_CANDIDATE_COUNT titles; only those found in
+ * the book search are returned, best fit first.
+ *
+ * Errors:
+ *  - An empty or overly long prompt is thrown without calling the provider
+ *  - A response that isn't a list of candidates is thrown
+ *  - Provider failures are thrown as-is. No fallback is attempted, since
+ *    mock content would suggest nothing; failed lookups only drop their
+ *    candidate
+ */
+export async function discoverBooks(
+  prompt: string,
+  search: DiscoverySearch,
+  options: SummaryGenerationOptions = {}
+): Promise<DiscoveryResults> {
+  const request = prompt.trim();
+  if (!request) {
+    throw new Error("Describe the book you're looking for");
+  }
+  if (request.length > MAX_DISCOVERY_PROMPT_LENGTH) {
+    throw new Error(
+      `Keep the description under ${MAX_DISCOVERY_PROMPT_LENGTH} characters`
+    );
+  }
+
+  const provider = getSummaryProvider(options.provider);
+  const model = provider.resolveModel(options.model);
+  const { content, usage } = await provider.complete(
+    {
+      system: buildDiscoverySystemPrompt(DISCOVERY_CANDIDATE_COUNT),
+      user: buildDiscoveryUserPrompt(request),
+      model,
+      maxTokens: options.maxTokens ?? DISCOVERY_MAX_TOKENS,
+      fakeContent: () => buildFakeDiscovery(request, DISCOVERY_CANDIDATE_COUNT),
+    },
+    options
+  );
+  const plan = parseDiscoveryResponse(content);
+  if (plan.candidates.length === 0) {
+    throw new Error(`No books suggested by ${provider.id}`);
+  }
+
+  const { books, rationales } = await resolveDiscoveryPlan(plan, search);
+
+  return {
+    books,
+    rationales,
+    totalItems: books.length,
+    startIndex: 0,
+    itemsPerPage: books.length,
+    hasMore: false,
+    query: request,
+    source: "combined",
+    aiModel: model,
+    provider: provider.id,
+    usage,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Book discovery prompts
+ *
+ * The answer is JSON so the candidates can be looked up in the book
+ * search; the facets narrow that search to what the reader asked for.
+ */
+
+/**
+ * Build the system prompt for suggesting books from a reader's request
+ */
+export function buildDiscoverySystemPrompt(candidateCount: number): string {
+  return `You are a well-read librarian helping a reader find their next book. Your task is to suggest ${candidateCount} real, published books that fit the reader's request, best fit first.
+
+Key Guidelines:
+- Only suggest books you are confident exist, with their exact title and main author
+- Favour well-regarded books that are easy to find
+- Give each book a one-line rationale, under 25 words, saying why it fits this reader
+- Write rationales in the language of the request
+- Read search facets from the request, and leave out any it doesn't imply:
+  - "subjects": a few broad subjects the books should cover
+  - "language": ISO 639-1 code, only if the reader asks for a language
+  - "maxPageCount": only if the reader wants something short
+  - "publishedAfter": a year, only if the reader wants something recent
+
+Respond with JSON only, no markdown fences, in this shape:
+{"candidates": [{"title": "...", "author": "...", "rationale": "..."}], "facets": {"subjects": ["..."], "language": "en", "maxPageCount": 250, "publishedAfter": 2015}}`;
+}
+
+/**
+ * Build the user prompt carrying the reader's request
+ */
+export function buildDiscoveryUserPrompt(request: string): string {
+  return `Please suggest books for this request:
+
+${request}`;
+}
+
+/**
+ * Offline suggestions for the fake provider, as JSON: the request's
+ * longest words as titles, the longest as the subject
+ */
+export function buildFakeDiscovery(
+  request: string,
+  candidateCount: number
+): string {
+  const words = [...new Set(request.match(/\p{L}{4,}/gu) ?? [])]
+    .sort((a, b) => b.length - a.length)
+    .slice(0, candidateCount);
+
+  const candidates = words.map((word) => ({
+    title: word,
+    rationale: `Mentions "${word}", as the request does.`,
+  }));
+
+  return JSON.stringify({
+    candidates,
+    facets: { subjects: words.slice(0, 1) },
+  });
+}
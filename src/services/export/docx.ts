@@ -0,0 +1,357 @@
+import type { ExportCover, SummaryExportDocument } from "@/types/export";
+import {
+  parseMarkdownBlocks,
+  type MarkdownBlock,
+  type TextRun,
+} from "./markdownBlocks";
+import {
+  EXPORT_PUBLISHER,
+  escapeXml,
+  getAttribution,
+  getBookDetails,
+  getExportMarkdown,
+  getExportTitle,
+} from "./metadata";
+import { createZip } from "./zip";
+
+/**
+ * DOCX export: a title page with the cover and book details, then the
+ * summary with Word's built-in heading, quote and list styles, so it
+ * stays editable and gets a navigation pane outline for free
+ */
+
+const W_NS =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const DRAWING_NS =
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"';
+
+/** English Metric Units per pixel at 96 DPI */
+const EMU_PER_PIXEL = 9525;
+const MAX_COVER_PIXELS = { width: 240, height: 360 };
+
+const BULLET_NUM_ID = 1;
+const ORDERED_ABSTRACT_ID = 1;
+
+/**
+ * Pixel size of a JPEG or PNG image
+ */
+export function getImageSize(
+  cover: ExportCover
+): { width: number; height: number } | undefined {
+  const { data } = cover;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (cover.contentType === "image/png") {
+    if (data.byteLength < 24) return undefined;
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // JPEG: walk the segments to the first start-of-frame marker
+  let offset = 2;
+  while (offset + 9 < data.byteLength) {
+    if (data[offset] !== 0xff) return undefined;
+    const marker = data[offset + 1];
+    const length = view.getUint16(offset + 2);
+    const isStartOfFrame =
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc;
+    if (isStartOfFrame) {
+      return {
+        height: view.getUint16(offset + 5),
+        width: view.getUint16(offset + 7),
+      };
+    }
+    offset += 2 + length;
+  }
+  return undefined;
+}
+
+function run(text: string, style: Omit<TextRun, "text"> = {}): string {
+  const props = [
+    style.bold ? "<w:b/>" : "",
+    style.italic ? "<w:i/>" : "",
+    style.code
+      ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>'
+      : "",
+  ].join("");
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(
+  content: string,
+  props: {
+    style?: string;
+    numId?: number;
+    level?: number;
+    center?: boolean;
+  } = {}
+): string {
+  const pPr = [
+    props.style ? `<w:pStyle w:val="${props.style}"/>` : "",
+    props.numId !== undefined
+      ? `<w:numPr><w:ilvl w:val="${props.level ?? 0}"/><w:numId w:val="${props.numId}"/></w:numPr>`
+      : "",
+    props.center ? '<w:jc w:val="center"/>' : "",
+  ].join("");
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ""}${content}</w:p>`;
+}
+
+function coverDrawing(cover: ExportCover): string | undefined {
+  const size = getImageSize(cover);
+  if (!size || !size.width || !size.height) return undefined;
+
+  const scale = Math.min(
+    MAX_COVER_PIXELS.width / size.width,
+    MAX_COVER_PIXELS.height / size.height,
+    1
+  );
+  const cx = Math.round(size.width * scale * EMU_PER_PIXEL);
+  const cy = Math.round(size.height * scale * EMU_PER_PIXEL);
+
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="1" name="Cover"/><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic><pic:nvPicPr><pic:cNvPr id="1" name="Cover"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="rIdCover"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+}
+
+/**
+ * Summary blocks as WordprocessingML paragraphs
+ *
+ * Every ordered list gets its own numbering instance so it restarts at
+ * its first item's number; `orderedLists` collects their start numbers.
+ */
+function renderBlocks(
+  blocks: MarkdownBlock[],
+  orderedLists: number[]
+): string[] {
+  const body: string[] = [];
+  let orderedNumId: number | undefined;
+
+  for (const block of blocks) {
+    // Any other block, or a top-level bullet, ends the numbered list
+    if (
+      block.type !== "listItem" ||
+      (block.number === undefined && block.depth === 0)
+    ) {
+      orderedNumId = undefined;
+    }
+
+    const runs = (runs: TextRun[]) =>
+      runs.map(({ text, ...style }) => run(text, style)).join("");
+
+    switch (block.type) {
+      case "heading":
+        body.push(
+          paragraph(runs(block.runs), {
+            style: `Heading${Math.min(block.level, 3)}`,
+          })
+        );
+        break;
+      case "paragraph":
+        body.push(paragraph(runs(block.runs)));
+        break;
+      case "listItem": {
+        let numId = BULLET_NUM_ID;
+        if (block.number !== undefined) {
+          if (orderedNumId === undefined) {
+            orderedLists.push(block.number);
+            // Bullets take numId 1; ordered lists follow from 2
+            orderedNumId = orderedLists.length + 1;
+          }
+          numId = orderedNumId;
+        }
+        body.push(
+          paragraph(runs(block.runs), {
+            style: "ListParagraph",
+            numId,
+            level: Math.min(block.depth, 2),
+          })
+        );
+        break;
+      }
+      case "quote":
+        body.push(paragraph(runs(block.runs), { style: "Quote" }));
+        break;
+      case "code":
+        for (const line of block.text.split("\n")) {
+          body.push(paragraph(run(line, { code: true }), { style: "Code" }));
+        }
+        break;
+      case "rule":
+        body.push(
+          '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="BFBFBF"/></w:pBdr></w:pPr></w:p>'
+        );
+        break;
+    }
+  }
+
+  return body;
+}
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${W_NS}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:b/><w:sz w:val="52"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:i/><w:color w:val="595959"/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="280" w:after="100"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="30"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading3"><w:name w:val="heading 3"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="2"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="720" w:right="720"/></w:pPr><w:rPr><w:i/><w:color w:val="595959"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/><w:ind w:left="360"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="18"/></w:rPr></w:style>
+</w:styles>
+`;
+
+function numberingLevels(ordered: boolean): string {
+  return [0, 1, 2]
+    .map((level) => {
+      const indent = 720 * (level + 1);
+      const format = ordered
+        ? `<w:numFmt w:val="decimal"/><w:lvlText w:val="%${level + 1}."/>`
+        : `<w:numFmt w:val="bullet"/><w:lvlText w:val="${["•", "◦", "▪"][level]}"/>`;
+      return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/>${format}<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${indent}" w:hanging="360"/></w:pPr></w:lvl>`;
+    })
+    .join("");
+}
+
+function renderNumbering(orderedLists: number[]): string {
+  const orderedNums = orderedLists
+    .map(
+      (start, i) =>
+        `<w:num w:numId="${i + 2}"><w:abstractNumId w:val="${ORDERED_ABSTRACT_ID}"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering ${W_NS}>
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${numberingLevels(false)}</w:abstractNum>
+<w:abstractNum w:abstractNumId="${ORDERED_ABSTRACT_ID}"><w:multiLevelType w:val="hybridMultilevel"/>${numberingLevels(true)}</w:abstractNum>
+<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>
+${orderedNums}
+</w:numbering>
+`;
+}
+
+/**
+ * Render a summary export as a Word document
+ */
+export function renderDocxExport(
+  doc: SummaryExportDocument
+): Uint8Array<ArrayBuffer> {
+  const title = getExportTitle(doc);
+  const created = doc.generatedAt.toISOString().replace(/\.\d{3}Z$/, "Z");
+  const cover = doc.cover && coverDrawing(doc.cover);
+  const coverExtension = doc.cover?.contentType === "image/png" ? "png" : "jpg";
+
+  // Title page
+  const body: string[] = [];
+  if (cover) {
+    body.push(paragraph(cover, { center: true }));
+  }
+  body.push(paragraph(run(doc.book.title), { style: "Title" }));
+  if (doc.book.authors.length > 0) {
+    body.push(
+      paragraph(run(doc.book.authors.join(", ")), { style: "Subtitle" })
+    );
+  }
+  body.push(paragraph(run(doc.summaryTypeLabel), { style: "Subtitle" }));
+  for (const [label, value] of getBookDetails(doc)) {
+    body.push(
+      paragraph(run(`${label}: `, { bold: true }) + run(value), {
+        center: true,
+      })
+    );
+  }
+  body.push(
+    paragraph(run(getAttribution(doc), { italic: true }), { center: true })
+  );
+  body.push('<w:p><w:r><w:br w:type="page"/></w:r></w:p>');
+
+  // Summary content
+  const orderedLists: number[] = [];
+  body.push(
+    ...renderBlocks(parseMarkdownBlocks(getExportMarkdown(doc)), orderedLists)
+  );
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${W_NS} ${DRAWING_NS}>
+<w:body>
+${body.join("\n")}
+<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>
+`;
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Default Extension="jpg" ContentType="image/jpeg"/>
+<Default Extension="png" ContentType="image/png"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>
+</Types>
+`;
+
+  const packageRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties" Target="docProps/app.xml"/>
+</Relationships>
+`;
+
+  const documentRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+${cover ? `<Relationship Id="rIdCover" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/cover.${coverExtension}"/>` : ""}
+</Relationships>
+`;
+
+  const coreProperties = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:subject>${escapeXml(doc.book.title)}</dc:subject>
+<dc:creator>${escapeXml(doc.book.authors.join(", "))}</dc:creator>
+<dc:description>${escapeXml(getAttribution(doc))}</dc:description>
+<dc:language>${escapeXml(doc.language)}</dc:language>
+<cp:keywords>${escapeXml((doc.book.categories ?? []).join(", "))}</cp:keywords>
+<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>
+</cp:coreProperties>
+`;
+
+  const appProperties = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">
+<Application>${escapeXml(EXPORT_PUBLISHER)}</Application>
+</Properties>
+`;
+
+  return createZip(
+    [
+      { path: "[Content_Types].xml", data: contentTypes },
+      { path: "_rels/.rels", data: packageRels },
+      { path: "word/document.xml", data: document },
+      { path: "word/_rels/document.xml.rels", data: documentRels },
+      { path: "word/styles.xml", data: STYLES },
+      { path: "word/numbering.xml", data: renderNumbering(orderedLists) },
+      { path: "docProps/core.xml", data: coreProperties },
+      { path: "docProps/app.xml", data: appProperties },
+      ...(cover && doc.cover
+        ? [
+            {
+              path: `word/media/cover.${coverExtension}`,
+              data: doc.cover.data,
+              store: true,
+            },
+          ]
+        : []),
+    ],
+    doc.generatedAt
+  );
+}
@@ -0,0 +1,258 @@
+import GithubSlugger from "github-slugger";
+import type { SummaryExportDocument } from "@/types/export";
+import { structureSummary, toPlainText } from "../summary/structureSummary";
+import {
+  parseMarkdownBlocks,
+  runsToText,
+  type MarkdownBlock,
+  type TextRun,
+} from "./markdownBlocks";
+import {
+  EXPORT_PUBLISHER,
+  escapeXml,
+  getAttribution,
+  getBookDetails,
+  getExportMarkdown,
+  getExportTitle,
+} from "./metadata";
+import { createZip } from "./zip";
+
+/**
+ * EPUB 3 export: a title page with the cover and book details, the
+ * summary as one XHTML document, and a table of contents linking its
+ * sections
+ *
+ * Heading ids are slugged like rehype-slug and structureSummary, so the
+ * structured section ids double as the table of contents anchors.
+ */
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.6; margin: 0 5%; }
+h1, h2, h3, h4 { font-family: sans-serif; line-height: 1.25; }
+.title-page { text-align: center; margin-top: 2em; }
+.title-page img { max-width: 60%; max-height: 50vh; }
+.subtitle { font-style: italic; color: #555; }
+.details { list-style: none; padding: 0; color: #555; }
+.attribution { font-size: 0.85em; color: #777; margin-top: 3em; }
+blockquote { font-style: italic; border-left: 3px solid #ccc; margin-left: 0; padding-left: 1em; }
+pre { white-space: pre-wrap; font-size: 0.85em; }
+`;
+
+function xhtmlDocument(title: string, language: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function renderRuns(runs: TextRun[]): string {
+  return runs
+    .map((run) => {
+      const text = escapeXml(run.text);
+      if (run.code) return `<code>${text}</code>`;
+      if (run.bold && run.italic) return `<strong><em>${text}</em></strong>`;
+      if (run.bold) return `<strong>${text}</strong>`;
+      if (run.italic) return `<em>${text}</em>`;
+      return text;
+    })
+    .join("");
+}
+
+/**
+ * Summary blocks as XHTML, with slugged heading ids
+ */
+export function renderBlocksToXhtml(blocks: MarkdownBlock[]): string {
+  const slugger = new GithubSlugger();
+  const html: string[] = [];
+  // Open lists, innermost last
+  const lists: Array<"ul" | "ol"> = [];
+
+  const closeLists = (depth: number) => {
+    while (lists.length > depth) {
+      html.push(`</li></${lists.pop()}>`);
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.type !== "listItem") {
+      closeLists(0);
+    }
+
+    switch (block.type) {
+      case "heading": {
+        const level = Math.min(block.level, 6);
+        const id = slugger.slug(toPlainText(runsToText(block.runs)));
+        html.push(
+          `<h${level} id="${escapeXml(id)}">${renderRuns(block.runs)}</h${level}>`
+        );
+        break;
+      }
+      case "paragraph":
+        html.push(`<p>${renderRuns(block.runs)}</p>`);
+        break;
+      case "listItem": {
+        const tag = block.number !== undefined ? "ol" : "ul";
+        const depth = Math.min(block.depth + 1, lists.length + 1);
+        closeLists(depth);
+        // A bullet list right after a numbered one (or vice versa) is new
+        if (lists.length === depth && lists[depth - 1] !== tag) {
+          closeLists(depth - 1);
+        }
+        if (lists.length < depth) {
+          lists.push(tag);
+          html.push(`<${tag}><li>${renderRuns(block.runs)}`);
+        } else {
+          html.push(`</li><li>${renderRuns(block.runs)}`);
+        }
+        break;
+      }
+      case "quote":
+        html.push(`<blockquote><p>${renderRuns(block.runs)}</p></blockquote>`);
+        break;
+      case "code":
+        html.push(`<pre><code>${escapeXml(block.text)}</code></pre>`);
+        break;
+      case "rule":
+        html.push("<hr/>");
+        break;
+    }
+  }
+  closeLists(0);
+
+  return html.join("\n");
+}
+
+/**
+ * Render a summary export as an EPUB
+ */
+export function renderEpubExport(
+  doc: SummaryExportDocument
+): Uint8Array<ArrayBuffer> {
+  const title = getExportTitle(doc);
+  const language = doc.language;
+  const structured = doc.structured ?? structureSummary(doc.content);
+  const identifier = `urn:outclever:summary:${doc.summaryId}:${doc.revision ?? 0}`;
+  const modified = doc.generatedAt.toISOString().replace(/\.\d{3}Z$/, "Z");
+  const coverFile = doc.cover
+    ? `cover.${doc.cover.contentType === "image/png" ? "png" : "jpg"}`
+    : undefined;
+
+  const titlePage = xhtmlDocument(
+    title,
+    language,
+    `<section class="title-page" epub:type="titlepage">
+${coverFile ? `<img src="${coverFile}" alt="${escapeXml(`Cover of ${doc.book.title}`)}"/>` : ""}
+<h1>${escapeXml(doc.book.title)}</h1>
+<p class="subtitle">${escapeXml(doc.summaryTypeLabel)}</p>
+<ul class="details">
+${getBookDetails(doc)
+  .map(
+    ([label, value]) =>
+      `<li><strong>${escapeXml(label)}:</strong> ${escapeXml(value)}</li>`
+  )
+  .join("\n")}
+</ul>
+<p class="attribution">${escapeXml(getAttribution(doc))}</p>
+</section>`
+  );
+
+  const summaryPage = xhtmlDocument(
+    title,
+    language,
+    `<section epub:type="bodymatter">
+${renderBlocksToXhtml(parseMarkdownBlocks(getExportMarkdown(doc)))}
+</section>`
+  );
+
+  const tocEntries = structured.sections
+    .filter((section) => section.level <= 3)
+    .map(
+      (section) =>
+        `<li><a href="summary.xhtml#${escapeXml(section.id)}">${escapeXml(section.heading)}</a></li>`
+    );
+  const navPage = xhtmlDocument(
+    title,
+    language,
+    `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+<li><a href="title.xhtml">${escapeXml(doc.book.title)}</a></li>
+<li><a href="summary.xhtml">${escapeXml(doc.summaryTypeLabel)}</a>${
+      tocEntries.length > 0 ? `\n<ol>\n${tocEntries.join("\n")}\n</ol>\n` : ""
+    }</li>
+</ol>
+</nav>`
+  );
+
+  const metadata = [
+    `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(title)}</dc:title>`,
+    ...doc.book.authors.map(
+      (author) => `<dc:creator>${escapeXml(author)}</dc:creator>`
+    ),
+    `<dc:language>${escapeXml(language)}</dc:language>`,
+    `<dc:publisher>${escapeXml(EXPORT_PUBLISHER)}</dc:publisher>`,
+    `<dc:date>${modified}</dc:date>`,
+    `<dc:description>${escapeXml(getAttribution(doc))}</dc:description>`,
+    ...(doc.book.categories ?? []).map(
+      (category) => `<dc:subject>${escapeXml(category)}</dc:subject>`
+    ),
+    ...(doc.book.isbn
+      ? [`<dc:source>urn:isbn:${escapeXml(doc.book.isbn)}</dc:source>`]
+      : []),
+    `<meta property="dcterms:modified">${modified}</meta>`,
+    ...(coverFile ? [`<meta name="cover" content="cover-image"/>`] : []),
+  ];
+
+  const packageDocument = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(language)}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join("\n")}
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>
+<item id="summary" href="summary.xhtml" media-type="application/xhtml+xml"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${coverFile ? `<item id="cover-image" href="${coverFile}" media-type="${doc.cover!.contentType}" properties="cover-image"/>` : ""}
+</manifest>
+<spine>
+<itemref idref="title"/>
+<itemref idref="summary"/>
+</spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+  return createZip(
+    [
+      // Must come first, uncompressed, for readers to sniff the type
+      { path: "mimetype", data: "application/epub+zip", store: true },
+      { path: "META-INF/container.xml", data: container },
+      { path: "OEBPS/content.opf", data: packageDocument },
+      { path: "OEBPS/nav.xhtml", data: navPage },
+      { path: "OEBPS/title.xhtml", data: titlePage },
+      { path: "OEBPS/summary.xhtml", data: summaryPage },
+      { path: "OEBPS/style.css", data: STYLESHEET },
+      ...(doc.cover && coverFile
+        ? [{ path: `OEBPS/${coverFile}`, data: doc.cover.data, store: true }]
+        : []),
+    ],
+    doc.generatedAt
+  );
+}
@@ -0,0 +1,99 @@
+import type {
+  ExportedFile,
+  SummaryExportDocument,
+  SummaryExportFormat,
+} from "@/types/export";
+import { renderDocxExport } from "./docx";
+import { renderEpubExport } from "./epub";
+import { renderMarkdownExport } from "./markdown";
+import { EXPORT_CONTENT_TYPES, getExportFilename } from "./metadata";
+import { renderPdfExport } from "./pdf";
+import { createZip } from "./zip";
+
+/**
+ * Summary exports
+ *
+ * This module is responsible for:
+ * - Rendering a summary to each export format
+ * - Bundling several exports into one archive
+ * - Serving exports as downloads
+ *
+ * Loading the summary, book and cover is the caller's job
+ * (see lib/loadSummaryExport.ts), so renderers stay pure and testable.
+ */
+
+export { getExportFilename } from "./metadata";
+
+/**
+ * Render a summary in the given format
+ */
+export async function renderSummaryExport(
+  doc: SummaryExportDocument,
+  format: SummaryExportFormat
+): Promise<ExportedFile> {
+  let data: Uint8Array<ArrayBuffer>;
+  switch (format) {
+    case "markdown":
+      data = new TextEncoder().encode(renderMarkdownExport(doc));
+      break;
+    case "pdf":
+      data = await renderPdfExport(doc);
+      break;
+    case "epub":
+      data = renderEpubExport(doc);
+      break;
+    case "docx":
+      data = renderDocxExport(doc);
+      break;
+  }
+
+  return {
+    filename: getExportFilename(doc, format),
+    contentType: EXPORT_CONTENT_TYPES[format],
+    data,
+  };
+}
+
+/**
+ * Bundle exports into one zip archive
+ *
+ * Files with the same name (e.g. two editions of a book sharing a
+ * title) get a " (2)" suffix.
+ */
+export function createExportArchive(
+  files: ExportedFile[],
+  filename: string
+): ExportedFile {
+  const used = new Set<string>();
+  const entries = files.map((file) => {
+    let path = file.filename;
+    for (let n = 2; used.has(path.toLowerCase()); n++) {
+      path = file.filename.replace(/(\.[^.]+)?$/, ` (${n})$1`);
+    }
+    used.add(path.toLowerCase());
+    return { path, data: file.data };
+  });
+
+  return {
+    filename,
+    contentType: "application/zip",
+    data: createZip(entries),
+  };
+}
+
+/**
+ * Response that downloads an export
+ */
+export function toDownloadResponse(file: ExportedFile): Response {
+  // ASCII fallback for old clients, UTF-8 name (RFC 5987) for the rest
+  const asciiName = file.filename
+    .replace(/[^\x20-\x7e]/g, "_")
+    .replace(/"/g, "");
+  return new Response(file.data, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import type { SummaryExportDocument } from "@/types/export";
+import {
+  EXPORT_PUBLISHER,
+  getExportMarkdown,
+  getExportTitle,
+} from "./metadata";
+
+/**
+ * Markdown export: the summary as stored, with YAML front-matter and the
+ * reader's highlights
+ *
+ * Strings are written as JSON strings, which YAML reads as double-quoted
+ * scalars, so titles with colons or quotes need no special handling.
+ */
+export function renderMarkdownExport(doc: SummaryExportDocument): string {
+  const { book } = doc;
+  const fields: Array<[string, unknown]> = [
+    ["title", getExportTitle(doc)],
+    ["book", book.title],
+    ["authors", book.authors],
+    ["publisher", book.publisher],
+    ["published", book.publishedDate],
+    ["pages", book.pageCount],
+    ["isbn", book.isbn],
+    ["categories", book.categories],
+    ["cover", book.coverUrl],
+    ["source", book.infoLink],
+    ["summary_type", doc.summaryType],
+    ["language", doc.language],
+    ["revision", doc.revision],
+    ["model", doc.aiModel],
+    ["prompt_version", doc.promptVersion],
+    ["generated_at", doc.generatedAt.toISOString()],
+    ["exported_from", EXPORT_PUBLISHER],
+  ];
+
+  const frontMatter = fields
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join("\n");
+
+  return `---\n${frontMatter}\n---\n\n${getExportMarkdown(doc)}\n`;
+}
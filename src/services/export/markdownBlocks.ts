@@ -0,0 +1,188 @@
+/**
+ * Markdown to layout blocks
+ *
+ * PDF and DOCX are laid out block by block rather than from HTML, so the
+ * summary markdown is read into a flat list of blocks with styled text
+ * runs. Covers what summaries use: headings, paragraphs, lists, quotes,
+ * code blocks, rules and tables (as one line per row).
+ */
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export type MarkdownBlock =
+  | { type: "heading"; level: number; runs: TextRun[] }
+  | { type: "paragraph"; runs: TextRun[] }
+  | {
+      type: "listItem";
+      /** Number for ordered items, absent for bullets */
+      number?: number;
+      /** Nesting depth, from 0 */
+      depth: number;
+      runs: TextRun[];
+    }
+  | { type: "quote"; runs: TextRun[] }
+  | { type: "code"; text: string }
+  | { type: "rule" };
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)(?:([-*+])|(\d+)[.)])\s+(.+)$/;
+const RULE_PATTERN = /^(?:[-*_]\s*){3,}$/;
+const TABLE_SEPARATOR_PATTERN = /^\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?$/;
+const INLINE_PATTERN =
+  /(\*\*|__)(.+?)\1|(\*|_)(.+?)\3|`([^`]+)`|!?\[([^\]]*)\]\([^)]*\)/g;
+
+/**
+ * Split inline markdown into styled runs
+ *
+ * Links keep their text; markers nested inside bold or italic text are
+ * dropped rather than styled.
+ */
+export function parseInline(markdown: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const push = (run: TextRun) => {
+    if (run.text) runs.push(run);
+  };
+  let last = 0;
+
+  for (const match of markdown.matchAll(INLINE_PATTERN)) {
+    push({ text: markdown.slice(last, match.index) });
+    const [, , bold, , italic, code, link] = match;
+    if (bold !== undefined) {
+      push({ text: stripMarkers(bold), bold: true });
+    } else if (italic !== undefined) {
+      push({ text: stripMarkers(italic), italic: true });
+    } else if (code !== undefined) {
+      push({ text: code, code: true });
+    } else {
+      push({ text: stripMarkers(link ?? "") });
+    }
+    last = match.index + match[0].length;
+  }
+  push({ text: markdown.slice(last) });
+
+  return runs;
+}
+
+function stripMarkers(text: string): string {
+  return text.replace(/[*_`~]/g, "");
+}
+
+/**
+ * Plain text of a list of runs
+ */
+export function runsToText(runs: TextRun[]): string {
+  return runs.map((run) => run.text).join("");
+}
+
+/**
+ * Read summary markdown into layout blocks
+ */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  let code: string[] | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({
+        type: "paragraph",
+        runs: parseInline(paragraph.join(" ")),
+      });
+      paragraph = [];
+    }
+    if (quote.length > 0) {
+      blocks.push({ type: "quote", runs: parseInline(quote.join(" ")) });
+      quote = [];
+    }
+  };
+
+  for (const line of markdown.split("\n")) {
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith("```")) {
+      if (code) {
+        blocks.push({ type: "code", text: code.join("\n") });
+        code = null;
+      } else {
+        flush();
+        code = [];
+      }
+      continue;
+    }
+    if (code) {
+      code.push(line);
+      continue;
+    }
+
+    if (!trimmed) {
+      flush();
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(trimmed);
+    if (heading) {
+      flush();
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        runs: parseInline(heading[2]),
+      });
+      continue;
+    }
+
+    if (RULE_PATTERN.test(trimmed)) {
+      flush();
+      blocks.push({ type: "rule" });
+      continue;
+    }
+
+    if (trimmed.startsWith(">")) {
+      if (paragraph.length > 0) flush();
+      quote.push(trimmed.replace(/^>\s?/, ""));
+      continue;
+    }
+
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (item) {
+      flush();
+      blocks.push({
+        type: "listItem",
+        number: item[3] ? Number(item[3]) : undefined,
+        depth: Math.floor(item[1].replace(/\t/g, "  ").length / 2),
+        runs: parseInline(item[4]),
+      });
+      continue;
+    }
+
+    if (trimmed.startsWith("|")) {
+      flush();
+      if (!TABLE_SEPARATOR_PATTERN.test(trimmed)) {
+        const cells = trimmed
+          .replace(/^\||\|$/g, "")
+          .split("|")
+          .map((cell) => cell.trim());
+        blocks.push({
+          type: "paragraph",
+          runs: parseInline(cells.join(" · ")),
+        });
+      }
+      continue;
+    }
+
+    if (quote.length > 0) flush();
+    paragraph.push(trimmed);
+  }
+
+  if (code) {
+    blocks.push({ type: "code", text: code.join("\n") });
+  }
+  flush();
+
+  return blocks;
+}
@@ -0,0 +1,114 @@
+import type {
+  SummaryExportDocument,
+  SummaryExportFormat,
+} from "@/types/export";
+
+/**
+ * Export metadata shared by every format
+ */
+
+/** Application name credited in exports */
+export const EXPORT_PUBLISHER = "OutClever";
+
+const EXTENSIONS: Record<SummaryExportFormat, string> = {
+  markdown: "md",
+  pdf: "pdf",
+  epub: "epub",
+  docx: "docx",
+};
+
+export const EXPORT_CONTENT_TYPES: Record<SummaryExportFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  pdf: "application/pdf",
+  epub: "application/epub+zip",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+/**
+ * Document title, e.g. "Atomic Habits — Concise Summary"
+ */
+export function getExportTitle(doc: SummaryExportDocument): string {
+  return `${doc.book.title} — ${doc.summaryTypeLabel}`;
+}
+
+/**
+ * Generation date in words, e.g. "March 12, 2026"
+ */
+export function formatExportDate(date: Date): string {
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  }).format(date);
+}
+
+/**
+ * Model and prompt attribution line
+ */
+export function getAttribution(doc: SummaryExportDocument): string {
+  return `Generated by ${doc.aiModel} (prompt ${doc.promptVersion}) on ${formatExportDate(doc.generatedAt)}`;
+}
+
+/**
+ * Book metadata rows for title pages, skipping unknown fields
+ */
+export function getBookDetails(
+  doc: SummaryExportDocument
+): Array<[label: string, value: string]> {
+  const { book } = doc;
+  const rows: Array<[string, string | undefined]> = [
+    ["Author", book.authors.join(", ") || undefined],
+    ["Publisher", book.publisher],
+    ["Published", book.publishedDate],
+    ["Pages", book.pageCount ? String(book.pageCount) : undefined],
+    ["ISBN", book.isbn],
+    ["Categories", book.categories?.join(", ") || undefined],
+  ];
+  return rows.filter((row): row is [string, string] => Boolean(row[1]));
+}
+
+/**
+ * Summary markdown to render, followed by the reader's highlights and
+ * notes when there are any
+ */
+export function getExportMarkdown(doc: SummaryExportDocument): string {
+  const content = doc.content.trim();
+  if (!doc.highlights?.length) return content;
+
+  const highlights = doc.highlights.map((highlight) => {
+    const quote = highlight.text
+      .split("\n")
+      .map((line) => `> ${line}`)
+      .join("\n");
+    return highlight.note ? `${quote}\n\n${highlight.note}` : quote;
+  });
+  return `${content}\n\n## My Highlights\n\n${highlights.join("\n\n")}`;
+}
+
+/**
+ * File name for an export, safe on every OS
+ */
+export function getExportFilename(
+  doc: SummaryExportDocument,
+  format: SummaryExportFormat
+): string {
+  const base = `${doc.book.title} - ${doc.summaryTypeLabel}`
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 120);
+  return `${base || "Summary"}.${EXTENSIONS[format]}`;
+}
+
+/**
+ * Escape text for XML (EPUB and DOCX parts)
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
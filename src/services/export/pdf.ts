@@ -0,0 +1,427 @@
+import {
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  StandardFonts,
+  rgb,
+} from "pdf-lib";
+import type { SummaryExportDocument } from "@/types/export";
+import {
+  EXPORT_PUBLISHER,
+  getAttribution,
+  getBookDetails,
+  getExportMarkdown,
+  getExportTitle,
+} from "./metadata";
+import { parseMarkdownBlocks, type TextRun } from "./markdownBlocks";
+
+/**
+ * PDF export: a title page with the cover and book details, then the
+ * summary laid out on paginated US Letter pages with numbered footers
+ *
+ * Uses the PDF standard fonts, so nothing is embedded but the cover.
+ * Limitation: standard fonts only cover Latin (WinAnsi) text; other
+ * characters print as "?".
+ */
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = 40;
+
+const BODY_SIZE = 11;
+const LINE_HEIGHT = 1.45;
+const HEADING_SIZES: Record<number, number> = { 1: 18, 2: 15, 3: 13 };
+const LIST_INDENT = 16;
+const QUOTE_INDENT = 18;
+const CODE_SIZE = 9;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+  code: PDFFont;
+}
+
+interface Word {
+  text: string;
+  font: PDFFont;
+  /** Whether whitespace preceded the word in the source */
+  spaced: boolean;
+}
+
+/**
+ * Replace characters the standard fonts can't encode
+ */
+function createSanitizer(font: PDFFont) {
+  const supported = new Set(font.getCharacterSet());
+  return (text: string) =>
+    Array.from(
+      text
+        .replace(/\u00a0/g, " ")
+        .replace(/\u2212/g, "-")
+        .replace(/\t/g, "  "),
+      (char) =>
+        char === "\n" || supported.has(char.codePointAt(0) ?? 0) ? char : "?"
+    ).join("");
+}
+
+/**
+ * Shorten text to fit `maxWidth`, ending with an ellipsis if cut
+ */
+function truncateToWidth(
+  text: string,
+  font: PDFFont,
+  size: number,
+  maxWidth: number
+): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let end = text.length;
+  while (
+    end > 0 &&
+    font.widthOfTextAtSize(`${text.slice(0, end)}…`, size) > maxWidth
+  ) {
+    end--;
+  }
+  return `${text.slice(0, end).trimEnd()}…`;
+}
+
+function runFont(run: TextRun, fonts: Fonts, base: "regular" | "italic") {
+  if (run.code) return fonts.code;
+  const italic = run.italic || base === "italic";
+  if (run.bold) return italic ? fonts.boldItalic : fonts.bold;
+  return italic ? fonts.italic : fonts.regular;
+}
+
+/**
+ * Split runs into words that keep their run's font
+ */
+function toWords(
+  runs: TextRun[],
+  fonts: Fonts,
+  sanitize: (text: string) => string,
+  base: "regular" | "italic" = "regular"
+): Word[] {
+  const words: Word[] = [];
+  let spaced = false;
+  for (const run of runs) {
+    const font = runFont(run, fonts, base);
+    for (const piece of sanitize(run.text).split(/(\s+)/)) {
+      if (!piece) continue;
+      if (/^\s+$/.test(piece)) {
+        spaced = true;
+        continue;
+      }
+      words.push({ text: piece, font, spaced });
+      spaced = false;
+    }
+  }
+  return words;
+}
+
+/**
+ * Break words into lines no wider than `maxWidth`
+ *
+ * Words wider than a whole line are cut between characters.
+ */
+function wrapWords(words: Word[], size: number, maxWidth: number): Word[][] {
+  const lines: Word[][] = [];
+  let line: Word[] = [];
+  let width = 0;
+
+  const queue = [...words];
+  while (queue.length > 0) {
+    const word = queue.shift()!;
+    const wordWidth = word.font.widthOfTextAtSize(word.text, size);
+    const gap =
+      line.length > 0 && word.spaced
+        ? word.font.widthOfTextAtSize(" ", size)
+        : 0;
+
+    if (line.length > 0 && width + gap + wordWidth > maxWidth) {
+      lines.push(line);
+      line = [];
+      width = 0;
+      queue.unshift({ ...word, spaced: false });
+      continue;
+    }
+
+    if (line.length === 0 && wordWidth > maxWidth && word.text.length > 1) {
+      let cut = word.text.length - 1;
+      while (
+        cut > 1 &&
+        word.font.widthOfTextAtSize(word.text.slice(0, cut), size) > maxWidth
+      ) {
+        cut--;
+      }
+      queue.unshift(
+        { ...word, text: word.text.slice(0, cut) },
+        { ...word, text: word.text.slice(cut), spaced: false }
+      );
+      // The head now fits; take it on the next pass
+      lines.push([queue.shift()!]);
+      continue;
+    }
+
+    line.push(word);
+    width += gap + wordWidth;
+  }
+  if (line.length > 0) lines.push(line);
+
+  return lines;
+}
+
+/**
+ * Render a summary export as a PDF
+ */
+export async function renderPdfExport(
+  doc: SummaryExportDocument
+): Promise<Uint8Array<ArrayBuffer>> {
+  const pdf = await PDFDocument.create();
+  const title = getExportTitle(doc);
+
+  pdf.setTitle(title);
+  pdf.setAuthor(doc.book.authors.join(", "));
+  pdf.setSubject(`${doc.summaryTypeLabel} of ${doc.book.title}`);
+  pdf.setKeywords(doc.book.categories ?? []);
+  pdf.setCreator(EXPORT_PUBLISHER);
+  pdf.setProducer(EXPORT_PUBLISHER);
+  pdf.setCreationDate(doc.generatedAt);
+  pdf.setLanguage(doc.language);
+
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+    boldItalic: await pdf.embedFont(StandardFonts.HelveticaBoldOblique),
+    code: await pdf.embedFont(StandardFonts.Courier),
+  };
+  const sanitize = createSanitizer(fonts.regular);
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  /** Start a new page unless `height` still fits on this one */
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) newPage();
+  };
+
+  const drawLines = (
+    words: Word[],
+    size: number,
+    options: { indent?: number; color?: typeof TEXT_COLOR; align?: "center" }
+  ) => {
+    const indent = options.indent ?? 0;
+    const lineHeight = size * LINE_HEIGHT;
+    for (const line of wrapWords(words, size, CONTENT_WIDTH - indent)) {
+      ensureSpace(lineHeight);
+      y -= lineHeight;
+
+      const widths = line.map((word) =>
+        word.font.widthOfTextAtSize(word.text, size)
+      );
+      const gaps = line.map((word, i) =>
+        i > 0 && word.spaced ? word.font.widthOfTextAtSize(" ", size) : 0
+      );
+      const lineWidth =
+        widths.reduce((a, b) => a + b, 0) + gaps.reduce((a, b) => a + b, 0);
+      let x =
+        options.align === "center"
+          ? MARGIN + (CONTENT_WIDTH - lineWidth) / 2
+          : MARGIN + indent;
+
+      line.forEach((word, i) => {
+        x += gaps[i];
+        page.drawText(word.text, {
+          x,
+          y,
+          size,
+          font: word.font,
+          color: options.color ?? TEXT_COLOR,
+        });
+        x += widths[i];
+      });
+    }
+  };
+
+  const plain = (text: string, font: PDFFont) =>
+    toWords([{ text }], { ...fonts, regular: font }, sanitize);
+
+  // Title page
+  let cover: PDFImage | undefined;
+  try {
+    if (doc.cover?.contentType === "image/jpeg") {
+      cover = await pdf.embedJpg(doc.cover.data);
+    } else if (doc.cover?.contentType === "image/png") {
+      cover = await pdf.embedPng(doc.cover.data);
+    }
+  } catch (error) {
+    console.warn("Skipping unreadable cover image:", error);
+  }
+
+  y -= 24;
+  if (cover) {
+    const scale = Math.min(200 / cover.width, 300 / cover.height, 1);
+    const width = cover.width * scale;
+    const height = cover.height * scale;
+    y -= height;
+    page.drawImage(cover, {
+      x: (PAGE_WIDTH - width) / 2,
+      y,
+      width,
+      height,
+    });
+    y -= 24;
+  }
+
+  drawLines(plain(doc.book.title, fonts.bold), 24, { align: "center" });
+  if (doc.book.authors.length > 0) {
+    y -= 4;
+    drawLines(plain(doc.book.authors.join(", "), fonts.regular), 14, {
+      align: "center",
+    });
+  }
+  y -= 8;
+  drawLines(plain(doc.summaryTypeLabel, fonts.italic), 13, {
+    align: "center",
+    color: MUTED_COLOR,
+  });
+
+  y -= 24;
+  for (const [label, value] of getBookDetails(doc)) {
+    drawLines(
+      [...plain(`${label}:`, fonts.bold), ...plain(` ${value}`, fonts.regular)],
+      10,
+      { align: "center", color: MUTED_COLOR }
+    );
+  }
+
+  y = MARGIN + 20;
+  drawLines(plain(getAttribution(doc), fonts.italic), 9, {
+    align: "center",
+    color: MUTED_COLOR,
+  });
+
+  // Summary content
+  newPage();
+  const firstContentPage = pdf.getPageCount() - 1;
+
+  for (const block of parseMarkdownBlocks(getExportMarkdown(doc))) {
+    switch (block.type) {
+      case "heading": {
+        const size = HEADING_SIZES[block.level] ?? 12;
+        // Keep a heading with the first line that follows it
+        ensureSpace(size * LINE_HEIGHT + BODY_SIZE * LINE_HEIGHT * 2);
+        y -= size * 0.6;
+        drawLines(
+          toWords(block.runs, { ...fonts, regular: fonts.bold }, sanitize),
+          size,
+          {}
+        );
+        y -= 4;
+        break;
+      }
+      case "paragraph":
+        drawLines(toWords(block.runs, fonts, sanitize), BODY_SIZE, {});
+        y -= BODY_SIZE * 0.6;
+        break;
+      case "listItem": {
+        const indent = LIST_INDENT * (block.depth + 1);
+        const marker = block.number !== undefined ? `${block.number}.` : "•";
+        ensureSpace(BODY_SIZE * LINE_HEIGHT);
+        page.drawText(marker, {
+          x: MARGIN + indent - 12,
+          y: y - BODY_SIZE * LINE_HEIGHT,
+          size: BODY_SIZE,
+          font: fonts.regular,
+          color: TEXT_COLOR,
+        });
+        drawLines(toWords(block.runs, fonts, sanitize), BODY_SIZE, {
+          indent,
+        });
+        y -= 2;
+        break;
+      }
+      case "quote": {
+        const startPage = page;
+        const top = y;
+        drawLines(toWords(block.runs, fonts, sanitize, "italic"), BODY_SIZE, {
+          indent: QUOTE_INDENT,
+          color: MUTED_COLOR,
+        });
+        // Bar beside the quote (its last page only, if it broke across pages)
+        page.drawLine({
+          start: {
+            x: MARGIN + 4,
+            y: page === startPage ? top : PAGE_HEIGHT - MARGIN,
+          },
+          end: { x: MARGIN + 4, y: y - 2 },
+          thickness: 2,
+          color: rgb(0.8, 0.8, 0.8),
+        });
+        y -= BODY_SIZE * 0.6;
+        break;
+      }
+      case "code":
+        for (const line of sanitize(block.text).split("\n")) {
+          drawLines(
+            [{ text: line || " ", font: fonts.code, spaced: false }],
+            CODE_SIZE,
+            { indent: 8 }
+          );
+        }
+        y -= BODY_SIZE * 0.6;
+        break;
+      case "rule":
+        ensureSpace(16);
+        y -= 8;
+        page.drawLine({
+          start: { x: MARGIN, y },
+          end: { x: PAGE_WIDTH - MARGIN, y },
+          thickness: 0.5,
+          color: rgb(0.75, 0.75, 0.75),
+        });
+        y -= 8;
+        break;
+    }
+  }
+
+  // Footers: title and page number on every content page
+  const pages = pdf.getPages().slice(firstContentPage);
+  const footerTitle = truncateToWidth(
+    sanitize(title),
+    fonts.regular,
+    8,
+    CONTENT_WIDTH - 60
+  );
+  pages.forEach((contentPage, i) => {
+    const label = `${i + 1} / ${pages.length}`;
+    contentPage.drawText(footerTitle, {
+      x: MARGIN,
+      y: FOOTER_Y,
+      size: 8,
+      font: fonts.regular,
+      color: MUTED_COLOR,
+    });
+    contentPage.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(label, 8),
+      y: FOOTER_Y,
+      size: 8,
+      font: fonts.regular,
+      color: MUTED_COLOR,
+    });
+  });
+
+  return new Uint8Array(await pdf.save());
+}
@@ -0,0 +1,121 @@
+import { crc32, deflateRawSync } from "node:zlib";
+
+/**
+ * Minimal zip writer for exports
+ *
+ * Why hand-rolled:
+ * - EPUB and DOCX are zips of XML files, and the bulk export is a zip of
+ *   exports; writing one only needs deflate and crc32 from node:zlib
+ * - Mirrors the reader in services/summary/sources/parseEpub.ts
+ *
+ * Limitations: no zip64 (archives stay far below 4GB).
+ */
+
+const LOCAL_SIGNATURE = 0x04034b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const EOCD_SIGNATURE = 0x06054b50;
+const UTF8_NAMES_FLAG = 0x0800;
+const STORE = 0;
+const DEFLATE = 8;
+
+export interface ZipEntry {
+  /** Path inside the archive, "/"-separated */
+  path: string;
+  data: Uint8Array | string;
+
+  /** Store without compression (required for an EPUB's mimetype) */
+  store?: boolean;
+}
+
+/**
+ * MS-DOS time and date fields for a timestamp
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      (Math.max(0, date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/**
+ * Build a zip archive, entries in the given order
+ *
+ * @param entries Files to include
+ * @param modifiedAt Timestamp recorded for every entry
+ */
+export function createZip(
+  entries: ZipEntry[],
+  modifiedAt: Date = new Date()
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modifiedAt);
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data =
+      typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    const method = entry.store ? STORE : DEFLATE;
+    const body = entry.store ? data : deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_SIGNATURE, true);
+    localView.setUint16(4, 20, true); // Version needed: deflate
+    localView.setUint16(6, UTF8_NAMES_FLAG, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, stamp.time, true);
+    localView.setUint16(12, stamp.date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, body.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_SIGNATURE, true);
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true); // Version needed
+    centralView.setUint16(8, UTF8_NAMES_FLAG, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, stamp.time, true);
+    centralView.setUint16(14, stamp.date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, body.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, body);
+    centrals.push(central);
+    offset += local.length + body.length;
+  }
+
+  const directorySize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const eocd = new Uint8Array(22);
+  const eocdView = new DataView(eocd.buffer);
+  eocdView.setUint32(0, EOCD_SIGNATURE, true);
+  eocdView.setUint16(8, entries.length, true);
+  eocdView.setUint16(10, entries.length, true);
+  eocdView.setUint32(12, directorySize, true);
+  eocdView.setUint32(16, offset, true);
+
+  const zip = new Uint8Array(offset + directorySize + eocd.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, eocd]) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
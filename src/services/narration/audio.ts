@@ -0,0 +1,164 @@
+/**
+ * Audio helpers for narration
+ *
+ * Narrations are stored as one file per chunk so playback can start
+ * before the whole summary is synthesized. Downloads join the chunks:
+ * MP3 files are sequences of self-contained frames and can simply be
+ * appended; WAV files each carry a header, so their sample data is merged
+ * under a new one.
+ */
+
+const WAV_HEADER_BYTES = 44;
+
+/**
+ * Build a canonical 44-byte WAV header
+ */
+function wavHeader(
+  dataBytes: number,
+  sampleRate: number,
+  channels: number,
+  bitsPerSample: number
+): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(WAV_HEADER_BYTES);
+  const view = new DataView(header.buffer);
+  const writeTag = (offset: number, tag: string) =>
+    [...tag].forEach((char, i) =>
+      view.setUint8(offset + i, char.charCodeAt(0))
+    );
+  const blockAlign = (channels * bitsPerSample) / 8;
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, 36 + dataBytes, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true); // PCM fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeTag(36, "data");
+  view.setUint32(40, dataBytes, true);
+
+  return header;
+}
+
+/**
+ * Silent 8-bit mono WAV of the given duration
+ *
+ * Used by the fake narration engine, which needs real, playable files
+ * without a speech engine.
+ */
+export function createSilentWav(
+  durationMs: number,
+  sampleRate: number = 8000
+): Uint8Array<ArrayBuffer> {
+  const samples = Math.max(1, Math.round((durationMs / 1000) * sampleRate));
+  const wav = new Uint8Array(WAV_HEADER_BYTES + samples);
+  wav.set(wavHeader(samples, sampleRate, 1, 8));
+  wav.fill(0x80, WAV_HEADER_BYTES); // Unsigned 8-bit silence
+  return wav;
+}
+
+/**
+ * Locate the sample data and format of a PCM WAV file
+ *
+ * @throws Error if the file is not a PCM WAV
+ */
+function readWav(wav: Uint8Array) {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  const tag = (offset: number) =>
+    String.fromCharCode(...wav.subarray(offset, offset + 4));
+  if (tag(0) !== "RIFF" || tag(8) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let format:
+    | { sampleRate: number; channels: number; bitsPerSample: number }
+    | undefined;
+  let offset = 12;
+  while (offset + 8 <= wav.byteLength) {
+    const size = view.getUint32(offset + 4, true);
+    if (tag(offset) === "fmt ") {
+      format = {
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+      };
+    } else if (tag(offset) === "data" && format) {
+      const end = Math.min(offset + 8 + size, wav.byteLength);
+      return { ...format, data: wav.subarray(offset + 8, end) };
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  throw new Error("WAV file has no audio data");
+}
+
+/**
+ * Join narration chunks into one file
+ *
+ * @param parts Audio of each chunk, in order
+ * @param contentType MIME type shared by every part
+ * @returns A single file of the same type
+ * @throws Error for WAV parts with differing formats, or unsupported types
+ */
+export function concatAudio(
+  parts: Uint8Array[],
+  contentType: string
+): Uint8Array<ArrayBuffer> {
+  if (contentType === "audio/mpeg") {
+    const joined = new Uint8Array(
+      parts.reduce((sum, part) => sum + part.byteLength, 0)
+    );
+    let offset = 0;
+    for (const part of parts) {
+      joined.set(part, offset);
+      offset += part.byteLength;
+    }
+    return joined;
+  }
+
+  if (contentType === "audio/wav") {
+    const wavs = parts.map(readWav);
+    const [first] = wavs;
+    if (!first) return createSilentWav(0);
+    if (
+      wavs.some(
+        (wav) =>
+          wav.sampleRate !== first.sampleRate ||
+          wav.channels !== first.channels ||
+          wav.bitsPerSample !== first.bitsPerSample
+      )
+    ) {
+      throw new Error("Narration chunks have different audio formats");
+    }
+
+    const dataBytes = wavs.reduce((sum, wav) => sum + wav.data.byteLength, 0);
+    const joined = new Uint8Array(WAV_HEADER_BYTES + dataBytes);
+    joined.set(
+      wavHeader(
+        dataBytes,
+        first.sampleRate,
+        first.channels,
+        first.bitsPerSample
+      )
+    );
+    let offset = WAV_HEADER_BYTES;
+    for (const wav of wavs) {
+      joined.set(wav.data, offset);
+      offset += wav.data.byteLength;
+    }
+    return joined;
+  }
+
+  throw new Error(`Unsupported narration audio type: ${contentType}`);
+}
+
+/**
+ * File extension for a narration audio type
+ */
+export function getAudioExtension(contentType: string): string {
+  return contentType === "audio/wav" ? "wav" : "mp3";
+}
@@ -0,0 +1,139 @@
+import type { StructuredSummary } from "@/types/summary";
+import type { NarrationScriptChunk } from "@/types/narration";
+import { structureSummary, toPlainText } from "../summary/structureSummary";
+
+/**
+ * Narration script
+ *
+ * Turns a summary into the text a speech engine reads, one chunk per
+ * heading. Chunks carry the structured section ids, so the player can
+ * follow along with the reader's section highlighting.
+ */
+
+/**
+ * Longest text sent in one speech request
+ *
+ * Below OpenAI's 4096 character limit; local engines are slower on long
+ * inputs, so smaller pieces also start playing sooner.
+ */
+export const MAX_NARRATION_CHUNK_CHARS = 3500;
+
+/** Heading for the text before the first section when there is no title */
+const OVERVIEW_HEADING = "Introduction";
+
+/**
+ * Speech-friendly plain text for a block of markdown
+ *
+ * Drops code blocks, tables and markers, and ends every line with
+ * punctuation so list items and headings are read as separate sentences.
+ */
+export function toSpeechText(markdown: string): string {
+  const lines: string[] = [];
+  let inCodeBlock = false;
+
+  for (const rawLine of markdown.split("\n")) {
+    const trimmed = rawLine.trim();
+    if (trimmed.startsWith("```")) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock || !trimmed || trimmed.startsWith("|")) continue;
+
+    const text = toPlainText(
+      trimmed
+        .replace(/^#{1,6}\s+/, "")
+        .replace(/^>\s?/, "")
+        .replace(/^(?:[-*+]|\d+[.)])\s+/, "")
+    );
+    if (!text || /^[-=*_]{3,}$/.test(text)) continue;
+
+    lines.push(/[.!?:;…"”')]$/.test(text) ? text : `${text}.`);
+  }
+
+  return lines.join(" ");
+}
+
+/**
+ * Split text at sentence ends into pieces of at most `maxChars`
+ *
+ * A single sentence longer than the limit is cut at the last space.
+ */
+export function splitNarrationText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const sentence of text.match(/[^.!?…]+[.!?…]+["”')]*\s*|.+$/g) ?? [
+    text,
+  ]) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = "";
+    }
+
+    let rest = sentence;
+    while (rest.length > maxChars) {
+      const cut = rest.lastIndexOf(" ", maxChars);
+      const at = cut > 0 ? cut : maxChars;
+      pieces.push(rest.slice(0, at).trim());
+      rest = rest.slice(at);
+    }
+    current += rest;
+  }
+  if (current.trim()) pieces.push(current.trim());
+
+  return pieces;
+}
+
+/**
+ * Build the narration script for a summary
+ *
+ * The title and overview open the narration, then every section is read
+ * with its heading. Sections without text of their own (a heading right
+ * above its subsections) are read as just the heading.
+ *
+ * @param content Summary markdown
+ * @param structured Structured form, derived from the markdown if omitted
+ * @param maxChars Longest text per chunk
+ * @returns Chunks in reading order
+ */
+export function buildNarrationScript(
+  content: string,
+  structured: StructuredSummary = structureSummary(content),
+  maxChars: number = MAX_NARRATION_CHUNK_CHARS
+): NarrationScriptChunk[] {
+  const parts: Omit<NarrationScriptChunk, "index">[] = [];
+
+  const opening = [
+    structured.title ? toSpeechText(structured.title) : "",
+    structured.overview ? toSpeechText(structured.overview) : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+  if (opening) {
+    for (const piece of splitNarrationText(opening, maxChars)) {
+      parts.push({
+        heading: structured.title ?? OVERVIEW_HEADING,
+        text: piece,
+      });
+    }
+  }
+
+  for (const section of structured.sections) {
+    const text = [toSpeechText(section.heading), toSpeechText(section.content)]
+      .filter(Boolean)
+      .join(" ");
+    if (!text) continue;
+
+    for (const piece of splitNarrationText(text, maxChars)) {
+      parts.push({
+        sectionId: section.id,
+        heading: section.heading,
+        text: piece,
+      });
+    }
+  }
+
+  return parts.map((part, index) => ({ index, ...part }));
+}
@@ -0,0 +1,46 @@
+import type {
+  NarrationOptions,
+  NarrationProviderId,
+  SynthesizedAudio,
+} from "@/types/narration";
+
+/**
+ * Base class for text-to-speech backends used by summary narration
+ *
+ * Why a base class:
+ * - Narration only needs "text in, audio file out", so engines differ in
+ *   transport, voices and price alone
+ * - Each engine carries its own per-character price for cost estimates
+ */
+export abstract class BaseNarrationProvider {
+  abstract readonly id: NarrationProviderId;
+  /** Human readable name used in errors */
+  abstract readonly label: string;
+  abstract readonly defaultVoice: string;
+  abstract readonly defaultModel: string;
+  /** MIME type of the audio this engine returns */
+  abstract readonly contentType: string;
+  /** Price per million characters of input (USD) */
+  protected abstract readonly pricePerMillionChars: number;
+
+  /** Synthesize speech for one chunk of text */
+  abstract synthesize(
+    text: string,
+    options: NarrationOptions
+  ): Promise<SynthesizedAudio>;
+
+  abstract isConfigured(): boolean;
+  abstract getAvailableVoices(): string[];
+
+  /** Resolve the voice for a request, falling back to the engine default */
+  resolveVoice(voice?: string): string {
+    return voice && this.getAvailableVoices().includes(voice)
+      ? voice
+      : this.defaultVoice;
+  }
+
+  /** Estimate the cost of synthesizing some text */
+  estimateCost(text: string): number {
+    return (text.length / 1_000_000) * this.pricePerMillionChars;
+  }
+}
@@ -0,0 +1,50 @@
+import type { NarrationProviderId, SynthesizedAudio } from "@/types/narration";
+import { createSilentWav } from "../audio";
+import { BaseNarrationProvider } from "./base";
+
+const FAKE_VOICE = "silent";
+
+/** Speaking rate the silence is timed to */
+const WORDS_PER_MINUTE = 160;
+
+/**
+ * Offline engine for development, tests and CI
+ *
+ * Returns silent WAV audio lasting as long as the text would take to read
+ * aloud, so the player, section sync and downloads can be exercised
+ * without a speech engine. Always costs nothing.
+ */
+export class FakeNarrationProvider extends BaseNarrationProvider {
+  readonly id: NarrationProviderId = "fake";
+  readonly label = "Fake TTS";
+  readonly defaultVoice = FAKE_VOICE;
+  readonly defaultModel = "fake-tts";
+  readonly contentType = "audio/wav";
+  protected readonly pricePerMillionChars = 0;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  getAvailableVoices(): string[] {
+    return [FAKE_VOICE];
+  }
+
+  async synthesize(text: string): Promise<SynthesizedAudio> {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    const durationMs = Math.max(
+      500,
+      Math.round((words / WORDS_PER_MINUTE) * 60_000)
+    );
+
+    return {
+      audio: createSilentWav(durationMs),
+      contentType: this.contentType,
+      durationMs,
+      estimatedCost: 0,
+    };
+  }
+}
+
+export const createFakeNarrationProvider = (): FakeNarrationProvider =>
+  new FakeNarrationProvider();
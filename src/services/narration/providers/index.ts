@@ -0,0 +1,55 @@
+import { NARRATION_PROVIDER_IDS, NarrationProviderId } from "@/types/narration";
+import { BaseNarrationProvider } from "./base";
+import { createFakeNarrationProvider } from "./fake";
+import { createLocalNarrationProvider } from "./local";
+import { createOpenAINarrationProvider } from "./openai";
+
+/**
+ * Narration (text-to-speech) provider registry
+ *
+ * Providers are created lazily on first use so environment variables are
+ * read at request time, and then reused for the lifetime of the process.
+ * The default provider comes from NARRATION_PROVIDER (openai | local | fake).
+ */
+
+const factories: Record<NarrationProviderId, () => BaseNarrationProvider> = {
+  openai: createOpenAINarrationProvider,
+  local: createLocalNarrationProvider,
+  fake: createFakeNarrationProvider,
+};
+
+const instances = new Map<NarrationProviderId, BaseNarrationProvider>();
+
+/**
+ * Check whether a string names a registered narration provider
+ */
+export function isNarrationProviderId(id: unknown): id is NarrationProviderId {
+  return (
+    typeof id === "string" &&
+    (NARRATION_PROVIDER_IDS as readonly string[]).includes(id)
+  );
+}
+
+/**
+ * Provider used when a request does not name one
+ */
+export function getDefaultNarrationProviderId(): NarrationProviderId {
+  const configured = process.env.NARRATION_PROVIDER;
+  return isNarrationProviderId(configured) ? configured : "openai";
+}
+
+/**
+ * Get a narration provider by ID (defaults to the configured default)
+ */
+export function getNarrationProvider(
+  id: NarrationProviderId = getDefaultNarrationProviderId()
+): BaseNarrationProvider {
+  let provider = instances.get(id);
+  if (!provider) {
+    provider = factories[id]();
+    instances.set(id, provider);
+  }
+  return provider;
+}
+
+export { BaseNarrationProvider } from "./base";
@@ -0,0 +1,37 @@
+import { OpenAICompatibleSpeechProvider } from "./openAiCompatible";
+
+/** Kokoro-FastAPI's OpenAI-compatible endpoint */
+const DEFAULT_LOCAL_TTS_BASE_URL = "http://localhost:8880/v1";
+const DEFAULT_LOCAL_TTS_MODEL = "kokoro";
+const DEFAULT_LOCAL_TTS_VOICE = "af_heart";
+
+/**
+ * Local OpenAI-compatible speech server (Kokoro-FastAPI, openedai-speech,
+ * LocalAI, ...) for offline development
+ *
+ * Environment:
+ * - LOCAL_TTS_BASE_URL: endpoint base URL (default: Kokoro on localhost)
+ * - LOCAL_TTS_MODEL: model name (default: kokoro)
+ * - LOCAL_TTS_VOICE: default voice (default: af_heart)
+ * - LOCAL_TTS_API_KEY: optional key for servers that enforce one
+ *
+ * Local synthesis is free, so every cost estimate resolves to zero. The
+ * server's voice list isn't queried: any requested voice is passed through.
+ */
+export const createLocalNarrationProvider = (
+  baseURL: string = process.env.LOCAL_TTS_BASE_URL ||
+    DEFAULT_LOCAL_TTS_BASE_URL,
+  voice: string = process.env.LOCAL_TTS_VOICE || DEFAULT_LOCAL_TTS_VOICE
+): OpenAICompatibleSpeechProvider =>
+  new OpenAICompatibleSpeechProvider({
+    id: "local",
+    label: "Local TTS",
+    apiKey: process.env.LOCAL_TTS_API_KEY,
+    requiresApiKey: false,
+    baseURL,
+    defaultModel: process.env.LOCAL_TTS_MODEL || DEFAULT_LOCAL_TTS_MODEL,
+    defaultVoice: voice,
+    voices: [voice],
+    acceptsAnyVoice: true,
+    pricePerMillionChars: 0,
+  });
@@ -0,0 +1,108 @@
+import type {
+  NarrationOptions,
+  NarrationProviderId,
+  SynthesizedAudio,
+} from "@/types/narration";
+import OpenAI from "openai";
+import { defaultTimeout } from "../../summary/helpers";
+import { BaseNarrationProvider } from "./base";
+
+/**
+ * Configuration for an OpenAI-compatible speech endpoint
+ */
+export interface OpenAICompatibleSpeechConfig {
+  /** Registry identifier */
+  id: NarrationProviderId;
+  /** Human readable name used in errors */
+  label: string;
+  /** API key (local servers usually accept any value) */
+  apiKey?: string;
+  /** Whether the endpoint refuses requests without a real key */
+  requiresApiKey: boolean;
+  /** Custom base URL, e.g. http://localhost:8880/v1 */
+  baseURL?: string;
+  /** Model used when the request does not name one */
+  defaultModel: string;
+  /** Voice used when the request does not name one */
+  defaultVoice: string;
+  /** Voices offered to callers */
+  voices: string[];
+  /** Pass any requested voice through (servers whose voice list isn't known) */
+  acceptsAnyVoice?: boolean;
+  /** Price per million input characters, for cost estimates */
+  pricePerMillionChars: number;
+}
+
+/**
+ * Engine for any endpoint speaking the OpenAI speech API (/audio/speech)
+ *
+ * Backs both hosted OpenAI TTS and local servers such as Kokoro-FastAPI,
+ * openedai-speech or LocalAI, which differ only in base URL, key, voices
+ * and pricing. Audio is requested as MP3 so chunks can be joined for
+ * download.
+ */
+export class OpenAICompatibleSpeechProvider extends BaseNarrationProvider {
+  readonly id: NarrationProviderId;
+  readonly label: string;
+  readonly defaultVoice: string;
+  readonly defaultModel: string;
+  readonly contentType = "audio/mpeg";
+  protected readonly pricePerMillionChars: number;
+  private config: OpenAICompatibleSpeechConfig;
+
+  constructor(config: OpenAICompatibleSpeechConfig) {
+    super();
+    this.config = config;
+    this.id = config.id;
+    this.label = config.label;
+    this.defaultVoice = config.defaultVoice;
+    this.defaultModel = config.defaultModel;
+    this.pricePerMillionChars = config.pricePerMillionChars;
+  }
+
+  isConfigured(): boolean {
+    return !this.config.requiresApiKey || Boolean(this.config.apiKey);
+  }
+
+  getAvailableVoices(): string[] {
+    return [...this.config.voices];
+  }
+
+  resolveVoice(voice?: string): string {
+    return this.config.acceptsAnyVoice && voice
+      ? voice
+      : super.resolveVoice(voice);
+  }
+
+  async synthesize(
+    text: string,
+    options: NarrationOptions
+  ): Promise<SynthesizedAudio> {
+    if (!this.isConfigured()) {
+      throw new Error(`${this.config.label} is not configured`);
+    }
+
+    const client = new OpenAI({
+      apiKey: this.config.apiKey || "not-needed",
+      baseURL: this.config.baseURL,
+      timeout: defaultTimeout,
+    });
+    const response = await client.audio.speech.create({
+      model: options.model || this.defaultModel,
+      voice: this.resolveVoice(options.voice),
+      input: text,
+      response_format: "mp3",
+    });
+
+    const audio = new Uint8Array(await response.arrayBuffer());
+    if (audio.byteLength === 0) {
+      throw new Error(`No audio generated by ${this.config.label}`);
+    }
+
+    return {
+      audio,
+      contentType: this.contentType,
+      estimatedCost: this.estimateCost(text),
+    };
+  }
+}
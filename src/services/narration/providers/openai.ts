@@ -0,0 +1,35 @@
+import { OpenAICompatibleSpeechProvider } from "./openAiCompatible";
+
+/** Rate for tts-1, per million characters */
+const OPENAI_TTS_PRICE = 15;
+
+const OPENAI_VOICES = [
+  "alloy",
+  "ash",
+  "coral",
+  "echo",
+  "fable",
+  "nova",
+  "onyx",
+  "sage",
+  "shimmer",
+];
+
+/**
+ * Hosted OpenAI text-to-speech
+ *
+ * Reads OPENAI_API_KEY from the environment, like the summary provider.
+ */
+export const createOpenAINarrationProvider = (
+  apiKey: string | undefined = process.env.OPENAI_API_KEY
+): OpenAICompatibleSpeechProvider =>
+  new OpenAICompatibleSpeechProvider({
+    id: "openai",
+    label: "OpenAI TTS",
+    apiKey,
+    requiresApiKey: true,
+    defaultModel: "tts-1",
+    defaultVoice: "alloy",
+    voices: OPENAI_VOICES,
+    pricePerMillionChars: OPENAI_TTS_PRICE,
+  });
@@ -0,0 +1,152 @@
+import type { Book } from "@/types/book";
+import {
+  RECOMMENDATIONS_LIMIT,
+  type Recommendation,
+  type RecommendationReason,
+  type RecommendationSeed,
+  type RecommendationSignalKind,
+} from "@/types/recommendations";
+
+/**
+ * Recommendation scoring
+ *
+ * Pure functions so the Convex query and tests share them. A candidate
+ * scores for every seed book it shares a category or author with, and
+ * for every recent search term in its title, authors or categories.
+ *
+ * Why overlap rather than a learned model:
+ * - Works from the first favorite, with no training data
+ * - Every pick can be explained by the seed that earned it
+ */
+
+/** How strongly each kind of interest counts */
+const SIGNAL_WEIGHTS: Record<RecommendationSignalKind, number> = {
+  favorite: 3,
+  savedSummary: 2,
+  readList: 2,
+  search: 1,
+};
+
+/** A shared author says more than a shared category */
+const AUTHOR_MULTIPLIER = 2;
+
+/** Search terms shorter than this ("the", "of") match too much */
+const MIN_TERM_LENGTH = 3;
+
+type ScorableBook = Pick<
+  Book,
+  "id" | "title" | "authors" | "categories" | "ratingsCount"
+>;
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Score candidate books against a user's seeds and search terms
+ *
+ * Books the user already has as seeds (or another edition of, by title)
+ * are never recommended. Ties go to the more widely rated book.
+ *
+ * @param candidates Cached books to choose from
+ * @param seeds Books the user favorited, saved or added to their read list
+ * @param searchTerms Recent search terms, most recent first
+ * @param limit Maximum number of picks
+ * @returns Picks with a score and the reason that contributed most
+ */
+export function scoreRecommendations<TBook extends ScorableBook>(
+  candidates: TBook[],
+  seeds: RecommendationSeed[],
+  searchTerms: string[] = [],
+  limit: number = RECOMMENDATIONS_LIMIT
+): Recommendation<TBook>[] {
+  const categoryIndex = new Map<string, RecommendationSeed[]>();
+  const authorIndex = new Map<string, RecommendationSeed[]>();
+  const ownedIds = new Set<string>();
+  const ownedTitles = new Set<string>();
+
+  for (const seed of seeds) {
+    ownedIds.add(seed.book.id);
+    ownedTitles.add(normalize(seed.book.title));
+
+    const index = (map: Map<string, RecommendationSeed[]>, key: string) =>
+      map.set(key, [...(map.get(key) ?? []), seed]);
+    new Set(seed.book.categories?.map(normalize)).forEach((category) =>
+      index(categoryIndex, category)
+    );
+    new Set(seed.book.authors.map(normalize)).forEach((author) =>
+      index(authorIndex, author)
+    );
+  }
+
+  const terms = [...new Set(searchTerms.map(normalize))].filter(
+    (term) => term.length >= MIN_TERM_LENGTH
+  );
+
+  const recommendations: Recommendation<TBook>[] = [];
+  const pickedTitles = new Set<string>();
+
+  for (const book of candidates) {
+    const title = normalize(book.title);
+    if (ownedIds.has(book.id) || ownedTitles.has(title)) continue;
+
+    // Points per reason, to explain the pick by its biggest contributor
+    const contributions = new Map<string, number>();
+    const reasons = new Map<string, RecommendationReason>();
+    const credit = (reason: RecommendationReason, points: number) => {
+      const key = `${reason.kind}:${reason.label}`;
+      reasons.set(key, reason);
+      contributions.set(key, (contributions.get(key) ?? 0) + points);
+    };
+    const creditSeed = (seed: RecommendationSeed, multiplier: number) =>
+      credit(
+        { kind: seed.kind, label: seed.book.title },
+        SIGNAL_WEIGHTS[seed.kind] * multiplier
+      );
+
+    const categories = new Set(book.categories?.map(normalize));
+    const authors = new Set(book.authors.map(normalize));
+
+    categories.forEach((category) =>
+      categoryIndex.get(category)?.forEach((seed) => creditSeed(seed, 1))
+    );
+    authors.forEach((author) =>
+      authorIndex
+        .get(author)
+        ?.forEach((seed) => creditSeed(seed, AUTHOR_MULTIPLIER))
+    );
+
+    const haystack = [title, ...authors, ...categories].join(" ");
+    for (const term of terms) {
+      if (haystack.includes(term)) {
+        credit({ kind: "search", label: term }, SIGNAL_WEIGHTS.search);
+      }
+    }
+
+    if (contributions.size === 0) continue;
+
+    let score = 0;
+    let topKey = "";
+    for (const [key, points] of contributions) {
+      score += points;
+      if (!topKey || points > contributions.get(topKey)!) topKey = key;
+    }
+
+    recommendations.push({ book, score, reason: reasons.get(topKey)! });
+  }
+
+  return recommendations
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (b.book.ratingsCount ?? 0) - (a.book.ratingsCount ?? 0)
+    )
+    .filter(({ book }) => {
+      // One edition per title
+      const title = normalize(book.title);
+      if (pickedTitles.has(title)) return false;
+      pickedTitles.add(title);
+      return true;
+    })
+    .slice(0, limit);
+}
@@ -0,0 +1,121 @@
+import type { Book } from "@/types/book";
+import {
+  SIMILAR_BOOKS_LIMIT,
+  type SimilarBook,
+  type SimilarityReason,
+} from "@/types/recommendations";
+
+/**
+ * Similar book scoring
+ *
+ * Pure functions so the Convex cache and tests share them. A candidate
+ * scores for each author and category it shares with the book, and for
+ * each other reader who favorited or listed both.
+ *
+ * Why co-readers count most after authors:
+ * - Categories are coarse ("Fiction"), so on their own they only break ties
+ * - Readers who kept both books say more than catalogue metadata can
+ */
+
+/** Points per shared author */
+const AUTHOR_WEIGHT = 4;
+
+/** Points per shared category */
+const CATEGORY_WEIGHT = 1;
+
+/** Points per reader who favorited or listed both books */
+const CO_READER_WEIGHT = 2;
+
+/** Co-readers counted per candidate, so one popular book can't dominate */
+const MAX_CO_READERS = 5;
+
+type ScorableBook = Pick<
+  Book,
+  "id" | "title" | "authors" | "categories" | "ratingsCount"
+>;
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Score candidate books by how similar they are to a book
+ *
+ * The book itself and other editions of it (by title) are skipped, as
+ * are candidates sharing nothing with it. Ties go to the more widely
+ * rated book.
+ *
+ * @param book Book to find similar books for
+ * @param candidates Cached books to choose from
+ * @param coReaders Readers who favorited or listed both, by candidate ID
+ * @param limit Maximum number of similar books
+ * @returns Similar books, most similar first, with what they share
+ */
+export function scoreSimilarBooks<TBook extends ScorableBook>(
+  book: ScorableBook,
+  candidates: TBook[],
+  coReaders: Map<string, number> = new Map(),
+  limit: number = SIMILAR_BOOKS_LIMIT
+): SimilarBook<TBook>[] {
+  const title = normalize(book.title);
+  const authors = new Set(book.authors.map(normalize));
+  const categories = new Map(
+    (book.categories ?? []).map((category) => [normalize(category), category])
+  );
+
+  const similar: SimilarBook<TBook>[] = [];
+  const seenTitles = new Set([title]);
+
+  for (const candidate of candidates) {
+    if (candidate.id === book.id) continue;
+
+    const reasons: SimilarityReason[] = [];
+    let score = 0;
+
+    const sharedAuthors = candidate.authors.filter((author) =>
+      authors.has(normalize(author))
+    ).length;
+    if (sharedAuthors > 0) {
+      reasons.push("author");
+      score += sharedAuthors * AUTHOR_WEIGHT;
+    }
+
+    const sharedCategories = [
+      ...new Set(candidate.categories?.map(normalize)),
+    ].filter((category) => categories.has(category));
+    if (sharedCategories.length > 0) {
+      reasons.push("category");
+      score += sharedCategories.length * CATEGORY_WEIGHT;
+    }
+
+    const readers = Math.min(coReaders.get(candidate.id) ?? 0, MAX_CO_READERS);
+    if (readers > 0) {
+      reasons.push("coReaders");
+      score += readers * CO_READER_WEIGHT;
+    }
+
+    if (score === 0) continue;
+
+    similar.push({
+      book: candidate,
+      score,
+      reasons,
+      category: sharedCategories[0] && categories.get(sharedCategories[0]),
+    });
+  }
+
+  return similar
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (b.book.ratingsCount ?? 0) - (a.book.ratingsCount ?? 0)
+    )
+    .filter(({ book: candidate }) => {
+      // One edition per title, and none of the book itself
+      const candidateTitle = normalize(candidate.title);
+      if (seenTitles.has(candidateTitle)) return false;
+      seenTitles.add(candidateTitle);
+      return true;
+    })
+    .slice(0, limit);
+}
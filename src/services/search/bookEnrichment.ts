@@ -0,0 +1,145 @@
+/**
+ * Book detail enrichment
+ *
+ * Google Books and Open Library each know different things about a book:
+ * Google usually has ratings, page counts and publishers, Open Library
+ * longer descriptions, subjects and larger covers. Details are merged
+ * field by field: the book's own source wins where it has a value, and
+ * the other source fills the gaps. The two records are matched by ISBN,
+ * and every field records which source it came from.
+ */
+
+import {
+  ENRICHABLE_BOOK_FIELDS,
+  type Book,
+  type BookDetails,
+  type BookProvenance,
+} from "../../types/book";
+import { normalizeLanguageCode } from "../../types/summary";
+import type { GoogleBooksService } from "./googleBooks";
+import type { OpenLibraryService } from "./openLibrary";
+
+/**
+ * Where enrichment looks for the other source's record
+ */
+export interface BookEnrichmentSources {
+  googleBooks: Pick<GoogleBooksService, "getBookByIsbn">;
+  openLibrary: Pick<OpenLibraryService, "getBookByIsbn" | "getEditionDetails">;
+
+  /**
+   * Already-cached record from a source with one of the ISBNs, checked
+   * before calling that source's API
+   */
+  findCachedByIsbn?: (
+    isbns: { isbn13?: string; isbn10?: string },
+    source: Book["source"]
+  ) => Promise<Book | null>;
+}
+
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return false;
+  return !Array.isArray(value) || value.length > 0;
+}
+
+/**
+ * Merge another source's details into a book
+ *
+ * Fields the book already has are kept; empty ones are filled from the
+ * other record. Provenance follows each value, including values the
+ * other record had itself taken from elsewhere. Languages end up as ISO
+ * 639-1 codes where supported, since Open Library records carry MARC
+ * codes ("eng") and Google Books records ISO ones ("en").
+ *
+ * @param book Book to enrich (its identity fields are kept as they are)
+ * @param details Other record, or null to only record provenance
+ * @returns The merged book with per-field provenance
+ */
+export function mergeBookDetails(
+  book: Book,
+  details: BookDetails | null
+): Book {
+  const merged: Record<string, unknown> = { ...book };
+  const provenance: BookProvenance = {};
+
+  for (const field of ENRICHABLE_BOOK_FIELDS) {
+    if (hasValue(book[field])) {
+      provenance[field] = book.provenance?.[field] ?? book.source;
+    } else if (details && hasValue(details[field])) {
+      merged[field] = details[field];
+      provenance[field] = details.provenance?.[field] ?? details.source;
+    }
+  }
+
+  if (typeof merged.language === "string") {
+    merged.language = normalizeLanguageCode(merged.language) ?? merged.language;
+  }
+
+  return { ...(merged as unknown as Book), provenance };
+}
+
+/**
+ * Fetch the other source's record for an ISBN, cache first
+ */
+async function findCounterpart(
+  book: Book,
+  sources: BookEnrichmentSources
+): Promise<Book | null> {
+  const isbns = { isbn13: book.isbn13, isbn10: book.isbn10 };
+  const isbn = isbns.isbn13 ?? isbns.isbn10;
+  if (!isbn) return null;
+
+  const source =
+    book.source === "google-books" ? "open-library" : "google-books";
+
+  const cached = await sources.findCachedByIsbn?.(isbns, source);
+  if (cached) return cached;
+
+  return source === "google-books"
+    ? sources.googleBooks.getBookByIsbn(isbn)
+    : sources.openLibrary.getBookByIsbn(isbn);
+}
+
+/**
+ * Enrich a book with details from the other source
+ *
+ * Flow:
+ * 1. Open Library works have no ISBN, so take one (with the page count
+ *    and publisher) from an edition of the work
+ * 2. Find the other source's record by ISBN, in the cache or its API
+ * 3. Fill the book's gaps from it
+ *
+ * Enrichment is best-effort: a lookup that fails leaves the details
+ * merged so far.
+ *
+ * @param book Book fetched from its own source
+ * @param sources Services to look the book up in
+ * @returns The enriched book with per-field provenance
+ */
+export async function enrichBookDetails(
+  book: Book,
+  sources: BookEnrichmentSources
+): Promise<Book> {
+  let enriched = mergeBookDetails(book, null);
+
+  // Step 1: An ISBN for Open Library works
+  if (book.source === "open-library" && !book.isbn13 && !book.isbn10) {
+    try {
+      const edition = await sources.openLibrary.getEditionDetails(
+        book.originalId
+      );
+      enriched = mergeBookDetails(enriched, edition);
+    } catch (error) {
+      console.warn(`Failed to fetch an edition of ${book.id}:`, error);
+      return enriched;
+    }
+  }
+
+  // Steps 2-3: The other source's record, by ISBN
+  try {
+    const counterpart = await findCounterpart(enriched, sources);
+    return mergeBookDetails(enriched, counterpart);
+  } catch (error) {
+    console.warn(`Failed to enrich ${book.id} from its ISBN:`, error);
+    return enriched;
+  }
+}
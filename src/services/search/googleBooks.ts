@@ -70,7 +70,9 @@ export class GoogleBooksService {
         ), // Google Books max is 40
         printType: DEFAULT_CONFIG.printType,
         projection: DEFAULT_CONFIG.projection,
-        orderBy: DEFAULT_CONFIG.orderBy,
+        // Google Books only orders by relevance or date; other sorts are
+        // applied to the page afterwards (see searchFacets.ts)
+        orderBy: params.sortBy === "date" ? "newest" : DEFAULT_CONFIG.orderBy,
         langRestrict: params.language,
         ...(this.apiKey && { key: this.apiKey }),
       });
@@ -118,6 +120,36 @@ export class GoogleBooksService {
     }
   }
 
+  /**
+   * Find the volume with an ISBN
+   *
+   * @param isbn ISBN-13 or ISBN-10
+   * @returns Promise<Book | null> The first matching volume, or null if none
+   */
+  async getBookByIsbn(isbn: string): Promise<Book | null> {
+    try {
+      const url = this.buildRequestUrl("volumes", {
+        q: `isbn:${isbn}`,
+        maxResults: 1,
+        projection: "full",
+        ...(this.apiKey && { key: this.apiKey }),
+      });
+
+      const response = await apiClient.get<GoogleBooksResponse>(url);
+
+      const validatedResponse = GoogleBooksResponseSchema.safeParse(response);
+      const volume = validatedResponse.success
+        ? validatedResponse.data.items?.[0]
+        : undefined;
+      if (!volume) return null;
+
+      const book = this.transformVolumeToBook(volume);
+      return BookSchema.safeParse(book).success ? book : null;
+    } catch (error: any) {
+      throw this.handleApiError(error, isbn);
+    }
+  }
+
   /**
    * Build search query string based on parameters
    *
@@ -138,11 +170,9 @@ export class GoogleBooksService {
     if (params.authorQuery && params.authorQuery.trim()) {
       const titleQuery = `intitle:${query}`;
       const authorQuery = `inauthor:${params.authorQuery.trim()}`;
-      return `${titleQuery} ${authorQuery}`;
-    }
-
-    // If searchIn is specified, use Google Books field operators
-    if (params.searchIn && params.searchIn !== "all") {
+      query = `${titleQuery} ${authorQuery}`;
+    } else if (params.searchIn && params.searchIn !== "all") {
+      // If searchIn is specified, use Google Books field operators
       switch (params.searchIn) {
         case "title":
           query = `intitle:${query}`;
@@ -162,6 +192,11 @@ export class GoogleBooksService {
       query += ` published:${afterYear}-${beforeYear}`;
     }
 
+    // Add category filter if specified (quoted, as categories can be phrases)
+    if (params.category && params.category.trim()) {
+      query += ` subject:"${params.category.trim()}"`;
+    }
+
     return query;
   }
 
@@ -0,0 +1,119 @@
+/**
+ * Local search helpers
+ *
+ * Our own books table (and the summaries written for it) answers keyword
+ * searches before the external APIs do; see the local-first strategy in
+ * searchService.ts and convex/bookSearch.ts.
+ *
+ * Why a joined searchText field:
+ * - A Convex search index covers a single string field, and authors and
+ *   categories are arrays
+ * - Filters a search index can't express (title or author only, year
+ *   range, language across code systems) are applied to its hits here
+ *   instead
+ */
+
+import type { Book, SearchParams } from "../../types/book";
+import { normalizeLanguageCode } from "../../types/summary";
+
+type SearchableBook = Pick<
+  Book,
+  "title" | "authors" | "description" | "categories"
+>;
+
+/**
+ * Join a book's searchable fields into the text its search index covers
+ */
+export function buildBookSearchText(book: SearchableBook): string {
+  return [
+    book.title,
+    ...book.authors,
+    ...(book.categories ?? []),
+    book.description,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function toTerms(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function containsTerms(text: string, terms: string[]): boolean {
+  const lower = text.toLowerCase();
+  return terms.every((term) => lower.includes(term));
+}
+
+/**
+ * Whether a search index hit satisfies the rest of the search parameters
+ *
+ * Books without a publication date never match a year range, nor books
+ * without categories a category. Languages are compared as normalized
+ * codes, since books from Open Library store MARC codes ("eng").
+ */
+export function matchesLocalSearch(
+  book: Pick<
+    Book,
+    "title" | "authors" | "publishedDate" | "categories" | "language"
+  >,
+  params: Pick<
+    SearchParams,
+    | "query"
+    | "searchIn"
+    | "authorQuery"
+    | "language"
+    | "publishedAfter"
+    | "publishedBefore"
+    | "category"
+  >
+): boolean {
+  const authors = book.authors.join(" ");
+
+  if (
+    params.searchIn === "title" &&
+    !containsTerms(book.title, toTerms(params.query))
+  ) {
+    return false;
+  }
+  if (
+    params.searchIn === "author" &&
+    !containsTerms(authors, toTerms(params.query))
+  ) {
+    return false;
+  }
+  if (
+    params.authorQuery &&
+    !containsTerms(authors, toTerms(params.authorQuery))
+  ) {
+    return false;
+  }
+
+  if (
+    params.language &&
+    normalizeLanguageCode(book.language) !==
+      normalizeLanguageCode(params.language)
+  ) {
+    return false;
+  }
+
+  if (
+    params.category &&
+    !book.categories?.some((category) =>
+      containsTerms(category, toTerms(params.category!))
+    )
+  ) {
+    return false;
+  }
+
+  if (params.publishedAfter || params.publishedBefore) {
+    const year = parseInt(book.publishedDate?.slice(0, 4) ?? "", 10);
+    if (Number.isNaN(year)) return false;
+    if (params.publishedAfter && year < params.publishedAfter) return false;
+    if (params.publishedBefore && year > params.publishedBefore) return false;
+  }
+
+  return true;
+}
@@ -1,6 +1,7 @@
 import { apiClient } from "../../lib/apiClient";
 import {
   type Book,
+  type BookDetails,
   type SearchParams,
   type SearchResults,
   BookSchema,
@@ -9,6 +10,7 @@ import {
   type OpenLibrarySearchResponse,
   OpenLibrarySearchResponseSchema,
 } from "@/types/api";
+import { toMarcLanguageCode } from "@/types/summary";
 
 // Interface for handling raw OpenLibrary responses with flexible field formats
 interface RawOpenLibraryResponse {
@@ -80,7 +82,13 @@ export class OpenLibraryService {
         limit: Math.min(params.maxResults || DEFAULT_CONFIG.limit, 100), // Open Library max is 100
         // fields: DEFAULT_CONFIG.fields,
         // sort: DEFAULT_CONFIG.sort,
-        ...(params.language && { language: params.language }),
+        // Open Library filters by MARC code ("eng"), not ISO 639-1 ("en")
+        ...(params.language && {
+          language: toMarcLanguageCode(params.language) ?? params.language,
+        }),
+        // Other sorts are applied to the page afterwards (see searchFacets.ts)
+        ...(params.sortBy === "date" && { sort: "new" }),
+        ...(params.sortBy === "rating" && { sort: "rating" }),
       });
 
       // Make API request
@@ -120,6 +128,71 @@ export class OpenLibraryService {
     }
   }
 
+  /**
+   * Get the work an ISBN belongs to
+   *
+   * @param isbn ISBN-13 or ISBN-10
+   * @returns Promise<Book | null> Work details with the ISBN, or null if not found
+   */
+  async getBookByIsbn(isbn: string): Promise<Book | null> {
+    try {
+      const url = this.buildRequestUrl(`isbn/${isbn}.json`);
+      const edition = await apiClient.get(url);
+
+      const workKey = edition.works?.[0]?.key;
+      if (!workKey) return null;
+
+      const work = await this.getWorkDetails(workKey);
+      if (!work) return null;
+
+      const details = this.transformEditionToDetails(edition);
+      return {
+        ...work,
+        isbn10: details.isbn10,
+        isbn13: details.isbn13,
+      };
+    } catch (error: any) {
+      if (error.status === 404) {
+        return null; // No edition with this ISBN
+      }
+      throw this.handleApiError(error, isbn);
+    }
+  }
+
+  /**
+   * Get edition details for a work
+   *
+   * Works carry no ISBN, page count or publisher; the first edition with
+   * an ISBN supplies them, which is also how an Open Library work is
+   * matched to other sources.
+   *
+   * @param workKey Open Library work key (e.g., "/works/OL123W")
+   * @returns Promise<BookDetails | null> Edition details or null if no edition has an ISBN
+   */
+  async getEditionDetails(workKey: string): Promise<BookDetails | null> {
+    try {
+      const cleanKey = workKey.startsWith("/works/")
+        ? workKey
+        : `/works/${workKey}`;
+      const url = this.buildRequestUrl(
+        `${cleanKey.substring(1)}/editions.json`,
+        { limit: 20 }
+      );
+
+      const response = await apiClient.get<{ entries?: any[] }>(url);
+
+      const edition = response.entries?.find(
+        (entry) => entry.isbn_13?.length || entry.isbn_10?.length
+      );
+      return edition ? this.transformEditionToDetails(edition) : null;
+    } catch (error: any) {
+      if (error.status === 404) {
+        return null; // Work not found
+      }
+      throw this.handleApiError(error, workKey);
+    }
+  }
+
   /**
    * Build search query string based on parameters
    *
@@ -141,11 +214,9 @@ export class OpenLibraryService {
     if (params.authorQuery && params.authorQuery.trim()) {
       const titleQuery = `title:${query}`;
       const authorQuery = `author:${params.authorQuery.trim()}`;
-      return `${titleQuery} ${authorQuery}`;
-    }
-
-    // If searchIn is specified, use Open Library field queries
-    if (params.searchIn && params.searchIn !== "all") {
+      query = `${titleQuery} ${authorQuery}`;
+    } else if (params.searchIn && params.searchIn !== "all") {
+      // If searchIn is specified, use Open Library field queries
       switch (params.searchIn) {
         case "title":
           query = `title:${query}`;
@@ -165,6 +236,11 @@ export class OpenLibraryService {
       query += ` first_publish_year:[${afterYear} TO ${beforeYear}]`;
     }
 
+    // Add subject filter if specified (quoted, as subjects can be phrases)
+    if (params.category && params.category.trim()) {
+      query += ` subject:"${params.category.trim()}"`;
+    }
+
     return query;
   }
 
@@ -546,6 +622,51 @@ export class OpenLibraryService {
     };
   }
 
+  /**
+   * Transform an edition to the detail fields it adds to its work
+   *
+   * @param edition Open Library edition object
+   * @returns Edition details
+   */
+  private transformEditionToDetails(edition: any): BookDetails {
+    const cleanIsbn = (isbns: unknown) =>
+      Array.isArray(isbns) && isbns.length > 0
+        ? String(isbns[0]).replace(/[^0-9X]/g, "") || undefined
+        : undefined;
+
+    // Cover images from the edition's first cover
+    const coverId = Array.isArray(edition.covers)
+      ? edition.covers.find((id: unknown) => typeof id === "number" && id > 0)
+      : undefined;
+
+    // Languages are references, e.g. { key: "/languages/eng" }
+    const languageKey = edition.languages?.[0]?.key;
+
+    return {
+      source: "open-library",
+      publisher: Array.isArray(edition.publishers)
+        ? edition.publishers[0]
+        : undefined,
+      pageCount:
+        typeof edition.number_of_pages === "number" &&
+        edition.number_of_pages > 0
+          ? edition.number_of_pages
+          : undefined,
+      language:
+        typeof languageKey === "string"
+          ? languageKey.replace("/languages/", "")
+          : undefined,
+      isbn10: cleanIsbn(edition.isbn_10),
+      isbn13: cleanIsbn(edition.isbn_13),
+      ...(coverId && {
+        smallThumbnail: `${this.coversUrl}/id/${coverId}-S.jpg`,
+        thumbnail: `${this.coversUrl}/id/${coverId}-M.jpg`,
+        mediumThumbnail: `${this.coversUrl}/id/${coverId}-L.jpg`,
+        largeThumbnail: `${this.coversUrl}/id/${coverId}-L.jpg`,
+      }),
+    };
+  }
+
   /**
    * Fetch author names from author references
    *
@@ -0,0 +1,111 @@
+/**
+ * Search facets
+ *
+ * Filters and orderings the search APIs can't apply themselves, applied to
+ * each page of results in searchService.ts. Category, language and date
+ * order go to the APIs instead (see each buildSearchQuery). The year range
+ * goes to both, since Google Books has no real date filter.
+ *
+ * Why per page:
+ * - The APIs page their own results, so filtering can only thin a page
+ *   and sorting can only reorder it
+ * - Fetching every page to sort globally would multiply API calls
+ *
+ * The filter panel labels the page-only sorts as such (see
+ * SEARCH_SORT_OPTIONS).
+ */
+
+import type { Book, SearchParams, SearchResults } from "../../types/book";
+
+type FacetParams = Pick<
+  SearchParams,
+  | "publishedAfter"
+  | "publishedBefore"
+  | "minRating"
+  | "hasCover"
+  | "hasDescription"
+  | "sortBy"
+>;
+
+function publishedYear(book: Book): number {
+  const year = parseInt(book.publishedDate?.slice(0, 4) ?? "", 10);
+  return Number.isNaN(year) ? 0 : year;
+}
+
+/**
+ * Whether a book passes the year, rating, cover and description facets
+ *
+ * Books missing the field a facet checks never pass it.
+ */
+export function matchesSearchFacets(book: Book, params: FacetParams): boolean {
+  if (params.publishedAfter || params.publishedBefore) {
+    const year = publishedYear(book);
+    if (!year) return false;
+    if (params.publishedAfter && year < params.publishedAfter) return false;
+    if (params.publishedBefore && year > params.publishedBefore) return false;
+  }
+  if (params.minRating && (book.averageRating ?? 0) < params.minRating) {
+    return false;
+  }
+  if (params.hasCover && !(book.thumbnail || book.smallThumbnail)) {
+    return false;
+  }
+  if (params.hasDescription && !book.description?.trim()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Order books by the requested sort, keeping relevance order for ties
+ *
+ * Books missing the sorted field go last.
+ */
+export function sortBooks(
+  books: Book[],
+  sortBy: SearchParams["sortBy"]
+): Book[] {
+  switch (sortBy) {
+    case "rating":
+      return [...books].sort(
+        (a, b) =>
+          (b.averageRating ?? 0) - (a.averageRating ?? 0) ||
+          (b.ratingsCount ?? 0) - (a.ratingsCount ?? 0)
+      );
+    case "date":
+      return [...books].sort((a, b) => publishedYear(b) - publishedYear(a));
+    case "pageCount":
+      return [...books].sort((a, b) => (b.pageCount ?? 0) - (a.pageCount ?? 0));
+    default:
+      return books;
+  }
+}
+
+/**
+ * Apply the facets and sort to a page of results
+ *
+ * Results without facets or a sort are returned as they are.
+ */
+export function applySearchFacets(
+  results: SearchResults,
+  params: FacetParams
+): SearchResults {
+  const hasFacets =
+    params.publishedAfter ||
+    params.publishedBefore ||
+    params.minRating ||
+    params.hasCover ||
+    params.hasDescription;
+  if (!hasFacets && (!params.sortBy || params.sortBy === "relevance")) {
+    return results;
+  }
+
+  const books = sortBooks(
+    hasFacets
+      ? results.books.filter((book) => matchesSearchFacets(book, params))
+      : results.books,
+    params.sortBy
+  );
+
+  return { ...results, books };
+}
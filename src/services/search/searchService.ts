@@ -3,7 +3,10 @@
  *
  * This service combines Google Books and Open Library APIs to provide
  * a comprehensive book search experience with intelligent fallback,
- * deduplication, and result merging capabilities.
+ * deduplication, and result merging capabilities. Book details are
+ * enriched from both sources (see bookEnrichment.ts). Given a local
+ * search, our own books and summaries are searched first (see
+ * localSearch.ts).
  */
 
 import type {
@@ -14,6 +17,11 @@ import type {
 } from "../../types/book";
 import { GoogleBooksService, createGoogleBooksService } from "./googleBooks";
 import { OpenLibraryService, createOpenLibraryService } from "./openLibrary";
+import {
+  enrichBookDetails,
+  type BookEnrichmentSources,
+} from "./bookEnrichment";
+import { applySearchFacets } from "./searchFacets";
 
 // Base interface for book services
 interface BookService {
@@ -22,6 +30,16 @@ interface BookService {
   getRateLimit(): { hasKey: boolean; unlimited: boolean };
 }
 
+/**
+ * Search over our own books and summaries (see convex/bookSearch.ts)
+ *
+ * Resolves one page of matches for the params, honoring startIndex,
+ * maxResults and scope.
+ */
+type LocalBookSearch = (
+  params: SearchParams
+) => Promise<{ books: Book[]; hasMore: boolean }>;
+
 interface UnifiedSearchConfig {
   /** Primary service to use first */
   primaryService: ApiSource;
@@ -29,10 +47,14 @@ interface UnifiedSearchConfig {
   enableFallback: boolean;
   /** Whether to merge results from both services */
   enableMerging: boolean;
+  /** Whether to fill book details from the other service, matched by ISBN */
+  enableEnrichment: boolean;
   /** Maximum number of results to return */
   maxResults?: number;
   /** Timeout in milliseconds for each service call */
   timeout?: number;
+  /** Our own corpus, searched before the external APIs when given */
+  localSearch?: LocalBookSearch;
 }
 
 interface SearchStrategy {
@@ -58,6 +80,7 @@ export class UnifiedSearchService implements BookService {
       primaryService: "google-books",
       enableFallback: true,
       enableMerging: false,
+      enableEnrichment: true,
       maxResults: 40,
       timeout: 10000,
       ...config,
@@ -69,8 +92,21 @@ export class UnifiedSearchService implements BookService {
 
   /**
    * Main search method - routes to appropriate strategy based on config
+   *
+   * Facets the strategies can't apply (rating, cover, description, most
+   * sorts) are applied to the page they return (see searchFacets.ts).
    */
   async searchBooks(params: SearchParams): Promise<SearchResults> {
+    const results = await this.searchWithFallback(params);
+    return applySearchFacets(results, params);
+  }
+
+  /**
+   * Run the selected strategy, then the fallback strategy if it fails
+   */
+  private async searchWithFallback(
+    params: SearchParams
+  ): Promise<SearchResults> {
     const strategy = this.selectStrategy(params);
 
     try {
@@ -112,10 +148,38 @@ export class UnifiedSearchService implements BookService {
     }
   }
 
+  /**
+   * Get details for a specific book, enriched from the other source
+   *
+   * @param id Composite book ID (or original ID with an explicit source)
+   * @param source Source to fetch from, overriding the ID's prefix
+   * @param options.findCachedByIsbn Cached records to try before the
+   *   other source's API (see enrichBookDetails)
+   */
+  async getBookDetails(
+    id: string,
+    source?: ApiSource,
+    options: Pick<BookEnrichmentSources, "findCachedByIsbn"> = {}
+  ): Promise<Book | null> {
+    const book = await this.fetchBookDetails(id, source);
+    if (!book || !this.config.enableEnrichment) {
+      return book;
+    }
+
+    return enrichBookDetails(book, {
+      googleBooks: this.googleBooks,
+      openLibrary: this.openLibrary,
+      findCachedByIsbn: options.findCachedByIsbn,
+    });
+  }
+
   /**
    * Get details for a specific book from its source
    */
-  async getBookDetails(id: string, source?: ApiSource): Promise<Book | null> {
+  private async fetchBookDetails(
+    id: string,
+    source?: ApiSource
+  ): Promise<Book | null> {
     // Extract source and original ID from the composite ID
     const { actualSource, originalId } = this.parseBookId(id, source);
 
@@ -185,6 +249,23 @@ export class UnifiedSearchService implements BookService {
    * Select the best strategy based on search parameters and service availability
    */
   private selectStrategy(params: SearchParams): SearchStrategy {
+    // The user's library only lives in our own corpus
+    if (params.scope === "library") {
+      return this.createLocalStrategy();
+    }
+
+    // Answer from our own books first when we can search them
+    if (this.config.localSearch) {
+      return this.createLocalFirstStrategy(this.selectExternalStrategy());
+    }
+
+    return this.selectExternalStrategy();
+  }
+
+  /**
+   * Select the best external API strategy based on service availability
+   */
+  private selectExternalStrategy(): SearchStrategy {
     // Check service availability
     const googleAvailable = this.googleBooks.isConfigured();
     const openLibraryAvailable = this.openLibrary.isConfigured();
@@ -219,6 +300,11 @@ export class UnifiedSearchService implements BookService {
    * Get fallback strategy when primary fails
    */
   private getFallbackStrategy(params: SearchParams): SearchStrategy | null {
+    // The APIs can't tell what is in the user's library
+    if (params.scope === "library") {
+      return null;
+    }
+
     const googleAvailable = this.googleBooks.isConfigured();
     const openLibraryAvailable = this.openLibrary.isConfigured();
 
@@ -258,6 +344,109 @@ export class UnifiedSearchService implements BookService {
     };
   }
 
+  private createLocalStrategy(): SearchStrategy {
+    return {
+      name: "local-only",
+      description: "Search our own books and summaries only",
+      execute: async (params: SearchParams) => {
+        const localSearch = this.config.localSearch;
+        if (!localSearch) {
+          throw new Error("Library search is not configured");
+        }
+
+        const { books, hasMore } = await localSearch(params);
+        return this.createLocalResults(params, books, hasMore);
+      },
+    };
+  }
+
+  /**
+   * Page through one combined list: our own matches first, then the
+   * external strategy's results
+   *
+   * Our matches are read from the top to the end of the requested page, so
+   * we know how many come before it; the external strategy is then asked
+   * for its results from startIndex minus that count. Pages neither skip
+   * nor repeat results. External copies of our own books are dropped,
+   * leaving that page a little short rather than shifting later pages.
+   */
+  private createLocalFirstStrategy(external: SearchStrategy): SearchStrategy {
+    return {
+      name: "local-first",
+      description: `Search our own books first, then ${external.name}`,
+      execute: async (params: SearchParams) => {
+        const maxResults = Math.min(
+          params.maxResults || this.config.maxResults!,
+          this.config.maxResults!
+        );
+        const startIndex = params.startIndex || 0;
+
+        let localBooks: Book[] = [];
+        try {
+          const local = await this.config.localSearch!({
+            ...params,
+            startIndex: 0,
+            maxResults: startIndex + maxResults,
+          });
+          localBooks = local.books;
+        } catch (error) {
+          // Our own corpus only saves API calls; the APIs still answer
+          console.error("Local book search failed:", error);
+        }
+
+        const localPage = localBooks.slice(startIndex, startIndex + maxResults);
+        if (localPage.length === maxResults) {
+          // External results may still follow our matches
+          return this.createLocalResults(
+            { ...params, maxResults },
+            localPage,
+            true
+          );
+        }
+
+        // Our matches end on or before this page, so localBooks has them all
+        let result: SearchResults;
+        try {
+          result = await external.execute({
+            ...params,
+            startIndex: Math.max(0, startIndex - localBooks.length),
+            maxResults: maxResults - localPage.length,
+          });
+        } catch (error) {
+          if (localPage.length === 0) throw error;
+          // A short page of our own matches beats no page at all
+          console.error(`${external.name} search failed:`, error);
+          return this.createLocalResults(
+            { ...params, maxResults },
+            localPage,
+            false
+          );
+        }
+        if (localBooks.length === 0) {
+          return result;
+        }
+
+        const seen = new Set(
+          localBooks.map((book) => this.createDeduplicationKey(book))
+        );
+        const books = [
+          ...localPage,
+          ...result.books.filter(
+            (book) => !seen.has(this.createDeduplicationKey(book))
+          ),
+        ];
+
+        return {
+          ...result,
+          books,
+          totalItems: localBooks.length + result.totalItems,
+          startIndex,
+          itemsPerPage: maxResults,
+        };
+      },
+    };
+  }
+
   private createMergedStrategy(): SearchStrategy {
     return {
       name: "merged-results",
@@ -422,6 +611,28 @@ export class UnifiedSearchService implements BookService {
     return { actualSource: this.config.primaryService, originalId: id };
   }
 
+  /**
+   * Wrap a page of our own matches as SearchResults
+   */
+  private createLocalResults(
+    params: SearchParams,
+    books: Book[],
+    hasMore: boolean
+  ): SearchResults {
+    const startIndex = params.startIndex || 0;
+
+    return {
+      books,
+      // Exact counts would mean reading every match; this keeps paging going
+      totalItems: startIndex + books.length + (hasMore ? 1 : 0),
+      startIndex,
+      itemsPerPage: params.maxResults || books.length,
+      query: params.query,
+      source: "local",
+      hasMore,
+    };
+  }
+
   /**
    * Limit the number of results in a SearchResults
    */
@@ -481,6 +692,10 @@ export class UnifiedSearchService implements BookService {
   getAvailableStrategies(): SearchStrategy[] {
     const strategies: SearchStrategy[] = [];
 
+    if (this.config.localSearch) {
+      strategies.push(this.createLocalStrategy());
+    }
+
     if (this.googleBooks.isConfigured()) {
       strategies.push(this.createGoogleBooksStrategy());
     }
@@ -505,4 +720,4 @@ export function createUnifiedSearchService(
 }
 
 // Export types
-export type { UnifiedSearchConfig, SearchStrategy };
+export type { UnifiedSearchConfig, SearchStrategy, LocalBookSearch };
@@ -0,0 +1,188 @@
+import { Book } from "@/types/book";
+import {
+  FLASHCARDS_PER_SET,
+  QUIZ_QUESTIONS_PER_SET,
+  QuizQuestionResponseSchema,
+  StudyFlashcardResponseSchema,
+  StudySetResponseSchema,
+  type QuizQuestion,
+  type StudyFlashcard,
+  type StudySetResult,
+  type StudySourceSection,
+} from "@/types/study";
+import {
+  resolveSummaryLanguage,
+  SummaryGenerationOptions,
+  type StructuredSummary,
+  type SummaryType,
+} from "@/types/summary";
+import { getSummaryProvider } from "../summary/providers";
+import { structureSummary } from "../summary/structureSummary";
+import {
+  buildFakeStudySet,
+  buildStudySystemPrompt,
+  buildStudyUserPrompt,
+} from "./studyPrompts";
+
+/**
+ * Study set generation
+ *
+ * Flashcards and quiz questions are drawn from one stored summary, one
+ * section at a time, so each card can link back to where its answer is
+ * explained.
+ *
+ * Why a single JSON completion:
+ * - Cards and questions are stored and reviewed individually, so they
+ *   need to arrive as data rather than markdown
+ * - Nothing is shown until the set is complete, so streaming buys nothing
+ */
+
+/** Room for FLASHCARDS_PER_SET cards and QUIZ_QUESTIONS_PER_SET questions */
+export const STUDY_MAX_TOKENS = 2500;
+
+/** Heading for the text before the first section */
+const OVERVIEW_HEADING = "Overview";
+
+/**
+ * A stored summary to study
+ */
+export interface StudySummarySource {
+  summaryType: SummaryType;
+  content: string;
+  structured?: StructuredSummary;
+  language?: string;
+}
+
+/**
+ * The summary's overview and non-empty sections, in reading order
+ */
+export function getStudySections(
+  summary: StudySummarySource
+): StudySourceSection[] {
+  const structured = summary.structured ?? structureSummary(summary.content);
+
+  return [
+    ...(structured.overview
+      ? [{ heading: OVERVIEW_HEADING, content: structured.overview }]
+      : []),
+    ...structured.sections
+      .filter((section) => section.content.trim())
+      .map((section) => ({
+        id: section.id,
+        heading: section.heading,
+        content: section.content.trim(),
+      })),
+  ];
+}
+
+/**
+ * Parse a model's study set JSON into flashcards and quiz questions
+ *
+ * Tolerates markdown code fences and prose around the JSON object.
+ * Malformed cards and questions are dropped rather than failing the set,
+ * section headings are resolved to section ids, and counts are capped.
+ *
+ * @throws Error when the response holds no JSON object of the right shape
+ */
+export function parseStudySetResponse(
+  content: string,
+  sections: StudySourceSection[]
+): { flashcards: StudyFlashcard[]; quiz: QuizQuestion[] } {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("Study set response is not JSON");
+  }
+
+  const parsed = StudySetResponseSchema.safeParse(
+    JSON.parse(content.slice(start, end + 1))
+  );
+  if (!parsed.success) {
+    throw new Error("Study set response is missing flashcards or quiz");
+  }
+
+  const sectionIds = new Map(
+    sections
+      .filter((section) => section.id)
+      .map((section) => [section.heading.toLowerCase(), section.id!])
+  );
+  const sectionId = (heading?: string) =>
+    heading ? sectionIds.get(heading.trim().toLowerCase()) : undefined;
+
+  const flashcards = parsed.data.flashcards
+    .map((item) => StudyFlashcardResponseSchema.safeParse(item))
+    .filter((result) => result.success)
+    .slice(0, FLASHCARDS_PER_SET)
+    .map(({ data }) => ({
+      front: data.front,
+      back: data.back,
+      sectionId: sectionId(data.section),
+    }));
+
+  const quiz = parsed.data.quiz
+    .map((item) => QuizQuestionResponseSchema.safeParse(item))
+    .filter((result) => result.success)
+    .slice(0, QUIZ_QUESTIONS_PER_SET)
+    .map(({ data }) => ({
+      question: data.question,
+      options: data.options,
+      correctIndex: data.answer,
+      explanation: data.explanation?.trim() || undefined,
+      sectionId: sectionId(data.section),
+    }));
+
+  return { flashcards, quiz };
+}
+
+/**
+ * Generate flashcards and a multiple-choice quiz from a summary
+ *
+ * Cards and questions are written in the summary's language unless
+ * another is requested.
+ *
+ * Errors:
+ *  - A summary without any sections, a response that isn't a study set,
+ *    or one without a single usable card, are thrown
+ *  - Provider failures are thrown as-is. No fallback is attempted, since
+ *    mock content would not match the summary
+ */
+export async function generateStudySet(
+  book: Book,
+  summary: StudySummarySource,
+  options: SummaryGenerationOptions = {}
+): Promise<StudySetResult> {
+  const sections = getStudySections(summary);
+  if (sections.length === 0) {
+    throw new Error("This summary has nothing to study yet");
+  }
+
+  const provider = getSummaryProvider(options.provider);
+  const model = provider.resolveModel(options.model);
+  const { content, usage } = await provider.complete(
+    {
+      system: buildStudySystemPrompt(
+        FLASHCARDS_PER_SET,
+        QUIZ_QUESTIONS_PER_SET,
+        resolveSummaryLanguage(options.language ?? summary.language, book)
+      ),
+      user: buildStudyUserPrompt(book, sections),
+      model,
+      maxTokens: options.maxTokens ?? STUDY_MAX_TOKENS,
+      fakeContent: () =>
+        buildFakeStudySet(sections, FLASHCARDS_PER_SET, QUIZ_QUESTIONS_PER_SET),
+    },
+    options
+  );
+  const { flashcards, quiz } = parseStudySetResponse(content, sections);
+  if (flashcards.length === 0) {
+    throw new Error(`No flashcards generated by ${provider.id}`);
+  }
+
+  return {
+    flashcards,
+    quiz,
+    aiModel: model,
+    provider: provider.id,
+    usage,
+  };
+}
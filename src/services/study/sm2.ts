@@ -0,0 +1,73 @@
+import type { FlashcardSchedule, ReviewGrade } from "@/types/study";
+
+/**
+ * SM-2 spaced repetition scheduling
+ *
+ * The SuperMemo 2 algorithm: each successful review multiplies the gap
+ * before the next one by the card's ease factor, which grows with easy
+ * recalls and shrinks with hard ones. A forgotten card starts over.
+ *
+ * Why SM-2:
+ * - Four numbers per card, so schedules live on the flashcard rows
+ * - Well understood by readers who use other flashcard apps
+ */
+
+/** Ease factor of a new card */
+export const INITIAL_EASE_FACTOR = 2.5;
+
+/** Lowest ease factor; below this cards come back too often to be useful */
+export const MIN_EASE_FACTOR = 1.3;
+
+/** Lowest grade that counts as recalled */
+const PASSING_GRADE = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Schedule of a card that has never been reviewed: due immediately
+ */
+export function initialSchedule(now: number): FlashcardSchedule {
+  return {
+    easeFactor: INITIAL_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    dueAt: now,
+  };
+}
+
+/**
+ * Schedule after reviewing a card
+ *
+ * Recalled cards are next due after 1 day, then 6 days, then the previous
+ * interval times the ease factor. Forgotten cards are due again in 1 day.
+ * The ease factor is adjusted by every review, recalled or not, and as in
+ * the original algorithm the adjusted factor applies from the next review.
+ *
+ * @param schedule The card's schedule before the review
+ * @param grade How well the card was recalled
+ * @param now Review time (ms since epoch)
+ */
+export function scheduleReview(
+  schedule: FlashcardSchedule,
+  grade: ReviewGrade,
+  now: number
+): FlashcardSchedule {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    schedule.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  if (grade < PASSING_GRADE) {
+    return { easeFactor, interval: 1, repetitions: 0, dueAt: now + DAY_MS };
+  }
+
+  const repetitions = schedule.repetitions + 1;
+  const interval =
+    repetitions === 1
+      ? 1
+      : repetitions === 2
+        ? 6
+        : Math.round(schedule.interval * schedule.easeFactor);
+
+  return { easeFactor, interval, repetitions, dueAt: now + interval * DAY_MS };
+}
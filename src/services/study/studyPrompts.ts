@@ -0,0 +1,94 @@
+import type { Book } from "@/types/book";
+import { QUIZ_OPTION_COUNT, type StudySourceSection } from "@/types/study";
+import { DEFAULT_SUMMARY_LANGUAGE, getLanguageName } from "@/types/summary";
+
+/**
+ * Study set prompts
+ *
+ * The answer is JSON rather than markdown so cards and questions can be
+ * stored individually; each refers back to its section by heading.
+ */
+
+/**
+ * Build the system prompt for drawing flashcards and a quiz from a summary
+ */
+export function buildStudySystemPrompt(
+  flashcardCount: number,
+  questionCount: number,
+  language: string = DEFAULT_SUMMARY_LANGUAGE
+): string {
+  const languagePrompt =
+    language === DEFAULT_SUMMARY_LANGUAGE
+      ? ""
+      : `\n- Write every card, question and option in ${getLanguageName(language)}`;
+
+  return `You are an experienced teacher turning a book summary into study material. Your task is to write ${flashcardCount} flashcards and ${questionCount} multiple-choice quiz questions that help a reader remember the book's key ideas.
+
+Key Guidelines:
+- Draw only on the summary sections you are given
+- Flashcards: a short question or prompt on the front, a one or two sentence answer on the back
+- Quiz questions: exactly ${QUIZ_OPTION_COUNT} options, one clearly correct, the others plausible
+- Test understanding of ideas, not trivia such as page numbers or exact wording
+- Spread cards and questions across the sections
+- Set "section" to the heading of the section a card or question comes from${languagePrompt}
+
+Respond with JSON only, no markdown fences, in this shape:
+{"flashcards": [{"front": "...", "back": "...", "section": "..."}], "quiz": [{"question": "...", "options": ["...", "...", "...", "..."], "answer": 0, "explanation": "...", "section": "..."}]}
+where "answer" is the index of the correct option.`;
+}
+
+/**
+ * Build the user prompt carrying the summary sections to study
+ */
+export function buildStudyUserPrompt(
+  book: Pick<Book, "title" | "authors">,
+  sections: StudySourceSection[]
+): string {
+  const blocks = sections.map(
+    (section) => `## ${section.heading}\n${section.content}`
+  );
+
+  return `Please write study material for the following summary of **${book.title}** by ${book.authors.join(", ")}:
+
+${blocks.join("\n\n")}`;
+}
+
+/**
+ * Offline study set for the fake provider, as JSON: one flashcard and one
+ * "which section" question per section
+ */
+export function buildFakeStudySet(
+  sections: StudySourceSection[],
+  flashcardCount: number,
+  questionCount: number
+): string {
+  const opening = (text: string) =>
+    (text.match(/^[^.!?\n]+[.!?]?/)?.[0] ?? text).trim();
+  const headings = sections.map((section) => section.heading);
+
+  const flashcards = sections.slice(0, flashcardCount).map((section) => ({
+    front: `What does "${section.heading}" cover?`,
+    back: opening(section.content),
+    section: section.heading,
+  }));
+  const quiz = sections.slice(0, questionCount).map((section, index) => {
+    const options = [
+      ...headings.filter((heading) => heading !== section.heading),
+      "None of the above",
+      "All of the above",
+      "Not covered",
+    ].slice(0, QUIZ_OPTION_COUNT - 1);
+    const answer = index % QUIZ_OPTION_COUNT;
+    options.splice(answer, 0, section.heading);
+
+    return {
+      question: `Which section says: "${opening(section.content)}"?`,
+      options,
+      answer,
+      explanation: `This is how "${section.heading}" opens.`,
+      section: section.heading,
+    };
+  });
+
+  return JSON.stringify({ flashcards, quiz });
+}
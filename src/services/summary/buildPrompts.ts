@@ -1,14 +1,30 @@
 import {
-  SUMMARY_TYPE_DESCRIPTIONS,
+  DEFAULT_SUMMARY_LANGUAGE,
+  getLanguageName,
+  isBuiltInSummaryType,
+  SourceChunk,
   SummaryGenerationParams,
+  SummaryTemplate,
   SummaryType,
 } from "@/types/summary";
+import { getPromptVariant } from "./promptVariants";
+import { resolveSummaryTemplate } from "./templates";
 
 /**
  * Build system prompt based on summary type
+ *
+ * The type-specific part comes from the summary template: built-in types
+ * use their seeded template, custom types must supply theirs. English
+ * prompts carry no language instruction, so they match every prompt
+ * version recorded before summaries could be written in other languages.
  */
-export function buildSystemPrompt(summaryType: SummaryType): string {
-  const typeInfo = SUMMARY_TYPE_DESCRIPTIONS[summaryType];
+export function buildSystemPrompt(
+  summaryType: SummaryType,
+  template?: SummaryTemplate,
+  language: string = DEFAULT_SUMMARY_LANGUAGE
+): string {
+  const { title, readTime, instructions, headings, targetWords } =
+    resolveSummaryTemplate(summaryType, template);
 
   const basePrompt = `You are an expert book summarizer and literary analyst. Your task is to create engaging, well-structured book summaries that help readers understand and appreciate literature.
 
@@ -21,46 +37,21 @@ Key Guidelines:
 - Write for an educated general audience
 - Always maintain accuracy to the source material`;
 
-  const typeSpecificPrompts = {
-    concise: `
-Create a CONCISE SUMMARY (${typeInfo.readTime}):
-- Provide a brief overview of the book's main premise and themes
-- Highlight 3-4 key points or takeaways
-- Keep it engaging but succinct
-- Structure: Brief intro, main points, conclusion
-- Target length: 200-400 words`,
-
-    detailed: `
-Create a DETAILED BREAKDOWN (${typeInfo.readTime}):  
-- Provide chapter-by-chapter or section-by-section analysis
-- Explain the book's structure and progression
-- Include major themes, concepts, and their development
-- Discuss key characters, events, or ideas as relevant
-- Structure: Introduction, main sections/chapters, synthesis
-- Target length: 800-1200 words`,
-
-    analysis: `
-Create a CRITICAL ANALYSIS (${typeInfo.readTime}):
-- Analyze the book's themes, literary techniques, and significance
-- Discuss the author's style, approach, and effectiveness  
-- Place the work in its broader context (historical, literary, cultural)
-- Evaluate strengths and potential limitations
-- Structure: Introduction, thematic analysis, literary assessment, conclusion
-- Target length: 600-900 words`,
-
-    practical: `
-Create PRACTICAL TAKEAWAYS (${typeInfo.readTime}):
-- Focus on actionable insights and lessons readers can apply
-- Highlight practical strategies, principles, or frameworks
-- Explain how to implement key concepts in real life
-- Include specific examples and applications
-- Structure: Key principles, implementation strategies, real-world applications
-- Target length: 400-700 words`,
-  };
+  let typePrompt = `Create a ${title.toUpperCase()} (${readTime}):
+${instructions.trim()}`;
+  if (headings.length > 0) {
+    typePrompt += `\n- Structure: ${headings.join(", ")}`;
+  }
+  typePrompt += `\n- Target length: ${targetWords.min}-${targetWords.max} words`;
+
+  const languagePrompt =
+    language === DEFAULT_SUMMARY_LANGUAGE
+      ? ""
+      : `\n\nWrite the entire summary, including headings, in ${getLanguageName(language)}.`;
 
   return `${basePrompt}
 
-${typeSpecificPrompts[summaryType]}
+${typePrompt}${languagePrompt}
 
 Format your response using markdown with appropriate headings and structure.`;
 }
@@ -70,8 +61,11 @@ Format your response using markdown with appropriate headings and structure.`;
  */
 export function buildUserPrompt(params: SummaryGenerationParams): string {
   const { book, summaryType, additionalContext } = params;
+  const typeLabel = isBuiltInSummaryType(summaryType)
+    ? summaryType
+    : `"${resolveSummaryTemplate(summaryType, params.template).title}"`;
 
-  let prompt = `Please create a ${summaryType} summary for the following book:
+  let prompt = `Please create a ${typeLabel} summary for the following book:
 
 **Title:** ${book.title}
 **Authors:** ${book.authors.join(", ")}`;
@@ -88,7 +82,16 @@ export function buildUserPrompt(params: SummaryGenerationParams): string {
     prompt += `\n**Pages:** ${book.pageCount}`;
   }
 
-  if (book.description) {
+  if (params.sourceSections?.length) {
+    prompt += `\n\n**Source Notes (from the full text, in reading order):**`;
+    for (const section of params.sourceSections) {
+      prompt += `\n\n### ${section.title}\n${section.notes}`;
+    }
+    prompt +=
+      summaryType === "detailed"
+        ? `\n\n*Base the summary only on these notes. Write one section per chapter above, in the same order, using the chapter titles as headings.*`
+        : `\n\n*Base the summary only on these notes rather than general knowledge of the work.*`;
+  } else if (book.description) {
     prompt += `\n\n**Book Description:**\n${book.description}`;
   } else {
     prompt += `\n\n*Note: No book description available. Please generate the summary based on the title, authors, and any general knowledge of this work.*`;
@@ -100,3 +103,101 @@ export function buildUserPrompt(params: SummaryGenerationParams): string {
 
   return prompt;
 }
+
+/**
+ * Build the system prompt for the map phase of full-text summarization
+ */
+export function buildPassageSystemPrompt(
+  summaryType: SummaryType,
+  template?: SummaryTemplate
+): string {
+  const typeInfo = resolveSummaryTemplate(summaryType, template);
+
+  return `You are an expert reader taking notes on one passage of a longer book. Your notes will later be combined with notes on the other passages to write a ${typeInfo.title.toLowerCase()}.
+
+Key Guidelines:
+- Record what actually happens or is argued in this passage only
+- Keep names, key events, claims and examples that the final summary may need
+- Note anything especially relevant to: ${typeInfo.description.toLowerCase()}
+- Do not speculate about the rest of the book
+- Write compact markdown bullet points, at most 200 words`;
+}
+
+/**
+ * Build the user prompt for one map-phase passage
+ */
+export function buildPassageUserPrompt(
+  params: SummaryGenerationParams & { passage: SourceChunk }
+): string {
+  const { book, passage } = params;
+  const part =
+    passage.partCount > 1
+      ? ` (part ${passage.part} of ${passage.partCount})`
+      : "";
+
+  return `**Book:** ${book.title} by ${book.authors.join(", ")}
+**Chapter:** ${passage.chapterTitle}${part}
+
+**Passage:**
+${passage.text}`;
+}
+
+/**
+ * Build the system prompt for translating an existing summary
+ */
+export function buildTranslationSystemPrompt(
+  fromLanguage: string,
+  toLanguage: string
+): string {
+  return `You are an expert literary translator. Translate the book summary you are given from ${getLanguageName(fromLanguage)} into ${getLanguageName(toLanguage)}.
+
+Key Guidelines:
+- Translate everything, including headings, list items and quotes
+- Keep the markdown structure exactly: the same headings, lists, blockquotes and emphasis, in the same order
+- Keep names of people and places, and the book's title if it has no established translation
+- Do not add, remove or summarize content
+- Respond with the translated markdown only`;
+}
+
+/**
+ * Build the system/user prompt pair for a generation request
+ *
+ * Requests carrying a passage are map-phase note taking, requests
+ * carrying a translation translate an existing summary; everything else
+ * is a regular (optionally source-grounded) summary, adjusted by the
+ * request's prompt variant.
+ */
+export function buildPromptMessages(params: SummaryGenerationParams): {
+  system: string;
+  user: string;
+} {
+  if (params.translation) {
+    return {
+      system: buildTranslationSystemPrompt(
+        params.translation.fromLanguage,
+        params.language ?? DEFAULT_SUMMARY_LANGUAGE
+      ),
+      user: params.translation.content,
+    };
+  }
+
+  if (params.passage) {
+    return {
+      system: buildPassageSystemPrompt(params.summaryType, params.template),
+      user: buildPassageUserPrompt({ ...params, passage: params.passage }),
+    };
+  }
+
+  const system = buildSystemPrompt(
+    params.summaryType,
+    params.template,
+    params.language
+  );
+  const user = buildUserPrompt(params);
+  const variant = getPromptVariant(params.summaryType, params.promptVersion);
+
+  return {
+    system: variant?.system ? variant.system(system, params) : system,
+    user: variant?.user ? variant.user(user, params) : user,
+  };
+}
@@ -0,0 +1,96 @@
+import { Book } from "@/types/book";
+import {
+  SUMMARY_FALLBACK_POLICIES,
+  SummaryFallbackPolicy,
+  SummaryGenerationOptions,
+  SummaryGenerationResult,
+  SummaryType,
+} from "@/types/summary";
+import { generateMockSummary } from "./mockSummary";
+import { getSummaryProvider } from "./providers";
+import { withQualityCheck } from "./qualityCheck";
+
+/**
+ * Resolve the fallback policy for a request
+ *
+ * Order: explicit option, SUMMARY_FALLBACK_POLICY env, then
+ * "mock-in-development" (which fails outside development).
+ */
+export function getFallbackPolicy(
+  options: SummaryGenerationOptions = {}
+): SummaryFallbackPolicy {
+  if (options.fallbackPolicy) return options.fallbackPolicy;
+
+  const configured = process.env.SUMMARY_FALLBACK_POLICY;
+  return (SUMMARY_FALLBACK_POLICIES as readonly string[]).includes(
+    configured ?? ""
+  )
+    ? (configured as SummaryFallbackPolicy)
+    : "mock-in-development";
+}
+
+/**
+ * Apply the fallback policy after the primary model failed
+ *
+ * Mock summaries are quality-checked here; alternate-model results get
+ * the check (and structuring) in the provider's generateSummary, as the
+ * primary result they replace would have.
+ *
+ * @returns A replacement result tagged with its generationMode
+ * @throws The original error when the policy does not allow a fallback,
+ *   or when the alternate model fails as well
+ */
+export async function applyFallbackPolicy(
+  error: unknown,
+  book: Book,
+  summaryType: SummaryType,
+  options: SummaryGenerationOptions = {}
+): Promise<SummaryGenerationResult> {
+  const policy = getFallbackPolicy(options);
+
+  switch (policy) {
+    case "mock-in-development":
+      if (process.env.NODE_ENV === "development") {
+        const params = getSummaryProvider(options.provider).buildParams(
+          book,
+          summaryType,
+          options
+        );
+        const result = await generateMockSummary(book, summaryType);
+        return withQualityCheck(result, params);
+      }
+      throw error;
+
+    case "alternate-model": {
+      const provider = getSummaryProvider(options.provider);
+      const fallbackModel =
+        options.fallbackModel || process.env.SUMMARY_FALLBACK_MODEL;
+
+      // Nothing to retry with, or it is the model that just failed
+      if (
+        !fallbackModel ||
+        fallbackModel === provider.resolveModel(options.model)
+      ) {
+        throw error;
+      }
+
+      try {
+        const result = await provider.generateSummary(book, summaryType, {
+          ...options,
+          model: fallbackModel,
+        });
+        return { ...result, generationMode: "fallback" };
+      } catch (fallbackError) {
+        console.error("Fallback model also failed:", {
+          fallbackModel,
+          fallbackError,
+        });
+        throw error;
+      }
+    }
+
+    case "fail":
+    default:
+      throw error;
+  }
+}
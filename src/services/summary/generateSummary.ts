@@ -3,77 +3,60 @@
 import { Book } from "@/types/book";
 import {
   SummaryGenerationOptions,
-  SummaryGenerationParams,
   SummaryGenerationResult,
   SummaryType,
 } from "@/types/summary";
-import { callOpenAI } from "./callOpenAi";
-import { defaultModel, promptVersion, validateInputs } from "./helpers";
-import { generateMockSummary } from "./mockSummary";
+import { applyFallbackPolicy } from "./fallbackPolicy";
+import { validateInputs } from "./helpers";
+import { withPromptVariant } from "./promptVariants";
+import { getSummaryProvider } from "./providers";
+import { reserveSummaryGeneration } from "@/lib/summaryQuota";
 
 /**
- * Generate a book summary using OpenAI based on the requested summary type.
- *
- * Get default max tokens based on summary type
+ * Generate a book summary using the selected LLM provider based on the
+ * requested summary type.
  *
  * Inputs:
  *  - book: Book metadata (title, authors, description, etc.)
  *  - summaryType: The desired summary style/length (e.g., TL;DR, chapter-wise)
- *  - options: Optional generation overrides (model, maxTokens, additionalContext)
+ *  - options: Optional generation overrides (provider, model, maxTokens,
+ *    additionalContext, fallbackPolicy, fallbackModel, promptVersion,
+ *    language)
+ *  - anonymousId: Quota key for signed-out callers (see lib/summaryQuota)
  *
  * Outputs:
  *  - SummaryGenerationResult containing the generated content, timing, model info, and metadata
+ *  - generationMode tells callers whether the content came from the primary
+ *    model, an alternate model, or the mock generator
  *
  * Errors:
- *  - On failure, logs detailed error context and falls back to a mock summary
+ *  - Invalid inputs throw immediately
+ *  - An exhausted quota throws "Quota exceeded: ..." before any provider
+ *    call; otherwise the provider-reported cost is charged to the caller
+ *  - Provider failures are logged and handed to the fallback policy, which
+ *    either returns a tagged replacement or re-throws the original error
  */
 export async function generateBookSummary(
   book: Book,
   summaryType: SummaryType,
-  options: SummaryGenerationOptions = {}
+  options: SummaryGenerationOptions = {},
+  anonymousId?: string
 ): Promise<SummaryGenerationResult> {
   const startTime = performance.now();
 
-  try {
-    // Validate inputs
-    validateInputs(book, summaryType);
-
-    // Prepare generation parameters
-    const params: SummaryGenerationParams = {
-      book: {
-        title: book.title,
-        authors: book.authors,
-        description: book.description,
-        categories: book.categories,
-        publishedDate: book.publishedDate,
-        pageCount: book.pageCount,
-      },
-      summaryType,
-      additionalContext: options.additionalContext,
-      maxTokens: options.maxTokens,
-      model: options.model || defaultModel,
-    };
-
-    // Generate the summary
-    const result = await callOpenAI(params, options);
-    const generationTime = Math.round(performance.now() - startTime);
+  // Invalid input is a caller error, never a reason to fall back
+  validateInputs(book, summaryType, options.template);
+  options = withPromptVariant(summaryType, options);
+  const reservation = await reserveSummaryGeneration(anonymousId);
 
-    return {
-      content: result.content,
-      generationTime,
-      aiModel: params.model || defaultModel,
-      promptVersion: promptVersion,
-      usage: result.usage,
-      metadata: {
-        bookDataSource: book.source,
-        hadBookDescription: Boolean(book.description),
-        notes: result.notes,
-      },
-    };
+  let result: SummaryGenerationResult;
+  try {
+    // Generate the summary with the requested (or default) provider
+    const provider = getSummaryProvider(options.provider);
+    result = await provider.generateSummary(book, summaryType, options);
   } catch (error) {
     const generationTime = Math.round(performance.now() - startTime);
 
-    // Re-throw with enhanced error information
     console.error(`Summary generation error after ${generationTime}ms: `, {
       error,
       book,
@@ -81,9 +64,10 @@ export async function generateBookSummary(
       options,
     });
 
-    const mockSummary = await generateMockSummary(book, summaryType);
-    return {
-      ...mockSummary,
-    };
+    result = await applyFallbackPolicy(error, book, summaryType, options);
   }
+
+  // Alternate-model fallbacks cost tokens too (mock results report none)
+  await reservation.recordCost(result.usage?.estimatedCost);
+  return result;
 }
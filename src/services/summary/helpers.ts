@@ -1,46 +1,86 @@
 import { Book } from "@/types/book";
-import { SummaryType } from "@/types/summary";
+import {
+  SummarySourceDescriptor,
+  SummaryTemplate,
+  SummaryType,
+} from "@/types/summary";
+import { getTemplateMaxTokens, resolveSummaryTemplate } from "./templates";
 
 export const defaultModel = "gpt-4o-mini";
-export const promptVersion = "v1.0";
 export const defaultTimeout = 60000; // 60 seconds
 
-
+/** Max tokens for custom types whose template is not at hand */
+const CUSTOM_DEFAULT_MAX_TOKENS = 1200;
 
 /**
  * Get default max tokens based on summary type
+ * Derived from the template's target length (e.g. concise: 400 words, 600
+ * tokens); custom types without their template get a middling budget.
  */
-export function getDefaultMaxTokens(summaryType: SummaryType): number {
-  const tokenLimits = {
-    concise: 600, // ~400 words
-    detailed: 1800, // ~1200 words
-    analysis: 1350, // ~900 words
-    practical: 1050, // ~700 words
-  };
-
-  return tokenLimits[summaryType];
+export function getDefaultMaxTokens(
+  summaryType: SummaryType,
+  template?: SummaryTemplate
+): number {
+  try {
+    return getTemplateMaxTokens(resolveSummaryTemplate(summaryType, template));
+  } catch {
+    return CUSTOM_DEFAULT_MAX_TOKENS;
+  }
 }
 
 /**
- * Estimate cost based on model and token usage
+ * Estimate streaming progress (0-99) from the content received so far
+ * Uses ~4 characters per token against the type's max token budget;
+ * 100 is only reported once the stream has finished.
+ */
+export function estimateStreamProgress(
+  content: string,
+  summaryType: SummaryType,
+  template?: SummaryTemplate
+): number {
+  const receivedTokens = content.length / 4;
+  const progress =
+    (receivedTokens / getDefaultMaxTokens(summaryType, template)) * 100;
+
+  return Math.min(99, Math.max(0, Math.round(progress)));
+}
+
+/**
+ * Token pricing in USD per 1K tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export type PricingTable = Record<string, ModelPricing>;
+
+/**
+ * OpenAI rates per 1K tokens
  * Note: These are approximate rates as of 2024 and may change
  */
+export const OPENAI_PRICING: PricingTable = {
+  "gpt-4o": { input: 0.0025, output: 0.01 },
+  "gpt-4o-mini": { input: 0.00015, output: 0.0006 },
+  "gpt-4-turbo": { input: 0.01, output: 0.03 },
+  "gpt-4": { input: 0.03, output: 0.06 },
+  "gpt-3.5-turbo": { input: 0.0015, output: 0.002 },
+};
+
+/**
+ * Estimate cost based on model and token usage
+ *
+ * Looks the model up in the provider's pricing table, falling back to the
+ * default model's rate, and to free when the table has neither (local models).
+ */
 export function estimateCost(
   promptTokens: number,
   completionTokens: number,
-  model: string
+  model: string,
+  pricing: PricingTable = OPENAI_PRICING
 ): number {
-  // Rates per 1K tokens (approximate as of 2024)
-  const pricing = {
-    "gpt-4o": { input: 0.0025, output: 0.01 },
-    "gpt-4o-mini": { input: 0.00015, output: 0.0006 },
-    "gpt-4-turbo": { input: 0.01, output: 0.03 },
-    "gpt-4": { input: 0.03, output: 0.06 },
-    "gpt-3.5-turbo": { input: 0.0015, output: 0.002 },
-  };
-
-  const modelPricing =
-    pricing[model as keyof typeof pricing] || pricing["gpt-4o-mini"];
+  const modelPricing = pricing[model] ||
+    pricing[defaultModel] || { input: 0, output: 0 };
 
   const inputCost = (promptTokens / 1000) * modelPricing.input;
   const outputCost = (completionTokens / 1000) * modelPricing.output;
@@ -48,7 +88,11 @@ export function estimateCost(
   return inputCost + outputCost;
 }
 
-export function validateInputs(book: Book, summaryType: SummaryType): void {
+export function validateInputs(
+  book: Book,
+  summaryType: SummaryType,
+  template?: SummaryTemplate
+): void {
   if (!book.title?.trim()) {
     throw new Error("Book title is required for summary generation");
   }
@@ -57,7 +101,18 @@ export function validateInputs(book: Book, summaryType: SummaryType): void {
     throw new Error("Book authors are required for summary generation");
   }
 
-  if (!["concise", "detailed", "analysis", "practical"].includes(summaryType)) {
-    throw new Error(`Invalid summary type: ${summaryType}`);
-  }
+  // Throws for unknown types and custom types without their template
+  resolveSummaryTemplate(summaryType, template);
+}
+
+/**
+ * Describe what a metadata-only generation was grounded in
+ */
+export function describeBookSource(
+  book: Pick<Book, "description">
+): SummarySourceDescriptor {
+  const description = book.description?.trim();
+  return description
+    ? { kind: "description", characterCount: description.length }
+    : { kind: "metadata" };
 }
@@ -1,11 +1,14 @@
 import { Book } from "@/types/book";
 import {
   calculateWordCount,
-  SUMMARY_TYPE_DESCRIPTIONS,
+  getSummaryTypeDescription,
   SummaryGenerationOptions,
   SummaryGenerationResult,
+  SummaryTemplate,
   SummaryType,
 } from "@/types/summary";
+import { describeBookSource } from "./helpers";
+import { tryStructureSummary } from "./structureSummary";
 
 /**
  * Mock summary service for development/testing
@@ -24,9 +27,11 @@ export async function generateMockSummary(
 
   return {
     content: mockContent,
+    structured: tryStructureSummary(mockContent),
     generationTime: Math.round(delay),
     aiModel: "mock-gpt-4",
     promptVersion: "v1.0-mock",
+    generationMode: "mock",
     usage: {
       promptTokens: 150,
       completionTokens: calculateWordCount(mockContent) * 1.3, // Rough token estimate
@@ -36,15 +41,22 @@ export async function generateMockSummary(
     metadata: {
       bookDataSource: book.source,
       hadBookDescription: Boolean(book.description),
+      source: describeBookSource(book),
       notes: "Generated by mock service for development",
     },
   };
 }
 
 
-
-function generateMockContent(book: Book, summaryType: SummaryType): string {
-  const typeInfo = SUMMARY_TYPE_DESCRIPTIONS[summaryType];
+/**
+ * Build deterministic placeholder markdown for a book and summary type
+ */
+export function generateMockContent(
+  book: Pick<Book, "title" | "authors" | "description">,
+  summaryType: SummaryType,
+  template?: SummaryTemplate
+): string {
+  const typeInfo = getSummaryTypeDescription(summaryType, template);
 
   return `# ${typeInfo.title}: ${book.title}
 
@@ -1,31 +1,54 @@
 "use server";
 
-import OpenAI from "openai";
+import { SummaryProviderId } from "@/types/summary";
+import { getSummaryProvider } from "./providers";
 
 /**
  * Check connectivity and API key validity for OpenAI.
  *
- * Get default max tokens based on summary type
- *
  * This performs a lightweight test call to the OpenAI chat completions endpoint
  * to verify the provided API key works and the service is reachable. Returns
  * true on success and false on any failure (errors are logged).
  */
 export async function checkOpenAiConnectionStatus(): Promise<boolean> {
-  try {
-    const openAi = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY as string,
-    });
+  return getSummaryProvider("openai").testConnection();
+}
+
+/**
+ * Check a summary provider's status (defaults to the configured provider).
+ *
+ * Returns whether it is reachable, its rate limit info and the models it
+ * offers, for the generation UI and service status hook.
+ */
+export async function getSummaryProviderStatus(
+  providerId?: SummaryProviderId
+): Promise<{
+  provider: SummaryProviderId;
+  isConfigured: boolean;
+  rateLimit: { hasKey: boolean; requestsLeft?: number };
+  availableModels: string[];
+}> {
+  const provider = getSummaryProvider(providerId);
+
+  return {
+    provider: provider.id,
+    isConfigured: await provider.testConnection(),
+    rateLimit: provider.getRateLimit(),
+    availableModels: provider.getAvailableModels(),
+  };
+}
+
+/**
+ * Resolve the provider and model a generation request would use.
+ *
+ * The client only knows the options it sent, so failure records use this to
+ * store the model the server actually picked rather than a hard-coded name.
+ */
+export async function resolveSummaryModel(
+  providerId?: SummaryProviderId,
+  model?: string
+): Promise<{ provider: SummaryProviderId; model: string }> {
+  const provider = getSummaryProvider(providerId);
 
-    // Simple test call to verify API key and connection
-    await openAi.chat.completions.create({
-      model: "gpt-3.5-turbo",
-      messages: [{ role: "user", content: "Test" }],
-      max_tokens: 5,
-    });
-    return true;
-  } catch (error) {
-    console.error("OpenAI connection test failed:", error);
-    return false;
-  }
+  return { provider: provider.id, model: provider.resolveModel(model) };
 }
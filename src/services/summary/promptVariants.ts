@@ -0,0 +1,142 @@
+import {
+  BuiltInSummaryType,
+  isBuiltInSummaryType,
+  SummaryGenerationOptions,
+  SummaryGenerationParams,
+  SummaryType,
+} from "@/types/summary";
+
+/**
+ * A versioned prompt for a summary type
+ *
+ * Variants adjust the default prompts from buildPrompts rather than
+ * replacing them, so template instructions and source notes always apply.
+ */
+export interface PromptVariant {
+  /** Recorded as promptVersion on summaries and summaryAnalytics */
+  version: string;
+  /** Relative share of generations; 0 retires the variant from assignment */
+  weight: number;
+  /** What the variant changes */
+  description: string;
+  /** Adjust the default system prompt */
+  system?: (prompt: string, params: SummaryGenerationParams) => string;
+  /** Adjust the default user prompt */
+  user?: (prompt: string, params: SummaryGenerationParams) => string;
+}
+
+/** Version of the unmodified prompts */
+export const DEFAULT_PROMPT_VERSION = "v1.0";
+
+const DEFAULT_PROMPT_VARIANT: PromptVariant = {
+  version: DEFAULT_PROMPT_VERSION,
+  weight: 1,
+  description: "Template prompts as written",
+};
+
+/**
+ * Prompt variants per built-in summary type
+ *
+ * Why a registry:
+ * - Prompt changes ship as new versions next to the current one, and
+ *   weights decide each variant's share of generations (an A/B experiment)
+ * - The assigned version is stored with every summary and analytics row,
+ *   so analytics.comparePromptVariants can compare variants on real usage
+ * - Retire a variant by setting its weight to 0; keep it listed so summaries
+ *   regenerated with its version pinned still resolve
+ *
+ * Custom summary types only use the default variant.
+ */
+export const PROMPT_VARIANTS: Record<BuiltInSummaryType, PromptVariant[]> = {
+  concise: [
+    DEFAULT_PROMPT_VARIANT,
+    {
+      version: "v1.1-tldr",
+      weight: 1,
+      description: "Opens with a one-sentence TL;DR",
+      system: (prompt) =>
+        `${prompt}\n\nBegin with a single bold sentence ("**TL;DR:** ...") that captures the book's core idea, before any heading.`,
+    },
+  ],
+  detailed: [DEFAULT_PROMPT_VARIANT],
+  analysis: [DEFAULT_PROMPT_VARIANT],
+  practical: [DEFAULT_PROMPT_VARIANT],
+};
+
+/**
+ * All variants registered for a summary type, retired ones included
+ */
+export function getPromptVariants(summaryType: SummaryType): PromptVariant[] {
+  return isBuiltInSummaryType(summaryType)
+    ? PROMPT_VARIANTS[summaryType]
+    : [DEFAULT_PROMPT_VARIANT];
+}
+
+/**
+ * Find a variant by version
+ *
+ * @returns The variant, or undefined if the type has no such version
+ */
+export function getPromptVariant(
+  summaryType: SummaryType,
+  version: string | undefined
+): PromptVariant | undefined {
+  return getPromptVariants(summaryType).find(
+    (variant) => variant.version === version
+  );
+}
+
+/**
+ * Assign a variant for one generation, weighted by variant weight
+ *
+ * @param random Source of randomness in [0, 1) (injectable for tests)
+ */
+export function selectPromptVariant(
+  summaryType: SummaryType,
+  random: () => number = Math.random
+): PromptVariant {
+  const active = getPromptVariants(summaryType).filter(
+    (variant) => variant.weight > 0
+  );
+  const totalWeight = active.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight === 0) {
+    return DEFAULT_PROMPT_VARIANT;
+  }
+
+  let remaining = random() * totalWeight;
+  for (const variant of active) {
+    remaining -= variant.weight;
+    if (remaining < 0) return variant;
+  }
+  return active[active.length - 1];
+}
+
+/**
+ * Resolve the variant for a request: the pinned version when it is
+ * registered for the type, otherwise a fresh weighted assignment
+ */
+export function resolvePromptVariant(
+  summaryType: SummaryType,
+  version?: string
+): PromptVariant {
+  return (
+    getPromptVariant(summaryType, version) ?? selectPromptVariant(summaryType)
+  );
+}
+
+/**
+ * Pin the prompt variant on generation options
+ *
+ * Entry points pin once so every completion of one generation, including
+ * an alternate-model fallback, is built from (and recorded as) one variant.
+ */
+export function withPromptVariant(
+  summaryType: SummaryType,
+  options: SummaryGenerationOptions
+): SummaryGenerationOptions {
+  return {
+    ...options,
+    promptVersion: resolvePromptVariant(summaryType, options.promptVersion)
+      .version,
+  };
+}
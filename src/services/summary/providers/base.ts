@@ -0,0 +1,208 @@
+import { Book } from "@/types/book";
+import {
+  resolveSummaryLanguage,
+  SummaryGenerationOptions,
+  SummaryGenerationParams,
+  SummaryGenerationResult,
+  SummaryProviderId,
+  SummaryService,
+  SummaryType,
+} from "@/types/summary";
+import { buildPromptMessages } from "../buildPrompts";
+import {
+  describeBookSource,
+  estimateCost,
+  getDefaultMaxTokens,
+  PricingTable,
+} from "../helpers";
+import { resolvePromptVariant } from "../promptVariants";
+import { withQualityCheck } from "../qualityCheck";
+import { tryStructureSummary } from "../structureSummary";
+
+/**
+ * Token usage reported by a provider for one completion
+ */
+export interface ProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost?: number;
+}
+
+/**
+ * Result of a single (non-streamed) completion
+ */
+export interface ProviderCompletion {
+  content: string;
+  usage?: ProviderUsage;
+  notes?: string;
+}
+
+/**
+ * One system/user prompt pair to complete
+ *
+ * Summaries build theirs from SummaryGenerationParams; other features
+ * (chat, comparisons, study sets, discovery) build their own prompts and
+ * call the provider with them directly.
+ */
+export interface CompletionRequest {
+  system: string;
+  user: string;
+  /** Model to use (provider default if omitted) */
+  model?: string;
+  maxTokens: number;
+  /**
+   * What the offline fake provider answers instead; real providers send
+   * the prompts and ignore it
+   */
+  fakeContent?: () => string;
+}
+
+/**
+ * Transport options for one completion
+ */
+export type CompletionOptions = Pick<
+  SummaryGenerationOptions,
+  "timeout" | "temperature"
+>;
+
+/**
+ * Base class for LLM providers behind the SummaryService interface
+ *
+ * Why a base class:
+ * - Prompt assembly and result shaping are identical for every provider
+ * - Subclasses only implement the transport (complete/stream) and config,
+ *   which every feature's prompts go through
+ * - Each provider carries its own pricing table for cost estimates
+ */
+export abstract class BaseSummaryProvider implements SummaryService {
+  abstract readonly id: SummaryProviderId;
+  abstract readonly defaultModel: string;
+  protected abstract readonly pricing: PricingTable;
+
+  /** Run one completion and return the full content */
+  abstract complete(
+    request: CompletionRequest,
+    options?: CompletionOptions
+  ): Promise<ProviderCompletion>;
+
+  /**
+   * Stream one completion, yielding content deltas.
+   * The generator's return value carries usage and notes.
+   */
+  abstract stream(
+    request: CompletionRequest,
+    options?: CompletionOptions
+  ): AsyncGenerator<string, Omit<ProviderCompletion, "content">>;
+
+  abstract isConfigured(): boolean;
+  abstract getAvailableModels(): string[];
+  abstract testConnection(): Promise<boolean>;
+
+  /** Providers are not rate limited client-side by default */
+  getRateLimit(): { hasKey: boolean; requestsLeft?: number } {
+    return { hasKey: this.isConfigured() };
+  }
+
+  /** Estimate cost of a completion using this provider's pricing table */
+  estimateCost(
+    promptTokens: number,
+    completionTokens: number,
+    model: string
+  ): number {
+    return estimateCost(promptTokens, completionTokens, model, this.pricing);
+  }
+
+  /** Resolve the model for a request, falling back to the provider default */
+  resolveModel(model?: string): string {
+    return model || this.defaultModel;
+  }
+
+  /** The completion request for a summary generation */
+  protected toSummaryRequest(
+    params: SummaryGenerationParams
+  ): CompletionRequest {
+    return {
+      ...buildPromptMessages(params),
+      model: params.model,
+      maxTokens:
+        params.maxTokens ||
+        getDefaultMaxTokens(params.summaryType, params.template),
+    };
+  }
+
+  /** Run one summary completion */
+  completeSummary(
+    params: SummaryGenerationParams,
+    options?: CompletionOptions
+  ): Promise<ProviderCompletion> {
+    return this.complete(this.toSummaryRequest(params), options);
+  }
+
+  /** Stream one summary completion */
+  streamSummary(
+    params: SummaryGenerationParams,
+    options?: CompletionOptions
+  ): AsyncGenerator<string, Omit<ProviderCompletion, "content">> {
+    return this.stream(this.toSummaryRequest(params), options);
+  }
+
+  /** Build the provider-agnostic generation parameters for a book */
+  buildParams(
+    book: Book,
+    summaryType: SummaryType,
+    options: SummaryGenerationOptions = {}
+  ): SummaryGenerationParams {
+    return {
+      book: {
+        title: book.title,
+        authors: book.authors,
+        description: book.description,
+        categories: book.categories,
+        publishedDate: book.publishedDate,
+        pageCount: book.pageCount,
+      },
+      summaryType,
+      additionalContext: options.additionalContext,
+      maxTokens: options.maxTokens,
+      model: this.resolveModel(options.model),
+      template: options.template,
+      promptVersion: resolvePromptVariant(summaryType, options.promptVersion)
+        .version,
+      language: resolveSummaryLanguage(options.language, book),
+    };
+  }
+
+  /** Generate a complete summary for a book (SummaryService contract) */
+  async generateSummary(
+    book: Book,
+    summaryType: SummaryType,
+    options: SummaryGenerationOptions = {}
+  ): Promise<SummaryGenerationResult> {
+    const startTime = performance.now();
+    const params = this.buildParams(book, summaryType, options);
+
+    const result = await this.completeSummary(params, options);
+
+    return withQualityCheck(
+      {
+        content: result.content,
+        structured: tryStructureSummary(result.content),
+        generationTime: Math.round(performance.now() - startTime),
+        aiModel: params.model!,
+        promptVersion: params.promptVersion!,
+        language: params.language,
+        usage: result.usage,
+        provider: this.id,
+        generationMode: "primary",
+        metadata: {
+          bookDataSource: book.source,
+          hadBookDescription: Boolean(book.description),
+          source: describeBookSource(book),
+          notes: result.notes,
+        },
+      },
+      params
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { SummaryGenerationParams, SummaryProviderId } from "@/types/summary";
+import { PricingTable } from "../helpers";
+import { generateMockContent } from "../mockSummary";
+import {
+  BaseSummaryProvider,
+  CompletionRequest,
+  ProviderCompletion,
+  ProviderUsage,
+} from "./base";
+
+const FAKE_MODEL = "fake-summarizer";
+
+/**
+ * Deterministic offline provider for development, tests and CI
+ *
+ * Returns the same markdown for the same book and summary type, with no
+ * network access and no artificial delay. Token usage is approximated at
+ * ~4 characters per token and always costs nothing.
+ *
+ * Map-phase requests return the passage's opening words as notes, and
+ * source-grounded requests append one heading per chapter, so full-text
+ * pipelines can be exercised offline too. Translations return the original
+ * with each heading tagged by the target language code. Other requests
+ * get the fake content they bring, or their user prompt echoed back.
+ */
+export class FakeSummaryProvider extends BaseSummaryProvider {
+  readonly id: SummaryProviderId = "fake";
+  readonly defaultModel = FAKE_MODEL;
+  protected readonly pricing: PricingTable = {};
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  getAvailableModels(): string[] {
+    return [FAKE_MODEL];
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<ProviderCompletion> {
+    const content = request.fakeContent?.() ?? request.user;
+
+    return {
+      content,
+      usage: this.estimateUsage(request, content),
+      notes: "Generated by fake provider",
+    };
+  }
+
+  async *stream(
+    request: CompletionRequest
+  ): AsyncGenerator<string, Omit<ProviderCompletion, "content">> {
+    const { content, usage, notes } = await this.complete(request);
+
+    // Emit word-sized deltas (whitespace attached) to mimic token streaming
+    for (const delta of content.match(/\S+\s*/g) ?? []) {
+      yield delta;
+    }
+
+    return { usage, notes };
+  }
+
+  protected toSummaryRequest(
+    params: SummaryGenerationParams
+  ): CompletionRequest {
+    return {
+      ...super.toSummaryRequest(params),
+      fakeContent: () => this.buildContent(params),
+    };
+  }
+
+  private buildContent(params: SummaryGenerationParams): string {
+    if (params.translation) {
+      return params.translation.content.replace(
+        /^(#{1,6}\s+.+)$/gm,
+        `$1 [${params.language}]`
+      );
+    }
+
+    if (params.passage) {
+      const words = params.passage.text.split(/\s+/).filter(Boolean);
+      return `- ${params.passage.chapterTitle}: ${words.slice(0, 40).join(" ")}`;
+    }
+
+    const content = generateMockContent(
+      params.book,
+      params.summaryType,
+      params.template
+    );
+    if (!params.sourceSections?.length) {
+      return content;
+    }
+
+    const chapters = params.sourceSections
+      .map((section) => `### ${section.title}\n\n${section.notes}`)
+      .join("\n\n");
+    return `${content}\n\n## Chapters\n\n${chapters}`;
+  }
+
+  private estimateUsage(
+    { system, user }: CompletionRequest,
+    content: string
+  ): ProviderUsage {
+    const prompt = system + user;
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      estimatedCost: this.estimateCost(
+        promptTokens,
+        completionTokens,
+        FAKE_MODEL
+      ),
+    };
+  }
+}
+
+export const createFakeProvider = (): FakeSummaryProvider =>
+  new FakeSummaryProvider();
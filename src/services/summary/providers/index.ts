@@ -0,0 +1,63 @@
+import { SUMMARY_PROVIDER_IDS, SummaryProviderId } from "@/types/summary";
+import { BaseSummaryProvider } from "./base";
+import { createFakeProvider } from "./fake";
+import { createLocalProvider } from "./local";
+import { createOpenAIProvider } from "./openai";
+
+/**
+ * Summary provider registry
+ *
+ * Providers are created lazily on first use so environment variables are
+ * read at request time, and then reused for the lifetime of the process.
+ * The default provider comes from SUMMARY_PROVIDER (openai | local | fake).
+ */
+
+const factories: Record<SummaryProviderId, () => BaseSummaryProvider> = {
+  openai: createOpenAIProvider,
+  local: createLocalProvider,
+  fake: createFakeProvider,
+};
+
+const instances = new Map<SummaryProviderId, BaseSummaryProvider>();
+
+/**
+ * Check whether a string names a registered provider
+ */
+export function isSummaryProviderId(id: unknown): id is SummaryProviderId {
+  return (
+    typeof id === "string" &&
+    (SUMMARY_PROVIDER_IDS as readonly string[]).includes(id)
+  );
+}
+
+/**
+ * Provider used when a request does not name one
+ */
+export function getDefaultProviderId(): SummaryProviderId {
+  const configured = process.env.SUMMARY_PROVIDER;
+  return isSummaryProviderId(configured) ? configured : "openai";
+}
+
+/**
+ * Get a provider by ID (defaults to the configured default provider)
+ */
+export function getSummaryProvider(
+  id: SummaryProviderId = getDefaultProviderId()
+): BaseSummaryProvider {
+  let provider = instances.get(id);
+  if (!provider) {
+    provider = factories[id]();
+    instances.set(id, provider);
+  }
+  return provider;
+}
+
+/**
+ * List every registered provider
+ */
+export function listSummaryProviders(): BaseSummaryProvider[] {
+  return SUMMARY_PROVIDER_IDS.map((id) => getSummaryProvider(id));
+}
+
+export { BaseSummaryProvider } from "./base";
+export type { ProviderCompletion, ProviderUsage } from "./base";
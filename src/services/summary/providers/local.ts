@@ -0,0 +1,31 @@
+import { OpenAICompatibleProvider } from "./openAiCompatible";
+
+/** Ollama's OpenAI-compatible endpoint */
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_LOCAL_MODEL = "llama3.1";
+
+/**
+ * Local OpenAI-compatible provider (Ollama, llama.cpp server, vLLM, ...)
+ *
+ * Environment:
+ * - LOCAL_LLM_BASE_URL: endpoint base URL (default: Ollama on localhost)
+ * - LOCAL_LLM_MODEL: default model name (default: llama3.1)
+ * - LOCAL_LLM_API_KEY: optional key for servers that enforce one
+ *
+ * Local inference is free, so the pricing table is empty and every
+ * cost estimate resolves to zero.
+ */
+export const createLocalProvider = (
+  baseURL: string = process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+  model: string = process.env.LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL
+): OpenAICompatibleProvider =>
+  new OpenAICompatibleProvider({
+    id: "local",
+    label: "Local LLM",
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+    requiresApiKey: false,
+    baseURL,
+    defaultModel: model,
+    models: [model],
+    pricing: {},
+  });
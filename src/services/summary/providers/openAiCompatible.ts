@@ -0,0 +1,217 @@
+import { SummaryProviderId } from "@/types/summary";
+import OpenAI from "openai";
+import { defaultTimeout, PricingTable } from "../helpers";
+import {
+  BaseSummaryProvider,
+  CompletionOptions,
+  CompletionRequest,
+  ProviderCompletion,
+  ProviderUsage,
+} from "./base";
+
+/**
+ * Configuration for an OpenAI-compatible chat completions endpoint
+ */
+export interface OpenAICompatibleConfig {
+  /** Registry identifier */
+  id: SummaryProviderId;
+  /** Human readable name used in notes and errors */
+  label: string;
+  /** API key (local servers usually accept any value) */
+  apiKey?: string;
+  /** Whether the endpoint refuses requests without a real key */
+  requiresApiKey: boolean;
+  /** Custom base URL, e.g. http://localhost:11434/v1 */
+  baseURL?: string;
+  /** Model used when the request does not name one */
+  defaultModel: string;
+  /** Models offered to callers */
+  models: string[];
+  /** Pricing per 1K tokens for cost estimates */
+  pricing: PricingTable;
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions API
+ *
+ * Backs both the hosted OpenAI provider and local servers such as Ollama
+ * or the llama.cpp server, which differ only in base URL, key and pricing.
+ */
+export class OpenAICompatibleProvider extends BaseSummaryProvider {
+  readonly id: SummaryProviderId;
+  readonly defaultModel: string;
+  protected readonly pricing: PricingTable;
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super();
+    this.config = config;
+    this.id = config.id;
+    this.defaultModel = config.defaultModel;
+    this.pricing = config.pricing;
+  }
+
+  isConfigured(): boolean {
+    return !this.config.requiresApiKey || Boolean(this.config.apiKey);
+  }
+
+  getAvailableModels(): string[] {
+    return [...this.config.models];
+  }
+
+  /**
+   * Call the completions endpoint with proper error handling and timeout
+   */
+  async complete(
+    request: CompletionRequest,
+    options: CompletionOptions = {}
+  ): Promise<ProviderCompletion> {
+    const client = this.createClient();
+    const model = this.resolveModel(request.model);
+    const timeout = options.timeout || defaultTimeout;
+
+    // Create the completion with timeout
+    const completion = await Promise.race([
+      client.chat.completions.create({
+        model,
+        messages: this.buildMessages(request),
+        max_tokens: request.maxTokens,
+        temperature: options.temperature || 0.7,
+      }),
+      new Promise<never>((_, reject) =>
+        setTimeout(
+          () => reject(new Error(`${this.config.label} request timeout`)),
+          timeout
+        )
+      ),
+    ]);
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No content generated by ${this.config.label}`);
+    }
+
+    return {
+      content: content.trim(),
+      usage: this.toUsage(completion.usage, model),
+      notes: `Generated using ${model}`,
+    };
+  }
+
+  /**
+   * Stream a completion, yielding content deltas as they arrive
+   */
+  async *stream(
+    request: CompletionRequest,
+    options: CompletionOptions = {}
+  ): AsyncGenerator<string, Omit<ProviderCompletion, "content">> {
+    const client = this.createClient();
+    const model = this.resolveModel(request.model);
+
+    // Abort the whole stream (not just the first byte) once the timeout elapses
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(),
+      options.timeout || defaultTimeout
+    );
+
+    try {
+      const stream = await client.chat.completions.create(
+        {
+          model,
+          messages: this.buildMessages(request),
+          max_tokens: request.maxTokens,
+          temperature: options.temperature || 0.7,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: controller.signal }
+      );
+
+      let usage: OpenAI.CompletionUsage | undefined;
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+        // The usage chunk arrives last, with an empty choices array
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+
+      return {
+        usage: this.toUsage(usage, model),
+        notes: `Generated using ${model} (streamed)`,
+      };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`${this.config.label} request timeout`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Lightweight call to verify the key and that the endpoint is reachable.
+   * Returns false on any failure (errors are logged).
+   */
+  async testConnection(): Promise<boolean> {
+    if (!this.isConfigured()) return false;
+
+    try {
+      await this.createClient().chat.completions.create({
+        model: this.defaultModel,
+        messages: [{ role: "user", content: "Test" }],
+        max_tokens: 5,
+      });
+      return true;
+    } catch (error) {
+      console.error(`${this.config.label} connection test failed:`, error);
+      return false;
+    }
+  }
+
+  private createClient(): OpenAI {
+    if (!this.isConfigured()) {
+      throw new Error(`${this.config.label} API key is not configured`);
+    }
+
+    return new OpenAI({
+      // The SDK insists on a key; local servers ignore its value
+      apiKey: this.config.apiKey || "not-needed",
+      baseURL: this.config.baseURL,
+    });
+  }
+
+  private buildMessages({
+    system,
+    user,
+  }: CompletionRequest): OpenAI.ChatCompletionMessageParam[] {
+    return [
+      { role: "system", content: system },
+      { role: "user", content: user },
+    ];
+  }
+
+  private toUsage(
+    usage: OpenAI.CompletionUsage | undefined | null,
+    model: string
+  ): ProviderUsage | undefined {
+    if (!usage) return undefined;
+
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens,
+      totalTokens: usage.total_tokens,
+      estimatedCost: this.estimateCost(
+        usage.prompt_tokens,
+        usage.completion_tokens,
+        model
+      ),
+    };
+  }
+}
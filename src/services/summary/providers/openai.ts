@@ -0,0 +1,20 @@
+import { defaultModel, OPENAI_PRICING } from "../helpers";
+import { OpenAICompatibleProvider } from "./openAiCompatible";
+
+/**
+ * Hosted OpenAI provider
+ *
+ * Reads OPENAI_API_KEY from the environment.
+ */
+export const createOpenAIProvider = (
+  apiKey: string | undefined = process.env.OPENAI_API_KEY
+): OpenAICompatibleProvider =>
+  new OpenAICompatibleProvider({
+    id: "openai",
+    label: "OpenAI",
+    apiKey,
+    requiresApiKey: true,
+    defaultModel,
+    models: Object.keys(OPENAI_PRICING),
+    pricing: OPENAI_PRICING,
+  });
@@ -0,0 +1,169 @@
+import {
+  calculateWordCount,
+  SummaryGenerationParams,
+  SummaryGenerationResult,
+  SummaryQuality,
+  SummaryQualityIssue,
+} from "@/types/summary";
+import { getDefaultMaxTokens } from "./helpers";
+import { resolveSummaryTemplate } from "./templates";
+
+/**
+ * Post-generation quality guardrails
+ *
+ * Why a check after generation:
+ * - Summaries without a description or full text come from the model's
+ *   general knowledge, which invites invented chapters, characters and
+ *   quotes for obscure titles
+ * - Length and structure drift (truncation, missing sections) are cheap to
+ *   detect from the finished markdown
+ *
+ * The result is a confidence score saved with the summary; the reader
+ * shows a warning when it is low. Nothing is blocked or regenerated.
+ */
+
+/** Score deducted per issue code */
+const PENALTIES = {
+  too_short: 0.3,
+  truncated: 0.2,
+  missing_sections: 0.15,
+} as const;
+
+/** Score deducted per unsupported claim, and the most claims can cost */
+const CLAIM_PENALTY = 0.15;
+const MAX_CLAIM_PENALTY = 0.45;
+
+/** Share of the target minimum below which a summary is too short */
+const MIN_LENGTH_RATIO = 0.5;
+
+/** Share of the token budget at which the output was likely cut off */
+const TRUNCATION_RATIO = 0.98;
+
+/**
+ * Claims that need the book's text to back them up
+ */
+const CLAIM_PATTERNS: RegExp[] = [
+  /\bchapters?\s+(?:\d+|[ivxlc]+|one|two|three|four|five|six|seven|eight|nine|ten)\b/gi,
+  /\b(?:in|by) the (?:first|second|third|final|last|opening|closing) chapter\b/gi,
+  /\b(?:the )?(?:protagonist|antagonist|main character|narrator)\b/gi,
+  /\b(?:a|the) character (?:named|called)\b/gi,
+];
+
+/**
+ * Distinct claims in the content that would need book text to support
+ */
+function findUnsupportedClaims(
+  result: Pick<SummaryGenerationResult, "content" | "structured">
+): string[] {
+  const claims = new Set<string>();
+
+  for (const pattern of CLAIM_PATTERNS) {
+    for (const match of result.content.matchAll(pattern)) {
+      claims.add(match[0].toLowerCase());
+    }
+  }
+  for (const quote of result.structured?.quotes ?? []) {
+    claims.add(`"${quote.text}"`);
+  }
+
+  return [...claims];
+}
+
+/**
+ * Check a generated summary against its template and grounding
+ *
+ * @param result The generated summary (content, structure, usage, source)
+ * @param params The parameters it was generated with
+ * @returns Confidence score (0-1) and the issues found
+ */
+export function assessSummaryQuality(
+  result: Pick<
+    SummaryGenerationResult,
+    "content" | "structured" | "usage" | "metadata"
+  >,
+  params: Pick<
+    SummaryGenerationParams,
+    "summaryType" | "template" | "maxTokens"
+  >
+): SummaryQuality {
+  const template = resolveSummaryTemplate(params.summaryType, params.template);
+  const issues: SummaryQualityIssue[] = [];
+  let score = 1;
+
+  // Length against the template's target
+  const wordCount = calculateWordCount(result.content);
+  if (wordCount < template.targetWords.min * MIN_LENGTH_RATIO) {
+    issues.push({
+      code: "too_short",
+      message: `Only ${wordCount} words; ${template.title} summaries aim for ${template.targetWords.min}-${template.targetWords.max}.`,
+    });
+    score -= PENALTIES.too_short;
+  }
+
+  // Output that used the whole token budget was likely cut off
+  const maxTokens =
+    params.maxTokens ?? getDefaultMaxTokens(params.summaryType, template);
+  const completionTokens =
+    result.usage?.completionTokens ?? result.content.length / 4;
+  if (completionTokens >= maxTokens * TRUNCATION_RATIO) {
+    issues.push({
+      code: "truncated",
+      message: "The summary reached its length limit and may be cut off.",
+    });
+    score -= PENALTIES.truncated;
+  }
+
+  // Structure: the opening overview counts as the template's intro
+  const sectionCount =
+    (result.structured?.sections.filter((section) => section.level <= 2)
+      .length ?? 0) + (result.structured?.overview ? 1 : 0);
+  if (template.headings.length > 0 && sectionCount < template.headings.length) {
+    issues.push({
+      code: "missing_sections",
+      message: `Expected sections for ${template.headings.join(", ")}.`,
+    });
+    score -= PENALTIES.missing_sections;
+  }
+
+  // Specific claims with no book text behind them
+  const grounding = result.metadata.source?.kind;
+  const ungrounded = grounding
+    ? grounding === "metadata"
+    : !result.metadata.hadBookDescription;
+  if (ungrounded) {
+    const claims = findUnsupportedClaims(result);
+    if (claims.length > 0) {
+      issues.push({
+        code: "unsupported_claims",
+        message: `Written without the book's description or text, yet mentions ${claims.slice(0, 3).join(", ")}${claims.length > 3 ? " and more" : ""}. These details may be invented.`,
+      });
+      score -= Math.min(MAX_CLAIM_PENALTY, claims.length * CLAIM_PENALTY);
+    }
+  }
+
+  return {
+    score: Math.round(Math.max(0, score) * 100) / 100,
+    issues,
+  };
+}
+
+/**
+ * Attach the quality check to a generated result
+ *
+ * A failed check (e.g. a custom type whose template isn't at hand) leaves
+ * the result unscored rather than failing generation.
+ */
+export function withQualityCheck<T extends SummaryGenerationResult>(
+  result: T,
+  params: Pick<
+    SummaryGenerationParams,
+    "summaryType" | "template" | "maxTokens"
+  >
+): T {
+  try {
+    return { ...result, quality: assessSummaryQuality(result, params) };
+  } catch (error) {
+    console.warn("Summary quality check failed:", error);
+    return result;
+  }
+}
@@ -0,0 +1,69 @@
+import { SourceChapter, SourceChunk } from "@/types/summary";
+
+/** Target chunk size (~3k tokens), leaving room for prompt and notes */
+export const DEFAULT_CHUNK_CHARS = 12_000;
+
+/**
+ * Split one chapter's text into pieces of at most maxChars
+ *
+ * Breaks on paragraph boundaries where possible; paragraphs longer than
+ * maxChars are split on the nearest preceding whitespace.
+ */
+function splitChapterText(text: string, maxChars: number): string[] {
+  const parts: string[] = [];
+  let current = "";
+
+  const flush = () => {
+    if (current.trim()) parts.push(current.trim());
+    current = "";
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      flush();
+    }
+
+    let rest = paragraph;
+    while (rest.length > maxChars) {
+      const cut = rest.lastIndexOf(" ", maxChars);
+      const at = cut > maxChars / 2 ? cut : maxChars;
+      current = rest.slice(0, at);
+      flush();
+      rest = rest.slice(at);
+    }
+
+    current = current ? `${current}\n\n${rest}` : rest;
+  }
+  flush();
+
+  return parts;
+}
+
+/**
+ * Chunk chapters for the map phase, keeping provenance
+ *
+ * Chunks never span chapters, so notes from the map phase can always be
+ * attributed to a single chapter in the reduce phase.
+ */
+export function chunkChapters(
+  chapters: SourceChapter[],
+  maxChars: number = DEFAULT_CHUNK_CHARS
+): SourceChunk[] {
+  const chunks: SourceChunk[] = [];
+
+  chapters.forEach((chapter, chapterIndex) => {
+    const parts = splitChapterText(chapter.text, maxChars);
+    parts.forEach((text, i) => {
+      chunks.push({
+        index: chunks.length,
+        chapterIndex,
+        chapterTitle: chapter.title,
+        part: i + 1,
+        partCount: parts.length,
+        text,
+      });
+    });
+  });
+
+  return chunks;
+}
@@ -0,0 +1,120 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  SourceChapter,
+  SourceChunk,
+  SummarySourceDescriptor,
+  SummarySourceFormat,
+} from "@/types/summary";
+import { chunkChapters } from "./chunkSource";
+import { parseEpubSource } from "./parseEpub";
+import { parseTextSource } from "./parseText";
+
+/** Largest accepted upload (a long novel EPUB is typically 1-5 MB) */
+export const MAX_SOURCE_BYTES = 20 * 1024 * 1024;
+
+/** Upper bound on map-phase calls per summary, to keep cost predictable */
+export const MAX_SOURCE_CHUNKS = 80;
+
+/**
+ * A full-text source, parsed and chunked for map-reduce summarization
+ */
+export interface LoadedSummarySource {
+  chapters: SourceChapter[];
+  chunks: SourceChunk[];
+  descriptor: SummarySourceDescriptor;
+}
+
+/**
+ * Detect the source format from the file name, then the zip signature
+ */
+export function detectSourceFormat(
+  fileName: string,
+  data: Uint8Array
+): SummarySourceFormat {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === ".epub") return "epub";
+  if (extension === ".txt" || extension === ".text") return "text";
+
+  // "PK\x03\x04" - a zip archive, which for our purposes means EPUB
+  const isZip =
+    data[0] === 0x50 &&
+    data[1] === 0x4b &&
+    data[2] === 0x03 &&
+    data[3] === 0x04;
+  return isZip ? "epub" : "text";
+}
+
+/**
+ * Parse and chunk an EPUB or plain-text book
+ *
+ * @throws Error if the file is too large, has no readable text, or would
+ *   need more than MAX_SOURCE_CHUNKS map calls
+ */
+export function loadSummarySource(
+  fileName: string,
+  data: Uint8Array
+): LoadedSummarySource {
+  if (data.byteLength > MAX_SOURCE_BYTES) {
+    throw new Error("Source file is too large (20 MB maximum)");
+  }
+
+  const format = detectSourceFormat(fileName, data);
+  const chapters =
+    format === "epub"
+      ? parseEpubSource(data).chapters
+      : parseTextSource(new TextDecoder().decode(data));
+
+  if (chapters.length === 0) {
+    throw new Error("No readable text found in source file");
+  }
+
+  const chunks = chunkChapters(chapters);
+  if (chunks.length > MAX_SOURCE_CHUNKS) {
+    throw new Error(
+      `Source is too long to summarize (${chunks.length} chunks, ${MAX_SOURCE_CHUNKS} maximum)`
+    );
+  }
+
+  return {
+    chapters,
+    chunks,
+    descriptor: {
+      kind: "fulltext",
+      format,
+      fileName: path.basename(fileName),
+      characterCount: chunks.reduce(
+        (total, chunk) => total + chunk.text.length,
+        0
+      ),
+      chunkCount: chunks.length,
+      chapters: chapters.map((chapter) => chapter.title),
+    },
+  };
+}
+
+/**
+ * Load a source from a server-local file under SUMMARY_SOURCE_DIR
+ *
+ * Why a fixed root:
+ * - Lets self-hosted deployments summarize a local library of texts
+ * - Paths outside the configured directory are refused, so requests can
+ *   never read arbitrary files
+ */
+export async function loadLocalSummarySource(
+  relativePath: string
+): Promise<LoadedSummarySource> {
+  const root = process.env.SUMMARY_SOURCE_DIR;
+  if (!root) {
+    throw new Error("Local sources are not enabled (SUMMARY_SOURCE_DIR)");
+  }
+
+  const resolvedRoot = path.resolve(root);
+  const filePath = path.resolve(resolvedRoot, relativePath);
+  if (!filePath.startsWith(resolvedRoot + path.sep)) {
+    throw new Error("Local source path is outside SUMMARY_SOURCE_DIR");
+  }
+
+  const data = await readFile(filePath);
+  return loadSummarySource(filePath, new Uint8Array(data));
+}
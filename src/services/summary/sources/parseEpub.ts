@@ -0,0 +1,252 @@
+import { inflateRawSync } from "node:zlib";
+import { posix } from "node:path";
+import { SourceChapter } from "@/types/summary";
+import { MIN_CHAPTER_CHARS } from "./parseText";
+
+/**
+ * Minimal EPUB reader for public-domain books
+ *
+ * Why hand-rolled:
+ * - EPUB is a zip of XHTML files plus an OPF manifest; reading it only
+ *   needs the zip central directory and raw inflate from node:zlib
+ * - Avoids a dependency for one server-side code path
+ *
+ * Limitations: no zip64, no encrypted (DRM) books.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/**
+ * Most bytes one EPUB may inflate to, across every entry read. Well above
+ * what MAX_SOURCE_CHUNKS of text needs, far below what a zip bomb expands to.
+ */
+export const MAX_EPUB_INFLATED_BYTES = 64 * 1024 * 1024;
+
+/** A zip entry's still-compressed bytes */
+interface ZipEntry {
+  method: number;
+  raw: Uint8Array;
+}
+
+/**
+ * Index the files in a zip archive by path, without decompressing them
+ */
+function readZipDirectory(data: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // End of central directory: last 22 bytes, plus up to 64KB of comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65_557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Invalid EPUB: not a zip archive");
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let n = 0; n < entryCount; n++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("Invalid EPUB: corrupt zip directory");
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      data.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) {
+      throw new Error("Invalid EPUB: corrupt zip entry");
+    }
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    entries.set(name, {
+      method,
+      raw: data.subarray(dataStart, dataStart + compressedSize),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Create a reader that decompresses entries on demand
+ *
+ * Only the entries actually read are inflated, and all of them together
+ * share one MAX_EPUB_INFLATED_BYTES budget, so a small upload cannot
+ * expand into gigabytes.
+ */
+function createEntryReader(entries: Map<string, ZipEntry>) {
+  let remaining = MAX_EPUB_INFLATED_BYTES;
+
+  return (path: string): Uint8Array => {
+    const entry = entries.get(path);
+    if (!entry) throw new Error(`Invalid EPUB: missing ${path}`);
+
+    let bytes: Uint8Array;
+    if (entry.method === 0) {
+      bytes = entry.raw;
+    } else if (entry.method === 8) {
+      try {
+        bytes = new Uint8Array(
+          inflateRawSync(entry.raw, { maxOutputLength: remaining })
+        );
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw new Error("EPUB is too large once decompressed");
+        }
+        throw error;
+      }
+    } else {
+      throw new Error(`Unsupported EPUB compression method: ${entry.method}`);
+    }
+
+    remaining -= bytes.byteLength;
+    if (remaining < 0) {
+      throw new Error("EPUB is too large once decompressed");
+    }
+    return bytes;
+  };
+}
+
+/**
+ * Parse the attributes of a single XML tag
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, key, value] of tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[key] = value;
+  }
+  return attributes;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert an XHTML document to paragraph-separated plain text
+ */
+export function xhtmlToText(xhtml: string): string {
+  return decodeEntities(
+    xhtml
+      .replace(/<head[\s\S]*?<\/head>/gi, "")
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|h[1-6]|li|blockquote|section)>/gi, "\n\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Find a chapter title in an XHTML document (first heading, then <title>)
+ */
+function findTitle(xhtml: string): string | undefined {
+  const match =
+    xhtml.match(/<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/i) ??
+    xhtml.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = match && xhtmlToText(match[1]).replace(/\s+/g, " ").trim();
+  return title || undefined;
+}
+
+/**
+ * Extract chapters from an EPUB, in spine (reading) order
+ *
+ * Spine items too short to be chapters (cover, title page, contents) are
+ * skipped. Titles come from each document's first heading.
+ */
+export function parseEpubSource(data: Uint8Array): {
+  title?: string;
+  chapters: SourceChapter[];
+} {
+  const entries = readZipDirectory(data);
+  const readEntry = createEntryReader(entries);
+  const decoder = new TextDecoder();
+  const readText = (path: string) => decoder.decode(readEntry(path));
+
+  const container = readText("META-INF/container.xml");
+  const opfPath = container.match(/full-path\s*=\s*"([^"]+)"/)?.[1];
+  if (!opfPath) {
+    throw new Error("Invalid EPUB: no package document");
+  }
+
+  const opf = readText(opfPath);
+  const opfDir = posix.dirname(opfPath);
+
+  const manifest = new Map<string, string>();
+  for (const [tag] of opf.matchAll(/<(?:opf:)?item\b[^>]*>/gi)) {
+    const { id, href } = parseAttributes(tag);
+    if (id && href) {
+      manifest.set(id, posix.normalize(posix.join(opfDir, decodeURI(href))));
+    }
+  }
+
+  const chapters: SourceChapter[] = [];
+  for (const [tag] of opf.matchAll(/<(?:opf:)?itemref\b[^>]*>/gi)) {
+    const path = manifest.get(parseAttributes(tag).idref);
+    if (!path || !entries.has(path)) continue;
+
+    const xhtml = readText(path);
+    const text = xhtmlToText(xhtml);
+    if (text.length < MIN_CHAPTER_CHARS) continue;
+
+    chapters.push({
+      title: findTitle(xhtml) ?? `Section ${chapters.length + 1}`,
+      text,
+    });
+  }
+
+  const title = opf.match(/<dc:title[^>]*>([\s\S]*?)<\/dc:title>/i)?.[1];
+  return {
+    title: title ? decodeEntities(title).trim() : undefined,
+    chapters,
+  };
+}
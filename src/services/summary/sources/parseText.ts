@@ -0,0 +1,70 @@
+import { SourceChapter } from "@/types/summary";
+
+/** Chapters shorter than this are table-of-contents or heading noise */
+export const MIN_CHAPTER_CHARS = 200;
+
+const GUTENBERG_START =
+  /\*{3}\s*START OF (?:THE|THIS) PROJECT GUTENBERG E-?BOOK[^\n]*/i;
+const GUTENBERG_END = /\*{3}\s*END OF (?:THE|THIS) PROJECT GUTENBERG E-?BOOK/i;
+
+// "CHAPTER IV.", "Chapter 12: The Trial", "BOOK II", "PART ONE", "LETTER 3"
+const CHAPTER_HEADING =
+  /^[ \t]*((?:chapter|book|part|letter|section)[ \t]+(?:\d+|[ivxlcdm]+|[a-z]+)\b[^\n]{0,80})[ \t]*$/gim;
+
+/**
+ * Strip the Project Gutenberg licence header and footer, if present
+ */
+export function stripGutenbergBoilerplate(text: string): string {
+  const start = text.match(GUTENBERG_START);
+  let body =
+    start?.index !== undefined
+      ? text.slice(start.index + start[0].length)
+      : text;
+
+  const end = body.match(GUTENBERG_END);
+  if (end?.index !== undefined) {
+    body = body.slice(0, end.index);
+  }
+
+  return body;
+}
+
+/**
+ * Split a plain-text book into chapters
+ *
+ * Why heading detection:
+ * - Public-domain plain texts mark chapters with "CHAPTER I"-style lines
+ * - Keeping chapter boundaries lets detailed summaries stay chapter-by-chapter
+ *
+ * Texts without recognisable headings come back as a single "Full text"
+ * chapter; the chunker still splits it into parts.
+ */
+export function parseTextSource(raw: string): SourceChapter[] {
+  const text = stripGutenbergBoilerplate(raw.replace(/\r\n?/g, "\n")).trim();
+  const headings = [...text.matchAll(CHAPTER_HEADING)];
+
+  if (headings.length === 0) {
+    return text ? [{ title: "Full text", text }] : [];
+  }
+
+  const chapters: SourceChapter[] = [];
+
+  // Text before the first heading (preface, introduction)
+  const opening = text.slice(0, headings[0].index).trim();
+  if (opening.length >= MIN_CHAPTER_CHARS) {
+    chapters.push({ title: "Opening", text: opening });
+  }
+
+  headings.forEach((heading, i) => {
+    const start = heading.index! + heading[0].length;
+    const end = headings[i + 1]?.index ?? text.length;
+    const body = text.slice(start, end).trim();
+
+    // Table-of-contents entries have headings but no body
+    if (body.length >= MIN_CHAPTER_CHARS) {
+      chapters.push({ title: heading[1].trim(), text: body });
+    }
+  });
+
+  return chapters;
+}
@@ -0,0 +1,112 @@
+import { Book } from "@/types/book";
+import {
+  SummaryGenerationOptions,
+  SummaryStreamEvent,
+  SummaryType,
+} from "@/types/summary";
+import { applyFallbackPolicy } from "./fallbackPolicy";
+import { describeBookSource, validateInputs } from "./helpers";
+import { withPromptVariant } from "./promptVariants";
+import { getSummaryProvider } from "./providers";
+import { withQualityCheck } from "./qualityCheck";
+import { tryStructureSummary } from "./structureSummary";
+
+/**
+ * Stream a book summary, emitting content deltas followed by a final result.
+ *
+ * Streaming counterpart of generateBookSummary. Consumers render the deltas
+ * as they arrive and persist only the `done` event's result.
+ *
+ * Errors:
+ *  - Provider failures go through the fallback policy; an allowed fallback
+ *    is delivered whole in the `done` event (tagged by generationMode), so
+ *    clients replace any partial content already rendered
+ *  - Otherwise failures are reported as a single `error` event rather than
+ *    thrown, so the stream always terminates cleanly for the client
+ */
+export async function* streamBookSummary(
+  book: Book,
+  summaryType: SummaryType,
+  options: SummaryGenerationOptions = {}
+): AsyncGenerator<SummaryStreamEvent> {
+  const startTime = performance.now();
+
+  try {
+    validateInputs(book, summaryType, options.template);
+  } catch (error) {
+    yield {
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    };
+    return;
+  }
+  options = withPromptVariant(summaryType, options);
+
+  try {
+    const provider = getSummaryProvider(options.provider);
+    const params = provider.buildParams(book, summaryType, options);
+    const stream = provider.streamSummary(params, options);
+    let content = "";
+
+    // Drive the generator manually so we can capture its return value
+    let next = await stream.next();
+    while (!next.done) {
+      content += next.value;
+      yield { type: "delta", content: next.value };
+      next = await stream.next();
+    }
+
+    if (!content.trim()) {
+      throw new Error(`No content generated by ${provider.id}`);
+    }
+
+    yield {
+      type: "done",
+      result: withQualityCheck(
+        {
+          content: content.trim(),
+          structured: tryStructureSummary(content.trim()),
+          generationTime: Math.round(performance.now() - startTime),
+          aiModel: params.model!,
+          promptVersion: params.promptVersion!,
+          language: params.language,
+          usage: next.value.usage,
+          provider: provider.id,
+          generationMode: "primary",
+          metadata: {
+            bookDataSource: book.source,
+            hadBookDescription: Boolean(book.description),
+            source: describeBookSource(book),
+            notes: next.value.notes,
+          },
+        },
+        params
+      ),
+    };
+  } catch (error) {
+    const generationTime = Math.round(performance.now() - startTime);
+
+    console.error(`Summary stream error after ${generationTime}ms: `, {
+      error,
+      book,
+      summaryType,
+      options,
+    });
+
+    try {
+      const result = await applyFallbackPolicy(
+        error,
+        book,
+        summaryType,
+        options
+      );
+      yield { type: "done", result };
+    } catch (finalError) {
+      yield {
+        type: "error",
+        message:
+          finalError instanceof Error ? finalError.message : "Unknown error",
+      };
+    }
+  }
+}
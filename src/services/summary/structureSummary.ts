@@ -0,0 +1,179 @@
+import GithubSlugger from "github-slugger";
+import {
+  StructuredSummary,
+  StructuredSummarySchema,
+  StructuredSummarySection,
+} from "@/types/summary";
+
+/**
+ * Structured summary extraction
+ *
+ * Turns generated markdown into a StructuredSummary when generation
+ * completes. Every template asks for markdown headings, so sections are
+ * exact; takeaways and action items come from the lists under headings
+ * that name them ("Key Points", "Implementation Strategies", ...), and
+ * quotes from blockquotes.
+ */
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const LIST_ITEM_PATTERN = /^(?:[-*+]|\d+[.)])\s+(.+)$/;
+const ATTRIBUTION_PATTERN = /^(?:[-–—]{1,2})\s*(.+)$/;
+
+/** Headings whose lists are key takeaways */
+const TAKEAWAY_HEADING =
+  /takeaway|key (?:points?|ideas?|insights?|lessons?|principles?|concepts?)|main (?:points?|ideas?)|highlights/i;
+
+/** Headings whose lists are action items */
+const ACTION_HEADING =
+  /action|implement|appl(?:y|ication)|practic|exercise|next steps?|how to|strateg/i;
+
+/**
+ * Strip inline markdown so text matches what the reader renders
+ */
+export function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`~]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Top-level list items in a block of markdown
+ */
+function listItems(markdown: string): string[] {
+  return markdown
+    .split("\n")
+    .map((line) => LIST_ITEM_PATTERN.exec(line)?.[1]?.trim())
+    .filter((item): item is string => Boolean(item));
+}
+
+/**
+ * Blockquotes in the markdown, with a trailing "— Name" line as attribution
+ */
+function extractQuotes(lines: string[]): StructuredSummary["quotes"] {
+  const quotes: StructuredSummary["quotes"] = [];
+  let block: string[] = [];
+
+  const flush = () => {
+    const attribution = ATTRIBUTION_PATTERN.exec(block[block.length - 1] ?? "");
+    const textLines = attribution ? block.slice(0, -1) : block;
+    const text = textLines
+      .join(" ")
+      .trim()
+      .replace(/^["“*_]+|["”*_]+$/g, "")
+      .trim();
+
+    if (text) {
+      quotes.push(
+        attribution
+          ? { text, attribution: toPlainText(attribution[1]) }
+          : { text }
+      );
+    }
+    block = [];
+  };
+
+  for (const line of lines) {
+    if (line.startsWith(">")) {
+      block.push(line.replace(/^>\s?/, "").trim());
+    } else if (block.length > 0) {
+      flush();
+    }
+  }
+  if (block.length > 0) flush();
+
+  return quotes;
+}
+
+/**
+ * Derive the structured document from a summary's markdown
+ *
+ * Section ids are the slugs rehype-slug assigns the same headings, so the
+ * reader can link and observe sections without re-parsing the DOM.
+ *
+ * @param content Summary markdown
+ * @returns Validated StructuredSummary
+ * @throws ZodError if the extracted document is malformed
+ */
+export function structureSummary(content: string): StructuredSummary {
+  const slugger = new GithubSlugger();
+  const sections: StructuredSummarySection[] = [];
+  const overview: string[] = [];
+  const proseLines: string[] = [];
+  let title: string | undefined;
+  let inCodeBlock = false;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trimEnd();
+
+    if (line.trimStart().startsWith("```")) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const heading = inCodeBlock ? null : HEADING_PATTERN.exec(line);
+    if (heading) {
+      const text = toPlainText(heading[2]);
+      const id = slugger.slug(text);
+
+      // The opening h1 is the title, not a section
+      if (heading[1].length === 1 && !title && sections.length === 0) {
+        title = text;
+      } else {
+        sections.push({
+          id,
+          heading: text,
+          level: heading[1].length,
+          content: "",
+        });
+      }
+      continue;
+    }
+
+    if (!inCodeBlock) proseLines.push(line.trim());
+
+    const current = sections[sections.length - 1];
+    if (current) {
+      current.content += `${line}\n`;
+    } else {
+      overview.push(line);
+    }
+  }
+
+  for (const section of sections) {
+    section.content = section.content.trim();
+  }
+
+  const itemsUnder = (pattern: RegExp) =>
+    sections
+      .filter((section) => pattern.test(section.heading))
+      .flatMap((section) => listItems(section.content));
+
+  const overviewText = overview.join("\n").trim();
+
+  return StructuredSummarySchema.parse({
+    title,
+    overview: overviewText || undefined,
+    sections: sections.filter((section) => section.heading),
+    keyTakeaways: itemsUnder(TAKEAWAY_HEADING),
+    quotes: extractQuotes(proseLines),
+    actionItems: itemsUnder(ACTION_HEADING),
+  });
+}
+
+/**
+ * Structure a summary, or undefined if the markdown can't be structured
+ *
+ * Generation never fails over the structured form; the markdown is still
+ * the summary of record.
+ */
+export function tryStructureSummary(
+  content: string
+): StructuredSummary | undefined {
+  try {
+    return structureSummary(content);
+  } catch (error) {
+    console.warn("Failed to structure summary:", error);
+    return undefined;
+  }
+}
@@ -0,0 +1,169 @@
+import { Book } from "@/types/book";
+import {
+  SourceSection,
+  SummaryGenerationOptions,
+  SummaryGenerationResult,
+  SummaryStreamEvent,
+  SummaryType,
+} from "@/types/summary";
+import { validateInputs } from "./helpers";
+import { getSummaryProvider, ProviderUsage } from "./providers";
+import { assessSummaryQuality } from "./qualityCheck";
+import { LoadedSummarySource } from "./sources";
+import { tryStructureSummary } from "./structureSummary";
+
+/** Notes budget per map call (~200 words) */
+const MAP_MAX_TOKENS = 400;
+
+/** Map calls in flight at once */
+const MAP_CONCURRENCY = 3;
+
+/**
+ * Add provider usage from several calls together
+ */
+function sumUsage(
+  usages: Array<ProviderUsage | undefined>
+): ProviderUsage | undefined {
+  const reported = usages.filter((usage): usage is ProviderUsage =>
+    Boolean(usage)
+  );
+  if (reported.length === 0) return undefined;
+
+  return reported.reduce((total, usage) => ({
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    estimatedCost: (total.estimatedCost ?? 0) + (usage.estimatedCost ?? 0),
+  }));
+}
+
+/**
+ * Stream a summary grounded in a full-text source (map-reduce)
+ *
+ * Map: each chunk is condensed into notes by a separate completion, in
+ * parallel batches, with a `progress` event after each batch.
+ * Reduce: the notes, grouped per chapter in reading order, replace the
+ * catalogue description in the regular summary prompt; that final
+ * completion is streamed as `delta` events.
+ *
+ * Errors:
+ *  - Reported as a single `error` event. No fallback is attempted, since a
+ *    fallback summary would not be grounded in the uploaded text
+ */
+export async function* streamSourceSummary(
+  book: Book,
+  summaryType: SummaryType,
+  source: LoadedSummarySource,
+  options: SummaryGenerationOptions = {}
+): AsyncGenerator<SummaryStreamEvent> {
+  const startTime = performance.now();
+
+  try {
+    validateInputs(book, summaryType, options.template);
+
+    const provider = getSummaryProvider(options.provider);
+    const baseParams = provider.buildParams(book, summaryType, options);
+    const { chunks, chapters } = source;
+
+    // Map phase
+    const notes: string[] = new Array(chunks.length);
+    const usages: Array<ProviderUsage | undefined> = [];
+
+    for (let i = 0; i < chunks.length; i += MAP_CONCURRENCY) {
+      const batch = chunks.slice(i, i + MAP_CONCURRENCY);
+      const completions = await Promise.all(
+        batch.map((passage) =>
+          provider.completeSummary(
+            { ...baseParams, passage, maxTokens: MAP_MAX_TOKENS },
+            options
+          )
+        )
+      );
+
+      completions.forEach((completion, j) => {
+        notes[batch[j].index] = completion.content.trim();
+        usages.push(completion.usage);
+      });
+
+      yield {
+        type: "progress",
+        stage: "map",
+        completed: Math.min(i + MAP_CONCURRENCY, chunks.length),
+        total: chunks.length,
+      };
+    }
+
+    // Reduce phase: one section per chapter, parts in order
+    const sourceSections: SourceSection[] = chapters
+      .map((chapter, chapterIndex) => ({
+        title: chapter.title,
+        notes: chunks
+          .filter((chunk) => chunk.chapterIndex === chapterIndex)
+          .map((chunk) => notes[chunk.index])
+          .join("\n"),
+      }))
+      .filter((section) => section.notes);
+
+    const stream = provider.streamSummary(
+      { ...baseParams, sourceSections },
+      options
+    );
+    let content = "";
+
+    let next = await stream.next();
+    while (!next.done) {
+      content += next.value;
+      yield { type: "delta", content: next.value };
+      next = await stream.next();
+    }
+
+    if (!content.trim()) {
+      throw new Error(`No content generated by ${provider.id}`);
+    }
+    usages.push(next.value.usage);
+
+    const result: SummaryGenerationResult = {
+      content: content.trim(),
+      structured: tryStructureSummary(content.trim()),
+      generationTime: Math.round(performance.now() - startTime),
+      aiModel: baseParams.model!,
+      promptVersion: baseParams.promptVersion!,
+      language: baseParams.language,
+      usage: sumUsage(usages),
+      provider: provider.id,
+      generationMode: "primary",
+      metadata: {
+        bookDataSource: book.source,
+        hadBookDescription: Boolean(book.description),
+        source: source.descriptor,
+        notes: next.value.notes,
+      },
+    };
+
+    yield {
+      type: "done",
+      result: {
+        ...result,
+        // Judge truncation by the reduce completion, not the map phase
+        quality: assessSummaryQuality(
+          { ...result, usage: next.value.usage },
+          baseParams
+        ),
+      },
+    };
+  } catch (error) {
+    const generationTime = Math.round(performance.now() - startTime);
+
+    console.error(`Source summary error after ${generationTime}ms: `, {
+      error,
+      book: book.id,
+      source: source.descriptor,
+      summaryType,
+    });
+
+    yield {
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  BuiltInSummaryType,
+  isBuiltInSummaryType,
+  SUMMARY_TYPE_DESCRIPTIONS,
+  SummaryTemplate,
+  SummaryType,
+} from "@/types/summary";
+
+/**
+ * Built-in summary templates
+ *
+ * Why templates:
+ * - Built-in types are just seeded rows of the same shape users create,
+ *   so prompts, token limits and the selector all read one definition
+ * - Seeded into Convex (summaryTemplates) where they can be tuned without
+ *   a deploy; these constants are the seed and the offline fallback
+ */
+export const BUILT_IN_SUMMARY_TEMPLATES: Record<
+  BuiltInSummaryType,
+  SummaryTemplate
+> = {
+  concise: {
+    key: "concise",
+    ...SUMMARY_TYPE_DESCRIPTIONS.concise,
+    instructions: `- Provide a brief overview of the book's main premise and themes
+- Highlight 3-4 key points or takeaways
+- Keep it engaging but succinct`,
+    headings: ["Brief intro", "main points", "conclusion"],
+    targetWords: { min: 200, max: 400 },
+    builtIn: true,
+  },
+  detailed: {
+    key: "detailed",
+    ...SUMMARY_TYPE_DESCRIPTIONS.detailed,
+    instructions: `- Provide chapter-by-chapter or section-by-section analysis
+- Explain the book's structure and progression
+- Include major themes, concepts, and their development
+- Discuss key characters, events, or ideas as relevant`,
+    headings: ["Introduction", "main sections/chapters", "synthesis"],
+    targetWords: { min: 800, max: 1200 },
+    builtIn: true,
+  },
+  analysis: {
+    key: "analysis",
+    ...SUMMARY_TYPE_DESCRIPTIONS.analysis,
+    instructions: `- Analyze the book's themes, literary techniques, and significance
+- Discuss the author's style, approach, and effectiveness
+- Place the work in its broader context (historical, literary, cultural)
+- Evaluate strengths and potential limitations`,
+    headings: [
+      "Introduction",
+      "thematic analysis",
+      "literary assessment",
+      "conclusion",
+    ],
+    targetWords: { min: 600, max: 900 },
+    builtIn: true,
+  },
+  practical: {
+    key: "practical",
+    ...SUMMARY_TYPE_DESCRIPTIONS.practical,
+    instructions: `- Focus on actionable insights and lessons readers can apply
+- Highlight practical strategies, principles, or frameworks
+- Explain how to implement key concepts in real life
+- Include specific examples and applications`,
+    headings: [
+      "Key principles",
+      "implementation strategies",
+      "real-world applications",
+    ],
+    targetWords: { min: 400, max: 700 },
+    builtIn: true,
+  },
+};
+
+/**
+ * Built-in templates in selector order
+ */
+export function listBuiltInTemplates(): SummaryTemplate[] {
+  return Object.values(BUILT_IN_SUMMARY_TEMPLATES);
+}
+
+/**
+ * Resolve the template for a summary type
+ *
+ * A supplied template wins when it matches the type (seeded rows may have
+ * been tuned); built-in types otherwise use the constants.
+ *
+ * @throws Error for custom types without a matching template
+ */
+export function resolveSummaryTemplate(
+  summaryType: SummaryType,
+  template?: SummaryTemplate
+): SummaryTemplate {
+  if (template && template.key === summaryType) {
+    return template;
+  }
+  if (isBuiltInSummaryType(summaryType)) {
+    return BUILT_IN_SUMMARY_TEMPLATES[summaryType];
+  }
+  throw new Error(`Invalid summary type: ${summaryType}`);
+}
+
+/**
+ * Max tokens for a template: ~1.5 tokens per word of the upper target
+ */
+export function getTemplateMaxTokens(template: SummaryTemplate): number {
+  return Math.round(template.targetWords.max * 1.5);
+}
+
+/**
+ * Reading time label for a word range (~200 words per minute)
+ */
+export function formatTemplateReadTime(targetWords: {
+  min: number;
+  max: number;
+}): string {
+  const min = Math.max(1, Math.round(targetWords.min / 200));
+  const max = Math.max(min, Math.round(targetWords.max / 200));
+  if (min === max) {
+    return `${min} minute${min === 1 ? "" : "s"} read`;
+  }
+  return `${min}-${max} minutes read`;
+}
@@ -0,0 +1,132 @@
+import { Book } from "@/types/book";
+import {
+  DEFAULT_SUMMARY_LANGUAGE,
+  getLanguageName,
+  normalizeLanguageCode,
+  SummaryGenerationOptions,
+  SummaryGenerationResult,
+  SummaryStreamEvent,
+  SummaryType,
+} from "@/types/summary";
+import { getDefaultMaxTokens } from "./helpers";
+import { getSummaryProvider } from "./providers";
+import { tryStructureSummary } from "./structureSummary";
+
+/**
+ * The parts of an existing summary a translation is made from
+ *
+ * Metadata is optional because stored rows may predate it.
+ */
+export type TranslationSource = Pick<
+  SummaryGenerationResult,
+  "content" | "language" | "quality" | "promptVersion"
+> &
+  Partial<Pick<SummaryGenerationResult, "metadata">>;
+
+/**
+ * Stream a translation of an existing summary, emitting content deltas
+ * followed by the translated result.
+ *
+ * Why translate rather than regenerate:
+ * - One completion over the finished markdown is cheaper than generating
+ *   again, and a full-text summary would otherwise need its source re-read
+ * - The translation keeps the original's sections, so readers comparing
+ *   languages see the same summary
+ *
+ * The result keeps the original's prompt version, grounding and quality
+ * check (the check's word counts don't carry across languages), and
+ * records the original's language in `metadata.translatedFrom`.
+ *
+ * Errors:
+ *  - Reported as a single `error` event. No fallback is attempted, since
+ *    mock content would not be a translation of anything
+ */
+export async function* streamSummaryTranslation(
+  book: Book,
+  summaryType: SummaryType,
+  source: TranslationSource,
+  targetLanguage: string,
+  options: SummaryGenerationOptions = {}
+): AsyncGenerator<SummaryStreamEvent> {
+  const startTime = performance.now();
+  const fromLanguage = source.language ?? DEFAULT_SUMMARY_LANGUAGE;
+  const language = normalizeLanguageCode(targetLanguage);
+
+  if (!language) {
+    yield {
+      type: "error",
+      message: `Unsupported summary language: ${targetLanguage}`,
+    };
+    return;
+  }
+  if (language === fromLanguage) {
+    yield {
+      type: "error",
+      message: `Summary is already in ${getLanguageName(language)}`,
+    };
+    return;
+  }
+
+  try {
+    const provider = getSummaryProvider(options.provider);
+    const params = {
+      ...provider.buildParams(book, summaryType, options),
+      // Translations run a little longer than their source, and non-Latin
+      // scripts take more tokens per character
+      maxTokens: Math.max(
+        options.maxTokens ?? getDefaultMaxTokens(summaryType, options.template),
+        Math.ceil(source.content.length / 2)
+      ),
+      language,
+      translation: { content: source.content, fromLanguage },
+    };
+    const stream = provider.streamSummary(params, options);
+    let content = "";
+
+    let next = await stream.next();
+    while (!next.done) {
+      content += next.value;
+      yield { type: "delta", content: next.value };
+      next = await stream.next();
+    }
+
+    if (!content.trim()) {
+      throw new Error(`No translation generated by ${provider.id}`);
+    }
+
+    yield {
+      type: "done",
+      result: {
+        content: content.trim(),
+        structured: tryStructureSummary(content.trim()),
+        quality: source.quality,
+        generationTime: Math.round(performance.now() - startTime),
+        aiModel: params.model!,
+        promptVersion: source.promptVersion,
+        language,
+        usage: next.value.usage,
+        provider: provider.id,
+        generationMode: "primary",
+        metadata: {
+          bookDataSource: book.source,
+          hadBookDescription: Boolean(book.description),
+          ...source.metadata,
+          translatedFrom: fromLanguage,
+          notes: next.value.notes,
+        },
+      },
+    };
+  } catch (error) {
+    console.error("Summary translation error:", {
+      error,
+      book,
+      summaryType,
+      language,
+    });
+
+    yield {
+      type: "error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
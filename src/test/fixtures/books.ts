@@ -0,0 +1,30 @@
+/**
+ * Book fixtures for unit tests
+ */
+import type { Book } from "@/types/book";
+
+/**
+ * A Google Books result, with the ID the Google Books mapper gives it
+ *
+ * @param id - Google Books volume ID
+ * @param fields - Fields to set or override
+ */
+export function makeBook(id: string, fields: Partial<Book> = {}): Book {
+  return {
+    id: `google-books-${id}`,
+    title: `Book ${id}`,
+    authors: ["Author"],
+    source: "google-books",
+    originalId: id,
+    ...fields,
+  };
+}
+
+/**
+ * The book the summary generation tests summarize
+ */
+export const meditations: Book = makeBook("abc", {
+  title: "Meditations",
+  authors: ["Marcus Aurelius"],
+  description: "Private notes on Stoic philosophy.",
+});
@@ -24,6 +24,11 @@ import {
   getSummaryTypeDescription,
   getAllSummaryTypes,
   isValidSummaryType,
+  normalizeLanguageCode,
+  resolveSummaryLanguage,
+  getLanguageName,
+  SAME_AS_BOOK_LANGUAGE,
+  toMarcLanguageCode,
 } from "../summary";
 
 describe("Summary Types", () => {
@@ -302,6 +307,48 @@ describe("Utility Functions", () => {
       expect(key1).not.toBe(key3);
       expect(key2).not.toBe(key3);
     });
+
+    it("should keep English keys unchanged and suffix other languages", () => {
+      expect(createSummaryCacheKey("book_123", "concise", "en")).toBe(
+        "summary:book_123:concise"
+      );
+      expect(createSummaryCacheKey("book_123", "concise", "fr")).toBe(
+        "summary:book_123:concise:fr"
+      );
+    });
+  });
+
+  describe("summary languages", () => {
+    it("should normalize ISO 639-1, regional and MARC codes", () => {
+      expect(normalizeLanguageCode("fr")).toBe("fr");
+      expect(normalizeLanguageCode("pt-BR")).toBe("pt");
+      expect(normalizeLanguageCode("ger")).toBe("de");
+      expect(normalizeLanguageCode("xx")).toBeUndefined();
+      expect(normalizeLanguageCode(undefined)).toBeUndefined();
+    });
+
+    it("should map supported languages to MARC bibliographic codes", () => {
+      expect(toMarcLanguageCode("en")).toBe("eng");
+      expect(toMarcLanguageCode("fr")).toBe("fre");
+      expect(toMarcLanguageCode("zh-Hans")).toBe("chi");
+      expect(toMarcLanguageCode("ger")).toBe("ger");
+      expect(toMarcLanguageCode("xx")).toBeUndefined();
+    });
+
+    it("should resolve the book's language and fall back to English", () => {
+      expect(resolveSummaryLanguage(undefined)).toBe("en");
+      expect(resolveSummaryLanguage("es", { language: "fre" })).toBe("es");
+      expect(
+        resolveSummaryLanguage(SAME_AS_BOOK_LANGUAGE, { language: "fre" })
+      ).toBe("fr");
+      expect(resolveSummaryLanguage(SAME_AS_BOOK_LANGUAGE, {})).toBe("en");
+      expect(resolveSummaryLanguage("klingon")).toBe("en");
+    });
+
+    it("should name supported languages", () => {
+      expect(getLanguageName("ja")).toBe("Japanese");
+      expect(getLanguageName("xx")).toBe("xx");
+    });
   });
 
   describe("calculateReadingTime", () => {
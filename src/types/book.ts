@@ -81,8 +81,48 @@ export interface Book {
    * Only present for curated books (when isBookOfTheDay is true)
    */
   seedReason?: string;
+
+  /** Which source supplied each detail field, once details are merged */
+  provenance?: BookProvenance;
 }
 
+/**
+ * Detail fields filled from whichever source has them
+ *
+ * Identity fields (id, title, authors, links) always come from the
+ * book's own source.
+ */
+export const ENRICHABLE_BOOK_FIELDS = [
+  "description",
+  "publishedDate",
+  "publisher",
+  "pageCount",
+  "categories",
+  "language",
+  "isbn10",
+  "isbn13",
+  "thumbnail",
+  "smallThumbnail",
+  "mediumThumbnail",
+  "largeThumbnail",
+  "averageRating",
+  "ratingsCount",
+] as const;
+
+export type EnrichableBookField = (typeof ENRICHABLE_BOOK_FIELDS)[number];
+
+/** Source each detail field was taken from */
+export type BookProvenance = Partial<
+  Record<EnrichableBookField, "google-books" | "open-library">
+>;
+
+/** Detail fields from one source, as merged into a book */
+export type BookDetails = Partial<Pick<Book, EnrichableBookField>> &
+  Pick<Book, "source" | "provenance">;
+
+/** Age after which cached book details are fetched and merged again */
+export const BOOK_DETAILS_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
 /**
  * Zod schema for Book validation
  *
@@ -167,6 +207,24 @@ export interface SearchParams {
 
   /** Publication date filter (to year) */
   publishedBefore?: number;
+
+  /** Books to search: everything, or the user's own library */
+  scope?: SearchScope;
+
+  /** Category/subject filter */
+  category?: string;
+
+  /** Minimum average rating (1-5); unrated books never match */
+  minRating?: number;
+
+  /** Only books with a cover image */
+  hasCover?: boolean;
+
+  /** Only books with a description */
+  hasDescription?: boolean;
+
+  /** Result order (default: relevance) */
+  sortBy?: SearchSort;
 }
 
 export const SearchParamsSchema = z.object({
@@ -191,6 +249,15 @@ export const SearchParamsSchema = z.object({
     .min(1000)
     .max(new Date().getFullYear())
     .optional(),
+  scope: z.enum(["all", "library"]).optional(),
+  category: z
+    .string()
+    .max(100, "Category must be 100 characters or less")
+    .optional(),
+  minRating: z.number().min(1).max(5).optional(),
+  hasCover: z.boolean().optional(),
+  hasDescription: z.boolean().optional(),
+  sortBy: z.enum(["relevance", "rating", "date", "pageCount"]).optional(),
 });
 
 /**
@@ -215,8 +282,8 @@ export interface SearchResults {
   /** Query that generated these results */
   query: string;
 
-  /** API source for these results */
-  source: "google-books" | "open-library" | "combined";
+  /** API source for these results ("local" when answered from our own books) */
+  source: "google-books" | "open-library" | "combined" | "local";
 }
 
 export const SearchResultsSchema = z.object({
@@ -226,7 +293,7 @@ export const SearchResultsSchema = z.object({
   itemsPerPage: z.number().int().positive(),
   hasMore: z.boolean(),
   query: z.string(),
-  source: z.enum(["google-books", "open-library", "combined"]),
+  source: z.enum(["google-books", "open-library", "combined", "local"]),
 });
 
 /**
@@ -277,6 +344,12 @@ export type SearchQuery = string;
 /** API source type */
 export type ApiSource = "google-books" | "open-library" | "combined";
 
+/** Search scope: every book, or the user's favorites, read list and saved summaries */
+export type SearchScope = "all" | "library";
+
+/** Search result order: API relevance, or highest rated, newest, or longest first */
+export type SearchSort = "relevance" | "rating" | "date" | "pageCount";
+
 /** Book status for user interactions */
 export type BookStatus = "available" | "reading" | "completed" | "want-to-read";
 
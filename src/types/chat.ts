@@ -0,0 +1,130 @@
+import type { SummaryProviderId, SummaryType } from "./summary";
+
+/**
+ * Book chat (follow-up Q&A) types
+ **/
+
+/** Longest question accepted, in characters */
+export const MAX_CHAT_QUESTION_LENGTH = 2000;
+
+/**
+ * A passage of a stored summary offered to the model as context
+ *
+ * Passages are numbered S1, S2, ... in the prompt, and answers cite them
+ * by that reference.
+ */
+export interface BookChatPassage {
+  /** Reference cited in answers, e.g. "S3" */
+  ref: string;
+
+  summaryId: string;
+  summaryType: SummaryType;
+
+  /** Display name of the summary type, e.g. "Concise Summary" */
+  summaryTypeLabel: string;
+
+  /** Structured section id (absent for the overview) */
+  sectionId?: string;
+
+  heading: string;
+
+  /** Markdown of the passage, possibly shortened to fit the context */
+  content: string;
+}
+
+/**
+ * Everything an answer is grounded in
+ */
+export interface BookChatContext {
+  book: {
+    title: string;
+    authors: string[];
+    description?: string;
+  };
+
+  passages: BookChatPassage[];
+}
+
+/**
+ * A summary section an answer drew from
+ */
+export interface BookChatCitation {
+  summaryId: string;
+  summaryType: SummaryType;
+  summaryTypeLabel: string;
+  sectionId?: string;
+  heading: string;
+}
+
+/**
+ * One earlier turn of a thread, replayed to the model
+ */
+export interface BookChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Chat message processing status
+ *
+ * Questions are stored completed; answers start pending and stream in.
+ */
+export type BookChatMessageStatus =
+  | "pending"
+  | "streaming"
+  | "completed"
+  | "failed";
+
+/**
+ * A stored chat message, as returned by bookChats.getThread
+ */
+export interface BookChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  status: BookChatMessageStatus;
+  citations: BookChatCitation[];
+  aiModel?: string;
+  lastError?: string;
+  createdAt: number;
+}
+
+/**
+ * A chat thread about one book
+ */
+export interface BookChatThread {
+  id: string;
+  bookId: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A finished answer, ready to store
+ */
+export interface BookChatAnswer {
+  /** Answer markdown, with citation markers removed */
+  content: string;
+
+  citations: BookChatCitation[];
+
+  aiModel: string;
+  provider: SummaryProviderId;
+
+  /** Token usage information */
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    estimatedCost?: number;
+  };
+}
+
+/**
+ * Events emitted while an answer streams
+ */
+export type BookChatStreamEvent =
+  | { type: "delta"; content: string }
+  | { type: "done"; answer: BookChatAnswer }
+  | { type: "error"; message: string };
@@ -0,0 +1,109 @@
+import type {
+  StructuredSummary,
+  SummaryGenerationParams,
+  SummaryProviderId,
+} from "./summary";
+
+/**
+ * Book comparison (multi-book comparative summary) types
+ **/
+
+/** Fewest books a comparison can be made of */
+export const MIN_COMPARISON_BOOKS = 2;
+
+/** Most books a comparison can be made of */
+export const MAX_COMPARISON_BOOKS = 5;
+
+/**
+ * What the prompt needs to know about one compared book
+ */
+export type ComparisonBook = SummaryGenerationParams["book"];
+
+/**
+ * Comparison generation status (mirrors SummaryStatus)
+ */
+export type BookComparisonStatus =
+  | "pending"
+  | "generating"
+  | "completed"
+  | "failed";
+
+/**
+ * A compared book as shown alongside its comparison
+ */
+export interface BookComparisonBook {
+  /** External book identifier, as on summaries */
+  id: string;
+  title: string;
+  authors: string[];
+  thumbnail?: string;
+}
+
+/**
+ * A side-by-side comparison of two to five books
+ *
+ * Stored on its own rather than as a summary, since it belongs to no
+ * single book; it links every compared book instead.
+ */
+export interface BookComparison {
+  id: string;
+
+  /** Compared books, in the order they were picked */
+  books: BookComparisonBook[];
+
+  /** "A vs B", or "A, B and C" */
+  title: string;
+
+  /** Markdown; partial while generating */
+  content: string;
+
+  /** Structured form of the content, once completed */
+  structured?: StructuredSummary;
+
+  /** Language the content is written in (absent means English) */
+  language?: string;
+
+  status: BookComparisonStatus;
+  wordCount: number;
+  readingTime: number;
+  aiModel?: string;
+  errorMessage?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Title for a comparison: "A vs B", or "A, B and C" for more books
+ */
+export function getComparisonTitle(books: Array<{ title: string }>): string {
+  const titles = books.map((book) => book.title);
+  if (titles.length <= 2) {
+    return titles.join(" vs ");
+  }
+  return `${titles.slice(0, -1).join(", ")} and ${titles[titles.length - 1]}`;
+}
+
+/**
+ * Result of generating a comparison
+ */
+export interface BookComparisonResult {
+  content: string;
+  structured?: StructuredSummary;
+  generationTime: number;
+  aiModel: string;
+  provider: SummaryProviderId;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    estimatedCost?: number;
+  };
+}
+
+/**
+ * Events emitted while a comparison is streamed from the AI service
+ */
+export type BookComparisonStreamEvent =
+  | { type: "delta"; content: string }
+  | { type: "done"; result: BookComparisonResult }
+  | { type: "error"; message: string };
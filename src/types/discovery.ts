@@ -0,0 +1,89 @@
+import { z } from "zod";
+import type { SearchResults } from "./book";
+import type { SummaryGenerationResult, SummaryProviderId } from "./summary";
+
+/**
+ * Prompt mode discovery types
+ *
+ * In prompt mode the reader describes what they want ("a short book on
+ * stoicism for a busy engineer") instead of typing keywords. A model
+ * suggests candidate titles and search facets, which are resolved against
+ * the book search and returned as ranked results.
+ **/
+
+/** Search modes, as logged to search analytics */
+export type SearchMode = "searchMode" | "promptMode";
+
+/** Candidate titles asked for per prompt */
+export const DISCOVERY_CANDIDATE_COUNT = 8;
+
+/** Longest prompt accepted, in characters */
+export const MAX_DISCOVERY_PROMPT_LENGTH = 300;
+
+/**
+ * A book the model suggests for the prompt
+ */
+export interface DiscoveryCandidate {
+  title: string;
+  author?: string;
+  /** One line on why the book fits the prompt */
+  rationale: string;
+}
+
+/**
+ * Search facets the model reads from the prompt
+ */
+export interface DiscoveryFacets {
+  /** Subjects to search when candidates run short */
+  subjects?: string[];
+  /** ISO 639-1 language the reader asked for */
+  language?: string;
+  /** Upper bound for "short" books */
+  maxPageCount?: number;
+  /** Earliest publication year, for "recent" books */
+  publishedAfter?: number;
+}
+
+/**
+ * What the model made of a prompt
+ */
+export interface DiscoveryPlan {
+  candidates: DiscoveryCandidate[];
+  facets: DiscoveryFacets;
+}
+
+/**
+ * Ranked results for a prompt, with a rationale per book
+ */
+export interface DiscoveryResults extends SearchResults {
+  /** One-line rationale keyed by book ID */
+  rationales: Record<string, string>;
+  aiModel: string;
+  provider: SummaryProviderId;
+  /** Token usage of the model call, charged to the searcher's quota */
+  usage?: SummaryGenerationResult["usage"];
+}
+
+/**
+ * Zod schema for the JSON a model returns for a prompt
+ *
+ * Malformed candidates are dropped by the parser rather than failing the
+ * search, and facets the model got wrong are ignored.
+ */
+export const DiscoveryResponseSchema = z.object({
+  candidates: z.array(z.unknown()),
+  facets: z.unknown().optional(),
+});
+
+export const DiscoveryCandidateResponseSchema = z.object({
+  title: z.string().trim().min(1),
+  author: z.string().trim().optional(),
+  rationale: z.string().trim().min(1),
+});
+
+export const DiscoveryFacetsResponseSchema = z.object({
+  subjects: z.array(z.string().trim().min(1)).optional().catch(undefined),
+  language: z.string().length(2).optional().catch(undefined),
+  maxPageCount: z.number().int().positive().optional().catch(undefined),
+  publishedAfter: z.number().int().min(1000).optional().catch(undefined),
+});
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import type { StructuredSummary, SummaryType } from "./summary";
+
+/**
+ * Summary export types
+ **/
+
+/**
+ * Downloadable summary formats
+ *
+ * - markdown: the summary markdown with YAML front-matter
+ * - pdf: paginated document with a title page
+ * - epub: e-book for readers (Kindle via Send to Kindle, Apple Books, ...)
+ * - docx: Word document for editing
+ */
+export const SUMMARY_EXPORT_FORMATS = [
+  "markdown",
+  "pdf",
+  "epub",
+  "docx",
+] as const;
+
+export const SummaryExportFormatSchema = z.enum(SUMMARY_EXPORT_FORMATS);
+
+export type SummaryExportFormat = z.infer<typeof SummaryExportFormatSchema>;
+
+/** Display names for the download menus */
+export const SUMMARY_EXPORT_FORMAT_LABELS: Record<SummaryExportFormat, string> =
+  {
+    markdown: "Markdown",
+    pdf: "PDF",
+    epub: "EPUB",
+    docx: "Word (DOCX)",
+  };
+
+/**
+ * Cover image embedded in an export
+ */
+export interface ExportCover {
+  data: Uint8Array;
+
+  /** Only JPEG and PNG covers are embedded */
+  contentType: "image/jpeg" | "image/png";
+}
+
+/**
+ * Everything an export renders, gathered from the summary and books tables
+ */
+export interface SummaryExportDocument {
+  summaryId: string;
+  summaryType: SummaryType;
+
+  /** Display name of the summary type, e.g. "Concise Summary" */
+  summaryTypeLabel: string;
+
+  /** ISO 639-1 code of the content */
+  language: string;
+
+  content: string;
+  structured?: StructuredSummary;
+
+  /** Revision exported (absent for summaries predating revisions) */
+  revision?: number;
+
+  book: {
+    id: string;
+    title: string;
+    authors: string[];
+    publisher?: string;
+    publishedDate?: string;
+    pageCount?: number;
+    categories?: string[];
+    isbn?: string;
+    infoLink?: string;
+
+    /** Cover image URL, for formats that link rather than embed it */
+    coverUrl?: string;
+  };
+
+  cover?: ExportCover;
+
+  /** Model and prompt that generated the content */
+  aiModel: string;
+  promptVersion: string;
+
+  /** When the exported content was generated */
+  generatedAt: Date;
+
+  /** The exporting reader's highlights, in reading order */
+  highlights?: Array<{ text: string; note?: string }>;
+}
+
+/**
+ * A rendered export, ready to send
+ */
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  data: Uint8Array<ArrayBuffer>;
+}
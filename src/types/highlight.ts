@@ -0,0 +1,76 @@
+/**
+ * Summary highlight types
+ *
+ * Highlights mark a passage of a summary as the reader sees it, optionally
+ * with a note. They belong to one signed-in user and are anchored by the
+ * passage's text and surroundings rather than its position alone, so they
+ * can be found again after the summary is regenerated.
+ **/
+
+/** Highlight colors, in picker order */
+export const HIGHLIGHT_COLORS = ["yellow", "green", "blue", "pink"] as const;
+
+export type HighlightColor = (typeof HIGHLIGHT_COLORS)[number];
+
+export const DEFAULT_HIGHLIGHT_COLOR: HighlightColor = "yellow";
+
+/** Longest passage that can be highlighted, in characters */
+export const MAX_HIGHLIGHT_LENGTH = 2000;
+
+/** Longest note on a highlight, in characters */
+export const MAX_HIGHLIGHT_NOTE_LENGTH = 2000;
+
+/**
+ * Where a highlight sits in a summary's rendered text
+ *
+ * Offsets count characters of the rendered summary text (what the reader
+ * sees, without markdown syntax).
+ */
+export interface HighlightAnchor {
+  /** The highlighted text */
+  exact: string;
+
+  /** Text just before the highlight, to tell repeated passages apart */
+  prefix: string;
+
+  /** Text just after the highlight */
+  suffix: string;
+
+  /** Offset of the highlight in the revision it was anchored to */
+  start: number;
+
+  /** Section the highlight starts in, when under a heading */
+  sectionId?: string;
+}
+
+/**
+ * A reader's highlight on a summary
+ */
+export interface SummaryHighlight {
+  id: string;
+  summaryId: string;
+
+  /** Summary revision the anchor was last resolved against */
+  revision: number;
+
+  anchor: HighlightAnchor;
+  color: HighlightColor;
+  note?: string;
+
+  /** The passage couldn't be found in the latest revision */
+  orphaned: boolean;
+
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A highlight in the "My highlights" list, with what it was made on
+ */
+export interface HighlightListItem extends SummaryHighlight {
+  bookId: string;
+  bookTitle: string;
+
+  /** Display name of the summary type, e.g. "Concise Summary" */
+  summaryTypeLabel: string;
+}
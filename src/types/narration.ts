@@ -0,0 +1,111 @@
+/**
+ * Summary narration (text-to-speech) types
+ **/
+
+/**
+ * Registered text-to-speech backends
+ *
+ * - openai: OpenAI speech API
+ * - local: OpenAI-compatible speech server on this machine (Kokoro,
+ *   openedai-speech, LocalAI, ...), for offline development
+ * - fake: silent audio timed to the text, for tests and demos
+ */
+export const NARRATION_PROVIDER_IDS = ["openai", "local", "fake"] as const;
+
+export type NarrationProviderId = (typeof NARRATION_PROVIDER_IDS)[number];
+
+/**
+ * One piece of a summary to narrate, cut at a heading
+ *
+ * Sections longer than a request allows are split into several chunks
+ * that share a sectionId.
+ */
+export interface NarrationScriptChunk {
+  /** Position in the narration, from 0 */
+  index: number;
+
+  /** Id of the structured section read (absent for the opening overview) */
+  sectionId?: string;
+
+  /** Heading shown while the chunk plays */
+  heading: string;
+
+  /** Plain text to speak */
+  text: string;
+}
+
+/**
+ * Options for synthesizing speech
+ */
+export interface NarrationOptions {
+  /** Voice name (provider default if omitted) */
+  voice?: string;
+
+  /** Model to synthesize with (provider default if omitted) */
+  model?: string;
+
+  /** Language of the text (ISO 639-1), for engines that need a hint */
+  language?: string;
+}
+
+/**
+ * Audio synthesized for one chunk
+ */
+export interface SynthesizedAudio {
+  /** Encoded audio */
+  audio: Uint8Array<ArrayBuffer>;
+
+  /** MIME type of the audio, e.g. "audio/mpeg" */
+  contentType: string;
+
+  /** Duration, when the engine knows it (milliseconds) */
+  durationMs?: number;
+
+  /** Estimated cost of the request (USD) */
+  estimatedCost?: number;
+}
+
+/**
+ * Narration processing status
+ */
+export type NarrationStatus = "queued" | "running" | "completed" | "failed";
+
+/**
+ * A narrated chunk, ready to play
+ */
+export interface NarrationChunk {
+  index: number;
+  sectionId?: string;
+  heading: string;
+
+  /** URL of the chunk's audio file */
+  url: string | null;
+
+  durationMs?: number;
+}
+
+/**
+ * Narration of one summary revision, as returned to the client
+ */
+export interface SummaryNarration {
+  id: string;
+  summaryId: string;
+
+  /** Summary revision narrated */
+  revision: number;
+
+  provider: NarrationProviderId;
+  voice: string;
+  status: NarrationStatus;
+
+  /** MIME type of every chunk's audio */
+  contentType?: string;
+
+  /** Chunks narrated so far, in order */
+  chunks: NarrationChunk[];
+
+  /** Total chunks, once the script is built */
+  chunkCount?: number;
+
+  lastError?: string;
+}
@@ -0,0 +1,30 @@
+/**
+ * Reading position types
+ *
+ * Where a signed-in reader is in a summary, kept per user and summary so
+ * reading can resume on another device.
+ **/
+
+/** Progress (percent) at which a summary counts as read */
+export const READ_COMPLETE_PROGRESS = 95;
+
+/** Progress (percent) below which resuming isn't worth offering */
+export const RESUME_MIN_PROGRESS = 5;
+
+/**
+ * A reader's position in a summary
+ */
+export interface ReadingPosition {
+  summaryId: string;
+
+  /** Scroll progress through the summary, 0-100 */
+  progress: number;
+
+  /** Structured section being read, when under a heading */
+  sectionId?: string;
+
+  /** When progress first reached READ_COMPLETE_PROGRESS */
+  completedAt?: number;
+
+  updatedAt: number;
+}
@@ -0,0 +1,79 @@
+import type { Book } from "./book";
+
+/**
+ * Recommendation types
+ *
+ * "Recommended for you" picks are cached books scored by how much their
+ * categories and authors overlap with the books a user has favorited,
+ * added to their read list or saved summaries of, and with their recent
+ * searches. Each pick carries the signal that contributed most to it.
+ *
+ * Similar books work the same way for a single book, adding how often
+ * other readers favorited or listed both.
+ **/
+
+/** Picks shown in the "Recommended for you" feed */
+export const RECOMMENDATIONS_LIMIT = 12;
+
+/** How long a user's picks are reused before recomputing */
+export const RECOMMENDATIONS_TTL_MS = 60 * 60 * 1000;
+
+/** Interaction terms kept in users.preferences, most recent last */
+export const MAX_PREFERENCE_TERMS = 20;
+
+/**
+ * Where a recommendation signal comes from
+ */
+export type RecommendationSignalKind =
+  | "favorite"
+  | "readList"
+  | "savedSummary"
+  | "search";
+
+/**
+ * A book the user has shown interest in
+ */
+export interface RecommendationSeed {
+  kind: Exclude<RecommendationSignalKind, "search">;
+  book: Pick<Book, "id" | "title" | "authors" | "categories">;
+}
+
+/**
+ * Why a book was recommended: the signal that contributed most
+ */
+export interface RecommendationReason {
+  kind: RecommendationSignalKind;
+  /** Title of the seed book, or the search term */
+  label: string;
+}
+
+/**
+ * A recommended book with its score and reason
+ */
+export interface Recommendation<TBook = Book> {
+  book: TBook;
+  score: number;
+  reason: RecommendationReason;
+}
+
+/** Books shown in a book's "Similar books" rail */
+export const SIMILAR_BOOKS_LIMIT = 8;
+
+/** How long a book's similar books are reused before recomputing */
+export const SIMILAR_BOOKS_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What a similar book has in common with the book
+ */
+export type SimilarityReason = "author" | "category" | "coReaders";
+
+/**
+ * A book similar to another, with what they share
+ */
+export interface SimilarBook<TBook = Book> {
+  book: TBook;
+  score: number;
+  reasons: SimilarityReason[];
+  /** A shared category, for display */
+  category?: string;
+}
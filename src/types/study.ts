@@ -0,0 +1,167 @@
+import { z } from "zod";
+import type { SummaryProviderId } from "./summary";
+
+/**
+ * Study (flashcards and quizzes) types
+ *
+ * Study sets are generated from one completed summary for one user:
+ * flashcards reviewed on an SM-2 schedule, plus a multiple-choice quiz.
+ **/
+
+/** Flashcards asked for per study set */
+export const FLASHCARDS_PER_SET = 10;
+
+/** Quiz questions asked for per study set */
+export const QUIZ_QUESTIONS_PER_SET = 5;
+
+/** Answer options per quiz question */
+export const QUIZ_OPTION_COUNT = 4;
+
+/**
+ * How well a card was recalled, on the SM-2 scale
+ *
+ * - 0-2: forgotten (the card starts over)
+ * - 3: recalled with serious difficulty
+ * - 4: recalled after hesitation
+ * - 5: perfect recall
+ */
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+/**
+ * SM-2 scheduling state of a flashcard
+ */
+export interface FlashcardSchedule {
+  /** Multiplier for the next interval, at least 1.3 */
+  easeFactor: number;
+
+  /** Days until the card is next due */
+  interval: number;
+
+  /** Successful reviews in a row */
+  repetitions: number;
+
+  /** When the card is next due (ms since epoch) */
+  dueAt: number;
+}
+
+/**
+ * A question-and-answer card drawn from a summary
+ */
+export interface StudyFlashcard {
+  front: string;
+  back: string;
+
+  /** Summary section the card comes from, when known */
+  sectionId?: string;
+}
+
+/**
+ * A stored flashcard with its schedule, as shown for review
+ */
+export interface Flashcard extends StudyFlashcard, FlashcardSchedule {
+  id: string;
+  summaryId: string;
+  bookId: string;
+  bookTitle: string;
+  lastReviewedAt?: number;
+}
+
+/**
+ * A multiple-choice quiz question drawn from a summary
+ */
+export interface QuizQuestion {
+  question: string;
+
+  /** QUIZ_OPTION_COUNT answer options */
+  options: string[];
+
+  /** Index of the correct option */
+  correctIndex: number;
+
+  /** Why the answer is right, shown after answering */
+  explanation?: string;
+
+  /** Summary section the question comes from, when known */
+  sectionId?: string;
+}
+
+/**
+ * A summary section offered to the model to draw cards and questions from
+ */
+export interface StudySourceSection {
+  /** Structured section id (absent for the overview) */
+  id?: string;
+  heading: string;
+  content: string;
+}
+
+/**
+ * Study set generation status (mirrors SummaryStatus)
+ */
+export type StudySetStatus = "pending" | "generating" | "completed" | "failed";
+
+/**
+ * A user's flashcards and quiz for one summary
+ */
+export interface StudySet {
+  id: string;
+  summaryId: string;
+  status: StudySetStatus;
+  quiz: QuizQuestion[];
+  flashcardCount: number;
+
+  /** Flashcards due now */
+  dueCount: number;
+
+  /** Latest quiz result */
+  lastQuizScore?: { correct: number; total: number; takenAt: number };
+
+  errorMessage?: string;
+  createdAt: number;
+}
+
+/**
+ * Result of generating a study set
+ */
+export interface StudySetResult {
+  flashcards: StudyFlashcard[];
+  quiz: QuizQuestion[];
+  aiModel: string;
+  provider: SummaryProviderId;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    estimatedCost?: number;
+  };
+}
+
+/**
+ * Zod schema for the JSON a model returns for a study set
+ *
+ * Cards and questions refer to summary sections by heading; anything
+ * malformed is dropped by the parser rather than failing the set.
+ */
+export const StudySetResponseSchema = z.object({
+  flashcards: z.array(z.unknown()),
+  quiz: z.array(z.unknown()),
+});
+
+export const StudyFlashcardResponseSchema = z.object({
+  front: z.string().trim().min(1),
+  back: z.string().trim().min(1),
+  section: z.string().optional(),
+});
+
+export const QuizQuestionResponseSchema = z
+  .object({
+    question: z.string().trim().min(1),
+    options: z.array(z.string().trim().min(1)).length(QUIZ_OPTION_COUNT),
+    answer: z.number().int().min(0),
+    explanation: z.string().optional(),
+    section: z.string().optional(),
+  })
+  .refine((question) => question.answer < question.options.length, {
+    message: "Answer must be one of the options",
+    path: ["answer"],
+  });
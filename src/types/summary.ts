@@ -9,6 +9,12 @@ interface SummaryGenerationResult {
   /** Generated summary content */
   content: string;
 
+  /** Structured form of the content */
+  structured?: StructuredSummary;
+
+  /** Post-generation quality check (absent for mock content) */
+  quality?: SummaryQuality;
+
   /** Time taken to generate (milliseconds) */
   generationTime: number;
 
@@ -18,6 +24,9 @@ interface SummaryGenerationResult {
   /** Prompt version */
   promptVersion: string;
 
+  /** Language the content is written in (ISO 639-1 code) */
+  language?: string;
+
   /** Token usage information */
   usage?: {
     promptTokens: number;
@@ -26,19 +35,140 @@ interface SummaryGenerationResult {
     estimatedCost?: number;
   };
 
+  /** LLM provider that produced the content */
+  provider?: SummaryProviderId;
+
+  /** How the content was produced (primary model, fallback model or mock) */
+  generationMode: SummaryGenerationMode;
+
   /** Additional metadata */
   metadata: {
     bookDataSource: "google-books" | "open-library";
+    /** @deprecated Derived from `source`; kept for rows and analytics that predate it */
     hadBookDescription: boolean;
+    /** What the summary was grounded in */
+    source?: SummarySourceDescriptor;
+    /** Language of the summary this one was translated from */
+    translatedFrom?: string;
     notes?: string;
   };
 }
 
+/**
+ * Source text a summary was grounded in
+ *
+ * - metadata: title/authors/categories only (model general knowledge)
+ * - description: the catalogue description
+ * - fulltext: an ingested EPUB or plain-text copy of the book
+ */
+export type SummarySourceKind = "metadata" | "description" | "fulltext";
+
+export type SummarySourceFormat = "epub" | "text";
+
+export interface SummarySourceDescriptor {
+  kind: SummarySourceKind;
+  /** Full-text format (fulltext only) */
+  format?: SummarySourceFormat;
+  /** Uploaded or local file name (fulltext only) */
+  fileName?: string;
+  /** Characters of source text the model saw, across all chunks */
+  characterCount?: number;
+  /** Number of chunks summarized in the map phase (fulltext only) */
+  chunkCount?: number;
+  /** Chapter titles in reading order (fulltext only) */
+  chapters?: string[];
+}
+
+/**
+ * A chapter (or top-level section) extracted from a full-text source
+ */
+export interface SourceChapter {
+  title: string;
+  text: string;
+}
+
+/**
+ * A chunk of one chapter, small enough for a single map-phase call
+ *
+ * Chunks never span chapters, so every note traces back to one chapter.
+ */
+export interface SourceChunk {
+  /** Position among all chunks */
+  index: number;
+  /** Position of the owning chapter */
+  chapterIndex: number;
+  chapterTitle: string;
+  /** Part number within the chapter (1-based) */
+  part: number;
+  /** Total parts the chapter was split into */
+  partCount: number;
+  text: string;
+}
+
+/**
+ * Condensed notes for one chapter, fed to the reduce phase
+ */
+export interface SourceSection {
+  title: string;
+  notes: string;
+}
+/**
+ * LLM providers available for summary generation
+ *
+ * - openai: hosted OpenAI API
+ * - local: OpenAI-compatible local endpoint (Ollama, llama.cpp server)
+ * - fake: deterministic offline provider for tests and CI
+ */
+export type SummaryProviderId = "openai" | "local" | "fake";
+
+export const SUMMARY_PROVIDER_IDS = ["openai", "local", "fake"] as const;
+
+/**
+ * How a summary's content was produced
+ *
+ * - primary: the requested model answered
+ * - fallback: the primary model failed and an alternate model answered
+ * - mock: placeholder content (development only, never saved or shared)
+ */
+export type SummaryGenerationMode = "primary" | "fallback" | "mock";
+
+/**
+ * What to do when the primary model fails
+ *
+ * - fail: surface the error to the caller
+ * - mock-in-development: return mock content in development, fail elsewhere
+ * - alternate-model: retry once with the fallback model, then fail
+ */
+export type SummaryFallbackPolicy =
+  | "fail"
+  | "mock-in-development"
+  | "alternate-model";
+
+export const SUMMARY_FALLBACK_POLICIES = [
+  "fail",
+  "mock-in-development",
+  "alternate-model",
+] as const;
+
+/**
+ * Events emitted while a summary is streamed from the AI service
+ *
+ * Serialized as newline-delimited JSON by the streaming route.
+ */
+export type SummaryStreamEvent =
+  | { type: "delta"; content: string }
+  | { type: "progress"; stage: "map"; completed: number; total: number }
+  | { type: "done"; result: SummaryGenerationResult }
+  | { type: "error"; message: string };
+
 /**
  * Summary generation options
  */
 interface SummaryGenerationOptions {
-  /** AI model to use (defaults to gpt-4o-mini) */
+  /** LLM provider to use (defaults to SUMMARY_PROVIDER env or openai) */
+  provider?: SummaryProviderId;
+
+  /** AI model to use (defaults to the provider's default model) */
   model?: string;
 
   /** Maximum tokens to generate */
@@ -52,6 +182,24 @@ interface SummaryGenerationOptions {
 
   /** Timeout in milliseconds (default: 30000) */
   timeout?: number;
+
+  /** Behaviour when the primary model fails (default: SUMMARY_FALLBACK_POLICY env) */
+  fallbackPolicy?: SummaryFallbackPolicy;
+
+  /** Model for the alternate-model policy (default: SUMMARY_FALLBACK_MODEL env) */
+  fallbackModel?: string;
+
+  /** Template for the summary type (required for custom types) */
+  template?: SummaryTemplate;
+
+  /** Prompt variant version to use (weighted assignment if omitted or unknown) */
+  promptVersion?: string;
+
+  /**
+   * Language to write in: an ISO 639-1 code, or SAME_AS_BOOK_LANGUAGE for
+   * the book's own language (default: English)
+   */
+  language?: string;
 }
 
 /**
@@ -74,7 +222,7 @@ export interface SummaryService {
   /** Get available models */
   getAvailableModels(): string[];
 
-  /** Test the OpenAI connection */
+  /** Test the provider connection */
   testConnection(): Promise<boolean>;
 }
 
@@ -86,9 +234,82 @@ export interface SummaryService {
  */
 
 /**
- * Available summary types with different purposes and lengths
+ * Built-in summary types with different purposes and lengths
+ */
+export type BuiltInSummaryType =
+  | "concise"
+  | "detailed"
+  | "analysis"
+  | "practical";
+
+/**
+ * User-defined summary type, keyed by its Convex template ID
+ */
+export type CustomSummaryType = `custom:${string}`;
+
+/**
+ * Available summary types: built-ins plus user-defined templates
+ */
+export type SummaryType = BuiltInSummaryType | CustomSummaryType;
+
+export const BUILT_IN_SUMMARY_TYPES = [
+  "concise",
+  "detailed",
+  "analysis",
+  "practical",
+] as const satisfies readonly BuiltInSummaryType[];
+
+export const SummaryTypeSchema = z.union([
+  z.enum(BUILT_IN_SUMMARY_TYPES),
+  z.templateLiteral(["custom:", z.string().min(1)]),
+]);
+
+/**
+ * Summary template: everything the prompt needs to produce one type
+ *
+ * Built-in types are seeded templates; users can add their own (e.g.
+ * "Study guide with quiz questions", "Summary for a 12-year-old").
  */
-export type SummaryType = "concise" | "detailed" | "analysis" | "practical";
+export interface SummaryTemplate {
+  /** Summary type this template produces */
+  key: SummaryType;
+  /** Display name, also used as the prompt heading */
+  title: string;
+  /** Short description for the selector */
+  description: string;
+  /** Estimated reading time label, e.g. "2-3 minutes read" */
+  readTime: string;
+  /** Emoji shown alongside the title */
+  icon: string;
+  /** What the summary should cover, one instruction per line */
+  instructions: string;
+  /** Section headings, in order */
+  headings: string[];
+  /** Target length in words */
+  targetWords: { min: number; max: number };
+  /** Seeded built-in rather than user-defined */
+  builtIn: boolean;
+}
+
+export const SummaryTemplateSchema = z
+  .object({
+    key: SummaryTypeSchema,
+    title: z.string().trim().min(1).max(80),
+    description: z.string().max(200),
+    readTime: z.string().max(40),
+    icon: z.string().max(8),
+    instructions: z.string().trim().min(1).max(4000),
+    headings: z.array(z.string().trim().min(1).max(80)).max(20),
+    targetWords: z.object({
+      min: z.number().int().min(50),
+      max: z.number().int().max(3000),
+    }),
+    builtIn: z.boolean(),
+  })
+  .refine((template) => template.targetWords.min <= template.targetWords.max, {
+    message: "Minimum length must not exceed maximum length",
+    path: ["targetWords"],
+  });
 
 /**
  * Summary type enum for better IDE support
@@ -135,6 +356,250 @@ export const SUMMARY_TYPE_DESCRIPTIONS = {
  */
 export type SummaryStatus = "pending" | "generating" | "completed" | "failed";
 
+/**
+ * A section of a structured summary
+ */
+export interface StructuredSummarySection {
+  /** Anchor id, matching the slug rehype-slug gives the rendered heading */
+  id: string;
+
+  /** Heading text without the #'s */
+  heading: string;
+
+  /** Heading depth (2 for ##) */
+  level: number;
+
+  /** Markdown under the heading, up to the next heading */
+  content: string;
+}
+
+/**
+ * Structured form of a summary, stored next to its markdown
+ *
+ * Why structured:
+ * - The reader, share actions and exports address sections and takeaways
+ *   directly instead of re-parsing rendered headings
+ * - Derived from the generated markdown when generation completes, so
+ *   streaming, providers and fallbacks stay markdown-only
+ */
+export interface StructuredSummary {
+  /** Top-level heading, when the summary opens with one */
+  title?: string;
+
+  /** Text before the first section */
+  overview?: string;
+
+  /** Sections in reading order */
+  sections: StructuredSummarySection[];
+
+  /** Key points listed under a takeaways-style heading */
+  keyTakeaways: string[];
+
+  /** Blockquoted passages */
+  quotes: Array<{ text: string; attribution?: string }>;
+
+  /** Steps listed under an action/application-style heading */
+  actionItems: string[];
+}
+
+/**
+ * Zod schema for StructuredSummary validation
+ */
+export const StructuredSummarySchema = z.object({
+  title: z.string().min(1).optional(),
+  overview: z.string().min(1).optional(),
+  sections: z.array(
+    z.object({
+      id: z.string().min(1, "Section id is required"),
+      heading: z.string().min(1, "Section heading is required"),
+      level: z.number().int().min(1).max(6),
+      content: z.string(),
+    })
+  ),
+  keyTakeaways: z.array(z.string().min(1)),
+  quotes: z.array(
+    z.object({
+      text: z.string().min(1, "Quote text is required"),
+      attribution: z.string().min(1).optional(),
+    })
+  ),
+  actionItems: z.array(z.string().min(1)),
+});
+
+/**
+ * Problems the post-generation quality check can find
+ *
+ * - too_short: well under the template's target length
+ * - truncated: used the whole token budget, so likely cut off
+ * - missing_sections: fewer sections than the template's structure
+ * - unsupported_claims: chapter, character or quote claims in a summary
+ *   not grounded in any book text
+ */
+export type SummaryQualityIssueCode =
+  | "too_short"
+  | "truncated"
+  | "missing_sections"
+  | "unsupported_claims";
+
+export interface SummaryQualityIssue {
+  code: SummaryQualityIssueCode;
+  /** Reader-facing explanation */
+  message: string;
+}
+
+/**
+ * Result of the post-generation quality check, saved with the summary
+ */
+export interface SummaryQuality {
+  /** Confidence in the summary, 0 (none) to 1 (no issues found) */
+  score: number;
+  issues: SummaryQualityIssue[];
+}
+
+/** Confidence scores below this are flagged to readers */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/**
+ * Zod schema for SummaryQuality validation
+ */
+export const SummaryQualitySchema = z.object({
+  score: z.number().min(0).max(1),
+  issues: z.array(
+    z.object({
+      code: z.enum([
+        "too_short",
+        "truncated",
+        "missing_sections",
+        "unsupported_claims",
+      ]),
+      message: z.string().min(1),
+    })
+  ),
+});
+
+/**
+ * Summary languages
+ *
+ * Summaries are stored per language, keyed by ISO 639-1 code. Books carry
+ * whatever their catalogue reports: Google Books uses ISO 639-1 ("en"),
+ * Open Library MARC codes ("eng"), so both are normalized here.
+ */
+
+/** Language summaries are written in unless another is requested */
+export const DEFAULT_SUMMARY_LANGUAGE = "en";
+
+/** Generation option value meaning "the book's own language" */
+export const SAME_AS_BOOK_LANGUAGE = "book";
+
+/** Languages offered for generation and translation */
+export const SUMMARY_LANGUAGES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+  pl: "Polish",
+  ru: "Russian",
+  ja: "Japanese",
+  zh: "Chinese",
+  ko: "Korean",
+  ar: "Arabic",
+  hi: "Hindi",
+  tr: "Turkish",
+  sv: "Swedish",
+};
+
+/** MARC 21 language codes (Open Library) for the supported languages */
+const MARC_LANGUAGE_CODES: Record<string, string> = {
+  eng: "en",
+  spa: "es",
+  fre: "fr",
+  fra: "fr",
+  ger: "de",
+  deu: "de",
+  ita: "it",
+  por: "pt",
+  dut: "nl",
+  nld: "nl",
+  pol: "pl",
+  rus: "ru",
+  jpn: "ja",
+  chi: "zh",
+  zho: "zh",
+  kor: "ko",
+  ara: "ar",
+  hin: "hi",
+  tur: "tr",
+  swe: "sv",
+};
+
+/**
+ * Normalize a catalogue language code to a supported ISO 639-1 code
+ *
+ * @returns The code, or undefined if missing or unsupported
+ */
+export const normalizeLanguageCode = (
+  code: string | undefined
+): string | undefined => {
+  if (!code) return undefined;
+  // Region subtags ("pt-BR", "zh_Hans") don't change the summary language
+  const base = code.trim().toLowerCase().split(/[-_]/)[0];
+  const normalized = MARC_LANGUAGE_CODES[base] ?? base;
+  return normalized in SUMMARY_LANGUAGES ? normalized : undefined;
+};
+
+/**
+ * MARC 21 code for a supported language, as Open Library filters by
+ *
+ * @returns The code, or undefined if missing or unsupported
+ */
+export const toMarcLanguageCode = (
+  code: string | undefined
+): string | undefined => {
+  const language = normalizeLanguageCode(code);
+  if (!language) return undefined;
+  // The first code listed per language is the MARC bibliographic one
+  return Object.keys(MARC_LANGUAGE_CODES).find(
+    (marc) => MARC_LANGUAGE_CODES[marc] === language
+  );
+};
+
+/**
+ * Resolve a requested summary language to the code to generate in
+ *
+ * "Same as book" falls back to English when the book's language is
+ * missing or unsupported; unknown codes do too.
+ */
+export const resolveSummaryLanguage = (
+  requested: string | undefined,
+  book?: { language?: string }
+): string => {
+  const code =
+    requested === SAME_AS_BOOK_LANGUAGE
+      ? normalizeLanguageCode(book?.language)
+      : normalizeLanguageCode(requested);
+  return code ?? DEFAULT_SUMMARY_LANGUAGE;
+};
+
+/**
+ * Value for a stored row's `language` field
+ *
+ * English is stored as absent, so rows written before summaries had
+ * languages keep matching English lookups without a migration.
+ */
+export const toStoredLanguage = (
+  language: string = DEFAULT_SUMMARY_LANGUAGE
+): string | undefined => {
+  return language === DEFAULT_SUMMARY_LANGUAGE ? undefined : language;
+};
+
+/** Display name for a language code (the code itself if unsupported) */
+export const getLanguageName = (code: string): string => {
+  return SUMMARY_LANGUAGES[normalizeLanguageCode(code) ?? ""] ?? code;
+};
+
 /**
  * Core Summary interface
  */
@@ -157,6 +622,15 @@ export interface Summary {
   /** Generated summary content in markdown format */
   content: string;
 
+  /** Structured form of the content (absent on summaries predating it) */
+  structured?: StructuredSummary;
+
+  /** Language the content is written in (absent means English) */
+  language?: string;
+
+  /** Revision shown in content (absent on summaries predating revisions) */
+  revision?: number;
+
   /** Summary generation status */
   status: SummaryStatus;
 
@@ -184,6 +658,12 @@ export interface Summary {
   /** Error message if generation failed */
   errorMessage?: string;
 
+  /** How the content was produced (absent on summaries predating the field) */
+  generationMode?: SummaryGenerationMode;
+
+  /** Post-generation quality check (absent on summaries predating it) */
+  quality?: SummaryQuality;
+
   /** Additional metadata for analytics and debugging */
   metadata?: {
     /** Source of book information used for generation */
@@ -192,6 +672,12 @@ export interface Summary {
     /** Whether book had a description to work with */
     hadBookDescription: boolean;
 
+    /** What the summary was grounded in */
+    source?: SummarySourceDescriptor;
+
+    /** Language of the summary this one was translated from */
+    translatedFrom?: string;
+
     /** Number of prompt tokens used */
     promptTokens?: number;
 
@@ -214,8 +700,10 @@ export const SummarySchema = z.object({
   bookId: z.string().min(1, "Book ID is required"),
   bookTitle: z.string().min(1, "Book title is required"),
   bookAuthors: z.array(z.string()).min(1, "At least one author is required"),
-  summaryType: z.enum(["concise", "detailed", "analysis", "practical"]),
+  summaryType: SummaryTypeSchema,
   content: z.string().min(1, "Summary content is required"),
+  structured: StructuredSummarySchema.optional(),
+  language: z.string().optional(),
   status: z.enum(["pending", "generating", "completed", "failed"]),
   createdAt: z.date(),
   updatedAt: z.date(),
@@ -225,10 +713,23 @@ export const SummarySchema = z.object({
   aiModel: z.string().min(1, "AI model is required"),
   promptVersion: z.string().min(1, "Prompt version is required"),
   errorMessage: z.string().optional(),
+  generationMode: z.enum(["primary", "fallback", "mock"]).optional(),
+  quality: SummaryQualitySchema.optional(),
   metadata: z
     .object({
       bookDataSource: z.enum(["google-books", "open-library"]),
       hadBookDescription: z.boolean(),
+      source: z
+        .object({
+          kind: z.enum(["metadata", "description", "fulltext"]),
+          format: z.enum(["epub", "text"]).optional(),
+          fileName: z.string().optional(),
+          characterCount: z.number().int().min(0).optional(),
+          chunkCount: z.number().int().min(0).optional(),
+          chapters: z.array(z.string()).optional(),
+        })
+        .optional(),
+      translatedFrom: z.string().optional(),
       promptTokens: z.number().int().positive().optional(),
       completionTokens: z.number().int().positive().optional(),
       estimatedCost: z.number().positive().optional(),
@@ -249,6 +750,18 @@ export interface CreateSummaryInput {
 
   /** User ID if authenticated (for analytics) */
   userId?: string;
+
+  /** LLM provider to generate with */
+  provider?: SummaryProviderId;
+
+  /** Model to generate with (provider default if omitted) */
+  model?: string;
+
+  /** Template for the summary type (required for custom types) */
+  template?: SummaryTemplate;
+
+  /** Language to write in (ISO 639-1 code or SAME_AS_BOOK_LANGUAGE) */
+  language?: string;
 }
 
 export const CreateSummaryInputSchema = z.object({
@@ -260,8 +773,12 @@ export const CreateSummaryInputSchema = z.object({
     source: z.enum(["google-books", "open-library"]),
     originalId: z.string().min(1),
   }),
-  summaryType: z.enum(["concise", "detailed", "analysis", "practical"]),
+  summaryType: SummaryTypeSchema,
   userId: z.string().optional(),
+  provider: z.enum(SUMMARY_PROVIDER_IDS).optional(),
+  model: z.string().optional(),
+  template: SummaryTemplateSchema.optional(),
+  language: z.string().optional(),
 });
 
 /**
@@ -289,6 +806,33 @@ export interface SummaryGenerationParams {
 
   /** AI model to use */
   model?: string;
+
+  /**
+   * Map phase: a single full-text chunk to take notes on.
+   * The request produces notes rather than a finished summary.
+   */
+  passage?: SourceChunk;
+
+  /** Reduce phase: chapter notes from an ingested full-text source */
+  sourceSections?: SourceSection[];
+
+  /** Template for the summary type (built-in template if omitted) */
+  template?: SummaryTemplate;
+
+  /** Assigned prompt variant version (default prompts if omitted) */
+  promptVersion?: string;
+
+  /** Resolved ISO 639-1 language to write in (English if omitted) */
+  language?: string;
+
+  /**
+   * Translation: an existing summary to translate into `language`.
+   * The request produces the translated summary, not a new one.
+   */
+  translation?: {
+    content: string;
+    fromLanguage: string;
+  };
 }
 
 export const SummaryGenerationParamsSchema = z.object({
@@ -300,20 +844,26 @@ export const SummaryGenerationParamsSchema = z.object({
     publishedDate: z.string().optional(),
     pageCount: z.number().int().positive().optional(),
   }),
-  summaryType: z.enum(["concise", "detailed", "analysis", "practical"]),
+  summaryType: SummaryTypeSchema,
   additionalContext: z.string().optional(),
   maxTokens: z.number().int().positive().optional(),
   model: z.string().optional(),
+  language: z.string().optional(),
 });
 
 /**
  * Summary cache key helpers
+ *
+ * English keys keep their original form so existing cache entries stay valid.
  */
 export const createSummaryCacheKey = (
   bookId: string,
-  summaryType: SummaryType
+  summaryType: SummaryType,
+  language: string = DEFAULT_SUMMARY_LANGUAGE
 ): string => {
-  return `summary:${bookId}:${summaryType}`;
+  return language === DEFAULT_SUMMARY_LANGUAGE
+    ? `summary:${bookId}:${summaryType}`
+    : `summary:${bookId}:${summaryType}:${language}`;
 };
 
 /**
@@ -349,6 +899,20 @@ export const parseSummary = (data: unknown): Summary | null => {
   }
 };
 
+/** Safely parse and validate a StructuredSummary (undefined if invalid) */
+export const parseStructuredSummary = (
+  data: unknown
+): StructuredSummary | undefined => {
+  const result = StructuredSummarySchema.safeParse(data);
+  if (!result.success) {
+    if (data !== undefined) {
+      console.error("Structured summary validation failed:", result.error);
+    }
+    return undefined;
+  }
+  return result.data;
+};
+
 /** Safely parse and validate CreateSummaryInput */
 export const parseCreateSummaryInput = (
   data: unknown
@@ -394,29 +958,81 @@ export const isSummaryGenerationParams = (
 };
 
 export const isSummaryType = (obj: unknown): obj is SummaryType => {
-  return (
-    typeof obj === "string" &&
-    Object.values(SUMMARY_TYPES).includes(obj as SummaryType)
-  );
+  return SummaryTypeSchema.safeParse(obj).success;
+};
+
+export const isBuiltInSummaryType = (
+  type: string
+): type is BuiltInSummaryType => {
+  return (BUILT_IN_SUMMARY_TYPES as readonly string[]).includes(type);
+};
+
+export const isCustomSummaryType = (
+  type: string
+): type is CustomSummaryType => {
+  return type.startsWith("custom:") && type.length > "custom:".length;
+};
+
+/** Summary type key for a user-defined template */
+export const customSummaryType = (templateId: string): CustomSummaryType => {
+  return `custom:${templateId}`;
 };
 
 /**
  * Summary utility functions
  */
 
-/** Get summary type description for UI */
-export const getSummaryTypeDescription = (type: SummaryType) => {
-  return SUMMARY_TYPE_DESCRIPTIONS[type];
+/** Fallback display info for user-defined types */
+const CUSTOM_SUMMARY_TYPE_DESCRIPTION = {
+  title: "Custom Summary",
+  description: "Summary from your own template",
+  readTime: "Varies",
+  icon: "✏️",
+} as const;
+
+/** Get summary type description for UI (template wins for custom types) */
+export const getSummaryTypeDescription = (
+  type: SummaryType,
+  template?: Pick<
+    SummaryTemplate,
+    "title" | "description" | "readTime" | "icon"
+  >
+) => {
+  if (isBuiltInSummaryType(type)) {
+    return SUMMARY_TYPE_DESCRIPTIONS[type];
+  }
+  if (template) {
+    const { title, description, readTime, icon } = template;
+    return { title, description, readTime, icon };
+  }
+  return CUSTOM_SUMMARY_TYPE_DESCRIPTION;
+};
+
+/** Whether a summary holds mock content that must not be saved or shared */
+export const isMockSummary = (
+  summary: Pick<Summary, "generationMode">
+): boolean => {
+  return summary.generationMode === "mock";
+};
+
+/** Check if a summary's quality check flagged it as low confidence */
+export const isLowConfidenceSummary = (
+  summary: Pick<Summary, "quality">
+): boolean => {
+  return (
+    summary.quality !== undefined &&
+    summary.quality.score < LOW_CONFIDENCE_THRESHOLD
+  );
 };
 
-/** Get all available summary types */
-export const getAllSummaryTypes = (): SummaryType[] => {
+/** Get all built-in summary types */
+export const getAllSummaryTypes = (): BuiltInSummaryType[] => {
   return Object.values(SUMMARY_TYPES);
 };
 
-/** Check if a summary type is valid */
+/** Check if a summary type is valid (built-in or custom key) */
 export const isValidSummaryType = (type: string): type is SummaryType => {
-  return Object.values(SUMMARY_TYPES).includes(type as SummaryType);
+  return isSummaryType(type);
 };
 
 /**
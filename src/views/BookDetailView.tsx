@@ -24,14 +24,27 @@ import {
   type SummaryType,
 } from "@/components/summary/SummaryTypeSelector";
 import { SummaryGenerationProgress } from "@/components/summary/SummaryGenerationProgress";
+import { SummaryLanguagePicker } from "@/components/summary/SummaryLanguagePicker";
+import { SummaryReader } from "@/components/summary/SummaryReader";
+import { SummarySourcePicker } from "@/components/summary/SummarySourcePicker";
+import { SummaryTemplateSheet } from "@/components/summary/SummaryTemplateSheet";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
 import type { Book } from "@/types/book";
+import {
+  calculateReadingTime,
+  calculateWordCount,
+  DEFAULT_SUMMARY_LANGUAGE,
+} from "@/types/summary";
 import { useSummaryGeneration } from "@/hooks/useSummaryGeneration";
+import { useSummaryQuota } from "@/hooks/useSummaryQuota";
+import { useSummaryTemplates } from "@/hooks/useSummaryTemplates";
 import { useFavorites } from "@/hooks/useFavorites";
 import { useReadList, type ReadingStatus } from "@/hooks/useReadList";
 import { ReadingListDropdown } from "@/components/shared/ReadingListDropdown";
+import { AuthorBooks } from "@/components/recommendations/AuthorBooks";
+import { SimilarBooks } from "@/components/recommendations/SimilarBooks";
 
 interface BookDetailViewProps {
   /** Book data to display */
@@ -46,8 +59,14 @@ interface BookDetailViewProps {
  * Features:
  * - Hero section with blurred book cover background
  * - Elevated book card with comprehensive metadata
- * - Summary generation with type selection
+ * - Summary generation with type selection and live streamed preview
+ *   (runs as a server-side job, so leaving the page does not lose it)
+ * - Optional EPUB/TXT upload to ground the summary in the full text
+ * - Custom summary templates alongside the built-in types
+ * - Summary language, including the book's own language
+ * - Remaining generation quota on the summary type selector
  * - Add to favorites functionality (placeholder)
+ * - Similar books and more by the same author below the details
  * - Responsive design following design system
  * - Accessible with proper ARIA labels and keyboard navigation
  */
@@ -56,6 +75,14 @@ export function BookDetailView({ book, className }: BookDetailViewProps) {
   const [selectedSummaryType, setSelectedSummaryType] =
     useState<SummaryType>("concise");
   const [hasGeneratedSummary, setHasGeneratedSummary] = useState(false); // used when summary is generated the first time
+  const [sourceFile, setSourceFile] = useState<File | undefined>(undefined);
+  const [selectedLanguage, setSelectedLanguage] = useState(
+    DEFAULT_SUMMARY_LANGUAGE
+  );
+  const [templateSheetOpen, setTemplateSheetOpen] = useState(false);
+  const summaryTemplates = useSummaryTemplates();
+  const selectedTemplate = summaryTemplates.getTemplate(selectedSummaryType);
+  const { quota } = useSummaryQuota();
 
   // Initialize hooks for user interactions
   const {
@@ -79,6 +106,7 @@ export function BookDetailView({ book, className }: BookDetailViewProps) {
     isGenerating,
     error,
     progress,
+    partialContent,
     estimatedTime,
     generateSummary,
     canGenerate,
@@ -86,6 +114,10 @@ export function BookDetailView({ book, className }: BookDetailViewProps) {
     book,
     summaryType: selectedSummaryType,
     enabled: true,
+    background: true,
+    source: sourceFile ? { file: sourceFile } : undefined,
+    template: selectedTemplate,
+    language: selectedLanguage,
   });
 
   // Handlers for viewing existing summary
@@ -117,6 +149,27 @@ export function BookDetailView({ book, className }: BookDetailViewProps) {
     }
   }, [selectedSummaryType]);
 
+  // Restore the last chosen summary language
+  useEffect(() => {
+    const storedLanguage = localStorage.getItem("currentSummaryLanguage");
+    if (storedLanguage) {
+      setSelectedLanguage(storedLanguage);
+    }
+  }, []);
+
+  const handleLanguageChange = (language: string) => {
+    setSelectedLanguage(language);
+    localStorage.setItem("currentSummaryLanguage", language);
+  };
+
+  // Fall back to concise when a remembered custom template no longer exists
+  useEffect(() => {
+    if (!summaryTemplates.isLoading && !selectedTemplate) {
+      setSelectedSummaryType("concise");
+      localStorage.setItem("currentSummaryType", "concise");
+    }
+  }, [summaryTemplates.isLoading, selectedTemplate]);
+
   // Handlers for summary generation
   const handleGenerateSummary = () => {
     generateSummary();
@@ -411,6 +464,36 @@ export function BookDetailView({ book, className }: BookDetailViewProps) {
                         onValueChange={setSelectedSummaryType}
                         loading={isGenerating}
                         disabled={isGenerating || !canGenerate}
+                        customTemplates={summaryTemplates.customTemplates}
+                        onManageTemplates={() => setTemplateSheetOpen(true)}
+                        quota={quota}
+                      />
+
+                      <SummaryTemplateSheet
+                        open={templateSheetOpen}
+                        onOpenChange={setTemplateSheetOpen}
+                        templates={summaryTemplates.customTemplates}
+                        onCreate={summaryTemplates.createTemplate}
+                        onDelete={summaryTemplates.deleteTemplate}
+                        onCreated={(key) => {
+                          setSelectedSummaryType(key);
+                          localStorage.setItem("currentSummaryType", key);
+                          setTemplateSheetOpen(false);
+                        }}
+                        canEdit={summaryTemplates.isAuthenticated}
+                      />
+
+                      <SummaryLanguagePicker
+                        value={selectedLanguage}
+                        onValueChange={handleLanguageChange}
+                        bookLanguage={book.language}
+                        disabled={isGenerating}
+                      />
+
+                      <SummarySourcePicker
+                        file={sourceFile}
+                        onFileChange={setSourceFile}
+                        disabled={isGenerating}
                       />
 
                       {!isGenerating && !error && summary && (
@@ -435,12 +518,16 @@ export function BookDetailView({ book, className }: BookDetailViewProps) {
                           canRetry={!isGenerating}
                           summaryType={selectedSummaryType}
                           onRetry={handleRetryGeneration}
+                          isStreaming={partialContent !== undefined}
                         />
                       ) : (
                         <Button
                           onClick={handleGenerateSummary}
                           disabled={!canGenerate}
-                          className={cn("w-full", summary && "hidden")}
+                          className={cn(
+                            "w-full",
+                            summary && !sourceFile && "hidden"
+                          )}
                           size="lg"
                         >
                           <Sparkles className="h-4 w-4 mr-2" />
@@ -510,6 +597,19 @@ export function BookDetailView({ book, className }: BookDetailViewProps) {
       {/* Detailed Information Section */}
       <div className="px-4 sm:px-6 py-8">
         <div className="max-w-4xl mx-auto space-y-8">
+          {/* Live preview of a streaming summary */}
+          {isGenerating && partialContent && (
+            <SummaryReader
+              content={partialContent}
+              summaryType={selectedSummaryType}
+              wordCount={calculateWordCount(partialContent)}
+              readingTime={calculateReadingTime(
+                calculateWordCount(partialContent)
+              )}
+              isStreaming
+            />
+          )}
+
           {/* Description */}
           {book.description && (
             <Card>
@@ -582,6 +682,9 @@ export function BookDetailView({ book, className }: BookDetailViewProps) {
               </div>
             </CardContent>
           </Card>
+
+          <SimilarBooks bookId={book.id} />
+          <AuthorBooks book={book} />
         </div>
       </div>
     </div>
@@ -0,0 +1,284 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useUser, SignInButton } from "@clerk/nextjs";
+import Link from "next/link";
+import { Check, Loader2, Scale } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { BookCover } from "@/components/shared/BookCover";
+import MainContent from "@/components/shared/MainContent";
+import { useCompareBooks } from "@/hooks/useBookComparison";
+import { ErrorCategory, standardizeError } from "@/lib/standardizedError";
+import { cn } from "@/lib/utils";
+import {
+  getComparisonTitle,
+  MAX_COMPARISON_BOOKS,
+  MIN_COMPARISON_BOOKS,
+} from "@/types/comparison";
+import { DEFAULT_SUMMARY_LANGUAGE, SUMMARY_LANGUAGES } from "@/types/summary";
+
+const selectClassName =
+  "border-input flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50";
+
+const READING_STATUS_LABELS = {
+  "want-to-read": "Want to Read",
+  reading: "Reading",
+  completed: "Completed",
+} as const;
+
+/**
+ * CompareBooksView - Pick books from your library to compare side by side
+ *
+ * Features:
+ * - Picks 2-5 books from the user's favorites and read list
+ * - Preselects books passed as `?books=id1,id2`
+ * - Comparison language, English by default
+ * - Lists the user's earlier comparisons
+ */
+export function CompareBooksView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { isLoaded } = useUser();
+  const { books, comparisons, createComparison, isAuthenticated, isLoading } =
+    useCompareBooks();
+  const [selected, setSelected] = useState<string[]>(() =>
+    (searchParams.get("books") ?? "")
+      .split(",")
+      .filter(Boolean)
+      .slice(0, MAX_COMPARISON_BOOKS)
+  );
+  const [language, setLanguage] = useState(DEFAULT_SUMMARY_LANGUAGE);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Preselected books the user can't compare are dropped
+  const selectedBooks = selected
+    .map((id) => books.find((book) => book.id === id))
+    .filter((book) => book !== undefined);
+
+  const toggleBook = (bookId: string) => {
+    const ids = selectedBooks.map((book) => book.id);
+    setSelected(
+      ids.includes(bookId)
+        ? ids.filter((id) => id !== bookId)
+        : ids.length < MAX_COMPARISON_BOOKS
+          ? [...ids, bookId]
+          : ids
+    );
+  };
+
+  const handleCompare = async () => {
+    setIsCreating(true);
+    try {
+      const comparisonId = await createComparison(
+        selectedBooks.map((book) => book.id),
+        language === DEFAULT_SUMMARY_LANGUAGE ? undefined : language
+      );
+      router.push(`/comparisons/${comparisonId}`);
+    } catch (error) {
+      const standardized = standardizeError(error);
+      toast.error(
+        standardized.category === ErrorCategory.QUOTA
+          ? standardized.userMessage
+          : "Failed to start the comparison. Please try again."
+      );
+      console.error("Error creating comparison:", error);
+      setIsCreating(false);
+    }
+  };
+
+  // Loading state
+  if (!isLoaded || isLoading) {
+    return (
+      <MainContent maxWidth="2xl" padding="lg">
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </MainContent>
+    );
+  }
+
+  // Not signed in
+  if (!isAuthenticated) {
+    return (
+      <MainContent maxWidth="md" padding="lg">
+        <div className="max-w-md mx-auto text-center">
+          <div className="mb-6 flex justify-center">
+            <div className="p-4 bg-primary/10 rounded-full">
+              <Scale className="h-12 w-12 text-primary" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold mb-4">Compare Books</h1>
+          <p className="text-muted-foreground mb-8">
+            Sign in to compare books from your favorites and reading list.
+          </p>
+          <SignInButton mode="modal">
+            <Button size="lg">Sign In to Continue</Button>
+          </SignInButton>
+        </div>
+      </MainContent>
+    );
+  }
+
+  const canCompare =
+    selectedBooks.length >= MIN_COMPARISON_BOOKS &&
+    selectedBooks.length <= MAX_COMPARISON_BOOKS;
+
+  return (
+    <MainContent maxWidth="2xl" padding="lg">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Compare Books</h1>
+        <p className="text-muted-foreground">
+          Pick {MIN_COMPARISON_BOOKS} to {MAX_COMPARISON_BOOKS} books for a
+          side-by-side look at their themes, approach and takeaways.
+        </p>
+      </div>
+
+      {books.length < MIN_COMPARISON_BOOKS ? (
+        <div className="text-center py-16">
+          <p className="text-muted-foreground mb-4">
+            Add at least {MIN_COMPARISON_BOOKS} books to your favorites or
+            reading list to compare them.
+          </p>
+          <Button asChild>
+            <Link href="/">Discover Books</Link>
+          </Button>
+        </div>
+      ) : (
+        <>
+          {/* Book picker */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-8">
+            {books.map((book) => {
+              const isSelected = selected.includes(book.id);
+              const isFull =
+                !isSelected && selectedBooks.length >= MAX_COMPARISON_BOOKS;
+
+              return (
+                <button
+                  key={book.id}
+                  type="button"
+                  onClick={() => toggleBook(book.id)}
+                  disabled={isFull || isCreating}
+                  aria-pressed={isSelected}
+                  className={cn(
+                    "relative flex items-start gap-3 rounded-lg border p-3 text-left transition-colors",
+                    isSelected
+                      ? "border-primary bg-primary/5"
+                      : "hover:border-primary/50",
+                    isFull && "opacity-50 cursor-not-allowed"
+                  )}
+                >
+                  <BookCover
+                    title={book.title}
+                    authors={book.authors}
+                    src={book.thumbnail}
+                    size="small"
+                    clickable={false}
+                    className="flex-shrink-0"
+                  />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <p className="font-medium leading-tight line-clamp-2">
+                      {book.title}
+                    </p>
+                    <p className="text-sm text-muted-foreground line-clamp-1">
+                      {book.authors.join(", ")}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {book.favorite && (
+                        <Badge variant="secondary">Favorite</Badge>
+                      )}
+                      {book.readingStatus && (
+                        <Badge variant="outline">
+                          {READING_STATUS_LABELS[book.readingStatus]}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  {isSelected && (
+                    <span className="absolute right-2 top-2 flex h-5 w-5 items-center justify-center rounded-full bg-primary text-primary-foreground">
+                      <Check className="h-3 w-3" />
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Compare bar */}
+          <div className="flex flex-col gap-4 rounded-lg border p-4 sm:flex-row sm:items-end">
+            <div className="flex-1 min-w-0">
+              <p className="font-medium truncate">
+                {selectedBooks.length > 0
+                  ? getComparisonTitle(selectedBooks)
+                  : "No books selected"}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {selectedBooks.length} of {MAX_COMPARISON_BOOKS} selected
+              </p>
+            </div>
+            <div className="space-y-2 sm:w-48">
+              <Label
+                htmlFor="comparison-language"
+                className="text-sm text-muted-foreground"
+              >
+                Language
+              </Label>
+              <select
+                id="comparison-language"
+                className={selectClassName}
+                value={language}
+                onChange={(event) => setLanguage(event.target.value)}
+                disabled={isCreating}
+              >
+                {Object.entries(SUMMARY_LANGUAGES).map(([code, name]) => (
+                  <option key={code} value={code}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button
+              onClick={handleCompare}
+              disabled={!canCompare || isCreating}
+            >
+              {isCreating ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Scale className="h-4 w-4 mr-2" />
+              )}
+              Compare
+            </Button>
+          </div>
+        </>
+      )}
+
+      {/* Earlier comparisons */}
+      {comparisons.length > 0 && (
+        <div className="mt-12">
+          <h2 className="text-xl font-semibold mb-4">Your Comparisons</h2>
+          <div className="space-y-2">
+            {comparisons.map((comparison) => (
+              <Link
+                key={comparison.id}
+                href={`/comparisons/${comparison.id}`}
+                className="flex items-center justify-between gap-4 rounded-lg border px-4 py-3 hover:border-primary/50 transition-colors"
+              >
+                <span className="font-medium truncate">{comparison.title}</span>
+                <span className="text-sm text-muted-foreground shrink-0">
+                  {comparison.status === "completed"
+                    ? new Date(comparison.createdAt).toLocaleDateString()
+                    : comparison.status}
+                </span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+    </MainContent>
+  );
+}
+
+export default CompareBooksView;
@@ -0,0 +1,286 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  AlertCircle,
+  BookOpen,
+  Bookmark,
+  BookmarkCheck,
+  Copy,
+  Loader2,
+  Scale,
+  Share2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "../lib/utils";
+import { SummaryReader } from "../components/summary/SummaryReader";
+import { BookCover } from "../components/shared/BookCover";
+import { Card, CardContent } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Progress } from "../components/ui/progress";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "../components/ui/dropdown-menu";
+import { useBookComparison } from "../hooks/useBookComparison";
+import { getLanguageName, parseStructuredSummary } from "../types/summary";
+
+interface ComparisonReadingViewProps {
+  /** ID of the comparison to display */
+  comparisonId: string;
+  /** Custom className for styling */
+  className?: string;
+}
+
+/**
+ * ComparisonReadingView - Reading experience for a multi-book comparison
+ *
+ * Features:
+ * - The compared books, each linking to its detail page
+ * - Comparison content streamed live while it is written
+ * - Save to the user's collection and share by link
+ * - Reading progress tracking
+ * - Loading, failed and not-found states
+ */
+export function ComparisonReadingView({
+  comparisonId,
+  className,
+}: ComparisonReadingViewProps) {
+  const router = useRouter();
+  const [readingProgress, setReadingProgress] = React.useState(0);
+  const { comparison, isSaved, toggleSave, isAuthenticated, isLoading } =
+    useBookComparison(comparisonId);
+
+  const handleSave = async () => {
+    if (!isAuthenticated) {
+      toast.error("Please sign in to save comparisons");
+      return;
+    }
+
+    try {
+      await toggleSave();
+      toast.success(
+        isSaved
+          ? "Comparison removed from saved summaries"
+          : "Comparison saved to your collection"
+      );
+    } catch (error) {
+      toast.error("Failed to save comparison. Please try again.");
+      console.error("Error saving comparison:", error);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      const url = `${window.location.origin}/comparisons/${comparisonId}`;
+      await navigator.clipboard.writeText(url);
+      toast.success("Comparison link copied to clipboard");
+    } catch (error) {
+      toast.error("Failed to copy link. Please try again.");
+      console.error("Error copying link:", error);
+    }
+  };
+
+  const handleShareTwitter = () => {
+    const url = `${window.location.origin}/comparisons/${comparisonId}`;
+    const text = `Check out this comparison: ${comparison?.title ?? "books"}`;
+    const twitterUrl = `https://twitter.com/intent/tweet?text=${encodeURIComponent(text)}&url=${encodeURIComponent(url)}`;
+    window.open(twitterUrl, "_blank", "noopener,noreferrer");
+  };
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className={cn("min-h-screen bg-background", className)}>
+        <div className="container mx-auto px-4 py-16">
+          <div className="flex flex-col items-center justify-center space-y-6 text-center">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            <h2 className="text-xl font-semibold">Loading Comparison</h2>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Not found
+  if (!comparison) {
+    return (
+      <div className={cn("min-h-screen bg-background", className)}>
+        <div className="container mx-auto px-4 py-16">
+          <div className="max-w-2xl mx-auto">
+            <Card className="border-destructive/20">
+              <CardContent className="pt-6">
+                <div className="flex flex-col items-center space-y-6 text-center">
+                  <div className="flex h-12 w-12 items-center justify-center rounded-full bg-destructive/10">
+                    <AlertCircle className="h-6 w-6 text-destructive" />
+                  </div>
+                  <div className="space-y-2">
+                    <h2 className="text-xl font-semibold">
+                      Comparison Not Found
+                    </h2>
+                    <p className="text-muted-foreground">
+                      We couldn&apos;t find the comparison you&apos;re looking
+                      for. It may have been removed or the link is invalid.
+                    </p>
+                  </div>
+                  <Button
+                    onClick={() => router.push("/")}
+                    className="min-w-[120px]"
+                  >
+                    <BookOpen className="h-4 w-4 mr-2" />
+                    Browse Books
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const isGenerating =
+    comparison.status === "pending" || comparison.status === "generating";
+  const isCompleted = comparison.status === "completed";
+
+  return (
+    <div className={cn("min-h-screen bg-background", className)}>
+      {/* Reading progress */}
+      {isCompleted && (
+        <Progress
+          value={readingProgress}
+          smooth
+          variant="reading"
+          className="fixed top-[60px] left-0 right-0 z-40 h-1 rounded-none"
+        />
+      )}
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-8">
+          {/* Header */}
+          <header className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-2 min-w-0">
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Scale className="h-4 w-4" />
+                  Book Comparison
+                  {comparison.language &&
+                    ` · ${getLanguageName(comparison.language)}`}
+                </p>
+                <h1 className="text-2xl md:text-3xl font-bold">
+                  {comparison.title}
+                </h1>
+              </div>
+
+              {isCompleted && (
+                <div className="flex shrink-0 gap-2">
+                  <Button variant="outline" size="sm" onClick={handleSave}>
+                    {isSaved ? (
+                      <BookmarkCheck className="h-4 w-4 mr-2" />
+                    ) : (
+                      <Bookmark className="h-4 w-4 mr-2" />
+                    )}
+                    {isSaved ? "Saved" : "Save"}
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        <Share2 className="h-4 w-4 mr-2" />
+                        Share
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={handleCopyLink}>
+                        <Copy className="h-4 w-4 mr-2" />
+                        Copy Link
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={handleShareTwitter}>
+                        Share on Twitter
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              )}
+            </div>
+
+            {/* Compared books */}
+            <div className="flex flex-wrap gap-4">
+              {comparison.books.map((book) => (
+                <Link
+                  key={book.id}
+                  href={`/book/${book.id}`}
+                  className="flex w-40 items-start gap-2 group"
+                >
+                  <BookCover
+                    title={book.title}
+                    authors={book.authors}
+                    src={book.thumbnail}
+                    size="small"
+                    clickable={false}
+                    className="flex-shrink-0"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium leading-tight line-clamp-3 group-hover:underline">
+                      {book.title}
+                    </p>
+                    <p className="text-xs text-muted-foreground line-clamp-1">
+                      {book.authors.join(", ")}
+                    </p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </header>
+
+          {/* Failed */}
+          {comparison.status === "failed" && (
+            <Card className="border-destructive/20">
+              <CardContent className="pt-6">
+                <div className="flex flex-col items-center space-y-4 text-center">
+                  <AlertCircle className="h-6 w-6 text-destructive" />
+                  <p className="text-muted-foreground">
+                    This comparison couldn&apos;t be finished.
+                  </p>
+                  <Button asChild variant="outline">
+                    <Link
+                      href={`/compare?books=${comparison.books.map((book) => encodeURIComponent(book.id)).join(",")}`}
+                    >
+                      Try Again
+                    </Link>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Waiting for the first words */}
+          {isGenerating && !comparison.content && (
+            <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Comparing {comparison.books.length} books...
+            </div>
+          )}
+
+          {/* Content */}
+          {comparison.content && (
+            <SummaryReader
+              content={comparison.content}
+              structured={parseStructuredSummary(comparison.structured)}
+              summaryType="analysis"
+              wordCount={comparison.wordCount}
+              readingTime={comparison.readingTime}
+              isStreaming={isGenerating}
+              onProgressChange={setReadingProgress}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default ComparisonReadingView;
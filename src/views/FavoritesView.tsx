@@ -5,10 +5,11 @@ import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { BookCard } from "@/components/shared/BookCard";
 import { Button } from "@/components/ui/button";
-import { Heart, Loader2 } from "lucide-react";
+import { Heart, Loader2, Scale } from "lucide-react";
 import Link from "next/link";
 import MainContent from "@/components/shared/MainContent";
 import type { Book } from "@/types/book";
+import { MIN_COMPARISON_BOOKS } from "@/types/comparison";
 
 
 export function FavoritesView() {
@@ -58,15 +59,26 @@ export function FavoritesView() {
 
   return (
     <MainContent maxWidth="2xl" padding="lg">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">My Favorites</h1>
-        <p className="text-muted-foreground">
-          {favoritesWithBooks.length === 0
-            ? "You haven't favorited any books yet"
-            : `${favoritesWithBooks.length} ${
-                favoritesWithBooks.length === 1 ? "book" : "books"
-              } saved`}
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">My Favorites</h1>
+          <p className="text-muted-foreground">
+            {favoritesWithBooks.length === 0
+              ? "You haven't favorited any books yet"
+              : `${favoritesWithBooks.length} ${
+                  favoritesWithBooks.length === 1 ? "book" : "books"
+                } saved`}
+          </p>
+        </div>
+
+        {favoritesWithBooks.length >= MIN_COMPARISON_BOOKS && (
+          <Button asChild variant="outline" size="sm" className="shrink-0">
+            <Link href="/compare">
+              <Scale className="h-4 w-4 mr-2" />
+              Compare Books
+            </Link>
+          </Button>
+        )}
       </div>
 
       {favoritesWithBooks.length === 0 ? (
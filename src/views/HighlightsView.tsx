@@ -0,0 +1,194 @@
+"use client";
+
+import Link from "next/link";
+import { useUser, SignInButton } from "@clerk/nextjs";
+import { Highlighter, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import MainContent from "@/components/shared/MainContent";
+import { useMyHighlights } from "@/hooks/useSummaryHighlights";
+import type { HighlightColor, HighlightListItem } from "@/types/highlight";
+
+/** Quote bar color per highlight color */
+const COLOR_BARS: Record<HighlightColor, string> = {
+  yellow: "border-yellow-400",
+  green: "border-green-400",
+  blue: "border-sky-400",
+  pink: "border-pink-400",
+};
+
+/**
+ * Group highlights by summary, keeping the most recently edited first
+ */
+function groupBySummary(highlights: HighlightListItem[]) {
+  const groups = new Map<string, HighlightListItem[]>();
+  for (const highlight of highlights) {
+    const group = groups.get(highlight.summaryId) ?? [];
+    group.push(highlight);
+    groups.set(highlight.summaryId, group);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * HighlightsView - Every highlight and note the reader has made
+ *
+ * Features:
+ * - Highlights grouped by summary, most recently edited first
+ * - Each quote with its color and note
+ * - Links back to the section a highlight is in
+ * - Flags highlights whose passage is gone from the latest revision
+ * - Delete highlights that are no longer wanted
+ */
+export function HighlightsView() {
+  const { isLoaded } = useUser();
+  const { highlights, deleteHighlight, isAuthenticated, isLoading } =
+    useMyHighlights();
+
+  const handleDelete = async (highlightId: string) => {
+    try {
+      await deleteHighlight(highlightId);
+      toast.success("Highlight removed");
+    } catch (error) {
+      toast.error("Failed to remove highlight. Please try again.");
+      console.error("Error deleting highlight:", error);
+    }
+  };
+
+  // Loading state
+  if (!isLoaded || isLoading) {
+    return (
+      <MainContent maxWidth="2xl" padding="lg">
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </MainContent>
+    );
+  }
+
+  // Not signed in
+  if (!isAuthenticated) {
+    return (
+      <MainContent maxWidth="md" padding="lg">
+        <div className="max-w-md mx-auto text-center">
+          <div className="mb-6 flex justify-center">
+            <div className="p-4 bg-primary/10 rounded-full">
+              <Highlighter className="h-12 w-12 text-primary" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold mb-4">My Highlights</h1>
+          <p className="text-muted-foreground mb-8">
+            Sign in to highlight passages of summaries and keep notes on them.
+          </p>
+          <SignInButton mode="modal">
+            <Button size="lg">Sign In to Continue</Button>
+          </SignInButton>
+        </div>
+      </MainContent>
+    );
+  }
+
+  const groups = groupBySummary(highlights);
+
+  return (
+    <MainContent maxWidth="2xl" padding="lg">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">My Highlights</h1>
+        <p className="text-muted-foreground">
+          {highlights.length === 0
+            ? "You haven't highlighted anything yet"
+            : `${highlights.length} ${
+                highlights.length === 1 ? "highlight" : "highlights"
+              } across ${groups.length} ${
+                groups.length === 1 ? "summary" : "summaries"
+              }`}
+        </p>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="text-center py-16">
+          <p className="text-muted-foreground mb-4">
+            Select text in any summary to highlight it or add a note.
+          </p>
+          <Button asChild>
+            <Link href="/saved-summaries">Open Your Summaries</Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {groups.map((group) => {
+            const [first] = group;
+            return (
+              <Card key={first.summaryId}>
+                <CardHeader>
+                  <CardTitle className="text-lg">
+                    <Link
+                      href={`/summaries/${first.summaryId}`}
+                      className="hover:text-primary transition-colors"
+                    >
+                      {first.bookTitle}
+                    </Link>
+                  </CardTitle>
+                  <CardDescription>{first.summaryTypeLabel}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {group.map((highlight) => (
+                    <div
+                      key={highlight.id}
+                      className="flex items-start justify-between gap-3"
+                    >
+                      <div className="min-w-0 flex-1 space-y-2">
+                        <Link
+                          href={`/summaries/${highlight.summaryId}${
+                            highlight.anchor.sectionId
+                              ? `#${highlight.anchor.sectionId}`
+                              : ""
+                          }`}
+                          className={cn(
+                            "block border-l-4 pl-4 italic text-foreground hover:text-primary transition-colors",
+                            COLOR_BARS[highlight.color]
+                          )}
+                        >
+                          &ldquo;{highlight.anchor.exact}&rdquo;
+                        </Link>
+                        {highlight.note && (
+                          <p className="pl-5 text-sm text-muted-foreground whitespace-pre-wrap">
+                            {highlight.note}
+                          </p>
+                        )}
+                        {highlight.orphaned && (
+                          <Badge variant="outline" className="ml-5">
+                            No longer in the latest version
+                          </Badge>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(highlight.id)}
+                        aria-label="Remove highlight"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </MainContent>
+  );
+}
+
+export default HighlightsView;
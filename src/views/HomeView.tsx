@@ -1,6 +1,7 @@
 import MainContent from "@/components/shared/MainContent";
 import { SearchInput } from "@/components/search/SearchInput";
 import { BookOfTheDayCard } from "@/components/book-of-the-day/BookOfTheDayCard";
+import { RecommendedBooks } from "@/components/recommendations/RecommendedBooks";
 
 /**
  * Minimal Home view that shows the centered search input
@@ -9,6 +10,7 @@ import { BookOfTheDayCard } from "@/components/book-of-the-day/BookOfTheDayCard"
  * Layout:
  * - Primary: Search input (focused on load)
  * - Secondary: Book of the Day card (discovery highlight)
+ * - Tertiary: Recommended for you (signed-in users with some history)
  */
 export const HomeView = () => {
   return (
@@ -32,6 +34,9 @@ export const HomeView = () => {
           <div className="pt-8">
             <BookOfTheDayCard />
           </div>
+
+          {/* Tertiary: Personalized picks */}
+          <RecommendedBooks />
         </div>
       </div>
     </MainContent>
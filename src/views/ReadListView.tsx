@@ -5,7 +5,7 @@ import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { BookCard } from "@/components/shared/BookCard";
 import { Button } from "@/components/ui/button";
-import { BookOpen, Loader2 } from "lucide-react";
+import { BookOpen, Loader2, Scale } from "lucide-react";
 import { useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import Link from "next/link";
@@ -13,6 +13,7 @@ import MainContent from "@/components/shared/MainContent";
 import { useReadList } from "@/hooks/useReadList";
 import { toast } from "sonner";
 import type { Book } from "@/types/book";
+import { MIN_COMPARISON_BOOKS } from "@/types/comparison";
 
 type StatusFilter = "all" | "want-to-read" | "reading" | "completed";
 
@@ -116,15 +117,26 @@ export function ReadListView() {
 
   return (
     <MainContent maxWidth="2xl" padding="lg">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">My Reading List</h1>
-        <p className="text-muted-foreground">
-          {readListItems.length === 0
-            ? "Your reading list is empty"
-            : `${readListItems.length} ${
-                readListItems.length === 1 ? "book" : "books"
-              } in your list`}
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">My Reading List</h1>
+          <p className="text-muted-foreground">
+            {readListItems.length === 0
+              ? "Your reading list is empty"
+              : `${readListItems.length} ${
+                  readListItems.length === 1 ? "book" : "books"
+                } in your list`}
+          </p>
+        </div>
+
+        {readListItems.length >= MIN_COMPARISON_BOOKS && (
+          <Button asChild variant="outline" size="sm" className="shrink-0">
+            <Link href="/compare">
+              <Scale className="h-4 w-4 mr-2" />
+              Compare Books
+            </Link>
+          </Button>
+        )}
       </div>
 
       {/* Status Filter Tabs */}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useUser, SignInButton } from "@clerk/nextjs";
+import { GraduationCap, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import MainContent from "@/components/shared/MainContent";
+import { useFlashcardReview } from "@/hooks/useStudySet";
+import type { ReviewGrade } from "@/types/study";
+
+/** Grade buttons, mapped onto the SM-2 scale */
+const REVIEW_GRADES: Array<{ label: string; grade: ReviewGrade }> = [
+  { label: "Again", grade: 1 },
+  { label: "Hard", grade: 3 },
+  { label: "Good", grade: 4 },
+  { label: "Easy", grade: 5 },
+];
+
+/**
+ * ReviewView - Spaced repetition review of due flashcards
+ *
+ * Features:
+ * - Due cards from every saved summary's study set, most overdue first
+ * - Flip a card to check the answer, then grade how well it was recalled
+ * - Each grade reschedules the card with SM-2
+ * - Links back to the summary section a card was drawn from
+ */
+export function ReviewView() {
+  const { isLoaded } = useUser();
+  const { cards, totalDue, reviewCard, isAuthenticated, isLoading } =
+    useFlashcardReview();
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [isGrading, setIsGrading] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  // Graded cards leave the due list, so the next one slides into place
+  const card = cards[0];
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!card) return;
+    setIsGrading(true);
+    try {
+      await reviewCard(card.id, grade);
+      setReviewed((count) => count + 1);
+      setIsFlipped(false);
+    } catch (error) {
+      toast.error("Failed to save your review. Please try again.");
+      console.error("Error reviewing flashcard:", error);
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  // Loading state
+  if (!isLoaded || isLoading) {
+    return (
+      <MainContent maxWidth="2xl" padding="lg">
+        <div className="flex items-center justify-center min-h-[60vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </MainContent>
+    );
+  }
+
+  // Not signed in
+  if (!isAuthenticated) {
+    return (
+      <MainContent maxWidth="md" padding="lg">
+        <div className="max-w-md mx-auto text-center">
+          <div className="mb-6 flex justify-center">
+            <div className="p-4 bg-primary/10 rounded-full">
+              <GraduationCap className="h-12 w-12 text-primary" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold mb-4">Review</h1>
+          <p className="text-muted-foreground mb-8">
+            Sign in to review flashcards from your saved summaries.
+          </p>
+          <SignInButton mode="modal">
+            <Button size="lg">Sign In to Continue</Button>
+          </SignInButton>
+        </div>
+      </MainContent>
+    );
+  }
+
+  return (
+    <MainContent maxWidth="2xl" padding="lg">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Review</h1>
+        <p className="text-muted-foreground">
+          {totalDue > 0
+            ? `${totalDue} ${totalDue === 1 ? "card" : "cards"} due${reviewed > 0 ? ` · ${reviewed} reviewed` : ""}`
+            : "Flashcards from your saved summaries, spaced out as you learn them."}
+        </p>
+      </div>
+
+      {!card ? (
+        <div className="text-center py-16">
+          <p className="text-muted-foreground mb-4">
+            {reviewed > 0
+              ? "All caught up. Come back later for your next review."
+              : "No cards are due. Open a saved summary and choose Study to create flashcards."}
+          </p>
+          <Button asChild>
+            <Link href="/saved-summaries">Saved Summaries</Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="max-w-xl mx-auto space-y-6">
+          <Card className="min-h-64">
+            <CardContent className="flex min-h-64 flex-col gap-6 pt-6">
+              <p className="text-sm text-muted-foreground">{card.bookTitle}</p>
+              <p className="text-xl font-medium">{card.front}</p>
+              {isFlipped && (
+                <div className="border-t pt-6 space-y-3">
+                  <p>{card.back}</p>
+                  <Link
+                    href={`/summaries/${card.summaryId}${card.sectionId ? `#${card.sectionId}` : ""}`}
+                    className="text-sm text-muted-foreground underline hover:text-foreground"
+                  >
+                    Read in the summary
+                  </Link>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {isFlipped ? (
+            <div className="grid grid-cols-4 gap-2">
+              {REVIEW_GRADES.map(({ label, grade }) => (
+                <Button
+                  key={label}
+                  variant={label === "Again" ? "outline" : "secondary"}
+                  onClick={() => handleGrade(grade)}
+                  disabled={isGrading}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <Button className="w-full" onClick={() => setIsFlipped(true)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Show Answer
+            </Button>
+          )}
+        </div>
+      )}
+    </MainContent>
+  );
+}
+
+export default ReviewView;
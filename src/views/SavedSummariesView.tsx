@@ -4,7 +4,17 @@ import { useUser, SignInButton } from "@clerk/nextjs";
 import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Button } from "@/components/ui/button";
-import { FileText, Loader2, Clock, BookOpen } from "lucide-react";
+import {
+  FileText,
+  Loader2,
+  Clock,
+  BookOpen,
+  Languages,
+  Download,
+  ChevronDown,
+  Scale,
+  CheckCircle2,
+} from "lucide-react";
 import Link from "next/link";
 import {
   Card,
@@ -13,8 +23,21 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Progress } from "@/components/ui/progress";
 import { BookCover } from "@/components/shared/BookCover";
 import MainContent from "@/components/shared/MainContent";
+import { getLanguageName } from "@/types/summary";
+import type { BookComparison } from "@/types/comparison";
+import {
+  SUMMARY_EXPORT_FORMATS,
+  SUMMARY_EXPORT_FORMAT_LABELS,
+} from "@/types/export";
 
 export function SavedSummariesView() {
   const { user, isLoaded } = useUser();
@@ -23,6 +46,10 @@ export function SavedSummariesView() {
     api.savedSummaries.getSavedSummaries,
     user ? { userId: user.id } : "skip"
   );
+  const savedComparisons = useQuery(
+    api.bookComparisons.getSavedComparisons,
+    user ? { userId: user.id } : "skip"
+  ) as BookComparison[] | undefined;
 
   if (!isLoaded) {
     return (
@@ -56,21 +83,46 @@ export function SavedSummariesView() {
   }
 
   const summaries = savedSummaries || [];
+  const comparisons = savedComparisons || [];
 
   return (
     <MainContent maxWidth="2xl" padding="lg">
-      <div className="mb-8">
-        <h1 className="text-3xl font-bold mb-2">Saved Summaries</h1>
-        <p className="text-muted-foreground">
-          {summaries.length === 0
-            ? "You haven't saved any summaries yet"
-            : `${summaries.length} ${
-                summaries.length === 1 ? "summary" : "summaries"
-              } saved`}
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Saved Summaries</h1>
+          <p className="text-muted-foreground">
+            {summaries.length === 0
+              ? "You haven't saved any summaries yet"
+              : `${summaries.length} ${
+                  summaries.length === 1 ? "summary" : "summaries"
+                } saved`}
+          </p>
+        </div>
+
+        {/* Export all - one zip archive in the chosen format */}
+        {summaries.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="shrink-0">
+                <Download className="h-4 w-4 mr-2" />
+                Export All
+                <ChevronDown className="h-3 w-3 ml-1 opacity-50" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {SUMMARY_EXPORT_FORMATS.map((format) => (
+                <DropdownMenuItem key={format} asChild>
+                  <a href={`/api/summaries/export?format=${format}`} download>
+                    {SUMMARY_EXPORT_FORMAT_LABELS[format]}
+                  </a>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
 
-      {summaries.length === 0 ? (
+      {summaries.length === 0 && comparisons.length === 0 ? (
         <div className="text-center py-16">
           <p className="text-muted-foreground mb-4">
             Generate and save book summaries to see them here.
@@ -121,6 +173,15 @@ export function SavedSummariesView() {
                           </span>
                         </div>
 
+                        {saved.summary.language && (
+                          <div className="flex items-center gap-1">
+                            <Languages className="h-4 w-4" />
+                            <span>
+                              {getLanguageName(saved.summary.language)}
+                            </span>
+                          </div>
+                        )}
+
                         <div className="flex items-center gap-1">
                           <BookOpen className="h-4 w-4" />
                           <span>{saved.summary.wordCount} words</span>
@@ -131,6 +192,25 @@ export function SavedSummariesView() {
                           <span>{saved.summary.readingTime} min read</span>
                         </div>
 
+                        {/* Reading progress - read once it reaches the end */}
+                        {saved.reading?.completedAt ? (
+                          <div className="flex items-center gap-1 text-green-600 dark:text-green-400">
+                            <CheckCircle2 className="h-4 w-4" />
+                            <span>Read</span>
+                          </div>
+                        ) : (
+                          saved.reading && (
+                            <div className="flex items-center gap-2">
+                              <Progress
+                                value={saved.reading.progress}
+                                className="h-1.5 w-16"
+                                aria-label="Reading progress"
+                              />
+                              <span>{saved.reading.progress}% read</span>
+                            </div>
+                          )
+                        )}
+
                         <div
                           className={`px-2 py-1 rounded-full text-xs font-medium ${
                             saved.summary.status === "completed"
@@ -151,7 +231,8 @@ export function SavedSummariesView() {
                 {saved.summary.content && (
                   <CardContent>
                     <p className="text-sm text-muted-foreground line-clamp-2">
-                      {saved.summary.content}
+                      {saved.summary.structured?.overview ??
+                        saved.summary.content}
                     </p>
                   </CardContent>
                 )}
@@ -160,6 +241,84 @@ export function SavedSummariesView() {
           ))}
         </div>
       )}
+
+      {/* Saved comparisons */}
+      {comparisons.length > 0 && (
+        <div className="mt-12">
+          <h2 className="text-xl font-semibold mb-4">Saved Comparisons</h2>
+          <div className="space-y-6">
+            {comparisons.map((comparison) => (
+              <Link
+                key={comparison.id}
+                href={`/comparisons/${comparison.id}`}
+                className="block"
+              >
+                <Card className="hover:border-primary/50 transition-colors cursor-pointer">
+                  <CardHeader>
+                    <div className="flex items-start gap-4">
+                      {/* Book Covers */}
+                      <div className="flex flex-shrink-0 -space-x-8">
+                        {comparison.books.map((book) => (
+                          <BookCover
+                            key={book.id}
+                            title={book.title}
+                            authors={book.authors}
+                            src={book.thumbnail}
+                            size="small"
+                            clickable={false}
+                          />
+                        ))}
+                      </div>
+
+                      {/* Comparison Info */}
+                      <div className="flex-1 min-w-0">
+                        <CardTitle className="text-lg mb-1">
+                          {comparison.title}
+                        </CardTitle>
+                        <CardDescription className="mb-3">
+                          {comparison.books
+                            .flatMap((book) => book.authors)
+                            .filter(
+                              (author, index, authors) =>
+                                authors.indexOf(author) === index
+                            )
+                            .join(", ")}
+                        </CardDescription>
+
+                        <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                          <div className="flex items-center gap-1">
+                            <Scale className="h-4 w-4" />
+                            <span>Comparison</span>
+                          </div>
+
+                          {comparison.language && (
+                            <div className="flex items-center gap-1">
+                              <Languages className="h-4 w-4" />
+                              <span>
+                                {getLanguageName(comparison.language)}
+                              </span>
+                            </div>
+                          )}
+
+                          <div className="flex items-center gap-1">
+                            <BookOpen className="h-4 w-4" />
+                            <span>{comparison.wordCount} words</span>
+                          </div>
+
+                          <div className="flex items-center gap-1">
+                            <Clock className="h-4 w-4" />
+                            <span>{comparison.readingTime} min read</span>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  </CardHeader>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
     </MainContent>
   );
 }
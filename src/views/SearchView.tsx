@@ -2,6 +2,10 @@
 
 import { useCallback, useEffect, useMemo } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import { useConvex, useQuery } from "convex/react";
+import { Globe, Library } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import { SearchFilters } from "@/components/search/SearchFilters";
 import { SearchInput } from "@/components/search/SearchInput";
 import {
   ResultsList,
@@ -9,12 +13,23 @@ import {
   type PaginationInfo,
 } from "@/components/search/ResultsList";
 import MainContent from "@/components/shared/MainContent";
+import { Button } from "@/components/ui/button";
 import { useBookSearch } from "@/hooks/useBookSearch";
-import type { SearchResults as ApiSearchResults } from "@/types/book";
+import { createSearchAnalyticsService } from "@/lib/analytics/searchTracking";
+import {
+  parseSearchFilters,
+  writeSearchFilters,
+  type SearchFilters as SearchFilterValues,
+} from "@/lib/searchFilters";
+import type {
+  SearchResults as ApiSearchResults,
+  SearchScope,
+} from "@/types/book";
+import type { DiscoveryResults, SearchMode } from "@/types/discovery";
 
 // Transform API SearchResults to component SearchResults
 function transformSearchResults(
-  apiResults?: ApiSearchResults
+  apiResults?: ApiSearchResults | DiscoveryResults
 ): ComponentSearchResults | undefined {
   if (!apiResults) return undefined;
 
@@ -35,6 +50,7 @@ function transformSearchResults(
     books: apiResults.books, // No transformation needed - use the standard Book type directly
     pagination,
     query: apiResults.query,
+    rationales: "rationales" in apiResults ? apiResults.rationales : undefined,
   };
 }
 
@@ -46,6 +62,9 @@ function transformSearchResults(
  * - URL state synchronization with search parameters
  * - Loading, error, and empty states handling
  * - Pagination support with query preservation
+ * - Prompt mode (?mode=prompt): ranked suggestions with a rationale each
+ * - "My library" scope (?scope=library) for signed-in users' own books
+ * - Facets and sort for keyword search, kept in the URL (see searchFilters.ts)
  * - Clean, focused design prioritizing search functionality
  *
  * Why this architecture:
@@ -63,6 +82,14 @@ export const SearchView = () => {
   const authorQuery = searchParams.get("author") || "";
   const page = parseInt(searchParams.get("page") || "0", 10);
   const maxResults = parseInt(searchParams.get("limit") || "20", 10);
+  const mode: SearchMode =
+    searchParams.get("mode") === "prompt" ? "promptMode" : "searchMode";
+  const scope: SearchScope =
+    searchParams.get("scope") === "library" ? "library" : "all";
+  const filters = useMemo(
+    () => parseSearchFilters(searchParams),
+    [searchParams]
+  );
 
   // hook for storing current page search params
   // so that user can always navigate back to this page from book detail view, even after viewing a book summary
@@ -71,6 +98,20 @@ export const SearchView = () => {
     localStorage.setItem("lastSearchUrl", window.location.href);
   }, [query]);
 
+  // Remember signed-in users' keyword searches for their recommendations
+  const convex = useConvex();
+  const currentUser = useQuery(api.users.current);
+  const currentUserId = currentUser?._id;
+  useEffect(() => {
+    if (!currentUserId || !query.trim() || mode !== "searchMode") return;
+
+    createSearchAnalyticsService(convex).logUserActivity({
+      activityType: "search",
+      searchTerm: query.trim(),
+      userId: currentUserId,
+    });
+  }, [convex, currentUserId, query, mode]);
+
   // Search hook with URL-derived parameters
   const {
     data: searchResults,
@@ -82,7 +123,15 @@ export const SearchView = () => {
     authorQuery: authorQuery || undefined, // Pass undefined if empty to maintain backwards compatibility
     startIndex: page * maxResults,
     maxResults,
-    enabled: Boolean(query.trim()), // Only search if query exists
+    mode,
+    // Prompts describe what they want in words instead
+    ...(mode === "searchMode" && filters),
+    // The library needs a signed-in user; wait for them to load
+    scope: mode === "searchMode" ? scope : undefined,
+    userId: currentUser?.externalId,
+    enabled:
+      Boolean(query.trim()) && // Only search if query exists
+      (scope === "all" || mode !== "searchMode" || !!currentUser),
   });
 
   // Transform search results for component
@@ -93,9 +142,16 @@ export const SearchView = () => {
 
   // Handle new search queries from SearchInput
   const handleSearch = useCallback(
-    (newQuery: string) => {
+    (newQuery: string, newMode: SearchMode) => {
       const params = new URLSearchParams(searchParams);
 
+      if (newMode === "promptMode") {
+        params.set("mode", "prompt");
+        params.delete("author"); // Prompts describe the author themselves
+      } else {
+        params.delete("mode");
+      }
+
       if (newQuery.trim()) {
         params.set("q", newQuery.trim());
         params.delete("page"); // Reset to first page for new search
@@ -109,6 +165,32 @@ export const SearchView = () => {
     [router, searchParams]
   );
 
+  // Apply facets and sort from the filter panel
+  const handleFiltersChange = useCallback(
+    (newFilters: SearchFilterValues) => {
+      const params = writeSearchFilters(searchParams, newFilters);
+      router.push(`/search?${params.toString()}`);
+    },
+    [router, searchParams]
+  );
+
+  // Switch between searching every book and the user's library
+  const handleScopeChange = useCallback(
+    (newScope: SearchScope) => {
+      const params = new URLSearchParams(searchParams);
+
+      if (newScope === "library") {
+        params.set("scope", "library");
+      } else {
+        params.delete("scope");
+      }
+      params.delete("page");
+
+      router.push(`/search?${params.toString()}`);
+    },
+    [router, searchParams]
+  );
+
   // Handle pagination changes
   const handlePageChange = useCallback(
     (newPage: number) => {
@@ -138,10 +220,50 @@ export const SearchView = () => {
           placeholder="Search for books by title, author, or keyword..."
           // variant="compact"
           className="max-w-2xl w-full mx-auto"
+          mode={mode}
           onSearch={handleSearch}
         />
+
+        {/* Search scope (signed-in keyword search only) */}
+        {currentUser && mode === "searchMode" && (
+          <div
+            className="mt-10 flex justify-center gap-2"
+            role="group"
+            aria-label="Search scope"
+          >
+            <Button
+              type="button"
+              variant={scope === "all" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => handleScopeChange("all")}
+              aria-pressed={scope === "all"}
+            >
+              <Globe className="mr-1 h-3 w-3" />
+              All books
+            </Button>
+            <Button
+              type="button"
+              variant={scope === "library" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => handleScopeChange("library")}
+              aria-pressed={scope === "library"}
+            >
+              <Library className="mr-1 h-3 w-3" />
+              My library
+            </Button>
+          </div>
+        )}
       </div>
 
+      {/* Facets and sort (keyword search only) */}
+      {mode === "searchMode" && query.trim() && (
+        <SearchFilters
+          filters={filters}
+          onChange={handleFiltersChange}
+          className="max-w-2xl w-full mx-auto"
+        />
+      )}
+
       {/* Search Results */}
       <ResultsList
         results={transformedResults}
@@ -8,10 +8,27 @@ import { api } from "../../convex/_generated/api";
 import { cn } from "../lib/utils";
 import { SummaryHeader } from "../components/summary/SummaryHeader";
 import { SummaryReader } from "../components/summary/SummaryReader";
+import { SummaryRevisionsSheet } from "../components/summary/SummaryRevisionsSheet";
+import { SummaryNarrationPlayer } from "../components/summary/SummaryNarrationPlayer";
+import { BookChatSheet } from "../components/summary/BookChatSheet";
+import { SummaryStudySheet } from "../components/summary/SummaryStudySheet";
+import {
+  SummaryResumePrompt,
+  shouldOfferResume,
+} from "../components/summary/SummaryResumePrompt";
 import { Card, CardContent } from "../components/ui/card";
 import { Button } from "../components/ui/button";
 import { Loader2, AlertCircle, BookOpen } from "lucide-react";
-import type { Summary } from "../types/summary";
+import {
+  parseStructuredSummary,
+  SummaryQualitySchema,
+  type Summary,
+} from "../types/summary";
+import { useSummaryRevisions } from "../hooks/useSummaryRevisions";
+import { useSavedSummaries } from "../hooks/useSavedSummaries";
+import { useSummaryHighlights } from "../hooks/useSummaryHighlights";
+import { useReadingPosition } from "../hooks/useReadingPosition";
+import type { ReadingPosition } from "../types/reading";
 
 interface SummaryReadingViewProps {
   /** ID of the summary to display */
@@ -27,6 +44,12 @@ interface SummaryReadingViewProps {
  * - Immersive typography optimized for reading
  * - Sticky navigation header with actions
  * - Reading progress tracking
+ * - Revision history with section-by-section comparison
+ * - Audio narration that the reader follows section by section
+ * - Follow-up questions about the book, with answers citing sections
+ * - Flashcards and a quiz drawn from the summary
+ * - Highlights and notes that follow the text across regenerations
+ * - Remembers the reading position, offering to continue on any device
  * - Accessible design with semantic markup
  * - Loading and error states
  * - SEO optimized with proper metadata
@@ -38,6 +61,26 @@ export function SummaryReadingView({
   const router = useRouter();
   const convex = useConvex();
   const [readingProgress, setReadingProgress] = React.useState(0);
+  const [revisionsOpen, setRevisionsOpen] = React.useState(false);
+  const [narrationOpen, setNarrationOpen] = React.useState(false);
+  const [chatOpen, setChatOpen] = React.useState(false);
+  const [studyOpen, setStudyOpen] = React.useState(false);
+  const [readerSection, setReaderSection] = React.useState<string | null>(null);
+  const [narratedSection, setNarratedSection] = React.useState<string | null>(
+    null
+  );
+
+  const { revisions, latestRevision, pinnedRevision, pinRevision } =
+    useSummaryRevisions(summaryId);
+  const { isSaved } = useSavedSummaries(summaryId);
+  const {
+    position,
+    reportPosition,
+    isLoading: isPositionLoading,
+  } = useReadingPosition(summaryId);
+  const [resumeFrom, setResumeFrom] = React.useState<ReadingPosition | null>(
+    null
+  );
 
   // Fetch summary data from Convex
   const {
@@ -81,12 +124,17 @@ export function SummaryReadingView({
           bookAuthors: (result.bookAuthors as string[]) || [], // Default for backward compatibility
           summaryType: result.summaryType as any,
           content: result.content as string,
+          structured: parseStructuredSummary(result.structured),
+          language: result.language as string | undefined,
+          revision: result.currentRevision as number | undefined,
           status: result.status as any,
           generationTime: result.generationTime as number | undefined,
           wordCount: result.wordCount as number,
           readingTime: result.readingTime as number,
           aiModel: result.aiModel as string,
           promptVersion: result.promptVersion as string,
+          generationMode: result.generationMode as Summary["generationMode"],
+          quality: SummaryQualitySchema.safeParse(result.quality).data,
           errorMessage: result.errorMessage as string | undefined,
           metadata: result.metadata as any,
           createdAt: new Date(result.createdAt as number),
@@ -102,6 +150,38 @@ export function SummaryReadingView({
     gcTime: 1000 * 60 * 30, // 30 minutes
   });
 
+  const highlights = useSummaryHighlights(summaryId, summary?.revision ?? 0);
+
+  // Offer to continue from the position saved before this visit, once
+  const resumeChecked = React.useRef(false);
+  React.useEffect(() => {
+    if (resumeChecked.current || isPositionLoading || !summary) return;
+    resumeChecked.current = true;
+    if (shouldOfferResume(position)) {
+      setResumeFrom(position);
+    }
+  }, [position, isPositionLoading, summary]);
+
+  // Save the position as the user reads
+  React.useEffect(() => {
+    if (readingProgress > 0) {
+      reportPosition(readingProgress, readerSection);
+    }
+  }, [readingProgress, readerSection, reportPosition]);
+
+  // Show a regeneration once it lands as a new revision
+  const shownRevision = React.useRef<number | undefined>(undefined);
+  React.useEffect(() => {
+    if (latestRevision === undefined) return;
+    if (
+      shownRevision.current !== undefined &&
+      shownRevision.current !== latestRevision
+    ) {
+      refetch();
+    }
+    shownRevision.current = latestRevision;
+  }, [latestRevision, refetch]);
+
   // Handle navigation back to book
   const handleBackToBook = () => {
     if (summary?.bookId) {
@@ -111,6 +191,26 @@ export function SummaryReadingView({
     }
   };
 
+  // Jump back to the saved section, or the saved scroll depth without one
+  const handleResume = () => {
+    if (!resumeFrom) return;
+    const heading = resumeFrom.sectionId
+      ? document.getElementById(resumeFrom.sectionId)
+      : null;
+    if (heading) {
+      heading.scrollIntoView({ behavior: "smooth", block: "start" });
+    } else {
+      window.scrollTo({
+        top:
+          ((document.documentElement.scrollHeight - window.innerHeight) *
+            resumeFrom.progress) /
+          100,
+        behavior: "smooth",
+      });
+    }
+    setResumeFrom(null);
+  };
+
   // Handle retry on error
   const handleRetry = () => {
     refetch();
@@ -184,21 +284,73 @@ export function SummaryReadingView({
         summary={summary}
         readingProgress={readingProgress}
         onBackToBook={handleBackToBook}
+        onCompareRevisions={() => setRevisionsOpen(true)}
+        onListen={() => setNarrationOpen(true)}
+        onAsk={() => setChatOpen(true)}
+        onStudy={() => setStudyOpen(true)}
         className="fixed top-[60px] left-0 right-0 z-40 bg-background/80 backdrop-blur-md border-b"
       />{" "}
       {/* Main Reading Content - account for both navbar heights */}
-      <main className="container mx-auto px-4 md:pt-[136px] pt-[180px] pb-8">
+      <main
+        className={cn(
+          "container mx-auto px-4 md:pt-[136px] pt-[180px] pb-8",
+          narrationOpen && "pb-28"
+        )}
+      >
         <div className="max-w-4xl mx-auto space-y-8">
+          {resumeFrom && (
+            <SummaryResumePrompt
+              position={resumeFrom}
+              sectionHeading={
+                summary.structured?.sections.find(
+                  (section) => section.id === resumeFrom.sectionId
+                )?.heading
+              }
+              onResume={handleResume}
+              onDismiss={() => setResumeFrom(null)}
+            />
+          )}
+
           {/* Summary Content */}
           <SummaryReader
             content={summary.content}
+            structured={summary.structured}
             summaryType={summary.summaryType}
             wordCount={summary.wordCount}
             readingTime={summary.readingTime}
             onProgressChange={setReadingProgress}
+            narratedSection={narratedSection}
+            onSectionChange={setReaderSection}
+            highlights={highlights}
           />
         </div>
       </main>
+      <SummaryRevisionsSheet
+        open={revisionsOpen}
+        onOpenChange={setRevisionsOpen}
+        revisions={revisions}
+        pinnedRevision={pinnedRevision}
+        isSaved={isSaved}
+        onPin={pinRevision}
+      />
+      <BookChatSheet
+        open={chatOpen}
+        onOpenChange={setChatOpen}
+        summary={summary}
+      />
+      <SummaryStudySheet
+        open={studyOpen}
+        onOpenChange={setStudyOpen}
+        summary={summary}
+      />
+      {narrationOpen && (
+        <SummaryNarrationPlayer
+          summary={summary}
+          readerSection={readerSection}
+          onNarratedSectionChange={setNarratedSection}
+          onClose={() => setNarrationOpen(false)}
+        />
+      )}
     </div>
   );
 }